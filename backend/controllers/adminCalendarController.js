@@ -187,7 +187,7 @@ async function getCasesByDate(req, res) {
 
     const pool = await poolPromise;
 
-    // Get cases for the date
+    // Get cases for the date (including multi-day cases with a later session that day)
     const casesResult = await pool.request().input("date", sql.Date, date)
       .query(`
         SELECT
@@ -197,7 +197,9 @@ async function getCasesByDate(req, res) {
           c.County,
           c.State as CaseState,
           c.ScheduledDate,
-          c.ScheduledTime,
+          COALESCE(ts.ScheduledTime, c.ScheduledTime) as ScheduledTime,
+          ISNULL(ts.SessionNumber, 1) as SessionNumber,
+          ts.Label as SessionLabel,
           c.AttorneyStatus,
           c.PlaintiffGroups,
           c.DefendantGroups,
@@ -211,10 +213,11 @@ async function getCasesByDate(req, res) {
         FROM dbo.Cases c
         JOIN dbo.Attorneys a ON c.AttorneyId = a.AttorneyId
         LEFT JOIN dbo.TrialMeetings tm ON c.CaseId = tm.CaseId
-        WHERE CAST(c.ScheduledDate AS DATE) = @date
+        LEFT JOIN dbo.TrialSessions ts ON c.CaseId = ts.CaseId AND ts.ScheduledDate = @date
+        WHERE (CAST(c.ScheduledDate AS DATE) = @date OR ts.SessionId IS NOT NULL)
           AND c.AdminApprovalStatus = 'approved'
           AND c.IsDeleted = 0
-        ORDER BY c.ScheduledTime
+        ORDER BY COALESCE(ts.ScheduledTime, c.ScheduledTime)
       `);
 
     const cases = casesResult.recordset;
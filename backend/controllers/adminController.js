@@ -3,6 +3,7 @@
 // =============================================
 
 const Case = require("../models/Case");
+const CaseLifecycle = require("../models/CaseLifecycle");
 const JurorApplication = require("../models/JurorApplication");
 const Event = require("../models/Event");
 const Notification = require("../models/Notification");
@@ -65,6 +66,21 @@ async function reviewCaseApproval(req, res) {
       });
     }
 
+    // Approval moves the case into the war room, so it must be a legal transition
+    if (decision === "approved" && caseData.AttorneyStatus !== Case.ATTORNEY_CASE_STATES.WAR_ROOM) {
+      const validation = await CaseLifecycle.validateTransition(
+        { ...caseData, AdminApprovalStatus: Case.ADMIN_APPROVAL_STATUSES.APPROVED },
+        Case.ATTORNEY_CASE_STATES.WAR_ROOM,
+        CaseLifecycle.ACTOR_TYPES.ADMIN
+      );
+      if (!validation.valid) {
+        return res.status(400).json({
+          success: false,
+          message: validation.message,
+        });
+      }
+    }
+
     if (decision === "approved") {
       // APPROVAL FLOW
       // Convert ScheduledTime to HH:MM:SS string (handle both Date objects and strings with microseconds)
@@ -166,6 +182,13 @@ async function reviewCaseApproval(req, res) {
         juryChargeStatus: "pending", // Default to pending when approved
       });
 
+      // Approval opens the war room
+      await CaseLifecycle.transitionCase(caseId, Case.ATTORNEY_CASE_STATES.WAR_ROOM, {
+        actorId: adminId,
+        actorType: CaseLifecycle.ACTOR_TYPES.ADMIN,
+        reason: comments,
+      });
+
       // Create event
       await Event.createEvent({
         caseId,
@@ -437,6 +460,10 @@ async function deleteCase(req, res) {
       const pool = await poolPromise;
       const id = parseInt(caseId, 10);
 
+      await pool.request().input("caseId", id).query(
+        `DELETE FROM dbo.WarRoomDocumentVersions
+         WHERE DocumentId IN (SELECT Id FROM dbo.WarRoomDocuments WHERE CaseId = @caseId)`
+      );
       await pool.request().input("caseId", id).query(
         `DELETE FROM dbo.WarRoomDocuments WHERE CaseId = @caseId`
       );
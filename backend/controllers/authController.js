@@ -11,6 +11,7 @@ const Attorney = require("../models/Attorney");
 const Juror = require("../models/Juror");
 const Admin = require("../models/Admin");
 const LoginAttempts = require("../models/LoginAttempts");
+const WarRoomTeam = require("../models/WarRoomTeam");
 
 // Utils
 const {
@@ -1303,6 +1304,248 @@ async function adminLogin(req, res) {
   }
 }
 
+/* ===========================================================
+   WAR ROOM TEAM MEMBER AUTHENTICATION
+   =========================================================== */
+
+/**
+ * Team member login
+ * Team member accounts only exist after accepting a war room invitation
+ */
+async function teamMemberLogin(req, res) {
+  try {
+    const { email, password } = req.body;
+
+    if (!email || !password) {
+      return res.status(400).json({
+        success: false,
+        error: "Email and password are required",
+        code: "MISSING_CREDENTIALS",
+      });
+    }
+
+    const normalizedEmail = email.toLowerCase().trim();
+    const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.connection.remoteAddress;
+
+    // Check failed login attempts
+    const failedAttempts = await LoginAttempts.getRecentFailedAttempts(
+      normalizedEmail,
+      "team_member",
+      LOGIN_LOCKOUT_MINUTES
+    );
+
+    if (failedAttempts >= MAX_LOGIN_ATTEMPTS) {
+      const unlockTime = await LoginAttempts.getAccountLockoutTime(
+        normalizedEmail,
+        "team_member",
+        LOGIN_LOCKOUT_MINUTES
+      );
+
+      const now = new Date();
+      const minutesRemaining = Math.ceil((new Date(unlockTime) - now) / 60000);
+
+      return res.status(429).json({
+        success: false,
+        error: `Account temporarily locked due to too many failed login attempts. Please try again in ${minutesRemaining} minute${minutesRemaining > 1 ? 's' : ''}.`,
+        code: "ACCOUNT_LOCKED",
+        minutesRemaining,
+      });
+    }
+
+    const account = await WarRoomTeam.findAccountByEmail(normalizedEmail);
+    const isValidPassword = account
+      ? await bcrypt.compare(password, account.PasswordHash)
+      : false;
+
+    if (!isValidPassword) {
+      await LoginAttempts.recordFailedAttempt(normalizedEmail, "team_member", ipAddress);
+
+      const attemptsRemaining = MAX_LOGIN_ATTEMPTS - (failedAttempts + 1);
+      return res.status(401).json({
+        success: false,
+        error: attemptsRemaining <= 0
+          ? `Invalid email or password. Account locked for ${LOGIN_LOCKOUT_MINUTES} minutes due to too many failed attempts.`
+          : `Invalid email or password. ${attemptsRemaining} attempt${attemptsRemaining > 1 ? 's' : ''} remaining before account lockout.`,
+        code: "INVALID_CREDENTIALS",
+        attemptsRemaining: Math.max(attemptsRemaining, 0),
+      });
+    }
+
+    if (!account.IsActive) {
+      return res.status(403).json({
+        success: false,
+        error: "Your account has been deactivated. Please contact support at QVTrial@quickverdicts.com",
+        code: "ACCOUNT_DEACTIVATED",
+      });
+    }
+
+    await LoginAttempts.clearFailedAttempts(normalizedEmail, "team_member");
+    await WarRoomTeam.updateLastLogin(account.AccountId);
+
+    const token = generateJWT(
+      { id: account.AccountId, email: account.Email },
+      "team_member"
+    );
+
+    res.cookie("token", token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "strict",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    });
+
+    return res.json({
+      success: true,
+      message: "Login successful",
+      token,
+      user: {
+        id: account.AccountId,
+        email: account.Email,
+        name: account.Name,
+        type: "team_member",
+      },
+    });
+  } catch (error) {
+    console.error("❌ [TeamMember.login] Error:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Login failed",
+      code: "INTERNAL_ERROR",
+    });
+  }
+}
+
+/**
+ * Look up a war room team invitation so the accept page can show who
+ * invited the member and whether they already have an account
+ */
+async function getTeamInvite(req, res) {
+  try {
+    const invite = await WarRoomTeam.getInviteByToken(req.params.token);
+
+    if (!invite) {
+      return res.status(404).json({
+        success: false,
+        error: "This invitation is invalid or has expired. Ask the attorney to resend it.",
+        code: "INVITE_NOT_FOUND",
+      });
+    }
+
+    return res.json({
+      success: true,
+      invite: {
+        caseTitle: invite.caseTitle,
+        name: invite.name,
+        email: invite.email,
+        role: invite.role,
+        invitedBy: invite.invitedBy,
+        lawFirmName: invite.lawFirmName,
+        expiresAt: invite.expiresAt,
+        hasAccount: invite.hasAccount,
+      },
+    });
+  } catch (error) {
+    console.error("❌ [TeamMember.getInvite] Error:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to load invitation",
+      code: "INTERNAL_ERROR",
+    });
+  }
+}
+
+/**
+ * Accept a war room team invitation
+ * New invitees set a name and password; invitees who already have a team
+ * member account (from another case) confirm with their existing password.
+ * Signs the member in on success.
+ */
+async function acceptTeamInvite(req, res) {
+  try {
+    const { token } = req.params;
+    const { name, password } = req.body;
+
+    const invite = await WarRoomTeam.getInviteByToken(token);
+    if (!invite) {
+      return res.status(404).json({
+        success: false,
+        error: "This invitation is invalid or has expired. Ask the attorney to resend it.",
+        code: "INVITE_NOT_FOUND",
+      });
+    }
+
+    const existing = await WarRoomTeam.findAccountByEmail(invite.email);
+    let account;
+
+    if (existing) {
+      const isValidPassword = await bcrypt.compare(password, existing.PasswordHash);
+      if (!isValidPassword) {
+        return res.status(401).json({
+          success: false,
+          error: "Incorrect password for your existing team member account",
+          code: "INVALID_CREDENTIALS",
+        });
+      }
+      account = await WarRoomTeam.acceptInvite(token, { existingAccountId: existing.AccountId });
+    } else {
+      const trimmedName = typeof name === "string" ? name.trim() : "";
+      if (trimmedName.length > 100) {
+        return res.status(400).json({
+          success: false,
+          error: "Name too long (max 100 characters)",
+          code: "INVALID_NAME",
+        });
+      }
+
+      const saltRounds = 10;
+      const passwordHash = await bcrypt.hash(password, saltRounds);
+      account = await WarRoomTeam.acceptInvite(token, {
+        name: trimmedName || invite.name,
+        passwordHash,
+      });
+    }
+
+    const jwtToken = generateJWT(
+      { id: account.AccountId, email: account.Email },
+      "team_member"
+    );
+
+    res.cookie("token", jwtToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "strict",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    });
+
+    return res.json({
+      success: true,
+      message: "Invitation accepted",
+      token: jwtToken,
+      caseId: invite.caseId,
+      user: {
+        id: account.AccountId,
+        email: account.Email,
+        name: account.Name,
+        type: "team_member",
+      },
+    });
+  } catch (error) {
+    if (error.message && error.message.startsWith("Team validation failed:")) {
+      return res.status(400).json({
+        success: false,
+        error: error.message.replace("Team validation failed: ", ""),
+        code: "INVALID_INVITE",
+      });
+    }
+    console.error("❌ [TeamMember.acceptInvite] Error:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to accept invitation",
+      code: "INTERNAL_ERROR",
+    });
+  }
+}
+
 /* ===========================================================
    PASSWORD RESET - OTP BASED
    =========================================================== */
@@ -1641,6 +1884,16 @@ async function verifyToken(req, res) {
           role: admin.Role,
         };
       }
+    } else if (decoded.type === "team_member") {
+      const account = await WarRoomTeam.findAccountById(decoded.id);
+      if (account && account.IsActive) {
+        user = {
+          id: account.AccountId,
+          email: account.Email,
+          type: "team_member",
+          name: account.Name,
+        };
+      }
     }
 
     if (!user) {
@@ -1701,6 +1954,12 @@ async function getCurrentUser(req, res) {
         delete admin.PasswordHash;
         fullUser = admin;
       }
+    } else if (user.type === "team_member") {
+      const account = await WarRoomTeam.findAccountById(user.id);
+      if (account) {
+        delete account.PasswordHash;
+        fullUser = account;
+      }
     }
 
     if (!fullUser) {
@@ -1995,6 +2254,11 @@ module.exports = {
   // Admin
   adminLogin,
 
+  // War room team members
+  teamMemberLogin,
+  getTeamInvite,
+  acceptTeamInvite,
+
   // Password Reset (OTP-based)
   requestPasswordReset,
   verifyPasswordResetOTP,
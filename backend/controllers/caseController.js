@@ -4,11 +4,14 @@
 // =============================================
 
 const Case = require("../models/Case");
+const CaseLifecycle = require("../models/CaseLifecycle");
 const JurorApplication = require("../models/JurorApplication");
 const Event = require("../models/Event");
 const Notification = require("../models/Notification");
 const Verdict = require("../models/Verdict");
-const Payment = require("../models/Payment");
+const CaseDraft = require("../models/CaseDraft");
+const Firm = require("../models/Firm");
+const { createVerdictPayouts } = require("./payoutController");
 const { poolPromise, sql } = require("../config/db");
 
 // ============================================
@@ -82,7 +85,7 @@ async function createCase(req, res) {
 
   try {
     const attorneyId = req.user.id;
-    const { voirDire2Questions, ...restOfBody } = req.body;
+    const { voirDire2Questions, draftId, ...restOfBody } = req.body;
 
     console.log("=== CREATE CASE DEBUG ===");
     console.log("Attorney ID:", attorneyId);
@@ -295,9 +298,29 @@ async function createCase(req, res) {
           VALUES (@eventCaseId, @eventType, @eventDescription, @triggeredBy, @userType, @metadata, GETUTCDATE())
         `);
 
+      // First entry in the case's status history
+      await transaction
+        .request()
+        .input("historyCaseId", sql.Int, caseId)
+        .input("toStatus", sql.NVarChar(50), Case.ATTORNEY_CASE_STATES.PENDING_ADMIN_APPROVAL)
+        .input("changedBy", sql.Int, attorneyId)
+        .query(`
+          INSERT INTO dbo.CaseStatusHistory (CaseId, FromStatus, ToStatus, ChangedBy, ChangedByType)
+          VALUES (@historyCaseId, NULL, @toStatus, @changedBy, 'attorney')
+        `);
+
       // FIXED: Commit transaction
       await transaction.commit();
 
+      // Close the wizard draft this case came from (non-fatal)
+      if (draftId) {
+        try {
+          await CaseDraft.markSubmitted(draftId, attorneyId, caseId);
+        } catch (draftError) {
+          console.warn("⚠️  Failed to close case draft:", draftError.message);
+        }
+      }
+
       res.json({
         success: true,
         message: "Case created successfully and submitted for admin approval",
@@ -359,14 +382,27 @@ async function getAttorneyCases(req, res) {
     }
 
     const attorneyId = req.user.id;
-    const { status, page = 1, limit = 50 } = req.query;
+    const { status, scope, page = 1, limit = 50 } = req.query;
 
     // FIXED: Add pagination
     const pageNum = parseInt(page, 10);
     const limitNum = parseInt(limit, 10);
     const offset = (pageNum - 1) * limitNum;
 
-    const cases = await Case.getCasesByAttorney(attorneyId, status);
+    // ?scope=firm lists the cases of everyone at the attorney's firm
+    let firmId = null;
+    if (scope === "firm") {
+      const membership = await Firm.getMembership(attorneyId);
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          message: "You are not a member of a firm",
+        });
+      }
+      firmId = membership.firmId;
+    }
+
+    const cases = await Case.getCasesByAttorney(attorneyId, { status, firmId });
 
     // Transform to match frontend expectations
     const transformedCases = cases.map((c) => ({
@@ -375,7 +411,9 @@ async function getAttorneyCases(req, res) {
       DefendantGroups: c.DefendantGroups,
       ScheduledDate: c.ScheduledDate,
       ScheduledTime: c.ScheduledTime,
-      attorneyEmail: req.user.email,
+      attorneyEmail: c.AttorneyEmail || req.user.email,
+      AttorneyId: c.AttorneyId,
+      AttorneyName: c.AttorneyName,
       CaseTitle: c.CaseTitle,
       AttorneyStatus: c.AttorneyStatus,
       AdminApprovalStatus: c.AdminApprovalStatus,
@@ -383,6 +421,7 @@ async function getAttorneyCases(req, res) {
       AlternateSlots: c.AlternateSlots,
       OriginalScheduledDate: c.OriginalScheduledDate,
       OriginalScheduledTime: c.OriginalScheduledTime,
+      SourceCaseId: c.SourceCaseId,
     }));
 
     // FIXED: Apply pagination
@@ -435,7 +474,7 @@ async function getCaseDetails(req, res) {
     }
 
     // Verify attorney owns this case
-    if (caseData.AttorneyId !== attorneyId) {
+    if (!(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         message: "Access denied - you do not own this case",
@@ -514,28 +553,30 @@ async function transitionCaseState(req, res) {
     }
 
     // Verify attorney owns this case
-    if (caseData.AttorneyId !== attorneyId) {
+    if (!(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         message: "Access denied - you do not own this case",
       });
     }
 
-    // Validate transition
-    const validation = await Case.validateCaseStateTransition(
-      caseId,
-      newStatus
-    );
-    if (!validation.valid) {
-      return res.status(400).json({
-        success: false,
-        message: validation.message,
+    // Validate and apply the transition (recorded in the status history)
+    try {
+      await CaseLifecycle.transitionCase(caseId, newStatus, {
+        actorId: attorneyId,
+        actorType: CaseLifecycle.ACTOR_TYPES.ATTORNEY,
+        reason: req.body.reason,
       });
+    } catch (transitionError) {
+      if (transitionError.message.startsWith("Case transition failed: ")) {
+        return res.status(400).json({
+          success: false,
+          message: transitionError.message.replace(/^Case transition failed: /, ""),
+        });
+      }
+      throw transitionError;
     }
 
-    // Update case status
-    await Case.updateCaseStatus(caseId, { attorneyStatus: newStatus });
-
     // Create event
     await Event.createEvent({
       caseId,
@@ -623,7 +664,7 @@ async function getCaseEvents(req, res) {
       });
     }
 
-    if (caseData.AttorneyId !== attorneyId) {
+    if (!(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         message: "Access denied - you do not own this case",
@@ -999,6 +1040,9 @@ async function submitVerdict(req, res) {
     // Submit verdict
     const verdictId = await Verdict.submitVerdict(verdictData);
 
+    // Queue the juror's payout (held for review if attendance fell short)
+    await createVerdictPayouts(caseId, jurorId);
+
     // Get case details for notification
     const caseData = await Case.findById(caseId);
 
@@ -1036,114 +1080,11 @@ async function submitVerdict(req, res) {
         message: `All jurors have submitted their verdicts for case "${caseData.CaseTitle}". You can now view the complete results.`,
       });
 
-      // ============================================
-      // JUROR PAYMENT PROCESSING
-      // ============================================
-      try {
-        console.log(`[Payment] Starting juror payment processing for case ${caseId}...`);
-
-        // 1. Get all approved jurors for this case
-        const allApplications = await JurorApplication.getApplicationsByCase(caseId);
-        const approvedJurors = allApplications.filter(app => app.Status === 'approved');
-
-        if (approvedJurors.length === 0) {
-          console.warn(`[Payment] No approved jurors found for case ${caseId}`);
-        } else {
-          console.log(`[Payment] Found ${approvedJurors.length} approved jurors to pay`);
-
-          // 2. Get attorney's original payment (case_filing type)
-          const casePayments = await Payment.getPaymentsByCase(caseId);
-          const attorneyPayment = casePayments.find(
-            p => p.PaymentType === Payment.PAYMENT_TYPES.CASE_FILING &&
-                 p.Status === Payment.PAYMENT_STATUSES.COMPLETED
-          );
-
-          if (!attorneyPayment) {
-            console.error(`[Payment] No completed attorney payment found for case ${caseId}`);
-          } else {
-            // 3. Calculate per-juror payment amount
-            const totalPaymentAmount = parseFloat(attorneyPayment.Amount);
-            const perJurorAmount = totalPaymentAmount / approvedJurors.length;
-
-            console.log(`[Payment] Total attorney payment: $${totalPaymentAmount}`);
-            console.log(`[Payment] Per-juror payment: $${perJurorAmount.toFixed(2)}`);
-
-            // 4. Create payment records for each approved juror
-            const paymentPromises = approvedJurors.map(async (juror) => {
-              try {
-                // Create payment record
-                const paymentId = await Payment.createPayment({
-                  caseId: caseId,
-                  userId: juror.JurorId,
-                  userType: 'juror',
-                  amount: perJurorAmount.toFixed(2),
-                  paymentMethod: attorneyPayment.PaymentMethod,
-                  paymentType: Payment.PAYMENT_TYPES.JUROR_PAYMENT,
-                  transactionId: `JUROR-${caseId}-${juror.JurorId}-${Date.now()}`,
-                  description: `Payment for case "${caseData.CaseTitle}" - Trial completion`,
-                });
-
-                // Mark payment as completed immediately
-                await Payment.updatePaymentStatus(
-                  paymentId,
-                  Payment.PAYMENT_STATUSES.COMPLETED,
-                  {
-                    transactionId: `JUROR-${caseId}-${juror.JurorId}-${Date.now()}`,
-                  }
-                );
-
-                // 5. Send notification to juror about payment
-                await Notification.createNotification({
-                  userId: juror.JurorId,
-                  userType: "juror",
-                  caseId,
-                  type: Notification.NOTIFICATION_TYPES.PAYMENT_RECEIVED,
-                  title: "Payment Received",
-                  message: `You have been paid $${perJurorAmount.toFixed(2)} for completing trial "${caseData.CaseTitle}". Thank you for your service!`,
-                });
-
-                console.log(`[Payment] Successfully paid juror ${juror.JurorId}: $${perJurorAmount.toFixed(2)}`);
-
-                return { jurorId: juror.JurorId, success: true, amount: perJurorAmount };
-              } catch (paymentError) {
-                console.error(`[Payment] Failed to pay juror ${juror.JurorId}:`, paymentError);
-                return { jurorId: juror.JurorId, success: false, error: paymentError.message };
-              }
-            });
-
-            // Wait for all payments to complete
-            const paymentResults = await Promise.all(paymentPromises);
-            const successfulPayments = paymentResults.filter(r => r.success).length;
-            const failedPayments = paymentResults.filter(r => !r.success).length;
-
-            console.log(`[Payment] Payment processing complete: ${successfulPayments} successful, ${failedPayments} failed`);
-
-            // 6. Update case status to completed
-            await Case.updateCaseStatus(caseId, 'completed');
-            console.log(`[Payment] Case ${caseId} status updated to completed`);
-
-            // 7. Log payment event
-            await Event.logEvent({
-              caseId,
-              eventType: Event.EVENT_TYPES.PAYMENT_PROCESSED,
-              performedBy: 'system',
-              performedByType: 'system',
-              description: `Juror payments processed: ${successfulPayments} successful, ${failedPayments} failed. Total distributed: $${(successfulPayments * perJurorAmount).toFixed(2)}`,
-            });
-          }
-        }
-      } catch (paymentProcessingError) {
-        console.error(`[Payment] Critical error during payment processing for case ${caseId}:`, paymentProcessingError);
-        // Don't throw - we still want the verdict submission to succeed
-        // Payment processing can be retried manually
-        await Event.logEvent({
-          caseId,
-          eventType: Event.EVENT_TYPES.ERROR,
-          performedBy: 'system',
-          performedByType: 'system',
-          description: `Payment processing failed: ${paymentProcessingError.message}`,
-        });
-      }
+      // Juror payouts were queued as each verdict came in; admins approve them
+      await CaseLifecycle.transitionCase(caseId, Case.ATTORNEY_CASE_STATES.COMPLETED, {
+        actorType: CaseLifecycle.ACTOR_TYPES.SYSTEM,
+        reason: "All juror verdicts received",
+      });
     }
 
     res.json({
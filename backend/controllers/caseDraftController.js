@@ -0,0 +1,141 @@
+// =============================================
+// caseDraftController.js - Case Creation Drafts
+// Autosave and resume for the attorney case wizard
+// =============================================
+
+const CaseDraft = require("../models/CaseDraft");
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function isValidationError(error) {
+  return error.message && error.message.includes("validation failed");
+}
+
+function sendError(res, error, fallbackMessage) {
+  const isValidation = isValidationError(error);
+  res.status(isValidation ? 400 : 500).json({
+    success: false,
+    message: isValidation ? error.message.replace(/^Draft validation failed: /, "") : fallbackMessage,
+    error: process.env.NODE_ENV === "development" ? error.message : undefined,
+  });
+}
+
+function parseDraftId(req, res) {
+  const draftId = parseInt(req.params.draftId);
+  if (isNaN(draftId)) {
+    res.status(400).json({ success: false, message: "Valid draft ID is required" });
+    return null;
+  }
+  return draftId;
+}
+
+// ============================================
+// DRAFT HANDLERS
+// ============================================
+
+/**
+ * List the attorney's active drafts (for "Resume draft")
+ */
+async function listDrafts(req, res) {
+  try {
+    const drafts = await CaseDraft.findActiveByAttorney(req.user.id);
+    res.json({
+      success: true,
+      drafts,
+      expiryDays: CaseDraft.DRAFT_EXPIRY_DAYS,
+    });
+  } catch (error) {
+    console.error("Error listing case drafts:", error);
+    sendError(res, error, "Failed to load drafts");
+  }
+}
+
+/**
+ * Get one draft to restore into the wizard
+ */
+async function getDraft(req, res) {
+  try {
+    const draftId = parseDraftId(req, res);
+    if (draftId === null) return;
+
+    const draft = await CaseDraft.findActiveById(draftId, req.user.id);
+    if (!draft) {
+      return res.status(404).json({ success: false, message: "Draft not found or has expired" });
+    }
+
+    res.json({ success: true, draft });
+  } catch (error) {
+    console.error("Error fetching case draft:", error);
+    sendError(res, error, "Failed to load draft");
+  }
+}
+
+/**
+ * Start a draft
+ * Body: { data, currentStep }
+ */
+async function createDraft(req, res) {
+  try {
+    const { data, currentStep } = req.body;
+    const draft = await CaseDraft.createDraft(req.user.id, { data, currentStep });
+
+    console.log(`📝 Case draft ${draft.draftId} started by attorney ${req.user.id}`);
+
+    res.status(201).json({ success: true, draft });
+  } catch (error) {
+    console.error("Error creating case draft:", error);
+    sendError(res, error, "Failed to save draft");
+  }
+}
+
+/**
+ * Autosave a draft
+ * Body: { data?, currentStep? }
+ */
+async function saveDraft(req, res) {
+  try {
+    const draftId = parseDraftId(req, res);
+    if (draftId === null) return;
+
+    const { data, currentStep } = req.body;
+    const draft = await CaseDraft.saveDraft(draftId, req.user.id, { data, currentStep });
+    if (!draft) {
+      return res.status(404).json({ success: false, message: "Draft not found or has expired" });
+    }
+
+    res.json({ success: true, draft });
+  } catch (error) {
+    console.error("Error saving case draft:", error);
+    sendError(res, error, "Failed to save draft");
+  }
+}
+
+/**
+ * Discard a draft
+ */
+async function discardDraft(req, res) {
+  try {
+    const draftId = parseDraftId(req, res);
+    if (draftId === null) return;
+
+    const discarded = await CaseDraft.discardDraft(draftId, req.user.id);
+    if (!discarded) {
+      return res.status(404).json({ success: false, message: "Draft not found" });
+    }
+
+    res.json({ success: true, message: "Draft discarded" });
+  } catch (error) {
+    console.error("Error discarding case draft:", error);
+    sendError(res, error, "Failed to discard draft");
+  }
+}
+
+module.exports = {
+  listDrafts,
+  getDraft,
+  createDraft,
+  saveDraft,
+  discardDraft,
+};
@@ -0,0 +1,348 @@
+// =============================================
+// caseTemplateController.js - Jury Charge & Voir Dire Template Library
+// Attorneys save reusable question sets and import them into new cases.
+// Importing into a case's jury charge lives in juryChargeController.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+const CaseTemplate = require("../models/CaseTemplate");
+const { parseCondition, CONDITION_OPERATORS } = require("../utils/questionConditions");
+const { validateQuestion, verifyAttorneyOwnsCase } = require("./juryChargeController");
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function requireAttorneyUser(req, res) {
+  if (!req.user || !req.user.id) {
+    res.status(401).json({ success: false, message: "Authentication required" });
+    return false;
+  }
+  if (req.userRole !== "attorney") {
+    res.status(403).json({ success: false, message: "Only attorneys can manage templates" });
+    return false;
+  }
+  return true;
+}
+
+function isValidationError(error) {
+  return error.message && error.message.includes("validation failed");
+}
+
+/**
+ * Validate and normalize template jury charge questions.
+ * Conditions reference an earlier question by its position in the template
+ * ({ questionIndex, operator, value }) since templates have no QuestionIds.
+ * @returns {Object} { isValid, error?, questions? }
+ */
+function normalizeJuryChargeQuestions(questions) {
+  if (!Array.isArray(questions)) {
+    return { isValid: false, error: "Jury charge questions must be an array" };
+  }
+
+  const normalized = [];
+  for (let i = 0; i < questions.length; i++) {
+    const q = questions[i] || {};
+    const validation = validateQuestion(q);
+    if (!validation.isValid) {
+      return { isValid: false, error: `Question ${i + 1}: ${validation.error}` };
+    }
+
+    let condition = null;
+    if (q.condition) {
+      const questionIndex = parseInt(q.condition.questionIndex);
+      const operator = q.condition.operator;
+      const value = q.condition.value !== undefined && q.condition.value !== null ? String(q.condition.value) : "";
+
+      if (isNaN(questionIndex) || questionIndex < 0 || questionIndex >= i) {
+        return { isValid: false, error: `Question ${i + 1}: condition must reference an earlier question` };
+      }
+      if (!Object.values(CONDITION_OPERATORS).includes(operator)) {
+        return { isValid: false, error: `Question ${i + 1}: invalid condition operator` };
+      }
+      if (operator !== CONDITION_OPERATORS.ANSWERED && !value.trim()) {
+        return { isValid: false, error: `Question ${i + 1}: condition requires an answer value` };
+      }
+      condition = { questionIndex, operator, value };
+    }
+
+    const hasOptions = q.questionType === "Multiple Choice" || q.questionType === "Multiple Select";
+    normalized.push({
+      questionText: q.questionText.trim(),
+      questionType: q.questionType,
+      options: hasOptions ? q.options.map((o) => String(o).trim()).filter(Boolean) : [],
+      isRequired: q.isRequired !== false,
+      minValue: q.minValue ?? null,
+      maxValue: q.maxValue ?? null,
+      condition,
+    });
+  }
+
+  return { isValid: true, questions: normalized };
+}
+
+/**
+ * Snapshot a case's current jury charge in template form
+ */
+async function getCaseJuryChargeSnapshot(pool, caseId) {
+  const result = await pool
+    .request()
+    .input("caseId", sql.Int, parseInt(caseId))
+    .query(`
+      SELECT QuestionId, QuestionText, QuestionType, Options, IsRequired, MinValue, MaxValue, Condition
+      FROM JuryChargeQuestions
+      WHERE CaseId = @caseId
+      ORDER BY OrderIndex ASC
+    `);
+
+  const rows = result.recordset;
+  const indexById = new Map(rows.map((q, index) => [q.QuestionId, index]));
+
+  return rows.map((q) => {
+    let options = [];
+    try {
+      options = q.Options ? JSON.parse(q.Options) : [];
+    } catch {
+      options = [];
+    }
+
+    const condition = parseCondition(q.Condition);
+    return {
+      questionText: q.QuestionText,
+      questionType: q.QuestionType,
+      options,
+      isRequired: q.IsRequired !== false,
+      minValue: q.MinValue ?? null,
+      maxValue: q.MaxValue ?? null,
+      condition:
+        condition && indexById.has(condition.questionId)
+          ? {
+              questionIndex: indexById.get(condition.questionId),
+              operator: condition.operator,
+              value: condition.value,
+            }
+          : null,
+    };
+  });
+}
+
+/**
+ * Resolve the question arrays for create/update from the request body.
+ * `sourceCaseId` snapshots that case's jury charge instead of a posted array.
+ * @returns {Object} { status?, message?, data? }
+ */
+async function resolveTemplateQuestions(req) {
+  const { juryChargeQuestions, voirDireQuestions, sourceCaseId } = req.body;
+  const data = {};
+
+  if (sourceCaseId !== undefined && sourceCaseId !== null) {
+    if (isNaN(parseInt(sourceCaseId))) {
+      return { status: 400, message: "Valid source case ID is required" };
+    }
+    const pool = await poolPromise;
+    const ownsCase = await verifyAttorneyOwnsCase(pool, parseInt(sourceCaseId), req.user.id);
+    if (!ownsCase) {
+      return { status: 403, message: "Not authorized to copy questions from this case" };
+    }
+    data.juryChargeQuestions = await getCaseJuryChargeSnapshot(pool, sourceCaseId);
+  } else if (juryChargeQuestions !== undefined) {
+    const check = normalizeJuryChargeQuestions(juryChargeQuestions);
+    if (!check.isValid) return { status: 400, message: check.error };
+    data.juryChargeQuestions = check.questions;
+  }
+
+  if (voirDireQuestions !== undefined) {
+    const check = CaseTemplate.normalizeVoirDireQuestions(voirDireQuestions);
+    if (!check.isValid) return { status: 400, message: check.error };
+    data.voirDireQuestions = check.questions;
+  }
+
+  return { data };
+}
+
+// ============================================
+// TEMPLATE CRUD
+// ============================================
+
+/**
+ * List templates the attorney can use (own + firm-shared)
+ * Query: ?caseType=
+ */
+async function listTemplates(req, res) {
+  try {
+    if (!requireAttorneyUser(req, res)) return;
+
+    const templates = await CaseTemplate.findAccessible(req.user, {
+      caseType: req.query.caseType || null,
+    });
+
+    res.json({
+      success: true,
+      templates: templates.map((t) => ({ ...t, isOwner: t.attorneyId === req.user.id })),
+    });
+  } catch (error) {
+    console.error("Error listing case templates:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to load templates",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Get a single template with its questions
+ */
+async function getTemplate(req, res) {
+  try {
+    if (!requireAttorneyUser(req, res)) return;
+
+    const { templateId } = req.params;
+    if (isNaN(parseInt(templateId))) {
+      return res.status(400).json({ success: false, message: "Valid template ID is required" });
+    }
+
+    const template = await CaseTemplate.findAccessibleById(templateId, req.user);
+    if (!template) {
+      return res.status(404).json({ success: false, message: "Template not found" });
+    }
+
+    res.json({ success: true, template: { ...template, isOwner: template.attorneyId === req.user.id } });
+  } catch (error) {
+    console.error("Error fetching case template:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to load template",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Create a template
+ * Body: { name, description?, caseType?, visibility?, juryChargeQuestions?, voirDireQuestions?, sourceCaseId? }
+ */
+async function createTemplate(req, res) {
+  try {
+    if (!requireAttorneyUser(req, res)) return;
+
+    const resolved = await resolveTemplateQuestions(req);
+    if (resolved.status) {
+      return res.status(resolved.status).json({ success: false, message: resolved.message });
+    }
+
+    const { juryChargeQuestions = [], voirDireQuestions = [] } = resolved.data;
+    if (juryChargeQuestions.length === 0 && voirDireQuestions.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "A template needs at least one jury charge or voir dire question",
+      });
+    }
+
+    const { name, description, caseType, visibility } = req.body;
+    const template = await CaseTemplate.createTemplate(req.user.id, {
+      name,
+      description,
+      caseType,
+      visibility,
+      juryChargeQuestions,
+      voirDireQuestions,
+    });
+
+    console.log(`✅ Template "${template.name}" created by attorney ${req.user.id}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Template saved successfully",
+      template: { ...template, isOwner: true },
+    });
+  } catch (error) {
+    console.error("Error creating case template:", error);
+    res.status(isValidationError(error) ? 400 : 500).json({
+      success: false,
+      message: isValidationError(error) ? error.message : "Failed to save template",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Update a template (owner only)
+ */
+async function updateTemplate(req, res) {
+  try {
+    if (!requireAttorneyUser(req, res)) return;
+
+    const { templateId } = req.params;
+    if (isNaN(parseInt(templateId))) {
+      return res.status(400).json({ success: false, message: "Valid template ID is required" });
+    }
+
+    const resolved = await resolveTemplateQuestions(req);
+    if (resolved.status) {
+      return res.status(resolved.status).json({ success: false, message: resolved.message });
+    }
+
+    const { name, description, caseType, visibility } = req.body;
+    const template = await CaseTemplate.updateTemplate(templateId, req.user.id, {
+      name,
+      description,
+      caseType,
+      visibility,
+      ...resolved.data,
+    });
+
+    if (!template) {
+      return res.status(404).json({ success: false, message: "Template not found" });
+    }
+
+    res.json({
+      success: true,
+      message: "Template updated successfully",
+      template: { ...template, isOwner: true },
+    });
+  } catch (error) {
+    console.error("Error updating case template:", error);
+    res.status(isValidationError(error) ? 400 : 500).json({
+      success: false,
+      message: isValidationError(error) ? error.message : "Failed to update template",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+}
+
+/**
+ * Delete a template (owner only)
+ */
+async function deleteTemplate(req, res) {
+  try {
+    if (!requireAttorneyUser(req, res)) return;
+
+    const { templateId } = req.params;
+    if (isNaN(parseInt(templateId))) {
+      return res.status(400).json({ success: false, message: "Valid template ID is required" });
+    }
+
+    const deleted = await CaseTemplate.deleteTemplate(templateId, req.user.id);
+    if (!deleted) {
+      return res.status(404).json({ success: false, message: "Template not found" });
+    }
+
+    res.json({ success: true, message: "Template deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting case template:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to delete template",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+}
+
+module.exports = {
+  listTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+};
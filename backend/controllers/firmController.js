@@ -0,0 +1,461 @@
+// =============================================
+// firmController.js - Law Firm Organizations
+// Firm creation, membership invites and roles, and consolidated billing.
+// Firm-wide case lists live in caseController (?scope=firm) and firm-shared
+// templates in CaseTemplate.
+// =============================================
+
+const Firm = require("../models/Firm");
+const Attorney = require("../models/Attorney");
+const Payment = require("../models/Payment");
+const Notification = require("../models/Notification");
+const { sendNotificationEmail, sanitizeHTML } = require("../utils/email");
+const { toCsvText } = require("../utils/csv");
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function isValidationError(error) {
+  return error.message && error.message.startsWith("Firm validation failed:");
+}
+
+function sendFirmError(res, error, fallbackMessage) {
+  if (isValidationError(error)) {
+    return res.status(400).json({
+      success: false,
+      message: error.message.replace("Firm validation failed: ", ""),
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: process.env.NODE_ENV === "development" ? error.message : undefined,
+  });
+}
+
+/**
+ * Load the signed-in attorney's firm membership, responding with 403 when
+ * they have none (or are not an admin and adminOnly is set)
+ * @returns {Promise<Object|null>} membership, or null if a response was sent
+ */
+async function loadMembership(req, res, { adminOnly = false } = {}) {
+  const membership = await Firm.getMembership(req.user.id);
+  if (!membership) {
+    res.status(403).json({ success: false, message: "You are not a member of a firm" });
+    return null;
+  }
+  if (adminOnly && !membership.isAdmin) {
+    res.status(403).json({ success: false, message: "Only firm admins can do this" });
+    return null;
+  }
+  return membership;
+}
+
+/**
+ * Notify an attorney in-app about a firm change (never fails the request)
+ */
+async function notifyAttorney(attorneyId, type, title, message) {
+  try {
+    await Notification.createNotification({
+      userId: attorneyId,
+      userType: Notification.USER_TYPES.ATTORNEY,
+      type,
+      title,
+      message,
+    });
+  } catch (error) {
+    console.error("Firm notification error:", error);
+  }
+}
+
+function parseMemberId(req, res) {
+  const memberId = parseInt(req.params.attorneyId, 10);
+  if (isNaN(memberId) || memberId <= 0) {
+    res.status(400).json({ success: false, message: "Valid attorney ID is required" });
+    return null;
+  }
+  return memberId;
+}
+
+// ============================================
+// FIRM
+// ============================================
+
+/**
+ * The attorney's firm (members, and pending invites for admins) plus any
+ * firm invitations waiting for them
+ * GET /api/firms/me
+ */
+async function getMyFirm(req, res) {
+  try {
+    const [membership, invitations] = await Promise.all([
+      Firm.getMembership(req.user.id),
+      Firm.getInvitesForEmail(req.user.email),
+    ]);
+
+    let firm = null;
+    if (membership) {
+      const [members, pendingInvites] = await Promise.all([
+        Firm.getMembers(membership.firmId),
+        membership.isAdmin ? Firm.getPendingInvites(membership.firmId) : [],
+      ]);
+      firm = { ...membership, members, pendingInvites };
+    }
+
+    res.json({ success: true, firm, invitations });
+  } catch (error) {
+    sendFirmError(res, error, "Failed to load firm");
+  }
+}
+
+/**
+ * Create a firm with the attorney as admin
+ * POST /api/firms
+ * Body: { name, billingEmail? }
+ */
+async function createFirm(req, res) {
+  try {
+    const { name, billingEmail } = req.body;
+    const membership = await Firm.createFirm(req.user.id, { name, billingEmail });
+
+    console.log(`✅ Firm "${membership.name}" created by attorney ${req.user.id}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Firm created successfully",
+      firm: membership,
+    });
+  } catch (error) {
+    sendFirmError(res, error, "Failed to create firm");
+  }
+}
+
+/**
+ * Rename the firm or change its billing contact
+ * PUT /api/firms/me
+ * Body: { name?, billingEmail? }
+ * Firm admin only
+ */
+async function updateFirm(req, res) {
+  try {
+    const membership = await loadMembership(req, res, { adminOnly: true });
+    if (!membership) return;
+
+    const { name, billingEmail } = req.body;
+    await Firm.updateFirm(membership.firmId, { name, billingEmail });
+
+    res.json({
+      success: true,
+      message: "Firm updated successfully",
+      firm: await Firm.getMembership(req.user.id),
+    });
+  } catch (error) {
+    sendFirmError(res, error, "Failed to update firm");
+  }
+}
+
+// ============================================
+// MEMBERSHIP
+// ============================================
+
+/**
+ * Invite an attorney to the firm by email
+ * POST /api/firms/me/invites
+ * Body: { email, role? }
+ * Firm admin only
+ */
+async function inviteMember(req, res) {
+  try {
+    const membership = await loadMembership(req, res, { adminOnly: true });
+    if (!membership) return;
+
+    const invite = await Firm.inviteMember(membership.firmId, req.user.id, req.body);
+    const inviterName = `${req.user.firstName || ""} ${req.user.lastName || ""}`.trim() || "A colleague";
+
+    // Attorneys who already have an account also get an in-app notification
+    const invitee = await Attorney.findByEmail(invite.email).catch(() => null);
+    if (invitee && !invitee.IsDeleted) {
+      await notifyAttorney(
+        invitee.AttorneyId,
+        Notification.NOTIFICATION_TYPES.FIRM_INVITED,
+        "Firm Invitation",
+        `${inviterName} invited you to join ${membership.name} on Quick Verdicts.`
+      );
+    }
+
+    try {
+      const firmName = sanitizeHTML(membership.name);
+      await sendNotificationEmail(
+        invite.email,
+        "Firm Invitation",
+        `
+          <h2 style="color: #16305B; margin-top: 0;">You're invited to ${firmName}</h2>
+          <p style="color: #666; line-height: 1.6;">
+            ${sanitizeHTML(inviterName)} invited you to join ${firmName} on Quick Verdicts.
+            Firm members can see and co-manage each other's mock trials and share jury charge and voir dire templates.
+          </p>
+          <p style="color: #666; line-height: 1.6;">
+            ${invitee
+              ? `<a href="${process.env.FRONTEND_URL}/attorney" style="color: #16305B; font-weight: bold;">Sign in to respond</a>`
+              : `<a href="${process.env.FRONTEND_URL}/signup/attorney" style="color: #16305B; font-weight: bold;">Create your attorney account</a> with this email address to accept.`}
+          </p>
+          <p style="color: #666; line-height: 1.6;">
+            Best regards,<br/>
+            Quick Verdicts Team
+          </p>
+        `
+      );
+    } catch (emailError) {
+      console.error("Firm invite email error:", emailError);
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `Invitation sent to ${invite.email}`,
+      invite,
+    });
+  } catch (error) {
+    sendFirmError(res, error, "Failed to send invitation");
+  }
+}
+
+/**
+ * Withdraw a pending invite
+ * DELETE /api/firms/me/invites/:inviteId
+ * Firm admin only
+ */
+async function revokeInvite(req, res) {
+  try {
+    const membership = await loadMembership(req, res, { adminOnly: true });
+    if (!membership) return;
+
+    const inviteId = parseInt(req.params.inviteId, 10);
+    if (isNaN(inviteId)) {
+      return res.status(400).json({ success: false, message: "Valid invite ID is required" });
+    }
+
+    const revoked = await Firm.revokeInvite(membership.firmId, inviteId);
+    if (!revoked) {
+      return res.status(404).json({ success: false, message: "Invitation not found" });
+    }
+
+    res.json({ success: true, message: "Invitation withdrawn" });
+  } catch (error) {
+    sendFirmError(res, error, "Failed to withdraw invitation");
+  }
+}
+
+/**
+ * Accept or decline a firm invitation
+ * POST /api/firms/invites/:inviteId/respond
+ * Body: { accept: boolean }
+ */
+async function respondToInvite(req, res) {
+  try {
+    const inviteId = parseInt(req.params.inviteId, 10);
+    if (isNaN(inviteId)) {
+      return res.status(400).json({ success: false, message: "Valid invite ID is required" });
+    }
+    if (typeof req.body.accept !== "boolean") {
+      return res.status(400).json({ success: false, message: "accept must be true or false" });
+    }
+
+    const result = await Firm.respondToInvite(
+      inviteId,
+      { id: req.user.id, email: req.user.email },
+      req.body.accept
+    );
+    const name = `${req.user.firstName || ""} ${req.user.lastName || ""}`.trim() || req.user.email;
+
+    await notifyAttorney(
+      result.invitedByAttorneyId,
+      Notification.NOTIFICATION_TYPES.FIRM_MEMBERSHIP_UPDATED,
+      result.accepted ? "Firm Invitation Accepted" : "Firm Invitation Declined",
+      `${name} ${result.accepted ? "joined" : "declined to join"} ${result.firmName}.`
+    );
+
+    res.json({
+      success: true,
+      message: result.accepted ? `You joined ${result.firmName}` : "Invitation declined",
+    });
+  } catch (error) {
+    sendFirmError(res, error, "Failed to respond to invitation");
+  }
+}
+
+/**
+ * Make a member an admin or demote an admin
+ * PUT /api/firms/me/members/:attorneyId
+ * Body: { role: "admin" | "member" }
+ * Firm admin only
+ */
+async function updateMemberRole(req, res) {
+  try {
+    const membership = await loadMembership(req, res, { adminOnly: true });
+    if (!membership) return;
+
+    const memberId = parseMemberId(req, res);
+    if (!memberId) return;
+
+    const updated = await Firm.setMemberRole(membership.firmId, memberId, req.body.role);
+    if (!updated) {
+      return res.status(404).json({ success: false, message: "Member not found" });
+    }
+
+    if (memberId !== req.user.id) {
+      await notifyAttorney(
+        memberId,
+        Notification.NOTIFICATION_TYPES.FIRM_MEMBERSHIP_UPDATED,
+        "Firm Role Updated",
+        `You are now ${req.body.role === Firm.FIRM_ROLES.ADMIN ? "an admin" : "a member"} of ${membership.name}.`
+      );
+    }
+
+    res.json({ success: true, message: "Member role updated" });
+  } catch (error) {
+    sendFirmError(res, error, "Failed to update member role");
+  }
+}
+
+/**
+ * Remove a member, or leave the firm (attorneyId = yourself)
+ * DELETE /api/firms/me/members/:attorneyId
+ * Firm admin, or the member themselves
+ */
+async function removeMember(req, res) {
+  try {
+    const memberId = parseMemberId(req, res);
+    if (!memberId) return;
+
+    const isSelf = memberId === req.user.id;
+    const membership = await loadMembership(req, res, { adminOnly: !isSelf });
+    if (!membership) return;
+
+    const removed = await Firm.removeMember(membership.firmId, memberId);
+    if (!removed) {
+      return res.status(404).json({ success: false, message: "Member not found" });
+    }
+
+    if (!isSelf) {
+      await notifyAttorney(
+        memberId,
+        Notification.NOTIFICATION_TYPES.FIRM_MEMBERSHIP_UPDATED,
+        "Removed From Firm",
+        `You were removed from ${membership.name}. Your own cases stay with you.`
+      );
+    }
+
+    res.json({
+      success: true,
+      message: isSelf ? `You left ${membership.name}` : "Member removed",
+    });
+  } catch (error) {
+    sendFirmError(res, error, "Failed to remove member");
+  }
+}
+
+// ============================================
+// BILLING
+// ============================================
+
+/**
+ * Consolidated billing: every member's payments with totals per attorney
+ * GET /api/firms/me/billing?from=YYYY-MM-DD&to=YYYY-MM-DD&format=csv
+ * Firm admin only
+ */
+async function getBilling(req, res) {
+  try {
+    const membership = await loadMembership(req, res, { adminOnly: true });
+    if (!membership) return;
+
+    const { from, to, format } = req.query;
+    for (const value of [from, to]) {
+      if (value && !DATE_REGEX.test(value)) {
+        return res.status(400).json({ success: false, message: "Dates must be YYYY-MM-DD" });
+      }
+    }
+
+    const payments = await Payment.getPaymentsByFirm(membership.firmId, { from, to });
+
+    if (format === "csv") {
+      const rows = [["Payment ID", "Date", "Attorney", "Case ID", "Case", "Type", "Method", "Status", "Amount"]];
+      payments.forEach((p) =>
+        rows.push([
+          p.PaymentId,
+          p.CreatedAt ? new Date(p.CreatedAt).toISOString() : "",
+          p.AttorneyName,
+          p.CaseId,
+          p.CaseTitle,
+          p.PaymentType,
+          p.PaymentMethod,
+          p.Status,
+          parseFloat(p.Amount).toFixed(2),
+        ])
+      );
+
+      const fileName = `firm-billing-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      // BOM so Excel reads UTF-8 correctly
+      return res.status(200).send(`\uFEFF${toCsvText(rows)}`);
+    }
+
+    const completed = payments.filter((p) => p.Status === Payment.PAYMENT_STATUSES.COMPLETED);
+    const byAttorney = new Map();
+    completed.forEach((p) => {
+      const entry = byAttorney.get(p.UserId) || { attorneyId: p.UserId, name: p.AttorneyName, total: 0, count: 0 };
+      entry.total += parseFloat(p.Amount);
+      entry.count += 1;
+      byAttorney.set(p.UserId, entry);
+    });
+
+    res.json({
+      success: true,
+      summary: {
+        totalPaid: completed.reduce((sum, p) => sum + parseFloat(p.Amount), 0),
+        completedPayments: completed.length,
+        pendingPayments: payments.filter(
+          (p) =>
+            p.Status === Payment.PAYMENT_STATUSES.PENDING ||
+            p.Status === Payment.PAYMENT_STATUSES.PROCESSING
+        ).length,
+        totalRefunded: payments
+          .filter((p) => p.Status === Payment.PAYMENT_STATUSES.REFUNDED)
+          .reduce((sum, p) => sum + parseFloat(p.Amount), 0),
+        byAttorney: [...byAttorney.values()].sort((a, b) => b.total - a.total),
+      },
+      payments: payments.map((p) => ({
+        paymentId: p.PaymentId,
+        createdAt: p.CreatedAt,
+        attorneyId: p.UserId,
+        attorneyName: p.AttorneyName,
+        caseId: p.CaseId,
+        caseTitle: p.CaseTitle,
+        paymentType: p.PaymentType,
+        paymentMethod: p.PaymentMethod,
+        status: p.Status,
+        amount: parseFloat(p.Amount),
+      })),
+    });
+  } catch (error) {
+    sendFirmError(res, error, "Failed to load firm billing");
+  }
+}
+
+module.exports = {
+  getMyFirm,
+  createFirm,
+  updateFirm,
+  inviteMember,
+  revokeInvite,
+  respondToInvite,
+  updateMemberRole,
+  removeMember,
+  getBilling,
+};
@@ -5,6 +5,7 @@
 
 const JurorApplication = require("../models/JurorApplication");
 const Case = require("../models/Case");
+const Firm = require("../models/Firm");
 const Event = require("../models/Event");
 const Notification = require("../models/Notification");
 const { notifyUser } = require("../services/websocketService");
@@ -39,7 +40,7 @@ async function verifyAttorneyOwnsCase(caseId, attorneyId) {
     return { authorized: false, error: "Case not found", caseData: null };
   }
 
-  if (caseData.AttorneyId !== attorneyId) {
+  if (!(await Firm.canManageCase(caseData, attorneyId))) {
     return {
       authorized: false,
       error: "Access denied - you do not own this case",
@@ -573,7 +574,7 @@ async function getApplicationDetails(req, res) {
     }
 
     // Verify attorney owns the case
-    if (application.AttorneyId !== attorneyId) {
+    if (!(await Firm.areColleagues(attorneyId, application.AttorneyId))) {
       return res.status(403).json({
         success: false,
         message: "Access denied - you do not own this case",
@@ -5,6 +5,17 @@
 
 const { poolPromise, sql } = require("../config/db");
 const websocketService = require("../services/websocketService");
+const Verdict = require("../models/Verdict");
+const CaseTemplate = require("../models/CaseTemplate");
+const Firm = require("../models/Firm");
+const { TEAM_PERMISSIONS } = require("../models/WarRoomTeam");
+const { hasTeamPermission } = require("../middleware/warRoomMiddleware");
+const { createVerdictPayouts } = require("./payoutController");
+const {
+  parseCondition,
+  validateCondition,
+  validateAnswers,
+} = require("../utils/questionConditions");
 
 // ============================================
 // HELPER FUNCTIONS
@@ -19,13 +30,69 @@ async function verifyAttorneyOwnsCase(pool, caseId, attorneyId) {
     .request()
     .input("caseId", sql.Int, caseId)
     .input("attorneyId", sql.Int, attorneyId)
-    .query(
-      "SELECT CaseId FROM Cases WHERE CaseId = @caseId AND AttorneyId = @attorneyId"
-    );
+    .query(`
+      SELECT CaseId FROM Cases
+      WHERE CaseId = @caseId
+        AND (AttorneyId = @attorneyId OR ${Firm.firmColleagueFilter("AttorneyId")})
+    `);
 
   return result.recordset.length > 0;
 }
 
+/**
+ * Verify the user may edit a case's jury charge. War room team members need
+ * the edit jury charge permission; everyone else goes through the attorney check.
+ */
+async function canEditJuryCharge(pool, caseId, user) {
+  if (user.type === "team_member") {
+    return hasTeamPermission(user, parseInt(caseId), TEAM_PERMISSIONS.EDIT_JURY_CHARGE);
+  }
+  return verifyAttorneyOwnsCase(pool, caseId, user.id);
+}
+
+/**
+ * Load a question the user may edit (see canEditJuryCharge)
+ * @returns {Promise<Object|null>} { QuestionId, CaseId, OrderIndex }
+ */
+async function findEditableQuestion(pool, questionId, user) {
+  if (user.type === "team_member") {
+    const result = await pool
+      .request()
+      .input("questionId", sql.Int, questionId)
+      .query(`
+        SELECT QuestionId, CaseId, OrderIndex
+        FROM JuryChargeQuestions
+        WHERE QuestionId = @questionId
+      `);
+    const question = result.recordset[0];
+    if (!question) return null;
+    return (await canEditJuryCharge(pool, question.CaseId, user)) ? question : null;
+  }
+
+  const result = await pool
+    .request()
+    .input("questionId", sql.Int, questionId)
+    .input("attorneyId", sql.Int, user.id).query(`
+      SELECT jcq.QuestionId, jcq.CaseId, jcq.OrderIndex
+      FROM JuryChargeQuestions jcq
+      JOIN Cases c ON jcq.CaseId = c.CaseId
+      WHERE jcq.QuestionId = @questionId AND (c.AttorneyId = @attorneyId OR ${Firm.firmColleagueFilter("c.AttorneyId")})
+    `);
+  return result.recordset[0] || null;
+}
+
+// MinValue/MaxValue are stored as INT (whole dollars for damages questions)
+const MAX_BOUND_VALUE = 2147483647;
+
+/**
+ * Normalize a min/max bound from the request body
+ * @returns {number|null} null when not provided
+ */
+function normalizeBound(value) {
+  if (value === undefined || value === null || value === "") return null;
+  return Number(value);
+}
+
 /**
  * Validate question data
  * FIXED: Added input validation
@@ -48,6 +115,7 @@ function validateQuestion(question) {
     "Yes/No",
     "Text Response",
     "Numeric Response",
+    Verdict.DAMAGES_QUESTION_TYPE,
   ];
   if (!question.questionType || !validTypes.includes(question.questionType)) {
     return {
@@ -69,9 +137,39 @@ function validateQuestion(question) {
     }
   }
 
+  if (question.questionType === Verdict.DAMAGES_QUESTION_TYPE) {
+    const minValue = normalizeBound(question.minValue);
+    const maxValue = normalizeBound(question.maxValue);
+    for (const bound of [minValue, maxValue]) {
+      if (bound !== null && (!Number.isInteger(bound) || bound < 0 || bound > MAX_BOUND_VALUE)) {
+        return {
+          isValid: false,
+          error: "Damages limits must be whole dollar amounts of 0 or more",
+        };
+      }
+    }
+    if (minValue !== null && maxValue !== null && minValue > maxValue) {
+      return {
+        isValid: false,
+        error: "Minimum damages cannot be greater than the maximum",
+      };
+    }
+  }
+
   return { isValid: true };
 }
 
+/**
+ * Serialize a question row for API responses
+ */
+function formatQuestion(q) {
+  return {
+    ...q,
+    Options: safeJSONParse(q.Options, []),
+    Condition: parseCondition(q.Condition),
+  };
+}
+
 /**
  * Safe JSON parse
  */
@@ -105,7 +203,6 @@ async function saveJuryChargeQuestions(req, res) {
 
     const { caseId } = req.params;
     const { questions } = req.body;
-    const attorneyId = req.user.id;
 
     // Validate input
     if (!Array.isArray(questions)) {
@@ -128,8 +225,8 @@ async function saveJuryChargeQuestions(req, res) {
 
     const pool = await poolPromise;
 
-    // Verify attorney owns this case
-    const ownsCase = await verifyAttorneyOwnsCase(pool, caseId, attorneyId);
+    // Verify attorney owns this case (or team member may edit it)
+    const ownsCase = await canEditJuryCharge(pool, caseId, req.user);
     if (!ownsCase) {
       return res.status(403).json({
         success: false,
@@ -209,8 +306,7 @@ async function addQuestion(req, res) {
       });
     }
 
-    const { caseId, questionText, questionType, options, isRequired, minValue, maxValue } = req.body;
-    const attorneyId = req.user.id;
+    const { caseId, questionText, questionType, options, isRequired, minValue, maxValue, condition } = req.body;
 
     // Validate input
     if (!caseId || isNaN(parseInt(caseId))) {
@@ -225,6 +321,8 @@ async function addQuestion(req, res) {
       questionText,
       questionType,
       options,
+      minValue,
+      maxValue,
     });
     if (!validation.isValid) {
       return res.status(400).json({
@@ -236,7 +334,7 @@ async function addQuestion(req, res) {
     const pool = await poolPromise;
 
     // Verify attorney owns this case
-    const ownsCase = await verifyAttorneyOwnsCase(pool, parseInt(caseId), attorneyId);
+    const ownsCase = await canEditJuryCharge(pool, parseInt(caseId), req.user);
     if (!ownsCase) {
       return res.status(403).json({
         success: false,
@@ -257,6 +355,15 @@ async function addQuestion(req, res) {
       });
     }
 
+    // New questions go last, so any existing question may be referenced by the condition
+    const conditionCheck = validateCondition(condition, await Verdict.getCaseQuestions(caseId));
+    if (!conditionCheck.isValid) {
+      return res.status(400).json({
+        success: false,
+        message: conditionCheck.error,
+      });
+    }
+
     // Get current max order index
     const orderResult = await pool
       .request()
@@ -280,21 +387,23 @@ async function addQuestion(req, res) {
       .input("options", sql.NVarChar, optionsJson)
       .input("orderIndex", sql.Int, nextOrder)
       .input("isRequired", sql.Bit, isRequired !== false)
-      .input("minValue", sql.Int, minValue || null)
-      .input("maxValue", sql.Int, maxValue || null).query(`
-        INSERT INTO JuryChargeQuestions (CaseId, QuestionText, QuestionType, Options, OrderIndex, IsRequired, MinValue, MaxValue)
+      .input("minValue", sql.Int, normalizeBound(minValue))
+      .input("maxValue", sql.Int, normalizeBound(maxValue))
+      .input(
+        "condition",
+        sql.NVarChar(sql.MAX),
+        conditionCheck.condition ? JSON.stringify(conditionCheck.condition) : null
+      ).query(`
+        INSERT INTO JuryChargeQuestions (CaseId, QuestionText, QuestionType, Options, OrderIndex, IsRequired, MinValue, MaxValue, Condition)
         OUTPUT INSERTED.*
-        VALUES (@caseId, @questionText, @questionType, @options, @orderIndex, @isRequired, @minValue, @maxValue)
+        VALUES (@caseId, @questionText, @questionType, @options, @orderIndex, @isRequired, @minValue, @maxValue, @condition)
       `);
 
     const newQuestion = insertResult.recordset[0];
 
     // Emit WebSocket event
     try {
-      websocketService.notifyQuestionAdded(parseInt(caseId), {
-        ...newQuestion,
-        Options: safeJSONParse(newQuestion.Options, []),
-      });
+      websocketService.notifyQuestionAdded(parseInt(caseId), formatQuestion(newQuestion));
     } catch (wsError) {
       console.error("WebSocket notification failed:", wsError);
       // Don't fail the request if WebSocket fails
@@ -303,10 +412,7 @@ async function addQuestion(req, res) {
     res.json({
       success: true,
       message: "Question added successfully",
-      question: {
-        ...newQuestion,
-        Options: safeJSONParse(newQuestion.Options, []),
-      },
+      question: formatQuestion(newQuestion),
     });
   } catch (error) {
     console.error("Error adding jury charge question:", error);
@@ -343,10 +449,7 @@ async function getJuryChargeQuestions(req, res) {
       );
 
     // FIXED: Safe JSON parsing
-    const questions = result.recordset.map((q) => ({
-      ...q,
-      Options: safeJSONParse(q.Options, []),
-    }));
+    const questions = result.recordset.map(formatQuestion);
 
     res.json({
       success: true,
@@ -378,14 +481,15 @@ async function updateJuryChargeQuestion(req, res) {
     }
 
     const { questionId } = req.params;
-    const { questionText, questionType, options } = req.body;
-    const attorneyId = req.user.id;
+    const { questionText, questionType, options, minValue, maxValue, condition } = req.body;
 
     // Validate question data
     const validation = validateQuestion({
       questionText,
       questionType,
       options,
+      minValue,
+      maxValue,
     });
     if (!validation.isValid) {
       return res.status(400).json({
@@ -397,23 +501,31 @@ async function updateJuryChargeQuestion(req, res) {
     const pool = await poolPromise;
 
     // Verify attorney owns the case this question belongs to
-    const verifyResult = await pool
-      .request()
-      .input("questionId", sql.Int, questionId)
-      .input("attorneyId", sql.Int, attorneyId).query(`
-        SELECT jcq.QuestionId 
-        FROM JuryChargeQuestions jcq 
-        JOIN Cases c ON jcq.CaseId = c.CaseId 
-        WHERE jcq.QuestionId = @questionId AND c.AttorneyId = @attorneyId
-      `);
+    const editable = await findEditableQuestion(pool, questionId, req.user);
 
-    if (verifyResult.recordset.length === 0) {
+    if (!editable) {
       return res.status(403).json({
         success: false,
         message: "Not authorized to modify this question",
       });
     }
 
+    // A condition may only point at questions ordered before this one
+    const { CaseId: questionCaseId, OrderIndex: questionOrder } = editable;
+    let conditionCheck = { isValid: true, condition: undefined };
+    if (condition !== undefined) {
+      const earlierQuestions = (await Verdict.getCaseQuestions(questionCaseId)).filter(
+        (q) => q.OrderIndex < questionOrder
+      );
+      conditionCheck = validateCondition(condition, earlierQuestions);
+      if (!conditionCheck.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: conditionCheck.error,
+        });
+      }
+    }
+
     // Convert options to JSON if provided
     let optionsJson = null;
     if ((questionType === "Multiple Choice" || questionType === "Multiple Select") && options) {
@@ -426,9 +538,21 @@ async function updateJuryChargeQuestion(req, res) {
       .input("questionId", sql.Int, questionId)
       .input("questionText", sql.NVarChar, questionText.trim())
       .input("questionType", sql.NVarChar, questionType)
-      .input("options", sql.NVarChar, optionsJson).query(`
+      .input("options", sql.NVarChar, optionsJson)
+      .input("minValue", sql.Int, normalizeBound(minValue))
+      .input("maxValue", sql.Int, normalizeBound(maxValue))
+      .input("setBounds", sql.Bit, minValue !== undefined || maxValue !== undefined)
+      .input("setCondition", sql.Bit, condition !== undefined)
+      .input(
+        "condition",
+        sql.NVarChar(sql.MAX),
+        conditionCheck.condition ? JSON.stringify(conditionCheck.condition) : null
+      ).query(`
         UPDATE JuryChargeQuestions
-        SET QuestionText = @questionText, QuestionType = @questionType, Options = @options
+        SET QuestionText = @questionText, QuestionType = @questionType, Options = @options,
+            MinValue = CASE WHEN @setBounds = 1 THEN @minValue ELSE MinValue END,
+            MaxValue = CASE WHEN @setBounds = 1 THEN @maxValue ELSE MaxValue END,
+            Condition = CASE WHEN @setCondition = 1 THEN @condition ELSE Condition END
         OUTPUT INSERTED.*
         WHERE QuestionId = @questionId
       `);
@@ -446,10 +570,7 @@ async function updateJuryChargeQuestion(req, res) {
     // Emit WebSocket event
     if (caseId) {
       try {
-        websocketService.notifyQuestionUpdated(caseId, {
-          ...updatedQuestion,
-          Options: safeJSONParse(updatedQuestion.Options, []),
-        });
+        websocketService.notifyQuestionUpdated(caseId, formatQuestion(updatedQuestion));
       } catch (wsError) {
         console.error("WebSocket notification failed:", wsError);
       }
@@ -458,10 +579,7 @@ async function updateJuryChargeQuestion(req, res) {
     res.json({
       success: true,
       message: "Question updated successfully",
-      question: {
-        ...updatedQuestion,
-        Options: safeJSONParse(updatedQuestion.Options, []),
-      },
+      question: formatQuestion(updatedQuestion),
     });
   } catch (error) {
     console.error("Error updating jury charge question:", error);
@@ -488,35 +606,33 @@ async function deleteJuryChargeQuestion(req, res) {
     }
 
     const { questionId } = req.params;
-    const attorneyId = req.user.id;
 
     const pool = await poolPromise;
 
     // Verify attorney owns the case this question belongs to and get caseId
-    const verifyResult = await pool
-      .request()
-      .input("questionId", sql.Int, questionId)
-      .input("attorneyId", sql.Int, attorneyId).query(`
-        SELECT jcq.QuestionId, jcq.CaseId
-        FROM JuryChargeQuestions jcq
-        JOIN Cases c ON jcq.CaseId = c.CaseId
-        WHERE jcq.QuestionId = @questionId AND c.AttorneyId = @attorneyId
-      `);
+    const editable = await findEditableQuestion(pool, questionId, req.user);
 
-    if (verifyResult.recordset.length === 0) {
+    if (!editable) {
       return res.status(403).json({
         success: false,
         message: "Not authorized to delete this question",
       });
     }
 
-    const caseId = verifyResult.recordset[0].CaseId;
+    const caseId = editable.CaseId;
 
-    // Delete question
+    // Delete question and drop conditions that pointed at it
     await pool
       .request()
       .input("questionId", sql.Int, questionId)
-      .query("DELETE FROM JuryChargeQuestions WHERE QuestionId = @questionId");
+      .input("caseId", sql.Int, caseId)
+      .query(`
+        DELETE FROM JuryChargeQuestions WHERE QuestionId = @questionId;
+        UPDATE JuryChargeQuestions
+        SET Condition = NULL
+        WHERE CaseId = @caseId
+          AND TRY_CAST(JSON_VALUE(Condition, '$.questionId') AS INT) = @questionId;
+      `);
 
     // Emit WebSocket event
     try {
@@ -834,16 +950,14 @@ async function getQuestionsForJuror(req, res) {
           OrderIndex,
           IsRequired,
           MinValue,
-          MaxValue
+          MaxValue,
+          Condition
         FROM JuryChargeQuestions
         WHERE CaseId = @caseId
         ORDER BY OrderIndex ASC
       `);
 
-    const questions = result.recordset.map((q) => ({
-      ...q,
-      Options: safeJSONParse(q.Options, []),
-    }));
+    const questions = result.recordset.map(formatQuestion);
 
     // Check if this juror has already submitted responses for this case
     let alreadySubmitted = false;
@@ -995,6 +1109,19 @@ async function submitResponses(req, res) {
       });
     }
 
+    // In panel mode only the presiding juror answers for the jury
+    const verdictSettings = await Verdict.getVerdictSettings(parseInt(caseId));
+    if (
+      verdictSettings.verdictMode === Verdict.VERDICT_MODES.PANEL &&
+      verdictSettings.forepersonJurorId !== jurorId
+    ) {
+      console.error('❌ [submitResponses] Juror is not the presiding juror');
+      return res.status(403).json({
+        success: false,
+        message: "Only the presiding juror can submit answers for this panel"
+      });
+    }
+
     // Validate responses array
     if (!Array.isArray(responses) || responses.length === 0) {
       console.error('❌ [submitResponses] Invalid responses array');
@@ -1004,6 +1131,31 @@ async function submitResponses(req, res) {
       });
     }
 
+    // Enforce conditional questions: skipped questions must stay empty, visible required ones answered
+    const answers = {};
+    responses.forEach((r) => {
+      if (r && r.QuestionId) answers[String(r.QuestionId)] = r.Response;
+    });
+    const caseQuestions = await Verdict.getCaseQuestions(caseId);
+    const answerCheck = validateAnswers(caseQuestions, answers);
+    if (!answerCheck.isValid) {
+      console.error('❌ [submitResponses] Conditional validation failed:', answerCheck.error);
+      return res.status(400).json({
+        success: false,
+        message: answerCheck.error
+      });
+    }
+
+    // Damages answers must be dollar amounts within the question's limits
+    const damagesCheck = Verdict.validateDamagesResponses(caseQuestions, answers);
+    if (!damagesCheck.isValid) {
+      console.error('❌ [submitResponses] Damages validation failed:', damagesCheck.error);
+      return res.status(400).json({
+        success: false,
+        message: damagesCheck.error
+      });
+    }
+
     console.log('✅ [submitResponses] Validation passed, inserting responses...');
 
     // Insert or update each response
@@ -1074,6 +1226,9 @@ async function submitResponses(req, res) {
       });
     }
 
+    // Queue the juror's payout (held for review if attendance fell short)
+    await createVerdictPayouts(parseInt(caseId), jurorId);
+
     res.json({
       success: true,
       message: `Successfully submitted ${successCount} response(s)`,
@@ -1159,9 +1314,9 @@ async function reorderQuestions(req, res) {
 
     const pool = await poolPromise;
 
-    // Verify attorney owns case
-    if (req.user && req.user.type === "attorney") {
-      const owns = await verifyAttorneyOwnsCase(pool, parseInt(caseId), req.user.id);
+    // Verify attorney owns case (or team member may edit it)
+    if (req.user && (req.user.type === "attorney" || req.user.type === "team_member")) {
+      const owns = await canEditJuryCharge(pool, parseInt(caseId), req.user);
       if (!owns) {
         return res.status(403).json({ success: false, message: "Not authorized to modify this case" });
       }
@@ -1177,6 +1332,22 @@ async function reorderQuestions(req, res) {
       return res.status(403).json({ success: false, message: "Jury charge is locked and cannot be edited" });
     }
 
+    // A conditional question cannot be moved above the question it depends on
+    const newOrder = new Map(questions.map((q) => [parseInt(q.questionId), q.orderIndex]));
+    const currentQuestions = await Verdict.getCaseQuestions(caseId);
+    const orderOf = (q) => (newOrder.has(q.QuestionId) ? newOrder.get(q.QuestionId) : q.OrderIndex);
+    for (const q of currentQuestions) {
+      const condition = parseCondition(q.Condition);
+      if (!condition) continue;
+      const parent = currentQuestions.find((p) => p.QuestionId === condition.questionId);
+      if (parent && orderOf(parent) >= orderOf(q)) {
+        return res.status(400).json({
+          success: false,
+          message: `"${q.QuestionText}" depends on "${parent.QuestionText}" and must come after it`,
+        });
+      }
+    }
+
     // Update each question's OrderIndex
     for (const { questionId, orderIndex } of questions) {
       await pool
@@ -1193,10 +1364,7 @@ async function reorderQuestions(req, res) {
       .input("caseId", sql.Int, parseInt(caseId))
       .query("SELECT * FROM JuryChargeQuestions WHERE CaseId = @caseId ORDER BY OrderIndex ASC");
 
-    const updatedQuestions = updatedResult.recordset.map((q) => ({
-      ...q,
-      Options: safeJSONParse(q.Options, []),
-    }));
+    const updatedQuestions = updatedResult.recordset.map(formatQuestion);
 
     // Notify via WebSocket so admin ECS room updates immediately
     try {
@@ -1216,6 +1384,151 @@ async function reorderQuestions(req, res) {
   }
 }
 
+/**
+ * Import a saved template's questions into a case (Attorney only)
+ * Questions are appended after any existing ones; template conditions
+ * (by position) are remapped to the newly created QuestionIds.
+ * Body: { templateId }
+ */
+async function importTemplate(req, res) {
+  try {
+    if (!req.user || !req.user.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    const { caseId } = req.params;
+    const { templateId } = req.body;
+
+    if (!caseId || isNaN(parseInt(caseId)) || !templateId || isNaN(parseInt(templateId))) {
+      return res.status(400).json({
+        success: false,
+        message: "Valid case ID and template ID are required",
+      });
+    }
+
+    // Templates belong to attorneys and their firms
+    if (req.user.type !== "attorney") {
+      return res.status(403).json({
+        success: false,
+        message: "Only attorneys can import templates",
+      });
+    }
+
+    const pool = await poolPromise;
+
+    const ownsCase = await verifyAttorneyOwnsCase(pool, parseInt(caseId), req.user.id);
+    if (!ownsCase) {
+      return res.status(403).json({
+        success: false,
+        message: "Not authorized to modify this case",
+      });
+    }
+
+    const lockResult = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId))
+      .query("SELECT JuryChargeStatus FROM Cases WHERE CaseId = @caseId");
+
+    if (lockResult.recordset.length > 0 && lockResult.recordset[0].JuryChargeStatus === "completed") {
+      return res.status(403).json({
+        success: false,
+        message: "Jury charge is locked and cannot be edited",
+      });
+    }
+
+    const template = await CaseTemplate.findAccessibleById(templateId, req.user);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: "Template not found",
+      });
+    }
+
+    if (template.juryChargeQuestions.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "This template has no jury charge questions",
+      });
+    }
+
+    const orderResult = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId))
+      .query("SELECT ISNULL(MAX(OrderIndex), -1) as maxOrder FROM JuryChargeQuestions WHERE CaseId = @caseId");
+    const firstOrder = orderResult.recordset[0].maxOrder + 1;
+
+    const transaction = pool.transaction();
+    await transaction.begin();
+
+    try {
+      const newIds = [];
+      for (let i = 0; i < template.juryChargeQuestions.length; i++) {
+        const question = template.juryChargeQuestions[i];
+        const hasOptions = question.questionType === "Multiple Choice" || question.questionType === "Multiple Select";
+        const templateCondition = question.condition;
+        const parentId = templateCondition ? newIds[templateCondition.questionIndex] : undefined;
+        const condition = parentId
+          ? { questionId: parentId, operator: templateCondition.operator, value: templateCondition.value }
+          : null;
+
+        const insertResult = await transaction
+          .request()
+          .input("caseId", sql.Int, parseInt(caseId))
+          .input("questionText", sql.NVarChar, question.questionText)
+          .input("questionType", sql.NVarChar, question.questionType)
+          .input("options", sql.NVarChar, hasOptions ? JSON.stringify(question.options || []) : null)
+          .input("orderIndex", sql.Int, firstOrder + i)
+          .input("isRequired", sql.Bit, question.isRequired !== false)
+          .input("minValue", sql.Int, normalizeBound(question.minValue))
+          .input("maxValue", sql.Int, normalizeBound(question.maxValue))
+          .input("condition", sql.NVarChar(sql.MAX), condition ? JSON.stringify(condition) : null).query(`
+            INSERT INTO JuryChargeQuestions (CaseId, QuestionText, QuestionType, Options, OrderIndex, IsRequired, MinValue, MaxValue, Condition)
+            OUTPUT INSERTED.QuestionId
+            VALUES (@caseId, @questionText, @questionType, @options, @orderIndex, @isRequired, @minValue, @maxValue, @condition)
+          `);
+
+        newIds.push(insertResult.recordset[0].QuestionId);
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    const updatedResult = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId))
+      .query("SELECT * FROM JuryChargeQuestions WHERE CaseId = @caseId ORDER BY OrderIndex ASC");
+
+    const updatedQuestions = updatedResult.recordset.map(formatQuestion);
+
+    try {
+      websocketService.notifyQuestionsReordered(parseInt(caseId), updatedQuestions);
+    } catch (wsError) {
+      console.error("WebSocket notification failed:", wsError);
+    }
+
+    console.log(`✅ Imported template ${template.templateId} into case ${caseId} (${template.juryChargeQuestions.length} questions)`);
+
+    res.json({
+      success: true,
+      message: `Imported ${template.juryChargeQuestions.length} question(s) from "${template.name}"`,
+      questions: updatedQuestions,
+    });
+  } catch (error) {
+    console.error("Error importing jury charge template:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to import template",
+      error: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+}
+
 module.exports = {
   addQuestion, // NEW - Add single question with WebSocket
   saveJuryChargeQuestions, // Bulk save/replace all questions
@@ -1230,4 +1543,9 @@ module.exports = {
   submitResponses, // Jurors submit responses
   checkIfLocked, // Check if locked
   getVerdicts, // Admin downloads all verdicts
+  importTemplate, // Import a saved template's questions
+
+  // Shared with caseTemplateController
+  validateQuestion,
+  verifyAttorneyOwnsCase,
 };
@@ -3,6 +3,7 @@
 // =============================================
 
 const Payment = require("../models/Payment");
+const JurorPayout = require("../models/JurorPayout");
 
 // ============================================
 // ATTORNEY PAYMENT ENDPOINTS
@@ -97,7 +98,7 @@ async function getAttorneyPaymentStats(req, res) {
 // ============================================
 
 /**
- * Get juror's payment history
+ * Get juror's payout history
  * GET /api/juror/payments
  */
 async function getJurorPayments(req, res) {
@@ -110,10 +111,26 @@ async function getJurorPayments(req, res) {
     }
 
     const jurorId = req.user.id;
-    const payments = await Payment.getPaymentsByUser(jurorId, "juror");
+    const [payouts, payments] = await Promise.all([
+      JurorPayout.getPayoutsByJuror(jurorId),
+      Payment.getPaymentsByUser(jurorId, "juror"),
+    ]);
 
     res.json({
       success: true,
+      payouts: payouts.map((p) => ({
+        payoutId: p.PayoutId,
+        caseId: p.CaseId,
+        caseTitle: p.CaseTitle,
+        amount: parseFloat(p.Amount).toFixed(2),
+        payoutMethod: p.PayoutMethod,
+        status: p.Status,
+        holdReason: p.HoldReason,
+        reviewNotes: p.Status === JurorPayout.PAYOUT_STATUSES.REJECTED ? p.ReviewNotes : null,
+        createdAt: p.CreatedAt,
+        paidAt: p.PaidAt,
+        debriefPending: !!p.DebriefRequired && !p.DebriefCompleted,
+      })),
       payments,
     });
   } catch (error) {
@@ -140,34 +157,28 @@ async function getJurorPaymentStats(req, res) {
     }
 
     const jurorId = req.user.id;
-    const payments = await Payment.getPaymentsByUser(jurorId, "juror");
-
-    // Calculate statistics
-    const totalEarned = payments
-      .filter(p => p.Status === Payment.PAYMENT_STATUSES.COMPLETED)
-      .reduce((sum, p) => sum + parseFloat(p.Amount), 0);
-
-    const pendingPayments = payments.filter(
-      p => p.Status === Payment.PAYMENT_STATUSES.PENDING ||
-           p.Status === Payment.PAYMENT_STATUSES.PROCESSING
-    ).length;
-
-    const completedPayments = payments.filter(
-      p => p.Status === Payment.PAYMENT_STATUSES.COMPLETED
-    ).length;
-
-    const failedPayments = payments.filter(
-      p => p.Status === Payment.PAYMENT_STATUSES.FAILED
-    ).length;
+    const payouts = await JurorPayout.getPayoutsByJuror(jurorId);
+    const { PAYOUT_STATUSES } = JurorPayout;
+
+    const sumOf = (list) => list.reduce((sum, p) => sum + parseFloat(p.Amount), 0);
+    const paid = payouts.filter(p => p.Status === PAYOUT_STATUSES.PAID);
+    const awaiting = payouts.filter(
+      p => p.Status === PAYOUT_STATUSES.PENDING ||
+           p.Status === PAYOUT_STATUSES.APPROVED
+    );
+    const held = payouts.filter(p => p.Status === PAYOUT_STATUSES.HELD);
+    const rejected = payouts.filter(p => p.Status === PAYOUT_STATUSES.REJECTED);
 
     res.json({
       success: true,
       stats: {
-        totalEarned: totalEarned.toFixed(2),
-        pendingPayments,
-        completedPayments,
-        failedPayments,
-        totalTransactions: payments.length,
+        totalEarned: sumOf(paid).toFixed(2),
+        pendingAmount: sumOf(awaiting).toFixed(2),
+        pendingPayments: awaiting.length,
+        heldPayments: held.length,
+        completedPayments: paid.length,
+        failedPayments: rejected.length,
+        totalTransactions: payouts.length,
       },
     });
   } catch (error) {
@@ -0,0 +1,320 @@
+// =============================================
+// payoutController.js - Juror Payout Workflow
+// Payout creation on verdict submission and the admin approval queue
+// =============================================
+
+const JurorPayout = require("../models/JurorPayout");
+const Payment = require("../models/Payment");
+const Notification = require("../models/Notification");
+const Event = require("../models/Event");
+const { toCsvText } = require("../utils/csv");
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function isValidationError(error) {
+  return error.message && error.message.includes("validation failed");
+}
+
+function sendError(res, error, fallbackMessage) {
+  const isValidation = isValidationError(error);
+  res.status(isValidation ? 400 : 500).json({
+    success: false,
+    message: isValidation ? error.message.replace(/^Payout validation failed: /, "") : fallbackMessage,
+    error: process.env.NODE_ENV === "development" ? error.message : undefined,
+  });
+}
+
+function parsePayoutId(req, res) {
+  const payoutId = parseInt(req.params.payoutId);
+  if (isNaN(payoutId)) {
+    res.status(400).json({ success: false, message: "Valid payout ID is required" });
+    return null;
+  }
+  return payoutId;
+}
+
+function formatAmount(value) {
+  return `$${parseFloat(value).toFixed(2)}`;
+}
+
+// ============================================
+// VERDICT SUBMISSION (shared with verdict handlers)
+// ============================================
+
+/**
+ * Create the payout(s) for a submitted verdict and tell jurors whose payout
+ * was held for attendance. Never throws - verdict submission must succeed
+ * even if the ledger is unavailable.
+ *
+ * @param {number} caseId - Case ID
+ * @param {number} jurorId - Juror who submitted the verdict
+ */
+async function createVerdictPayouts(caseId, jurorId) {
+  try {
+    const payouts = await JurorPayout.createPayoutsForVerdict(caseId, jurorId);
+
+    for (const payout of payouts) {
+      if (payout.Status !== JurorPayout.PAYOUT_STATUSES.HELD) continue;
+
+      await Notification.createNotification({
+        userId: payout.JurorId,
+        userType: "juror",
+        caseId: payout.CaseId,
+        type: Notification.NOTIFICATION_TYPES.PAYMENT_ON_HOLD,
+        title: "Payment On Hold",
+        message: `Your payment for trial "${payout.CaseTitle}" is on hold while your attendance is reviewed: ${payout.HoldReason}.`,
+      });
+    }
+
+    if (payouts.length > 0) {
+      console.log(`[Payout] Created ${payouts.length} payout(s) for case ${caseId}`);
+    }
+  } catch (error) {
+    console.error(`[Payout] Failed to create payouts for case ${caseId}:`, error);
+  }
+}
+
+// ============================================
+// ADMIN QUEUE
+// ============================================
+
+/**
+ * List payouts, optionally filtered by status and payout method
+ * GET /api/admin/payouts?status=&method=
+ */
+async function listPayouts(req, res) {
+  try {
+    const { status, method } = req.query;
+    const [payouts, summary] = await Promise.all([
+      JurorPayout.listPayouts({ status, method }),
+      JurorPayout.getQueueSummary(),
+    ]);
+
+    res.json({
+      success: true,
+      payouts,
+      summary,
+      methods: JurorPayout.PAYOUT_METHODS,
+    });
+  } catch (error) {
+    console.error("Error listing payouts:", error);
+    sendError(res, error, "Failed to load payouts");
+  }
+}
+
+/**
+ * Approve a pending or held payout
+ * POST /api/admin/payouts/:payoutId/approve
+ */
+async function approvePayout(req, res) {
+  try {
+    const payoutId = parsePayoutId(req, res);
+    if (payoutId === null) return;
+
+    const payout = await JurorPayout.reviewPayout(
+      payoutId,
+      JurorPayout.PAYOUT_STATUSES.APPROVED,
+      req.user.id,
+      req.body?.notes
+    );
+    if (!payout) {
+      return res.status(409).json({
+        success: false,
+        message: "Only pending or held payouts can be approved",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Payout approved",
+      payout,
+    });
+  } catch (error) {
+    console.error("Error approving payout:", error);
+    sendError(res, error, "Failed to approve payout");
+  }
+}
+
+/**
+ * Reject a pending or held payout
+ * POST /api/admin/payouts/:payoutId/reject
+ * Body: { notes }
+ */
+async function rejectPayout(req, res) {
+  try {
+    const payoutId = parsePayoutId(req, res);
+    if (payoutId === null) return;
+
+    const notes = req.body?.notes;
+    if (!notes || !notes.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: "A reason is required to reject a payout",
+      });
+    }
+
+    const payout = await JurorPayout.reviewPayout(
+      payoutId,
+      JurorPayout.PAYOUT_STATUSES.REJECTED,
+      req.user.id,
+      notes
+    );
+    if (!payout) {
+      return res.status(409).json({
+        success: false,
+        message: "Only pending or held payouts can be rejected",
+      });
+    }
+
+    await Notification.createNotification({
+      userId: payout.JurorId,
+      userType: "juror",
+      caseId: payout.CaseId,
+      type: Notification.NOTIFICATION_TYPES.PAYMENT_REJECTED,
+      title: "Payment Not Approved",
+      message: `Your payment for trial "${payout.CaseTitle}" was not approved: ${notes.trim()}`,
+    });
+
+    res.json({
+      success: true,
+      message: "Payout rejected",
+      payout,
+    });
+  } catch (error) {
+    console.error("Error rejecting payout:", error);
+    sendError(res, error, "Failed to reject payout");
+  }
+}
+
+/**
+ * Download approved payouts for one payout method as a CSV batch
+ * GET /api/admin/payouts/export?method=venmo
+ */
+async function exportPayouts(req, res) {
+  try {
+    const method = String(req.query.method || "").toLowerCase();
+    if (!JurorPayout.PAYOUT_METHODS.includes(method)) {
+      return res.status(400).json({
+        success: false,
+        message: `Payout method must be one of: ${JurorPayout.PAYOUT_METHODS.join(", ")}`,
+      });
+    }
+
+    const payouts = await JurorPayout.exportApprovedBatch(method);
+
+    const rows = [
+      [
+        "Payout ID", "Case ID", "Case", "Juror", "Email", "Phone",
+        "Address 1", "Address 2", "City", "State", "Zip", "Amount", "Approved At",
+      ],
+    ];
+    payouts.forEach((p) =>
+      rows.push([
+        p.PayoutId, p.CaseId, p.CaseTitle, p.JurorName, p.JurorEmail, p.JurorPhone,
+        p.Address1, p.Address2, p.City, p.State, p.ZipCode,
+        parseFloat(p.Amount).toFixed(2),
+        p.ReviewedAt ? new Date(p.ReviewedAt).toISOString() : "",
+      ])
+    );
+
+    const fileName = `juror-payouts-${method}-${new Date().toISOString().slice(0, 10)}.csv`;
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.setHeader("Cache-Control", "no-store");
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    // BOM so Excel reads UTF-8 correctly
+    res.status(200).send(`\uFEFF${toCsvText(rows)}`);
+  } catch (error) {
+    console.error("Error exporting payouts:", error);
+    sendError(res, error, "Failed to export payouts");
+  }
+}
+
+/**
+ * Mark approved payouts as sent
+ * POST /api/admin/payouts/mark-paid
+ * Body: { payoutIds: number[] }
+ */
+async function markPayoutsPaid(req, res) {
+  try {
+    const payoutIds = Array.isArray(req.body?.payoutIds)
+      ? req.body.payoutIds.map((id) => parseInt(id)).filter((id) => !isNaN(id))
+      : [];
+    if (payoutIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Select at least one payout",
+      });
+    }
+
+    const paid = [];
+    const skipped = [];
+
+    for (const payoutId of payoutIds) {
+      const payout = await JurorPayout.findById(payoutId);
+      if (!payout || payout.Status !== JurorPayout.PAYOUT_STATUSES.APPROVED) {
+        skipped.push(payoutId);
+        continue;
+      }
+
+      const paymentId = await Payment.createPayment({
+        caseId: payout.CaseId,
+        userId: payout.JurorId,
+        userType: "juror",
+        amount: payout.Amount,
+        paymentMethod: payout.PayoutMethod || "other",
+        paymentType: Payment.PAYMENT_TYPES.JUROR_PAYMENT,
+        transactionId: `PAYOUT-${payout.PayoutId}`,
+        description: `Payment for case "${payout.CaseTitle}" - Trial completion`,
+      });
+      await Payment.updatePaymentStatus(paymentId, Payment.PAYMENT_STATUSES.COMPLETED);
+
+      if (!(await JurorPayout.markPaid(payout.PayoutId, paymentId))) {
+        skipped.push(payoutId);
+        continue;
+      }
+
+      await Notification.createNotification({
+        userId: payout.JurorId,
+        userType: "juror",
+        caseId: payout.CaseId,
+        type: Notification.NOTIFICATION_TYPES.PAYMENT_RECEIVED,
+        title: "Payment Sent",
+        message: `You have been paid ${formatAmount(payout.Amount)} for completing trial "${payout.CaseTitle}". Thank you for your service!`,
+      });
+
+      await Event.createEvent({
+        caseId: payout.CaseId,
+        eventType: Event.EVENT_TYPES.PAYMENT_PROCESSED,
+        description: `Juror payout #${payout.PayoutId} of ${formatAmount(payout.Amount)} sent via ${payout.PayoutMethod || "other"}`,
+        triggeredBy: req.user.id,
+        userType: "admin",
+      });
+
+      paid.push(payout.PayoutId);
+    }
+
+    res.json({
+      success: true,
+      message: `${paid.length} payout(s) marked as paid`,
+      paid,
+      skipped,
+    });
+  } catch (error) {
+    console.error("Error marking payouts paid:", error);
+    sendError(res, error, "Failed to mark payouts as paid");
+  }
+}
+
+module.exports = {
+  // Verdict submission
+  createVerdictPayouts,
+
+  // Admin queue
+  listPayouts,
+  approvePayout,
+  rejectPayout,
+  exportPayouts,
+  markPayoutsPaid,
+};
@@ -5,7 +5,95 @@
 
 const Verdict = require("../models/Verdict");
 const Case = require("../models/Case");
+const JurorQuestion = require("../models/JurorQuestion");
+const TrialPoll = require("../models/TrialPoll");
+const JurorReaction = require("../models/JurorReaction");
+const DebriefSurvey = require("../models/DebriefSurvey");
+const JurorNote = require("../models/JurorNote");
+const CaseRerun = require("../models/CaseRerun");
+const OpposingCounsel = require("../models/OpposingCounsel");
+const Firm = require("../models/Firm");
+const Notification = require("../models/Notification");
+const { isJurorApprovedForCase } = require("../helpers/accessHelper");
 const websocketService = require("../services/websocketService");
+const { validateAnswers } = require("../utils/questionConditions");
+const verdictReport = require("../utils/verdictReport");
+const { createVerdictPayouts } = require("./payoutController");
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Reject submissions from anyone but the foreperson when the case uses panel mode
+ * @returns {Promise<string|null>} Error message, or null when the juror may submit
+ */
+async function checkPanelSubmitter(caseId, jurorId) {
+  const settings = await Verdict.getVerdictSettings(caseId);
+  if (settings.verdictMode !== Verdict.VERDICT_MODES.PANEL) {
+    return null;
+  }
+  if (!settings.forepersonJurorId) {
+    return "A presiding juror has not been selected for this case yet";
+  }
+  if (settings.forepersonJurorId !== jurorId) {
+    return "Only the presiding juror can enter the verdict for this panel";
+  }
+  return null;
+}
+
+/**
+ * Results are visible to admins, and to the case attorney once published
+ * @returns {Promise<Object>} { caseData } or { status, error }
+ */
+async function checkResultsAccess(req, caseId) {
+  if (req.userRole !== "admin" && req.userRole !== "attorney") {
+    return { status: 403, error: "Admin or attorney access required" };
+  }
+
+  const caseData = await Case.findById(caseId);
+  if (!caseData) {
+    return { status: 404, error: "Case not found" };
+  }
+
+  if (req.userRole === "attorney") {
+    // Opposing counsel sees results only once both sides agreed to share them
+    const counselRole = await OpposingCounsel.getCounselRole(caseData, req.user.id);
+    if (counselRole?.role !== OpposingCounsel.COUNSEL_ROLES.OWNER) {
+      if (!counselRole || !counselRole.counsel.resultsShared) {
+        return { status: 403, error: "Not authorized to view results for this case" };
+      }
+    }
+    if (caseData.VerdictStatus !== "published") {
+      return { status: 403, error: "Results are available once they have been published" };
+    }
+  }
+
+  return { caseData };
+}
+
+/**
+ * Push the current panel verdict to every approved juror on the case
+ */
+async function broadcastPanelVerdict(caseId) {
+  try {
+    const panel = await Verdict.getPanelVerdict(caseId);
+    if (panel.verdictMode !== Verdict.VERDICT_MODES.PANEL) return;
+
+    const status = await Verdict.getSubmissionStatus(caseId);
+    websocketService.notifyPanelVerdictUpdated(
+      caseId,
+      status.jurors.map((j) => j.jurorId),
+      {
+        responses: panel.responses,
+        isSubmitted: panel.isSubmitted,
+        submittedAt: panel.submittedAt,
+      }
+    );
+  } catch (error) {
+    console.error("⚠️ Failed to broadcast panel verdict:", error.message);
+  }
+}
 
 // ============================================
 // SUBMIT VERDICT
@@ -66,6 +154,34 @@ async function submitVerdict(req, res) {
       });
     }
 
+    const panelError = await checkPanelSubmitter(parseInt(caseId), parseInt(jurorId));
+    if (panelError) {
+      return res.status(403).json({
+        success: false,
+        error: panelError,
+      });
+    }
+
+    // Enforce conditional questions: skipped questions stay empty, visible required ones are answered
+    const questions = await Verdict.getCaseQuestions(parseInt(caseId));
+
+    const answerCheck = validateAnswers(questions, responses);
+    if (!answerCheck.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: answerCheck.error,
+      });
+    }
+
+    // Damages answers must be dollar amounts within the question's limits
+    const damagesCheck = Verdict.validateDamagesResponses(questions, responses);
+    if (!damagesCheck.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: damagesCheck.error,
+      });
+    }
+
     // Submit verdict
     const verdictId = await Verdict.submitVerdict({
       caseId: parseInt(caseId),
@@ -75,6 +191,9 @@ async function submitVerdict(req, res) {
 
     console.log(`✅ [Verdict.submitVerdict] Verdict submitted: ${verdictId}`);
 
+    // Queue the juror's payout (held for review if attendance fell short)
+    await createVerdictPayouts(parseInt(caseId), parseInt(jurorId));
+
     // Get juror name for notification
     const jurorData = await require("../config/db")
       .poolPromise.then((pool) =>
@@ -106,6 +225,7 @@ async function submitVerdict(req, res) {
       console.log(`✅ [Verdict.submitVerdict] WebSocket verdict:submitted notification sent`);
       websocketService.notifyVerdictStatusUpdate(parseInt(caseId), status);
       console.log(`✅ [Verdict.submitVerdict] WebSocket verdict:status_update notification sent`);
+      await broadcastPanelVerdict(parseInt(caseId));
     } catch (wsError) {
       console.error(`❌ [Verdict.submitVerdict] WebSocket error:`, wsError);
     }
@@ -147,6 +267,14 @@ async function saveDraft(req, res) {
       });
     }
 
+    const panelError = await checkPanelSubmitter(parseInt(caseId), parseInt(jurorId));
+    if (panelError) {
+      return res.status(403).json({
+        success: false,
+        error: panelError,
+      });
+    }
+
     const result = await Verdict.saveDraft({
       caseId: parseInt(caseId),
       jurorId: parseInt(jurorId),
@@ -155,6 +283,9 @@ async function saveDraft(req, res) {
 
     console.log("✅ [Verdict.saveDraft] Draft saved successfully");
 
+    // Keep the rest of the panel in sync with the foreperson's answers
+    await broadcastPanelVerdict(parseInt(caseId));
+
     res.status(200).json({
       success: true,
       message: "Draft saved successfully",
@@ -432,6 +563,254 @@ async function getAggregatedResults(req, res) {
   }
 }
 
+// ============================================
+// DEMOGRAPHIC CROSS-TAB
+// ============================================
+
+/**
+ * Cross-tab jury charge answers by a juror attribute
+ * GET /api/verdicts/crosstab/:caseId?attribute=gender
+ * Admin, or the case attorney once results are published
+ */
+async function getCrossTabResults(req, res) {
+  try {
+    const { caseId } = req.params;
+    const attribute = req.query.attribute || "ageRange";
+
+    if (!caseId || isNaN(parseInt(caseId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid case ID is required",
+      });
+    }
+
+    if (!Verdict.CROSSTAB_ATTRIBUTES[attribute]) {
+      return res.status(400).json({
+        success: false,
+        error: `Attribute must be one of: ${Object.keys(Verdict.CROSSTAB_ATTRIBUTES).join(", ")}`,
+      });
+    }
+
+    const access = await checkResultsAccess(req, parseInt(caseId));
+    if (access.error) {
+      return res.status(access.status).json({
+        success: false,
+        error: access.error,
+      });
+    }
+
+    const results = await Verdict.getCrossTabResults(parseInt(caseId), attribute);
+
+    console.log(
+      `✅ [Verdict.getCrossTabResults] Case ${caseId} by ${attribute}: ${results.groups.length} groups`
+    );
+
+    res.status(200).json({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    console.error("❌ [Verdict.getCrossTabResults] Error:", error.message);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+}
+
+// ============================================
+// RERUN COMPARISON
+// ============================================
+
+/**
+ * Compare results across every run of a case (the original and its re-runs)
+ * GET /api/verdicts/compare/:caseId
+ * Admin, or the case attorney once results are published. Attorneys only
+ * see runs whose results have been published.
+ */
+async function getRerunComparison(req, res) {
+  try {
+    const { caseId } = req.params;
+
+    if (!caseId || isNaN(parseInt(caseId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid case ID is required",
+      });
+    }
+
+    const access = await checkResultsAccess(req, parseInt(caseId));
+    if (access.error) {
+      return res.status(access.status).json({
+        success: false,
+        error: access.error,
+      });
+    }
+
+    // Runs may be created by anyone at the case attorney's firm
+    const linkedCases = await CaseRerun.getLinkedCases(parseInt(caseId));
+    const runs = [];
+    for (const run of linkedCases) {
+      const visible =
+        run.verdictStatus === "published" ||
+        (req.userRole === "admin" && CaseRerun.RERUNNABLE_STATES.includes(run.attorneyStatus));
+      if (visible && (await Firm.canManageCase(access.caseData, run.attorneyId))) {
+        runs.push(run);
+      }
+    }
+
+    const results =
+      runs.length >= 2
+        ? await Verdict.getRerunComparison(runs)
+        : {
+            runs,
+            questions: [],
+            unmatchedQuestions: [],
+            demographics: [],
+            minCellSize: Verdict.MIN_CROSSTAB_CELL_SIZE,
+          };
+
+    console.log(
+      `✅ [Verdict.getRerunComparison] Case ${caseId}: ${runs.length} runs, ${results.questions.length} matched questions`
+    );
+
+    res.status(200).json({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    console.error("❌ [Verdict.getRerunComparison] Error:", error.message);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+}
+
+// ============================================
+// REACTION TIMELINE
+// ============================================
+
+/**
+ * Average juror reaction dial reading over the trial recording timeline
+ * GET /api/verdicts/reactions/:caseId?attribute=&value=&bucket=
+ * Admin, or the case attorney once results are published
+ */
+async function getReactionTimeline(req, res) {
+  try {
+    const { caseId } = req.params;
+
+    if (!caseId || isNaN(parseInt(caseId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid case ID is required",
+      });
+    }
+
+    const access = await checkResultsAccess(req, parseInt(caseId));
+    if (access.error) {
+      return res.status(access.status).json({
+        success: false,
+        error: access.error,
+      });
+    }
+
+    const timeline = await JurorReaction.getReactionTimeline(parseInt(caseId), {
+      attribute: req.query.attribute,
+      value: req.query.value,
+      bucketSeconds: req.query.bucket,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: timeline,
+    });
+  } catch (error) {
+    console.error("❌ [Verdict.getReactionTimeline] Error:", error.message);
+    res.status(error.message.includes("validation failed") ? 400 : 500).json({
+      success: false,
+      error: error.message.replace(/^Reaction validation failed: /, ""),
+    });
+  }
+}
+
+// ============================================
+// EXPORT RESULTS REPORT
+// ============================================
+
+/**
+ * Download the verdict results report
+ * GET /api/verdicts/export/:caseId?format=pdf|csv
+ * Admin, or the case attorney once results are published
+ */
+async function exportResults(req, res) {
+  try {
+    const { caseId } = req.params;
+    const format = (req.query.format || verdictReport.REPORT_FORMATS.PDF).toLowerCase();
+
+    if (!caseId || isNaN(parseInt(caseId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid case ID is required",
+      });
+    }
+
+    if (!Object.values(verdictReport.REPORT_FORMATS).includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `Format must be one of: ${Object.values(verdictReport.REPORT_FORMATS).join(", ")}`,
+      });
+    }
+
+    const access = await checkResultsAccess(req, parseInt(caseId));
+    if (access.error) {
+      return res.status(access.status).json({
+        success: false,
+        error: access.error,
+      });
+    }
+    const { caseData } = access;
+
+    console.log(`📄 [Verdict.exportResults] Building ${format.toUpperCase()} report for case ${caseId}`);
+
+    const [results, demographics, jurorQuestions, polls] = await Promise.all([
+      Verdict.getAggregatedResults(parseInt(caseId)),
+      Verdict.getJurorDemographics(parseInt(caseId)),
+      JurorQuestion.getCaseQuestions(parseInt(caseId), {
+        status: JurorQuestion.QUESTION_STATUSES.APPROVED,
+      }),
+      TrialPoll.getCasePolls(parseInt(caseId)),
+    ]);
+
+    const report = verdictReport.buildVerdictReport({
+      caseData,
+      results,
+      demographics,
+      jurorQuestions,
+      polls,
+    });
+    const fileName = `verdict-report-case-${caseId}.${format}`;
+
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.setHeader("Cache-Control", "no-store");
+
+    if (format === verdictReport.REPORT_FORMATS.CSV) {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      // BOM so Excel reads UTF-8 correctly
+      return res.status(200).send(`\uFEFF${verdictReport.toCsv(report)}`);
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.status(200).send(await verdictReport.toPdf(report));
+  } catch (error) {
+    console.error("❌ [Verdict.exportResults] Error:", error.message);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+}
+
 // ============================================
 // PUBLISH RESULTS TO ATTORNEY
 // ============================================
@@ -509,12 +888,58 @@ async function publishResults(req, res) {
         });
 
         console.log(`✅ Notification sent to attorney ${caseDetails.AttorneyId} about verdict publication`);
+
+        // Opposing counsel can open the results once both sides have agreed to share them
+        const counsel = await OpposingCounsel.getForCase(parseInt(caseId));
+        if (counsel && counsel.status === OpposingCounsel.INVITE_STATUSES.ACCEPTED) {
+          await Notification.createNotification({
+            userId: counsel.opposing.attorneyId,
+            userType: 'attorney',
+            caseId: parseInt(caseId),
+            type: 'verdict_published',
+            title: 'Verdict Results Published',
+            message: counsel.resultsShared
+              ? `The jury verdict for "${caseDetails.CaseTitle}" has been published and is now available for review.`
+              : `The jury verdict for "${caseDetails.CaseTitle}" has been published. You can review it once both sides agree to share results.`
+          });
+        }
       }
     } catch (notifError) {
       console.error("⚠️ Failed to send verdict notification:", notifError.message);
       // Don't fail the whole request if notification fails
     }
 
+    // Send the post-trial debrief; payouts wait for it to be completed
+    try {
+      if (await DebriefSurvey.sendSurvey(parseInt(caseId))) {
+        const jurors = status.jurors || [];
+        if (jurors.length > 0) {
+          const caseDetails = await Case.findById(parseInt(caseId));
+          await Notification.createBulkNotifications(
+            jurors.map((j) => ({
+              userId: j.jurorId,
+              userType: "juror",
+              caseId: parseInt(caseId),
+              type: Notification.NOTIFICATION_TYPES.DEBRIEF_REQUESTED,
+              title: "Debrief Survey Ready",
+              message: `Please complete the debrief survey for "${caseDetails?.CaseTitle || "your trial"}" in the case information page. Your payment is released once it is done.`,
+            }))
+          );
+        }
+        console.log(`✅ Debrief survey sent to ${jurors.length} juror(s) for case ${caseId}`);
+      }
+    } catch (debriefError) {
+      console.error("⚠️ Failed to send debrief survey:", debriefError.message);
+    }
+
+    // Juror notepads are private to the trial and do not outlive the verdict
+    try {
+      const purged = await JurorNote.purgeCaseNotes(parseInt(caseId));
+      console.log(`🗑️ Purged ${purged} juror notepad(s) for case ${caseId}`);
+    } catch (noteError) {
+      console.error("⚠️ Failed to purge juror notes:", noteError.message);
+    }
+
     console.log("✅ [Verdict.publishResults] Results published successfully");
 
     res.status(200).json({
@@ -531,6 +956,207 @@ async function publishResults(req, res) {
   }
 }
 
+// ============================================
+// DEBRIEF SURVEY
+// ============================================
+
+function sendDebriefError(res, error, fallbackMessage) {
+  const isValidation = error.message.includes("validation failed");
+  res.status(isValidation ? 400 : 500).json({
+    success: false,
+    error: isValidation ? error.message.replace(/^Debrief validation failed: /, "") : fallbackMessage,
+  });
+}
+
+/**
+ * Get the debrief survey for a case
+ * GET /api/verdicts/debrief/:caseId
+ * Juror: the sent survey and whether they completed it
+ * Admin, or the case attorney: the survey definition (editable until sent)
+ */
+async function getDebriefSurvey(req, res) {
+  try {
+    const { caseId } = req.params;
+
+    if (!caseId || isNaN(parseInt(caseId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid case ID is required",
+      });
+    }
+
+    if (req.userRole === "juror") {
+      if (!(await isJurorApprovedForCase(req.user.id, parseInt(caseId)))) {
+        return res.status(403).json({
+          success: false,
+          error: "Not authorized to access this case",
+        });
+      }
+
+      const completion = await DebriefSurvey.getCompletionStatus(parseInt(caseId), req.user.id);
+      const survey = completion.required ? await DebriefSurvey.getSurvey(parseInt(caseId)) : null;
+
+      return res.status(200).json({
+        success: true,
+        data: survey && { ...survey, completed: completion.completed, submittedAt: completion.submittedAt },
+      });
+    }
+
+    if (req.userRole === "attorney") {
+      const caseData = await Case.findById(parseInt(caseId));
+      if (!caseData || !(await Firm.canManageCase(caseData, req.user.id))) {
+        return res.status(403).json({
+          success: false,
+          error: "Not authorized to access this case",
+        });
+      }
+    } else if (req.userRole !== "admin") {
+      return res.status(403).json({
+        success: false,
+        error: "Access denied",
+      });
+    }
+
+    const survey = await DebriefSurvey.getSurvey(parseInt(caseId));
+    res.status(200).json({
+      success: true,
+      data: survey,
+    });
+  } catch (error) {
+    console.error("❌ [Verdict.getDebriefSurvey] Error:", error.message);
+    sendDebriefError(res, error, "Failed to load debrief survey");
+  }
+}
+
+/**
+ * Customize the debrief survey before results are published
+ * PUT /api/verdicts/debrief/:caseId
+ * Admin, or the case attorney
+ * Body: { includeWitnessRatings, questions: [{ id?, type, prompt, required }] }
+ */
+async function updateDebriefSurvey(req, res) {
+  try {
+    const { caseId } = req.params;
+
+    if (!caseId || isNaN(parseInt(caseId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid case ID is required",
+      });
+    }
+
+    if (req.userRole === "attorney") {
+      const caseData = await Case.findById(parseInt(caseId));
+      if (!caseData || !(await Firm.canManageCase(caseData, req.user.id))) {
+        return res.status(403).json({
+          success: false,
+          error: "Not authorized to modify this case",
+        });
+      }
+    } else if (req.userRole !== "admin") {
+      return res.status(403).json({
+        success: false,
+        error: "Admin or attorney access required",
+      });
+    }
+
+    const survey = await DebriefSurvey.saveSurvey(parseInt(caseId), req.body, req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: "Debrief survey saved",
+      data: survey,
+    });
+  } catch (error) {
+    console.error("❌ [Verdict.updateDebriefSurvey] Error:", error.message);
+    sendDebriefError(res, error, "Failed to save debrief survey");
+  }
+}
+
+/**
+ * Submit a juror's debrief
+ * POST /api/verdicts/debrief/:caseId/submit
+ * Juror only
+ * Body: { witnessRatings: { [witnessId]: 1-5 }, answers: { [questionId]: value } }
+ */
+async function submitDebrief(req, res) {
+  try {
+    const { caseId } = req.params;
+
+    if (!caseId || isNaN(parseInt(caseId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid case ID is required",
+      });
+    }
+
+    if (req.userRole !== "juror") {
+      return res.status(403).json({
+        success: false,
+        error: "Only jurors can submit a debrief",
+      });
+    }
+
+    if (!(await isJurorApprovedForCase(req.user.id, parseInt(caseId)))) {
+      return res.status(403).json({
+        success: false,
+        error: "Not authorized to access this case",
+      });
+    }
+
+    await DebriefSurvey.submitResponse(parseInt(caseId), req.user.id, req.body);
+
+    console.log(`✅ [Verdict.submitDebrief] Juror ${req.user.id} completed debrief for case ${caseId}`);
+
+    res.status(201).json({
+      success: true,
+      message: "Thank you for your feedback",
+    });
+  } catch (error) {
+    console.error("❌ [Verdict.submitDebrief] Error:", error.message);
+    sendDebriefError(res, error, "Failed to submit debrief");
+  }
+}
+
+/**
+ * Aggregated, anonymous debrief feedback
+ * GET /api/verdicts/debrief/:caseId/feedback
+ * Admin, or the case attorney once results are published
+ */
+async function getDebriefFeedback(req, res) {
+  try {
+    const { caseId } = req.params;
+
+    if (!caseId || isNaN(parseInt(caseId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid case ID is required",
+      });
+    }
+
+    const access = await checkResultsAccess(req, parseInt(caseId));
+    if (access.error) {
+      return res.status(access.status).json({
+        success: false,
+        error: access.error,
+      });
+    }
+
+    const [feedback, status] = await Promise.all([
+      DebriefSurvey.getFeedbackSummary(parseInt(caseId)),
+      Verdict.getSubmissionStatus(parseInt(caseId)),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: { ...feedback, jurorCount: status.totalJurors },
+    });
+  } catch (error) {
+    console.error("❌ [Verdict.getDebriefFeedback] Error:", error.message);
+    sendDebriefError(res, error, "Failed to load debrief feedback");
+  }
+}
+
 // ============================================
 // DELETE VERDICT
 // ============================================
@@ -615,10 +1241,13 @@ async function checkSubmissionStatus(req, res) {
       parseInt(jurorId)
     );
 
+    // Drafts live in the same table, so only a SubmittedAt marks a final verdict
+    const hasSubmitted = !!(verdict && verdict.SubmittedAt);
+
     res.status(200).json({
       success: true,
-      hasSubmitted: verdict !== null,
-      verdict: verdict || null,
+      hasSubmitted,
+      verdict: hasSubmitted ? verdict : null,
     });
   } catch (error) {
     console.error(
@@ -632,6 +1261,215 @@ async function checkSubmissionStatus(req, res) {
   }
 }
 
+// ============================================
+// VERDICT MODE & FOREPERSON
+// ============================================
+
+/**
+ * Get verdict mode and presiding juror for a case
+ * GET /api/verdicts/settings/:caseId
+ */
+async function getVerdictSettings(req, res) {
+  try {
+    const { caseId } = req.params;
+
+    if (!caseId || isNaN(parseInt(caseId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid case ID is required",
+      });
+    }
+
+    if (req.userRole === "juror") {
+      if (!(await isJurorApprovedForCase(req.user.id, parseInt(caseId)))) {
+        return res.status(403).json({
+          success: false,
+          error: "Juror is not authorized for this case",
+        });
+      }
+    } else if (req.userRole === "attorney") {
+      const caseData = await Case.findById(parseInt(caseId));
+      if (!caseData || !(await Firm.canManageCase(caseData, req.user.id))) {
+        return res.status(403).json({
+          success: false,
+          error: "Not authorized to view this case",
+        });
+      }
+    } else if (req.userRole !== "admin") {
+      return res.status(403).json({
+        success: false,
+        error: "Access denied",
+      });
+    }
+
+    const settings = await Verdict.getVerdictSettings(parseInt(caseId));
+
+    res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    console.error("❌ [Verdict.getVerdictSettings] Error:", error.message);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Switch a case between individual and panel verdict mode
+ * PUT /api/verdicts/mode/:caseId
+ * Admin only
+ * Body: { mode: 'individual' | 'panel' }
+ */
+async function updateVerdictMode(req, res) {
+  try {
+    const { caseId } = req.params;
+    const { mode } = req.body;
+
+    console.log(`⚖️ [Verdict.updateVerdictMode] Setting mode for case ${caseId} to ${mode}`);
+
+    if (!caseId || isNaN(parseInt(caseId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid case ID is required",
+      });
+    }
+
+    if (req.userRole !== "admin") {
+      return res.status(403).json({
+        success: false,
+        error: "Admin access required",
+      });
+    }
+
+    const settings = await Verdict.setVerdictMode(parseInt(caseId), mode);
+    websocketService.notifyVerdictSettingsUpdated(parseInt(caseId), settings);
+
+    res.status(200).json({
+      success: true,
+      message: "Verdict mode updated",
+      data: settings,
+    });
+  } catch (error) {
+    console.error("❌ [Verdict.updateVerdictMode] Error:", error.message);
+    res.status(400).json({
+      success: false,
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Designate the presiding juror randomly or manually
+ * POST /api/verdicts/foreperson/:caseId
+ * Admin only
+ * Body: { method: 'random' | 'manual', jurorId? }
+ */
+async function assignForeperson(req, res) {
+  try {
+    const { caseId } = req.params;
+    const { method, jurorId } = req.body;
+
+    console.log(`⚖️ [Verdict.assignForeperson] Assigning foreperson for case ${caseId} (${method})`);
+
+    if (!caseId || isNaN(parseInt(caseId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid case ID is required",
+      });
+    }
+
+    if (req.userRole !== "admin") {
+      return res.status(403).json({
+        success: false,
+        error: "Admin access required",
+      });
+    }
+
+    const settings = await Verdict.assignForeperson(parseInt(caseId), { method, jurorId });
+    websocketService.notifyVerdictSettingsUpdated(parseInt(caseId), settings);
+
+    try {
+      const Notification = require("../models/Notification");
+      await Notification.createNotification({
+        userId: settings.forepersonJurorId,
+        userType: "juror",
+        caseId: parseInt(caseId),
+        type: "foreperson_assigned",
+        title: "You Are the Presiding Juror",
+        message: "You have been selected as the presiding juror and will enter the jury charge answers on behalf of the panel.",
+      });
+    } catch (notifError) {
+      console.error("⚠️ Failed to send foreperson notification:", notifError.message);
+    }
+
+    console.log(`✅ [Verdict.assignForeperson] Juror ${settings.forepersonJurorId} is presiding juror`);
+
+    res.status(200).json({
+      success: true,
+      message: "Presiding juror assigned",
+      data: settings,
+    });
+  } catch (error) {
+    console.error("❌ [Verdict.assignForeperson] Error:", error.message);
+    res.status(400).json({
+      success: false,
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Get the live panel verdict (foreperson's answers) for jurors on the case
+ * GET /api/verdicts/panel/:caseId
+ * Approved juror or Admin
+ */
+async function getPanelVerdict(req, res) {
+  try {
+    const { caseId } = req.params;
+
+    if (!caseId || isNaN(parseInt(caseId))) {
+      return res.status(400).json({
+        success: false,
+        error: "Valid case ID is required",
+      });
+    }
+
+    if (req.userRole === "juror") {
+      if (!(await isJurorApprovedForCase(req.user.id, parseInt(caseId)))) {
+        return res.status(403).json({
+          success: false,
+          error: "Juror is not authorized for this case",
+        });
+      }
+    } else if (req.userRole !== "admin") {
+      return res.status(403).json({
+        success: false,
+        error: "Juror or admin access required",
+      });
+    }
+
+    const panel = await Verdict.getPanelVerdict(parseInt(caseId));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...panel,
+        isForeperson:
+          req.userRole === "juror" && panel.forepersonJurorId === parseInt(req.user.id),
+      },
+    });
+  } catch (error) {
+    console.error("❌ [Verdict.getPanelVerdict] Error:", error.message);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+}
+
 // ============================================
 // EXPORTS
 // ============================================
@@ -644,7 +1482,19 @@ module.exports = {
   getVerdictsByCase,
   getSubmissionStatus,
   getAggregatedResults,
+  getCrossTabResults,
+  getRerunComparison,
+  getReactionTimeline,
+  exportResults,
   publishResults,
+  getDebriefSurvey,
+  updateDebriefSurvey,
+  submitDebrief,
+  getDebriefFeedback,
   deleteVerdict,
   checkSubmissionStatus,
+  getVerdictSettings,
+  updateVerdictMode,
+  assignForeperson,
+  getPanelVerdict,
 };
@@ -4,6 +4,8 @@
 // =============================================
 
 const { poolPromise, sql } = require("../config/db");
+const OpposingCounsel = require("../models/OpposingCounsel");
+const Firm = require("../models/Firm");
 
 // ============================================
 // HELPER FUNCTIONS
@@ -18,13 +20,39 @@ async function verifyAttorneyOwnsCase(pool, caseId, attorneyId) {
     .request()
     .input("caseId", sql.Int, caseId)
     .input("attorneyId", sql.Int, attorneyId)
-    .query(
-      "SELECT CaseId FROM Cases WHERE CaseId = @caseId AND AttorneyId = @attorneyId"
-    );
+    .query(`
+      SELECT CaseId FROM Cases
+      WHERE CaseId = @caseId
+        AND (AttorneyId = @attorneyId OR ${Firm.firmColleagueFilter("AttorneyId")})
+    `);
 
   return result.recordset.length > 0;
 }
 
+/**
+ * Which witnesses the attorney manages once a case has opposing counsel:
+ * opposing counsel only their side's witnesses, the owner everything else.
+ * Returns null when the case has no opposing counsel (owner manages all).
+ */
+async function getWitnessScope(req) {
+  const counselRole =
+    req.counselRole ||
+    (await OpposingCounsel.getCounselRole(req.caseData, req.user.id));
+  if (!counselRole || !counselRole.side) return null;
+
+  const isOpposing = counselRole.role === OpposingCounsel.COUNSEL_ROLES.OPPOSING;
+  const sides = isOpposing
+    ? OpposingCounsel.getWitnessSides(counselRole.side)
+    : OpposingCounsel.getWitnessSides(OpposingCounsel.getOppositeSide(counselRole.side));
+
+  return {
+    // Opposing counsel: sides they may use; owner: sides they may not touch
+    sides,
+    isOpposing,
+    allows: (side) => (isOpposing ? sides.includes(side) : !sides.includes(side)),
+  };
+}
+
 /**
  * Validate witness data
  * FIXED: Added input validation
@@ -108,13 +136,27 @@ async function saveWitnesses(req, res) {
 
     const pool = await poolPromise;
 
-    // Verify attorney owns this case
-    const ownsCase = await verifyAttorneyOwnsCase(pool, caseId, attorneyId);
-    if (!ownsCase) {
-      return res.status(403).json({
-        success: false,
-        message: "Not authorized to modify this case",
-      });
+    // Verify attorney owns this case (opposing counsel was verified by the route)
+    if (!req.counselRole) {
+      const ownsCase = await verifyAttorneyOwnsCase(pool, caseId, attorneyId);
+      if (!ownsCase) {
+        return res.status(403).json({
+          success: false,
+          message: "Not authorized to modify this case",
+        });
+      }
+    }
+
+    // With opposing counsel, each attorney only saves their own side's witnesses
+    const scope = await getWitnessScope(req);
+    if (scope) {
+      const outOfScope = witnesses.find((witness) => !scope.allows(witness.side));
+      if (outOfScope) {
+        return res.status(400).json({
+          success: false,
+          message: `${outOfScope.side} witnesses are managed by the other side's counsel`,
+        });
+      }
     }
 
     // FIXED: Use transaction for atomic operation
@@ -122,11 +164,15 @@ async function saveWitnesses(req, res) {
     await transaction.begin();
 
     try {
-      // Delete existing witnesses for this case
-      await transaction
-        .request()
-        .input("caseId", sql.Int, caseId)
-        .query("DELETE FROM CaseWitnesses WHERE CaseId = @caseId");
+      // Delete existing witnesses for this case (only this attorney's side when there is opposing counsel)
+      const deleteRequest = transaction.request().input("caseId", sql.Int, caseId);
+      let sideFilter = "";
+      if (scope) {
+        scope.sides.forEach((side, i) => deleteRequest.input(`side${i}`, sql.NVarChar, side));
+        const sideParams = scope.sides.map((_, i) => `@side${i}`).join(", ");
+        sideFilter = ` AND Side ${scope.isOpposing ? "IN" : "NOT IN"} (${sideParams})`;
+      }
+      await deleteRequest.query(`DELETE FROM CaseWitnesses WHERE CaseId = @caseId${sideFilter}`);
 
       // Insert new witnesses
       if (witnesses.length > 0) {
@@ -248,7 +294,7 @@ async function updateWitness(req, res) {
         SELECT cw.WitnessId 
         FROM CaseWitnesses cw 
         JOIN Cases c ON cw.CaseId = c.CaseId 
-        WHERE cw.WitnessId = @witnessId AND c.AttorneyId = @attorneyId
+        WHERE cw.WitnessId = @witnessId AND (c.AttorneyId = @attorneyId OR ${Firm.firmColleagueFilter("c.AttorneyId")})
       `);
 
     if (verifyResult.recordset.length === 0) {
@@ -311,7 +357,7 @@ async function deleteWitness(req, res) {
         SELECT cw.WitnessId 
         FROM CaseWitnesses cw 
         JOIN Cases c ON cw.CaseId = c.CaseId 
-        WHERE cw.WitnessId = @witnessId AND c.AttorneyId = @attorneyId
+        WHERE cw.WitnessId = @witnessId AND (c.AttorneyId = @attorneyId OR ${Firm.firmColleagueFilter("c.AttorneyId")})
       `);
 
     if (verifyResult.recordset.length === 0) {
@@ -1,5 +1,6 @@
 // Fix approved cases that don't have AttorneyStatus = 'war_room'
 const { poolPromise, sql } = require("./config/db");
+const CaseLifecycle = require("./models/CaseLifecycle");
 
 async function fixApprovedCases() {
   try {
@@ -61,17 +62,22 @@ async function fixApprovedCases() {
 
       console.log("🔧 Fixing these cases...\n");
 
-      // Update all approved cases to have war_room status
-      const updateResult = await pool.request().query(`
-        UPDATE dbo.Cases
-        SET AttorneyStatus = 'war_room',
-            UpdatedAt = GETUTCDATE()
-        WHERE AdminApprovalStatus = 'approved'
-          AND AttorneyStatus != 'war_room'
-          AND IsDeleted = 0
-      `);
+      // Move each case through the lifecycle so illegal jumps (e.g. a completed
+      // trial back to war_room) are refused and every change is in the history
+      let fixedCount = 0;
+      for (const c of wrongStatusCases.recordset) {
+        try {
+          await CaseLifecycle.transitionCase(c.CaseId, "war_room", {
+            actorType: CaseLifecycle.ACTOR_TYPES.SYSTEM,
+            reason: "fix-approved-cases-status script",
+          });
+          fixedCount++;
+        } catch (error) {
+          console.log(`   ⏭️  Skipped case ${c.CaseId}: ${error.message}`);
+        }
+      }
 
-      console.log(`✅ Fixed ${updateResult.rowsAffected[0]} case(s)\n`);
+      console.log(`✅ Fixed ${fixedCount} case(s)\n`);
 
       // Verify fix
       const verifyResult = await pool.request().query(`
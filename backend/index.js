@@ -64,6 +64,7 @@ const { poolPromise } = require("./config/db");
 // ============================================
 const { startScheduler, stopScheduler } = require("./jobs/trialScheduler");
 const { startReminderScheduler, stopReminderScheduler } = require("./jobs/trialReminderScheduler");
+const { startDraftCleanupScheduler, stopDraftCleanupScheduler } = require("./jobs/caseDraftCleanupScheduler");
 
 // ============================================
 // WEBSOCKET SERVICE
@@ -145,6 +146,9 @@ const caseRoutes = safeRequireRoute("./routes/caseRoutes", "Cases");
 const paymentRoutes = safeRequireRoute("./routes/paymentRoutes", "Payment");
 const diagnosticRoutes = safeRequireRoute("./routes/diagnosticRoutes", "Diagnostic");
 const juryChargeRoutes = safeRequireRoute("./routes/juryChargeRoutes", "Jury Charge");
+const caseTemplateRoutes = safeRequireRoute("./routes/caseTemplateRoutes", "Case Templates");
+const caseDraftRoutes = safeRequireRoute("./routes/caseDraftRoutes", "Case Drafts");
+const firmRoutes = safeRequireRoute("./routes/firmRoutes", "Firms");
 const verdictRoutes = safeRequireRoute("./routes/verdictRoutes", "Verdicts");
 const recordingRoutes = safeRequireRoute("./routes/recordingRoutes", "Recordings");
 
@@ -421,6 +425,9 @@ app.use("/api/payments", paymentRoutes);
 app.use("/api/files", fileRoutes);
 app.use("/api/diagnostic", diagnosticRoutes);
 app.use("/api/jury-charge", juryChargeRoutes);
+app.use("/api/case-templates", caseTemplateRoutes);
+app.use("/api/case-drafts", caseDraftRoutes);
+app.use("/api/firms", firmRoutes);
 app.use("/api/verdicts", verdictRoutes);
 app.use("/api/recordings", recordingRoutes);
 
@@ -497,7 +504,7 @@ async function startServer() {
     await pool.request().query("SELECT 1 as test");
     console.log("✅ Database connection established\n");
 
-    // ── Auto-migration: ensure QuestionType CHECK constraint includes 'Multiple Select' ──
+    // ── Auto-migration: ensure QuestionType CHECK constraint includes 'Multiple Select' and 'Damages Amount' ──
     try {
       // Check current constraint definition
       const constraintCheck = await pool.request().query(`
@@ -511,10 +518,12 @@ async function startServer() {
 
       const existing = constraintCheck.recordset[0];
       const alreadyPatched =
-        existing && existing.CHECK_CLAUSE.includes("Multiple Select");
+        existing &&
+        existing.CHECK_CLAUSE.includes("Multiple Select") &&
+        existing.CHECK_CLAUSE.includes("Damages Amount");
 
       if (!alreadyPatched) {
-        console.log("⚙️  Applying migration: add 'Multiple Select' to QuestionType constraint...");
+        console.log("⚙️  Applying migration: add 'Multiple Select' and 'Damages Amount' to QuestionType constraint...");
         if (existing) {
           await pool.request().query(
             `ALTER TABLE dbo.JuryChargeQuestions DROP CONSTRAINT [${existing.CONSTRAINT_NAME}]`
@@ -523,7 +532,7 @@ async function startServer() {
         await pool.request().query(`
           ALTER TABLE dbo.JuryChargeQuestions
           ADD CONSTRAINT CK_JuryChargeQuestions_QuestionType
-          CHECK (QuestionType IN ('Multiple Choice', 'Multiple Select', 'Yes/No', 'Text Response', 'Numeric Response'))
+          CHECK (QuestionType IN ('Multiple Choice', 'Multiple Select', 'Yes/No', 'Text Response', 'Numeric Response', 'Damages Amount'))
         `);
         console.log("✅ Migration applied: QuestionType constraint updated\n");
       } else {
@@ -535,6 +544,16 @@ async function startServer() {
     }
     // ── End auto-migration ──
 
+    // ── Auto-migration: conditional jury charge questions ──
+    try {
+      await pool.request().query(`
+        IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE Name = N'Condition' AND Object_ID = Object_ID(N'dbo.JuryChargeQuestions'))
+          ALTER TABLE dbo.JuryChargeQuestions ADD Condition NVARCHAR(MAX) NULL;
+      `);
+    } catch (migrationErr) {
+      console.warn("⚠️  JuryChargeQuestions.Condition migration skipped:", migrationErr.message);
+    }
+
     const PORT = process.env.PORT || 4000;
     const HOST = process.env.HOST || "0.0.0.0";
 
@@ -567,6 +586,10 @@ async function startServer() {
       // ✅ Start trial reminder scheduler
       console.log("📧 Initializing trial reminder scheduler...");
       startReminderScheduler();
+
+      // ✅ Start case draft cleanup scheduler
+      console.log("🧹 Initializing case draft cleanup scheduler...");
+      startDraftCleanupScheduler();
     });
 
     const shutdown = (signal) => {
@@ -578,6 +601,9 @@ async function startServer() {
       // ✅ Stop reminder scheduler
       stopReminderScheduler();
 
+      // ✅ Stop case draft cleanup scheduler
+      stopDraftCleanupScheduler();
+
       server.close(async () => {
         console.log("✅ HTTP server closed");
         try {
@@ -0,0 +1,84 @@
+// =============================================
+// caseDraftCleanupScheduler.js - Expire case creation drafts
+// Removes wizard drafts that have not been autosaved within the expiry window
+// =============================================
+
+const CaseDraft = require("../models/CaseDraft");
+
+// ============================================
+// SCHEDULER CONFIGURATION
+// ============================================
+
+const SCHEDULER_INTERVAL = 6 * 60 * 60 * 1000; // Run every 6 hours
+
+let schedulerInterval = null;
+let isRunning = false;
+
+// ============================================
+// CLEANUP LOGIC
+// ============================================
+
+async function purgeExpiredDrafts() {
+  if (isRunning) {
+    console.log("⏭️  Draft cleanup already running, skipping this cycle");
+    return;
+  }
+
+  isRunning = true;
+
+  try {
+    const removed = await CaseDraft.purgeExpiredDrafts();
+    if (removed > 0) {
+      console.log(`🧹 [Case Drafts] Removed ${removed} expired draft(s)`);
+    }
+  } catch (error) {
+    console.error("❌ Case draft cleanup error:", error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+// ============================================
+// SCHEDULER CONTROL FUNCTIONS
+// ============================================
+
+/**
+ * Start the draft cleanup scheduler
+ */
+function startDraftCleanupScheduler() {
+  if (schedulerInterval) {
+    console.log("⚠️  Case draft cleanup scheduler already running");
+    return;
+  }
+
+  console.log("🕐 Starting case draft cleanup scheduler...");
+  console.log(`   🗓️  Drafts expire ${CaseDraft.DRAFT_EXPIRY_DAYS} days after their last autosave`);
+
+  // Run immediately on start
+  purgeExpiredDrafts();
+
+  // Then run on interval
+  schedulerInterval = setInterval(purgeExpiredDrafts, SCHEDULER_INTERVAL);
+
+  console.log("✅ Case draft cleanup scheduler started successfully");
+}
+
+/**
+ * Stop the draft cleanup scheduler
+ */
+function stopDraftCleanupScheduler() {
+  if (schedulerInterval) {
+    clearInterval(schedulerInterval);
+    schedulerInterval = null;
+    console.log("🛑 Case draft cleanup scheduler stopped");
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  startDraftCleanupScheduler,
+  stopDraftCleanupScheduler,
+};
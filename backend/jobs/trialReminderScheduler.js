@@ -1,10 +1,12 @@
 // =============================================
 // trialReminderScheduler.js - Send countdown reminder emails
 // Sends daily reminder emails 4, 3, 2, 1 days before trial
+// (and before each later session of a multi-day trial)
 // =============================================
 
 const { poolPromise, sql } = require("../config/db");
 const { sendNotificationEmail } = require("../utils/email");
+const TrialSession = require("../models/TrialSession");
 
 // ============================================
 // SCHEDULER CONFIGURATION
@@ -41,6 +43,7 @@ async function checkAndSendReminders() {
     // For each reminder day (4, 3, 2, 1 days before)
     for (const daysBeforeTrial of REMINDER_DAYS) {
       await sendRemindersForDay(pool, daysBeforeTrial);
+      await sendSessionRemindersForDay(pool, daysBeforeTrial);
     }
 
     console.log("✅ [Trial Reminders] Daily reminder check completed");
@@ -127,6 +130,76 @@ async function sendRemindersForDay(pool, daysBeforeTrial) {
   }
 }
 
+/**
+ * Send reminders for later sessions of multi-day trials happening in X days
+ * (session 1 is the case's own schedule and is covered by sendRemindersForDay)
+ */
+async function sendSessionRemindersForDay(pool, daysBeforeTrial) {
+  try {
+    // LastReminderDays is the smallest countdown already sent for the session
+    const sessionsQuery = await pool.request()
+      .input("daysBeforeTrial", sql.Int, daysBeforeTrial)
+      .query(`
+        SELECT
+          ts.SessionId,
+          ts.SessionNumber,
+          ts.Label AS SessionLabel,
+          c.CaseId,
+          c.CaseTitle,
+          c.CaseType,
+          c.County,
+          CONVERT(VARCHAR(10), ts.ScheduledDate, 120) AS ScheduledDate,
+          ts.ScheduledTime,
+          c.TimezoneOffset,
+          c.AttorneyId,
+          a.FirstName,
+          a.LastName,
+          a.Email AS AttorneyEmail,
+          a.LawFirmName
+        FROM dbo.TrialSessions ts
+        INNER JOIN Cases c ON ts.CaseId = c.CaseId
+        INNER JOIN Attorneys a ON c.AttorneyId = a.AttorneyId
+        WHERE c.AdminApprovalStatus = 'approved'
+          AND c.IsDeleted = 0
+          AND c.AttorneyStatus IN ('war_room', 'join_trial')
+          AND DATEDIFF(DAY, CAST(GETUTCDATE() AS DATE), ts.ScheduledDate) = @daysBeforeTrial
+          AND (ts.LastReminderDays IS NULL OR ts.LastReminderDays > @daysBeforeTrial)
+      `);
+
+    const sessions = sessionsQuery.recordset;
+
+    if (sessions.length === 0) {
+      return;
+    }
+
+    console.log(`  📬 Found ${sessions.length} trial session(s) ${daysBeforeTrial} days away`);
+
+    for (const sessionData of sessions) {
+      try {
+        await sendReminderForCase(pool, {
+          ...sessionData,
+          CaseTitle: `${sessionData.CaseTitle} - ${TrialSession.describeSession(sessionData.SessionNumber, sessionData.SessionLabel)}`,
+        }, daysBeforeTrial);
+
+        await pool.request()
+          .input("sessionId", sql.Int, sessionData.SessionId)
+          .input("daysBeforeTrial", sql.Int, daysBeforeTrial)
+          .query(`
+            UPDATE dbo.TrialSessions
+            SET LastReminderDays = @daysBeforeTrial, UpdatedAt = GETUTCDATE()
+            WHERE SessionId = @sessionId
+          `);
+
+        console.log(`    ✅ Reminder sent and marked for case ${sessionData.CaseId} session ${sessionData.SessionNumber}`);
+      } catch (error) {
+        console.error(`    ❌ Error sending reminder for case ${sessionData.CaseId} session ${sessionData.SessionNumber}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error(`❌ Error sending session reminders for ${daysBeforeTrial} days before:`, error);
+  }
+}
+
 /**
  * Send reminder emails to attorney and jurors for a specific case
  */
@@ -4,6 +4,9 @@
 // =============================================
 
 const { poolPromise, sql } = require("../config/db");
+const Case = require("../models/Case");
+const CaseLifecycle = require("../models/CaseLifecycle");
+const TrialSession = require("../models/TrialSession");
 const Notification = require("../models/Notification");
 const { sendNotificationEmail } = require("../utils/email");
 
@@ -120,6 +123,71 @@ async function checkAndTransitionTrials() {
         }
       }
     }
+
+    // ============================================
+    // STEP 3: Notifications for later sessions of multi-day trials
+    // ============================================
+
+    // Session 1 is the case's own schedule (handled above); later sessions are in TrialSessions
+    const sessionsForNotifications = await pool.request().query(`
+      SELECT
+        ts.SessionId,
+        ts.SessionNumber,
+        ts.Label AS SessionLabel,
+        c.CaseId,
+        c.CaseTitle,
+        CONVERT(VARCHAR(10), ts.ScheduledDate, 120) AS ScheduledDate,
+        ts.ScheduledTime,
+        c.TimezoneOffset,
+        c.AttorneyId,
+        c.County,
+        c.CaseType,
+        a.FirstName,
+        a.LastName,
+        a.Email as AttorneyEmail,
+        a.LawFirmName,
+        a.State as AttorneyState
+        , DATEDIFF(MINUTE,
+            GETUTCDATE(),
+            DATEADD(MINUTE, -ISNULL(c.TimezoneOffset, 0), CAST(CONCAT(
+              CONVERT(VARCHAR(10), ts.ScheduledDate, 120), ' ', ts.ScheduledTime
+            ) AS DATETIME))
+          ) AS MinutesUntilTrial
+      FROM dbo.TrialSessions ts
+      INNER JOIN Cases c ON ts.CaseId = c.CaseId
+      INNER JOIN Attorneys a ON c.AttorneyId = a.AttorneyId
+      WHERE c.AttorneyStatus = 'join_trial'
+        AND c.AdminApprovalStatus = 'approved'
+        AND c.IsDeleted = 0
+        AND ts.NotificationsSent = 0
+        AND DATEDIFF(MINUTE,
+            GETUTCDATE(),
+            DATEADD(MINUTE, -ISNULL(c.TimezoneOffset, 0), CAST(CONCAT(
+              CONVERT(VARCHAR(10), ts.ScheduledDate, 120), ' ', ts.ScheduledTime
+            ) AS DATETIME))
+          ) <= ${NOTIFICATION_MINUTES}
+        AND DATEDIFF(MINUTE,
+            GETUTCDATE(),
+            DATEADD(MINUTE, -ISNULL(c.TimezoneOffset, 0), CAST(CONCAT(
+              CONVERT(VARCHAR(10), ts.ScheduledDate, 120), ' ', ts.ScheduledTime
+            ) AS DATETIME))
+          ) >= -60  -- Don't notify for sessions that started over 1 hour ago
+    `);
+
+    if (sessionsForNotifications.recordset.length > 0) {
+      console.log(`🔔 Found ${sessionsForNotifications.recordset.length} trial session(s) ready for notifications`);
+
+      for (const sessionData of sessionsForNotifications.recordset) {
+        try {
+          console.log(
+            `  • Notification case ${sessionData.CaseId} session ${sessionData.SessionNumber} MinutesUntilTrial=${sessionData.MinutesUntilTrial}`
+          );
+          await sendTrialNotifications(sessionData, pool);
+        } catch (error) {
+          console.error(`❌ Error sending notifications for case ${sessionData.CaseId} session ${sessionData.SessionNumber}:`, error);
+        }
+      }
+    }
   } catch (error) {
     console.error("❌ Trial scheduler error:", error);
   } finally {
@@ -137,11 +205,10 @@ async function openWarRoomAccess(caseData, pool) {
   console.log(`🚪 Opening war room access for case ${caseId}: "${caseData.CaseTitle}"`);
 
   // ✅ Update case status to join_trial (makes war room accessible)
-  await pool.request().input("caseId", sql.Int, caseId).query(`
-    UPDATE Cases
-    SET AttorneyStatus = 'join_trial', UpdatedAt = GETUTCDATE()
-    WHERE CaseId = @caseId AND IsDeleted = 0
-  `);
+  await CaseLifecycle.transitionCase(caseId, Case.ATTORNEY_CASE_STATES.JOIN_TRIAL, {
+    actorType: CaseLifecycle.ACTOR_TYPES.SYSTEM,
+    reason: `Opened ${WAR_ROOM_ACCESS_MINUTES} minutes before trial`,
+  });
 
   console.log(`✅ War room is now accessible for case ${caseId} (${WAR_ROOM_ACCESS_MINUTES} minutes before trial)`);
 }
@@ -149,10 +216,14 @@ async function openWarRoomAccess(caseData, pool) {
 /**
  * Send trial notifications (15 minutes before trial)
  * Sends emails and notifications to jurors, attorney, and admins
+ * When caseData carries a SessionId, it is for a later session of a multi-day trial
  */
 async function sendTrialNotifications(caseData, pool) {
   const caseId = caseData.CaseId;
   const attorneyName = `${caseData.FirstName} ${caseData.LastName}`;
+  const trialName = caseData.SessionId
+    ? `${caseData.CaseTitle} - ${TrialSession.describeSession(caseData.SessionNumber, caseData.SessionLabel)}`
+    : caseData.CaseTitle;
 
   // Format trial date and time
   const trialDate = new Date(caseData.ScheduledDate).toLocaleDateString("en-US", {
@@ -163,7 +234,7 @@ async function sendTrialNotifications(caseData, pool) {
   });
   const trialTime = caseData.ScheduledTime;
 
-  console.log(`🔔 Sending notifications for case ${caseId}: "${caseData.CaseTitle}"`);
+  console.log(`🔔 Sending notifications for case ${caseId}: "${trialName}"`);
 
 
   // ✅ Get all approved jurors
@@ -192,7 +263,7 @@ async function sendTrialNotifications(caseData, pool) {
         caseId: caseId,
         type: Notification.NOTIFICATION_TYPES.TRIAL_STARTING,
         title: 'Trial Starting Soon - Join Now!',
-        message: `The trial for "${caseData.CaseTitle}" is starting in ${NOTIFICATION_MINUTES} minutes! Please join the trial room now.`
+        message: `The trial for "${trialName}" is starting in ${NOTIFICATION_MINUTES} minutes! Please join the trial room now.`
       });
 
       // Send email
@@ -200,7 +271,7 @@ async function sendTrialNotifications(caseData, pool) {
         <h2 style="color: #16305B; margin-top: 0;">🎥 Trial Starting Soon!</h2>
         <p style="color: #666; line-height: 1.6;">Dear ${juror.Name},</p>
         <p style="color: #666; line-height: 1.6;">
-          The trial for <strong>"${caseData.CaseTitle}"</strong> is starting in <strong>${NOTIFICATION_MINUTES} minutes</strong>!
+          The trial for <strong>"${trialName}"</strong> is starting in <strong>${NOTIFICATION_MINUTES} minutes</strong>!
         </p>
         <div style="background: #fef3c7; border-left: 4px solid #f59e0b; padding: 20px; margin: 25px 0; border-radius: 4px;">
           <p style="color: #92400e; margin: 0; font-size: 18px;">
@@ -247,14 +318,14 @@ async function sendTrialNotifications(caseData, pool) {
       caseId: caseId,
       type: Notification.NOTIFICATION_TYPES.TRIAL_STARTING,
       title: 'Trial Room Ready - Start Trial',
-      message: `Your trial for "${caseData.CaseTitle}" is ready to start! All jurors have been notified.`
+      message: `Your trial for "${trialName}" is ready to start! All jurors have been notified.`
     });
 
     const attorneyEmailContent = `
       <h2 style="color: #16305B; margin-top: 0;">🎥 Trial Room Ready</h2>
       <p style="color: #666; line-height: 1.6;">Dear ${attorneyName},</p>
       <p style="color: #666; line-height: 1.6;">
-        The trial room for <strong>"${caseData.CaseTitle}"</strong> is now active and ready to begin!
+        The trial room for <strong>"${trialName}"</strong> is now active and ready to begin!
       </p>
       <div style="background: #f0fdf4; border-left: 4px solid #16a34a; padding: 20px; margin: 25px 0; border-radius: 4px;">
         <p style="color: #16a34a; margin: 0; font-size: 16px;">
@@ -304,14 +375,14 @@ async function sendTrialNotifications(caseData, pool) {
         caseId: caseId,
         type: Notification.NOTIFICATION_TYPES.TRIAL_STARTED,
         title: 'Trial Started - Case Now Live',
-        message: `Trial "${caseData.CaseTitle}" has transitioned to join_trial status. Attorney ${attorneyName} and all jurors have been notified.`
+        message: `Trial "${trialName}" has transitioned to join_trial status. Attorney ${attorneyName} and all jurors have been notified.`
       });
 
       const adminEmailContent = `
         <h2 style="color: #16305B; margin-top: 0;">Trial Started</h2>
         <p style="color: #666; line-height: 1.6;">Hello Admin,</p>
         <p style="color: #666; line-height: 1.6;">
-          The trial for <strong>"${caseData.CaseTitle}"</strong> has automatically transitioned to live status.
+          The trial for <strong>"${trialName}"</strong> has automatically transitioned to live status.
         </p>
         <div style="background: #eff6ff; border-left: 4px solid #3b82f6; padding: 20px; margin: 25px 0; border-radius: 4px;">
           <p style="color: #1e40af; margin: 0; font-size: 16px;">
@@ -344,7 +415,7 @@ async function sendTrialNotifications(caseData, pool) {
 
       await sendNotificationEmail(
         admin.Email,
-        `Trial Started - ${caseData.CaseTitle}`,
+        `Trial Started - ${trialName}`,
         adminEmailContent
       );
 
@@ -355,11 +426,19 @@ async function sendTrialNotifications(caseData, pool) {
   }
 
   // ✅ Mark notifications as sent to prevent duplicate notifications
-  await pool.request().input("caseId", sql.Int, caseId).query(`
-    UPDATE Cases
-    SET NotificationsSent = 1, UpdatedAt = GETUTCDATE()
-    WHERE CaseId = @caseId AND IsDeleted = 0
-  `);
+  if (caseData.SessionId) {
+    await pool.request().input("sessionId", sql.Int, caseData.SessionId).query(`
+      UPDATE dbo.TrialSessions
+      SET NotificationsSent = 1, UpdatedAt = GETUTCDATE()
+      WHERE SessionId = @sessionId
+    `);
+  } else {
+    await pool.request().input("caseId", sql.Int, caseId).query(`
+      UPDATE Cases
+      SET NotificationsSent = 1, UpdatedAt = GETUTCDATE()
+      WHERE CaseId = @caseId AND IsDeleted = 0
+    `);
+  }
 
   console.log(`✅ Successfully sent notifications for case ${caseId} (${NOTIFICATION_MINUTES} minutes before trial)`);
 }
@@ -6,6 +6,7 @@ const jwt = require("jsonwebtoken");
 const { findByEmail: findAttorneyByEmail } = require("../models/Attorney");
 const { findByEmail: findJurorByEmail } = require("../models/Juror");
 const { findById: findAdminById } = require("../models/Admin");
+const { findAccountById: findTeamAccountById } = require("../models/WarRoomTeam");
 
 // ============================================
 // JWT SECRET VALIDATION
@@ -259,6 +260,48 @@ async function authMiddleware(req, res, next) {
           500
         );
       }
+    }
+
+    // War room team member authentication
+    // Case access is granted per case by warRoomMiddleware, not here
+    else if (userType === "team_member") {
+      try {
+        const account = await findTeamAccountById(userId);
+
+        if (!account || account.Email !== userEmail) {
+          return handleAuthError(
+            res,
+            "Team member account not found",
+            "TEAM_MEMBER_NOT_FOUND",
+            404
+          );
+        }
+
+        if (!account.IsActive) {
+          return handleAuthError(
+            res,
+            "Your account has been deactivated. Please contact support.",
+            "ACCOUNT_DEACTIVATED",
+            403
+          );
+        }
+
+        user = {
+          id: account.AccountId,
+          email: account.Email,
+          type: "team_member",
+          name: account.Name,
+          verified: true,
+        };
+      } catch (error) {
+        console.error("❌ Error fetching team member:", error);
+        return handleAuthError(
+          res,
+          "Error validating team member credentials",
+          "AUTH_ERROR",
+          500
+        );
+      }
     } else {
       return handleAuthError(
         res,
@@ -367,6 +410,27 @@ function requireJuror(req, res, next) {
   next();
 }
 
+function requireTeamMember(req, res, next) {
+  if (!req.user) {
+    return handleAuthError(
+      res,
+      "Authentication required. Please log in.",
+      "AUTH_REQUIRED"
+    );
+  }
+
+  if (req.user.type !== "team_member") {
+    return handleAuthError(
+      res,
+      "This resource requires a team member account",
+      "TEAM_MEMBER_REQUIRED",
+      403
+    );
+  }
+
+  next();
+}
+
 function requireAdmin(req, res, next) {
   if (!req.user) {
     return handleAuthError(
@@ -718,6 +782,7 @@ module.exports = {
   authenticateToken: authMiddleware, // alias
   requireAttorney,
   requireJuror,
+  requireTeamMember,
   requireAdmin,
   requireAnyRole,
   requireVerified,
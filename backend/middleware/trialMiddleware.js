@@ -8,6 +8,9 @@ const {
   getCaseDetails,
   isJurorApprovedForCase,
 } = require("../helpers/accessHelper");
+const OpposingCounsel = require("../models/OpposingCounsel");
+const Firm = require("../models/Firm");
+const WarRoomTeam = require("../models/WarRoomTeam");
 
 // ============================================
 // TRIAL ACCESS (join_trial stage)
@@ -66,9 +69,10 @@ async function requireTrialAccess(req, res, next) {
       );
     }
 
-    // Attorney access
+    // Attorney access (case owner or accepted opposing counsel)
     if (user.type === "attorney") {
-      if (caseData.AttorneyId !== user.id) {
+      const counselRole = await OpposingCounsel.getCounselRole(caseData, user.id);
+      if (!counselRole) {
         console.error(`❌ Attorney ${user.id} does not own case ${caseId} (owner: ${caseData.AttorneyId})`);
         return sendError(
           res,
@@ -78,9 +82,10 @@ async function requireTrialAccess(req, res, next) {
         );
       }
 
-      console.log(`✅ Attorney ${user.id} access granted for case ${caseId}`);
+      console.log(`✅ Attorney ${user.id} access granted for case ${caseId} (${counselRole.role})`);
       req.caseData = caseData;
       req.caseId = caseId;
+      req.counselRole = counselRole;
       return next();
     }
 
@@ -103,6 +108,27 @@ async function requireTrialAccess(req, res, next) {
       return next();
     }
 
+    // War room team member (observer, owner's side)
+    if (user.type === "team_member") {
+      const membership = await WarRoomTeam.getMembership(user.id, caseId);
+      if (!WarRoomTeam.hasPermission(membership, WarRoomTeam.TEAM_PERMISSIONS.ATTEND_TRIAL)) {
+        console.error(`❌ Team member ${user.id} may not attend trial for case ${caseId}`);
+        return sendError(
+          res,
+          403,
+          "You have not been given access to attend this trial",
+          "TEAM_PERMISSION_REQUIRED"
+        );
+      }
+
+      console.log(`✅ Team member ${user.id} observer access granted for case ${caseId}`);
+      req.caseData = caseData;
+      req.caseId = caseId;
+      req.teamMember = membership;
+      req.counselRole = await OpposingCounsel.getOwnerSideRole(caseData);
+      return next();
+    }
+
     console.error(`❌ Invalid user type for trial access: ${user.type}`);
     return sendError(
       res,
@@ -153,7 +179,7 @@ async function requireVerdictAccess(req, res, next) {
 
     // Attorney
     if (user.type === "attorney") {
-      if (caseData.AttorneyId !== user.id)
+      if (!(await Firm.canManageCase(caseData, user.id)))
         return sendError(
           res,
           403,
@@ -215,6 +241,34 @@ function requireAdminForTrial(req, res, next) {
   next();
 }
 
+// ============================================
+// JUROR & PARTICIPANT DETAILS
+// Team members observe the trial but are not counsel: they get no juror
+// names, contact details or participant lists
+// ============================================
+function denyTeamObservers(req, res, next) {
+  if (req.user?.type === "team_member")
+    return sendError(
+      res,
+      403,
+      "Team members cannot view trial participants",
+      "TEAM_MEMBER_DENIED"
+    );
+  next();
+}
+
+/**
+ * Only admins and the case owner's attorneys may see juror email addresses.
+ * Expects req.counselRole from requireTrialAccess.
+ */
+function canViewJurorContact(req) {
+  if (req.user?.type === "admin") return true;
+  return (
+    req.user?.type === "attorney" &&
+    req.counselRole?.role === OpposingCounsel.COUNSEL_ROLES.OWNER
+  );
+}
+
 // ============================================
 // ATTORNEY OWNERSHIP CHECK
 // ============================================
@@ -238,7 +292,7 @@ async function requireCaseOwnership(req, res, next) {
 
     if (!caseData)
       return sendError(res, 404, "Case not found", "CASE_NOT_FOUND");
-    if (caseData.AttorneyId !== user.id)
+    if (!(await Firm.canManageCase(caseData, user.id)))
       return sendError(res, 403, "You do not own this case", "NOT_CASE_OWNER");
 
     req.caseData = caseData;
@@ -263,4 +317,6 @@ module.exports = {
   requireVerdictAccess,
   requireAdminForTrial,
   requireCaseOwnership,
+  denyTeamObservers,
+  canViewJurorContact,
 };
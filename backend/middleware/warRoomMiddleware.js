@@ -8,6 +8,9 @@ const {
   getCaseDetails,
   isJurorApprovedForCase,
 } = require("../helpers/accessHelper");
+const OpposingCounsel = require("../models/OpposingCounsel");
+const Firm = require("../models/Firm");
+const WarRoomTeam = require("../models/WarRoomTeam");
 
 // ============================================
 // WAR ROOM ACCESS
@@ -55,9 +58,10 @@ async function requireWarRoomAccess(req, res, next) {
       return next();
     }
 
-    // Attorney
+    // Attorney (case owner or accepted opposing counsel)
     if (user.type === "attorney") {
-      if (caseData.AttorneyId !== user.id)
+      const counselRole = await OpposingCounsel.getCounselRole(caseData, user.id);
+      if (!counselRole)
         return sendError(
           res,
           403,
@@ -66,6 +70,7 @@ async function requireWarRoomAccess(req, res, next) {
         );
       req.caseData = caseData;
       req.caseId = caseId;
+      req.counselRole = counselRole;
       return next();
     }
 
@@ -84,6 +89,21 @@ async function requireWarRoomAccess(req, res, next) {
       return next();
     }
 
+    // War room team member: only routes that opted in with
+    // requireTeamPermission (which already checked membership) let them through
+    if (user.type === "team_member") {
+      if (!req.teamMember || req.teamMember.CaseId !== caseId)
+        return sendError(
+          res,
+          403,
+          "Your team role does not include access to this",
+          "TEAM_PERMISSION_REQUIRED"
+        );
+      req.caseData = caseData;
+      req.caseId = caseId;
+      return next();
+    }
+
     return sendError(
       res,
       403,
@@ -125,7 +145,7 @@ async function requireWarRoomOwnership(req, res, next) {
     if (!caseData)
       return sendError(res, 404, "Case not found", "CASE_NOT_FOUND");
 
-    if (caseData.AttorneyId !== user.id)
+    if (!(await Firm.canManageCase(caseData, user.id)))
       return sendError(res, 403, "You do not own this case", "NOT_CASE_OWNER");
 
     const allowedStatuses = ["war_room", "join_trial"];
@@ -192,6 +212,75 @@ async function requireActiveWarRoom(req, res, next) {
   }
 }
 
+// ============================================
+// TEAM MEMBER PERMISSIONS
+// ============================================
+
+/**
+ * Whether a user holds a war room team permission on a case.
+ * Only meaningful for team members; callers handle other user types.
+ */
+async function hasTeamPermission(user, caseId, permission) {
+  if (!user || user.type !== "team_member") return false;
+  const membership = await WarRoomTeam.getMembership(user.id, caseId);
+  return WarRoomTeam.hasPermission(membership, permission);
+}
+
+/**
+ * Gate a case route on a team member permission (WarRoomTeam.TEAM_PERMISSIONS).
+ * Other user types pass straight through to the route's own checks. Team
+ * members act on the case owner's side, so req.counselRole is the owner's.
+ */
+function requireTeamPermission(permission) {
+  return async function (req, res, next) {
+    const user = req.user;
+    if (!user || user.type !== "team_member") return next();
+
+    try {
+      const validation = validateCaseId(req.params.caseId);
+      if (!validation.isValid)
+        return sendError(res, 400, validation.error, "INVALID_CASE_ID");
+      const caseId = validation.value;
+
+      const caseData = await getCaseDetails(caseId);
+      if (!caseData)
+        return sendError(res, 404, "Case not found", "CASE_NOT_FOUND");
+
+      const membership = await WarRoomTeam.getMembership(user.id, caseId);
+      if (!membership)
+        return sendError(
+          res,
+          403,
+          "You are not on this case's team",
+          "NOT_TEAM_MEMBER"
+        );
+
+      if (!WarRoomTeam.hasPermission(membership, permission))
+        return sendError(
+          res,
+          403,
+          "Your team role does not include access to this",
+          "TEAM_PERMISSION_REQUIRED",
+          { permission }
+        );
+
+      req.caseData = caseData;
+      req.caseId = caseId;
+      req.teamMember = membership;
+      req.counselRole = await OpposingCounsel.getOwnerSideRole(caseData);
+      next();
+    } catch (err) {
+      console.error("Team permission check error:", err);
+      sendError(
+        res,
+        500,
+        "Failed to verify team permissions",
+        "ACCESS_CHECK_ERROR"
+      );
+    }
+  };
+}
+
 // ============================================
 // EXPORTS
 // ============================================
@@ -199,4 +288,6 @@ module.exports = {
   requireWarRoomAccess,
   requireWarRoomOwnership,
   requireActiveWarRoom,
+  requireTeamPermission,
+  hasTeamPermission,
 };
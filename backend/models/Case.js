@@ -373,18 +373,27 @@ async function getCasesByAttorney(attorneyId, options = {}) {
     return await executeQuery(async (pool) => {
       const request = pool.request().input("id", sql.Int, id);
 
+      // options.firmId lists the cases of every attorney at the firm instead
+      let ownerFilter = "c.AttorneyId = @id";
+      if (options.firmId) {
+        ownerFilter = "c.AttorneyId IN (SELECT fm.AttorneyId FROM dbo.FirmMembers fm WHERE fm.FirmId = @firmId)";
+        request.input("firmId", sql.Int, options.firmId);
+      }
+
       // Join with Attorneys to get timezone info for conversion
       let query = `
         SELECT
           c.*,
           a.State AS AttorneyState,
+          a.FirstName + ' ' + a.LastName AS AttorneyName,
+          a.Email AS AttorneyEmail,
           (SELECT COUNT(*) FROM dbo.JurorApplications ja
            WHERE ja.CaseId = c.CaseId AND ja.Status = 'approved') AS ApprovedJurors,
           (SELECT COUNT(*) FROM dbo.JurorApplications ja
            WHERE ja.CaseId = c.CaseId AND ja.Status = 'pending') AS PendingApplications
         FROM dbo.Cases c
         LEFT JOIN dbo.Attorneys a ON c.AttorneyId = a.AttorneyId
-        WHERE c.AttorneyId = @id AND c.IsDeleted = 0
+        WHERE ${ownerFilter} AND c.IsDeleted = 0
       `;
 
       if (options.status) {
@@ -723,8 +732,8 @@ async function updateCaseStatus(caseId, statusUpdates) {
     const id = parseInt(caseId, 10);
     if (isNaN(id) || id <= 0) throw new Error("Valid case ID is required");
 
+    // AttorneyStatus changes go through CaseLifecycle.transitionCase
     const {
-      attorneyStatus,
       adminApprovalStatus,
       adminComments,
       adminId,
@@ -737,14 +746,6 @@ async function updateCaseStatus(caseId, statusUpdates) {
       const req = pool.request().input("id", sql.Int, id);
       const updates = ["UpdatedAt = GETUTCDATE()"];
 
-      if (attorneyStatus) {
-        if (!Object.values(ATTORNEY_CASE_STATES).includes(attorneyStatus)) {
-          throw new Error(`Invalid attorney status: ${attorneyStatus}`);
-        }
-        updates.push("AttorneyStatus = @attorneyStatus");
-        req.input("attorneyStatus", sql.NVarChar, attorneyStatus);
-      }
-
       if (adminApprovalStatus) {
         if (
           !Object.values(ADMIN_APPROVAL_STATUSES).includes(adminApprovalStatus)
@@ -758,10 +759,7 @@ async function updateCaseStatus(caseId, statusUpdates) {
         req.input("adminApprovalStatus", sql.NVarChar, adminApprovalStatus);
 
         if (adminApprovalStatus === ADMIN_APPROVAL_STATUSES.APPROVED) {
-          updates.push(
-            "AttorneyStatus = 'war_room'",
-            "ApprovedAt = GETUTCDATE()"
-          );
+          updates.push("ApprovedAt = GETUTCDATE()");
           if (adminId) {
             updates.push("ApprovedBy = @adminId");
             req.input("adminId", sql.Int, parseInt(adminId));
@@ -832,7 +830,6 @@ async function updateCaseDetails(caseId, updates) {
       voirDire2Questions: sql.NVarChar,
       plaintiffGroups: sql.NVarChar,
       defendantGroups: sql.NVarChar,
-      attorneyStatus: sql.NVarChar,
       adminRescheduledBy: sql.Int,
     };
 
@@ -1085,11 +1082,17 @@ async function checkSlotAvailability(scheduledDate, scheduledTime, excludeCaseId
         .input("scheduledDate", sql.Date, scheduledDate)
         .input("scheduledTime", sql.VarChar, timeFormatted);
 
+      // A case holds its own slot plus the slots of any additional trial sessions
       let query = `
         SELECT TOP 1 CaseId, CaseTitle, AttorneyId
         FROM dbo.Cases
-        WHERE ScheduledDate = @scheduledDate
-          AND ScheduledTime = @scheduledTime
+        WHERE (
+            (ScheduledDate = @scheduledDate AND ScheduledTime = @scheduledTime)
+            OR CaseId IN (
+              SELECT ts.CaseId FROM dbo.TrialSessions ts
+              WHERE ts.ScheduledDate = @scheduledDate AND ts.ScheduledTime = @scheduledTime
+            )
+          )
           AND IsDeleted = 0
           AND AdminApprovalStatus IN ('pending', 'approved')
       `;
@@ -1177,7 +1180,7 @@ async function requestReschedule(caseId, adminId, alternateSlots) {
 
 /**
  * Attorney confirms reschedule by selecting one of the 3 alternate slots
- * This moves the case from pending_approval to war_room state
+ * The caller moves the case to war_room through CaseLifecycle afterwards
  * @param {number} caseId - Case ID
  * @param {object} selectedSlot - Selected slot {date: string, time: string}
  * @returns {Promise<boolean>}
@@ -1222,13 +1225,12 @@ async function confirmReschedule(caseId, selectedSlot) {
             RescheduleRequired = 0,
             AlternateSlots = NULL,
             AdminApprovalStatus = 'approved',
-            AttorneyStatus = 'war_room',
             ApprovedAt = GETUTCDATE(),
             UpdatedAt = GETUTCDATE()
           WHERE CaseId = @id AND IsDeleted = 0 AND RescheduleRequired = 1
         `);
 
-      console.log(`✅ [confirmReschedule] Case ${id} rescheduled and moved to war_room`);
+      console.log(`✅ [confirmReschedule] Case ${id} rescheduled`);
       return true;
     });
   } catch (error) {
@@ -1306,55 +1308,6 @@ async function getApprovedJurorsCount(caseId) {
   }
 }
 
-async function validateCaseStateTransition(caseId, newStatus) {
-  try {
-    const caseData = await findById(caseId);
-    if (!caseData) {
-      return { valid: false, message: "Case not found" };
-    }
-
-    const current = caseData.AttorneyStatus;
-    const validTransitions = {
-      pending: ["cancelled"],
-      war_room: ["join_trial", "cancelled"],
-      join_trial: ["view_details", "completed"],
-      view_details: ["completed"],
-      cancelled: [],
-      completed: [],
-    };
-
-    if (!validTransitions[current]?.includes(newStatus)) {
-      return {
-        valid: false,
-        message: `Cannot transition from ${current} to ${newStatus}`,
-      };
-    }
-
-    if (newStatus === ATTORNEY_CASE_STATES.JOIN_TRIAL) {
-      if (caseData.AdminApprovalStatus !== ADMIN_APPROVAL_STATUSES.APPROVED) {
-        return { valid: false, message: "Case must be approved by admin" };
-      }
-
-      const required = caseData.RequiredJurors || 7;
-      const approved = await getApprovedJurorsCount(caseId);
-      if (approved < required) {
-        return {
-          valid: false,
-          message: `Need ${required} jurors, only ${approved} approved`,
-        };
-      }
-    }
-
-    return { valid: true };
-  } catch (error) {
-    console.error(
-      "❌ [Case.validateCaseStateTransition] Error:",
-      error.message
-    );
-    return { valid: false, message: "Error validating transition" };
-  }
-}
-
 async function getCaseStatistics() {
   try {
     return await executeQuery(async (pool) => {
@@ -1408,7 +1361,6 @@ module.exports = {
   getRescheduleCasesForAttorney,
 
   // Helpers
-  validateCaseStateTransition,
   getCaseStatistics,
   getApprovedJurorsCount,
 
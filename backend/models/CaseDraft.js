@@ -0,0 +1,374 @@
+// =============================================
+// CaseDraft.js - Server-side Case Creation Drafts
+// Autosaved snapshots of the attorney case wizard (attorney/state/*),
+// so an unfinished case survives a browser switch or cleared storage.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DRAFT_STATUS = {
+  ACTIVE: "active",
+  SUBMITTED: "submitted",
+  DISCARDED: "discarded",
+};
+
+// Wizard steps, in order (route segment under /attorney/state)
+const DRAFT_STEPS = [
+  "case-type",
+  "case-details",
+  "plaintiff-details",
+  "defendant-details",
+  "voir-dire-1",
+  "voir-dire-2",
+  "payment-details",
+  "review-details",
+  "schedule-trail",
+];
+
+// Only these wizard fields are stored; card details never leave the browser
+const DRAFT_FIELDS = [
+  "caseJurisdiction",
+  "state",
+  "county",
+  "caseType",
+  "caseTier",
+  "caseDescription",
+  "plaintiffGroups",
+  "defendantGroups",
+  "voirDire2Questions",
+  "paymentMethod",
+  "paymentAmount",
+];
+
+const DRAFT_EXPIRY_DAYS = 30; // Counted from the last autosave
+const MAX_ACTIVE_DRAFTS = 20;
+const MAX_DRAFT_DATA_LENGTH = 500000; // characters of JSON
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureCaseDraftsTable() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.CaseDrafts', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.CaseDrafts (
+          DraftId INT IDENTITY(1,1) PRIMARY KEY,
+          AttorneyId INT NOT NULL,
+          Title NVARCHAR(300) NULL,
+          CurrentStep NVARCHAR(50) NOT NULL CONSTRAINT DF_CaseDrafts_CurrentStep DEFAULT 'case-type',
+          DraftData NVARCHAR(MAX) NOT NULL,
+          Status NVARCHAR(20) NOT NULL CONSTRAINT DF_CaseDrafts_Status DEFAULT 'active',
+          SubmittedCaseId INT NULL,
+          CreatedAt DATETIME2 NOT NULL CONSTRAINT DF_CaseDrafts_CreatedAt DEFAULT GETUTCDATE(),
+          UpdatedAt DATETIME2 NOT NULL CONSTRAINT DF_CaseDrafts_UpdatedAt DEFAULT GETUTCDATE(),
+          ExpiresAt DATETIME2 NOT NULL
+        );
+        CREATE INDEX IX_CaseDrafts_Attorney_Status ON dbo.CaseDrafts (AttorneyId, Status);
+      END
+    `);
+  } catch (err) {
+    console.warn("⚠️ [CaseDraft] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureCaseDraftsTable();
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Keep known wizard fields only
+ */
+function pickDraftFields(data) {
+  const picked = {};
+  if (!data || typeof data !== "object") return picked;
+  DRAFT_FIELDS.forEach((field) => {
+    if (data[field] !== undefined && data[field] !== null && data[field] !== "") {
+      picked[field] = data[field];
+    }
+  });
+  return picked;
+}
+
+/**
+ * "Plaintiff v. Defendant" from the first named parties, like the final case title
+ */
+function deriveDraftTitle(data) {
+  const firstName = (groups, key) => {
+    try {
+      const parsed = typeof groups === "string" ? JSON.parse(groups) : groups;
+      const name = parsed?.[0]?.[key]?.[0]?.name;
+      return typeof name === "string" && name.trim() ? name.trim() : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const plaintiff = firstName(data.plaintiffGroups, "plaintiffs");
+  const defendant = firstName(data.defendantGroups, "defendants");
+  if (!plaintiff && !defendant) return null;
+  return `${plaintiff || "Plaintiff"} v. ${defendant || "Defendant"}`.slice(0, 300);
+}
+
+function validateDraftInput({ data, currentStep }) {
+  const errors = [];
+
+  if (currentStep !== undefined && !DRAFT_STEPS.includes(currentStep)) {
+    errors.push(`Step must be one of: ${DRAFT_STEPS.join(", ")}`);
+  }
+  if (data !== undefined && (typeof data !== "object" || data === null || Array.isArray(data))) {
+    errors.push("Draft data must be an object");
+  } else if (data !== undefined && JSON.stringify(pickDraftFields(data)).length > MAX_DRAFT_DATA_LENGTH) {
+    errors.push("Draft is too large to save");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Draft validation failed: ${errors.join(", ")}`);
+  }
+}
+
+function formatDraft(row) {
+  let data = {};
+  try {
+    data = JSON.parse(row.DraftData) || {};
+  } catch {
+    data = {};
+  }
+  return {
+    draftId: row.DraftId,
+    title: row.Title,
+    currentStep: row.CurrentStep,
+    status: row.Status,
+    data,
+    createdAt: row.CreatedAt,
+    updatedAt: row.UpdatedAt,
+    expiresAt: row.ExpiresAt,
+  };
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Active, unexpired drafts for an attorney (most recent first)
+ */
+async function findActiveByAttorney(attorneyId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("attorneyId", sql.Int, parseInt(attorneyId))
+      .query(`
+        SELECT *
+        FROM dbo.CaseDrafts
+        WHERE AttorneyId = @attorneyId AND Status = 'active' AND ExpiresAt > GETUTCDATE()
+        ORDER BY UpdatedAt DESC
+      `);
+
+    return result.recordset.map(formatDraft);
+  } catch (error) {
+    console.error("❌ [CaseDraft.findActiveByAttorney] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Get an active, unexpired draft owned by the attorney
+ * @returns {Promise<Object|null>}
+ */
+async function findActiveById(draftId, attorneyId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("draftId", sql.Int, parseInt(draftId))
+      .input("attorneyId", sql.Int, parseInt(attorneyId))
+      .query(`
+        SELECT *
+        FROM dbo.CaseDrafts
+        WHERE DraftId = @draftId AND AttorneyId = @attorneyId
+          AND Status = 'active' AND ExpiresAt > GETUTCDATE()
+      `);
+
+    return result.recordset[0] ? formatDraft(result.recordset[0]) : null;
+  } catch (error) {
+    console.error("❌ [CaseDraft.findActiveById] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Start a new draft
+ * @param {number} attorneyId
+ * @param {Object} input - { data, currentStep }
+ */
+async function createDraft(attorneyId, { data = {}, currentStep = DRAFT_STEPS[0] } = {}) {
+  try {
+    validateDraftInput({ data, currentStep });
+
+    const pool = await poolPromise;
+    const countResult = await pool
+      .request()
+      .input("attorneyId", sql.Int, parseInt(attorneyId))
+      .query(`
+        SELECT COUNT(*) AS ActiveCount
+        FROM dbo.CaseDrafts
+        WHERE AttorneyId = @attorneyId AND Status = 'active' AND ExpiresAt > GETUTCDATE()
+      `);
+
+    if (countResult.recordset[0].ActiveCount >= MAX_ACTIVE_DRAFTS) {
+      throw new Error(
+        `Draft validation failed: You can keep at most ${MAX_ACTIVE_DRAFTS} drafts. Discard an old draft to start a new one.`
+      );
+    }
+
+    const fields = pickDraftFields(data);
+    const result = await pool
+      .request()
+      .input("attorneyId", sql.Int, parseInt(attorneyId))
+      .input("title", sql.NVarChar(300), deriveDraftTitle(fields))
+      .input("currentStep", sql.NVarChar(50), currentStep)
+      .input("draftData", sql.NVarChar(sql.MAX), JSON.stringify(fields))
+      .input("expiryDays", sql.Int, DRAFT_EXPIRY_DAYS)
+      .query(`
+        INSERT INTO dbo.CaseDrafts (AttorneyId, Title, CurrentStep, DraftData, ExpiresAt)
+        OUTPUT INSERTED.*
+        VALUES (@attorneyId, @title, @currentStep, @draftData, DATEADD(DAY, @expiryDays, GETUTCDATE()))
+      `);
+
+    return formatDraft(result.recordset[0]);
+  } catch (error) {
+    console.error("❌ [CaseDraft.createDraft] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Autosave a draft; each save pushes the expiry out again
+ * @returns {Promise<Object|null>} Updated draft, or null if missing/expired/not owned
+ */
+async function saveDraft(draftId, attorneyId, { data, currentStep }) {
+  try {
+    validateDraftInput({ data, currentStep });
+
+    const pool = await poolPromise;
+    const request = pool
+      .request()
+      .input("draftId", sql.Int, parseInt(draftId))
+      .input("attorneyId", sql.Int, parseInt(attorneyId))
+      .input("expiryDays", sql.Int, DRAFT_EXPIRY_DAYS);
+
+    const updates = ["UpdatedAt = GETUTCDATE()", "ExpiresAt = DATEADD(DAY, @expiryDays, GETUTCDATE())"];
+    if (data !== undefined) {
+      const fields = pickDraftFields(data);
+      request.input("draftData", sql.NVarChar(sql.MAX), JSON.stringify(fields));
+      request.input("title", sql.NVarChar(300), deriveDraftTitle(fields));
+      updates.push("DraftData = @draftData", "Title = @title");
+    }
+    if (currentStep !== undefined) {
+      request.input("currentStep", sql.NVarChar(50), currentStep);
+      updates.push("CurrentStep = @currentStep");
+    }
+
+    const result = await request.query(`
+      UPDATE dbo.CaseDrafts
+      SET ${updates.join(", ")}
+      OUTPUT INSERTED.*
+      WHERE DraftId = @draftId AND AttorneyId = @attorneyId
+        AND Status = 'active' AND ExpiresAt > GETUTCDATE()
+    `);
+
+    return result.recordset[0] ? formatDraft(result.recordset[0]) : null;
+  } catch (error) {
+    console.error("❌ [CaseDraft.saveDraft] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Close a draft (submitted as a case, or discarded by the attorney)
+ * @returns {Promise<boolean>}
+ */
+async function closeDraft(draftId, attorneyId, status, submittedCaseId = null) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("draftId", sql.Int, parseInt(draftId))
+      .input("attorneyId", sql.Int, parseInt(attorneyId))
+      .input("status", sql.NVarChar(20), status)
+      .input("submittedCaseId", sql.Int, submittedCaseId ? parseInt(submittedCaseId) : null)
+      .query(`
+        UPDATE dbo.CaseDrafts
+        SET Status = @status, SubmittedCaseId = @submittedCaseId, UpdatedAt = GETUTCDATE()
+        WHERE DraftId = @draftId AND AttorneyId = @attorneyId AND Status = 'active'
+      `);
+
+    return result.rowsAffected[0] > 0;
+  } catch (error) {
+    console.error("❌ [CaseDraft.closeDraft] Error:", error.message);
+    throw error;
+  }
+}
+
+function markSubmitted(draftId, attorneyId, caseId) {
+  return closeDraft(draftId, attorneyId, DRAFT_STATUS.SUBMITTED, caseId);
+}
+
+function discardDraft(draftId, attorneyId) {
+  return closeDraft(draftId, attorneyId, DRAFT_STATUS.DISCARDED);
+}
+
+/**
+ * Delete expired drafts and closed drafts older than the expiry window
+ * @returns {Promise<number>} Rows removed
+ */
+async function purgeExpiredDrafts() {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("expiryDays", sql.Int, DRAFT_EXPIRY_DAYS)
+      .query(`
+        DELETE FROM dbo.CaseDrafts
+        WHERE ExpiresAt <= GETUTCDATE()
+           OR (Status <> 'active' AND UpdatedAt < DATEADD(DAY, -@expiryDays, GETUTCDATE()))
+      `);
+
+    return result.rowsAffected[0] || 0;
+  } catch (error) {
+    console.error("❌ [CaseDraft.purgeExpiredDrafts] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  DRAFT_STATUS,
+  DRAFT_STEPS,
+  DRAFT_FIELDS,
+  DRAFT_EXPIRY_DAYS,
+
+  // Queries
+  findActiveByAttorney,
+  findActiveById,
+  createDraft,
+  saveDraft,
+  markSubmitted,
+  discardDraft,
+  purgeExpiredDrafts,
+};
@@ -0,0 +1,348 @@
+// =============================================
+// CaseLifecycle.js - Case Status State Machine
+// The single declared table of AttorneyStatus transitions, who may trigger
+// each one and what must be true first. Every status change goes through
+// transitionCase (or recordStatusChange, for updates that set the status as
+// part of a larger statement) and is written to CaseStatusHistory.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+const Case = require("./Case");
+
+const STATES = Case.ATTORNEY_CASE_STATES;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const ACTOR_TYPES = {
+  ADMIN: "admin",
+  ATTORNEY: "attorney",
+  SYSTEM: "system",
+};
+
+// Matches the war room submission check (relaxed for testing there as well)
+const MIN_JURORS_FOR_TRIAL = 1;
+
+const MAX_REASON_LENGTH = 500;
+
+// ============================================
+// GUARDS
+// Each returns an error message, or null when the transition may proceed
+// ============================================
+
+function requireAdminApproval(caseData) {
+  return caseData.AdminApprovalStatus === Case.ADMIN_APPROVAL_STATUSES.APPROVED
+    ? null
+    : "Case must be approved by admin";
+}
+
+async function requireApprovedJurors(caseData) {
+  const approved = await Case.getApprovedJurorsCount(caseData.CaseId);
+  return approved >= MIN_JURORS_FOR_TRIAL
+    ? null
+    : `At least ${MIN_JURORS_FOR_TRIAL} approved juror(s) needed, only ${approved} approved`;
+}
+
+// ============================================
+// TRANSITION TABLE
+// ============================================
+
+const CASE_TRANSITIONS = [
+  {
+    from: [STATES.PENDING_ADMIN_APPROVAL],
+    to: STATES.WAR_ROOM,
+    allowedBy: [ACTOR_TYPES.ADMIN, ACTOR_TYPES.ATTORNEY, ACTOR_TYPES.SYSTEM],
+    guards: [requireAdminApproval],
+    label: "Approved, war room opened",
+  },
+  {
+    from: [STATES.WAR_ROOM],
+    to: STATES.AWAITING_TRIAL,
+    allowedBy: [ACTOR_TYPES.ATTORNEY, ACTOR_TYPES.SYSTEM],
+    guards: [requireAdminApproval],
+    label: "War room submitted",
+  },
+  {
+    from: [STATES.WAR_ROOM, STATES.AWAITING_TRIAL],
+    to: STATES.JOIN_TRIAL,
+    allowedBy: [ACTOR_TYPES.ADMIN, ACTOR_TYPES.ATTORNEY, ACTOR_TYPES.SYSTEM],
+    guards: [requireAdminApproval, requireApprovedJurors],
+    label: "Trial opened",
+  },
+  {
+    // Rescheduling sends the case back to the war room
+    from: [STATES.AWAITING_TRIAL, STATES.JOIN_TRIAL],
+    to: STATES.WAR_ROOM,
+    allowedBy: [ACTOR_TYPES.ADMIN],
+    guards: [],
+    label: "Rescheduled, war room reopened",
+  },
+  {
+    from: [STATES.JOIN_TRIAL],
+    to: STATES.VIEW_DETAILS,
+    allowedBy: [ACTOR_TYPES.ADMIN, ACTOR_TYPES.ATTORNEY, ACTOR_TYPES.SYSTEM],
+    guards: [],
+    label: "Trial ended, collecting verdicts",
+  },
+  {
+    from: [STATES.JOIN_TRIAL, STATES.VIEW_DETAILS],
+    to: STATES.COMPLETED,
+    allowedBy: [ACTOR_TYPES.ADMIN, ACTOR_TYPES.ATTORNEY, ACTOR_TYPES.SYSTEM],
+    guards: [],
+    label: "Completed",
+  },
+  {
+    from: [STATES.PENDING_ADMIN_APPROVAL, STATES.WAR_ROOM, STATES.AWAITING_TRIAL],
+    to: STATES.CANCELLED,
+    allowedBy: [ACTOR_TYPES.ADMIN, ACTOR_TYPES.ATTORNEY],
+    guards: [],
+    label: "Cancelled",
+  },
+];
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureCaseStatusHistoryTable() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.CaseStatusHistory', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.CaseStatusHistory (
+          HistoryId INT IDENTITY(1,1) PRIMARY KEY,
+          CaseId INT NOT NULL,
+          FromStatus NVARCHAR(50) NULL,
+          ToStatus NVARCHAR(50) NOT NULL,
+          ChangedBy INT NULL,
+          ChangedByType NVARCHAR(20) NOT NULL,
+          Reason NVARCHAR(500) NULL,
+          CreatedAt DATETIME2 NOT NULL CONSTRAINT DF_CaseStatusHistory_CreatedAt DEFAULT GETUTCDATE()
+        );
+        CREATE INDEX IX_CaseStatusHistory_CaseId ON dbo.CaseStatusHistory (CaseId, CreatedAt);
+      END
+    `);
+  } catch (err) {
+    console.warn("⚠️ [CaseLifecycle] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureCaseStatusHistoryTable();
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function findTransition(fromStatus, toStatus) {
+  return CASE_TRANSITIONS.find((t) => t.to === toStatus && t.from.includes(fromStatus)) || null;
+}
+
+/**
+ * Check whether an actor may move a case to a new status
+ *
+ * @param {Object} caseData - Case row (needs CaseId, AttorneyStatus, AdminApprovalStatus)
+ * @param {string} toStatus - Target AttorneyStatus
+ * @param {string} actorType - One of ACTOR_TYPES
+ * @returns {Promise<Object>} { valid, message }
+ */
+async function validateTransition(caseData, toStatus, actorType) {
+  const fromStatus = caseData.AttorneyStatus;
+
+  if (!Object.values(STATES).includes(toStatus)) {
+    return { valid: false, message: `Invalid case status: ${toStatus}` };
+  }
+
+  const transition = findTransition(fromStatus, toStatus);
+  if (!transition) {
+    return { valid: false, message: `Cannot transition from ${fromStatus} to ${toStatus}` };
+  }
+
+  if (!transition.allowedBy.includes(actorType)) {
+    return {
+      valid: false,
+      message: `${actorType} cannot move a case from ${fromStatus} to ${toStatus}`,
+    };
+  }
+
+  for (const guard of transition.guards) {
+    const message = await guard(caseData);
+    if (message) return { valid: false, message };
+  }
+
+  return { valid: true };
+}
+
+// ============================================
+// TRANSITIONS
+// ============================================
+
+function normalizeReason(reason) {
+  return typeof reason === "string" && reason.trim()
+    ? reason.trim().slice(0, MAX_REASON_LENGTH)
+    : null;
+}
+
+/**
+ * Move a case to a new status and record it in the history
+ *
+ * @param {number} caseId - Case ID
+ * @param {string} toStatus - Target AttorneyStatus
+ * @param {Object} actor - { actorId, actorType, reason }
+ * @returns {Promise<Object>} { fromStatus, toStatus, changed } (changed is false when already there)
+ */
+async function transitionCase(caseId, toStatus, { actorId = null, actorType, reason = null } = {}) {
+  try {
+    const caseData = await Case.findById(caseId);
+    if (!caseData) {
+      throw new Error("Case not found");
+    }
+
+    const fromStatus = caseData.AttorneyStatus;
+    if (fromStatus === toStatus) {
+      return { fromStatus, toStatus, changed: false };
+    }
+
+    const validation = await validateTransition(caseData, toStatus, actorType);
+    if (!validation.valid) {
+      throw new Error(`Case transition failed: ${validation.message}`);
+    }
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId, 10))
+      .input("fromStatus", sql.NVarChar(50), fromStatus)
+      .input("toStatus", sql.NVarChar(50), toStatus)
+      .input("changedBy", sql.Int, actorId ? parseInt(actorId, 10) : null)
+      .input("changedByType", sql.NVarChar(20), actorType)
+      .input("reason", sql.NVarChar(500), normalizeReason(reason))
+      .query(`
+        SET XACT_ABORT ON;
+        BEGIN TRANSACTION;
+
+        -- Only move the case if nobody else changed its status in the meantime
+        UPDATE dbo.Cases
+        SET AttorneyStatus = @toStatus, UpdatedAt = GETUTCDATE()
+        WHERE CaseId = @caseId AND AttorneyStatus = @fromStatus AND IsDeleted = 0;
+
+        IF @@ROWCOUNT = 0
+        BEGIN
+          ROLLBACK TRANSACTION;
+          SELECT CAST(0 AS BIT) AS Changed;
+          RETURN;
+        END
+
+        INSERT INTO dbo.CaseStatusHistory (CaseId, FromStatus, ToStatus, ChangedBy, ChangedByType, Reason)
+        VALUES (@caseId, @fromStatus, @toStatus, @changedBy, @changedByType, @reason);
+
+        COMMIT TRANSACTION;
+        SELECT CAST(1 AS BIT) AS Changed;
+      `);
+
+    if (!result.recordset[0]?.Changed) {
+      throw new Error("Case transition failed: The case status changed, please try again");
+    }
+
+    console.log(`🔀 [CaseLifecycle] Case ${caseId}: ${fromStatus} → ${toStatus} (${actorType})`);
+    return { fromStatus, toStatus, changed: true };
+  } catch (error) {
+    console.error("❌ [CaseLifecycle.transitionCase] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Record a status change that was written as part of a larger update
+ * (case creation, reschedules). Callers validate the transition first.
+ */
+async function recordStatusChange(caseId, { fromStatus = null, toStatus, actorId = null, actorType, reason = null }) {
+  try {
+    if (fromStatus === toStatus) return;
+
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId, 10))
+      .input("fromStatus", sql.NVarChar(50), fromStatus)
+      .input("toStatus", sql.NVarChar(50), toStatus)
+      .input("changedBy", sql.Int, actorId ? parseInt(actorId, 10) : null)
+      .input("changedByType", sql.NVarChar(20), actorType)
+      .input("reason", sql.NVarChar(500), normalizeReason(reason))
+      .query(`
+        INSERT INTO dbo.CaseStatusHistory (CaseId, FromStatus, ToStatus, ChangedBy, ChangedByType, Reason)
+        VALUES (@caseId, @fromStatus, @toStatus, @changedBy, @changedByType, @reason)
+      `);
+  } catch (error) {
+    console.error("❌ [CaseLifecycle.recordStatusChange] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// HISTORY
+// ============================================
+
+/**
+ * Status history for a case, oldest first
+ * @returns {Promise<Array>} [{ historyId, fromStatus, toStatus, label, changedByType, changedByName, reason, createdAt }]
+ */
+async function getStatusHistory(caseId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId, 10))
+      .query(`
+        SELECT
+          h.HistoryId, h.FromStatus, h.ToStatus, h.ChangedByType, h.Reason, h.CreatedAt,
+          CASE h.ChangedByType
+            WHEN 'attorney' THEN CONCAT(a.FirstName, ' ', a.LastName)
+            WHEN 'admin' THEN CONCAT(ad.FirstName, ' ', ad.LastName)
+          END AS ChangedByName
+        FROM dbo.CaseStatusHistory h
+        LEFT JOIN dbo.Attorneys a ON h.ChangedByType = 'attorney' AND a.AttorneyId = h.ChangedBy
+        LEFT JOIN dbo.Admins ad ON h.ChangedByType = 'admin' AND ad.AdminId = h.ChangedBy
+        WHERE h.CaseId = @caseId
+        ORDER BY h.CreatedAt ASC, h.HistoryId ASC
+      `);
+
+    return result.recordset.map((row) => ({
+      historyId: row.HistoryId,
+      fromStatus: row.FromStatus,
+      toStatus: row.ToStatus,
+      label: row.FromStatus
+        ? findTransition(row.FromStatus, row.ToStatus)?.label || null
+        : "Case submitted",
+      changedByType: row.ChangedByType,
+      changedByName: row.ChangedByName?.trim() || null,
+      reason: row.Reason,
+      createdAt: row.CreatedAt,
+    }));
+  } catch (error) {
+    console.error("❌ [CaseLifecycle.getStatusHistory] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  ACTOR_TYPES,
+  CASE_TRANSITIONS,
+
+  // Validation
+  validateTransition,
+
+  // Transitions
+  transitionCase,
+  recordStatusChange,
+
+  // History
+  getStatusHistory,
+};
@@ -0,0 +1,347 @@
+// =============================================
+// CaseRerun.js - Re-run a Case With a Fresh Jury
+// Clones a tried case (details, party groups, voir dire Part 2, witnesses,
+// jury charge and optionally war room documents) into a new pending case.
+// The new case keeps a SourceCaseId link back to the case it was cloned
+// from so results can be compared across runs.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+const Case = require("./Case");
+const Event = require("./Event");
+const { parseCondition } = require("../utils/questionConditions");
+
+const STATES = Case.ATTORNEY_CASE_STATES;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Only cases whose trial has finished can be run again
+const RERUNNABLE_STATES = [STATES.VIEW_DETAILS, STATES.COMPLETED];
+
+const TIME_REGEX = /^([0-1][0-9]|2[0-3]):([0-5][0-9])(:[0-5][0-9])?$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureSourceCaseIdColumn() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE Name = N'SourceCaseId' AND Object_ID = Object_ID(N'dbo.Cases'))
+        ALTER TABLE dbo.Cases ADD SourceCaseId INT NULL;
+    `);
+  } catch (err) {
+    console.warn("⚠️ [CaseRerun] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureSourceCaseIdColumn();
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Validate the new schedule for a re-run (date and time are the attorney's local time)
+ * @returns {Object} { scheduledDate, scheduledTime } with time as HH:MM:SS
+ */
+function validateSchedule(scheduledDate, scheduledTime, timezoneOffset) {
+  if (typeof scheduledDate !== "string" || !DATE_REGEX.test(scheduledDate)) {
+    throw new Error("Case rerun validation failed: A trial date (YYYY-MM-DD) is required");
+  }
+  if (typeof scheduledTime !== "string" || !TIME_REGEX.test(scheduledTime.trim())) {
+    throw new Error("Case rerun validation failed: A trial time (HH:MM) is required");
+  }
+
+  const [hours, minutes, seconds = "00"] = scheduledTime.trim().split(":");
+  const normalizedTime = `${hours}:${minutes}:${seconds}`;
+
+  // Compare against today in the attorney's timezone (offset is minutes ahead of UTC)
+  const today = new Date(Date.now() + (timezoneOffset || 0) * 60000).toISOString().slice(0, 10);
+  if (scheduledDate < today) {
+    throw new Error("Case rerun validation failed: The new trial date cannot be in the past");
+  }
+
+  return { scheduledDate, scheduledTime: normalizedTime };
+}
+
+// ============================================
+// CLONING
+// ============================================
+
+/**
+ * Copy jury charge questions in order, pointing each condition at the
+ * copy of the question it referenced (conditions only reference earlier questions)
+ */
+async function cloneJuryCharge(transaction, sourceCaseId, newCaseId) {
+  const questions = await transaction
+    .request()
+    .input("sourceCaseId", sql.Int, sourceCaseId)
+    .query(`
+      SELECT QuestionId, QuestionText, QuestionType, Options, OrderIndex, IsRequired, MinValue, MaxValue, Condition
+      FROM JuryChargeQuestions
+      WHERE CaseId = @sourceCaseId
+      ORDER BY OrderIndex ASC, QuestionId ASC
+    `);
+
+  const newIds = new Map();
+  for (const question of questions.recordset) {
+    const sourceCondition = parseCondition(question.Condition);
+    const parentId = sourceCondition ? newIds.get(sourceCondition.questionId) : undefined;
+    const condition = parentId ? { ...sourceCondition, questionId: parentId } : null;
+
+    const insertResult = await transaction
+      .request()
+      .input("caseId", sql.Int, newCaseId)
+      .input("questionText", sql.NVarChar, question.QuestionText)
+      .input("questionType", sql.NVarChar, question.QuestionType)
+      .input("options", sql.NVarChar, question.Options)
+      .input("orderIndex", sql.Int, question.OrderIndex)
+      .input("isRequired", sql.Bit, question.IsRequired)
+      .input("minValue", sql.Int, question.MinValue)
+      .input("maxValue", sql.Int, question.MaxValue)
+      .input("condition", sql.NVarChar(sql.MAX), condition ? JSON.stringify(condition) : null)
+      .query(`
+        INSERT INTO JuryChargeQuestions (CaseId, QuestionText, QuestionType, Options, OrderIndex, IsRequired, MinValue, MaxValue, Condition)
+        OUTPUT INSERTED.QuestionId
+        VALUES (@caseId, @questionText, @questionType, @options, @orderIndex, @isRequired, @minValue, @maxValue, @condition)
+      `);
+
+    newIds.set(question.QuestionId, insertResult.recordset[0].QuestionId);
+  }
+
+  return newIds.size;
+}
+
+/**
+ * Create a new pending case from a tried case
+ *
+ * @param {Object} sourceCase - Source case (from Case.findById)
+ * @param {number} attorneyId - Attorney running the case again
+ * @param {Object} options - { scheduledDate, scheduledTime, timezoneOffset, includeDocuments }
+ * @returns {Promise<Object>} { caseId, sourceCaseId, copied: { voirDire, witnesses, juryCharge, documents } }
+ */
+async function rerunCase(sourceCase, attorneyId, options = {}) {
+  try {
+    if (!RERUNNABLE_STATES.includes(sourceCase.AttorneyStatus)) {
+      throw new Error("Case rerun validation failed: Only cases whose trial has finished can be run again");
+    }
+
+    const timezoneOffset = parseInt(options.timezoneOffset || 0, 10) || 0;
+    const schedule = validateSchedule(options.scheduledDate, options.scheduledTime, timezoneOffset);
+
+    const availability = await Case.checkSlotAvailability(schedule.scheduledDate, schedule.scheduledTime);
+    if (!availability.available) {
+      throw new Error("Case rerun validation failed: This time slot is already booked. Please choose another time.");
+    }
+
+    const sourceCaseId = sourceCase.CaseId;
+    const pool = await poolPromise;
+    const transaction = pool.transaction();
+    await transaction.begin();
+
+    try {
+      const caseResult = await transaction
+        .request()
+        .input("sourceCaseId", sql.Int, sourceCaseId)
+        .input("attorneyId", sql.Int, parseInt(attorneyId, 10))
+        .input("scheduledDate", sql.Date, schedule.scheduledDate)
+        .input("scheduledTime", sql.VarChar, schedule.scheduledTime)
+        .input("timezoneOffset", sql.Int, timezoneOffset)
+        .input("attorneyStatus", sql.NVarChar, STATES.PENDING_ADMIN_APPROVAL)
+        .input("adminApprovalStatus", sql.NVarChar, Case.ADMIN_APPROVAL_STATUSES.PENDING)
+        .query(`
+          INSERT INTO dbo.Cases (
+            AttorneyId, CaseType, CaseJurisdiction, CaseTier, State, County, CaseTitle, CaseDescription,
+            PaymentMethod, PaymentAmount, ScheduledDate, ScheduledTime, TimezoneOffset,
+            PlaintiffGroups, DefendantGroups, VoirDire1Questions, VoirDire2Questions,
+            RequiredJurors, VerdictMode, AttorneyStatus, AdminApprovalStatus, SourceCaseId,
+            IsDeleted, CreatedAt, UpdatedAt
+          )
+          SELECT
+            @attorneyId, CaseType, CaseJurisdiction, CaseTier, State, County, CaseTitle, CaseDescription,
+            PaymentMethod, PaymentAmount, @scheduledDate, @scheduledTime, @timezoneOffset,
+            PlaintiffGroups, DefendantGroups, VoirDire1Questions, VoirDire2Questions,
+            RequiredJurors, VerdictMode, @attorneyStatus, @adminApprovalStatus, CaseId,
+            0, GETUTCDATE(), GETUTCDATE()
+          FROM dbo.Cases
+          WHERE CaseId = @sourceCaseId;
+
+          SELECT SCOPE_IDENTITY() AS CaseId;
+        `);
+
+      const caseId = caseResult.recordset[0].CaseId;
+
+      const copyResult = await transaction
+        .request()
+        .input("sourceCaseId", sql.Int, sourceCaseId)
+        .input("caseId", sql.Int, caseId)
+        .input("attorneyId", sql.Int, parseInt(attorneyId, 10))
+        .input("includeDocuments", sql.Bit, options.includeDocuments === true)
+        .query(`
+          INSERT INTO WarRoomVoirDire (CaseId, Question, Response, AddedBy, AddedAt)
+          SELECT @caseId, Question, ISNULL(Response, ''), @attorneyId, GETUTCDATE()
+          FROM WarRoomVoirDire
+          WHERE CaseId = @sourceCaseId
+          ORDER BY AddedAt ASC;
+          DECLARE @voirDire INT = @@ROWCOUNT;
+
+          INSERT INTO CaseWitnesses (CaseId, WitnessName, Email, Side, Description, IsAccepted, OrderIndex)
+          SELECT @caseId, WitnessName, Email, Side, Description, IsAccepted, OrderIndex
+          FROM CaseWitnesses
+          WHERE CaseId = @sourceCaseId;
+          DECLARE @witnesses INT = @@ROWCOUNT;
+
+          -- Documents are copied by reference; the blob is shared with the source case.
+          -- Opposing counsel's documents stay with the source case.
+          DECLARE @documents INT = 0;
+          IF @includeDocuments = 1
+          BEGIN
+            INSERT INTO WarRoomDocuments (CaseId, Type, FileName, FileUrl, Description, Size, MimeType, UploadedAt)
+            SELECT @caseId, d.Type, d.FileName, d.FileUrl, d.Description, d.Size, d.MimeType, GETUTCDATE()
+            FROM WarRoomDocuments d
+            WHERE d.CaseId = @sourceCaseId
+              AND NOT EXISTS (
+                SELECT 1 FROM dbo.CaseOpposingCounsel oc
+                WHERE oc.CaseId = @sourceCaseId AND oc.Status = 'accepted' AND d.Side <> oc.OwnerSide
+              );
+            SET @documents = @@ROWCOUNT;
+          END
+
+          SELECT @voirDire AS VoirDire, @witnesses AS Witnesses, @documents AS Documents;
+        `);
+
+      const juryCharge = await cloneJuryCharge(transaction, sourceCaseId, caseId);
+
+      await transaction
+        .request()
+        .input("eventCaseId", sql.Int, caseId)
+        .input("eventType", sql.NVarChar, Event.EVENT_TYPES.CASE_CREATED)
+        .input("eventDescription", sql.NVarChar, `Case "${sourceCase.CaseTitle}" re-run from case #${sourceCaseId} and submitted for admin approval`)
+        .input("triggeredBy", sql.Int, parseInt(attorneyId, 10))
+        .input("userType", sql.NVarChar, "attorney")
+        .input("metadata", sql.NVarChar, JSON.stringify({ sourceCaseId }))
+        .query(`
+          INSERT INTO dbo.Events (CaseId, EventType, Description, TriggeredBy, UserType, Metadata, CreatedAt)
+          VALUES (@eventCaseId, @eventType, @eventDescription, @triggeredBy, @userType, @metadata, GETUTCDATE())
+        `);
+
+      await transaction
+        .request()
+        .input("historyCaseId", sql.Int, caseId)
+        .input("toStatus", sql.NVarChar(50), STATES.PENDING_ADMIN_APPROVAL)
+        .input("changedBy", sql.Int, parseInt(attorneyId, 10))
+        .input("reason", sql.NVarChar(500), `Re-run of case #${sourceCaseId}`)
+        .query(`
+          INSERT INTO dbo.CaseStatusHistory (CaseId, FromStatus, ToStatus, ChangedBy, ChangedByType, Reason)
+          VALUES (@historyCaseId, NULL, @toStatus, @changedBy, 'attorney', @reason)
+        `);
+
+      await transaction.commit();
+
+      const counts = copyResult.recordset[0];
+      console.log(`🔁 [CaseRerun] Case ${sourceCaseId} re-run as case ${caseId}`);
+
+      return {
+        caseId,
+        sourceCaseId,
+        copied: {
+          voirDire: counts.VoirDire,
+          witnesses: counts.Witnesses,
+          juryCharge,
+          documents: counts.Documents,
+        },
+      };
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  } catch (error) {
+    console.error("❌ [CaseRerun.rerunCase] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// LINKED RUNS
+// ============================================
+
+/**
+ * Every run of a case: the original it was first cloned from and all
+ * re-runs descended from it, oldest first
+ *
+ * @returns {Promise<Array>} [{ caseId, runNumber, sourceCaseId, caseTitle, attorneyId, attorneyStatus, verdictStatus, scheduledDate }]
+ */
+async function getLinkedCases(caseId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId, 10))
+      .query(`
+        WITH Ancestors AS (
+          SELECT CaseId, SourceCaseId, 0 AS Depth
+          FROM dbo.Cases
+          WHERE CaseId = @caseId
+          UNION ALL
+          SELECT c.CaseId, c.SourceCaseId, a.Depth + 1
+          FROM dbo.Cases c
+          INNER JOIN Ancestors a ON c.CaseId = a.SourceCaseId
+        ),
+        RootCase AS (
+          SELECT TOP 1 CaseId FROM Ancestors ORDER BY Depth DESC
+        ),
+        Runs AS (
+          SELECT CaseId FROM RootCase
+          UNION ALL
+          SELECT c.CaseId
+          FROM dbo.Cases c
+          INNER JOIN Runs r ON c.SourceCaseId = r.CaseId
+        )
+        SELECT
+          c.CaseId, c.SourceCaseId, c.CaseTitle, c.AttorneyId, c.AttorneyStatus,
+          c.VerdictStatus, c.ScheduledDate, c.CreatedAt
+        FROM Runs r
+        INNER JOIN dbo.Cases c ON c.CaseId = r.CaseId
+        WHERE c.IsDeleted = 0
+        ORDER BY c.CreatedAt ASC, c.CaseId ASC
+      `);
+
+    return result.recordset.map((row, index) => ({
+      caseId: row.CaseId,
+      runNumber: index + 1,
+      sourceCaseId: row.SourceCaseId,
+      caseTitle: row.CaseTitle,
+      attorneyId: row.AttorneyId,
+      attorneyStatus: row.AttorneyStatus,
+      verdictStatus: row.VerdictStatus,
+      scheduledDate:
+        row.ScheduledDate instanceof Date
+          ? row.ScheduledDate.toISOString().slice(0, 10)
+          : row.ScheduledDate,
+    }));
+  } catch (error) {
+    console.error("❌ [CaseRerun.getLinkedCases] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  RERUNNABLE_STATES,
+
+  // Cloning
+  rerunCase,
+
+  // Linked runs
+  getLinkedCases,
+};
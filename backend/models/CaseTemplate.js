@@ -0,0 +1,366 @@
+// =============================================
+// CaseTemplate.js - Jury Charge & Voir Dire Template Library
+// Named sets of jury charge questions and voir dire Part 2 questions
+// that an attorney can reuse across similar cases.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+const Firm = require("./Firm");
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const TEMPLATE_VISIBILITY = {
+  PERSONAL: "personal", // Owner only
+  FIRM: "firm", // Members of the owner's firm
+};
+
+const VOIR_DIRE_QUESTION_TYPES = ["yesno", "text"];
+
+const MAX_TEMPLATE_NAME_LENGTH = 200;
+const MAX_TEMPLATE_DESCRIPTION_LENGTH = 1000;
+const MAX_TEMPLATE_QUESTIONS = 100;
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureCaseTemplatesTable() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.CaseTemplates', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.CaseTemplates (
+          TemplateId INT IDENTITY(1,1) PRIMARY KEY,
+          AttorneyId INT NOT NULL,
+          Name NVARCHAR(200) NOT NULL,
+          Description NVARCHAR(1000) NULL,
+          CaseType NVARCHAR(100) NULL,
+          Visibility NVARCHAR(20) NOT NULL CONSTRAINT DF_CaseTemplates_Visibility DEFAULT 'personal',
+          JuryChargeQuestions NVARCHAR(MAX) NULL,
+          VoirDireQuestions NVARCHAR(MAX) NULL,
+          IsDeleted BIT NOT NULL CONSTRAINT DF_CaseTemplates_IsDeleted DEFAULT 0,
+          CreatedAt DATETIME2 NOT NULL CONSTRAINT DF_CaseTemplates_CreatedAt DEFAULT GETUTCDATE(),
+          UpdatedAt DATETIME2 NOT NULL CONSTRAINT DF_CaseTemplates_UpdatedAt DEFAULT GETUTCDATE()
+        );
+        CREATE INDEX IX_CaseTemplates_AttorneyId ON dbo.CaseTemplates (AttorneyId);
+      END
+    `);
+  } catch (err) {
+    console.warn("⚠️ [CaseTemplate] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureCaseTemplatesTable();
+
+// ============================================
+// HELPERS
+// ============================================
+
+function parseQuestionList(json) {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn("⚠️ [CaseTemplate] Invalid question JSON:", error.message);
+    return [];
+  }
+}
+
+/**
+ * Serialize a template row for API responses
+ */
+function formatTemplate(row) {
+  const juryChargeQuestions = parseQuestionList(row.JuryChargeQuestions);
+  const voirDireQuestions = parseQuestionList(row.VoirDireQuestions);
+  return {
+    templateId: row.TemplateId,
+    attorneyId: row.AttorneyId,
+    ownerName: row.OwnerName || null,
+    name: row.Name,
+    description: row.Description,
+    caseType: row.CaseType,
+    visibility: row.Visibility,
+    juryChargeQuestions,
+    voirDireQuestions,
+    juryChargeCount: juryChargeQuestions.length,
+    voirDireCount: voirDireQuestions.length,
+    createdAt: row.CreatedAt,
+    updatedAt: row.UpdatedAt,
+  };
+}
+
+/**
+ * Validate voir dire Part 2 questions ({ question, type })
+ * @returns {Object} { isValid, error?, questions? }
+ */
+function normalizeVoirDireQuestions(questions) {
+  if (!Array.isArray(questions)) {
+    return { isValid: false, error: "Voir dire questions must be an array" };
+  }
+
+  const normalized = [];
+  for (const q of questions) {
+    const text = q && typeof q.question === "string" ? q.question.trim() : "";
+    if (!text) continue; // Blank rows from the wizard are dropped
+    if (text.length > 1000) {
+      return { isValid: false, error: "Voir dire question too long (max 1000 characters)" };
+    }
+    if (!VOIR_DIRE_QUESTION_TYPES.includes(q.type)) {
+      return {
+        isValid: false,
+        error: `Voir dire question type must be one of: ${VOIR_DIRE_QUESTION_TYPES.join(", ")}`,
+      };
+    }
+    normalized.push({ question: text, type: q.type });
+  }
+
+  return { isValid: true, questions: normalized };
+}
+
+/**
+ * Validate template fields shared by create and update
+ * Question arrays are validated by the controller.
+ */
+function validateTemplateData(data, { partial = false } = {}) {
+  const errors = [];
+
+  if (!partial || data.name !== undefined) {
+    const name = typeof data.name === "string" ? data.name.trim() : "";
+    if (!name) errors.push("Template name is required");
+    else if (name.length > MAX_TEMPLATE_NAME_LENGTH) {
+      errors.push(`Template name must be ${MAX_TEMPLATE_NAME_LENGTH} characters or fewer`);
+    }
+  }
+
+  if (data.description && String(data.description).length > MAX_TEMPLATE_DESCRIPTION_LENGTH) {
+    errors.push(`Description must be ${MAX_TEMPLATE_DESCRIPTION_LENGTH} characters or fewer`);
+  }
+
+  if (data.visibility !== undefined && !Object.values(TEMPLATE_VISIBILITY).includes(data.visibility)) {
+    errors.push(`Visibility must be one of: ${Object.values(TEMPLATE_VISIBILITY).join(", ")}`);
+  }
+
+  for (const [field, label] of [
+    ["juryChargeQuestions", "jury charge"],
+    ["voirDireQuestions", "voir dire"],
+  ]) {
+    if (Array.isArray(data[field]) && data[field].length > MAX_TEMPLATE_QUESTIONS) {
+      errors.push(`A template can hold at most ${MAX_TEMPLATE_QUESTIONS} ${label} questions`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Template validation failed: ${errors.join(", ")}`);
+  }
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+// Owner, or a firm-shared template from a member of the attorney's firm
+const ACCESS_FILTER = `
+  t.IsDeleted = 0
+  AND (
+    t.AttorneyId = @attorneyId
+    OR (t.Visibility = 'firm' AND ${Firm.firmColleagueFilter("t.AttorneyId")})
+  )
+`;
+
+/**
+ * List templates visible to an attorney (own + firm-shared)
+ * @param {Object} attorney - { id }
+ * @param {Object} filters - { caseType? }
+ */
+async function findAccessible(attorney, filters = {}) {
+  try {
+    const pool = await poolPromise;
+    const request = pool
+      .request()
+      .input("attorneyId", sql.Int, parseInt(attorney.id));
+
+    let caseTypeFilter = "";
+    if (filters.caseType) {
+      request.input("caseType", sql.NVarChar, filters.caseType);
+      caseTypeFilter = "AND (t.CaseType = @caseType OR t.CaseType IS NULL)";
+    }
+
+    const result = await request.query(`
+      SELECT t.*, a.FirstName + ' ' + a.LastName AS OwnerName
+      FROM dbo.CaseTemplates t
+      INNER JOIN dbo.Attorneys a ON t.AttorneyId = a.AttorneyId
+      WHERE ${ACCESS_FILTER} ${caseTypeFilter}
+      ORDER BY t.UpdatedAt DESC
+    `);
+
+    return result.recordset.map(formatTemplate);
+  } catch (error) {
+    console.error("❌ [CaseTemplate.findAccessible] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Get one template if the attorney can see it
+ * @returns {Promise<Object|null>}
+ */
+async function findAccessibleById(templateId, attorney) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("templateId", sql.Int, parseInt(templateId))
+      .input("attorneyId", sql.Int, parseInt(attorney.id))
+      .query(`
+        SELECT t.*, a.FirstName + ' ' + a.LastName AS OwnerName
+        FROM dbo.CaseTemplates t
+        INNER JOIN dbo.Attorneys a ON t.AttorneyId = a.AttorneyId
+        WHERE t.TemplateId = @templateId AND ${ACCESS_FILTER}
+      `);
+
+    return result.recordset[0] ? formatTemplate(result.recordset[0]) : null;
+  } catch (error) {
+    console.error("❌ [CaseTemplate.findAccessibleById] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Create a template
+ * @param {number} attorneyId
+ * @param {Object} data - { name, description, caseType, visibility, juryChargeQuestions, voirDireQuestions }
+ */
+async function createTemplate(attorneyId, data) {
+  try {
+    validateTemplateData(data);
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("attorneyId", sql.Int, parseInt(attorneyId))
+      .input("name", sql.NVarChar(200), data.name.trim())
+      .input("description", sql.NVarChar(1000), data.description?.trim() || null)
+      .input("caseType", sql.NVarChar(100), data.caseType?.trim() || null)
+      .input("visibility", sql.NVarChar(20), data.visibility || TEMPLATE_VISIBILITY.PERSONAL)
+      .input("juryChargeQuestions", sql.NVarChar(sql.MAX), JSON.stringify(data.juryChargeQuestions || []))
+      .input("voirDireQuestions", sql.NVarChar(sql.MAX), JSON.stringify(data.voirDireQuestions || []))
+      .query(`
+        INSERT INTO dbo.CaseTemplates
+          (AttorneyId, Name, Description, CaseType, Visibility, JuryChargeQuestions, VoirDireQuestions)
+        OUTPUT INSERTED.*
+        VALUES
+          (@attorneyId, @name, @description, @caseType, @visibility, @juryChargeQuestions, @voirDireQuestions)
+      `);
+
+    return formatTemplate(result.recordset[0]);
+  } catch (error) {
+    console.error("❌ [CaseTemplate.createTemplate] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Update a template (owner only)
+ * @returns {Promise<Object|null>} Updated template, or null if not found / not owned
+ */
+async function updateTemplate(templateId, attorneyId, data) {
+  try {
+    validateTemplateData(data, { partial: true });
+
+    const pool = await poolPromise;
+    const request = pool
+      .request()
+      .input("templateId", sql.Int, parseInt(templateId))
+      .input("attorneyId", sql.Int, parseInt(attorneyId));
+
+    const updates = [];
+    if (data.name !== undefined) {
+      request.input("name", sql.NVarChar(200), data.name.trim());
+      updates.push("Name = @name");
+    }
+    if (data.description !== undefined) {
+      request.input("description", sql.NVarChar(1000), data.description?.trim() || null);
+      updates.push("Description = @description");
+    }
+    if (data.caseType !== undefined) {
+      request.input("caseType", sql.NVarChar(100), data.caseType?.trim() || null);
+      updates.push("CaseType = @caseType");
+    }
+    if (data.visibility !== undefined) {
+      request.input("visibility", sql.NVarChar(20), data.visibility);
+      updates.push("Visibility = @visibility");
+    }
+    if (data.juryChargeQuestions !== undefined) {
+      request.input("juryChargeQuestions", sql.NVarChar(sql.MAX), JSON.stringify(data.juryChargeQuestions));
+      updates.push("JuryChargeQuestions = @juryChargeQuestions");
+    }
+    if (data.voirDireQuestions !== undefined) {
+      request.input("voirDireQuestions", sql.NVarChar(sql.MAX), JSON.stringify(data.voirDireQuestions));
+      updates.push("VoirDireQuestions = @voirDireQuestions");
+    }
+
+    updates.push("UpdatedAt = GETUTCDATE()");
+
+    const result = await request.query(`
+      UPDATE dbo.CaseTemplates
+      SET ${updates.join(", ")}
+      OUTPUT INSERTED.*
+      WHERE TemplateId = @templateId AND AttorneyId = @attorneyId AND IsDeleted = 0
+    `);
+
+    return result.recordset[0] ? formatTemplate(result.recordset[0]) : null;
+  } catch (error) {
+    console.error("❌ [CaseTemplate.updateTemplate] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Soft delete a template (owner only)
+ * @returns {Promise<boolean>} true if a template was deleted
+ */
+async function deleteTemplate(templateId, attorneyId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("templateId", sql.Int, parseInt(templateId))
+      .input("attorneyId", sql.Int, parseInt(attorneyId))
+      .query(`
+        UPDATE dbo.CaseTemplates
+        SET IsDeleted = 1, UpdatedAt = GETUTCDATE()
+        WHERE TemplateId = @templateId AND AttorneyId = @attorneyId AND IsDeleted = 0
+      `);
+
+    return result.rowsAffected[0] > 0;
+  } catch (error) {
+    console.error("❌ [CaseTemplate.deleteTemplate] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  TEMPLATE_VISIBILITY,
+  VOIR_DIRE_QUESTION_TYPES,
+  MAX_TEMPLATE_QUESTIONS,
+
+  // Validation
+  normalizeVoirDireQuestions,
+
+  // CRUD
+  findAccessible,
+  findAccessibleById,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+};
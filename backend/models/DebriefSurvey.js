@@ -0,0 +1,450 @@
+// =============================================
+// DebriefSurvey.js - Post-Trial Juror Debrief
+// A per-case survey jurors complete after results are published: witness
+// credibility ratings plus open questions. Completion gates the juror payout.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const QUESTION_TYPES = ["text", "rating"];
+
+const RATING_SCALE = { MIN: 1, MAX: 5 };
+
+const DEBRIEF_LIMITS = {
+  MAX_QUESTIONS: 10,
+  MAX_PROMPT_LENGTH: 300,
+  MAX_ANSWER_LENGTH: 2000,
+};
+
+// Used until the attorney or an admin customizes the survey
+const DEFAULT_QUESTIONS = [
+  {
+    id: "most_persuasive",
+    type: "text",
+    prompt: "What was the most persuasive argument you heard, and why?",
+    required: true,
+  },
+  {
+    id: "confusing",
+    type: "text",
+    prompt: "Was anything about the evidence or the presentation confusing?",
+    required: false,
+  },
+];
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureDebriefTables() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.DebriefSurveys', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.DebriefSurveys (
+          CaseId INT NOT NULL PRIMARY KEY,
+          Questions NVARCHAR(MAX) NOT NULL,
+          IncludeWitnessRatings BIT NOT NULL CONSTRAINT DF_DebriefSurveys_IncludeWitnessRatings DEFAULT 1,
+          Witnesses NVARCHAR(MAX) NULL,
+          SentAt DATETIME2 NULL,
+          UpdatedBy INT NULL,
+          UpdatedAt DATETIME2 NOT NULL CONSTRAINT DF_DebriefSurveys_UpdatedAt DEFAULT GETUTCDATE()
+        );
+      END
+
+      IF OBJECT_ID(N'dbo.DebriefResponses', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.DebriefResponses (
+          ResponseId INT IDENTITY(1,1) PRIMARY KEY,
+          CaseId INT NOT NULL,
+          JurorId INT NOT NULL,
+          Answers NVARCHAR(MAX) NOT NULL,
+          SubmittedAt DATETIME2 NOT NULL CONSTRAINT DF_DebriefResponses_SubmittedAt DEFAULT GETUTCDATE(),
+          CONSTRAINT UQ_DebriefResponses_Case_Juror UNIQUE (CaseId, JurorId)
+        );
+      END
+    `);
+  } catch (err) {
+    console.warn("⚠️ [DebriefSurvey] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureDebriefTables();
+
+// ============================================
+// HELPERS
+// ============================================
+
+function parseJson(value, fallback) {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch (parseError) {
+    return fallback;
+  }
+}
+
+function slugify(text, index) {
+  const slug = text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "")
+    .slice(0, 40);
+  return slug || `question_${index + 1}`;
+}
+
+/**
+ * Validate and normalize a survey definition
+ * @returns {Object} { includeWitnessRatings, questions }
+ */
+function validateSurveyData({ includeWitnessRatings, questions }) {
+  const errors = [];
+
+  if (!Array.isArray(questions)) {
+    throw new Error("Debrief validation failed: Questions must be an array");
+  }
+  if (questions.length > DEBRIEF_LIMITS.MAX_QUESTIONS) {
+    errors.push(`A survey can have at most ${DEBRIEF_LIMITS.MAX_QUESTIONS} questions`);
+  }
+
+  const ids = new Set();
+  const normalized = questions.map((q, index) => {
+    const prompt = typeof q?.prompt === "string" ? q.prompt.trim() : "";
+    if (!prompt) {
+      errors.push(`Question ${index + 1} needs a prompt`);
+    } else if (prompt.length > DEBRIEF_LIMITS.MAX_PROMPT_LENGTH) {
+      errors.push(`Question ${index + 1} must be ${DEBRIEF_LIMITS.MAX_PROMPT_LENGTH} characters or less`);
+    }
+    if (!QUESTION_TYPES.includes(q?.type)) {
+      errors.push(`Question ${index + 1} type must be one of: ${QUESTION_TYPES.join(", ")}`);
+    }
+
+    // Keep existing IDs so answers stay attached; make new ones unique
+    let id = typeof q?.id === "string" && q.id.trim() ? q.id.trim().slice(0, 50) : slugify(prompt, index);
+    while (ids.has(id)) id = `${id}_${index + 1}`;
+    ids.add(id);
+
+    return { id, type: q?.type, prompt, required: q?.required !== false };
+  });
+
+  if (normalized.length === 0 && includeWitnessRatings === false) {
+    errors.push("The survey needs at least one question or witness ratings");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Debrief validation failed: ${errors.join(", ")}`);
+  }
+
+  return { includeWitnessRatings: includeWitnessRatings !== false, questions: normalized };
+}
+
+async function getCaseWitnesses(pool, caseId) {
+  const result = await pool
+    .request()
+    .input("caseId", sql.Int, caseId)
+    .query("SELECT WitnessId, WitnessName, Side FROM dbo.CaseWitnesses WHERE CaseId = @caseId ORDER BY OrderIndex ASC");
+  return result.recordset.map((w) => ({ witnessId: w.WitnessId, name: w.WitnessName, side: w.Side }));
+}
+
+async function getSurveyRow(pool, caseId) {
+  const result = await pool
+    .request()
+    .input("caseId", sql.Int, caseId)
+    .query("SELECT * FROM dbo.DebriefSurveys WHERE CaseId = @caseId");
+  return result.recordset[0] || null;
+}
+
+// ============================================
+// SURVEY DEFINITION
+// ============================================
+
+/**
+ * Get the debrief survey for a case. Before it is sent the witness list is
+ * a live preview; once sent it is the snapshot jurors were asked about.
+ *
+ * @param {number} caseId - Case ID
+ * @returns {Promise<Object>} { caseId, includeWitnessRatings, questions, witnesses, sentAt, isCustomized }
+ */
+async function getSurvey(caseId) {
+  try {
+    const pool = await poolPromise;
+    const row = await getSurveyRow(pool, caseId);
+    const includeWitnessRatings = row ? !!row.IncludeWitnessRatings : true;
+
+    let witnesses = [];
+    if (includeWitnessRatings) {
+      witnesses = row?.SentAt ? parseJson(row.Witnesses, []) : await getCaseWitnesses(pool, caseId);
+    }
+
+    return {
+      caseId,
+      includeWitnessRatings,
+      questions: row ? parseJson(row.Questions, []) : DEFAULT_QUESTIONS,
+      witnesses,
+      ratingScale: RATING_SCALE,
+      sentAt: row ? row.SentAt : null,
+      isCustomized: !!row,
+    };
+  } catch (error) {
+    console.error("❌ [DebriefSurvey.getSurvey] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Customize the survey. Only allowed until it has been sent to jurors.
+ *
+ * @param {number} caseId - Case ID
+ * @param {Object} data - { includeWitnessRatings, questions }
+ * @param {number} userId - Attorney or admin making the change
+ * @returns {Promise<Object>} Updated survey
+ */
+async function saveSurvey(caseId, data, userId) {
+  try {
+    const survey = validateSurveyData(data || {});
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("questions", sql.NVarChar(sql.MAX), JSON.stringify(survey.questions))
+      .input("includeWitnessRatings", sql.Bit, survey.includeWitnessRatings)
+      .input("userId", sql.Int, userId).query(`
+        IF EXISTS (SELECT 1 FROM dbo.DebriefSurveys WHERE CaseId = @caseId)
+          UPDATE dbo.DebriefSurveys
+          SET Questions = @questions, IncludeWitnessRatings = @includeWitnessRatings,
+              UpdatedBy = @userId, UpdatedAt = GETUTCDATE()
+          WHERE CaseId = @caseId AND SentAt IS NULL
+        ELSE
+          INSERT INTO dbo.DebriefSurveys (CaseId, Questions, IncludeWitnessRatings, UpdatedBy)
+          VALUES (@caseId, @questions, @includeWitnessRatings, @userId)
+      `);
+
+    if (result.rowsAffected[0] === 0) {
+      throw new Error("Debrief validation failed: The survey has already been sent to jurors");
+    }
+
+    return await getSurvey(caseId);
+  } catch (error) {
+    console.error("❌ [DebriefSurvey.saveSurvey] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Send the survey: freeze the witness list and mark it sent. Safe to call
+ * more than once.
+ *
+ * @param {number} caseId - Case ID
+ * @returns {Promise<boolean>} True if this call sent it
+ */
+async function sendSurvey(caseId) {
+  try {
+    const pool = await poolPromise;
+    const witnesses = await getCaseWitnesses(pool, caseId);
+
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("defaultQuestions", sql.NVarChar(sql.MAX), JSON.stringify(DEFAULT_QUESTIONS))
+      .input("witnesses", sql.NVarChar(sql.MAX), JSON.stringify(witnesses)).query(`
+        IF NOT EXISTS (SELECT 1 FROM dbo.DebriefSurveys WHERE CaseId = @caseId)
+          INSERT INTO dbo.DebriefSurveys (CaseId, Questions) VALUES (@caseId, @defaultQuestions);
+
+        UPDATE dbo.DebriefSurveys
+        SET Witnesses = @witnesses, SentAt = GETUTCDATE(), UpdatedAt = GETUTCDATE()
+        WHERE CaseId = @caseId AND SentAt IS NULL;
+      `);
+
+    return result.rowsAffected[result.rowsAffected.length - 1] > 0;
+  } catch (error) {
+    console.error("❌ [DebriefSurvey.sendSurvey] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// RESPONSES
+// ============================================
+
+/**
+ * Whether a juror owes a debrief for a case, and whether it is done
+ * @returns {Promise<Object>} { required, completed, submittedAt }
+ */
+async function getCompletionStatus(caseId, jurorId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("jurorId", sql.Int, jurorId).query(`
+        SELECT
+          (SELECT SentAt FROM dbo.DebriefSurveys WHERE CaseId = @caseId) AS SentAt,
+          (SELECT SubmittedAt FROM dbo.DebriefResponses WHERE CaseId = @caseId AND JurorId = @jurorId) AS SubmittedAt
+      `);
+
+    const row = result.recordset[0];
+    return {
+      required: !!row.SentAt,
+      completed: !!row.SubmittedAt,
+      submittedAt: row.SubmittedAt,
+    };
+  } catch (error) {
+    console.error("❌ [DebriefSurvey.getCompletionStatus] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Record a juror's debrief. One submission per juror per case.
+ *
+ * @param {number} caseId - Case ID
+ * @param {number} jurorId - Juror ID
+ * @param {Object} data - { witnessRatings: { [witnessId]: 1-5 }, answers: { [questionId]: string|number } }
+ */
+async function submitResponse(caseId, jurorId, { witnessRatings = {}, answers = {} } = {}) {
+  try {
+    const survey = await getSurvey(caseId);
+    if (!survey.sentAt) {
+      throw new Error("Debrief validation failed: The debrief survey has not been sent yet");
+    }
+
+    const errors = [];
+    const isRating = (value) =>
+      Number.isInteger(value) && value >= RATING_SCALE.MIN && value <= RATING_SCALE.MAX;
+
+    const ratings = {};
+    survey.witnesses.forEach((w) => {
+      const value = parseInt(witnessRatings?.[w.witnessId], 10);
+      if (!isRating(value)) {
+        errors.push(`Rate ${w.name}'s credibility from ${RATING_SCALE.MIN} to ${RATING_SCALE.MAX}`);
+      } else {
+        ratings[w.witnessId] = value;
+      }
+    });
+
+    const cleanAnswers = {};
+    survey.questions.forEach((q, index) => {
+      const raw = answers?.[q.id];
+      if (q.type === "rating") {
+        const value = parseInt(raw, 10);
+        if (isRating(value)) cleanAnswers[q.id] = value;
+        else if (q.required || (raw !== undefined && raw !== null && raw !== "")) {
+          errors.push(`Question ${index + 1} needs a rating from ${RATING_SCALE.MIN} to ${RATING_SCALE.MAX}`);
+        }
+      } else {
+        const text = typeof raw === "string" ? raw.trim() : "";
+        if (text.length > DEBRIEF_LIMITS.MAX_ANSWER_LENGTH) {
+          errors.push(`Question ${index + 1} must be ${DEBRIEF_LIMITS.MAX_ANSWER_LENGTH} characters or less`);
+        } else if (text) {
+          cleanAnswers[q.id] = text;
+        } else if (q.required) {
+          errors.push(`Question ${index + 1} is required`);
+        }
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Debrief validation failed: ${errors.join(", ")}`);
+    }
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("jurorId", sql.Int, jurorId)
+      .input("answers", sql.NVarChar(sql.MAX), JSON.stringify({ witnessRatings: ratings, answers: cleanAnswers }))
+      .query(`
+        IF NOT EXISTS (SELECT 1 FROM dbo.DebriefResponses WHERE CaseId = @caseId AND JurorId = @jurorId)
+          INSERT INTO dbo.DebriefResponses (CaseId, JurorId, Answers)
+          VALUES (@caseId, @jurorId, @answers)
+      `);
+
+    if (result.rowsAffected[0] === 0) {
+      throw new Error("Debrief validation failed: You have already completed this debrief");
+    }
+  } catch (error) {
+    console.error("❌ [DebriefSurvey.submitResponse] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Anonymous feedback summary for the attorney: average credibility per
+ * witness, averages for rating questions and the text answers (unattributed).
+ *
+ * @param {number} caseId - Case ID
+ * @returns {Promise<Object>} { responseCount, witnesses, questions }
+ */
+async function getFeedbackSummary(caseId) {
+  try {
+    const survey = await getSurvey(caseId);
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .query("SELECT Answers FROM dbo.DebriefResponses WHERE CaseId = @caseId ORDER BY SubmittedAt ASC");
+    const responses = result.recordset.map((row) => parseJson(row.Answers, { witnessRatings: {}, answers: {} }));
+
+    const summarizeRatings = (values) => {
+      const distribution = {};
+      for (let n = RATING_SCALE.MIN; n <= RATING_SCALE.MAX; n++) distribution[n] = 0;
+      values.forEach((v) => distribution[v]++);
+      return {
+        count: values.length,
+        average: values.length > 0 ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10 : null,
+        distribution,
+      };
+    };
+
+    return {
+      sentAt: survey.sentAt,
+      ratingScale: RATING_SCALE,
+      responseCount: responses.length,
+      witnesses: survey.witnesses.map((w) => ({
+        ...w,
+        ...summarizeRatings(
+          responses.map((r) => r.witnessRatings?.[w.witnessId]).filter((v) => Number.isInteger(v))
+        ),
+      })),
+      questions: survey.questions.map((q) => {
+        const values = responses.map((r) => r.answers?.[q.id]).filter((v) => v !== undefined && v !== null);
+        return q.type === "rating"
+          ? { ...q, ...summarizeRatings(values.filter((v) => Number.isInteger(v))) }
+          : { ...q, count: values.length, answers: values };
+      }),
+    };
+  } catch (error) {
+    console.error("❌ [DebriefSurvey.getFeedbackSummary] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  QUESTION_TYPES,
+  RATING_SCALE,
+  DEBRIEF_LIMITS,
+  DEFAULT_QUESTIONS,
+
+  // Survey definition
+  getSurvey,
+  saveSurvey,
+  sendSurvey,
+
+  // Responses
+  getCompletionStatus,
+  submitResponse,
+  getFeedbackSummary,
+};
@@ -49,6 +49,7 @@ const USER_TYPES = {
   ATTORNEY: "attorney",
   JUROR: "juror",
   ADMIN: "admin",
+  TEAM_MEMBER: "team_member",
   SYSTEM: "system",
 };
 
@@ -198,17 +199,20 @@ async function getEventsByCase(caseId) {
           CASE 
             WHEN e.UserType = 'attorney' THEN a.FirstName + ' ' + a.LastName
             WHEN e.UserType = 'juror' THEN j.Name
+            WHEN e.UserType = 'team_member' THEN t.Name
             WHEN e.UserType = 'admin' THEN 'Admin'
             ELSE 'System'
           END as TriggeredByName,
           CASE 
             WHEN e.UserType = 'attorney' THEN a.Email
             WHEN e.UserType = 'juror' THEN j.Email
+            WHEN e.UserType = 'team_member' THEN t.Email
             ELSE NULL
           END as TriggeredByEmail
         FROM dbo.Events e
         LEFT JOIN dbo.Attorneys a ON e.TriggeredBy = a.AttorneyId AND e.UserType = 'attorney'
         LEFT JOIN dbo.Jurors j ON e.TriggeredBy = j.JurorId AND e.UserType = 'juror'
+        LEFT JOIN dbo.TeamMemberAccounts t ON e.TriggeredBy = t.AccountId AND e.UserType = 'team_member'
         WHERE e.CaseId = @caseId
         ORDER BY e.CreatedAt ASC
       `);
@@ -254,6 +258,7 @@ async function getRecentEvents(limit = 10) {
           CASE 
             WHEN e.UserType = 'attorney' THEN a.FirstName + ' ' + a.LastName
             WHEN e.UserType = 'juror' THEN j.Name
+            WHEN e.UserType = 'team_member' THEN t.Name
             WHEN e.UserType = 'admin' THEN 'Admin'
             ELSE 'System'
           END as TriggeredByName
@@ -261,6 +266,7 @@ async function getRecentEvents(limit = 10) {
         INNER JOIN dbo.Cases c ON e.CaseId = c.CaseId
         LEFT JOIN dbo.Attorneys a ON e.TriggeredBy = a.AttorneyId AND e.UserType = 'attorney'
         LEFT JOIN dbo.Jurors j ON e.TriggeredBy = j.JurorId AND e.UserType = 'juror'
+        LEFT JOIN dbo.TeamMemberAccounts t ON e.TriggeredBy = t.AccountId AND e.UserType = 'team_member'
         ORDER BY e.CreatedAt DESC
       `);
 
@@ -319,6 +325,7 @@ async function getEventsByUser(userId, userType, options = {}) {
           CASE 
             WHEN e.UserType = 'attorney' THEN a.FirstName + ' ' + a.LastName
             WHEN e.UserType = 'juror' THEN j.Name
+            WHEN e.UserType = 'team_member' THEN t.Name
             WHEN e.UserType = 'admin' THEN 'Admin'
             ELSE 'System'
           END as TriggeredByName
@@ -326,6 +333,7 @@ async function getEventsByUser(userId, userType, options = {}) {
         INNER JOIN dbo.Cases c ON e.CaseId = c.CaseId
         LEFT JOIN dbo.Attorneys a ON e.TriggeredBy = a.AttorneyId AND e.UserType = 'attorney'
         LEFT JOIN dbo.Jurors j ON e.TriggeredBy = j.JurorId AND e.UserType = 'juror'
+        LEFT JOIN dbo.TeamMemberAccounts t ON e.TriggeredBy = t.AccountId AND e.UserType = 'team_member'
         WHERE e.TriggeredBy = @userId AND e.UserType = @userType
         ORDER BY e.CreatedAt DESC
         OFFSET @offset ROWS
@@ -380,6 +388,7 @@ async function getEventsByType(eventType, options = {}) {
           CASE 
             WHEN e.UserType = 'attorney' THEN a.FirstName + ' ' + a.LastName
             WHEN e.UserType = 'juror' THEN j.Name
+            WHEN e.UserType = 'team_member' THEN t.Name
             WHEN e.UserType = 'admin' THEN 'Admin'
             ELSE 'System'
           END as TriggeredByName
@@ -387,6 +396,7 @@ async function getEventsByType(eventType, options = {}) {
         INNER JOIN dbo.Cases c ON e.CaseId = c.CaseId
         LEFT JOIN dbo.Attorneys a ON e.TriggeredBy = a.AttorneyId AND e.UserType = 'attorney'
         LEFT JOIN dbo.Jurors j ON e.TriggeredBy = j.JurorId AND e.UserType = 'juror'
+        LEFT JOIN dbo.TeamMemberAccounts t ON e.TriggeredBy = t.AccountId AND e.UserType = 'team_member'
         WHERE e.EventType = @eventType
         ORDER BY e.CreatedAt DESC
         OFFSET @offset ROWS
@@ -0,0 +1,662 @@
+// =============================================
+// Firm.js - Law Firm Organizations
+// Attorneys at the same firm see and co-manage each other's cases, share
+// jury charge / voir dire templates, and firm admins manage membership
+// and see consolidated billing for the whole firm.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const FIRM_ROLES = {
+  ADMIN: "admin",
+  MEMBER: "member",
+};
+
+const INVITE_STATUSES = {
+  PENDING: "pending",
+  ACCEPTED: "accepted",
+  DECLINED: "declined",
+  REVOKED: "revoked",
+};
+
+const MAX_FIRM_NAME_LENGTH = 200;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureFirmTables() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.Firms', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.Firms (
+          FirmId INT IDENTITY(1,1) PRIMARY KEY,
+          Name NVARCHAR(200) NOT NULL,
+          BillingEmail NVARCHAR(255) NULL,
+          CreatedByAttorneyId INT NOT NULL,
+          IsDeleted BIT NOT NULL DEFAULT 0,
+          CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+          UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()
+        );
+      END
+
+      IF OBJECT_ID(N'dbo.FirmMembers', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.FirmMembers (
+          FirmMemberId INT IDENTITY(1,1) PRIMARY KEY,
+          FirmId INT NOT NULL,
+          AttorneyId INT NOT NULL,
+          Role NVARCHAR(20) NOT NULL DEFAULT 'member',
+          JoinedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+          CONSTRAINT FK_FirmMembers_Firm FOREIGN KEY (FirmId) REFERENCES dbo.Firms(FirmId)
+        );
+        -- An attorney belongs to at most one firm
+        CREATE UNIQUE INDEX UX_FirmMembers_Attorney ON dbo.FirmMembers(AttorneyId);
+        CREATE INDEX IX_FirmMembers_Firm ON dbo.FirmMembers(FirmId);
+      END
+
+      IF OBJECT_ID(N'dbo.FirmInvites', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.FirmInvites (
+          InviteId INT IDENTITY(1,1) PRIMARY KEY,
+          FirmId INT NOT NULL,
+          Email NVARCHAR(255) NOT NULL,
+          Role NVARCHAR(20) NOT NULL DEFAULT 'member',
+          InvitedByAttorneyId INT NOT NULL,
+          Status NVARCHAR(20) NOT NULL DEFAULT 'pending',
+          InvitedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+          RespondedAt DATETIME2 NULL,
+          CONSTRAINT FK_FirmInvites_Firm FOREIGN KEY (FirmId) REFERENCES dbo.Firms(FirmId)
+        );
+        CREATE INDEX IX_FirmInvites_Email ON dbo.FirmInvites(Email, Status);
+        CREATE INDEX IX_FirmInvites_Firm ON dbo.FirmInvites(FirmId, Status);
+      END
+    `);
+  } catch (err) {
+    console.warn("⚠️ [Firm] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureFirmTables();
+
+// ============================================
+// HELPERS
+// ============================================
+
+function normalizeEmail(email) {
+  return typeof email === "string" ? email.trim().toLowerCase() : "";
+}
+
+function validateFirmData(data, { partial = false } = {}) {
+  const errors = [];
+
+  if (!partial || data.name !== undefined) {
+    const name = typeof data.name === "string" ? data.name.trim() : "";
+    if (!name) errors.push("Firm name is required");
+    else if (name.length > MAX_FIRM_NAME_LENGTH) {
+      errors.push(`Firm name must be ${MAX_FIRM_NAME_LENGTH} characters or fewer`);
+    }
+  }
+
+  if (data.billingEmail && !EMAIL_REGEX.test(normalizeEmail(data.billingEmail))) {
+    errors.push("Billing email must be a valid email address");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Firm validation failed: ${errors.join(", ")}`);
+  }
+}
+
+/**
+ * SQL condition: the attorney column belongs to someone at @attorneyId's firm
+ * (including @attorneyId). Never matches for attorneys without a firm.
+ */
+function firmColleagueFilter(column) {
+  return `${column} IN (
+    SELECT fmColleague.AttorneyId
+    FROM dbo.FirmMembers fmSelf
+    JOIN dbo.FirmMembers fmColleague ON fmColleague.FirmId = fmSelf.FirmId
+    WHERE fmSelf.AttorneyId = @attorneyId
+  )`;
+}
+
+function mapMembership(row) {
+  if (!row) return null;
+  return {
+    firmId: row.FirmId,
+    name: row.Name,
+    billingEmail: row.BillingEmail,
+    role: row.Role,
+    isAdmin: row.Role === FIRM_ROLES.ADMIN,
+    joinedAt: row.JoinedAt,
+  };
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * The firm an attorney belongs to, with their role in it
+ * @returns {Promise<Object|null>} { firmId, name, billingEmail, role, isAdmin, joinedAt }
+ */
+async function getMembership(attorneyId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("attorneyId", sql.Int, attorneyId)
+      .query(`
+        SELECT f.FirmId, f.Name, f.BillingEmail, fm.Role, fm.JoinedAt
+        FROM dbo.FirmMembers fm
+        JOIN dbo.Firms f ON f.FirmId = fm.FirmId
+        WHERE fm.AttorneyId = @attorneyId AND f.IsDeleted = 0
+      `);
+
+    return mapMembership(result.recordset[0]);
+  } catch (error) {
+    console.error("❌ [Firm.getMembership] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Members of a firm with their case counts, admins first
+ */
+async function getMembers(firmId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("firmId", sql.Int, firmId)
+      .query(`
+        SELECT fm.AttorneyId, fm.Role, fm.JoinedAt,
+          a.FirstName, a.LastName, a.Email,
+          (SELECT COUNT(*) FROM dbo.Cases c WHERE c.AttorneyId = fm.AttorneyId AND c.IsDeleted = 0) AS CaseCount
+        FROM dbo.FirmMembers fm
+        JOIN dbo.Attorneys a ON a.AttorneyId = fm.AttorneyId
+        WHERE fm.FirmId = @firmId
+        ORDER BY CASE WHEN fm.Role = 'admin' THEN 0 ELSE 1 END, a.LastName, a.FirstName
+      `);
+
+    return result.recordset.map((row) => ({
+      attorneyId: row.AttorneyId,
+      name: `${row.FirstName || ""} ${row.LastName || ""}`.trim(),
+      email: row.Email,
+      role: row.Role,
+      joinedAt: row.JoinedAt,
+      caseCount: row.CaseCount,
+    }));
+  } catch (error) {
+    console.error("❌ [Firm.getMembers] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Pending invites sent by a firm
+ */
+async function getPendingInvites(firmId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("firmId", sql.Int, firmId)
+      .query(`
+        SELECT fi.InviteId, fi.Email, fi.Role, fi.InvitedAt,
+          a.FirstName + ' ' + a.LastName AS InvitedByName
+        FROM dbo.FirmInvites fi
+        JOIN dbo.Attorneys a ON a.AttorneyId = fi.InvitedByAttorneyId
+        WHERE fi.FirmId = @firmId AND fi.Status = 'pending'
+        ORDER BY fi.InvitedAt DESC
+      `);
+
+    return result.recordset.map((row) => ({
+      inviteId: row.InviteId,
+      email: row.Email,
+      role: row.Role,
+      invitedBy: row.InvitedByName,
+      invitedAt: row.InvitedAt,
+    }));
+  } catch (error) {
+    console.error("❌ [Firm.getPendingInvites] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Pending firm invites addressed to an attorney's email
+ */
+async function getInvitesForEmail(email) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("email", sql.NVarChar(255), normalizeEmail(email))
+      .query(`
+        SELECT fi.InviteId, fi.FirmId, fi.Role, fi.InvitedAt, f.Name AS FirmName,
+          a.FirstName + ' ' + a.LastName AS InvitedByName
+        FROM dbo.FirmInvites fi
+        JOIN dbo.Firms f ON f.FirmId = fi.FirmId
+        JOIN dbo.Attorneys a ON a.AttorneyId = fi.InvitedByAttorneyId
+        WHERE fi.Email = @email AND fi.Status = 'pending' AND f.IsDeleted = 0
+        ORDER BY fi.InvitedAt DESC
+      `);
+
+    return result.recordset.map((row) => ({
+      inviteId: row.InviteId,
+      firmId: row.FirmId,
+      firmName: row.FirmName,
+      role: row.Role,
+      invitedBy: row.InvitedByName,
+      invitedAt: row.InvitedAt,
+    }));
+  } catch (error) {
+    console.error("❌ [Firm.getInvitesForEmail] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Whether two attorneys belong to the same firm
+ */
+async function areColleagues(attorneyId, otherAttorneyId) {
+  if (!attorneyId || !otherAttorneyId) return false;
+  if (attorneyId === otherAttorneyId) return true;
+
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("attorneyId", sql.Int, attorneyId)
+      .input("otherAttorneyId", sql.Int, otherAttorneyId)
+      .query(`SELECT 1 AS Found WHERE ${firmColleagueFilter("@otherAttorneyId")}`);
+
+    return result.recordset.length > 0;
+  } catch (error) {
+    console.error("❌ [Firm.areColleagues] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Whether an attorney may manage a case: its owner or anyone at the owner's firm
+ */
+async function canManageCase(caseData, attorneyId) {
+  if (!caseData || !attorneyId) return false;
+  return areColleagues(attorneyId, caseData.AttorneyId);
+}
+
+// ============================================
+// FIRM LIFECYCLE
+// ============================================
+
+/**
+ * Create a firm with the attorney as its first admin
+ */
+async function createFirm(attorneyId, data) {
+  try {
+    validateFirmData(data);
+
+    if (await getMembership(attorneyId)) {
+      throw new Error("Firm validation failed: You already belong to a firm");
+    }
+
+    const pool = await poolPromise;
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      const firmResult = await transaction
+        .request()
+        .input("name", sql.NVarChar(200), data.name.trim())
+        .input("billingEmail", sql.NVarChar(255), normalizeEmail(data.billingEmail) || null)
+        .input("attorneyId", sql.Int, attorneyId)
+        .query(`
+          INSERT INTO dbo.Firms (Name, BillingEmail, CreatedByAttorneyId)
+          OUTPUT INSERTED.FirmId
+          VALUES (@name, @billingEmail, @attorneyId)
+        `);
+
+      await transaction
+        .request()
+        .input("firmId", sql.Int, firmResult.recordset[0].FirmId)
+        .input("attorneyId", sql.Int, attorneyId)
+        .input("role", sql.NVarChar(20), FIRM_ROLES.ADMIN)
+        .query(`
+          INSERT INTO dbo.FirmMembers (FirmId, AttorneyId, Role)
+          VALUES (@firmId, @attorneyId, @role)
+        `);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    return await getMembership(attorneyId);
+  } catch (error) {
+    console.error("❌ [Firm.createFirm] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Rename a firm or change its billing contact (admin only, checked by caller)
+ */
+async function updateFirm(firmId, data) {
+  try {
+    validateFirmData(data, { partial: true });
+
+    const pool = await poolPromise;
+    const request = pool.request().input("firmId", sql.Int, firmId);
+    const updates = [];
+
+    if (data.name !== undefined) {
+      request.input("name", sql.NVarChar(200), data.name.trim());
+      updates.push("Name = @name");
+    }
+    if (data.billingEmail !== undefined) {
+      request.input("billingEmail", sql.NVarChar(255), normalizeEmail(data.billingEmail) || null);
+      updates.push("BillingEmail = @billingEmail");
+    }
+    updates.push("UpdatedAt = GETUTCDATE()");
+
+    await request.query(`
+      UPDATE dbo.Firms SET ${updates.join(", ")}
+      WHERE FirmId = @firmId AND IsDeleted = 0
+    `);
+  } catch (error) {
+    console.error("❌ [Firm.updateFirm] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// MEMBERSHIP
+// ============================================
+
+/**
+ * Invite an attorney (by email) to join the firm. The invite waits for an
+ * attorney account with that email, so it also works before they sign up.
+ */
+async function inviteMember(firmId, invitedByAttorneyId, { email, role }) {
+  try {
+    const normalized = normalizeEmail(email);
+    if (!EMAIL_REGEX.test(normalized)) {
+      throw new Error("Firm validation failed: A valid email address is required");
+    }
+    const inviteRole = role || FIRM_ROLES.MEMBER;
+    if (!Object.values(FIRM_ROLES).includes(inviteRole)) {
+      throw new Error("Firm validation failed: Role must be admin or member");
+    }
+
+    const pool = await poolPromise;
+    const existing = await pool
+      .request()
+      .input("firmId", sql.Int, firmId)
+      .input("email", sql.NVarChar(255), normalized)
+      .query(`
+        SELECT
+          (SELECT COUNT(*) FROM dbo.FirmMembers fm
+           JOIN dbo.Attorneys a ON a.AttorneyId = fm.AttorneyId
+           WHERE fm.FirmId = @firmId AND LOWER(a.Email) = @email) AS MemberCount,
+          (SELECT COUNT(*) FROM dbo.FirmInvites
+           WHERE FirmId = @firmId AND Email = @email AND Status = 'pending') AS InviteCount
+      `);
+
+    if (existing.recordset[0].MemberCount > 0) {
+      throw new Error("Firm validation failed: That attorney is already a member of your firm");
+    }
+    if (existing.recordset[0].InviteCount > 0) {
+      throw new Error("Firm validation failed: That email already has a pending invitation");
+    }
+
+    const result = await pool
+      .request()
+      .input("firmId", sql.Int, firmId)
+      .input("email", sql.NVarChar(255), normalized)
+      .input("role", sql.NVarChar(20), inviteRole)
+      .input("invitedBy", sql.Int, invitedByAttorneyId)
+      .query(`
+        INSERT INTO dbo.FirmInvites (FirmId, Email, Role, InvitedByAttorneyId)
+        OUTPUT INSERTED.InviteId
+        VALUES (@firmId, @email, @role, @invitedBy)
+      `);
+
+    return { inviteId: result.recordset[0].InviteId, email: normalized, role: inviteRole };
+  } catch (error) {
+    console.error("❌ [Firm.inviteMember] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Withdraw a pending invite
+ * @returns {Promise<boolean>} true if an invite was revoked
+ */
+async function revokeInvite(firmId, inviteId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("firmId", sql.Int, firmId)
+      .input("inviteId", sql.Int, inviteId)
+      .query(`
+        UPDATE dbo.FirmInvites
+        SET Status = 'revoked', RespondedAt = GETUTCDATE()
+        WHERE InviteId = @inviteId AND FirmId = @firmId AND Status = 'pending'
+      `);
+
+    return result.rowsAffected[0] > 0;
+  } catch (error) {
+    console.error("❌ [Firm.revokeInvite] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Accept or decline a pending invite addressed to the attorney's email
+ * @param {Object} attorney - { id, email }
+ * @returns {Promise<Object>} { firmId, firmName, invitedByAttorneyId, accepted }
+ */
+async function respondToInvite(inviteId, attorney, accept) {
+  try {
+    const pool = await poolPromise;
+    const inviteResult = await pool
+      .request()
+      .input("inviteId", sql.Int, inviteId)
+      .input("email", sql.NVarChar(255), normalizeEmail(attorney.email))
+      .query(`
+        SELECT fi.FirmId, fi.Role, fi.InvitedByAttorneyId, f.Name AS FirmName
+        FROM dbo.FirmInvites fi
+        JOIN dbo.Firms f ON f.FirmId = fi.FirmId
+        WHERE fi.InviteId = @inviteId AND fi.Email = @email
+          AND fi.Status = 'pending' AND f.IsDeleted = 0
+      `);
+
+    const invite = inviteResult.recordset[0];
+    if (!invite) {
+      throw new Error("Firm validation failed: Invitation not found or already answered");
+    }
+    if (accept && (await getMembership(attorney.id))) {
+      throw new Error("Firm validation failed: Leave your current firm before joining another");
+    }
+
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      await transaction
+        .request()
+        .input("inviteId", sql.Int, inviteId)
+        .input("status", sql.NVarChar(20), accept ? INVITE_STATUSES.ACCEPTED : INVITE_STATUSES.DECLINED)
+        .query(`
+          UPDATE dbo.FirmInvites
+          SET Status = @status, RespondedAt = GETUTCDATE()
+          WHERE InviteId = @inviteId
+        `);
+
+      if (accept) {
+        await transaction
+          .request()
+          .input("firmId", sql.Int, invite.FirmId)
+          .input("attorneyId", sql.Int, attorney.id)
+          .input("role", sql.NVarChar(20), invite.Role)
+          .query(`
+            INSERT INTO dbo.FirmMembers (FirmId, AttorneyId, Role)
+            VALUES (@firmId, @attorneyId, @role)
+          `);
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    return {
+      firmId: invite.FirmId,
+      firmName: invite.FirmName,
+      invitedByAttorneyId: invite.InvitedByAttorneyId,
+      accepted: !!accept,
+    };
+  } catch (error) {
+    console.error("❌ [Firm.respondToInvite] Error:", error.message);
+    throw error;
+  }
+}
+
+async function countAdmins(pool, firmId) {
+  const result = await pool
+    .request()
+    .input("firmId", sql.Int, firmId)
+    .query(`
+      SELECT
+        SUM(CASE WHEN Role = 'admin' THEN 1 ELSE 0 END) AS AdminCount,
+        COUNT(*) AS MemberCount
+      FROM dbo.FirmMembers
+      WHERE FirmId = @firmId
+    `);
+  return result.recordset[0];
+}
+
+/**
+ * Promote a member to admin or demote an admin. A firm always keeps one admin.
+ * @returns {Promise<boolean>} true if the member was found
+ */
+async function setMemberRole(firmId, attorneyId, role) {
+  try {
+    if (!Object.values(FIRM_ROLES).includes(role)) {
+      throw new Error("Firm validation failed: Role must be admin or member");
+    }
+
+    const pool = await poolPromise;
+    if (role === FIRM_ROLES.MEMBER) {
+      const members = await getMembers(firmId);
+      const target = members.find((m) => m.attorneyId === attorneyId);
+      if (target && target.role === FIRM_ROLES.ADMIN) {
+        const { AdminCount } = await countAdmins(pool, firmId);
+        if (AdminCount <= 1) {
+          throw new Error("Firm validation failed: A firm needs at least one admin");
+        }
+      }
+    }
+
+    const result = await pool
+      .request()
+      .input("firmId", sql.Int, firmId)
+      .input("attorneyId", sql.Int, attorneyId)
+      .input("role", sql.NVarChar(20), role)
+      .query(`
+        UPDATE dbo.FirmMembers SET Role = @role
+        WHERE FirmId = @firmId AND AttorneyId = @attorneyId
+      `);
+
+    return result.rowsAffected[0] > 0;
+  } catch (error) {
+    console.error("❌ [Firm.setMemberRole] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Remove a member (or leave the firm). The last admin can only leave once
+ * everyone else has; the firm is closed when its last member leaves.
+ * Cases stay with the attorney who created them.
+ * @returns {Promise<boolean>} true if the member was removed
+ */
+async function removeMember(firmId, attorneyId) {
+  try {
+    const pool = await poolPromise;
+    const members = await getMembers(firmId);
+    const target = members.find((m) => m.attorneyId === attorneyId);
+    if (!target) return false;
+
+    const { AdminCount, MemberCount } = await countAdmins(pool, firmId);
+    if (target.role === FIRM_ROLES.ADMIN && AdminCount <= 1 && MemberCount > 1) {
+      throw new Error("Firm validation failed: Make another member an admin before the last admin leaves");
+    }
+
+    await pool
+      .request()
+      .input("firmId", sql.Int, firmId)
+      .input("attorneyId", sql.Int, attorneyId)
+      .input("closeFirm", sql.Bit, MemberCount <= 1 ? 1 : 0)
+      .query(`
+        DELETE FROM dbo.FirmMembers WHERE FirmId = @firmId AND AttorneyId = @attorneyId;
+
+        IF @closeFirm = 1
+        BEGIN
+          UPDATE dbo.Firms SET IsDeleted = 1, UpdatedAt = GETUTCDATE() WHERE FirmId = @firmId;
+          UPDATE dbo.FirmInvites SET Status = 'revoked', RespondedAt = GETUTCDATE()
+          WHERE FirmId = @firmId AND Status = 'pending';
+        END
+      `);
+
+    return true;
+  } catch (error) {
+    console.error("❌ [Firm.removeMember] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  FIRM_ROLES,
+  INVITE_STATUSES,
+
+  // Queries
+  getMembership,
+  getMembers,
+  getPendingInvites,
+  getInvitesForEmail,
+  areColleagues,
+  canManageCase,
+
+  // Firm lifecycle
+  createFirm,
+  updateFirm,
+
+  // Membership
+  inviteMember,
+  revokeInvite,
+  respondToInvite,
+  setMemberRole,
+  removeMember,
+
+  // Helpers
+  firmColleagueFilter,
+};
@@ -0,0 +1,439 @@
+// =============================================
+// JurorAttendance.js - Juror Attendance & Engagement Tracking
+// Join/leave and camera-off intervals reported by the juror conference
+// client, summarised against the trial window for payout eligibility.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const INTERVAL_TYPES = {
+  PRESENT: "present",
+  CAMERA_OFF: "camera_off",
+};
+
+const ATTENDANCE_EVENTS = {
+  JOIN: "join",
+  HEARTBEAT: "heartbeat",
+  LEAVE: "leave",
+};
+
+// Clients report every 30s; an interval not refreshed within this window is
+// treated as ended at its last heartbeat (closed tab, lost connection, ...)
+const HEARTBEAT_GRACE_SECONDS = 90;
+
+const ATTENDANCE_THRESHOLDS = {
+  minPresentPercent:
+    parseInt(process.env.ATTENDANCE_MIN_PRESENT_PERCENT, 10) || 80,
+  maxCameraOffPercent:
+    parseInt(process.env.ATTENDANCE_MAX_CAMERA_OFF_PERCENT, 10) || 20,
+};
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureAttendanceTable() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.JurorAttendanceIntervals', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.JurorAttendanceIntervals (
+          IntervalId INT IDENTITY(1,1) PRIMARY KEY,
+          CaseId INT NOT NULL,
+          JurorId INT NOT NULL,
+          IntervalType NVARCHAR(20) NOT NULL,
+          StartedAt DATETIME2 NOT NULL CONSTRAINT DF_JurorAttendance_StartedAt DEFAULT GETUTCDATE(),
+          LastSeenAt DATETIME2 NOT NULL CONSTRAINT DF_JurorAttendance_LastSeenAt DEFAULT GETUTCDATE(),
+          EndedAt DATETIME2 NULL
+        );
+        CREATE INDEX IX_JurorAttendance_Case_Juror ON dbo.JurorAttendanceIntervals (CaseId, JurorId);
+      END
+    `);
+  } catch (err) {
+    console.warn("⚠️ [JurorAttendance] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureAttendanceTable();
+
+// ============================================
+// HELPERS
+// ============================================
+
+function validateIds(caseId, jurorId) {
+  const errors = [];
+  const cId = parseInt(caseId, 10);
+  const jId = parseInt(jurorId, 10);
+
+  if (isNaN(cId) || cId <= 0) errors.push("Valid case ID is required");
+  if (jurorId !== undefined && (isNaN(jId) || jId <= 0)) {
+    errors.push("Valid juror ID is required");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Attendance validation failed: ${errors.join(", ")}`);
+  }
+  return { caseId: cId, jurorId: jId };
+}
+
+/**
+ * Seconds of an interval that fall inside the trial window. Open intervals
+ * count up to their last heartbeat only.
+ */
+function overlapSeconds(interval, windowStart, windowEnd) {
+  const start = Math.max(new Date(interval.StartedAt).getTime(), windowStart);
+  const end = Math.min(
+    new Date(interval.EndedAt || interval.LastSeenAt).getTime(),
+    windowEnd
+  );
+  return end > start ? Math.round((end - start) / 1000) : 0;
+}
+
+function percent(part, whole) {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+}
+
+/**
+ * Trial window used as the attendance baseline: the meeting's start/end,
+ * falling back to the first juror activity while the meeting has no start
+ */
+async function getTrialWindow(pool, caseId) {
+  const result = await pool.request().input("caseId", sql.Int, caseId).query(`
+      SELECT
+        tm.StartedAt AS MeetingStartedAt,
+        tm.EndedAt AS MeetingEndedAt,
+        (SELECT MIN(StartedAt) FROM dbo.JurorAttendanceIntervals WHERE CaseId = @caseId) AS FirstActivityAt,
+        GETUTCDATE() AS Now
+      FROM (SELECT 1 AS Dummy) d
+      OUTER APPLY (
+        SELECT TOP 1 StartedAt, EndedAt
+        FROM dbo.TrialMeetings
+        WHERE CaseId = @caseId
+        ORDER BY CreatedAt DESC
+      ) tm
+    `);
+
+  const row = result.recordset[0] || {};
+  const startedAt = row.MeetingStartedAt || row.FirstActivityAt;
+  if (!startedAt) {
+    return { startedAt: null, endedAt: null, start: 0, end: 0, durationSeconds: 0 };
+  }
+
+  const endedAt = row.MeetingEndedAt || row.Now;
+  const start = new Date(startedAt).getTime();
+  const end = new Date(endedAt).getTime();
+
+  return {
+    startedAt,
+    endedAt: row.MeetingEndedAt || null,
+    start,
+    end,
+    durationSeconds: end > start ? Math.round((end - start) / 1000) : 0,
+  };
+}
+
+function formatTrial(trialWindow) {
+  return {
+    startedAt: trialWindow.startedAt,
+    endedAt: trialWindow.endedAt,
+    durationSeconds: trialWindow.durationSeconds,
+    tracked: trialWindow.durationSeconds > 0,
+  };
+}
+
+/**
+ * Build one juror's attendance summary from their intervals
+ */
+function summarize(juror, intervals, trialWindow, nowMs) {
+  const present = intervals.filter((i) => i.IntervalType === INTERVAL_TYPES.PRESENT);
+  const cameraOff = intervals.filter((i) => i.IntervalType === INTERVAL_TYPES.CAMERA_OFF);
+
+  const presentSeconds = present.reduce(
+    (sum, i) => sum + overlapSeconds(i, trialWindow.start, trialWindow.end),
+    0
+  );
+  const cameraOffSeconds = cameraOff.reduce(
+    (sum, i) => sum + overlapSeconds(i, trialWindow.start, trialWindow.end),
+    0
+  );
+
+  const isLive = (i) =>
+    !i.EndedAt &&
+    nowMs - new Date(i.LastSeenAt).getTime() <= HEARTBEAT_GRACE_SECONDS * 1000;
+
+  const presentPercent = Math.min(100, percent(presentSeconds, trialWindow.durationSeconds));
+  const cameraOffPercent = Math.min(100, percent(cameraOffSeconds, presentSeconds));
+
+  const reasons = [];
+  if (trialWindow.durationSeconds > 0) {
+    if (present.length === 0) {
+      reasons.push("Never joined the trial");
+    } else if (presentPercent < ATTENDANCE_THRESHOLDS.minPresentPercent) {
+      reasons.push(
+        `Present for ${presentPercent}% of the trial (minimum ${ATTENDANCE_THRESHOLDS.minPresentPercent}%)`
+      );
+    }
+    if (present.length > 0 && cameraOffPercent > ATTENDANCE_THRESHOLDS.maxCameraOffPercent) {
+      reasons.push(
+        `Camera off for ${cameraOffPercent}% of their time (maximum ${ATTENDANCE_THRESHOLDS.maxCameraOffPercent}%)`
+      );
+    }
+  }
+
+  return {
+    jurorId: juror.JurorId,
+    name: juror.Name || null,
+    presentSeconds,
+    cameraOffSeconds,
+    presentPercent,
+    cameraOffPercent,
+    sessions: present.length,
+    firstJoinedAt: present.length > 0 ? present[0].StartedAt : null,
+    lastSeenAt:
+      present.length > 0
+        ? present[present.length - 1].EndedAt || present[present.length - 1].LastSeenAt
+        : null,
+    isPresent: present.some(isLive),
+    isCameraOff: cameraOff.some(isLive),
+    flagged: reasons.length > 0,
+    reasons,
+  };
+}
+
+// ============================================
+// TRACKING
+// ============================================
+
+/**
+ * Record a join or heartbeat from the juror conference client.
+ * Stale open intervals are closed at their last heartbeat first, so a
+ * dropped connection shows up as a gap rather than continuous presence.
+ *
+ * @param {number} caseId - Case ID
+ * @param {number} jurorId - Juror ID
+ * @param {Object} state - { cameraOn }
+ */
+async function recordHeartbeat(caseId, jurorId, { cameraOn = true } = {}) {
+  try {
+    const ids = validateIds(caseId, jurorId);
+    const pool = await poolPromise;
+
+    await pool
+      .request()
+      .input("caseId", sql.Int, ids.caseId)
+      .input("jurorId", sql.Int, ids.jurorId)
+      .input("cameraOn", sql.Bit, cameraOn ? 1 : 0)
+      .input("grace", sql.Int, HEARTBEAT_GRACE_SECONDS)
+      .input("present", sql.NVarChar, INTERVAL_TYPES.PRESENT)
+      .input("cameraOff", sql.NVarChar, INTERVAL_TYPES.CAMERA_OFF).query(`
+        UPDATE dbo.JurorAttendanceIntervals
+        SET EndedAt = LastSeenAt
+        WHERE CaseId = @caseId AND JurorId = @jurorId AND EndedAt IS NULL
+          AND LastSeenAt < DATEADD(SECOND, -@grace, GETUTCDATE());
+
+        IF EXISTS (
+          SELECT 1 FROM dbo.JurorAttendanceIntervals
+          WHERE CaseId = @caseId AND JurorId = @jurorId
+            AND IntervalType = @present AND EndedAt IS NULL
+        )
+          UPDATE dbo.JurorAttendanceIntervals
+          SET LastSeenAt = GETUTCDATE()
+          WHERE CaseId = @caseId AND JurorId = @jurorId
+            AND IntervalType = @present AND EndedAt IS NULL;
+        ELSE
+          INSERT INTO dbo.JurorAttendanceIntervals (CaseId, JurorId, IntervalType)
+          VALUES (@caseId, @jurorId, @present);
+
+        IF @cameraOn = 0
+        BEGIN
+          IF EXISTS (
+            SELECT 1 FROM dbo.JurorAttendanceIntervals
+            WHERE CaseId = @caseId AND JurorId = @jurorId
+              AND IntervalType = @cameraOff AND EndedAt IS NULL
+          )
+            UPDATE dbo.JurorAttendanceIntervals
+            SET LastSeenAt = GETUTCDATE()
+            WHERE CaseId = @caseId AND JurorId = @jurorId
+              AND IntervalType = @cameraOff AND EndedAt IS NULL;
+          ELSE
+            INSERT INTO dbo.JurorAttendanceIntervals (CaseId, JurorId, IntervalType)
+            VALUES (@caseId, @jurorId, @cameraOff);
+        END
+        ELSE
+          UPDATE dbo.JurorAttendanceIntervals
+          SET LastSeenAt = GETUTCDATE(), EndedAt = GETUTCDATE()
+          WHERE CaseId = @caseId AND JurorId = @jurorId
+            AND IntervalType = @cameraOff AND EndedAt IS NULL;
+      `);
+  } catch (error) {
+    console.error("❌ [JurorAttendance.recordHeartbeat] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Close a juror's open intervals when they leave the call
+ *
+ * @param {number} caseId - Case ID
+ * @param {number} jurorId - Juror ID
+ */
+async function recordLeave(caseId, jurorId) {
+  try {
+    const ids = validateIds(caseId, jurorId);
+    const pool = await poolPromise;
+
+    await pool
+      .request()
+      .input("caseId", sql.Int, ids.caseId)
+      .input("jurorId", sql.Int, ids.jurorId).query(`
+        UPDATE dbo.JurorAttendanceIntervals
+        SET LastSeenAt = GETUTCDATE(), EndedAt = GETUTCDATE()
+        WHERE CaseId = @caseId AND JurorId = @jurorId AND EndedAt IS NULL
+      `);
+  } catch (error) {
+    console.error("❌ [JurorAttendance.recordLeave] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Close every open interval for a case (called when the trial ends)
+ *
+ * @param {number} caseId - Case ID
+ */
+async function closeOpenIntervals(caseId) {
+  try {
+    const ids = validateIds(caseId);
+    const pool = await poolPromise;
+
+    await pool.request().input("caseId", sql.Int, ids.caseId).query(`
+        UPDATE dbo.JurorAttendanceIntervals
+        SET EndedAt = CASE
+          WHEN LastSeenAt < DATEADD(SECOND, -${HEARTBEAT_GRACE_SECONDS}, GETUTCDATE()) THEN LastSeenAt
+          ELSE GETUTCDATE()
+        END
+        WHERE CaseId = @caseId AND EndedAt IS NULL
+      `);
+  } catch (error) {
+    console.error("❌ [JurorAttendance.closeOpenIntervals] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// SUMMARIES
+// ============================================
+
+/**
+ * Attendance summary for every approved juror on a case
+ *
+ * @param {number} caseId - Case ID
+ * @returns {Promise<Object>} { trial, thresholds, jurors[] }
+ */
+async function getCaseAttendance(caseId) {
+  try {
+    const ids = validateIds(caseId);
+    const pool = await poolPromise;
+
+    const [trialWindow, jurorsResult, intervalsResult] = await Promise.all([
+      getTrialWindow(pool, ids.caseId),
+      pool.request().input("caseId", sql.Int, ids.caseId).query(`
+          SELECT j.JurorId, j.Name
+          FROM dbo.JurorApplications ja
+          JOIN dbo.Jurors j ON ja.JurorId = j.JurorId
+          WHERE ja.CaseId = @caseId AND ja.Status = 'approved'
+          ORDER BY j.Name
+        `),
+      pool.request().input("caseId", sql.Int, ids.caseId).query(`
+          SELECT JurorId, IntervalType, StartedAt, LastSeenAt, EndedAt
+          FROM dbo.JurorAttendanceIntervals
+          WHERE CaseId = @caseId
+          ORDER BY StartedAt ASC
+        `),
+    ]);
+
+    const nowMs = Date.now();
+
+    const jurors = jurorsResult.recordset.map((juror) =>
+      summarize(
+        juror,
+        intervalsResult.recordset.filter((i) => i.JurorId === juror.JurorId),
+        trialWindow,
+        nowMs
+      )
+    );
+
+    return {
+      trial: formatTrial(trialWindow),
+      thresholds: ATTENDANCE_THRESHOLDS,
+      jurors,
+    };
+  } catch (error) {
+    console.error("❌ [JurorAttendance.getCaseAttendance] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Attendance summary for one juror on a case
+ *
+ * @param {number} caseId - Case ID
+ * @param {number} jurorId - Juror ID
+ * @returns {Promise<Object>} { trial, thresholds, attendance }
+ */
+async function getJurorAttendance(caseId, jurorId) {
+  try {
+    const ids = validateIds(caseId, jurorId);
+    const pool = await poolPromise;
+
+    const [trialWindow, intervalsResult] = await Promise.all([
+      getTrialWindow(pool, ids.caseId),
+      pool
+        .request()
+        .input("caseId", sql.Int, ids.caseId)
+        .input("jurorId", sql.Int, ids.jurorId).query(`
+          SELECT JurorId, IntervalType, StartedAt, LastSeenAt, EndedAt
+          FROM dbo.JurorAttendanceIntervals
+          WHERE CaseId = @caseId AND JurorId = @jurorId
+          ORDER BY StartedAt ASC
+        `),
+    ]);
+
+    return {
+      trial: formatTrial(trialWindow),
+      thresholds: ATTENDANCE_THRESHOLDS,
+      attendance: summarize(
+        { JurorId: ids.jurorId },
+        intervalsResult.recordset,
+        trialWindow,
+        Date.now()
+      ),
+    };
+  } catch (error) {
+    console.error("❌ [JurorAttendance.getJurorAttendance] Error:", error.message);
+    throw error;
+  }
+}
+
+module.exports = {
+  // Constants
+  INTERVAL_TYPES,
+  ATTENDANCE_EVENTS,
+  ATTENDANCE_THRESHOLDS,
+  HEARTBEAT_GRACE_SECONDS,
+
+  // Tracking
+  recordHeartbeat,
+  recordLeave,
+  closeOpenIntervals,
+
+  // Summaries
+  getCaseAttendance,
+  getJurorAttendance,
+};
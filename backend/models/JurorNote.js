@@ -0,0 +1,165 @@
+// =============================================
+// JurorNote.js - Private Juror Notepad
+// One running note per juror per case, kept server-side so it survives
+// reconnects. Notes are only ever returned to the juror who wrote them and
+// are deleted when the case results are published.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MAX_NOTE_LENGTH = 20000;
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureJurorNotesTable() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.JurorNotes', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.JurorNotes (
+          CaseId INT NOT NULL,
+          JurorId INT NOT NULL,
+          Content NVARCHAR(MAX) NOT NULL,
+          UpdatedAt DATETIME2 NOT NULL CONSTRAINT DF_JurorNotes_UpdatedAt DEFAULT GETUTCDATE(),
+          CONSTRAINT PK_JurorNotes PRIMARY KEY (CaseId, JurorId)
+        );
+      END
+    `);
+  } catch (err) {
+    console.warn("⚠️ [JurorNote] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureJurorNotesTable();
+
+// ============================================
+// NOTES
+// ============================================
+
+/**
+ * Get a juror's note for a case
+ * @returns {Promise<Object>} { content, updatedAt } (empty when nothing saved)
+ */
+async function getNote(caseId, jurorId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId, 10))
+      .input("jurorId", sql.Int, parseInt(jurorId, 10))
+      .query(`
+        SELECT Content, UpdatedAt
+        FROM dbo.JurorNotes
+        WHERE CaseId = @caseId AND JurorId = @jurorId
+      `);
+
+    const row = result.recordset[0];
+    return {
+      content: row ? row.Content : "",
+      updatedAt: row ? row.UpdatedAt : null,
+    };
+  } catch (error) {
+    console.error("❌ [JurorNote.getNote] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Save (replace) a juror's note. Refused once the results are published,
+ * since the notes have been purged by then.
+ *
+ * @returns {Promise<Object>} { content, updatedAt }
+ */
+async function saveNote(caseId, jurorId, content) {
+  try {
+    if (typeof content !== "string") {
+      throw new Error("Juror note validation failed: Note content is required");
+    }
+    if (content.length > MAX_NOTE_LENGTH) {
+      throw new Error(
+        `Juror note validation failed: Notes must be ${MAX_NOTE_LENGTH} characters or less`
+      );
+    }
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId, 10))
+      .input("jurorId", sql.Int, parseInt(jurorId, 10))
+      .input("content", sql.NVarChar(sql.MAX), content)
+      .query(`
+        IF EXISTS (
+          SELECT 1 FROM dbo.Cases
+          WHERE CaseId = @caseId AND VerdictStatus = 'published'
+        )
+        BEGIN
+          SELECT CAST(NULL AS DATETIME2) AS UpdatedAt;
+          RETURN;
+        END
+
+        MERGE dbo.JurorNotes AS target
+        USING (SELECT @caseId AS CaseId, @jurorId AS JurorId) AS source
+        ON target.CaseId = source.CaseId AND target.JurorId = source.JurorId
+        WHEN MATCHED THEN
+          UPDATE SET Content = @content, UpdatedAt = GETUTCDATE()
+        WHEN NOT MATCHED THEN
+          INSERT (CaseId, JurorId, Content) VALUES (@caseId, @jurorId, @content);
+
+        SELECT UpdatedAt FROM dbo.JurorNotes
+        WHERE CaseId = @caseId AND JurorId = @jurorId;
+      `);
+
+    const updatedAt = result.recordset[0]?.UpdatedAt;
+    if (!updatedAt) {
+      throw new Error(
+        "Juror note validation failed: Notes are closed because the results have been published"
+      );
+    }
+
+    return { content, updatedAt };
+  } catch (error) {
+    console.error("❌ [JurorNote.saveNote] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Delete every juror's notes for a case (called when results are published)
+ * @returns {Promise<number>} Number of notes deleted
+ */
+async function purgeCaseNotes(caseId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId, 10))
+      .query(`DELETE FROM dbo.JurorNotes WHERE CaseId = @caseId`);
+
+    return result.rowsAffected[0] || 0;
+  } catch (error) {
+    console.error("❌ [JurorNote.purgeCaseNotes] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  MAX_NOTE_LENGTH,
+
+  // Notes
+  getNote,
+  saveNote,
+  purgeCaseNotes,
+};
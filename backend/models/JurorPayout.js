@@ -0,0 +1,537 @@
+// =============================================
+// JurorPayout.js - Juror Payout Ledger
+// One payout per juror, case and reason, created when the verdict is submitted.
+// Admins approve payouts, export them per payout method and mark them paid.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+const Payment = require("./Payment");
+const Verdict = require("./Verdict");
+// Loaded for its migration; payout rows report debrief completion
+require("./DebriefSurvey");
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PAYOUT_STATUSES = {
+  PENDING: "pending", // Awaiting admin approval
+  HELD: "held", // Attendance below thresholds - needs review
+  APPROVED: "approved", // Ready to be sent
+  PAID: "paid",
+  REJECTED: "rejected",
+};
+
+// Payout methods jurors choose at signup
+const PAYOUT_METHODS = ["venmo", "paypal", "cashapp", "zelle", "personalcheck"];
+
+// Why the juror is being paid; unique per juror and case
+const PAYOUT_REASONS = {
+  VERDICT: "verdict",
+};
+
+// SQL Server unique constraint / unique index violations
+const DUPLICATE_KEY_ERRORS = [2627, 2601];
+
+const REVIEWABLE_STATUSES = [PAYOUT_STATUSES.PENDING, PAYOUT_STATUSES.HELD];
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureJurorPayoutsTable() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.JurorPayouts', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.JurorPayouts (
+          PayoutId INT IDENTITY(1,1) PRIMARY KEY,
+          CaseId INT NOT NULL,
+          JurorId INT NOT NULL,
+          Reason NVARCHAR(30) NOT NULL CONSTRAINT DF_JurorPayouts_Reason DEFAULT 'verdict',
+          Amount DECIMAL(10,2) NOT NULL,
+          PayoutMethod NVARCHAR(30) NULL,
+          Status NVARCHAR(20) NOT NULL CONSTRAINT DF_JurorPayouts_Status DEFAULT 'pending',
+          HoldReason NVARCHAR(1000) NULL,
+          ReviewedBy INT NULL,
+          ReviewedAt DATETIME2 NULL,
+          ReviewNotes NVARCHAR(1000) NULL,
+          ExportedAt DATETIME2 NULL,
+          PaidAt DATETIME2 NULL,
+          PaymentId INT NULL,
+          CreatedAt DATETIME2 NOT NULL CONSTRAINT DF_JurorPayouts_CreatedAt DEFAULT GETUTCDATE(),
+          UpdatedAt DATETIME2 NOT NULL CONSTRAINT DF_JurorPayouts_UpdatedAt DEFAULT GETUTCDATE(),
+          CONSTRAINT UQ_JurorPayouts_Case_Juror_Reason UNIQUE (CaseId, JurorId, Reason)
+        );
+        CREATE INDEX IX_JurorPayouts_Status ON dbo.JurorPayouts (Status, PayoutMethod);
+      END
+
+      IF COL_LENGTH('dbo.JurorPayouts', 'Reason') IS NULL
+        ALTER TABLE dbo.JurorPayouts
+          ADD Reason NVARCHAR(30) NOT NULL CONSTRAINT DF_JurorPayouts_Reason DEFAULT 'verdict';
+    `);
+
+    // Separate batch so the Reason column exists when the constraint is compiled
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.UQ_JurorPayouts_Case_Juror', N'UQ') IS NOT NULL
+        ALTER TABLE dbo.JurorPayouts DROP CONSTRAINT UQ_JurorPayouts_Case_Juror;
+      IF OBJECT_ID(N'dbo.UQ_JurorPayouts_Case_Juror_Reason', N'UQ') IS NULL
+        ALTER TABLE dbo.JurorPayouts
+          ADD CONSTRAINT UQ_JurorPayouts_Case_Juror_Reason UNIQUE (CaseId, JurorId, Reason);
+    `);
+  } catch (err) {
+    console.warn("⚠️ [JurorPayout] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureJurorPayoutsTable();
+
+// ============================================
+// HELPERS
+// ============================================
+
+function validateId(value, label) {
+  const id = parseInt(value, 10);
+  if (isNaN(id) || id <= 0) {
+    throw new Error(`Payout validation failed: Valid ${label} is required`);
+  }
+  return id;
+}
+
+function normalizePayoutMethod(method) {
+  const value = typeof method === "string" ? method.trim().toLowerCase() : "";
+  return PAYOUT_METHODS.includes(value) ? value : null;
+}
+
+const PAYOUT_SELECT = `
+  SELECT
+    jp.PayoutId,
+    jp.CaseId,
+    jp.JurorId,
+    jp.Reason,
+    jp.Amount,
+    jp.PayoutMethod,
+    jp.Status,
+    jp.HoldReason,
+    jp.ReviewedBy,
+    jp.ReviewedAt,
+    jp.ReviewNotes,
+    jp.ExportedAt,
+    jp.PaidAt,
+    jp.PaymentId,
+    jp.CreatedAt,
+    jp.UpdatedAt,
+    c.CaseTitle,
+    c.ScheduledDate,
+    j.Name AS JurorName,
+    j.Email AS JurorEmail,
+    j.PhoneNumber AS JurorPhone,
+    j.Address1,
+    j.Address2,
+    j.City,
+    j.State,
+    j.ZipCode,
+    CASE WHEN c.VerdictStatus = 'published' THEN 1 ELSE 0 END AS ResultsPublished,
+    CASE WHEN ds.SentAt IS NULL THEN 0 ELSE 1 END AS DebriefRequired,
+    CASE WHEN dr.ResponseId IS NULL THEN 0 ELSE 1 END AS DebriefCompleted
+  FROM dbo.JurorPayouts jp
+  JOIN dbo.Cases c ON jp.CaseId = c.CaseId
+  JOIN dbo.Jurors j ON jp.JurorId = j.JurorId
+  LEFT JOIN dbo.DebriefSurveys ds ON ds.CaseId = jp.CaseId
+  LEFT JOIN dbo.DebriefResponses dr ON dr.CaseId = jp.CaseId AND dr.JurorId = jp.JurorId
+`;
+
+/**
+ * Per-juror share of the attorney's case payment
+ */
+async function getPerJurorAmount(pool, caseId) {
+  const result = await pool.request().input("caseId", sql.Int, caseId).query(`
+      SELECT
+        c.PaymentAmount,
+        (SELECT COUNT(*) FROM dbo.JurorApplications
+          WHERE CaseId = @caseId AND Status = 'approved') AS ApprovedJurors
+      FROM dbo.Cases c
+      WHERE c.CaseId = @caseId
+    `);
+
+  const row = result.recordset[0];
+  if (!row || !row.ApprovedJurors) return 0;
+
+  const casePayments = await Payment.getPaymentsByCase(caseId);
+  const attorneyPayment = casePayments.find(
+    (p) =>
+      p.PaymentType === Payment.PAYMENT_TYPES.CASE_FILING &&
+      p.Status === Payment.PAYMENT_STATUSES.COMPLETED
+  );
+
+  const total = parseFloat(attorneyPayment ? attorneyPayment.Amount : row.PaymentAmount);
+  if (isNaN(total) || total <= 0) return 0;
+
+  return Math.floor((total / row.ApprovedJurors) * 100) / 100;
+}
+
+// ============================================
+// LEDGER OPERATIONS
+// ============================================
+
+/**
+ * Create a juror's payout for a case. Attendance decides whether it waits
+ * for normal approval or is held for review. The unique constraint on
+ * (CaseId, JurorId, Reason) settles concurrent submits: the loser gets the
+ * existing payout back instead of a second one.
+ *
+ * @param {number} caseId - Case ID
+ * @param {number} jurorId - Juror ID
+ * @param {string} [reason] - One of PAYOUT_REASONS
+ * @returns {Promise<{payout: Object|null, created: boolean}>} The payout (null
+ *   if there is no case payment to split) and whether this call created it
+ */
+async function createPayout(caseId, jurorId, reason = PAYOUT_REASONS.VERDICT) {
+  try {
+    const cId = validateId(caseId, "case ID");
+    const jId = validateId(jurorId, "juror ID");
+    if (!Object.values(PAYOUT_REASONS).includes(reason)) {
+      throw new Error("Payout validation failed: Invalid payout reason");
+    }
+    const pool = await poolPromise;
+
+    const amount = await getPerJurorAmount(pool, cId);
+    if (amount <= 0) {
+      console.warn(`[JurorPayout] No case payment found for case ${cId} - payout not created`);
+      return { payout: null, created: false };
+    }
+
+    const jurorResult = await pool
+      .request()
+      .input("jurorId", sql.Int, jId)
+      .query("SELECT PaymentMethod FROM dbo.Jurors WHERE JurorId = @jurorId");
+
+    const eligibility = await Payment.getJurorPayoutEligibility(cId, jId);
+    const status = eligibility.eligible ? PAYOUT_STATUSES.PENDING : PAYOUT_STATUSES.HELD;
+
+    let payoutId;
+    try {
+      const result = await pool
+        .request()
+        .input("caseId", sql.Int, cId)
+        .input("jurorId", sql.Int, jId)
+        .input("reason", sql.NVarChar, reason)
+        .input("amount", sql.Decimal(10, 2), amount)
+        .input(
+          "payoutMethod",
+          sql.NVarChar,
+          normalizePayoutMethod(jurorResult.recordset[0]?.PaymentMethod)
+        )
+        .input("status", sql.NVarChar, status)
+        .input("holdReason", sql.NVarChar, eligibility.reasons.join("; ") || null).query(`
+          INSERT INTO dbo.JurorPayouts (CaseId, JurorId, Reason, Amount, PayoutMethod, Status, HoldReason)
+          OUTPUT INSERTED.PayoutId
+          VALUES (@caseId, @jurorId, @reason, @amount, @payoutMethod, @status, @holdReason);
+        `);
+      payoutId = result.recordset[0].PayoutId;
+    } catch (insertError) {
+      if (!DUPLICATE_KEY_ERRORS.includes(insertError.number)) throw insertError;
+
+      const existing = await pool
+        .request()
+        .input("caseId", sql.Int, cId)
+        .input("jurorId", sql.Int, jId)
+        .input("reason", sql.NVarChar, reason)
+        .query(`
+          SELECT PayoutId FROM dbo.JurorPayouts
+          WHERE CaseId = @caseId AND JurorId = @jurorId AND Reason = @reason
+        `);
+      return { payout: await findById(existing.recordset[0].PayoutId), created: false };
+    }
+
+    return { payout: await findById(payoutId), created: true };
+  } catch (error) {
+    console.error("❌ [JurorPayout.createPayout] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Create payouts for a submitted verdict. In panel mode the presiding juror
+ * answers for the whole jury, so every approved juror gets a payout.
+ *
+ * @param {number} caseId - Case ID
+ * @param {number} jurorId - Juror who submitted
+ * @returns {Promise<Array>} Payouts created
+ */
+async function createPayoutsForVerdict(caseId, jurorId) {
+  try {
+    const cId = validateId(caseId, "case ID");
+    const settings = await Verdict.getVerdictSettings(cId);
+
+    let jurorIds = [validateId(jurorId, "juror ID")];
+    if (settings.verdictMode === Verdict.VERDICT_MODES.PANEL) {
+      const pool = await poolPromise;
+      const approved = await pool
+        .request()
+        .input("caseId", sql.Int, cId)
+        .query("SELECT JurorId FROM dbo.JurorApplications WHERE CaseId = @caseId AND Status = 'approved'");
+      jurorIds = approved.recordset.map((r) => r.JurorId);
+    }
+
+    const created = [];
+    for (const id of jurorIds) {
+      const { payout, created: isNew } = await createPayout(cId, id, PAYOUT_REASONS.VERDICT);
+      if (isNew) created.push(payout);
+    }
+    return created;
+  } catch (error) {
+    console.error("❌ [JurorPayout.createPayoutsForVerdict] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Get payout by ID
+ */
+async function findById(payoutId) {
+  try {
+    const id = validateId(payoutId, "payout ID");
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("payoutId", sql.Int, id)
+      .query(`${PAYOUT_SELECT} WHERE jp.PayoutId = @payoutId`);
+    return result.recordset[0] || null;
+  } catch (error) {
+    console.error("❌ [JurorPayout.findById] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * List payouts for the admin queue
+ *
+ * @param {Object} filters - { status, method }
+ */
+async function listPayouts({ status, method } = {}) {
+  try {
+    const pool = await poolPromise;
+    const request = pool.request();
+    const conditions = [];
+
+    if (status) {
+      if (!Object.values(PAYOUT_STATUSES).includes(status)) {
+        throw new Error(`Payout validation failed: Invalid status "${status}"`);
+      }
+      conditions.push("jp.Status = @status");
+      request.input("status", sql.NVarChar, status);
+    }
+    if (method) {
+      if (!PAYOUT_METHODS.includes(method)) {
+        throw new Error(`Payout validation failed: Invalid payout method "${method}"`);
+      }
+      conditions.push("jp.PayoutMethod = @method");
+      request.input("method", sql.NVarChar, method);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const result = await request.query(`${PAYOUT_SELECT} ${where} ORDER BY jp.CreatedAt DESC`);
+    return result.recordset;
+  } catch (error) {
+    console.error("❌ [JurorPayout.listPayouts] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Payout history for a juror
+ */
+async function getPayoutsByJuror(jurorId) {
+  try {
+    const id = validateId(jurorId, "juror ID");
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("jurorId", sql.Int, id)
+      .query(`${PAYOUT_SELECT} WHERE jp.JurorId = @jurorId ORDER BY jp.CreatedAt DESC`);
+    return result.recordset;
+  } catch (error) {
+    console.error("❌ [JurorPayout.getPayoutsByJuror] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Approve or reject a pending/held payout. A payout can only be approved once
+ * results are published and the juror has completed the post-trial debrief.
+ *
+ * @param {number} payoutId - Payout ID
+ * @param {string} status - approved | rejected
+ * @param {number} adminId - Reviewing admin
+ * @param {string} notes - Optional review notes
+ * @returns {Promise<Object|null>} Updated payout, or null if it was not reviewable
+ */
+async function reviewPayout(payoutId, status, adminId, notes) {
+  try {
+    const id = validateId(payoutId, "payout ID");
+    if (![PAYOUT_STATUSES.APPROVED, PAYOUT_STATUSES.REJECTED].includes(status)) {
+      throw new Error(`Payout validation failed: Invalid review status "${status}"`);
+    }
+
+    // Approval is gated on the debrief, which is only sent once results are
+    // published. Checked in the UPDATE itself so it cannot race the publish.
+    const debriefGate =
+      status === PAYOUT_STATUSES.APPROVED
+        ? `AND EXISTS (
+             SELECT 1 FROM dbo.Cases c
+             WHERE c.CaseId = jp.CaseId AND c.VerdictStatus = 'published'
+           )
+           AND EXISTS (
+             SELECT 1 FROM dbo.DebriefResponses dr
+             WHERE dr.CaseId = jp.CaseId AND dr.JurorId = jp.JurorId
+           )`
+        : "";
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("payoutId", sql.Int, id)
+      .input("status", sql.NVarChar, status)
+      .input("adminId", sql.Int, parseInt(adminId, 10) || null)
+      .input("notes", sql.NVarChar, notes?.trim() || null).query(`
+        UPDATE jp
+        SET Status = @status, ReviewedBy = @adminId, ReviewedAt = GETUTCDATE(),
+            ReviewNotes = @notes, UpdatedAt = GETUTCDATE()
+        FROM dbo.JurorPayouts jp
+        WHERE jp.PayoutId = @payoutId AND jp.Status IN ('${REVIEWABLE_STATUSES.join("','")}')
+          ${debriefGate}
+      `);
+
+    if (result.rowsAffected[0] === 0 && status === PAYOUT_STATUSES.APPROVED) {
+      const payout = await findById(id);
+      if (payout && REVIEWABLE_STATUSES.includes(payout.Status)) {
+        throw new Error(
+          payout.ResultsPublished
+            ? "Payout validation failed: The juror has not completed the debrief survey yet"
+            : "Payout validation failed: Results for this case have not been published yet"
+        );
+      }
+    }
+
+    return result.rowsAffected[0] > 0 ? findById(id) : null;
+  } catch (error) {
+    console.error("❌ [JurorPayout.reviewPayout] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Approved payouts for one payout method, stamped as exported
+ *
+ * @param {string} method - Payout method
+ * @returns {Promise<Array>} Payouts in the batch
+ */
+async function exportApprovedBatch(method) {
+  try {
+    if (!PAYOUT_METHODS.includes(method)) {
+      throw new Error(`Payout validation failed: Invalid payout method "${method}"`);
+    }
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("method", sql.NVarChar, method)
+      .input("approved", sql.NVarChar, PAYOUT_STATUSES.APPROVED)
+      .query(`${PAYOUT_SELECT} WHERE jp.Status = @approved AND jp.PayoutMethod = @method ORDER BY jp.CaseId, j.Name`);
+
+    if (result.recordset.length > 0) {
+      const ids = result.recordset.map((p) => parseInt(p.PayoutId, 10));
+      await pool.request().query(`
+          UPDATE dbo.JurorPayouts
+          SET ExportedAt = GETUTCDATE(), UpdatedAt = GETUTCDATE()
+          WHERE PayoutId IN (${ids.join(",")})
+        `);
+    }
+
+    return result.recordset;
+  } catch (error) {
+    console.error("❌ [JurorPayout.exportApprovedBatch] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Mark an approved payout as sent, linking the juror payment record
+ *
+ * @param {number} payoutId - Payout ID
+ * @param {number} paymentId - Payment record created for the payout
+ * @returns {Promise<boolean>} False if the payout was not approved
+ */
+async function markPaid(payoutId, paymentId) {
+  try {
+    const id = validateId(payoutId, "payout ID");
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("payoutId", sql.Int, id)
+      .input("paymentId", sql.Int, parseInt(paymentId, 10) || null)
+      .input("approved", sql.NVarChar, PAYOUT_STATUSES.APPROVED)
+      .input("paid", sql.NVarChar, PAYOUT_STATUSES.PAID).query(`
+        UPDATE dbo.JurorPayouts
+        SET Status = @paid, PaidAt = GETUTCDATE(), PaymentId = @paymentId, UpdatedAt = GETUTCDATE()
+        WHERE PayoutId = @payoutId AND Status = @approved
+      `);
+    return result.rowsAffected[0] > 0;
+  } catch (error) {
+    console.error("❌ [JurorPayout.markPaid] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Queue counts by status for the admin dashboard
+ */
+async function getQueueSummary() {
+  try {
+    const pool = await poolPromise;
+    const result = await pool.request().query(`
+      SELECT Status, COUNT(*) AS Count, SUM(Amount) AS TotalAmount
+      FROM dbo.JurorPayouts
+      GROUP BY Status
+    `);
+
+    const summary = {};
+    Object.values(PAYOUT_STATUSES).forEach((status) => {
+      summary[status] = { count: 0, totalAmount: 0 };
+    });
+    result.recordset.forEach((row) => {
+      summary[row.Status] = {
+        count: row.Count,
+        totalAmount: parseFloat(row.TotalAmount) || 0,
+      };
+    });
+    return summary;
+  } catch (error) {
+    console.error("❌ [JurorPayout.getQueueSummary] Error:", error.message);
+    throw error;
+  }
+}
+
+module.exports = {
+  // Constants
+  PAYOUT_STATUSES,
+  PAYOUT_METHODS,
+  PAYOUT_REASONS,
+
+  // Ledger operations
+  createPayout,
+  createPayoutsForVerdict,
+  findById,
+  listPayouts,
+  getPayoutsByJuror,
+  reviewPayout,
+  exportApprovedBatch,
+  markPaid,
+  getQueueSummary,
+
+  // Helpers
+  getPerJurorAmount,
+};
@@ -0,0 +1,271 @@
+// =============================================
+// JurorQuestion.js - Juror Written Questions
+// Questions jurors submit for counsel during the presentation. An admin
+// approves (optionally editing) or rejects each one; approved questions are
+// forwarded to the attorney and included in the results report.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const QUESTION_STATUSES = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+};
+
+const MAX_QUESTION_LENGTH = 1000;
+const MAX_REJECT_REASON_LENGTH = 500;
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureJurorQuestionsTable() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.JurorQuestions', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.JurorQuestions (
+          QuestionId INT IDENTITY(1,1) PRIMARY KEY,
+          CaseId INT NOT NULL,
+          JurorId INT NOT NULL,
+          QuestionText NVARCHAR(1000) NOT NULL,
+          ForwardedText NVARCHAR(1000) NULL,
+          Status NVARCHAR(20) NOT NULL CONSTRAINT DF_JurorQuestions_Status DEFAULT 'pending',
+          RejectReason NVARCHAR(500) NULL,
+          ModeratedBy INT NULL,
+          ModeratedAt DATETIME2 NULL,
+          CreatedAt DATETIME2 NOT NULL CONSTRAINT DF_JurorQuestions_CreatedAt DEFAULT GETUTCDATE()
+        );
+        CREATE INDEX IX_JurorQuestions_CaseId ON dbo.JurorQuestions (CaseId, Status);
+      END
+    `);
+  } catch (err) {
+    console.warn("⚠️ [JurorQuestion] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureJurorQuestionsTable();
+
+// ============================================
+// HELPERS
+// ============================================
+
+function validateText(text, label, maxLength) {
+  const trimmed = typeof text === "string" ? text.trim() : "";
+  if (!trimmed) {
+    throw new Error(`Juror question validation failed: ${label} is required`);
+  }
+  if (trimmed.length > maxLength) {
+    throw new Error(
+      `Juror question validation failed: ${label} must be ${maxLength} characters or less`
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * Serialize a question row. Juror identity is only included for admins;
+ * attorneys see the question as forwarded, without who asked it.
+ */
+function formatQuestion(row, { includeJuror = false } = {}) {
+  const question = {
+    questionId: row.QuestionId,
+    caseId: row.CaseId,
+    text: row.ForwardedText || row.QuestionText,
+    status: row.Status,
+    createdAt: row.CreatedAt,
+    moderatedAt: row.ModeratedAt,
+  };
+
+  if (includeJuror) {
+    question.jurorId = row.JurorId;
+    question.jurorName = row.JurorName || null;
+    question.originalText = row.QuestionText;
+    question.edited = !!row.ForwardedText && row.ForwardedText !== row.QuestionText;
+    question.rejectReason = row.RejectReason;
+  }
+
+  return question;
+}
+
+const QUESTION_SELECT = `
+  SELECT
+    jq.QuestionId,
+    jq.CaseId,
+    jq.JurorId,
+    jq.QuestionText,
+    jq.ForwardedText,
+    jq.Status,
+    jq.RejectReason,
+    jq.ModeratedBy,
+    jq.ModeratedAt,
+    jq.CreatedAt,
+    j.Name AS JurorName
+  FROM dbo.JurorQuestions jq
+  LEFT JOIN dbo.Jurors j ON jq.JurorId = j.JurorId
+`;
+
+// ============================================
+// QUESTIONS
+// ============================================
+
+/**
+ * Submit a question from a juror
+ *
+ * @param {number} caseId - Case ID
+ * @param {number} jurorId - Juror ID
+ * @param {string} text - Question text
+ * @returns {Promise<Object>} Created question row
+ */
+async function submitQuestion(caseId, jurorId, text) {
+  try {
+    const questionText = validateText(text, "Question", MAX_QUESTION_LENGTH);
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("jurorId", sql.Int, jurorId)
+      .input("questionText", sql.NVarChar(MAX_QUESTION_LENGTH), questionText)
+      .query(`
+        INSERT INTO dbo.JurorQuestions (CaseId, JurorId, QuestionText)
+        OUTPUT INSERTED.QuestionId
+        VALUES (@caseId, @jurorId, @questionText)
+      `);
+
+    return await findById(result.recordset[0].QuestionId);
+  } catch (error) {
+    console.error("❌ [JurorQuestion.submitQuestion] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Get a question by ID
+ */
+async function findById(questionId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("questionId", sql.Int, questionId)
+      .query(`${QUESTION_SELECT} WHERE jq.QuestionId = @questionId`);
+
+    return result.recordset[0] || null;
+  } catch (error) {
+    console.error("❌ [JurorQuestion.findById] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * List questions for a case, oldest first
+ *
+ * @param {number} caseId - Case ID
+ * @param {Object} filters - { status, jurorId }
+ * @returns {Promise<Array>} Question rows
+ */
+async function getCaseQuestions(caseId, { status, jurorId } = {}) {
+  try {
+    const pool = await poolPromise;
+    const request = pool.request().input("caseId", sql.Int, caseId);
+    const conditions = ["jq.CaseId = @caseId"];
+
+    if (status) {
+      if (!Object.values(QUESTION_STATUSES).includes(status)) {
+        throw new Error(`Juror question validation failed: Invalid status "${status}"`);
+      }
+      conditions.push("jq.Status = @status");
+      request.input("status", sql.NVarChar, status);
+    }
+    if (jurorId) {
+      conditions.push("jq.JurorId = @jurorId");
+      request.input("jurorId", sql.Int, jurorId);
+    }
+
+    const result = await request.query(
+      `${QUESTION_SELECT} WHERE ${conditions.join(" AND ")} ORDER BY jq.CreatedAt ASC`
+    );
+    return result.recordset;
+  } catch (error) {
+    console.error("❌ [JurorQuestion.getCaseQuestions] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Approve or reject a pending question
+ *
+ * @param {number} caseId - Case ID (guards against moderating another case's question)
+ * @param {number} questionId - Question ID
+ * @param {Object} decision - { status, text, reason, adminId }
+ * @returns {Promise<Object|null>} Updated row, or null if it was not pending
+ */
+async function moderateQuestion(caseId, questionId, { status, text, reason, adminId }) {
+  try {
+    if (status !== QUESTION_STATUSES.APPROVED && status !== QUESTION_STATUSES.REJECTED) {
+      throw new Error("Juror question validation failed: Decision must be approve or reject");
+    }
+
+    const forwardedText =
+      status === QUESTION_STATUSES.APPROVED && text !== undefined && text !== null
+        ? validateText(text, "Question", MAX_QUESTION_LENGTH)
+        : null;
+    const rejectReason =
+      status === QUESTION_STATUSES.REJECTED && reason && String(reason).trim()
+        ? validateText(reason, "Reason", MAX_REJECT_REASON_LENGTH)
+        : null;
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("questionId", sql.Int, questionId)
+      .input("status", sql.NVarChar, status)
+      .input("forwardedText", sql.NVarChar(MAX_QUESTION_LENGTH), forwardedText)
+      .input("rejectReason", sql.NVarChar(MAX_REJECT_REASON_LENGTH), rejectReason)
+      .input("adminId", sql.Int, adminId)
+      .input("pending", sql.NVarChar, QUESTION_STATUSES.PENDING)
+      .query(`
+        UPDATE dbo.JurorQuestions
+        SET Status = @status,
+            ForwardedText = @forwardedText,
+            RejectReason = @rejectReason,
+            ModeratedBy = @adminId,
+            ModeratedAt = GETUTCDATE()
+        WHERE QuestionId = @questionId
+          AND CaseId = @caseId
+          AND Status = @pending
+      `);
+
+    if (result.rowsAffected[0] === 0) return null;
+    return await findById(questionId);
+  } catch (error) {
+    console.error("❌ [JurorQuestion.moderateQuestion] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  QUESTION_STATUSES,
+  MAX_QUESTION_LENGTH,
+
+  // Questions
+  submitQuestion,
+  findById,
+  getCaseQuestions,
+  moderateQuestion,
+  formatQuestion,
+};
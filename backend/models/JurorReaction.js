@@ -0,0 +1,252 @@
+// =============================================
+// JurorReaction.js - Live Juror Reaction Dial
+// Per-second negative/positive readings jurors stream during the trial,
+// aggregated afterwards against the trial recording timeline.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+const { CROSSTAB_ATTRIBUTES, MIN_CROSSTAB_CELL_SIZE } = require("./Verdict");
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const REACTION_RANGE = { MIN: -100, MAX: 100 };
+
+// Chart resolution: readings are averaged into buckets of this many seconds
+const DEFAULT_BUCKET_SECONDS = 5;
+const MAX_BUCKET_SECONDS = 300;
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureJurorReactionsTable() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.JurorReactions', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.JurorReactions (
+          ReactionId BIGINT IDENTITY(1,1) PRIMARY KEY,
+          CaseId INT NOT NULL,
+          JurorId INT NOT NULL,
+          Value SMALLINT NOT NULL,
+          SampledAt DATETIME2 NOT NULL
+        );
+        CREATE INDEX IX_JurorReactions_CaseId ON dbo.JurorReactions (CaseId, SampledAt);
+      END
+    `);
+  } catch (err) {
+    console.warn("⚠️ [JurorReaction] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureJurorReactionsTable();
+
+// ============================================
+// SAMPLES
+// ============================================
+
+/**
+ * Clamp a dial reading to the allowed range
+ * @returns {number|null} Whole number in REACTION_RANGE, or null if not a number
+ */
+function normalizeValue(value) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return null;
+  return Math.round(Math.min(REACTION_RANGE.MAX, Math.max(REACTION_RANGE.MIN, n)));
+}
+
+/**
+ * Store a batch of dial readings for one juror
+ *
+ * @param {number} caseId - Case ID
+ * @param {number} jurorId - Juror ID
+ * @param {Array} samples - [{ value, sampledAt }]
+ */
+async function recordSamples(caseId, jurorId, samples) {
+  try {
+    if (!samples || samples.length === 0) return;
+
+    const pool = await poolPromise;
+    const request = pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId, 10))
+      .input("jurorId", sql.Int, parseInt(jurorId, 10));
+
+    const rows = samples.map((sample, i) => {
+      request.input(`value${i}`, sql.SmallInt, sample.value);
+      request.input(`sampledAt${i}`, sql.DateTime2, sample.sampledAt);
+      return `(@caseId, @jurorId, @value${i}, @sampledAt${i})`;
+    });
+
+    await request.query(`
+      INSERT INTO dbo.JurorReactions (CaseId, JurorId, Value, SampledAt)
+      VALUES ${rows.join(", ")}
+    `);
+  } catch (error) {
+    console.error("❌ [JurorReaction.recordSamples] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// TIMELINE
+// ============================================
+
+/**
+ * The recording the reaction chart is aligned to: the latest completed
+ * recording, or the latest one still processing
+ */
+async function getTimelineRecording(caseId) {
+  const pool = await poolPromise;
+  const result = await pool.request().input("caseId", sql.Int, caseId).query(`
+      SELECT TOP 1 RecordingId, Status, StartedAt, CompletedAt, Duration
+      FROM dbo.TrialRecordings
+      WHERE CaseId = @caseId
+      ORDER BY CASE WHEN Status = 'ready' THEN 0 ELSE 1 END, StartedAt DESC
+    `);
+  return result.recordset[0] || null;
+}
+
+/**
+ * Average juror reaction over time, optionally for one demographic group.
+ * Offsets are seconds from the start of the trial recording (or from the
+ * first reading when the trial was not recorded). Groups smaller than
+ * MIN_CROSSTAB_CELL_SIZE jurors are not shown.
+ *
+ * @param {number} caseId - Case ID
+ * @param {Object} options - { attribute, value, bucketSeconds }
+ * @returns {Promise<Object>} { recording, bucketSeconds, jurorCount, points, groups, ... }
+ */
+async function getReactionTimeline(caseId, { attribute, value, bucketSeconds } = {}) {
+  try {
+    const id = parseInt(caseId, 10);
+    const bucket = parseInt(bucketSeconds, 10) || DEFAULT_BUCKET_SECONDS;
+    if (bucket < 1 || bucket > MAX_BUCKET_SECONDS) {
+      throw new Error(
+        `Reaction validation failed: bucket must be between 1 and ${MAX_BUCKET_SECONDS} seconds`
+      );
+    }
+
+    const attributeConfig = attribute ? CROSSTAB_ATTRIBUTES[attribute] : null;
+    if (attribute && !attributeConfig) {
+      throw new Error(
+        `Reaction validation failed: attribute must be one of ${Object.keys(CROSSTAB_ATTRIBUTES).join(", ")}`
+      );
+    }
+
+    const pool = await poolPromise;
+    const recording = await getTimelineRecording(id);
+
+    // Groups available for the selected attribute, among jurors who used the dial
+    let groups = [];
+    if (attributeConfig) {
+      const groupResult = await pool.request().input("caseId", sql.Int, id).query(`
+          SELECT j.${attributeConfig.column} AS GroupValue, COUNT(*) AS JurorCount
+          FROM (SELECT DISTINCT JurorId FROM dbo.JurorReactions WHERE CaseId = @caseId) r
+          JOIN dbo.Jurors j ON r.JurorId = j.JurorId
+          WHERE j.${attributeConfig.column} IS NOT NULL AND LTRIM(RTRIM(j.${attributeConfig.column})) <> ''
+          GROUP BY j.${attributeConfig.column}
+          ORDER BY COUNT(*) DESC
+        `);
+      groups = groupResult.recordset.map((row) => ({
+        value: String(row.GroupValue).trim(),
+        jurorCount: row.JurorCount < MIN_CROSSTAB_CELL_SIZE ? null : row.JurorCount,
+        suppressed: row.JurorCount < MIN_CROSSTAB_CELL_SIZE,
+      }));
+    }
+
+    const filterValue = attributeConfig && value ? String(value).trim() : null;
+    if (filterValue) {
+      const group = groups.find((g) => g.value === filterValue);
+      if (!group) {
+        throw new Error("Reaction validation failed: no jurors in that group used the reaction dial");
+      }
+      if (group.suppressed) {
+        throw new Error(
+          `Reaction validation failed: groups smaller than ${MIN_CROSSTAB_CELL_SIZE} jurors are hidden`
+        );
+      }
+    }
+
+    const request = pool
+      .request()
+      .input("caseId", sql.Int, id)
+      .input("bucket", sql.Int, bucket)
+      .input("anchor", sql.DateTime2, recording ? recording.StartedAt : null);
+    let groupFilter = "";
+    if (filterValue) {
+      request.input("groupValue", sql.NVarChar, filterValue);
+      groupFilter = `AND LTRIM(RTRIM(j.${attributeConfig.column})) = @groupValue`;
+    }
+
+    const result = await request.query(`
+      DECLARE @start DATETIME2 = ISNULL(@anchor, (SELECT MIN(SampledAt) FROM dbo.JurorReactions WHERE CaseId = @caseId));
+
+      SELECT
+        (DATEDIFF(SECOND, @start, r.SampledAt) / @bucket) * @bucket AS OffsetSeconds,
+        AVG(CAST(r.Value AS FLOAT)) AS AverageValue,
+        COUNT(DISTINCT r.JurorId) AS JurorCount
+      FROM dbo.JurorReactions r
+      JOIN dbo.Jurors j ON r.JurorId = j.JurorId
+      WHERE r.CaseId = @caseId
+        AND r.SampledAt >= @start
+        ${groupFilter}
+      GROUP BY (DATEDIFF(SECOND, @start, r.SampledAt) / @bucket) * @bucket
+      ORDER BY OffsetSeconds ASC;
+
+      SELECT COUNT(DISTINCT r.JurorId) AS JurorCount
+      FROM dbo.JurorReactions r
+      JOIN dbo.Jurors j ON r.JurorId = j.JurorId
+      WHERE r.CaseId = @caseId
+        ${groupFilter};
+    `);
+
+    return {
+      recording: recording
+        ? {
+            recordingId: recording.RecordingId,
+            status: recording.Status,
+            startedAt: recording.StartedAt,
+            durationSeconds: recording.Duration,
+          }
+        : null,
+      range: REACTION_RANGE,
+      bucketSeconds: bucket,
+      attribute: attributeConfig ? attribute : null,
+      value: filterValue,
+      attributes: Object.entries(CROSSTAB_ATTRIBUTES).map(([key, config]) => ({ key, label: config.label })),
+      groups,
+      minGroupSize: MIN_CROSSTAB_CELL_SIZE,
+      jurorCount: result.recordsets[1][0].JurorCount,
+      points: result.recordsets[0].map((row) => ({
+        offsetSeconds: row.OffsetSeconds,
+        average: Math.round(row.AverageValue * 10) / 10,
+        jurorCount: row.JurorCount,
+      })),
+    };
+  } catch (error) {
+    console.error("❌ [JurorReaction.getReactionTimeline] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  REACTION_RANGE,
+  DEFAULT_BUCKET_SECONDS,
+
+  // Samples
+  normalizeValue,
+  recordSamples,
+
+  // Timeline
+  getReactionTimeline,
+};
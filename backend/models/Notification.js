@@ -28,16 +28,25 @@ const NOTIFICATION_TYPES = {
   WAR_ROOM_READY: "war_room_ready",
   TRIAL_STARTING: "trial_starting",
   TRIAL_STARTED: "trial_started",
+  OPPOSING_COUNSEL_INVITED: "opposing_counsel_invited",
+  OPPOSING_COUNSEL_UPDATED: "opposing_counsel_updated",
 
   // Verdict events
   VERDICT_NEEDED: "verdict_needed",
   VERDICT_SUBMITTED: "verdict_submitted",
   VERDICT_PUBLISHED: "verdict_published",
+  DEBRIEF_REQUESTED: "debrief_requested",
+
+  // Firm events
+  FIRM_INVITED: "firm_invited",
+  FIRM_MEMBERSHIP_UPDATED: "firm_membership_updated",
 
   // System events
   CASE_COMPLETED: "case_completed",
   PAYMENT_PROCESSED: "payment_processed",
   PAYMENT_RECEIVED: "payment_received",
+  PAYMENT_ON_HOLD: "payment_on_hold",
+  PAYMENT_REJECTED: "payment_rejected",
   ACCOUNT_VERIFIED: "account_verified",
 };
 
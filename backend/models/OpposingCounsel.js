@@ -0,0 +1,434 @@
+// =============================================
+// OpposingCounsel.js - Opposing Counsel on a Mock Trial
+// The case owner can invite a second verified attorney to argue the other
+// side of the same mock trial. Each side keeps its own war room documents
+// and witnesses, both attorneys join the trial under their side's role,
+// and the opposing attorney only sees the results once both have agreed
+// to share them.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+const Case = require("./Case");
+const Attorney = require("./Attorney");
+const Firm = require("./Firm");
+
+const STATES = Case.ATTORNEY_CASE_STATES;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const SIDES = {
+  PLAINTIFF: "plaintiff",
+  DEFENSE: "defense",
+};
+
+const INVITE_STATUSES = {
+  PENDING: "pending",
+  ACCEPTED: "accepted",
+  DECLINED: "declined",
+  REVOKED: "revoked",
+};
+
+const COUNSEL_ROLES = {
+  OWNER: "owner",
+  OPPOSING: "opposing",
+};
+
+// Witness sides (see witnessController.validateWitness) belonging to each counsel side
+const WITNESS_SIDES = {
+  [SIDES.PLAINTIFF]: ["Plaintiff", "Prosecution"],
+  [SIDES.DEFENSE]: ["Defendant", "Defense"],
+};
+
+// Opposing counsel can be invited until the trial has been tried
+const INVITABLE_STATES = [
+  STATES.PENDING_ADMIN_APPROVAL,
+  STATES.WAR_ROOM,
+  STATES.AWAITING_TRIAL,
+];
+
+const MAX_MESSAGE_LENGTH = 500;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureOpposingCounselTables() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.CaseOpposingCounsel', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.CaseOpposingCounsel (
+          InviteId INT IDENTITY(1,1) PRIMARY KEY,
+          CaseId INT NOT NULL,
+          InvitedByAttorneyId INT NOT NULL,
+          OpposingAttorneyId INT NOT NULL,
+          OwnerSide NVARCHAR(20) NOT NULL,
+          Status NVARCHAR(20) NOT NULL DEFAULT 'pending',
+          Message NVARCHAR(500) NULL,
+          OwnerSharesResults BIT NOT NULL DEFAULT 0,
+          OpposingSharesResults BIT NOT NULL DEFAULT 0,
+          InvitedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+          RespondedAt DATETIME2 NULL,
+          UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+          CONSTRAINT FK_CaseOpposingCounsel_Case FOREIGN KEY (CaseId) REFERENCES dbo.Cases(CaseId)
+        );
+        CREATE INDEX IX_CaseOpposingCounsel_Case ON dbo.CaseOpposingCounsel(CaseId, Status);
+        CREATE INDEX IX_CaseOpposingCounsel_Attorney ON dbo.CaseOpposingCounsel(OpposingAttorneyId, Status);
+      END
+
+      IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE Name = N'Side' AND Object_ID = Object_ID(N'dbo.WarRoomDocuments'))
+        ALTER TABLE dbo.WarRoomDocuments ADD Side NVARCHAR(20) NULL;
+    `);
+  } catch (err) {
+    console.warn("⚠️ [OpposingCounsel] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureOpposingCounselTables();
+
+// ============================================
+// HELPERS
+// ============================================
+
+function getOppositeSide(side) {
+  return side === SIDES.PLAINTIFF ? SIDES.DEFENSE : SIDES.PLAINTIFF;
+}
+
+/**
+ * "Plaintiff Counsel" / "Defense Counsel" - used for trial display names
+ */
+function getSideLabel(side) {
+  return side === SIDES.PLAINTIFF ? "Plaintiff Counsel" : "Defense Counsel";
+}
+
+function getWitnessSides(side) {
+  return WITNESS_SIDES[side] || [];
+}
+
+/**
+ * Whether a war room document belongs to the attorney's side. Documents
+ * uploaded before opposing counsel joined (no side) belong to the owner.
+ */
+function isOwnSideDocument(counselRole, documentSide) {
+  if (!counselRole || !counselRole.side) return true;
+  if (counselRole.role === COUNSEL_ROLES.OWNER) {
+    return !documentSide || documentSide === counselRole.side;
+  }
+  return documentSide === counselRole.side;
+}
+
+function mapInvite(row) {
+  if (!row) return null;
+  return {
+    inviteId: row.InviteId,
+    caseId: row.CaseId,
+    status: row.Status,
+    ownerSide: row.OwnerSide,
+    opposingSide: getOppositeSide(row.OwnerSide),
+    message: row.Message,
+    owner: {
+      attorneyId: row.InvitedByAttorneyId,
+      name: `${row.OwnerFirstName || ""} ${row.OwnerLastName || ""}`.trim(),
+      lawFirmName: row.OwnerLawFirmName || null,
+    },
+    opposing: {
+      attorneyId: row.OpposingAttorneyId,
+      name: `${row.OpposingFirstName || ""} ${row.OpposingLastName || ""}`.trim(),
+      email: row.OpposingEmail,
+      lawFirmName: row.OpposingLawFirmName || null,
+    },
+    ownerSharesResults: !!row.OwnerSharesResults,
+    opposingSharesResults: !!row.OpposingSharesResults,
+    resultsShared: !!row.OwnerSharesResults && !!row.OpposingSharesResults,
+    invitedAt: row.InvitedAt,
+    respondedAt: row.RespondedAt,
+  };
+}
+
+const INVITE_SELECT = `
+  SELECT
+    oc.InviteId, oc.CaseId, oc.InvitedByAttorneyId, oc.OpposingAttorneyId,
+    oc.OwnerSide, oc.Status, oc.Message, oc.OwnerSharesResults, oc.OpposingSharesResults,
+    oc.InvitedAt, oc.RespondedAt,
+    ow.FirstName AS OwnerFirstName, ow.LastName AS OwnerLastName, ow.LawFirmName AS OwnerLawFirmName,
+    op.FirstName AS OpposingFirstName, op.LastName AS OpposingLastName,
+    op.Email AS OpposingEmail, op.LawFirmName AS OpposingLawFirmName
+  FROM dbo.CaseOpposingCounsel oc
+  JOIN dbo.Attorneys ow ON ow.AttorneyId = oc.InvitedByAttorneyId
+  JOIN dbo.Attorneys op ON op.AttorneyId = oc.OpposingAttorneyId
+`;
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * The pending or accepted invite for a case, if any
+ */
+async function getForCase(caseId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .query(`
+        ${INVITE_SELECT}
+        WHERE oc.CaseId = @caseId AND oc.Status IN ('pending', 'accepted')
+      `);
+
+    return mapInvite(result.recordset[0]);
+  } catch (error) {
+    console.error("❌ [OpposingCounsel.getForCase] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Pending and accepted invites where the attorney is the opposing counsel
+ */
+async function getInvitationsForAttorney(attorneyId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("attorneyId", sql.Int, attorneyId)
+      .query(`
+        SELECT invites.*, c.CaseTitle, c.CaseType, c.ScheduledDate, c.ScheduledTime, c.AttorneyStatus
+        FROM (
+          ${INVITE_SELECT}
+          WHERE oc.OpposingAttorneyId = @attorneyId AND oc.Status IN ('pending', 'accepted')
+        ) invites
+        JOIN dbo.Cases c ON c.CaseId = invites.CaseId
+        WHERE c.IsDeleted = 0
+        ORDER BY invites.InvitedAt DESC
+      `);
+
+    return result.recordset.map((row) => ({
+      ...mapInvite(row),
+      caseTitle: row.CaseTitle,
+      caseType: row.CaseType,
+      scheduledDate: row.ScheduledDate,
+      scheduledTime: row.ScheduledTime,
+      caseStatus: row.AttorneyStatus,
+    }));
+  } catch (error) {
+    console.error("❌ [OpposingCounsel.getInvitationsForAttorney] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Who the attorney is on this case: the owner (or an attorney at the owner's
+ * firm) or accepted opposing counsel, and which side they argue. Side is null
+ * for an owner without opposing counsel.
+ * @returns {Object|null} { role, side, counsel } or null if neither
+ */
+async function getCounselRole(caseData, attorneyId) {
+  if (!caseData || !attorneyId) return null;
+
+  const counsel = await getForCase(caseData.CaseId);
+  const accepted = counsel && counsel.status === INVITE_STATUSES.ACCEPTED ? counsel : null;
+
+  if (accepted && accepted.opposing.attorneyId === attorneyId) {
+    return { role: COUNSEL_ROLES.OPPOSING, side: accepted.opposingSide, counsel: accepted };
+  }
+  if (await Firm.canManageCase(caseData, attorneyId)) {
+    return { role: COUNSEL_ROLES.OWNER, side: accepted ? accepted.ownerSide : null, counsel: accepted };
+  }
+  return null;
+}
+
+/**
+ * The owner's side of the case, for people working on the owner's behalf
+ * (war room team members) rather than as an attorney of record
+ * @returns {Object} { role, side, counsel }
+ */
+async function getOwnerSideRole(caseData) {
+  const counsel = await getForCase(caseData.CaseId);
+  const accepted = counsel && counsel.status === INVITE_STATUSES.ACCEPTED ? counsel : null;
+  return { role: COUNSEL_ROLES.OWNER, side: accepted ? accepted.ownerSide : null, counsel: accepted };
+}
+
+// ============================================
+// INVITE LIFECYCLE
+// ============================================
+
+/**
+ * Invite a verified attorney (by email) to take the other side of the case
+ */
+async function inviteOpposingCounsel(caseData, { email, ownerSide, message }) {
+  try {
+    if (!INVITABLE_STATES.includes(caseData.AttorneyStatus)) {
+      throw new Error("Opposing counsel validation failed: Opposing counsel can only be invited before the trial");
+    }
+    if (typeof email !== "string" || !EMAIL_REGEX.test(email.trim())) {
+      throw new Error("Opposing counsel validation failed: A valid email address is required");
+    }
+    if (!Object.values(SIDES).includes(ownerSide)) {
+      throw new Error("Opposing counsel validation failed: Side must be plaintiff or defense");
+    }
+    const trimmedMessage = typeof message === "string" ? message.trim() : "";
+    if (trimmedMessage.length > MAX_MESSAGE_LENGTH) {
+      throw new Error(`Opposing counsel validation failed: Message must be at most ${MAX_MESSAGE_LENGTH} characters`);
+    }
+
+    const attorney = await Attorney.findByEmail(email);
+    if (!attorney || attorney.IsDeleted || !attorney.IsActive || !attorney.IsVerified) {
+      throw new Error("Opposing counsel validation failed: No verified attorney account uses that email");
+    }
+    if (attorney.AttorneyId === caseData.AttorneyId) {
+      throw new Error("Opposing counsel validation failed: You cannot invite yourself");
+    }
+    if (await Firm.areColleagues(attorney.AttorneyId, caseData.AttorneyId)) {
+      throw new Error("Opposing counsel validation failed: Attorneys at your own firm cannot be opposing counsel");
+    }
+
+    const existing = await getForCase(caseData.CaseId);
+    if (existing) {
+      throw new Error("Opposing counsel validation failed: This case already has an opposing counsel invite");
+    }
+
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("caseId", sql.Int, caseData.CaseId)
+      .input("ownerId", sql.Int, caseData.AttorneyId)
+      .input("opposingId", sql.Int, attorney.AttorneyId)
+      .input("ownerSide", sql.NVarChar(20), ownerSide)
+      .input("message", sql.NVarChar(500), trimmedMessage || null)
+      .query(`
+        INSERT INTO dbo.CaseOpposingCounsel (CaseId, InvitedByAttorneyId, OpposingAttorneyId, OwnerSide, Message)
+        VALUES (@caseId, @ownerId, @opposingId, @ownerSide, @message)
+      `);
+
+    return await getForCase(caseData.CaseId);
+  } catch (error) {
+    console.error("❌ [OpposingCounsel.inviteOpposingCounsel] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Accept or decline a pending invite addressed to this attorney
+ */
+async function respondToInvite(inviteId, attorneyId, accept) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("inviteId", sql.Int, inviteId)
+      .input("attorneyId", sql.Int, attorneyId)
+      .input("status", sql.NVarChar(20), accept ? INVITE_STATUSES.ACCEPTED : INVITE_STATUSES.DECLINED)
+      .query(`
+        UPDATE dbo.CaseOpposingCounsel
+        SET Status = @status, RespondedAt = GETUTCDATE(), UpdatedAt = GETUTCDATE()
+        OUTPUT INSERTED.InviteId
+        WHERE InviteId = @inviteId AND OpposingAttorneyId = @attorneyId AND Status = 'pending'
+      `);
+
+    if (result.recordset.length === 0) {
+      throw new Error("Opposing counsel validation failed: Invitation not found or already answered");
+    }
+
+    const inviteResult = await pool
+      .request()
+      .input("inviteId", sql.Int, inviteId)
+      .query(`${INVITE_SELECT} WHERE oc.InviteId = @inviteId`);
+
+    return mapInvite(inviteResult.recordset[0]);
+  } catch (error) {
+    console.error("❌ [OpposingCounsel.respondToInvite] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Owner withdraws the invite or removes accepted opposing counsel
+ * @returns {Object|null} the revoked invite, or null if there was none
+ */
+async function revokeInvite(caseData) {
+  try {
+    const counsel = await getForCase(caseData.CaseId);
+    if (!counsel) return null;
+
+    if (counsel.status === INVITE_STATUSES.ACCEPTED && !INVITABLE_STATES.includes(caseData.AttorneyStatus)) {
+      throw new Error("Opposing counsel validation failed: Opposing counsel cannot be removed once the trial has started");
+    }
+
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("inviteId", sql.Int, counsel.inviteId)
+      .query(`
+        UPDATE dbo.CaseOpposingCounsel
+        SET Status = 'revoked', UpdatedAt = GETUTCDATE()
+        WHERE InviteId = @inviteId
+      `);
+
+    return { ...counsel, status: INVITE_STATUSES.REVOKED };
+  } catch (error) {
+    console.error("❌ [OpposingCounsel.revokeInvite] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Record one side's agreement to share verdict results with the other.
+ * Opposing counsel only sees results once both sides have agreed.
+ */
+async function setResultsConsent(counsel, role, shares) {
+  try {
+    const column = role === COUNSEL_ROLES.OWNER ? "OwnerSharesResults" : "OpposingSharesResults";
+
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("inviteId", sql.Int, counsel.inviteId)
+      .input("shares", sql.Bit, shares ? 1 : 0)
+      .query(`
+        UPDATE dbo.CaseOpposingCounsel
+        SET ${column} = @shares, UpdatedAt = GETUTCDATE()
+        WHERE InviteId = @inviteId
+      `);
+
+    return await getForCase(counsel.caseId);
+  } catch (error) {
+    console.error("❌ [OpposingCounsel.setResultsConsent] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  SIDES,
+  INVITE_STATUSES,
+  COUNSEL_ROLES,
+  INVITABLE_STATES,
+
+  // Queries
+  getForCase,
+  getInvitationsForAttorney,
+  getCounselRole,
+  getOwnerSideRole,
+
+  // Invite lifecycle
+  inviteOpposingCounsel,
+  respondToInvite,
+  revokeInvite,
+  setResultsConsent,
+
+  // Helpers
+  getOppositeSide,
+  getSideLabel,
+  getWitnessSides,
+  isOwnSideDocument,
+};
@@ -4,6 +4,7 @@
 // =============================================
 
 const { poolPromise, sql } = require("../config/db");
+const JurorAttendance = require("./JurorAttendance");
 
 // ============================================
 // CONSTANTS
@@ -273,6 +274,86 @@ async function getPaymentsByUser(userId, userType) {
   }
 }
 
+/**
+ * Get attorney payments for every current member of a firm
+ * Used for the firm's consolidated billing view.
+ *
+ * @param {number} firmId - Firm ID
+ * @param {Object} options - { from?, to? } (YYYY-MM-DD, inclusive)
+ * @returns {Promise<Array>} Payments with CaseTitle and AttorneyName
+ */
+async function getPaymentsByFirm(firmId, options = {}) {
+  try {
+    const id = parseInt(firmId, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new Error("Valid firm ID is required");
+    }
+
+    const pool = await poolPromise;
+    const request = pool.request().input("firmId", sql.Int, id);
+
+    let dateFilter = "";
+    if (options.from) {
+      request.input("from", sql.Date, options.from);
+      dateFilter += " AND p.CreatedAt >= @from";
+    }
+    if (options.to) {
+      request.input("to", sql.Date, options.to);
+      dateFilter += " AND p.CreatedAt < DATEADD(day, 1, CAST(@to AS DATETIME2))";
+    }
+
+    const result = await request.query(`
+      SELECT
+        p.*,
+        c.CaseTitle,
+        a.FirstName + ' ' + a.LastName AS AttorneyName
+      FROM dbo.Payments p
+      INNER JOIN dbo.FirmMembers fm ON fm.AttorneyId = p.UserId AND fm.FirmId = @firmId
+      INNER JOIN dbo.Attorneys a ON a.AttorneyId = p.UserId
+      LEFT JOIN dbo.Cases c ON p.CaseId = c.CaseId
+      WHERE p.UserType = 'attorney' ${dateFilter}
+      ORDER BY p.CreatedAt DESC
+    `);
+
+    return result.recordset;
+  } catch (error) {
+    console.error("Error getting payments by firm:", error);
+    throw error;
+  }
+}
+
+// ============================================
+// JUROR PAYOUT ELIGIBILITY
+// ============================================
+
+/**
+ * Check whether a juror's trial attendance qualifies them for payout.
+ * Trials without any attendance data (e.g. held before tracking existed)
+ * are not held back.
+ *
+ * @param {number} caseId - Case ID
+ * @param {number} jurorId - Juror ID
+ * @returns {Promise<Object>} { eligible, reasons, attendance, thresholds }
+ */
+async function getJurorPayoutEligibility(caseId, jurorId) {
+  try {
+    const { trial, thresholds, attendance } =
+      await JurorAttendance.getJurorAttendance(caseId, jurorId);
+
+    const eligible = !trial.tracked || !attendance.flagged;
+
+    return {
+      eligible,
+      reasons: eligible ? [] : attendance.reasons,
+      attendance,
+      thresholds,
+    };
+  } catch (error) {
+    console.error("Error checking juror payout eligibility:", error);
+    throw error;
+  }
+}
+
 /**
  * Get payment statistics
  * NEW: Added statistics function
@@ -402,10 +483,14 @@ module.exports = {
   // Query operations
   getPaymentsByCase,
   getPaymentsByUser,
+  getPaymentsByFirm,
 
   // Refunds
   processRefund, // NEW
 
+  // Juror payouts
+  getJurorPayoutEligibility,
+
   // Statistics
   getPaymentStatistics, // NEW
 };
@@ -4,6 +4,9 @@
 // =============================================
 
 const { poolPromise, sql } = require("../config/db");
+const { generateSasUrl } = require("../utils/azureBlob");
+const OpposingCounsel = require("./OpposingCounsel");
+const WarRoomDocumentVersion = require("./WarRoomDocumentVersion");
 
 // ============================================
 // CONSTANTS
@@ -20,8 +23,48 @@ const PARTICIPANT_TYPES = {
   ATTORNEY: "attorney",
   JUROR: "juror",
   ADMIN: "admin",
+  TEAM_MEMBER: "team_member",
 };
 
+// Trial phases in running order, with default durations (seconds)
+const TRIAL_PHASES = [
+  { key: "presentation", label: "Case Presentation", defaultDuration: 15 * 60 },
+  { key: "plaintiff", label: "Plaintiff Segment", defaultDuration: 30 * 60 },
+  { key: "defense", label: "Defense Segment", defaultDuration: 30 * 60 },
+  { key: "deliberation", label: "Deliberation", defaultDuration: 45 * 60 },
+  { key: "debrief", label: "Debrief", defaultDuration: 30 * 60 },
+];
+
+const CLOCK_STATUSES = {
+  IDLE: "idle",
+  RUNNING: "running",
+  PAUSED: "paused",
+  COMPLETED: "completed",
+};
+
+const CLOCK_ACTIONS = ["start", "pause", "resume", "extend", "next", "reset"];
+
+// Where jurors are: the shared courtroom, the private deliberation room,
+// or back in the courtroom for the attorney debrief
+const DELIBERATION_STATUSES = {
+  IDLE: "idle",
+  DELIBERATING: "deliberating",
+  DEBRIEF: "debrief",
+};
+
+// Case tiers that include silent attorney observation of deliberations
+const OBSERVATION_TIERS = (process.env.DELIBERATION_OBSERVATION_TIERS || "Tier 3")
+  .split(",")
+  .map((tier) => tier.trim())
+  .filter(Boolean);
+
+const EXHIBIT_ACTIONS = ["present", "navigate", "stop"];
+
+// War room document types every browser can render in the shared viewer
+const PRESENTABLE_EXHIBIT_TYPES = ["pdf", "image"];
+
+const EXHIBIT_ZOOM = { MIN: 0.5, MAX: 3 };
+
 // ============================================
 // VALIDATION HELPERS
 // ============================================
@@ -521,6 +564,620 @@ async function getAllMeetings(options = {}) {
   }
 }
 
+// ============================================
+// PHASE CLOCK
+// ============================================
+
+async function ensurePhaseClockColumn() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE Name = N'PhaseClock' AND Object_ID = Object_ID(N'dbo.TrialMeetings'))
+        ALTER TABLE dbo.TrialMeetings ADD PhaseClock NVARCHAR(MAX) NULL;
+    `);
+  } catch (err) {
+    console.warn("⚠️ [TrialMeeting] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensurePhaseClockColumn();
+
+function getPhaseDefinition(phaseKey) {
+  return TRIAL_PHASES.find((p) => p.key === phaseKey) || null;
+}
+
+function createIdleClock() {
+  return {
+    phase: null,
+    status: CLOCK_STATUSES.IDLE,
+    durationSeconds: 0,
+    remainingSeconds: 0,
+    endsAt: null,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Attach derived fields to a stored clock so every client renders the
+ * same countdown. Clients compare endsAt against serverTime to correct
+ * for local clock drift.
+ */
+function serializePhaseClock(clock) {
+  const now = Date.now();
+  const phaseIndex = TRIAL_PHASES.findIndex((p) => p.key === clock.phase);
+  let remainingSeconds = clock.remainingSeconds;
+
+  if (clock.status === CLOCK_STATUSES.RUNNING && clock.endsAt) {
+    remainingSeconds = Math.max(
+      0,
+      Math.round((new Date(clock.endsAt).getTime() - now) / 1000)
+    );
+  }
+
+  return {
+    ...clock,
+    remainingSeconds,
+    phaseIndex,
+    phaseLabel: phaseIndex >= 0 ? TRIAL_PHASES[phaseIndex].label : null,
+    phases: TRIAL_PHASES,
+    serverTime: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * Get the phase clock for the current meeting of a case
+ *
+ * @param {number} caseId - Case ID
+ * @returns {Promise<Object|null>} Serialized clock, or null when no meeting exists
+ */
+async function getPhaseClock(caseId) {
+  try {
+    const id = parseInt(caseId, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new Error("Valid case ID is required");
+    }
+
+    const pool = await poolPromise;
+    const result = await pool.request().input("caseId", sql.Int, id).query(`
+        SELECT TOP 1 MeetingId, PhaseClock
+        FROM dbo.TrialMeetings
+        WHERE CaseId = @caseId
+        ORDER BY CreatedAt DESC
+      `);
+
+    const row = result.recordset[0];
+    if (!row) return null;
+
+    let clock = createIdleClock();
+    if (row.PhaseClock) {
+      try {
+        clock = JSON.parse(row.PhaseClock);
+      } catch (parseError) {
+        console.warn("⚠️ Invalid PhaseClock JSON for meeting", row.MeetingId);
+      }
+    }
+
+    return serializePhaseClock(clock);
+  } catch (error) {
+    console.error("Error getting phase clock:", error);
+    throw error;
+  }
+}
+
+/**
+ * Apply an admin clock action and persist the new state
+ *
+ * @param {number} caseId - Case ID
+ * @param {string} action - One of CLOCK_ACTIONS
+ * @param {Object} options - { phase, durationSeconds, seconds }
+ * @returns {Promise<Object>} Serialized clock after the action
+ */
+async function applyPhaseClockAction(caseId, action, options = {}) {
+  try {
+    if (!CLOCK_ACTIONS.includes(action)) {
+      throw new Error(
+        `Phase clock validation failed: action must be one of ${CLOCK_ACTIONS.join(", ")}`
+      );
+    }
+
+    const current = await getPhaseClock(caseId);
+    if (!current) {
+      throw new Error("No trial meeting found for this case");
+    }
+
+    const now = Date.now();
+    const clock = {
+      phase: current.phase,
+      status: current.status,
+      durationSeconds: current.durationSeconds,
+      remainingSeconds: current.remainingSeconds,
+      endsAt: current.endsAt,
+    };
+
+    const startPhase = (phaseKey, durationSeconds) => {
+      const definition = getPhaseDefinition(phaseKey);
+      if (!definition) {
+        throw new Error(`Phase clock validation failed: unknown phase "${phaseKey}"`);
+      }
+      const duration = parseInt(durationSeconds, 10) || definition.defaultDuration;
+      clock.phase = definition.key;
+      clock.status = CLOCK_STATUSES.RUNNING;
+      clock.durationSeconds = duration;
+      clock.remainingSeconds = duration;
+      clock.endsAt = new Date(now + duration * 1000).toISOString();
+    };
+
+    switch (action) {
+      case "start":
+        startPhase(options.phase || clock.phase || TRIAL_PHASES[0].key, options.durationSeconds);
+        break;
+
+      case "pause":
+        if (clock.status !== CLOCK_STATUSES.RUNNING) {
+          throw new Error("Phase clock is not running");
+        }
+        clock.status = CLOCK_STATUSES.PAUSED;
+        clock.endsAt = null;
+        break;
+
+      case "resume":
+        if (clock.status !== CLOCK_STATUSES.PAUSED) {
+          throw new Error("Phase clock is not paused");
+        }
+        clock.status = CLOCK_STATUSES.RUNNING;
+        clock.endsAt = new Date(now + clock.remainingSeconds * 1000).toISOString();
+        break;
+
+      case "extend": {
+        const seconds = parseInt(options.seconds, 10);
+        if (isNaN(seconds) || seconds <= 0 || seconds > 4 * 60 * 60) {
+          throw new Error("Phase clock validation failed: extension must be between 1 second and 4 hours");
+        }
+        if (clock.status !== CLOCK_STATUSES.RUNNING && clock.status !== CLOCK_STATUSES.PAUSED) {
+          throw new Error("No active phase to extend");
+        }
+        clock.durationSeconds += seconds;
+        clock.remainingSeconds += seconds;
+        if (clock.status === CLOCK_STATUSES.RUNNING) {
+          clock.endsAt = new Date(now + clock.remainingSeconds * 1000).toISOString();
+        }
+        break;
+      }
+
+      case "next": {
+        const index = TRIAL_PHASES.findIndex((p) => p.key === clock.phase);
+        if (index === TRIAL_PHASES.length - 1) {
+          clock.status = CLOCK_STATUSES.COMPLETED;
+          clock.remainingSeconds = 0;
+          clock.endsAt = null;
+        } else {
+          startPhase(TRIAL_PHASES[index + 1].key, options.durationSeconds);
+        }
+        break;
+      }
+
+      case "reset":
+        Object.assign(clock, createIdleClock());
+        break;
+    }
+
+    clock.updatedAt = new Date(now).toISOString();
+
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId, 10))
+      .input("phaseClock", sql.NVarChar(sql.MAX), JSON.stringify(clock))
+      .query(`
+        UPDATE dbo.TrialMeetings
+        SET PhaseClock = @phaseClock
+        WHERE MeetingId = (
+          SELECT TOP 1 MeetingId FROM dbo.TrialMeetings
+          WHERE CaseId = @caseId
+          ORDER BY CreatedAt DESC
+        )
+      `);
+
+    return serializePhaseClock(clock);
+  } catch (error) {
+    console.error("Error applying phase clock action:", error);
+    throw error;
+  }
+}
+
+// ============================================
+// DELIBERATION ROOM
+// ============================================
+
+async function ensureDeliberationColumns() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE Name = N'DeliberationRoomId' AND Object_ID = Object_ID(N'dbo.TrialMeetings'))
+        ALTER TABLE dbo.TrialMeetings ADD
+          DeliberationRoomId NVARCHAR(255) NULL,
+          DeliberationChatThreadId NVARCHAR(255) NULL,
+          DeliberationChatServiceUserId NVARCHAR(255) NULL,
+          DeliberationStatus NVARCHAR(20) NULL,
+          ObservationEnabled BIT NOT NULL CONSTRAINT DF_TrialMeetings_ObservationEnabled DEFAULT 0;
+    `);
+  } catch (err) {
+    console.warn("⚠️ [TrialMeeting] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureDeliberationColumns();
+
+/**
+ * Get the deliberation room state for the current meeting of a case.
+ * Includes the ACS room and chat IDs - use serializeDeliberation before
+ * sending it to clients.
+ *
+ * @param {number} caseId - Case ID
+ * @returns {Promise<Object|null>} Deliberation state, or null when no meeting exists
+ */
+async function getDeliberation(caseId) {
+  try {
+    const id = parseInt(caseId, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new Error("Valid case ID is required");
+    }
+
+    const pool = await poolPromise;
+    const result = await pool.request().input("caseId", sql.Int, id).query(`
+        SELECT TOP 1
+          tm.MeetingId,
+          tm.DeliberationRoomId,
+          tm.DeliberationChatThreadId,
+          tm.DeliberationChatServiceUserId,
+          tm.DeliberationStatus,
+          tm.ObservationEnabled,
+          c.CaseTier
+        FROM dbo.TrialMeetings tm
+        LEFT JOIN dbo.Cases c ON tm.CaseId = c.CaseId
+        WHERE tm.CaseId = @caseId
+        ORDER BY tm.CreatedAt DESC
+      `);
+
+    const row = result.recordset[0];
+    if (!row) return null;
+
+    const observationAvailable = OBSERVATION_TIERS.includes(row.CaseTier);
+    return {
+      meetingId: row.MeetingId,
+      roomId: row.DeliberationRoomId,
+      chatThreadId: row.DeliberationChatThreadId,
+      chatServiceUserId: row.DeliberationChatServiceUserId,
+      status: row.DeliberationStatus || DELIBERATION_STATUSES.IDLE,
+      observationAvailable,
+      observationEnabled: observationAvailable && !!row.ObservationEnabled,
+    };
+  } catch (error) {
+    console.error("Error getting deliberation state:", error);
+    throw error;
+  }
+}
+
+/**
+ * Client-safe view of the deliberation state (no ACS identifiers)
+ */
+function serializeDeliberation(deliberation) {
+  return {
+    status: deliberation.status,
+    observationAvailable: deliberation.observationAvailable,
+    observationEnabled: deliberation.observationEnabled,
+  };
+}
+
+/**
+ * Store the ACS room and chat thread created for deliberation
+ *
+ * @param {number} meetingId - Meeting ID
+ * @param {Object} room - { roomId, chatThreadId, chatServiceUserId }
+ */
+async function saveDeliberationRoom(meetingId, { roomId, chatThreadId, chatServiceUserId }) {
+  try {
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("meetingId", sql.Int, meetingId)
+      .input("roomId", sql.NVarChar(255), roomId)
+      .input("chatThreadId", sql.NVarChar(255), chatThreadId || null)
+      .input("chatServiceUserId", sql.NVarChar(255), chatServiceUserId || null)
+      .query(`
+        UPDATE dbo.TrialMeetings
+        SET DeliberationRoomId = @roomId,
+            DeliberationChatThreadId = @chatThreadId,
+            DeliberationChatServiceUserId = @chatServiceUserId
+        WHERE MeetingId = @meetingId
+      `);
+  } catch (error) {
+    console.error("Error saving deliberation room:", error);
+    throw error;
+  }
+}
+
+/**
+ * Move jurors between the courtroom and the deliberation room
+ *
+ * @param {number} meetingId - Meeting ID
+ * @param {string} status - One of DELIBERATION_STATUSES
+ */
+async function setDeliberationStatus(meetingId, status) {
+  try {
+    if (!Object.values(DELIBERATION_STATUSES).includes(status)) {
+      throw new Error(
+        `Deliberation validation failed: status must be one of ${Object.values(DELIBERATION_STATUSES).join(", ")}`
+      );
+    }
+
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("meetingId", sql.Int, meetingId)
+      .input("status", sql.NVarChar(20), status)
+      .query(`
+        UPDATE dbo.TrialMeetings
+        SET DeliberationStatus = @status
+        WHERE MeetingId = @meetingId
+      `);
+  } catch (error) {
+    console.error("Error setting deliberation status:", error);
+    throw error;
+  }
+}
+
+/**
+ * Turn silent attorney observation of the deliberation room on or off
+ *
+ * @param {number} meetingId - Meeting ID
+ * @param {boolean} enabled
+ */
+async function setObservationEnabled(meetingId, enabled) {
+  try {
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("meetingId", sql.Int, meetingId)
+      .input("enabled", sql.Bit, enabled ? 1 : 0)
+      .query(`
+        UPDATE dbo.TrialMeetings
+        SET ObservationEnabled = @enabled
+        WHERE MeetingId = @meetingId
+      `);
+  } catch (error) {
+    console.error("Error setting observation:", error);
+    throw error;
+  }
+}
+
+/**
+ * Forget the deliberation room once the trial ends
+ *
+ * @param {number} meetingId - Meeting ID
+ */
+async function clearDeliberation(meetingId) {
+  try {
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("meetingId", sql.Int, meetingId)
+      .query(`
+        UPDATE dbo.TrialMeetings
+        SET DeliberationRoomId = NULL,
+            DeliberationChatThreadId = NULL,
+            DeliberationChatServiceUserId = NULL,
+            DeliberationStatus = NULL,
+            ObservationEnabled = 0
+        WHERE MeetingId = @meetingId
+      `);
+  } catch (error) {
+    console.error("Error clearing deliberation:", error);
+    throw error;
+  }
+}
+
+// ============================================
+// EXHIBIT PRESENTATION
+// ============================================
+
+async function ensurePresentedExhibitColumn() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE Name = N'PresentedExhibit' AND Object_ID = Object_ID(N'dbo.TrialMeetings'))
+        ALTER TABLE dbo.TrialMeetings ADD PresentedExhibit NVARCHAR(MAX) NULL;
+    `);
+  } catch (err) {
+    console.warn("⚠️ [TrialMeeting] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensurePresentedExhibitColumn();
+
+/**
+ * Get the exhibit currently presented in the meeting of a case.
+ * Holds the stored blob URL - use serializeExhibit before sending it to clients.
+ *
+ * @param {number} caseId - Case ID
+ * @returns {Promise<Object|null>} Exhibit state, or null when nothing is presented
+ */
+async function getPresentedExhibit(caseId) {
+  try {
+    const id = parseInt(caseId, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new Error("Valid case ID is required");
+    }
+
+    const pool = await poolPromise;
+    const result = await pool.request().input("caseId", sql.Int, id).query(`
+        SELECT TOP 1 MeetingId, PresentedExhibit
+        FROM dbo.TrialMeetings
+        WHERE CaseId = @caseId
+        ORDER BY CreatedAt DESC
+      `);
+
+    const row = result.recordset[0];
+    if (!row || !row.PresentedExhibit) return null;
+
+    try {
+      return JSON.parse(row.PresentedExhibit);
+    } catch (parseError) {
+      console.warn("⚠️ Invalid PresentedExhibit JSON for meeting", row.MeetingId);
+      return null;
+    }
+  } catch (error) {
+    console.error("Error getting presented exhibit:", error);
+    throw error;
+  }
+}
+
+/**
+ * Client view of the presented exhibit with a fresh read-only file URL
+ */
+async function serializeExhibit(exhibit) {
+  if (!exhibit) return null;
+  const { fileUrl, ...rest } = exhibit;
+  return {
+    ...rest,
+    fileUrl: await generateSasUrl(fileUrl),
+  };
+}
+
+/**
+ * Start, move, or stop the shared exhibit presentation
+ *
+ * @param {number} caseId - Case ID
+ * @param {string} action - One of EXHIBIT_ACTIONS
+ * @param {Object} options - { documentId } for present, { page, zoom } for navigate
+ * @param {Object} user - { id, type, counselRole } of the presenter (or admin revoking)
+ * @returns {Promise<Object|null>} Exhibit state after the action (null once stopped)
+ */
+async function applyExhibitAction(caseId, action, options = {}, user) {
+  try {
+    if (!EXHIBIT_ACTIONS.includes(action)) {
+      throw new Error(
+        `Exhibit validation failed: action must be one of ${EXHIBIT_ACTIONS.join(", ")}`
+      );
+    }
+
+    const id = parseInt(caseId, 10);
+    const current = await getPresentedExhibit(id);
+    const now = new Date().toISOString();
+    const isPresenter =
+      current && current.presenterId === user.id && current.presenterType === user.type;
+    let exhibit = current;
+
+    switch (action) {
+      case "present": {
+        const documentId = parseInt(options.documentId, 10);
+        if (isNaN(documentId) || documentId <= 0) {
+          throw new Error("Exhibit validation failed: valid document ID is required");
+        }
+
+        const pool = await poolPromise;
+        const result = await pool
+          .request()
+          .input("documentId", sql.Int, documentId)
+          .input("caseId", sql.Int, id)
+          .query(`
+            SELECT Id, Type, FileName, FileUrl, MimeType, Side
+            FROM WarRoomDocuments
+            WHERE Id = @documentId AND CaseId = @caseId
+          `);
+
+        // Counsel can only present their own side's documents
+        const doc = result.recordset[0];
+        if (!doc || !OpposingCounsel.isOwnSideDocument(user.counselRole, doc.Side)) {
+          throw new Error("Document not found for this case");
+        }
+        if (!PRESENTABLE_EXHIBIT_TYPES.includes(doc.Type)) {
+          throw new Error("Only PDF and image documents can be presented");
+        }
+
+        // Remember which version the jury saw, in case it is revised later
+        const version = await WarRoomDocumentVersion.recordPresentation(doc.Id);
+
+        exhibit = {
+          documentId: doc.Id,
+          version,
+          fileName: doc.FileName,
+          fileType: doc.Type,
+          mimeType: doc.MimeType,
+          fileUrl: doc.FileUrl,
+          page: 1,
+          zoom: 1,
+          presenterId: user.id,
+          presenterType: user.type,
+          startedAt: now,
+          updatedAt: now,
+        };
+        break;
+      }
+
+      case "navigate": {
+        if (!current) {
+          throw new Error("No exhibit is being presented");
+        }
+        if (!isPresenter) {
+          throw new Error("Only the presenter can move through the exhibit");
+        }
+
+        const page = options.page === undefined ? current.page : parseInt(options.page, 10);
+        const zoom = options.zoom === undefined ? current.zoom : parseFloat(options.zoom);
+        if (isNaN(page) || page < 1) {
+          throw new Error("Exhibit validation failed: page must be 1 or greater");
+        }
+        if (isNaN(zoom) || zoom < EXHIBIT_ZOOM.MIN || zoom > EXHIBIT_ZOOM.MAX) {
+          throw new Error(
+            `Exhibit validation failed: zoom must be between ${EXHIBIT_ZOOM.MIN} and ${EXHIBIT_ZOOM.MAX}`
+          );
+        }
+
+        exhibit = { ...current, page, zoom: Math.round(zoom * 100) / 100, updatedAt: now };
+        break;
+      }
+
+      case "stop":
+        if (!current) {
+          throw new Error("No exhibit is being presented");
+        }
+        if (!isPresenter && user.type !== "admin") {
+          throw new Error("Only the presenter or an admin can stop the exhibit");
+        }
+        exhibit = null;
+        break;
+    }
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, id)
+      .input("exhibit", sql.NVarChar(sql.MAX), exhibit ? JSON.stringify(exhibit) : null)
+      .query(`
+        UPDATE dbo.TrialMeetings
+        SET PresentedExhibit = @exhibit
+        WHERE MeetingId = (
+          SELECT TOP 1 MeetingId FROM dbo.TrialMeetings
+          WHERE CaseId = @caseId
+          ORDER BY CreatedAt DESC
+        )
+      `);
+
+    if (result.rowsAffected[0] === 0) {
+      throw new Error("No trial meeting found for this case");
+    }
+
+    return exhibit;
+  } catch (error) {
+    console.error("Error applying exhibit action:", error);
+    throw error;
+  }
+}
+
 // ============================================
 // EXPORTS
 // ============================================
@@ -529,6 +1186,14 @@ module.exports = {
   // Constants
   MEETING_STATUSES,
   PARTICIPANT_TYPES,
+  TRIAL_PHASES,
+  CLOCK_STATUSES,
+  CLOCK_ACTIONS,
+  DELIBERATION_STATUSES,
+  OBSERVATION_TIERS,
+  EXHIBIT_ACTIONS,
+  PRESENTABLE_EXHIBIT_TYPES,
+  EXHIBIT_ZOOM,
 
   // Meeting operations
   createMeeting,
@@ -545,4 +1210,21 @@ module.exports = {
 
   // Statistics
   getMeetingStatistics, // NEW
+
+  // Phase clock
+  getPhaseClock,
+  applyPhaseClockAction,
+
+  // Deliberation room
+  getDeliberation,
+  serializeDeliberation,
+  saveDeliberationRoom,
+  setDeliberationStatus,
+  setObservationEnabled,
+  clearDeliberation,
+
+  // Exhibit presentation
+  getPresentedExhibit,
+  serializeExhibit,
+  applyExhibitAction,
 };
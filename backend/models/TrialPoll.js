@@ -0,0 +1,373 @@
+// =============================================
+// TrialPoll.js - Instant Polls During Trial
+// Quick multiple-choice temperature checks an admin launches mid-trial.
+// Responses are anonymous: the juror ID is kept only to allow one vote each
+// and is never returned with results.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const POLL_STATUSES = {
+  OPEN: "open",
+  CLOSED: "closed",
+};
+
+const POLL_LIMITS = {
+  MAX_QUESTION_LENGTH: 300,
+  MAX_OPTION_LENGTH: 100,
+  MIN_OPTIONS: 2,
+  MAX_OPTIONS: 6,
+};
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureTrialPollTables() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.TrialPolls', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.TrialPolls (
+          PollId INT IDENTITY(1,1) PRIMARY KEY,
+          CaseId INT NOT NULL,
+          Question NVARCHAR(300) NOT NULL,
+          Options NVARCHAR(MAX) NOT NULL,
+          Status NVARCHAR(20) NOT NULL CONSTRAINT DF_TrialPolls_Status DEFAULT 'open',
+          CreatedBy INT NOT NULL,
+          CreatedAt DATETIME2 NOT NULL CONSTRAINT DF_TrialPolls_CreatedAt DEFAULT GETUTCDATE(),
+          ClosedAt DATETIME2 NULL
+        );
+        CREATE INDEX IX_TrialPolls_CaseId ON dbo.TrialPolls (CaseId);
+      END
+
+      IF OBJECT_ID(N'dbo.TrialPollResponses', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.TrialPollResponses (
+          ResponseId INT IDENTITY(1,1) PRIMARY KEY,
+          PollId INT NOT NULL,
+          JurorId INT NOT NULL,
+          OptionIndex INT NOT NULL,
+          RespondedAt DATETIME2 NOT NULL CONSTRAINT DF_TrialPollResponses_RespondedAt DEFAULT GETUTCDATE(),
+          CONSTRAINT UQ_TrialPollResponses_PollJuror UNIQUE (PollId, JurorId)
+        );
+      END
+    `);
+  } catch (err) {
+    console.warn("⚠️ [TrialPoll] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureTrialPollTables();
+
+// ============================================
+// HELPERS
+// ============================================
+
+function validatePollData({ question, options }) {
+  const errors = [];
+  const text = typeof question === "string" ? question.trim() : "";
+  const choices = Array.isArray(options)
+    ? options.map((o) => (typeof o === "string" ? o.trim() : "")).filter(Boolean)
+    : [];
+
+  if (!text) {
+    errors.push("Question is required");
+  } else if (text.length > POLL_LIMITS.MAX_QUESTION_LENGTH) {
+    errors.push(`Question must be ${POLL_LIMITS.MAX_QUESTION_LENGTH} characters or less`);
+  }
+
+  if (choices.length < POLL_LIMITS.MIN_OPTIONS || choices.length > POLL_LIMITS.MAX_OPTIONS) {
+    errors.push(`Polls need between ${POLL_LIMITS.MIN_OPTIONS} and ${POLL_LIMITS.MAX_OPTIONS} options`);
+  }
+  if (choices.some((o) => o.length > POLL_LIMITS.MAX_OPTION_LENGTH)) {
+    errors.push(`Options must be ${POLL_LIMITS.MAX_OPTION_LENGTH} characters or less`);
+  }
+  if (new Set(choices.map((o) => o.toLowerCase())).size !== choices.length) {
+    errors.push("Options must be different from each other");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Poll validation failed: ${errors.join(", ")}`);
+  }
+
+  return { question: text, options: choices };
+}
+
+function parseOptions(row) {
+  try {
+    return JSON.parse(row.Options);
+  } catch (parseError) {
+    console.warn("⚠️ Invalid Options JSON for poll", row.PollId);
+    return [];
+  }
+}
+
+/**
+ * Serialize a poll row. Results (per-option counts) are only included for
+ * admins and attorneys; jurors just see the question and options.
+ */
+function formatPoll(row, { counts = null, hasResponded } = {}) {
+  const options = parseOptions(row);
+  const poll = {
+    pollId: row.PollId,
+    caseId: row.CaseId,
+    question: row.Question,
+    options,
+    status: row.Status,
+    createdAt: row.CreatedAt,
+    closedAt: row.ClosedAt,
+  };
+
+  if (counts) {
+    const totalResponses = options.reduce((sum, _, i) => sum + (counts[i] || 0), 0);
+    poll.totalResponses = totalResponses;
+    poll.results = options.map((option, i) => ({
+      option,
+      count: counts[i] || 0,
+      percentage: totalResponses > 0 ? Math.round(((counts[i] || 0) / totalResponses) * 1000) / 10 : 0,
+    }));
+  }
+  if (hasResponded !== undefined) {
+    poll.hasResponded = hasResponded;
+  }
+
+  return poll;
+}
+
+async function getResponseCounts(pollIds) {
+  const counts = new Map();
+  if (pollIds.length === 0) return counts;
+
+  const pool = await poolPromise;
+  const request = pool.request();
+  const params = pollIds.map((id, i) => {
+    request.input(`pollId${i}`, sql.Int, id);
+    return `@pollId${i}`;
+  });
+
+  const result = await request.query(`
+    SELECT PollId, OptionIndex, COUNT(*) AS ResponseCount
+    FROM dbo.TrialPollResponses
+    WHERE PollId IN (${params.join(", ")})
+    GROUP BY PollId, OptionIndex
+  `);
+
+  result.recordset.forEach((row) => {
+    if (!counts.has(row.PollId)) counts.set(row.PollId, {});
+    counts.get(row.PollId)[row.OptionIndex] = row.ResponseCount;
+  });
+  return counts;
+}
+
+// ============================================
+// POLLS
+// ============================================
+
+/**
+ * Launch a poll for a case
+ *
+ * @param {number} caseId - Case ID
+ * @param {Object} data - { question, options, adminId }
+ * @returns {Promise<Object>} Poll with (empty) results
+ */
+async function createPoll(caseId, { question, options, adminId }) {
+  try {
+    const poll = validatePollData({ question, options });
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("question", sql.NVarChar(POLL_LIMITS.MAX_QUESTION_LENGTH), poll.question)
+      .input("options", sql.NVarChar(sql.MAX), JSON.stringify(poll.options))
+      .input("createdBy", sql.Int, adminId)
+      .query(`
+        INSERT INTO dbo.TrialPolls (CaseId, Question, Options, CreatedBy)
+        OUTPUT INSERTED.*
+        VALUES (@caseId, @question, @options, @createdBy)
+      `);
+
+    return formatPoll(result.recordset[0], { counts: {} });
+  } catch (error) {
+    console.error("❌ [TrialPoll.createPoll] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Get one poll with its results
+ *
+ * @param {number} caseId - Case ID (guards against reading another case's poll)
+ * @param {number} pollId - Poll ID
+ * @returns {Promise<Object|null>}
+ */
+async function getPollWithResults(caseId, pollId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("pollId", sql.Int, pollId)
+      .query(`SELECT * FROM dbo.TrialPolls WHERE PollId = @pollId AND CaseId = @caseId`);
+
+    const row = result.recordset[0];
+    if (!row) return null;
+
+    const counts = await getResponseCounts([row.PollId]);
+    return formatPoll(row, { counts: counts.get(row.PollId) || {} });
+  } catch (error) {
+    console.error("❌ [TrialPoll.getPollWithResults] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * All polls for a case, oldest first, with results
+ */
+async function getCasePolls(caseId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .query(`SELECT * FROM dbo.TrialPolls WHERE CaseId = @caseId ORDER BY CreatedAt ASC`);
+
+    const counts = await getResponseCounts(result.recordset.map((row) => row.PollId));
+    return result.recordset.map((row) => formatPoll(row, { counts: counts.get(row.PollId) || {} }));
+  } catch (error) {
+    console.error("❌ [TrialPoll.getCasePolls] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Open polls for a juror, without results, flagged when already answered
+ */
+async function getOpenPollsForJuror(caseId, jurorId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("jurorId", sql.Int, jurorId)
+      .input("open", sql.NVarChar, POLL_STATUSES.OPEN)
+      .query(`
+        SELECT p.*, CASE WHEN r.ResponseId IS NULL THEN 0 ELSE 1 END AS HasResponded
+        FROM dbo.TrialPolls p
+        LEFT JOIN dbo.TrialPollResponses r ON r.PollId = p.PollId AND r.JurorId = @jurorId
+        WHERE p.CaseId = @caseId AND p.Status = @open
+        ORDER BY p.CreatedAt ASC
+      `);
+
+    return result.recordset.map((row) => formatPoll(row, { hasResponded: !!row.HasResponded }));
+  } catch (error) {
+    console.error("❌ [TrialPoll.getOpenPollsForJuror] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Record a juror's answer to an open poll
+ *
+ * @param {number} caseId - Case ID
+ * @param {number} pollId - Poll ID
+ * @param {number} jurorId - Juror ID
+ * @param {number} optionIndex - Index into the poll's options
+ * @returns {Promise<Object>} Poll with updated results
+ */
+async function submitResponse(caseId, pollId, jurorId, optionIndex) {
+  try {
+    const pool = await poolPromise;
+    const pollResult = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("pollId", sql.Int, pollId)
+      .query(`SELECT * FROM dbo.TrialPolls WHERE PollId = @pollId AND CaseId = @caseId`);
+
+    const row = pollResult.recordset[0];
+    if (!row) {
+      throw new Error("Poll not found");
+    }
+    if (row.Status !== POLL_STATUSES.OPEN) {
+      throw new Error("Poll validation failed: This poll is closed");
+    }
+
+    const index = parseInt(optionIndex, 10);
+    if (isNaN(index) || index < 0 || index >= parseOptions(row).length) {
+      throw new Error("Poll validation failed: Choose one of the poll options");
+    }
+
+    const inserted = await pool
+      .request()
+      .input("pollId", sql.Int, pollId)
+      .input("jurorId", sql.Int, jurorId)
+      .input("optionIndex", sql.Int, index)
+      .query(`
+        IF NOT EXISTS (SELECT 1 FROM dbo.TrialPollResponses WHERE PollId = @pollId AND JurorId = @jurorId)
+          INSERT INTO dbo.TrialPollResponses (PollId, JurorId, OptionIndex)
+          VALUES (@pollId, @jurorId, @optionIndex)
+      `);
+
+    if (inserted.rowsAffected[0] === 0) {
+      throw new Error("Poll validation failed: You have already answered this poll");
+    }
+
+    return await getPollWithResults(caseId, pollId);
+  } catch (error) {
+    console.error("❌ [TrialPoll.submitResponse] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Stop accepting responses
+ *
+ * @returns {Promise<Object|null>} Closed poll with results, or null if it was not open
+ */
+async function closePoll(caseId, pollId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("pollId", sql.Int, pollId)
+      .input("open", sql.NVarChar, POLL_STATUSES.OPEN)
+      .input("closed", sql.NVarChar, POLL_STATUSES.CLOSED)
+      .query(`
+        UPDATE dbo.TrialPolls
+        SET Status = @closed, ClosedAt = GETUTCDATE()
+        WHERE PollId = @pollId AND CaseId = @caseId AND Status = @open
+      `);
+
+    if (result.rowsAffected[0] === 0) return null;
+    return await getPollWithResults(caseId, pollId);
+  } catch (error) {
+    console.error("❌ [TrialPoll.closePoll] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  POLL_STATUSES,
+  POLL_LIMITS,
+
+  // Polls
+  createPoll,
+  getPollWithResults,
+  getCasePolls,
+  getOpenPollsForJuror,
+  submitResponse,
+  closePoll,
+};
@@ -0,0 +1,373 @@
+// =============================================
+// TrialSession.js - Multi-Day Trial Sessions
+// A case's own ScheduledDate/ScheduledTime is always session 1. Larger cases
+// can add further sessions on later days (e.g. presentation one day,
+// deliberation the next); those are stored here. Each session has its own
+// slot, its own 30-minute "trial starting" notification and its own
+// countdown reminders, and the conference join uses whichever session is on.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+const Case = require("./Case");
+const AdminCalendar = require("./AdminCalendar");
+
+const STATES = Case.ATTORNEY_CASE_STATES;
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Session 1 plus up to four additional days
+const MAX_SESSIONS = 5;
+const MAX_LABEL_LENGTH = 100;
+
+// Jurors can join from this many minutes before a session starts
+const JOIN_WINDOW_MINUTES = 15;
+
+// Sessions can be changed until the trial has been tried
+const EDITABLE_STATES = [
+  STATES.PENDING_ADMIN_APPROVAL,
+  STATES.WAR_ROOM,
+  STATES.AWAITING_TRIAL,
+  STATES.JOIN_TRIAL,
+];
+
+const TIME_REGEX = /^([0-1][0-9]|2[0-3]):([0-5][0-9])(:[0-5][0-9])?$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureTrialSessionsTable() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.TrialSessions', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.TrialSessions (
+          SessionId INT IDENTITY(1,1) PRIMARY KEY,
+          CaseId INT NOT NULL,
+          SessionNumber INT NOT NULL,
+          Label NVARCHAR(100) NULL,
+          ScheduledDate DATE NOT NULL,
+          ScheduledTime VARCHAR(8) NOT NULL,
+          NotificationsSent BIT NOT NULL DEFAULT 0,
+          LastReminderDays INT NULL,
+          CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+          UpdatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+          CONSTRAINT FK_TrialSessions_Case FOREIGN KEY (CaseId) REFERENCES dbo.Cases(CaseId),
+          CONSTRAINT UQ_TrialSessions_CaseSession UNIQUE (CaseId, SessionNumber)
+        );
+        CREATE INDEX IX_TrialSessions_Slot ON dbo.TrialSessions(ScheduledDate, ScheduledTime);
+      END
+    `);
+  } catch (err) {
+    console.warn("⚠️ [TrialSession] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureTrialSessionsTable();
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * UTC timestamp (ms) of a session start. Dates and times are stored in the
+ * attorney's local time; timezoneOffset is minutes ahead of UTC.
+ */
+function getSessionStartUtc(scheduledDate, scheduledTime, timezoneOffset) {
+  const [year, month, day] = String(scheduledDate).slice(0, 10).split("-").map(Number);
+  const [hours, minutes, seconds = 0] = String(scheduledTime).split(":").map(Number);
+  const offsetMinutes = parseInt(timezoneOffset || 0, 10);
+  return Date.UTC(year, month - 1, day, hours, minutes, seconds) - offsetMinutes * 60 * 1000;
+}
+
+function mapSession(row) {
+  return {
+    sessionId: row.SessionId,
+    sessionNumber: row.SessionNumber,
+    label: row.Label,
+    scheduledDate: row.ScheduledDate,
+    scheduledTime: row.ScheduledTime,
+    isPrimary: false,
+  };
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Validate the additional sessions for a case. Each must fall on a later day
+ * than the one before it, starting after the case's own trial date.
+ * @returns {Array} [{ label, scheduledDate, scheduledTime }] with time as HH:MM:SS
+ */
+function validateSessions(caseData, sessions) {
+  if (!Array.isArray(sessions)) {
+    throw new Error("Trial session validation failed: sessions must be an array");
+  }
+  if (sessions.length > MAX_SESSIONS - 1) {
+    throw new Error(`Trial session validation failed: A trial can have at most ${MAX_SESSIONS} sessions`);
+  }
+
+  const today = new Date(Date.now() + (caseData.TimezoneOffset || 0) * 60000).toISOString().slice(0, 10);
+  let previousDate = caseData.ScheduledDate;
+
+  return sessions.map((session, index) => {
+    const number = index + 2;
+    const { scheduledDate, scheduledTime } = session || {};
+    const label = typeof session?.label === "string" ? session.label.trim() : "";
+
+    if (typeof scheduledDate !== "string" || !DATE_REGEX.test(scheduledDate)) {
+      throw new Error(`Trial session validation failed: Session ${number} needs a date (YYYY-MM-DD)`);
+    }
+    if (typeof scheduledTime !== "string" || !TIME_REGEX.test(scheduledTime.trim())) {
+      throw new Error(`Trial session validation failed: Session ${number} needs a time (HH:MM)`);
+    }
+    if (label.length > MAX_LABEL_LENGTH) {
+      throw new Error(`Trial session validation failed: Session labels cannot exceed ${MAX_LABEL_LENGTH} characters`);
+    }
+    if (scheduledDate < today) {
+      throw new Error(`Trial session validation failed: Session ${number} cannot be in the past`);
+    }
+    if (previousDate && scheduledDate <= previousDate) {
+      throw new Error(`Trial session validation failed: Session ${number} must be on a later day than session ${number - 1}`);
+    }
+    previousDate = scheduledDate;
+
+    const [hours, minutes, seconds = "00"] = scheduledTime.trim().split(":");
+    return {
+      label: label || null,
+      scheduledDate,
+      scheduledTime: `${hours}:${minutes}:${seconds}`,
+    };
+  });
+}
+
+// ============================================
+// SESSION OPERATIONS
+// ============================================
+
+/**
+ * All sessions for a case in order, with the case's own schedule as session 1
+ *
+ * @param {Object} caseData - Case (from Case.findById)
+ * @returns {Promise<Array>} [{ sessionId, sessionNumber, label, scheduledDate, scheduledTime, isPrimary }]
+ */
+async function getSessionsForCase(caseData) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool.request().input("caseId", sql.Int, caseData.CaseId).query(`
+      SELECT
+        SessionId,
+        SessionNumber,
+        Label,
+        CONVERT(VARCHAR(10), ScheduledDate, 120) AS ScheduledDate,
+        ScheduledTime
+      FROM dbo.TrialSessions
+      WHERE CaseId = @caseId
+      ORDER BY SessionNumber ASC
+    `);
+
+    const sessions = [];
+    if (caseData.ScheduledDate && caseData.ScheduledTime) {
+      sessions.push({
+        sessionId: null,
+        sessionNumber: 1,
+        label: null,
+        scheduledDate: caseData.ScheduledDate,
+        scheduledTime: caseData.ScheduledTime,
+        isPrimary: true,
+      });
+    }
+
+    return sessions.concat(result.recordset.map(mapSession));
+  } catch (error) {
+    console.error("❌ [TrialSession.getSessionsForCase] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Check a session slot against other cases' trials (and their sessions)
+ * and against slots blocked on the admin calendar
+ */
+async function checkSessionSlot(caseId, scheduledDate, scheduledTime) {
+  const availability = await Case.checkSlotAvailability(scheduledDate, scheduledTime, caseId);
+  if (!availability.available) return availability;
+
+  const isOpen = await AdminCalendar.isSlotAvailable(scheduledDate, scheduledTime);
+  return isOpen ? { available: true } : { available: false, blockedByAdmin: true };
+}
+
+/**
+ * Replace the additional sessions of a case (Attorney only).
+ * Sessions whose date and time are unchanged keep their notification and
+ * reminder state so nobody is emailed twice.
+ *
+ * @param {Object} caseData - Case (from Case.findById)
+ * @param {Array} sessions - [{ label, scheduledDate, scheduledTime }] for sessions 2..n
+ * @returns {Promise<Array>} All sessions for the case (see getSessionsForCase)
+ */
+async function replaceSessions(caseData, sessions) {
+  try {
+    if (!EDITABLE_STATES.includes(caseData.AttorneyStatus)) {
+      throw new Error("Trial session validation failed: Sessions can no longer be changed for this case");
+    }
+    if (!caseData.ScheduledDate || !caseData.ScheduledTime) {
+      throw new Error("Trial session validation failed: Schedule the case before adding sessions");
+    }
+
+    const validated = validateSessions(caseData, sessions);
+
+    for (const [index, session] of validated.entries()) {
+      const availability = await checkSessionSlot(caseData.CaseId, session.scheduledDate, session.scheduledTime);
+      if (!availability.available) {
+        throw new Error(
+          `Trial session validation failed: The slot for session ${index + 2} (${session.scheduledDate} ${session.scheduledTime.slice(0, 5)}) is not available`
+        );
+      }
+    }
+
+    const pool = await poolPromise;
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      const existing = await transaction.request().input("caseId", sql.Int, caseData.CaseId).query(`
+        SELECT SessionNumber, CONVERT(VARCHAR(10), ScheduledDate, 120) AS ScheduledDate, ScheduledTime
+        FROM dbo.TrialSessions
+        WHERE CaseId = @caseId
+      `);
+      const existingByNumber = new Map(existing.recordset.map((row) => [row.SessionNumber, row]));
+
+      await transaction
+        .request()
+        .input("caseId", sql.Int, caseData.CaseId)
+        .input("sessionCount", sql.Int, validated.length + 1)
+        .query("DELETE FROM dbo.TrialSessions WHERE CaseId = @caseId AND SessionNumber > @sessionCount");
+
+      for (const [index, session] of validated.entries()) {
+        const sessionNumber = index + 2;
+        const current = existingByNumber.get(sessionNumber);
+        const request = transaction
+          .request()
+          .input("caseId", sql.Int, caseData.CaseId)
+          .input("sessionNumber", sql.Int, sessionNumber)
+          .input("label", sql.NVarChar(MAX_LABEL_LENGTH), session.label)
+          .input("scheduledDate", sql.Date, session.scheduledDate)
+          .input("scheduledTime", sql.VarChar(8), session.scheduledTime);
+
+        if (!current) {
+          await request.query(`
+            INSERT INTO dbo.TrialSessions (CaseId, SessionNumber, Label, ScheduledDate, ScheduledTime)
+            VALUES (@caseId, @sessionNumber, @label, @scheduledDate, @scheduledTime)
+          `);
+        } else if (current.ScheduledDate === session.scheduledDate && current.ScheduledTime === session.scheduledTime) {
+          await request.query(`
+            UPDATE dbo.TrialSessions
+            SET Label = @label, UpdatedAt = GETUTCDATE()
+            WHERE CaseId = @caseId AND SessionNumber = @sessionNumber
+          `);
+        } else {
+          await request.query(`
+            UPDATE dbo.TrialSessions
+            SET Label = @label,
+                ScheduledDate = @scheduledDate,
+                ScheduledTime = @scheduledTime,
+                NotificationsSent = 0,
+                LastReminderDays = NULL,
+                UpdatedAt = GETUTCDATE()
+            WHERE CaseId = @caseId AND SessionNumber = @sessionNumber
+          `);
+        }
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    return await getSessionsForCase(caseData);
+  } catch (error) {
+    console.error("❌ [TrialSession.replaceSessions] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// JOIN WINDOW
+// ============================================
+
+/**
+ * Work out which session the conference belongs to right now.
+ *
+ * - open: a session is on today and its join window has opened
+ * - upcoming: the next session has not opened yet (before the trial or between days)
+ * - ended: the last session's day is over
+ * - null: the case has not been scheduled
+ *
+ * @param {Object} caseData - Case (from Case.findById)
+ * @param {Array} sessions - From getSessionsForCase
+ * @param {number} now - Current time in ms (defaults to Date.now())
+ * @returns {Object} { state, session, totalSessions, isSessionDay, startsAt, canJoinAt }
+ */
+function getJoinWindow(caseData, sessions, now = Date.now()) {
+  const totalSessions = sessions.length;
+  if (totalSessions === 0) {
+    return { state: null, session: null, totalSessions, isSessionDay: false };
+  }
+
+  const today = new Date(now + (caseData.TimezoneOffset || 0) * 60000).toISOString().slice(0, 10);
+
+  const session =
+    sessions.find((s) => s.scheduledDate === today) ||
+    sessions.find((s) => s.scheduledDate > today);
+
+  if (!session) {
+    return { state: "ended", session: sessions[totalSessions - 1], totalSessions, isSessionDay: false };
+  }
+
+  const startsAt = getSessionStartUtc(session.scheduledDate, session.scheduledTime, caseData.TimezoneOffset);
+  const canJoinAt = startsAt - JOIN_WINDOW_MINUTES * 60 * 1000;
+
+  return {
+    state: now >= canJoinAt ? "open" : "upcoming",
+    session,
+    totalSessions,
+    isSessionDay: session.scheduledDate === today,
+    startsAt,
+    canJoinAt,
+  };
+}
+
+/**
+ * Display name for a session, e.g. "Session 2 (Deliberation)"
+ */
+function describeSession(sessionNumber, label) {
+  return label ? `Session ${sessionNumber} (${label})` : `Session ${sessionNumber}`;
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  MAX_SESSIONS,
+  JOIN_WINDOW_MINUTES,
+  EDITABLE_STATES,
+
+  // Sessions
+  getSessionsForCase,
+  replaceSessions,
+
+  // Join window
+  getSessionStartUtc,
+  getJoinWindow,
+  describeSession,
+};
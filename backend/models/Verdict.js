@@ -5,6 +5,48 @@
 
 const { poolPromise, sql } = require("../config/db");
 
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Verdict modes
+ * - individual: every approved juror submits their own verdict
+ * - panel: the presiding juror (foreperson) submits once for the whole panel
+ */
+const VERDICT_MODES = {
+  INDIVIDUAL: "individual",
+  PANEL: "panel",
+};
+
+const FOREPERSON_SELECTION_METHODS = {
+  RANDOM: "random",
+  MANUAL: "manual",
+};
+
+// Currency question type; MinValue/MaxValue on the question bound the answer in dollars
+const DAMAGES_QUESTION_TYPE = "Damages Amount";
+
+const DAMAGES_PERCENTILES = [10, 25, 75, 90];
+const DAMAGES_HISTOGRAM_BINS = 8;
+
+/**
+ * Juror profile attributes available for cross-tab analytics
+ * (collected at signup in PersonalDetails1)
+ */
+const CROSSTAB_ATTRIBUTES = {
+  ageRange: { column: "AgeRange", label: "Age Range" },
+  gender: { column: "Gender", label: "Gender" },
+  education: { column: "Education", label: "Education" },
+  maritalStatus: { column: "MaritalStatus", label: "Marital Status" },
+  yearsInCounty: { column: "YearsInCounty", label: "Years in County" },
+};
+
+// Cells smaller than this are suppressed so individual jurors can't be singled out
+const MIN_CROSSTAB_CELL_SIZE = 3;
+const CROSSTAB_OTHER_GROUP = "Other";
+const CROSSTAB_NOT_PROVIDED = "Not provided";
+
 // ============================================
 // VALIDATION HELPERS
 // ============================================
@@ -30,6 +72,46 @@ function validateVerdictData(data) {
   }
 }
 
+/**
+ * Parse a damages answer ("$125,000.50" or "125000.5") into a number
+ * @returns {number|null} Dollar amount, or null when blank or not a number
+ */
+function parseDamagesAmount(value) {
+  if (value === undefined || value === null) return null;
+  const cleaned = String(value).replace(/[$,\s]/g, "");
+  if (cleaned === "") return null;
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+/**
+ * Check damages answers are valid amounts within each question's bounds
+ * @param {Array} questions - Questions with QuestionId, QuestionText, QuestionType, MinValue, MaxValue
+ * @param {Object} responses - Map of questionId (string) -> answer
+ * @returns {Object} { isValid, error? }
+ */
+function validateDamagesResponses(questions, responses = {}) {
+  for (const q of questions) {
+    if (q.QuestionType !== DAMAGES_QUESTION_TYPE) continue;
+
+    const raw = responses[q.QuestionId.toString()];
+    if (raw === undefined || raw === null || String(raw).trim() === "") continue;
+
+    const amount = parseDamagesAmount(raw);
+    if (amount === null || amount < 0) {
+      return { isValid: false, error: `"${q.QuestionText}" must be a dollar amount of 0 or more` };
+    }
+    if (q.MinValue !== null && q.MinValue !== undefined && amount < q.MinValue) {
+      return { isValid: false, error: `"${q.QuestionText}" must be at least $${q.MinValue.toLocaleString("en-US")}` };
+    }
+    if (q.MaxValue !== null && q.MaxValue !== undefined && amount > q.MaxValue) {
+      return { isValid: false, error: `"${q.QuestionText}" must be at most $${q.MaxValue.toLocaleString("en-US")}` };
+    }
+  }
+
+  return { isValid: true };
+}
+
 /**
  * Safe JSON parse/stringify helpers
  */
@@ -72,11 +154,12 @@ async function submitVerdict(verdictData) {
       .input("caseId", sql.Int, parseInt(verdictData.caseId))
       .input("jurorId", sql.Int, parseInt(verdictData.jurorId))
       .query(`
-        SELECT VerdictId FROM dbo.Verdicts
+        SELECT VerdictId, SubmittedAt FROM dbo.Verdicts
         WHERE CaseId = @caseId AND JurorId = @jurorId
       `);
 
-    if (existingResult.recordset.length > 0) {
+    const existing = existingResult.recordset[0];
+    if (existing && existing.SubmittedAt) {
       throw new Error("Verdict already submitted for this juror");
     }
 
@@ -98,6 +181,28 @@ async function submitVerdict(verdictData) {
       throw new Error("Jury charge has not been released yet");
     }
 
+    // Promote an existing draft instead of inserting a second row
+    if (existing) {
+      await pool
+        .request()
+        .input("verdictId", sql.Int, existing.VerdictId)
+        .input(
+          "responses",
+          sql.NVarChar(sql.MAX),
+          safeJSONStringify(verdictData.responses)
+        )
+        .query(`
+          UPDATE dbo.Verdicts
+          SET Responses = @responses,
+              IsSubmitted = 1,
+              SubmittedAt = GETUTCDATE(),
+              UpdatedAt = GETUTCDATE()
+          WHERE VerdictId = @verdictId
+        `);
+
+      return existing.VerdictId;
+    }
+
     // Insert new verdict
     const result = await pool
       .request()
@@ -239,6 +344,31 @@ async function loadDraft(caseId, jurorId) {
 // READ
 // ============================================
 
+/**
+ * Get a case's jury charge questions in order, with their conditions
+ * @param {number} caseId
+ * @returns {Promise<Array>}
+ */
+async function getCaseQuestions(caseId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId))
+      .query(`
+        SELECT QuestionId, QuestionText, QuestionType, IsRequired, OrderIndex, MinValue, MaxValue, Condition
+        FROM dbo.JuryChargeQuestions
+        WHERE CaseId = @caseId
+        ORDER BY OrderIndex ASC
+      `);
+
+    return result.recordset;
+  } catch (error) {
+    console.error("❌ [Verdict.getCaseQuestions] Error:", error.message);
+    throw error;
+  }
+}
+
 /**
  * Get verdict by ID
  * @param {number} verdictId
@@ -354,7 +484,7 @@ async function getVerdictsByCase(caseId) {
           j.Email AS JurorEmail
         FROM dbo.Verdicts v
         LEFT JOIN dbo.Jurors j ON v.JurorId = j.JurorId
-        WHERE v.CaseId = @caseId
+        WHERE v.CaseId = @caseId AND v.SubmittedAt IS NOT NULL
         ORDER BY v.SubmittedAt ASC
       `);
 
@@ -412,21 +542,39 @@ async function getSubmissionStatus(caseId) {
         ORDER BY v.SubmittedAt ASC, j.Name ASC
       `);
 
-    const jurors = jurorResult.recordset.map((row) => ({
-      jurorId: row.JurorId,
-      name: row.Name,
-      email: row.Email,
-      status: row.VerdictId ? "submitted" : "pending",
-      submittedAt: row.SubmittedAt || null,
-    }));
+    const settings = await getVerdictSettings(caseId);
+    const isPanel = settings.verdictMode === VERDICT_MODES.PANEL;
+
+    const jurors = jurorResult.recordset.map((row) => {
+      let status = row.SubmittedAt ? "submitted" : "pending";
+      // In panel mode only the foreperson submits; everyone else is represented by them
+      if (isPanel && row.JurorId !== settings.forepersonJurorId) {
+        status = "represented";
+      }
+      return {
+        jurorId: row.JurorId,
+        name: row.Name,
+        email: row.Email,
+        status,
+        isForeperson: row.JurorId === settings.forepersonJurorId,
+        submittedAt: row.SubmittedAt || null,
+      };
+    });
 
     const submitted = jurors.filter((j) => j.status === "submitted").length;
-    const pending = jurors.filter((j) => j.status === "pending").length;
+    let pending = jurors.filter((j) => j.status === "pending").length;
+
+    // A panel verdict cannot be completed until a foreperson has been designated
+    if (isPanel && !settings.forepersonJurorId && jurors.length > 0) {
+      pending = 1;
+    }
 
     return {
       totalJurors: jurors.length,
       submitted,
       pending,
+      verdictMode: settings.verdictMode,
+      forepersonJurorId: settings.forepersonJurorId,
       jurors,
     };
   } catch (error) {
@@ -451,9 +599,26 @@ async function getAggregatedResults(caseId) {
     // Get all verdicts for the case
     const verdicts = await getVerdictsByCase(caseId);
 
+    const settings = await getVerdictSettings(caseId);
+    const panelVerdict =
+      settings.forepersonJurorId &&
+      verdicts.find((v) => v.JurorId === settings.forepersonJurorId);
+
+    const modeSummary = {
+      verdictMode: settings.verdictMode,
+      panel: panelVerdict
+        ? {
+            forepersonJurorId: panelVerdict.JurorId,
+            forepersonName: panelVerdict.JurorName,
+            submittedAt: panelVerdict.SubmittedAt,
+          }
+        : null,
+    };
+
     if (verdicts.length === 0) {
       return {
         totalVerdicts: 0,
+        ...modeSummary,
         questions: [],
       };
     }
@@ -468,7 +633,9 @@ async function getAggregatedResults(caseId) {
           QuestionText,
           QuestionType,
           Options,
-          IsRequired
+          IsRequired,
+          MinValue,
+          MaxValue
         FROM dbo.JuryChargeQuestions
         WHERE CaseId = @caseId
         ORDER BY OrderIndex ASC
@@ -561,6 +728,12 @@ async function getAggregatedResults(caseId) {
             count: numbers.length,
           };
         }
+      } else if (q.QuestionType === DAMAGES_QUESTION_TYPE) {
+        const amounts = responses
+          .map((r) => parseDamagesAmount(r.answer))
+          .filter((n) => n !== null);
+
+        results = summarizeDamages(amounts, { min: q.MinValue, max: q.MaxValue });
       } else if (q.QuestionType === "Text Response") {
         // Just return all text responses
         results = {
@@ -580,11 +753,14 @@ async function getAggregatedResults(caseId) {
         isRequired: q.IsRequired,
         results,
         individual: responses,
+        // The foreperson's answer is the panel's answer in panel mode
+        panelAnswer: panelVerdict ? panelVerdict.Responses[questionId] ?? null : null,
       };
     });
 
     return {
       totalVerdicts: verdicts.length,
+      ...modeSummary,
       questions,
     };
   } catch (error) {
@@ -593,6 +769,748 @@ async function getAggregatedResults(caseId) {
   }
 }
 
+/**
+ * Linear-interpolated percentile of a sorted array
+ */
+function percentile(sorted, p) {
+  if (sorted.length === 1) return sorted[0];
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Summarize damages awards so attorneys can see the likely range
+ * @param {number[]} amounts - Parsed dollar amounts
+ * @param {Object} bounds - { min, max } configured on the question
+ * @returns {Object} mean, median, min, max, percentiles and histogram buckets
+ */
+function summarizeDamages(amounts, bounds = {}) {
+  if (amounts.length === 0) {
+    return { count: 0, bounds, percentiles: {}, histogram: [] };
+  }
+
+  const sorted = [...amounts].sort((a, b) => a - b);
+  const sum = sorted.reduce((acc, n) => acc + n, 0);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+
+  const percentiles = {};
+  DAMAGES_PERCENTILES.forEach((p) => {
+    percentiles[`p${p}`] = Math.round(percentile(sorted, p) * 100) / 100;
+  });
+
+  // Equal-width buckets between the lowest and highest award
+  const binCount = min === max ? 1 : Math.min(DAMAGES_HISTOGRAM_BINS, sorted.length);
+  const width = (max - min) / binCount;
+  const histogram = Array.from({ length: binCount }, (_, i) => ({
+    from: Math.round((min + width * i) * 100) / 100,
+    to: Math.round((i === binCount - 1 ? max : min + width * (i + 1)) * 100) / 100,
+    count: 0,
+  }));
+  sorted.forEach((amount) => {
+    const index = width === 0 ? 0 : Math.min(binCount - 1, Math.floor((amount - min) / width));
+    histogram[index].count += 1;
+  });
+
+  return {
+    count: sorted.length,
+    mean: Math.round((sum / sorted.length) * 100) / 100,
+    median: Math.round(percentile(sorted, 50) * 100) / 100,
+    min,
+    max,
+    percentiles,
+    histogram,
+    bounds,
+  };
+}
+
+/**
+ * Get profile demographics for jurors who submitted a verdict
+ * @param {number} caseId
+ * @returns {Promise<Array>} [{ JurorId, AgeRange, Gender, Education, MaritalStatus, YearsInCounty }]
+ */
+async function getJurorDemographics(caseId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId))
+      .query(`
+        SELECT v.JurorId, j.AgeRange, j.Gender, j.Education, j.MaritalStatus, j.YearsInCounty
+        FROM dbo.Verdicts v
+        LEFT JOIN dbo.Jurors j ON v.JurorId = j.JurorId
+        WHERE v.CaseId = @caseId AND v.SubmittedAt IS NOT NULL
+        ORDER BY v.SubmittedAt ASC
+      `);
+
+    return result.recordset;
+  } catch (error) {
+    console.error("❌ [Verdict.getJurorDemographics] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Suppress small answer counts in a group x option table. A hidden cell could
+ * be worked out from row or column totals when it is the only one hidden in
+ * that row/column, so the next smallest cell there is hidden too, repeating
+ * until no row or column has exactly one hidden cell.
+ * @param {Object} table - { [group]: { [option]: count } }
+ * @returns {Set<string>} Keys "group\u0000option" of suppressed cells
+ */
+function suppressSmallCells(table) {
+  const key = (group, option) => `${group}\u0000${option}`;
+  const suppressed = new Set();
+  const cells = [];
+  Object.entries(table).forEach(([group, counts]) =>
+    Object.entries(counts).forEach(([option, count]) => {
+      if (count > 0) cells.push({ group, option, count });
+      if (count > 0 && count < MIN_CROSSTAB_CELL_SIZE) suppressed.add(key(group, option));
+    })
+  );
+
+  const protectLines = (lineOf) => {
+    let changed = false;
+    const lines = {};
+    cells.forEach((c) => {
+      (lines[lineOf(c)] = lines[lineOf(c)] || []).push(c);
+    });
+    Object.values(lines).forEach((line) => {
+      const hidden = line.filter((c) => suppressed.has(key(c.group, c.option)));
+      if (hidden.length !== 1) return;
+      const nextSmallest = line
+        .filter((c) => !suppressed.has(key(c.group, c.option)))
+        .sort((a, b) => a.count - b.count)[0];
+      if (nextSmallest) {
+        suppressed.add(key(nextSmallest.group, nextSmallest.option));
+        changed = true;
+      }
+    });
+    return changed;
+  };
+
+  let changed = suppressed.size > 0;
+  while (changed) {
+    const rowsChanged = protectLines((c) => c.group);
+    const columnsChanged = protectLines((c) => c.option);
+    changed = rowsChanged || columnsChanged;
+  }
+
+  return suppressed;
+}
+
+/**
+ * Cross-tabulate each jury charge answer by a juror profile attribute.
+ * Groups smaller than MIN_CROSSTAB_CELL_SIZE are pooled (smallest first) into
+ * "Other" until it is large enough, and small answer counts are suppressed.
+ * @param {number} caseId
+ * @param {string} attribute - Key of CROSSTAB_ATTRIBUTES
+ * @returns {Promise<Object>} { attribute, groups, questions }
+ */
+async function getCrossTabResults(caseId, attribute) {
+  try {
+    const attributeConfig = CROSSTAB_ATTRIBUTES[attribute];
+    if (!attributeConfig) {
+      throw new Error(
+        `Cross-tab validation failed: attribute must be one of ${Object.keys(CROSSTAB_ATTRIBUTES).join(", ")}`
+      );
+    }
+
+    const [results, demographics] = await Promise.all([
+      getAggregatedResults(caseId),
+      getJurorDemographics(caseId),
+    ]);
+
+    const jurorGroup = new Map();
+    const sizes = {};
+    demographics.forEach((row) => {
+      const value = row[attributeConfig.column];
+      const label =
+        value !== null && value !== undefined && String(value).trim()
+          ? String(value).trim()
+          : CROSSTAB_NOT_PROVIDED;
+      jurorGroup.set(row.JurorId, label);
+      sizes[label] = (sizes[label] || 0) + 1;
+    });
+
+    // Pool small groups into "Other", smallest first, until "Other" is big enough
+    const pooled = new Set();
+    let otherSize = 0;
+    const bySize = Object.keys(sizes).sort((a, b) => sizes[a] - sizes[b]);
+    for (const label of bySize) {
+      const needsPooling = sizes[label] < MIN_CROSSTAB_CELL_SIZE || (otherSize > 0 && otherSize < MIN_CROSSTAB_CELL_SIZE);
+      if (!needsPooling) break;
+      pooled.add(label);
+      otherSize += sizes[label];
+    }
+    jurorGroup.forEach((label, jurorId) => {
+      if (pooled.has(label)) jurorGroup.set(jurorId, CROSSTAB_OTHER_GROUP);
+    });
+
+    const groupSizes = {};
+    jurorGroup.forEach((label) => {
+      groupSizes[label] = (groupSizes[label] || 0) + 1;
+    });
+
+    // Fewer jurors than the minimum in total: nothing can be shown safely
+    const groups = Object.entries(groupSizes)
+      .sort((a, b) => (a[0] === CROSSTAB_OTHER_GROUP) - (b[0] === CROSSTAB_OTHER_GROUP) || b[1] - a[1])
+      .map(([label, jurorCount]) => ({
+        label,
+        jurorCount: jurorCount < MIN_CROSSTAB_CELL_SIZE ? null : jurorCount,
+        suppressed: jurorCount < MIN_CROSSTAB_CELL_SIZE,
+      }));
+
+    const questions = results.questions
+      .filter((q) => q.questionType !== "Text Response")
+      .map((q) => {
+        const answersByGroup = {};
+        groups.forEach((group) => {
+          answersByGroup[group.label] = q.individual
+            .filter((r) => jurorGroup.get(r.jurorId) === group.label)
+            .map((r) => r.answer)
+            .filter((a) => a !== undefined && a !== null && String(a).trim() !== "");
+        });
+
+        if (q.questionType === DAMAGES_QUESTION_TYPE || q.questionType === "Numeric Response") {
+          return {
+            questionId: q.questionId,
+            questionText: q.questionText,
+            questionType: q.questionType,
+            rows: groups.map((group) => {
+              const amounts = answersByGroup[group.label].map(parseDamagesAmount).filter((n) => n !== null);
+              if (group.suppressed || amounts.length < MIN_CROSSTAB_CELL_SIZE) {
+                return { group: group.label, suppressed: true };
+              }
+              const summary = summarizeDamages(amounts);
+              return {
+                group: group.label,
+                count: summary.count,
+                mean: summary.mean,
+                median: summary.median,
+                suppressed: false,
+              };
+            }),
+          };
+        }
+
+        // Choice questions: count each option (Multiple Select answers are comma-separated)
+        const table = {};
+        const options = new Set();
+        groups.forEach((group) => {
+          table[group.label] = {};
+          answersByGroup[group.label].forEach((answer) => {
+            const values =
+              q.questionType === "Multiple Select"
+                ? String(answer).split(",").map((v) => v.trim()).filter(Boolean)
+                : [String(answer).trim()];
+            values.forEach((v) => {
+              options.add(v);
+              table[group.label][v] = (table[group.label][v] || 0) + 1;
+            });
+          });
+        });
+        const suppressed = suppressSmallCells(table);
+
+        return {
+          questionId: q.questionId,
+          questionText: q.questionText,
+          questionType: q.questionType,
+          options: [...options],
+          rows: groups.map((group) => {
+            if (group.suppressed) {
+              return { group: group.label, suppressed: true };
+            }
+            const answered = answersByGroup[group.label].length;
+            return {
+              group: group.label,
+              count: answered,
+              suppressed: false,
+              cells: [...options].map((option) => {
+                const count = table[group.label][option] || 0;
+                return suppressed.has(`${group.label}\u0000${option}`)
+                  ? { option, count: null, percentage: null, suppressed: true }
+                  : {
+                      option,
+                      count,
+                      percentage: answered > 0 ? Math.round((count / answered) * 1000) / 10 : 0,
+                      suppressed: false,
+                    };
+              }),
+            };
+          }),
+        };
+      });
+
+    return {
+      attribute,
+      attributeLabel: attributeConfig.label,
+      attributes: Object.entries(CROSSTAB_ATTRIBUTES).map(([key, config]) => ({ key, label: config.label })),
+      minCellSize: MIN_CROSSTAB_CELL_SIZE,
+      totalVerdicts: results.totalVerdicts,
+      groups,
+      questions,
+    };
+  } catch (error) {
+    console.error("❌ [Verdict.getCrossTabResults] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// RERUN COMPARISON
+// ============================================
+
+const CHOICE_QUESTION_TYPES = ["Multiple Choice", "Multiple Select", "Yes/No"];
+
+const roundOne = (n) => Math.round(n * 10) / 10;
+const roundCents = (n) => Math.round(n * 100) / 100;
+
+/**
+ * Key used to line up the same question across runs. Re-runs copy the jury
+ * charge, so the text and type match unless the attorney edited the question.
+ */
+function comparisonQuestionKey(question) {
+  const text = String(question.questionText || "").trim().replace(/\s+/g, " ").toLowerCase();
+  return `${question.questionType}\u0000${text}`;
+}
+
+/**
+ * Share of answering jurors choosing each option (Multiple Select answers are comma-separated)
+ */
+function answerDistribution(question) {
+  const counts = {};
+  let answered = 0;
+  question.individual.forEach((r) => {
+    if (r.answer === undefined || r.answer === null || String(r.answer).trim() === "") return;
+    answered += 1;
+    const values =
+      question.questionType === "Multiple Select"
+        ? String(r.answer).split(",").map((v) => v.trim()).filter(Boolean)
+        : [String(r.answer).trim()];
+    values.forEach((v) => {
+      counts[v] = (counts[v] || 0) + 1;
+    });
+  });
+
+  const percentages = {};
+  Object.entries(counts).forEach(([option, count]) => {
+    percentages[option] = answered > 0 ? roundOne((count / answered) * 100) : 0;
+  });
+  return { answered, counts, percentages };
+}
+
+/**
+ * Range of amounts for a Damages Amount or Numeric Response question
+ */
+function amountRange(question) {
+  const amounts = question.individual
+    .map((r) => parseDamagesAmount(r.answer))
+    .filter((n) => n !== null);
+  const summary = summarizeDamages(amounts);
+  if (summary.count === 0) {
+    return { count: 0, mean: null, median: null, p25: null, p75: null, min: null, max: null };
+  }
+  return {
+    count: summary.count,
+    mean: summary.mean,
+    median: summary.median,
+    p25: summary.percentiles.p25,
+    p75: summary.percentiles.p75,
+    min: summary.min,
+    max: summary.max,
+  };
+}
+
+/**
+ * Juror profile mix for one run, per cross-tab attribute
+ * @returns {Object} { [attribute]: { total, counts: { [group]: count } } }
+ */
+function demographicMix(demographics) {
+  const mix = {};
+  Object.entries(CROSSTAB_ATTRIBUTES).forEach(([attribute, config]) => {
+    const counts = {};
+    demographics.forEach((row) => {
+      const value = row[config.column];
+      const label =
+        value !== null && value !== undefined && String(value).trim()
+          ? String(value).trim()
+          : CROSSTAB_NOT_PROVIDED;
+      counts[label] = (counts[label] || 0) + 1;
+    });
+    mix[attribute] = { total: demographics.length, counts };
+  });
+  return mix;
+}
+
+/**
+ * Compare verdict results across runs of the same case. Questions are lined
+ * up by text and type; answer and damages deltas are measured against the
+ * earliest run that asked the question, juror mix against the first run.
+ *
+ * @param {Array} runs - [{ caseId, runNumber, ... }] oldest first (from CaseRerun.getLinkedCases)
+ * @returns {Promise<Object>} { runs, questions, unmatchedQuestions, demographics }
+ */
+async function getRerunComparison(runs) {
+  try {
+    const perRun = await Promise.all(
+      runs.map(async (run) => {
+        const [results, demographics] = await Promise.all([
+          getAggregatedResults(run.caseId),
+          getJurorDemographics(run.caseId),
+        ]);
+        return { run, results, demographics };
+      })
+    );
+
+    // Line up questions, keeping the order of the earliest run that has them
+    const aligned = new Map();
+    perRun.forEach(({ run, results }) => {
+      results.questions
+        .filter((q) => q.questionType !== "Text Response")
+        .forEach((q) => {
+          const key = comparisonQuestionKey(q);
+          if (!aligned.has(key)) {
+            aligned.set(key, { questionText: q.questionText, questionType: q.questionType, byRun: new Map() });
+          }
+          // A run asking the same question twice is compared on its first copy
+          const entry = aligned.get(key);
+          if (!entry.byRun.has(run.caseId)) entry.byRun.set(run.caseId, q);
+        });
+    });
+
+    const questions = [];
+    const unmatchedQuestions = [];
+
+    aligned.forEach((entry) => {
+      if (entry.byRun.size < 2) {
+        const [caseId, q] = [...entry.byRun.entries()][0];
+        unmatchedQuestions.push({
+          caseId,
+          runNumber: runs.find((r) => r.caseId === caseId).runNumber,
+          questionText: q.questionText,
+          questionType: q.questionType,
+        });
+        return;
+      }
+
+      const isChoice = CHOICE_QUESTION_TYPES.includes(entry.questionType);
+      const summaries = runs
+        .filter((run) => entry.byRun.has(run.caseId))
+        .map((run) => ({
+          caseId: run.caseId,
+          runNumber: run.runNumber,
+          questionId: entry.byRun.get(run.caseId).questionId,
+          ...(isChoice
+            ? answerDistribution(entry.byRun.get(run.caseId))
+            : amountRange(entry.byRun.get(run.caseId))),
+        }));
+      // Deltas are measured against the earliest run that asked the question
+      const base = summaries[0];
+
+      if (isChoice) {
+        const options = [...new Set(summaries.flatMap((s) => Object.keys(s.counts)))];
+        questions.push({
+          questionText: entry.questionText,
+          questionType: entry.questionType,
+          options,
+          runs: summaries.map((s) => ({
+            caseId: s.caseId,
+            runNumber: s.runNumber,
+            questionId: s.questionId,
+            answered: s.answered,
+            options: options.map((option) => {
+              const percentage = s.percentages[option] || 0;
+              return {
+                option,
+                count: s.counts[option] || 0,
+                percentage,
+                // Percentage-point change from the first run
+                delta: s !== base ? roundOne(percentage - (base.percentages[option] || 0)) : null,
+              };
+            }),
+          })),
+        });
+        return;
+      }
+
+      const shift = (s, field) =>
+        s !== base && s[field] !== null && base[field] !== null ? roundCents(s[field] - base[field]) : null;
+
+      questions.push({
+        questionText: entry.questionText,
+        questionType: entry.questionType,
+        runs: summaries.map(({ counts, percentages, ...s }) => ({
+          ...s,
+          shift: {
+            mean: shift(s, "mean"),
+            median: shift(s, "median"),
+            p25: shift(s, "p25"),
+            p75: shift(s, "p75"),
+          },
+        })),
+      });
+    });
+
+    // Juror mix per run, with percentage-point change from the first run.
+    // Small groups are suppressed as in the cross-tab so jurors can't be singled out.
+    const mixes = perRun.map(({ run, demographics }) => ({ run, mix: demographicMix(demographics) }));
+    const baseMix = mixes[0]?.mix;
+    const demographics = Object.entries(CROSSTAB_ATTRIBUTES).map(([attribute, config]) => {
+      const groups = [...new Set(mixes.flatMap(({ mix }) => Object.keys(mix[attribute].counts)))].sort();
+      const share = (mix, group) =>
+        mix[attribute].total > 0 ? roundOne(((mix[attribute].counts[group] || 0) / mix[attribute].total) * 100) : 0;
+
+      const table = {};
+      groups.forEach((group) => {
+        table[group] = {};
+        mixes.forEach(({ run, mix }) => {
+          table[group][run.caseId] = mix[attribute].counts[group] || 0;
+        });
+      });
+      const suppressed = suppressSmallCells(table);
+      const isSuppressed = (group, run) => suppressed.has(`${group}\u0000${run.caseId}`);
+
+      return {
+        attribute,
+        label: config.label,
+        groups,
+        runs: mixes.map(({ run, mix }, index) => ({
+          caseId: run.caseId,
+          runNumber: run.runNumber,
+          jurorCount: mix[attribute].total,
+          groups: groups.map((group) =>
+            isSuppressed(group, run)
+              ? { group, count: null, percentage: null, delta: null, suppressed: true }
+              : {
+                  group,
+                  count: mix[attribute].counts[group] || 0,
+                  percentage: share(mix, group),
+                  delta:
+                    index > 0 && !isSuppressed(group, mixes[0].run)
+                      ? roundOne(share(mix, group) - share(baseMix, group))
+                      : null,
+                  suppressed: false,
+                }
+          ),
+        })),
+      };
+    });
+
+    return {
+      runs: perRun.map(({ run, results }) => ({ ...run, totalVerdicts: results.totalVerdicts })),
+      questions,
+      unmatchedQuestions,
+      demographics,
+      minCellSize: MIN_CROSSTAB_CELL_SIZE,
+    };
+  } catch (error) {
+    console.error("❌ [Verdict.getRerunComparison] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// VERDICT MODE & FOREPERSON
+// ============================================
+
+async function ensureVerdictModeColumns() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE Name = N'VerdictMode' AND Object_ID = Object_ID(N'dbo.Cases'))
+        ALTER TABLE dbo.Cases ADD VerdictMode NVARCHAR(20) NOT NULL CONSTRAINT DF_Cases_VerdictMode DEFAULT 'individual';
+      IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE Name = N'ForepersonJurorId' AND Object_ID = Object_ID(N'dbo.Cases'))
+        ALTER TABLE dbo.Cases ADD ForepersonJurorId INT NULL;
+      IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE Name = N'ForepersonSelectionMethod' AND Object_ID = Object_ID(N'dbo.Cases'))
+        ALTER TABLE dbo.Cases ADD ForepersonSelectionMethod NVARCHAR(20) NULL;
+      IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE Name = N'ForepersonSelectedAt' AND Object_ID = Object_ID(N'dbo.Cases'))
+        ALTER TABLE dbo.Cases ADD ForepersonSelectedAt DATETIME2 NULL;
+    `);
+  } catch (err) {
+    console.warn("⚠️ [Verdict] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureVerdictModeColumns();
+
+/**
+ * Get verdict mode and foreperson for a case
+ * @param {number} caseId
+ * @returns {Promise<Object>} { verdictMode, forepersonJurorId, forepersonName, selectionMethod, selectedAt }
+ */
+async function getVerdictSettings(caseId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId))
+      .query(`
+        SELECT c.VerdictMode, c.ForepersonJurorId, c.ForepersonSelectionMethod,
+               c.ForepersonSelectedAt, j.Name AS ForepersonName
+        FROM dbo.Cases c
+        LEFT JOIN dbo.Jurors j ON c.ForepersonJurorId = j.JurorId
+        WHERE c.CaseId = @caseId
+      `);
+
+    const row = result.recordset[0] || {};
+    return {
+      verdictMode: row.VerdictMode || VERDICT_MODES.INDIVIDUAL,
+      forepersonJurorId: row.ForepersonJurorId || null,
+      forepersonName: row.ForepersonName || null,
+      selectionMethod: row.ForepersonSelectionMethod || null,
+      selectedAt: row.ForepersonSelectedAt || null,
+    };
+  } catch (error) {
+    console.error("❌ [Verdict.getVerdictSettings] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Set the verdict mode for a case
+ * @param {number} caseId
+ * @param {string} mode - One of VERDICT_MODES
+ */
+async function setVerdictMode(caseId, mode) {
+  try {
+    if (!Object.values(VERDICT_MODES).includes(mode)) {
+      throw new Error(
+        `Verdict validation failed: mode must be one of ${Object.values(VERDICT_MODES).join(", ")}`
+      );
+    }
+
+    const pool = await poolPromise;
+
+    const submitted = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId))
+      .query(`
+        SELECT COUNT(*) AS SubmittedCount
+        FROM dbo.Verdicts
+        WHERE CaseId = @caseId AND SubmittedAt IS NOT NULL
+      `);
+
+    if (submitted.recordset[0].SubmittedCount > 0) {
+      throw new Error("Verdict mode cannot be changed after verdicts have been submitted");
+    }
+
+    await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId))
+      .input("mode", sql.NVarChar(20), mode)
+      .query(`UPDATE dbo.Cases SET VerdictMode = @mode WHERE CaseId = @caseId`);
+
+    return await getVerdictSettings(caseId);
+  } catch (error) {
+    console.error("❌ [Verdict.setVerdictMode] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Designate the presiding juror (foreperson) among approved jurors
+ * @param {number} caseId
+ * @param {Object} options - { method: 'random' | 'manual', jurorId }
+ */
+async function assignForeperson(caseId, { method, jurorId } = {}) {
+  try {
+    if (!Object.values(FOREPERSON_SELECTION_METHODS).includes(method)) {
+      throw new Error("Verdict validation failed: method must be 'random' or 'manual'");
+    }
+
+    const pool = await poolPromise;
+
+    const jurorsResult = await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId))
+      .query(`
+        SELECT JurorId FROM dbo.JurorApplications
+        WHERE CaseId = @caseId AND Status = 'approved'
+      `);
+
+    const approvedIds = jurorsResult.recordset.map((r) => r.JurorId);
+    if (approvedIds.length === 0) {
+      throw new Error("No approved jurors for this case");
+    }
+
+    const current = await getVerdictSettings(caseId);
+    if (current.forepersonJurorId) {
+      const forepersonVerdict = await getVerdictByJuror(caseId, current.forepersonJurorId);
+      if (forepersonVerdict && forepersonVerdict.SubmittedAt) {
+        throw new Error("Foreperson cannot be changed after the panel verdict is submitted");
+      }
+    }
+
+    let selectedId;
+    if (method === FOREPERSON_SELECTION_METHODS.RANDOM) {
+      selectedId = approvedIds[Math.floor(Math.random() * approvedIds.length)];
+    } else {
+      selectedId = parseInt(jurorId);
+      if (!approvedIds.includes(selectedId)) {
+        throw new Error("Selected juror is not approved for this case");
+      }
+    }
+
+    await pool
+      .request()
+      .input("caseId", sql.Int, parseInt(caseId))
+      .input("jurorId", sql.Int, selectedId)
+      .input("method", sql.NVarChar(20), method)
+      .query(`
+        UPDATE dbo.Cases
+        SET ForepersonJurorId = @jurorId,
+            ForepersonSelectionMethod = @method,
+            ForepersonSelectedAt = GETUTCDATE()
+        WHERE CaseId = @caseId
+      `);
+
+    return await getVerdictSettings(caseId);
+  } catch (error) {
+    console.error("❌ [Verdict.assignForeperson] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Get the panel verdict state mirrored to non-presiding jurors
+ * Returns the foreperson's draft while in progress, or their submitted verdict
+ * @param {number} caseId
+ */
+async function getPanelVerdict(caseId) {
+  try {
+    const settings = await getVerdictSettings(caseId);
+
+    let responses = {};
+    let isSubmitted = false;
+    let submittedAt = null;
+
+    if (settings.forepersonJurorId) {
+      const verdict = await getVerdictByJuror(caseId, settings.forepersonJurorId);
+      if (verdict) {
+        isSubmitted = !!verdict.SubmittedAt;
+        submittedAt = verdict.SubmittedAt || null;
+        responses = isSubmitted
+          ? verdict.Responses
+          : safeJSONParse(verdict.VerdictResponses);
+      }
+    }
+
+    return {
+      ...settings,
+      responses,
+      isSubmitted,
+      submittedAt,
+    };
+  } catch (error) {
+    console.error("❌ [Verdict.getPanelVerdict] Error:", error.message);
+    throw error;
+  }
+}
+
 // ============================================
 // DELETE
 // ============================================
@@ -622,19 +1540,42 @@ async function deleteVerdict(verdictId) {
 // ============================================
 
 module.exports = {
+  // Constants
+  VERDICT_MODES,
+  FOREPERSON_SELECTION_METHODS,
+  DAMAGES_QUESTION_TYPE,
+  CROSSTAB_ATTRIBUTES,
+  MIN_CROSSTAB_CELL_SIZE,
+
+  // Validation
+  parseDamagesAmount,
+  validateDamagesResponses,
+
   // Create
   submitVerdict,
   saveDraft,
   loadDraft,
 
   // Read
+  getCaseQuestions,
   findById,
   getVerdictByJuror,
   getVerdictsByCase,
   getSubmissionStatus,
 
   // Aggregation
+  summarizeDamages,
+  suppressSmallCells,
   getAggregatedResults,
+  getJurorDemographics,
+  getCrossTabResults,
+  getRerunComparison,
+
+  // Verdict mode & foreperson
+  getVerdictSettings,
+  setVerdictMode,
+  assignForeperson,
+  getPanelVerdict,
 
   // Delete
   deleteVerdict,
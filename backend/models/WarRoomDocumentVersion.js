@@ -0,0 +1,370 @@
+// =============================================
+// WarRoomDocumentVersion.js - War Room Document Version History
+// Uploading a revised exhibit as a "new version of" an existing war room
+// document keeps the earlier files. The WarRoomDocuments row always points at
+// the current version, so everything that reads it (juror war room, trial
+// exhibits) serves the latest file; older versions can be restored.
+// =============================================
+
+const { poolPromise, sql } = require("../config/db");
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureDocumentVersionSchema() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.WarRoomDocumentVersions', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.WarRoomDocumentVersions (
+          VersionId INT IDENTITY(1,1) PRIMARY KEY,
+          DocumentId INT NOT NULL,
+          VersionNumber INT NOT NULL,
+          Type NVARCHAR(50) NULL,
+          FileName NVARCHAR(255) NOT NULL,
+          FileUrl NVARCHAR(MAX) NOT NULL,
+          Description NVARCHAR(500) NULL,
+          Size BIGINT NULL,
+          MimeType NVARCHAR(100) NULL,
+          UploadedBy INT NULL,
+          UploadedByType NVARCHAR(20) NULL,
+          RestoredFromVersion INT NULL,
+          CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+          FirstPresentedAt DATETIME2 NULL,
+          LastPresentedAt DATETIME2 NULL
+        );
+        CREATE UNIQUE INDEX UX_WarRoomDocumentVersions_Document
+          ON dbo.WarRoomDocumentVersions(DocumentId, VersionNumber);
+      END
+
+      IF COL_LENGTH('dbo.WarRoomDocuments', 'CurrentVersion') IS NULL
+        ALTER TABLE dbo.WarRoomDocuments ADD CurrentVersion INT NOT NULL DEFAULT 1;
+    `);
+  } catch (err) {
+    console.warn("⚠️ [WarRoomDocumentVersion] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureDocumentVersionSchema();
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Documents uploaded before versioning (or copied into a re-run case) have no
+ * history yet; record their current file as version 1 before touching it.
+ */
+const SEED_FIRST_VERSION_SQL = `
+  IF NOT EXISTS (SELECT 1 FROM dbo.WarRoomDocumentVersions WHERE DocumentId = @documentId)
+    INSERT INTO dbo.WarRoomDocumentVersions
+      (DocumentId, VersionNumber, Type, FileName, FileUrl, Description, Size, MimeType, CreatedAt)
+    SELECT Id, 1, Type, FileName, FileUrl, Description, Size, MimeType, UploadedAt
+    FROM dbo.WarRoomDocuments
+    WHERE Id = @documentId;
+`;
+
+const VERSION_COLUMNS = `
+  v.VersionId, v.DocumentId, v.VersionNumber, v.Type, v.FileName, v.FileUrl,
+  v.Description, v.Size, v.MimeType, v.UploadedBy, v.UploadedByType,
+  v.RestoredFromVersion, v.CreatedAt, v.FirstPresentedAt, v.LastPresentedAt,
+  CASE
+    WHEN v.UploadedByType = 'attorney' THEN a.FirstName + ' ' + a.LastName
+    WHEN v.UploadedByType = 'team_member' THEN t.Name
+    WHEN v.UploadedByType = 'admin' THEN 'Admin'
+    ELSE NULL
+  END AS UploadedByName
+`;
+
+const VERSION_JOINS = `
+  LEFT JOIN dbo.Attorneys a ON v.UploadedBy = a.AttorneyId AND v.UploadedByType = 'attorney'
+  LEFT JOIN dbo.TeamMemberAccounts t ON v.UploadedBy = t.AccountId AND v.UploadedByType = 'team_member'
+`;
+
+async function findDocument(executor, caseId, documentId) {
+  const result = await executor
+    .request()
+    .input("caseId", sql.Int, caseId)
+    .input("documentId", sql.Int, documentId)
+    .query(`
+      SELECT Id, CaseId, Type, FileName, FileUrl, Description, Size, MimeType, Side,
+        CurrentVersion, UploadedAt
+      FROM dbo.WarRoomDocuments
+      WHERE Id = @documentId AND CaseId = @caseId
+    `);
+  return result.recordset[0] || null;
+}
+
+/**
+ * Insert the next version inside a transaction and point the document at it
+ * @returns {Promise<number>} the new version number
+ */
+async function insertCurrentVersion(transaction, documentId, file, user, restoredFrom = null) {
+  const result = await transaction
+    .request()
+    .input("documentId", sql.Int, documentId)
+    .input("type", sql.NVarChar(50), file.type)
+    .input("fileName", sql.NVarChar(255), file.fileName)
+    .input("fileUrl", sql.NVarChar(sql.MAX), file.fileUrl)
+    .input("description", sql.NVarChar(500), file.description)
+    .input("size", sql.BigInt, file.size)
+    .input("mimeType", sql.NVarChar(100), file.mimeType)
+    .input("uploadedBy", sql.Int, user.id)
+    .input("uploadedByType", sql.NVarChar(20), user.type)
+    .input("restoredFrom", sql.Int, restoredFrom)
+    .query(`
+      ${SEED_FIRST_VERSION_SQL}
+
+      DECLARE @versionNumber INT = (
+        SELECT ISNULL(MAX(VersionNumber), 0) + 1
+        FROM dbo.WarRoomDocumentVersions WITH (UPDLOCK, HOLDLOCK)
+        WHERE DocumentId = @documentId
+      );
+
+      INSERT INTO dbo.WarRoomDocumentVersions
+        (DocumentId, VersionNumber, Type, FileName, FileUrl, Description, Size, MimeType,
+         UploadedBy, UploadedByType, RestoredFromVersion)
+      VALUES
+        (@documentId, @versionNumber, @type, @fileName, @fileUrl, @description, @size, @mimeType,
+         @uploadedBy, @uploadedByType, @restoredFrom);
+
+      UPDATE dbo.WarRoomDocuments
+      SET Type = @type,
+          FileName = @fileName,
+          FileUrl = @fileUrl,
+          Description = @description,
+          Size = @size,
+          MimeType = @mimeType,
+          CurrentVersion = @versionNumber,
+          UploadedAt = GETUTCDATE()
+      WHERE Id = @documentId;
+
+      SELECT @versionNumber AS VersionNumber;
+    `);
+
+  return result.recordset[0].VersionNumber;
+}
+
+// ============================================
+// VERSIONS
+// ============================================
+
+/**
+ * Version history of a document, newest first
+ * @returns {Promise<Array|null>} null when the document is not on the case
+ */
+async function getVersions(caseId, documentId) {
+  try {
+    const pool = await poolPromise;
+    const doc = await findDocument(pool, caseId, documentId);
+    if (!doc) return null;
+
+    const result = await pool
+      .request()
+      .input("documentId", sql.Int, documentId)
+      .query(`
+        ${SEED_FIRST_VERSION_SQL}
+
+        SELECT ${VERSION_COLUMNS}
+        FROM dbo.WarRoomDocumentVersions v
+        ${VERSION_JOINS}
+        WHERE v.DocumentId = @documentId
+        ORDER BY v.VersionNumber DESC
+      `);
+
+    return result.recordset.map((row) => ({
+      ...row,
+      IsCurrent: row.VersionNumber === doc.CurrentVersion,
+    }));
+  } catch (error) {
+    console.error("❌ [WarRoomDocumentVersion.getVersions] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Make an uploaded file the new current version of a document
+ * @param {Object} file - { type, fileName, fileUrl, description?, size, mimeType }
+ *   description defaults to the document's existing description
+ * @param {Object} user - { id, type } of the uploader
+ * @returns {Promise<Object|null>} { document, versionNumber }, null when the
+ *   document is not on the case
+ */
+async function addVersion(caseId, documentId, file, user) {
+  try {
+    const pool = await poolPromise;
+    const doc = await findDocument(pool, caseId, documentId);
+    if (!doc) return null;
+
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    let versionNumber;
+    try {
+      versionNumber = await insertCurrentVersion(
+        transaction,
+        documentId,
+        { ...file, description: file.description || doc.Description || "" },
+        user
+      );
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    return { document: await findDocument(pool, caseId, documentId), versionNumber };
+  } catch (error) {
+    console.error("❌ [WarRoomDocumentVersion.addVersion] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Restore an earlier version by re-issuing its file as a new version, so the
+ * history keeps a record of what was current and when
+ * @returns {Promise<Object|null>} { document, versionNumber }, null when the
+ *   document or version does not exist
+ */
+async function restoreVersion(caseId, documentId, versionNumber, user) {
+  try {
+    const pool = await poolPromise;
+    const doc = await findDocument(pool, caseId, documentId);
+    if (!doc) return null;
+
+    if (versionNumber === doc.CurrentVersion) {
+      throw new Error("Document version validation failed: That version is already current");
+    }
+
+    const versionResult = await pool
+      .request()
+      .input("documentId", sql.Int, documentId)
+      .input("versionNumber", sql.Int, versionNumber)
+      .query(`
+        SELECT Type, FileName, FileUrl, Description, Size, MimeType
+        FROM dbo.WarRoomDocumentVersions
+        WHERE DocumentId = @documentId AND VersionNumber = @versionNumber
+      `);
+    const version = versionResult.recordset[0];
+    if (!version) return null;
+
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    let newVersionNumber;
+    try {
+      newVersionNumber = await insertCurrentVersion(
+        transaction,
+        documentId,
+        {
+          type: version.Type,
+          fileName: version.FileName,
+          fileUrl: version.FileUrl,
+          description: version.Description || "",
+          size: version.Size,
+          mimeType: version.MimeType,
+        },
+        user,
+        versionNumber
+      );
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    return { document: await findDocument(pool, caseId, documentId), versionNumber: newVersionNumber };
+  } catch (error) {
+    console.error("❌ [WarRoomDocumentVersion.restoreVersion] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// TRIAL
+// ============================================
+
+/**
+ * Note that a document's current version was presented as a trial exhibit
+ * @returns {Promise<number|null>} the version number that was shown
+ */
+async function recordPresentation(documentId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("documentId", sql.Int, documentId)
+      .query(`
+        ${SEED_FIRST_VERSION_SQL}
+
+        UPDATE v
+        SET FirstPresentedAt = ISNULL(v.FirstPresentedAt, GETUTCDATE()),
+            LastPresentedAt = GETUTCDATE()
+        OUTPUT INSERTED.VersionNumber
+        FROM dbo.WarRoomDocumentVersions v
+        JOIN dbo.WarRoomDocuments d ON d.Id = v.DocumentId AND d.CurrentVersion = v.VersionNumber
+        WHERE v.DocumentId = @documentId
+      `);
+
+    return result.recordset[0] ? result.recordset[0].VersionNumber : null;
+  } catch (error) {
+    console.error("❌ [WarRoomDocumentVersion.recordPresentation] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// CLEANUP
+// ============================================
+
+/**
+ * Every file a document has pointed at, current one included
+ * @returns {Promise<string[]>}
+ */
+async function getFileUrls(documentId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("documentId", sql.Int, documentId)
+      .query(`
+        SELECT FileUrl FROM dbo.WarRoomDocuments WHERE Id = @documentId
+        UNION
+        SELECT FileUrl FROM dbo.WarRoomDocumentVersions WHERE DocumentId = @documentId
+      `);
+
+    return result.recordset.map((row) => row.FileUrl);
+  } catch (error) {
+    console.error("❌ [WarRoomDocumentVersion.getFileUrls] Error:", error.message);
+    throw error;
+  }
+}
+
+async function deleteVersions(documentId) {
+  try {
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("documentId", sql.Int, documentId)
+      .query(`DELETE FROM dbo.WarRoomDocumentVersions WHERE DocumentId = @documentId`);
+  } catch (error) {
+    console.error("❌ [WarRoomDocumentVersion.deleteVersions] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  getVersions,
+  addVersion,
+  restoreVersion,
+  recordPresentation,
+  getFileUrls,
+  deleteVersions,
+};
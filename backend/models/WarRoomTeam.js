@@ -0,0 +1,550 @@
+// =============================================
+// WarRoomTeam.js - War Room Team Member Accounts
+// Team members added to a case war room are invited by email, accept by
+// creating a limited account, and only get the permissions the attorney
+// grants them on that case (documents, jury charge, trial observer).
+// =============================================
+
+const crypto = require("crypto");
+const { poolPromise, sql } = require("../config/db");
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const TEAM_PERMISSIONS = {
+  VIEW_DOCUMENTS: "viewDocuments",
+  UPLOAD_DOCUMENTS: "uploadDocuments",
+  EDIT_JURY_CHARGE: "editJuryCharge",
+  ATTEND_TRIAL: "attendTrial",
+};
+
+const PERMISSION_COLUMNS = {
+  viewDocuments: "CanViewDocuments",
+  uploadDocuments: "CanUploadDocuments",
+  editJuryCharge: "CanEditJuryCharge",
+  attendTrial: "CanAttendTrial",
+};
+
+// New members can look at documents and nothing else until granted more
+const DEFAULT_PERMISSIONS = {
+  viewDocuments: true,
+  uploadDocuments: false,
+  editJuryCharge: false,
+  attendTrial: false,
+};
+
+const INVITE_STATUSES = {
+  PENDING: "pending",
+  ACCEPTED: "accepted",
+};
+
+const INVITE_EXPIRY_DAYS = 7;
+
+// ============================================
+// MIGRATION
+// ============================================
+
+async function ensureTeamAccessSchema() {
+  try {
+    const pool = await poolPromise;
+    await pool.request().query(`
+      IF OBJECT_ID(N'dbo.TeamMemberAccounts', N'U') IS NULL
+      BEGIN
+        CREATE TABLE dbo.TeamMemberAccounts (
+          AccountId INT IDENTITY(1,1) PRIMARY KEY,
+          Email NVARCHAR(255) NOT NULL,
+          Name NVARCHAR(100) NOT NULL,
+          PasswordHash NVARCHAR(255) NOT NULL,
+          IsActive BIT NOT NULL DEFAULT 1,
+          CreatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+          LastLoginAt DATETIME2 NULL
+        );
+        CREATE UNIQUE INDEX UX_TeamMemberAccounts_Email ON dbo.TeamMemberAccounts(Email);
+      END
+
+      IF OBJECT_ID(N'dbo.WarRoomTeamMembers', N'U') IS NOT NULL
+      BEGIN
+        IF COL_LENGTH('dbo.WarRoomTeamMembers', 'AccountId') IS NULL
+          ALTER TABLE dbo.WarRoomTeamMembers ADD AccountId INT NULL;
+        IF COL_LENGTH('dbo.WarRoomTeamMembers', 'InviteStatus') IS NULL
+          ALTER TABLE dbo.WarRoomTeamMembers ADD InviteStatus NVARCHAR(20) NOT NULL DEFAULT 'pending';
+        IF COL_LENGTH('dbo.WarRoomTeamMembers', 'InviteTokenHash') IS NULL
+          ALTER TABLE dbo.WarRoomTeamMembers ADD InviteTokenHash NVARCHAR(64) NULL;
+        IF COL_LENGTH('dbo.WarRoomTeamMembers', 'InvitedAt') IS NULL
+          ALTER TABLE dbo.WarRoomTeamMembers ADD InvitedAt DATETIME2 NULL;
+        IF COL_LENGTH('dbo.WarRoomTeamMembers', 'InviteExpiresAt') IS NULL
+          ALTER TABLE dbo.WarRoomTeamMembers ADD InviteExpiresAt DATETIME2 NULL;
+        IF COL_LENGTH('dbo.WarRoomTeamMembers', 'AcceptedAt') IS NULL
+          ALTER TABLE dbo.WarRoomTeamMembers ADD AcceptedAt DATETIME2 NULL;
+        IF COL_LENGTH('dbo.WarRoomTeamMembers', 'CanViewDocuments') IS NULL
+          ALTER TABLE dbo.WarRoomTeamMembers ADD CanViewDocuments BIT NOT NULL DEFAULT 1;
+        IF COL_LENGTH('dbo.WarRoomTeamMembers', 'CanUploadDocuments') IS NULL
+          ALTER TABLE dbo.WarRoomTeamMembers ADD CanUploadDocuments BIT NOT NULL DEFAULT 0;
+        IF COL_LENGTH('dbo.WarRoomTeamMembers', 'CanEditJuryCharge') IS NULL
+          ALTER TABLE dbo.WarRoomTeamMembers ADD CanEditJuryCharge BIT NOT NULL DEFAULT 0;
+        IF COL_LENGTH('dbo.WarRoomTeamMembers', 'CanAttendTrial') IS NULL
+          ALTER TABLE dbo.WarRoomTeamMembers ADD CanAttendTrial BIT NOT NULL DEFAULT 0;
+      END
+    `);
+  } catch (err) {
+    console.warn("⚠️ [WarRoomTeam] Migration warning:", err.message);
+  }
+}
+
+// Run migration once at startup
+ensureTeamAccessSchema();
+
+// ============================================
+// HELPERS
+// ============================================
+
+function normalizeEmail(email) {
+  return typeof email === "string" ? email.trim().toLowerCase() : "";
+}
+
+function hashInviteToken(token) {
+  return crypto.createHash("sha256").update(String(token)).digest("hex");
+}
+
+/**
+ * Merge a partial { viewDocuments, uploadDocuments, ... } object over a base
+ * set of permissions. Uploading implies viewing.
+ */
+function normalizePermissions(input, base = DEFAULT_PERMISSIONS) {
+  const permissions = { ...base };
+  if (input && typeof input === "object") {
+    for (const key of Object.keys(PERMISSION_COLUMNS)) {
+      if (input[key] !== undefined) permissions[key] = !!input[key];
+    }
+  }
+  if (permissions.uploadDocuments) permissions.viewDocuments = true;
+  return permissions;
+}
+
+const MEMBER_COLUMNS = `
+  tm.Id, tm.CaseId, tm.Name, tm.Role, tm.Email, tm.AddedAt,
+  tm.AccountId, tm.InviteStatus, tm.InvitedAt, tm.InviteExpiresAt, tm.AcceptedAt,
+  tm.CanViewDocuments, tm.CanUploadDocuments, tm.CanEditJuryCharge, tm.CanAttendTrial
+`;
+
+function mapMember(row) {
+  if (!row) return null;
+  return {
+    Id: row.Id,
+    CaseId: row.CaseId,
+    Name: row.Name,
+    Role: row.Role,
+    Email: row.Email,
+    AddedAt: row.AddedAt,
+    AccountId: row.AccountId,
+    InviteStatus: row.InviteStatus,
+    InvitedAt: row.InvitedAt,
+    InviteExpiresAt: row.InviteExpiresAt,
+    AcceptedAt: row.AcceptedAt,
+    Permissions: {
+      viewDocuments: !!row.CanViewDocuments,
+      uploadDocuments: !!row.CanUploadDocuments,
+      editJuryCharge: !!row.CanEditJuryCharge,
+      attendTrial: !!row.CanAttendTrial,
+    },
+  };
+}
+
+// ============================================
+// ACCOUNTS
+// ============================================
+
+async function findAccountByEmail(email) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("email", sql.NVarChar(255), normalizeEmail(email))
+      .query(`
+        SELECT AccountId, Email, Name, PasswordHash, IsActive, CreatedAt, LastLoginAt
+        FROM dbo.TeamMemberAccounts
+        WHERE Email = @email
+      `);
+
+    return result.recordset[0] || null;
+  } catch (error) {
+    console.error("❌ [WarRoomTeam.findAccountByEmail] Error:", error.message);
+    throw error;
+  }
+}
+
+async function findAccountById(accountId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("accountId", sql.Int, accountId)
+      .query(`
+        SELECT AccountId, Email, Name, PasswordHash, IsActive, CreatedAt, LastLoginAt
+        FROM dbo.TeamMemberAccounts
+        WHERE AccountId = @accountId
+      `);
+
+    return result.recordset[0] || null;
+  } catch (error) {
+    console.error("❌ [WarRoomTeam.findAccountById] Error:", error.message);
+    throw error;
+  }
+}
+
+async function updateLastLogin(accountId) {
+  try {
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("accountId", sql.Int, accountId)
+      .query(`
+        UPDATE dbo.TeamMemberAccounts
+        SET LastLoginAt = GETUTCDATE()
+        WHERE AccountId = @accountId
+      `);
+  } catch (error) {
+    console.error("❌ [WarRoomTeam.updateLastLogin] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// MEMBERS
+// ============================================
+
+async function getMembersForCase(caseId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .query(`
+        SELECT ${MEMBER_COLUMNS}
+        FROM dbo.WarRoomTeamMembers tm
+        WHERE tm.CaseId = @caseId
+        ORDER BY tm.AddedAt DESC
+      `);
+
+    return result.recordset.map(mapMember);
+  } catch (error) {
+    console.error("❌ [WarRoomTeam.getMembersForCase] Error:", error.message);
+    throw error;
+  }
+}
+
+async function getMember(caseId, memberId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("memberId", sql.Int, memberId)
+      .query(`
+        SELECT ${MEMBER_COLUMNS}
+        FROM dbo.WarRoomTeamMembers tm
+        WHERE tm.Id = @memberId AND tm.CaseId = @caseId
+      `);
+
+    return mapMember(result.recordset[0]);
+  } catch (error) {
+    console.error("❌ [WarRoomTeam.getMember] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Replace a member's permissions
+ * @param {Object} permissions - partial { viewDocuments, uploadDocuments, editJuryCharge, attendTrial }
+ */
+async function setPermissions(caseId, memberId, permissions) {
+  try {
+    const existing = await getMember(caseId, memberId);
+    if (!existing) return null;
+
+    const next = normalizePermissions(permissions, existing.Permissions);
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("caseId", sql.Int, caseId)
+      .input("memberId", sql.Int, memberId)
+      .input("viewDocuments", sql.Bit, next.viewDocuments)
+      .input("uploadDocuments", sql.Bit, next.uploadDocuments)
+      .input("editJuryCharge", sql.Bit, next.editJuryCharge)
+      .input("attendTrial", sql.Bit, next.attendTrial)
+      .query(`
+        UPDATE dbo.WarRoomTeamMembers
+        SET CanViewDocuments = @viewDocuments,
+            CanUploadDocuments = @uploadDocuments,
+            CanEditJuryCharge = @editJuryCharge,
+            CanAttendTrial = @attendTrial
+        WHERE Id = @memberId AND CaseId = @caseId
+      `);
+
+    return getMember(caseId, memberId);
+  } catch (error) {
+    console.error("❌ [WarRoomTeam.setPermissions] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// INVITES
+// ============================================
+
+/**
+ * Issue a fresh invite token for a member, replacing any earlier one.
+ * Only the hash is stored; the raw token goes into the invite email.
+ * @returns {Promise<Object|null>} { token, expiresAt, member }
+ */
+async function createInvite(caseId, memberId) {
+  try {
+    const member = await getMember(caseId, memberId);
+    if (!member) return null;
+    if (member.InviteStatus === INVITE_STATUSES.ACCEPTED) {
+      throw new Error("Team validation failed: This team member has already accepted their invitation");
+    }
+
+    const token = crypto.randomBytes(32).toString("hex");
+    const expiresAt = new Date(Date.now() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+    const pool = await poolPromise;
+    await pool
+      .request()
+      .input("memberId", sql.Int, memberId)
+      .input("tokenHash", sql.NVarChar(64), hashInviteToken(token))
+      .input("expiresAt", sql.DateTime2, expiresAt)
+      .query(`
+        UPDATE dbo.WarRoomTeamMembers
+        SET InviteTokenHash = @tokenHash,
+            InviteStatus = 'pending',
+            InvitedAt = GETUTCDATE(),
+            InviteExpiresAt = @expiresAt
+        WHERE Id = @memberId
+      `);
+
+    return { token, expiresAt, member };
+  } catch (error) {
+    console.error("❌ [WarRoomTeam.createInvite] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Look up a pending, unexpired invite by its raw token
+ * @returns {Promise<Object|null>} { memberId, caseId, caseTitle, name, email, role, invitedBy, expiresAt, hasAccount }
+ */
+async function getInviteByToken(token) {
+  try {
+    if (!token || typeof token !== "string") return null;
+
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("tokenHash", sql.NVarChar(64), hashInviteToken(token))
+      .query(`
+        SELECT tm.Id, tm.CaseId, tm.Name, tm.Role, tm.Email, tm.InviteExpiresAt,
+          c.CaseTitle,
+          a.FirstName + ' ' + a.LastName AS AttorneyName,
+          a.LawFirmName,
+          acct.AccountId AS ExistingAccountId
+        FROM dbo.WarRoomTeamMembers tm
+        JOIN dbo.Cases c ON c.CaseId = tm.CaseId
+        JOIN dbo.Attorneys a ON a.AttorneyId = c.AttorneyId
+        LEFT JOIN dbo.TeamMemberAccounts acct ON acct.Email = tm.Email
+        WHERE tm.InviteTokenHash = @tokenHash
+          AND tm.InviteStatus = 'pending'
+          AND tm.InviteExpiresAt > GETUTCDATE()
+          AND c.IsDeleted = 0
+      `);
+
+    const row = result.recordset[0];
+    if (!row) return null;
+
+    return {
+      memberId: row.Id,
+      caseId: row.CaseId,
+      caseTitle: row.CaseTitle,
+      name: row.Name,
+      email: row.Email,
+      role: row.Role,
+      invitedBy: row.AttorneyName,
+      lawFirmName: row.LawFirmName,
+      expiresAt: row.InviteExpiresAt,
+      hasAccount: !!row.ExistingAccountId,
+    };
+  } catch (error) {
+    console.error("❌ [WarRoomTeam.getInviteByToken] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Accept an invite, linking the member row to an account.
+ * Pass existingAccountId when the invitee already has an account (password
+ * checked by the caller); otherwise name + passwordHash create one.
+ * @returns {Promise<Object>} the account row
+ */
+async function acceptInvite(token, { existingAccountId = null, name, passwordHash } = {}) {
+  try {
+    const invite = await getInviteByToken(token);
+    if (!invite) {
+      throw new Error("Team validation failed: Invitation not found or expired");
+    }
+
+    const pool = await poolPromise;
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    let accountId = existingAccountId;
+    try {
+      if (!accountId) {
+        const created = await transaction
+          .request()
+          .input("email", sql.NVarChar(255), invite.email)
+          .input("name", sql.NVarChar(100), (name || invite.name).trim())
+          .input("passwordHash", sql.NVarChar(255), passwordHash)
+          .query(`
+            INSERT INTO dbo.TeamMemberAccounts (Email, Name, PasswordHash)
+            OUTPUT INSERTED.AccountId
+            VALUES (@email, @name, @passwordHash)
+          `);
+        accountId = created.recordset[0].AccountId;
+      }
+
+      await transaction
+        .request()
+        .input("memberId", sql.Int, invite.memberId)
+        .input("accountId", sql.Int, accountId)
+        .query(`
+          UPDATE dbo.WarRoomTeamMembers
+          SET AccountId = @accountId,
+              InviteStatus = 'accepted',
+              AcceptedAt = GETUTCDATE(),
+              InviteTokenHash = NULL
+          WHERE Id = @memberId
+        `);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    return findAccountById(accountId);
+  } catch (error) {
+    console.error("❌ [WarRoomTeam.acceptInvite] Error:", error.message);
+    throw error;
+  }
+}
+
+// ============================================
+// ACCESS
+// ============================================
+
+/**
+ * An account's accepted membership on a case
+ * @returns {Promise<Object|null>} mapped member row with Permissions
+ */
+async function getMembership(accountId, caseId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("accountId", sql.Int, accountId)
+      .input("caseId", sql.Int, caseId)
+      .query(`
+        SELECT ${MEMBER_COLUMNS}
+        FROM dbo.WarRoomTeamMembers tm
+        WHERE tm.AccountId = @accountId AND tm.CaseId = @caseId
+          AND tm.InviteStatus = 'accepted'
+      `);
+
+    return mapMember(result.recordset[0]);
+  } catch (error) {
+    console.error("❌ [WarRoomTeam.getMembership] Error:", error.message);
+    throw error;
+  }
+}
+
+/**
+ * Cases an account has accepted a team invitation for
+ */
+async function getCasesForAccount(accountId) {
+  try {
+    const pool = await poolPromise;
+    const result = await pool
+      .request()
+      .input("accountId", sql.Int, accountId)
+      .query(`
+        SELECT ${MEMBER_COLUMNS},
+          c.CaseTitle, c.CaseType, c.County, c.State,
+          CONVERT(VARCHAR(10), c.ScheduledDate, 23) AS ScheduledDate,
+          CONVERT(VARCHAR(8), c.ScheduledTime, 108) AS ScheduledTime,
+          c.AttorneyStatus,
+          a.FirstName + ' ' + a.LastName AS AttorneyName,
+          a.LawFirmName
+        FROM dbo.WarRoomTeamMembers tm
+        JOIN dbo.Cases c ON c.CaseId = tm.CaseId
+        JOIN dbo.Attorneys a ON a.AttorneyId = c.AttorneyId
+        WHERE tm.AccountId = @accountId AND tm.InviteStatus = 'accepted'
+          AND c.IsDeleted = 0
+        ORDER BY c.ScheduledDate DESC, c.CaseId DESC
+      `);
+
+    return result.recordset.map((row) => ({
+      ...mapMember(row),
+      caseTitle: row.CaseTitle,
+      caseType: row.CaseType,
+      county: row.County,
+      state: row.State,
+      scheduledDate: row.ScheduledDate,
+      scheduledTime: row.ScheduledTime,
+      attorneyStatus: row.AttorneyStatus,
+      attorneyName: row.AttorneyName,
+      lawFirmName: row.LawFirmName,
+    }));
+  } catch (error) {
+    console.error("❌ [WarRoomTeam.getCasesForAccount] Error:", error.message);
+    throw error;
+  }
+}
+
+function hasPermission(membership, permission) {
+  return !!(membership && membership.Permissions && membership.Permissions[permission]);
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  // Constants
+  TEAM_PERMISSIONS,
+  DEFAULT_PERMISSIONS,
+  INVITE_STATUSES,
+
+  // Accounts
+  findAccountByEmail,
+  findAccountById,
+  updateLastLogin,
+
+  // Members
+  getMembersForCase,
+  getMember,
+  setPermissions,
+
+  // Invites
+  createInvite,
+  getInviteByToken,
+  acceptInvite,
+
+  // Access
+  getMembership,
+  getCasesForAccount,
+  hasPermission,
+
+  // Helpers
+  normalizePermissions,
+};
@@ -26,6 +26,7 @@ const {
   getAdminSchedule,
   updateSchedule,
 } = require("../controllers/adminController");
+const payoutController = require("../controllers/payoutController");
 
 // Import email utility
 const { sendNotificationEmail } = require("../utils/email");
@@ -36,6 +37,7 @@ const Juror = require("../models/Juror");
 const AdminCalendar = require("../models/AdminCalendar");
 const Admin = require("../models/Admin");
 const Case = require("../models/Case");
+const CaseLifecycle = require("../models/CaseLifecycle");
 const CaseDocument = require("../models/CaseDocument");
 const TrialRecording = require("../models/TrialRecording");
 const TrialIncident = require("../models/TrialIncident");
@@ -1661,6 +1663,39 @@ router.post("/jurors/:id/verify", async (req, res) => {
 router.get("/schedule", getAdminSchedule);
 router.put("/schedule", updateSchedule);
 
+// ============================================
+// JUROR PAYOUTS
+// ============================================
+
+/**
+ * GET /api/admin/payouts?status=&method=
+ * Payout approval queue with per-status totals
+ */
+router.get("/payouts", payoutController.listPayouts);
+
+/**
+ * GET /api/admin/payouts/export?method=venmo
+ * CSV batch of approved payouts for one payout method
+ */
+router.get("/payouts/export", payoutController.exportPayouts);
+
+/**
+ * POST /api/admin/payouts/mark-paid
+ * Body: { payoutIds } - record approved payouts as sent
+ */
+router.post("/payouts/mark-paid", payoutController.markPayoutsPaid);
+
+/**
+ * POST /api/admin/payouts/:payoutId/approve
+ */
+router.post("/payouts/:payoutId/approve", payoutController.approvePayout);
+
+/**
+ * POST /api/admin/payouts/:payoutId/reject
+ * Body: { notes } - reason shown to the juror
+ */
+router.post("/payouts/:payoutId/reject", payoutController.rejectPayout);
+
 // ============================================
 // ATTORNEY-INITIATED RESCHEDULE REQUESTS
 // ============================================
@@ -1730,6 +1765,21 @@ router.post("/reschedule-requests/:requestId/approve", authMiddleware, requireAd
       });
     }
 
+    // Rescheduling reopens the war room, so the case must be able to go back there
+    if (caseData.AttorneyStatus !== Case.ATTORNEY_CASE_STATES.WAR_ROOM) {
+      const validation = await CaseLifecycle.validateTransition(
+        caseData,
+        Case.ATTORNEY_CASE_STATES.WAR_ROOM,
+        CaseLifecycle.ACTOR_TYPES.ADMIN
+      );
+      if (!validation.valid) {
+        return res.status(400).json({
+          success: false,
+          message: `Cannot reschedule this case: ${validation.message}`,
+        });
+      }
+    }
+
     console.log(`📅 Updating case ${request.CaseId} schedule to ${request.NewScheduledDate} ${request.NewScheduledTime}`);
 
     // Update case with new scheduled date/time, reset AdminApprovalStatus to approved
@@ -1744,7 +1794,6 @@ router.post("/reschedule-requests/:requestId/approve", authMiddleware, requireAd
           UPDATE dbo.Cases
           SET ScheduledDate        = @scheduledDate,
               ScheduledTime        = @scheduledTime,
-              AttorneyStatus       = 'war_room',
               AdminApprovalStatus  = 'approved',
               RescheduleRequired   = 0,
               RescheduleRequestedBy = NULL,
@@ -1752,6 +1801,11 @@ router.post("/reschedule-requests/:requestId/approve", authMiddleware, requireAd
               UpdatedAt            = GETUTCDATE()
           WHERE CaseId = @caseId AND IsDeleted = 0
         `);
+      await CaseLifecycle.transitionCase(request.CaseId, Case.ATTORNEY_CASE_STATES.WAR_ROOM, {
+        actorId: adminId,
+        actorType: CaseLifecycle.ACTOR_TYPES.ADMIN,
+        reason: `Attorney reschedule request approved (${request.NewScheduledDate} ${request.NewScheduledTime})`,
+      });
       console.log(`✅ Case schedule updated, AdminApprovalStatus reset to approved, RescheduleRequired cleared`);
     } catch (updateError) {
       console.error("❌ Error updating case schedule:", updateError);
@@ -1950,6 +2004,21 @@ router.post("/cases/:caseId/reschedule", authMiddleware, requireAdmin, async (re
       });
     }
 
+    // Rescheduling reopens the war room, so the case must be able to go back there
+    if (caseData.AttorneyStatus !== Case.ATTORNEY_CASE_STATES.WAR_ROOM) {
+      const validation = await CaseLifecycle.validateTransition(
+        caseData,
+        Case.ATTORNEY_CASE_STATES.WAR_ROOM,
+        CaseLifecycle.ACTOR_TYPES.ADMIN
+      );
+      if (!validation.valid) {
+        return res.status(400).json({
+          success: false,
+          message: `Cannot reschedule this case: ${validation.message}`,
+        });
+      }
+    }
+
     const { executeQuery, sql } = require("../config/db");
 
     // Get list of affected jurors before deletion
@@ -1998,8 +2067,7 @@ router.post("/cases/:caseId/reschedule", authMiddleware, requireAdmin, async (re
           .input("adminId", sql.Int, adminId)
           .query(`
             UPDATE dbo.Cases
-            SET AttorneyStatus        = 'war_room',
-                AdminApprovalStatus   = 'reschedule',
+            SET AdminApprovalStatus   = 'reschedule',
                 RescheduleRequired    = 1,
                 RescheduleRequestedBy = @adminId,
                 RescheduleRequestedAt = GETUTCDATE(),
@@ -2007,6 +2075,11 @@ router.post("/cases/:caseId/reschedule", authMiddleware, requireAdmin, async (re
             WHERE CaseId = @caseId AND IsDeleted = 0
           `);
       });
+      await CaseLifecycle.transitionCase(caseId, Case.ATTORNEY_CASE_STATES.WAR_ROOM, {
+        actorId: adminId,
+        actorType: CaseLifecycle.ACTOR_TYPES.ADMIN,
+        reason: reason.trim(),
+      });
       console.log(`✅ Case ${caseId} status set to war_room / reschedule, RescheduleRequired = 1`);
     } catch (error) {
       console.error("❌ Error updating case status:", error);
@@ -2098,7 +2171,7 @@ router.post("/run-migration/006", authMiddleware, requireAdmin, async (req, res)
     await pool.request().query(`
       ALTER TABLE dbo.JuryChargeQuestions
       ADD CONSTRAINT CK_JuryChargeQuestions_QuestionType
-      CHECK (QuestionType IN ('Multiple Choice', 'Multiple Select', 'Yes/No', 'Text Response', 'Numeric Response'))
+      CHECK (QuestionType IN ('Multiple Choice', 'Multiple Select', 'Yes/No', 'Text Response', 'Numeric Response', 'Damages Amount'))
     `);
 
     res.json({
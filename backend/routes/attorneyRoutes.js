@@ -21,6 +21,8 @@ const {
 // Import models
 const Attorney = require("../models/Attorney");
 const Case = require("../models/Case");
+const CaseLifecycle = require("../models/CaseLifecycle");
+const Firm = require("../models/Firm");
 const JurorApplication = require("../models/JurorApplication");
 const Notification = require("../models/Notification");
 const CaseReschedule = require("../models/CaseReschedule");
@@ -218,7 +220,7 @@ router.get(
     }
 
     // Verify ownership
-    if (caseData.AttorneyId !== attorneyId) {
+    if (!(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         error: "You can only access your own cases",
@@ -258,6 +260,12 @@ router.post(
 
     const caseId = await Case.createCase(caseData);
 
+    await CaseLifecycle.recordStatusChange(caseId, {
+      toStatus: Case.ATTORNEY_CASE_STATES.PENDING_ADMIN_APPROVAL,
+      actorId: attorneyId,
+      actorType: CaseLifecycle.ACTOR_TYPES.ATTORNEY,
+    });
+
     res.status(201).json({
       success: true,
       message: "Case created successfully",
@@ -286,7 +294,7 @@ router.put(
       });
     }
 
-    if (caseData.AttorneyId !== attorneyId) {
+    if (!(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         error: "You can only update your own cases",
@@ -333,7 +341,7 @@ router.put(
       });
     }
 
-    if (caseData.AttorneyId !== attorneyId) {
+    if (!(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         error: "You can only update your own cases",
@@ -341,18 +349,24 @@ router.put(
       });
     }
 
-    // Validate state transition
-    const validation = await Case.validateCaseStateTransition(caseId, status);
-    if (!validation.valid) {
-      return res.status(400).json({
-        success: false,
-        error: validation.message,
-        code: "INVALID_TRANSITION",
+    // Validate and apply the transition (recorded in the status history)
+    try {
+      await CaseLifecycle.transitionCase(caseId, status, {
+        actorId: attorneyId,
+        actorType: CaseLifecycle.ACTOR_TYPES.ATTORNEY,
+        reason: req.body.reason,
       });
+    } catch (error) {
+      if (error.message.startsWith("Case transition failed: ")) {
+        return res.status(400).json({
+          success: false,
+          error: error.message.replace(/^Case transition failed: /, ""),
+          code: "INVALID_TRANSITION",
+        });
+      }
+      throw error;
     }
 
-    await Case.updateCaseStatus(caseId, { attorneyStatus: status });
-
     res.json({
       success: true,
       message: "Case status updated successfully",
@@ -431,7 +445,7 @@ router.get(
       });
     }
 
-    if (caseData.AttorneyId !== attorneyId) {
+    if (!(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         error: "You can only view applications for your own cases",
@@ -462,7 +476,7 @@ router.get(
 
     // Verify case ownership
     const caseData = await Case.findById(caseId);
-    if (!caseData || caseData.AttorneyId !== attorneyId) {
+    if (!caseData || !(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         error: "Access denied",
@@ -500,7 +514,7 @@ router.put(
 
     // Verify case ownership
     const caseData = await Case.findById(caseId);
-    if (!caseData || caseData.AttorneyId !== attorneyId) {
+    if (!caseData || !(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         error: "Access denied",
@@ -547,7 +561,7 @@ router.put(
 
     // Verify case ownership
     const caseData = await Case.findById(caseId);
-    if (!caseData || caseData.AttorneyId !== attorneyId) {
+    if (!caseData || !(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         error: "Access denied",
@@ -590,7 +604,7 @@ router.post(
 
     // Verify case ownership
     const caseData = await Case.findById(caseId);
-    if (!caseData || caseData.AttorneyId !== attorneyId) {
+    if (!caseData || !(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         error: "Access denied",
@@ -718,7 +732,7 @@ router.post(
       });
     }
 
-    if (caseData.AttorneyId !== attorneyId) {
+    if (!(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         message: "Access denied",
@@ -732,9 +746,14 @@ router.post(
       });
     }
 
-    // Confirm the reschedule (this will check slot availability and move to war_room)
+    // Confirm the reschedule (this will check slot availability and approve the case)
     try {
       await Case.confirmReschedule(caseId, selectedSlot);
+      await CaseLifecycle.transitionCase(caseId, Case.ATTORNEY_CASE_STATES.WAR_ROOM, {
+        actorId: attorneyId,
+        actorType: CaseLifecycle.ACTOR_TYPES.ATTORNEY,
+        reason: `Rescheduled to ${selectedSlot.date} ${selectedSlot.time}`,
+      });
       console.log(`✅ Case ${caseId} rescheduled successfully to ${selectedSlot.date} ${selectedSlot.time}`);
     } catch (error) {
       // Handle slot unavailable error
@@ -821,7 +840,7 @@ router.post(
       });
     }
 
-    if (caseData.AttorneyId !== attorneyId) {
+    if (!(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         message: "Access denied",
@@ -891,7 +910,7 @@ router.post(
     }
 
     // Verify attorney owns this case
-    if (caseData.AttorneyId !== attorneyId) {
+    if (!(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         message: "You are not authorized to reschedule this case",
@@ -1004,7 +1023,7 @@ router.get(
     }
 
     // Verify attorney owns this case
-    if (caseData.AttorneyId !== attorneyId) {
+    if (!(await Firm.canManageCase(caseData, attorneyId))) {
       return res.status(403).json({
         success: false,
         message: "You are not authorized to view this case",
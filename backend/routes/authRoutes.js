@@ -27,6 +27,11 @@ const {
   // Admin Auth
   adminLogin,
 
+  // War Room Team Member Auth
+  teamMemberLogin,
+  getTeamInvite,
+  acceptTeamInvite,
+
   // Password Reset (OTP-based)
   requestPasswordReset,
   verifyPasswordResetOTP,
@@ -391,6 +396,43 @@ router.post(
   asyncHandler(sendJurorEmailVerification)
 );
 
+/* ===========================================================
+   WAR ROOM TEAM MEMBER AUTHENTICATION
+   =========================================================== */
+
+/**
+ * POST /api/auth/team/login
+ * Team member login
+ */
+router.post(
+  "/team/login",
+  loginLimiter,
+  validateEmail,
+  asyncHandler(teamMemberLogin)
+);
+
+/**
+ * GET /api/auth/team/invites/:token
+ * Invitation details for the accept page
+ */
+router.get(
+  "/team/invites/:token",
+  generalAuthLimiter,
+  asyncHandler(getTeamInvite)
+);
+
+/**
+ * POST /api/auth/team/invites/:token/accept
+ * Accept an invitation, creating the team member account if needed
+ * Body: { name?, password }
+ */
+router.post(
+  "/team/invites/:token/accept",
+  signupLimiter,
+  validatePassword,
+  asyncHandler(acceptTeamInvite)
+);
+
 /* ===========================================================
    PASSWORD RESET - OTP BASED
    =========================================================== */
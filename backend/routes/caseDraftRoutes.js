@@ -0,0 +1,92 @@
+// =============================================
+// Case Draft Routes
+// Server-side autosave for the attorney case creation wizard
+// =============================================
+
+const express = require("express");
+const router = express.Router();
+const rateLimit = require("express-rate-limit");
+const { authMiddleware, requireAttorney } = require("../middleware/authMiddleware");
+const caseDraftController = require("../controllers/caseDraftController");
+
+// ============================================
+// RATE LIMITERS
+// ============================================
+
+/**
+ * General operations limiter
+ */
+const generalLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100,
+  message: {
+    success: false,
+    message: "Too many requests. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Autosave limiter (wizard steps save every few seconds while editing)
+ */
+const autosaveLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 400,
+  message: {
+    success: false,
+    message: "Too many draft saves. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// ============================================
+// MIDDLEWARE
+// ============================================
+
+// Drafts belong to attorneys only
+router.use(authMiddleware);
+router.use(requireAttorney);
+
+// ============================================
+// DRAFT ROUTES
+// ============================================
+
+/**
+ * GET /api/case-drafts
+ * List active drafts for the "Resume draft" list
+ */
+router.get("/", generalLimiter, caseDraftController.listDrafts);
+
+/**
+ * GET /api/case-drafts/:draftId
+ * Get a draft to restore into the wizard
+ */
+router.get("/:draftId", generalLimiter, caseDraftController.getDraft);
+
+/**
+ * POST /api/case-drafts
+ * Start a draft
+ * Body: { data, currentStep }
+ */
+router.post("/", autosaveLimiter, caseDraftController.createDraft);
+
+/**
+ * PUT /api/case-drafts/:draftId
+ * Autosave a draft (also extends its expiry)
+ * Body: { data?, currentStep? }
+ */
+router.put("/:draftId", autosaveLimiter, caseDraftController.saveDraft);
+
+/**
+ * DELETE /api/case-drafts/:draftId
+ * Discard a draft
+ */
+router.delete("/:draftId", generalLimiter, caseDraftController.discardDraft);
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = router;
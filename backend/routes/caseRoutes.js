@@ -22,10 +22,16 @@ const { poolPromise, sql } = require("../config/db");
 
 // Import models
 const Case = require("../models/Case");
+const CaseLifecycle = require("../models/CaseLifecycle");
+const CaseRerun = require("../models/CaseRerun");
+const TrialSession = require("../models/TrialSession");
+const OpposingCounsel = require("../models/OpposingCounsel");
+const Firm = require("../models/Firm");
 const JurorApplication = require("../models/JurorApplication");
 const CaseDocument = require("../models/CaseDocument");
 const Notification = require("../models/Notification");
 const { generateSasUrl } = require("../utils/azureBlob");
+const { sendNotificationEmail } = require("../utils/email");
 
 // ============================================
 // RATE LIMITERS (MUST BE DEFINED FIRST!)
@@ -132,24 +138,32 @@ const loadCase = async (req, res, next) => {
 // ============================================
 
 /**
- * Verify attorney owns the case
+ * Verify attorney owns the case (or is at the owner's firm)
  */
-const verifyAttorneyCaseOwnership = (req, res, next) => {
-  if (req.user.type !== "attorney") {
-    return res.status(403).json({
-      success: false,
-      message: "Only attorneys can access this resource",
-    });
-  }
+const verifyAttorneyCaseOwnership = async (req, res, next) => {
+  try {
+    if (req.user.type !== "attorney") {
+      return res.status(403).json({
+        success: false,
+        message: "Only attorneys can access this resource",
+      });
+    }
 
-  if (req.caseData.AttorneyId !== req.user.id) {
-    return res.status(403).json({
+    if (!(await Firm.canManageCase(req.caseData, req.user.id))) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied: You do not own this case",
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error("Case ownership verification error:", error);
+    res.status(500).json({
       success: false,
-      message: "Access denied: You do not own this case",
+      message: "Failed to verify case access",
     });
   }
-
-  next();
 };
 
 /**
@@ -161,13 +175,17 @@ const verifyCaseAccess = async (req, res, next) => {
     const caseData = req.caseData;
     const user = req.user;
 
-    // Attorney access
+    // Attorney access (case owner or their firm, or opposing counsel who accepted an invite)
     if (user.type === "attorney") {
       if (caseData.AttorneyId !== user.id) {
-        return res.status(403).json({
-          success: false,
-          message: "Access denied: You do not own this case",
-        });
+        const counselRole = await OpposingCounsel.getCounselRole(caseData, user.id);
+        if (!counselRole) {
+          return res.status(403).json({
+            success: false,
+            message: "Access denied: You do not own this case",
+          });
+        }
+        req.counselRole = counselRole;
       }
       return next();
     }
@@ -228,6 +246,15 @@ const verifyCaseAccess = async (req, res, next) => {
   }
 };
 
+/**
+ * Counsel role of an attorney on the loaded case (owner or opposing counsel).
+ * Null for jurors and admins, who see both sides.
+ */
+const getRequestCounselRole = async (req) => {
+  if (req.user.type !== "attorney") return null;
+  return req.counselRole || OpposingCounsel.getCounselRole(req.caseData, req.user.id);
+};
+
 // ============================================
 // CASE ROUTES (AFTER ALL DEPENDENCIES ARE DEFINED!)
 // ============================================
@@ -489,6 +516,55 @@ router.post(
   }
 );
 
+/**
+ * POST /api/case/cases/:caseId/rerun
+ * Run a tried case again with a fresh jury (Attorney only)
+ * Copies the case setup into a new pending case linked to this one
+ */
+router.post(
+  "/cases/:caseId/rerun",
+  caseCreationLimiter,
+  authMiddleware,
+  requireAttorney,
+  validateCaseId,
+  loadCase,
+  verifyAttorneyCaseOwnership,
+  async (req, res) => {
+    try {
+      const { scheduledDate, scheduledTime, timezoneOffset, includeDocuments } = req.body;
+
+      const result = await CaseRerun.rerunCase(req.caseData, req.user.id, {
+        scheduledDate,
+        scheduledTime,
+        timezoneOffset,
+        includeDocuments: includeDocuments === true,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Case re-run created and submitted for admin approval",
+        caseId: result.caseId,
+        sourceCaseId: result.sourceCaseId,
+        copied: result.copied,
+        status: Case.ATTORNEY_CASE_STATES.PENDING_ADMIN_APPROVAL,
+      });
+    } catch (error) {
+      if (error.message.startsWith("Case rerun validation failed:")) {
+        return res.status(400).json({
+          success: false,
+          message: error.message.replace("Case rerun validation failed: ", ""),
+        });
+      }
+
+      console.error("Rerun case error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to create case re-run",
+      });
+    }
+  }
+);
+
 /**
  * DELETE /api/case/cases/:caseId
  * Delete/cancel case (Attorney only)
@@ -506,6 +582,14 @@ router.delete(
       const caseId = req.validatedCaseId;
       const caseData = req.caseData;
 
+      // Firm colleagues co-manage the case, but only its owner can cancel it
+      if (caseData.AttorneyId !== req.user.id) {
+        return res.status(403).json({
+          success: false,
+          message: "Only the attorney who created this case can delete it",
+        });
+      }
+
       // Only allow deletion if case is not in advanced state
       const undeletableStatuses = ["join_trial", "in_trial", "view_details"];
 
@@ -518,10 +602,21 @@ router.delete(
       }
 
       // Soft delete by updating status
-      await Case.updateCaseStatus(caseId, {
-        attorneyStatus: "cancelled",
-        adminApprovalStatus: "cancelled",
-      });
+      try {
+        await CaseLifecycle.transitionCase(caseId, Case.ATTORNEY_CASE_STATES.CANCELLED, {
+          actorId: req.user.id,
+          actorType: CaseLifecycle.ACTOR_TYPES.ATTORNEY,
+          reason: req.body?.reason,
+        });
+      } catch (transitionError) {
+        if (transitionError.message.startsWith("Case transition failed: ")) {
+          return res.status(400).json({
+            success: false,
+            message: transitionError.message.replace(/^Case transition failed: /, ""),
+          });
+        }
+        throw transitionError;
+      }
 
       res.json({
         success: true,
@@ -537,6 +632,118 @@ router.delete(
   }
 );
 
+/**
+ * GET /api/case/cases/:caseId/status-history
+ * Every status change for a case, oldest first (attorney who owns it, admins)
+ */
+router.get(
+  "/cases/:caseId/status-history",
+  caseOperationsLimiter,
+  authMiddleware,
+  validateCaseId,
+  loadCase,
+  verifyCaseAccess,
+  async (req, res) => {
+    try {
+      if (req.user.type === "juror") {
+        return res.status(403).json({
+          success: false,
+          message: "Access denied",
+        });
+      }
+
+      const history = await CaseLifecycle.getStatusHistory(req.validatedCaseId);
+
+      res.json({
+        success: true,
+        currentStatus: req.caseData.AttorneyStatus,
+        history,
+      });
+    } catch (error) {
+      console.error("Get case status history error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch status history",
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/case/cases/:caseId/sessions
+ * Trial sessions for a case, session 1 being the case's own schedule
+ * Accessible to attorneys (own cases), jurors (approved), and admins
+ */
+router.get(
+  "/cases/:caseId/sessions",
+  caseOperationsLimiter,
+  authMiddleware,
+  validateCaseId,
+  loadCase,
+  verifyCaseAccess,
+  async (req, res) => {
+    try {
+      const sessions = await TrialSession.getSessionsForCase(req.caseData);
+      const joinWindow = TrialSession.getJoinWindow(req.caseData, sessions);
+
+      res.json({
+        success: true,
+        sessions,
+        currentSessionNumber: joinWindow.session?.sessionNumber || null,
+        currentSessionState: joinWindow.state,
+        maxSessions: TrialSession.MAX_SESSIONS,
+        editable:
+          req.counselRole?.role !== OpposingCounsel.COUNSEL_ROLES.OPPOSING &&
+          TrialSession.EDITABLE_STATES.includes(req.caseData.AttorneyStatus),
+      });
+    } catch (error) {
+      console.error("Get trial sessions error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch trial sessions",
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/case/cases/:caseId/sessions
+ * Replace the additional trial sessions (session 2 onwards) of a case (Attorney only)
+ */
+router.put(
+  "/cases/:caseId/sessions",
+  caseOperationsLimiter,
+  authMiddleware,
+  requireAttorney,
+  validateCaseId,
+  loadCase,
+  verifyAttorneyCaseOwnership,
+  async (req, res) => {
+    try {
+      const sessions = await TrialSession.replaceSessions(req.caseData, req.body?.sessions);
+
+      res.json({
+        success: true,
+        message: "Trial sessions updated successfully",
+        sessions,
+      });
+    } catch (error) {
+      if (error.message.startsWith("Trial session validation failed:")) {
+        return res.status(400).json({
+          success: false,
+          message: error.message.replace("Trial session validation failed: ", ""),
+        });
+      }
+
+      console.error("Update trial sessions error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update trial sessions",
+      });
+    }
+  }
+);
+
 /**
  * GET /api/case/cases/:caseId/documents
  * Get war room documents for a case
@@ -567,15 +774,22 @@ router.get(
             Description,
             Size,
             MimeType,
+            Side,
             UploadedAt
           FROM WarRoomDocuments
           WHERE CaseId = @caseId
           ORDER BY UploadedAt DESC
         `);
 
+      // Each counsel only sees their own side's documents
+      const counselRole = await getRequestCounselRole(req);
+      const visible = (result.recordset || []).filter((doc) =>
+        OpposingCounsel.isOwnSideDocument(counselRole, doc.Side)
+      );
+
       // Generate fresh SAS URLs so jurors can view documents inline
       const documents = await Promise.all(
-        (result.recordset || []).map(async (doc) => ({
+        visible.map(async (doc) => ({
           ...doc,
           FileUrl: await generateSasUrl(doc.FileUrl),
         }))
@@ -619,8 +833,11 @@ router.get(
         .request()
         .input("caseId", sql.Int, caseId)
         .input("docId", sql.Int, docId)
-        .query(`SELECT FileUrl, FileName FROM WarRoomDocuments WHERE Id = @docId AND CaseId = @caseId`);
-      if (!result.recordset.length) {
+        .query(`SELECT FileUrl, FileName, Side FROM WarRoomDocuments WHERE Id = @docId AND CaseId = @caseId`);
+      if (
+        !result.recordset.length ||
+        !OpposingCounsel.isOwnSideDocument(await getRequestCounselRole(req), result.recordset[0].Side)
+      ) {
         return res.status(404).json({ success: false, message: "Document not found" });
       }
       const { FileUrl, FileName } = result.recordset[0];
@@ -658,9 +875,12 @@ router.get(
         .request()
         .input("caseId", sql.Int, caseId)
         .input("docId", sql.Int, docId)
-        .query(`SELECT FileUrl, FileName, MimeType FROM WarRoomDocuments WHERE Id = @docId AND CaseId = @caseId`);
+        .query(`SELECT FileUrl, FileName, MimeType, Side FROM WarRoomDocuments WHERE Id = @docId AND CaseId = @caseId`);
 
-      if (!result.recordset.length) {
+      if (
+        !result.recordset.length ||
+        !OpposingCounsel.isOwnSideDocument(await getRequestCounselRole(req), result.recordset[0].Side)
+      ) {
         return res.status(404).json({ success: false, message: "Document not found" });
       }
 
@@ -848,6 +1068,319 @@ router.get(
   }
 );
 
+// ============================================
+// OPPOSING COUNSEL
+// ============================================
+
+/**
+ * Map an OpposingCounsel validation error to a 400, anything else to a 500
+ */
+const sendOpposingCounselError = (res, error, fallbackMessage) => {
+  if (error.message.startsWith("Opposing counsel validation failed:")) {
+    return res.status(400).json({
+      success: false,
+      message: error.message.replace("Opposing counsel validation failed: ", ""),
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+  });
+};
+
+/**
+ * Notify an attorney in-app and by email about an opposing counsel change
+ */
+const notifyCounsel = async ({ attorneyId, email, caseId, type, title, message }) => {
+  try {
+    await Notification.createNotification({
+      userId: attorneyId,
+      userType: "attorney",
+      caseId,
+      type,
+      title,
+      message,
+    });
+
+    if (email) {
+      await sendNotificationEmail(
+        email,
+        title,
+        `
+          <h2 style="color: #16305B; margin-top: 0;">${title}</h2>
+          <p style="color: #666; line-height: 1.6;">${message}</p>
+          <p style="color: #666; line-height: 1.6;">
+            <a href="${process.env.FRONTEND_URL}/attorney" style="color: #16305B; font-weight: bold;">Open your dashboard</a>
+          </p>
+          <p style="color: #666; line-height: 1.6;">
+            Best regards,<br/>
+            Quick Verdicts Team
+          </p>
+        `
+      );
+    }
+  } catch (error) {
+    console.error("Opposing counsel notification error:", error);
+  }
+};
+
+/**
+ * GET /api/case/opposing-counsel/invitations
+ * Opposing counsel invitations (pending and accepted) for the signed-in attorney
+ */
+router.get(
+  "/opposing-counsel/invitations",
+  caseOperationsLimiter,
+  authMiddleware,
+  requireAttorney,
+  async (req, res) => {
+    try {
+      const invitations = await OpposingCounsel.getInvitationsForAttorney(req.user.id);
+
+      res.json({
+        success: true,
+        invitations,
+      });
+    } catch (error) {
+      console.error("Get opposing counsel invitations error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch invitations",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/case/opposing-counsel/invitations/:inviteId/respond
+ * Accept or decline an invitation to argue the other side of a case
+ * Body: { accept: boolean }
+ */
+router.post(
+  "/opposing-counsel/invitations/:inviteId/respond",
+  caseOperationsLimiter,
+  authMiddleware,
+  requireAttorney,
+  async (req, res) => {
+    try {
+      const inviteId = parseInt(req.params.inviteId, 10);
+      if (isNaN(inviteId) || inviteId <= 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Valid invitation ID is required",
+        });
+      }
+      if (typeof req.body?.accept !== "boolean") {
+        return res.status(400).json({
+          success: false,
+          message: "accept must be true or false",
+        });
+      }
+
+      const invite = await OpposingCounsel.respondToInvite(inviteId, req.user.id, req.body.accept);
+      const caseData = await Case.findById(invite.caseId);
+
+      await notifyCounsel({
+        attorneyId: invite.owner.attorneyId,
+        caseId: invite.caseId,
+        type: Notification.NOTIFICATION_TYPES.OPPOSING_COUNSEL_UPDATED,
+        title: req.body.accept ? "Opposing Counsel Accepted" : "Opposing Counsel Declined",
+        message: `${invite.opposing.name} ${req.body.accept ? "accepted" : "declined"} your invitation to act as ${OpposingCounsel.getSideLabel(invite.opposingSide).toLowerCase()} on "${caseData?.CaseTitle}".`,
+      });
+
+      res.json({
+        success: true,
+        message: req.body.accept ? "Invitation accepted" : "Invitation declined",
+        invitation: invite,
+      });
+    } catch (error) {
+      sendOpposingCounselError(res, error, "Failed to respond to invitation");
+    }
+  }
+);
+
+/**
+ * GET /api/case/cases/:caseId/opposing-counsel
+ * Opposing counsel on a case and the viewer's role/side
+ * Accessible to the case owner, accepted opposing counsel, and admins
+ */
+router.get(
+  "/cases/:caseId/opposing-counsel",
+  caseOperationsLimiter,
+  authMiddleware,
+  validateCaseId,
+  loadCase,
+  verifyCaseAccess,
+  async (req, res) => {
+    try {
+      if (req.user.type === "juror") {
+        return res.status(403).json({
+          success: false,
+          message: "Access denied",
+        });
+      }
+
+      const counselRole = await getRequestCounselRole(req);
+      const isOwner = counselRole?.role === OpposingCounsel.COUNSEL_ROLES.OWNER;
+
+      // Opposing counsel only gets here once accepted; the owner and admins also see a pending invite
+      const counsel = counselRole && !isOwner
+        ? counselRole.counsel
+        : await OpposingCounsel.getForCase(req.validatedCaseId);
+
+      res.json({
+        success: true,
+        counsel,
+        viewerRole: counselRole?.role || null,
+        viewerSide: counselRole?.side || null,
+        canInvite: isOwner && OpposingCounsel.INVITABLE_STATES.includes(req.caseData.AttorneyStatus),
+      });
+    } catch (error) {
+      console.error("Get opposing counsel error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch opposing counsel",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/case/cases/:caseId/opposing-counsel
+ * Invite a verified attorney to take the opposite side (Attorney only)
+ * Body: { email, side: 'plaintiff' | 'defense' (the owner's side), message? }
+ */
+router.post(
+  "/cases/:caseId/opposing-counsel",
+  caseOperationsLimiter,
+  authMiddleware,
+  requireAttorney,
+  validateCaseId,
+  loadCase,
+  verifyAttorneyCaseOwnership,
+  async (req, res) => {
+    try {
+      const { email, side, message } = req.body || {};
+      const counsel = await OpposingCounsel.inviteOpposingCounsel(req.caseData, {
+        email,
+        ownerSide: side,
+        message,
+      });
+
+      await notifyCounsel({
+        attorneyId: counsel.opposing.attorneyId,
+        email: counsel.opposing.email,
+        caseId: req.validatedCaseId,
+        type: Notification.NOTIFICATION_TYPES.OPPOSING_COUNSEL_INVITED,
+        title: "Opposing Counsel Invitation",
+        message: `${counsel.owner.name} invited you to act as ${OpposingCounsel.getSideLabel(counsel.opposingSide).toLowerCase()} in the mock trial "${req.caseData.CaseTitle}".${counsel.message ? ` Message: ${counsel.message}` : ""}`,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Invitation sent",
+        counsel,
+      });
+    } catch (error) {
+      sendOpposingCounselError(res, error, "Failed to invite opposing counsel");
+    }
+  }
+);
+
+/**
+ * DELETE /api/case/cases/:caseId/opposing-counsel
+ * Withdraw the invitation or remove opposing counsel (Attorney only)
+ */
+router.delete(
+  "/cases/:caseId/opposing-counsel",
+  caseOperationsLimiter,
+  authMiddleware,
+  requireAttorney,
+  validateCaseId,
+  loadCase,
+  verifyAttorneyCaseOwnership,
+  async (req, res) => {
+    try {
+      const revoked = await OpposingCounsel.revokeInvite(req.caseData);
+      if (!revoked) {
+        return res.status(404).json({
+          success: false,
+          message: "This case has no opposing counsel",
+        });
+      }
+
+      await notifyCounsel({
+        attorneyId: revoked.opposing.attorneyId,
+        email: revoked.opposing.email,
+        caseId: req.validatedCaseId,
+        type: Notification.NOTIFICATION_TYPES.OPPOSING_COUNSEL_UPDATED,
+        title: "Opposing Counsel Invitation Withdrawn",
+        message: `${revoked.owner.name} withdrew your opposing counsel access to "${req.caseData.CaseTitle}".`,
+      });
+
+      res.json({
+        success: true,
+        message: "Opposing counsel removed",
+      });
+    } catch (error) {
+      sendOpposingCounselError(res, error, "Failed to remove opposing counsel");
+    }
+  }
+);
+
+/**
+ * PUT /api/case/cases/:caseId/opposing-counsel/results-sharing
+ * Record whether this side agrees to share verdict results with the other side
+ * Body: { shareResults: boolean }
+ */
+router.put(
+  "/cases/:caseId/opposing-counsel/results-sharing",
+  caseOperationsLimiter,
+  authMiddleware,
+  requireAttorney,
+  validateCaseId,
+  loadCase,
+  verifyCaseAccess,
+  async (req, res) => {
+    try {
+      if (typeof req.body?.shareResults !== "boolean") {
+        return res.status(400).json({
+          success: false,
+          message: "shareResults must be true or false",
+        });
+      }
+
+      const counselRole = await getRequestCounselRole(req);
+      if (!counselRole?.counsel) {
+        return res.status(400).json({
+          success: false,
+          message: "This case has no accepted opposing counsel",
+        });
+      }
+
+      const counsel = await OpposingCounsel.setResultsConsent(
+        counselRole.counsel,
+        counselRole.role,
+        req.body.shareResults
+      );
+
+      res.json({
+        success: true,
+        message: req.body.shareResults ? "You agreed to share results" : "You withdrew agreement to share results",
+        counsel,
+      });
+    } catch (error) {
+      console.error("Update results sharing error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update results sharing",
+      });
+    }
+  }
+);
+
 // ============================================
 // ERROR HANDLER
 // ============================================
@@ -0,0 +1,124 @@
+// =============================================
+// Case Template Routes
+// Reusable jury charge and voir dire question templates
+// =============================================
+
+const express = require("express");
+const router = express.Router();
+const rateLimit = require("express-rate-limit");
+const { authMiddleware } = require("../middleware/authMiddleware");
+const caseTemplateController = require("../controllers/caseTemplateController");
+
+// ============================================
+// RATE LIMITERS
+// ============================================
+
+/**
+ * General operations limiter
+ */
+const generalLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100,
+  message: {
+    success: false,
+    message: "Too many requests. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Template write limiter (create/update/delete)
+ */
+const templateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30,
+  message: {
+    success: false,
+    message: "Too many template operations. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// ============================================
+// MIDDLEWARE
+// ============================================
+
+// Apply authentication to all routes
+router.use(authMiddleware);
+
+/**
+ * Attach user role to request for authorization
+ */
+const attachUserRole = (req, res, next) => {
+  if (req.user && req.user.type) {
+    req.userRole = req.user.type;
+  } else {
+    req.userRole = null;
+  }
+  next();
+};
+
+router.use(attachUserRole);
+
+// ============================================
+// TEMPLATE ROUTES
+// ============================================
+
+/**
+ * GET /api/case-templates
+ * List the attorney's own and firm-shared templates
+ * Attorney only
+ * Query: ?caseType=
+ */
+router.get("/", generalLimiter, caseTemplateController.listTemplates);
+
+/**
+ * GET /api/case-templates/:templateId
+ * Get a template with its questions
+ * Attorney only
+ */
+router.get("/:templateId", generalLimiter, caseTemplateController.getTemplate);
+
+/**
+ * POST /api/case-templates
+ * Save a new template
+ * Attorney only
+ * Body: { name, description?, caseType?, visibility?, juryChargeQuestions?, voirDireQuestions?, sourceCaseId? }
+ */
+router.post("/", templateLimiter, caseTemplateController.createTemplate);
+
+/**
+ * PUT /api/case-templates/:templateId
+ * Update a template
+ * Owner only
+ */
+router.put("/:templateId", templateLimiter, caseTemplateController.updateTemplate);
+
+/**
+ * DELETE /api/case-templates/:templateId
+ * Delete a template
+ * Owner only
+ */
+router.delete("/:templateId", templateLimiter, caseTemplateController.deleteTemplate);
+
+// ============================================
+// ERROR HANDLER
+// ============================================
+
+router.use((error, req, res, next) => {
+  console.error("Case Template Route Error:", error);
+
+  res.status(error.status || 500).json({
+    success: false,
+    message: error.message || "Internal server error",
+    error: process.env.NODE_ENV === "development" ? error.stack : undefined,
+  });
+});
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = router;
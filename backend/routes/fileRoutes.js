@@ -13,6 +13,7 @@ const { requireWarRoomAccess } = require("../middleware/warRoomMiddleware");
 
 // Import models
 const Case = require("../models/Case");
+const Firm = require("../models/Firm");
 const JurorApplication = require("../models/JurorApplication");
 const Event = require("../models/Event");
 
@@ -188,9 +189,9 @@ const verifyCaseFileAccess = async (req, res, next) => {
       return next();
     }
 
-    // Attorney access - must own the case
+    // Attorney access - must own the case or be at the owner's firm
     if (user.type === "attorney") {
-      if (caseData.AttorneyId !== user.id) {
+      if (!(await Firm.canManageCase(caseData, user.id))) {
         return res.status(403).json({
           success: false,
           message: "Access denied: You do not own this case",
@@ -0,0 +1,143 @@
+// =============================================
+// Firm Routes
+// Law firm organizations: membership, invites and consolidated billing
+// =============================================
+
+const express = require("express");
+const router = express.Router();
+const rateLimit = require("express-rate-limit");
+const { authMiddleware, requireAttorney } = require("../middleware/authMiddleware");
+const firmController = require("../controllers/firmController");
+
+// ============================================
+// RATE LIMITERS
+// ============================================
+
+/**
+ * General operations limiter
+ */
+const generalLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100,
+  message: {
+    success: false,
+    message: "Too many requests. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Firm write limiter (create/invite/membership changes)
+ */
+const firmLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30,
+  message: {
+    success: false,
+    message: "Too many firm operations. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// ============================================
+// MIDDLEWARE
+// ============================================
+
+// All firm routes are for signed-in attorneys
+router.use(authMiddleware);
+router.use(requireAttorney);
+
+// ============================================
+// FIRM ROUTES
+// ============================================
+
+/**
+ * GET /api/firms/me
+ * The attorney's firm with its members, plus firm invitations waiting for them
+ */
+router.get("/me", generalLimiter, firmController.getMyFirm);
+
+/**
+ * POST /api/firms
+ * Create a firm; the creator becomes its admin
+ * Body: { name, billingEmail? }
+ */
+router.post("/", firmLimiter, firmController.createFirm);
+
+/**
+ * PUT /api/firms/me
+ * Update firm name or billing email
+ * Firm admin only
+ */
+router.put("/me", firmLimiter, firmController.updateFirm);
+
+/**
+ * GET /api/firms/me/billing
+ * Consolidated payments across all members
+ * Firm admin only
+ * Query: ?from=YYYY-MM-DD&to=YYYY-MM-DD&format=csv
+ */
+router.get("/me/billing", generalLimiter, firmController.getBilling);
+
+// ============================================
+// MEMBERSHIP ROUTES
+// ============================================
+
+/**
+ * POST /api/firms/me/invites
+ * Invite an attorney by email
+ * Firm admin only
+ * Body: { email, role? }
+ */
+router.post("/me/invites", firmLimiter, firmController.inviteMember);
+
+/**
+ * DELETE /api/firms/me/invites/:inviteId
+ * Withdraw a pending invite
+ * Firm admin only
+ */
+router.delete("/me/invites/:inviteId", firmLimiter, firmController.revokeInvite);
+
+/**
+ * POST /api/firms/invites/:inviteId/respond
+ * Accept or decline an invitation addressed to the attorney
+ * Body: { accept: boolean }
+ */
+router.post("/invites/:inviteId/respond", firmLimiter, firmController.respondToInvite);
+
+/**
+ * PUT /api/firms/me/members/:attorneyId
+ * Change a member's role
+ * Firm admin only
+ * Body: { role: "admin" | "member" }
+ */
+router.put("/me/members/:attorneyId", firmLimiter, firmController.updateMemberRole);
+
+/**
+ * DELETE /api/firms/me/members/:attorneyId
+ * Remove a member, or leave the firm
+ * Firm admin, or the member themselves
+ */
+router.delete("/me/members/:attorneyId", firmLimiter, firmController.removeMember);
+
+// ============================================
+// ERROR HANDLER
+// ============================================
+
+router.use((error, req, res, next) => {
+  console.error("Firm Route Error:", error);
+
+  res.status(error.status || 500).json({
+    success: false,
+    message: error.message || "Internal server error",
+    error: process.env.NODE_ENV === "development" ? error.stack : undefined,
+  });
+});
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = router;
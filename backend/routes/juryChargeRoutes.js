@@ -121,6 +121,18 @@ router.put(
   juryChargeController.reorderQuestions
 );
 
+/**
+ * POST /api/jury-charge/import-template/:caseId
+ * Append a saved template's questions to the case
+ * Attorney only
+ * Body: { templateId }
+ */
+router.post(
+  "/import-template/:caseId",
+  questionLimiter,
+  juryChargeController.importTemplate
+);
+
 // ============================================
 // ADMIN CONTROLS
 // ============================================
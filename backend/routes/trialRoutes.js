@@ -6,7 +6,16 @@
 const express = require("express");
 const router = express.Router();
 const rateLimit = require("express-rate-limit");
-const { notifyRoomRecreated } = require("../services/websocketService");
+const {
+  notifyRoomRecreated,
+  notifyDeliberationUpdated,
+  notifyUser,
+  notifyJurorQuestionSubmitted,
+  notifyJurorQuestionApproved,
+  notifyPollOpened,
+  notifyPollClosed,
+  notifyPollResults,
+} = require("../services/websocketService");
 const {
   CommunicationIdentityClient,
 } = require("@azure/communication-identity");
@@ -15,6 +24,8 @@ const { authMiddleware } = require("../middleware/authMiddleware");
 const {
   requireTrialAccess,
   requireAdminForTrial,
+  denyTeamObservers,
+  canViewJurorContact,
 } = require("../middleware/trialMiddleware");
 
 // Import models
@@ -23,6 +34,12 @@ const Case = require("../models/Case");
 const JurorApplication = require("../models/JurorApplication");
 const Notification = require("../models/Notification");
 const Event = require("../models/Event");
+const JurorAttendance = require("../models/JurorAttendance");
+const JurorQuestion = require("../models/JurorQuestion");
+const TrialPoll = require("../models/TrialPoll");
+const JurorNote = require("../models/JurorNote");
+const TrialSession = require("../models/TrialSession");
+const OpposingCounsel = require("../models/OpposingCounsel");
 
 // Import ACS services
 const {
@@ -35,7 +52,9 @@ const {
   createChatThread,
   addParticipantToChat,
   removeParticipantFromChat,
+  deleteChatThread,
   ACS_ENDPOINT,
+  PARTICIPANT_ROLES,
 } = require("../services/acsRoomsService");
 
 // ============================================
@@ -87,6 +106,48 @@ const generalTrialLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+/**
+ * Attendance heartbeat limiter (jurors report every 30 seconds)
+ */
+const attendanceLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 120, // 120 reports
+  message: {
+    success: false,
+    message: "Too many attendance updates. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Juror question submission limiter
+ */
+const jurorQuestionLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // 20 questions
+  message: {
+    success: false,
+    message: "Too many questions submitted. Please wait before asking another.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Juror notepad autosave limiter
+ */
+const jurorNoteLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 300, // 300 saves
+  message: {
+    success: false,
+    message: "Too many note updates. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // ============================================
 // PER-CASE RECOVERY MUTEX
 // ============================================
@@ -175,6 +236,46 @@ async function refetchRoomId(pool, meetingId) {
   return result.recordset[0]?.RoomId || null;
 }
 
+/**
+ * Make sure the case has a live deliberation room and chat thread, creating
+ * (or replacing an expired) pair on first use. Returns the refreshed state.
+ */
+async function ensureDeliberationRoom(caseId, deliberation) {
+  if (deliberation.roomId) {
+    const ensureResult = await ensureRoomActive(deliberation.roomId);
+    if (!ensureResult.needsRecovery) return deliberation;
+
+    try { await deleteRoom(deliberation.roomId); }
+    catch (e) { console.warn(`   Could not delete old deliberation room (continuing): ${e.message}`); }
+  }
+
+  const caseData = await Case.findById(caseId);
+  const room = await createRoom(
+    new Date(Date.now() - 60 * 60 * 1000),
+    new Date(Date.now() + 24 * 60 * 60 * 1000)
+  );
+
+  // Reuse the deliberation chat if one exists; jurors keep their history after a room reset
+  let chatThreadId = deliberation.chatThreadId;
+  let chatServiceUserId = deliberation.chatServiceUserId;
+  if (!chatThreadId) {
+    const chatResult = await createChatThread(
+      `Deliberation: ${caseData?.CaseTitle || "Case " + caseId}`
+    );
+    chatThreadId = chatResult.chatThreadId;
+    chatServiceUserId = chatResult.serviceUserId;
+  }
+
+  await TrialMeeting.saveDeliberationRoom(deliberation.meetingId, {
+    roomId: room.id,
+    chatThreadId,
+    chatServiceUserId,
+  });
+  console.log(`✅ Deliberation room ready for case ${caseId}: ${room.id}`);
+
+  return { ...deliberation, roomId: room.id, chatThreadId, chatServiceUserId };
+}
+
 // ============================================
 // MIDDLEWARE
 // ============================================
@@ -216,6 +317,34 @@ const checkACSConfiguration = (req, res, next) => {
   next();
 };
 
+// ============================================
+// TRIAL SESSION HELPERS
+// ============================================
+
+/**
+ * Which session of a (possibly multi-day) trial a join request is for
+ */
+async function getCaseJoinWindow(caseData) {
+  if (!caseData) {
+    return TrialSession.getJoinWindow({}, []);
+  }
+  const sessions = await TrialSession.getSessionsForCase(caseData);
+  return TrialSession.getJoinWindow(caseData, sessions);
+}
+
+/**
+ * Session details returned with a join so the conference can show which day is on
+ */
+function describeJoinSession(joinWindow) {
+  if (!joinWindow.session) return null;
+  return {
+    ...joinWindow.session,
+    state: joinWindow.state,
+    totalSessions: joinWindow.totalSessions,
+    name: TrialSession.describeSession(joinWindow.session.sessionNumber, joinWindow.session.label),
+  };
+}
+
 // ============================================
 // TRIAL MEETING CREATION
 // ============================================
@@ -329,8 +458,8 @@ router.get(
         });
       }
 
-      // Check authorization
-      if (userType === "attorney" && caseData.AttorneyId !== userId) {
+      // Check authorization (requireTrialAccess resolved the attorney's counsel role)
+      if (userType === "attorney" && !req.counselRole) {
         return res.status(403).json({
           success: false,
           message: "Access denied",
@@ -398,7 +527,7 @@ router.post(
       const userType = req.user.type;
 
       // Deduplicate concurrent join calls for the same user+case (StrictMode double-mount).
-      const joinKey = `${caseId}-${userId}`;
+      const joinKey = `${caseId}-${userType}-${userId}`;
       if (participantJoinInFlight.has(joinKey)) {
         console.log(`⏳ join for case ${caseId} user ${userId} already in flight — reusing result`);
         try {
@@ -423,62 +552,44 @@ router.post(
         });
       }
 
-      // Block joining after the case day has ended
-      if (caseData.ScheduledDate) {
-        const scheduledDateStr = String(caseData.ScheduledDate).slice(0, 10);
-        const todayStr = new Date().toISOString().slice(0, 10);
-        if (todayStr > scheduledDateStr) {
-          if (rejectJoin) { rejectJoin(new Error("Case day ended")); setTimeout(() => participantJoinInFlight.delete(joinKey), 10000); }
-          return res.status(403).json({
-            success: false,
-            message: "The case day has ended. Joining is no longer available.",
-          });
-        }
+      // Multi-day trials: work out which session the conference is for
+      const joinWindow = await getCaseJoinWindow(caseData);
+
+      // Block joining after the last session's day has ended
+      if (joinWindow.state === "ended") {
+        if (rejectJoin) { rejectJoin(new Error("Case day ended")); setTimeout(() => participantJoinInFlight.delete(joinKey), 10000); }
+        return res.status(403).json({
+          success: false,
+          message: "The case day has ended. Joining is no longer available.",
+        });
       }
 
       console.log(`📋 Case ${caseId} status: ${caseData.AttorneyStatus}, AdminApproval: ${caseData.AdminApprovalStatus}`);
 
-      // ✅ FIX: Check if trial can be joined (15 minutes before scheduled time)
+      // ✅ FIX: Check if trial can be joined (15 minutes before the session's scheduled time)
       // Scheduled time is stored in attorney's LOCAL timezone
       // Admins and attorneys (case owners) can join anytime
-      if (userType !== "admin" && userType !== "attorney" && caseData.ScheduledDate && caseData.ScheduledTime) {
-        // Parse the stored local date/time
-        const dateParts = caseData.ScheduledDate.split('T')[0].split('-');
-        const timeParts = caseData.ScheduledTime.split(':');
-
-        const year = parseInt(dateParts[0], 10);
-        const month = parseInt(dateParts[1], 10) - 1; // 0-indexed
-        const day = parseInt(dateParts[2], 10);
-        const hours = parseInt(timeParts[0], 10);
-        const minutes = parseInt(timeParts[1], 10);
-        const seconds = parseInt(timeParts[2] || 0, 10);
-
-        // Get the timezone offset that was stored when case was created
-        const timezoneOffsetMinutes = parseInt(caseData.TimezoneOffset || 0, 10);
-
-        // Create UTC timestamp for the scheduled time using the stored timezone offset
-        // Date.UTC creates timestamp, then subtract offset to convert from local to UTC
-        const scheduledLocalAsUTC = Date.UTC(year, month, day, hours, minutes, seconds);
-        const scheduledActualUTC = scheduledLocalAsUTC - (timezoneOffsetMinutes * 60 * 1000);
-
-        const now = Date.now();
-        const fifteenMinutesInMs = 15 * 60 * 1000;
-        const canJoinAfter = scheduledActualUTC - fifteenMinutesInMs;
+      if (userType !== "admin" && userType !== "attorney" && joinWindow.session) {
+        const { session } = joinWindow;
 
         console.log(`🕐 Trial join time check for case ${caseId}:`);
-        console.log(`   Scheduled (in attorney TZ): ${caseData.ScheduledDate} ${caseData.ScheduledTime}`);
-        console.log(`   Timezone offset: ${timezoneOffsetMinutes} minutes`);
-        console.log(`   Current time (UTC): ${new Date(now).toISOString()}`);
-        console.log(`   Can join after (UTC): ${new Date(canJoinAfter).toISOString()}`);
-
-        if (now < canJoinAfter) {
-          const minutesUntilJoin = Math.ceil((canJoinAfter - now) / (60 * 1000));
+        console.log(`   Session ${session.sessionNumber} of ${joinWindow.totalSessions} (in attorney TZ): ${session.scheduledDate} ${session.scheduledTime}`);
+        console.log(`   Timezone offset: ${parseInt(caseData.TimezoneOffset || 0, 10)} minutes`);
+        console.log(`   Current time (UTC): ${new Date().toISOString()}`);
+        console.log(`   Can join after (UTC): ${new Date(joinWindow.canJoinAt).toISOString()}`);
+
+        if (joinWindow.state === "upcoming") {
+          const minutesUntilJoin = Math.ceil((joinWindow.canJoinAt - Date.now()) / (60 * 1000));
+          const sessionName = joinWindow.totalSessions > 1
+            ? `${TrialSession.describeSession(session.sessionNumber, session.label)} of the trial`
+            : "Trial";
           console.log(`⏰ Too early to join - ${minutesUntilJoin} minutes until join time`);
           return res.status(403).json({
             success: false,
-            message: `Trial cannot be joined yet. You can join ${minutesUntilJoin} minute${minutesUntilJoin !== 1 ? 's' : ''} before the scheduled time.`,
-            scheduledTime: new Date(scheduledActualUTC).toISOString(),
-            canJoinAt: new Date(canJoinAfter).toISOString()
+            message: `${sessionName} cannot be joined yet. You can join ${TrialSession.JOIN_WINDOW_MINUTES} minutes before the scheduled time (${minutesUntilJoin} minute${minutesUntilJoin !== 1 ? 's' : ''} from now).`,
+            scheduledTime: new Date(joinWindow.startsAt).toISOString(),
+            canJoinAt: new Date(joinWindow.canJoinAt).toISOString(),
+            session,
           });
         }
         console.log(`✅ Time check passed - can join now`);
@@ -487,16 +598,20 @@ router.post(
       // Verify authorization and set display name
       let displayName = "";
       let participantRole = "Attendee";
+      let withChat = true;
 
       if (userType === "attorney") {
-        if (caseData.AttorneyId !== userId) {
-          console.error(`❌ Attorney ${userId} does not own case ${caseId} (owner: ${caseData.AttorneyId})`);
+        const { counselRole } = req;
+        if (!counselRole) {
+          console.error(`❌ Attorney ${userId} is not counsel on case ${caseId} (owner: ${caseData.AttorneyId})`);
           return res.status(403).json({
             success: false,
             message: "Access denied",
           });
         }
-        displayName = `${req.user.firstName} ${req.user.lastName} (Attorney)`;
+        // With opposing counsel, each attorney is shown by the side they argue
+        const roleLabel = counselRole.side ? OpposingCounsel.getSideLabel(counselRole.side) : "Attorney";
+        displayName = `${req.user.firstName} ${req.user.lastName} (${roleLabel})`;
         participantRole = "Presenter";
       } else if (userType === "juror") {
         const application = await JurorApplication.findByJurorAndCase(
@@ -514,6 +629,11 @@ router.post(
       } else if (userType === "admin") {
         displayName = "Court Administrator";
         participantRole = "Presenter";
+      } else if (userType === "team_member") {
+        // War room team members watch muted, outside the courtroom chat
+        displayName = `${req.user.name} (Observer)`;
+        participantRole = PARTICIPANT_ROLES.CONSUMER;
+        withChat = false;
       } else {
         console.error(`❌ Invalid user type: ${userType}`);
         return res.status(403).json({
@@ -672,13 +792,13 @@ router.post(
       }
 
       // Generate token with VoIP and Chat scopes
-      const tokenResponse = await identityClient.getToken(identityResponse, [
-        "voip",
-        "chat",
-      ]);
+      const tokenResponse = await identityClient.getToken(
+        identityResponse,
+        withChat ? ["voip", "chat"] : ["voip"]
+      );
 
       // Add user to chat thread using the stored service user ID
-      if (meeting.ChatThreadId && meeting.ChatServiceUserId) {
+      if (withChat && meeting.ChatThreadId && meeting.ChatServiceUserId) {
         try {
           await addParticipantToChat(
             meeting.ChatThreadId,
@@ -726,8 +846,13 @@ router.post(
         userId: acsUserId,
         displayName: displayName,
         roomId: activeRoomId,
-        chatThreadId: meeting.ChatThreadId,
+        chatThreadId: withChat ? meeting.ChatThreadId : null,
         endpointUrl: ACS_ENDPOINT,
+        session: describeJoinSession(joinWindow),
+        observer: participantRole === PARTICIPANT_ROLES.CONSUMER,
+        counselRole: req.counselRole
+          ? { role: req.counselRole.role, side: req.counselRole.side }
+          : null,
       };
       resolveJoin(joinResult);
       setTimeout(() => participantJoinInFlight.delete(joinKey), 10000);
@@ -755,6 +880,7 @@ router.get(
   generalTrialLimiter,
   validateCaseId,
   requireTrialAccess,
+  denyTeamObservers,
   async (req, res) => {
     try {
       const caseId = req.validatedCaseId;
@@ -787,152 +913,748 @@ router.get(
 );
 
 /**
- * GET /api/trial/case/:caseId/jurors
- * Get approved jurors for a trial
- * FIXED: Added SQL type safety
+ * GET /api/trial/clock/:caseId
+ * Get the current trial phase clock (admin controls it over the websocket)
  */
 router.get(
-  "/case/:caseId/jurors",
+  "/clock/:caseId",
   generalTrialLimiter,
   validateCaseId,
   requireTrialAccess,
   async (req, res) => {
     try {
-      const caseId = req.validatedCaseId;
-      const pool = await poolPromise;
-
-      const result = await pool.request().input("caseId", sql.Int, caseId)
-        .query(`
-          SELECT 
-            j.JurorId as id,
-            j.Name,
-            j.Email,
-            ja.Status
-          FROM dbo.JurorApplications ja
-          JOIN dbo.Jurors j ON ja.JurorId = j.JurorId
-          WHERE ja.CaseId = @caseId AND ja.Status = 'approved'
-        `);
+      const clock = await TrialMeeting.getPhaseClock(req.validatedCaseId);
+      if (!clock) {
+        return res.status(404).json({
+          success: false,
+          message: "Meeting not found",
+        });
+      }
 
       res.json({
         success: true,
-        jurors: result.recordset,
-        count: result.recordset.length,
+        clock,
       });
     } catch (error) {
-      console.error("Error fetching jurors:", error);
+      console.error("Error getting trial clock:", error);
       res.status(500).json({
         success: false,
-        message: "Failed to fetch jurors",
+        message: "Failed to get trial clock",
       });
     }
   }
 );
 
 /**
- * POST /api/trial/juror-join/:caseId
- * Juror join endpoint
- *
- * ✅ FIXED: Uses stored service user ID to add juror to chat
+ * GET /api/trial/exhibit/:caseId
+ * Get the exhibit currently presented to the jury, if any
+ * (the attorney presents and navigates it over the websocket)
  */
-router.post(
-  "/juror-join/:caseId",
-  joinTrialLimiter,
+router.get(
+  "/exhibit/:caseId",
+  generalTrialLimiter,
   validateCaseId,
-  checkACSConfiguration,
   requireTrialAccess,
   async (req, res) => {
     try {
-      const caseId = req.validatedCaseId;
-      const jurorId = req.user.id;
-      const pool = await poolPromise;
+      const exhibit = await TrialMeeting.getPresentedExhibit(req.validatedCaseId);
 
-      const verification = await pool
-        .request()
-        .input("caseId", sql.Int, caseId)
-        .input("jurorId", sql.Int, jurorId).query(`
-          SELECT
-            ja.Status,
-            tm.RoomId,
-            tm.ChatThreadId,
-            tm.ChatServiceUserId,
-            tm.MeetingId,
-            j.Name,
-            c.ScheduledDate
-          FROM dbo.JurorApplications ja
-          JOIN dbo.TrialMeetings tm ON ja.CaseId = tm.CaseId
-          JOIN dbo.Jurors j ON ja.JurorId = j.JurorId
-          JOIN dbo.Cases c ON ja.CaseId = c.CaseId
-          WHERE ja.CaseId = @caseId
-            AND ja.JurorId = @jurorId
-            AND ja.Status = 'approved'
-        `);
+      res.json({
+        success: true,
+        exhibit: await TrialMeeting.serializeExhibit(exhibit),
+      });
+    } catch (error) {
+      console.error("Error getting presented exhibit:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get presented exhibit",
+      });
+    }
+  }
+);
 
-      if (verification.recordset.length === 0) {
+/**
+ * POST /api/trial/attendance/:caseId
+ * Juror conference client reports join / heartbeat / leave with camera state
+ * Body: { event: "join" | "heartbeat" | "leave", cameraOn: boolean }
+ */
+router.post(
+  "/attendance/:caseId",
+  attendanceLimiter,
+  validateCaseId,
+  requireTrialAccess,
+  async (req, res) => {
+    try {
+      if (req.user.type !== "juror") {
         return res.status(403).json({
           success: false,
-          message: "Not authorized to join this trial",
+          message: "Only jurors report attendance",
         });
       }
 
-      const data = verification.recordset[0];
+      const { event, cameraOn } = req.body || {};
+      if (!Object.values(JurorAttendance.ATTENDANCE_EVENTS).includes(event)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid attendance event",
+        });
+      }
 
-      // Block joining after the case day has ended
-      if (data.ScheduledDate) {
-        const scheduledDateStr = String(data.ScheduledDate).slice(0, 10);
-        const todayStr = new Date().toISOString().slice(0, 10);
-        if (todayStr > scheduledDateStr) {
-          return res.status(403).json({
-            success: false,
-            message: "The case day has ended. Joining is no longer available.",
-          });
-        }
+      if (event === JurorAttendance.ATTENDANCE_EVENTS.LEAVE) {
+        await JurorAttendance.recordLeave(req.validatedCaseId, req.user.id);
+      } else {
+        await JurorAttendance.recordHeartbeat(req.validatedCaseId, req.user.id, {
+          cameraOn: cameraOn !== false,
+        });
       }
 
-      let activeRoomId = data.RoomId;
-      const chatThreadId = data.ChatThreadId;
-      const chatServiceUserId = data.ChatServiceUserId;
-      const meetingId = data.MeetingId;
-      const jurorName = data.Name;
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error recording attendance:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to record attendance",
+      });
+    }
+  }
+);
 
-      // Create identity and token
-      const identity = await identityClient.createUser();
-      const token = await identityClient.getToken(identity, ["voip", "chat"]);
+/**
+ * GET /api/trial/attendance/:caseId
+ * Admin: per-juror attendance and camera time, flagged against the payout thresholds
+ */
+router.get(
+  "/attendance/:caseId",
+  generalTrialLimiter,
+  validateCaseId,
+  requireAdminForTrial,
+  async (req, res) => {
+    try {
+      const attendance = await JurorAttendance.getCaseAttendance(
+        req.validatedCaseId
+      );
 
-      // Add to room (for video)
-      // If another join is currently doing nuclear recovery for this case, wait for it to finish
-      if (roomRecoveryInProgress.has(caseId)) {
-        console.log(`⏳ Waiting for concurrent room recovery on case ${caseId}...`);
-        await waitForRoomRecovery(caseId);
+      res.json({
+        success: true,
+        ...attendance,
+      });
+    } catch (error) {
+      console.error("Error getting attendance:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get attendance",
+      });
+    }
+  }
+);
+
+// ============================================
+// JUROR QUESTION ROUTES
+// ============================================
+
+/**
+ * GET /api/trial/questions/:caseId
+ * Admin: every question with the juror who asked it
+ * Attorney: approved questions as forwarded (anonymous)
+ * Juror: their own questions and whether they were forwarded
+ */
+router.get(
+  "/questions/:caseId",
+  generalTrialLimiter,
+  validateCaseId,
+  requireTrialAccess,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const userType = req.user.type;
+
+      let rows;
+      if (userType === "admin") {
+        rows = await JurorQuestion.getCaseQuestions(caseId, { status: req.query.status });
+      } else if (userType === "attorney" || userType === "team_member") {
+        rows = await JurorQuestion.getCaseQuestions(caseId, {
+          status: JurorQuestion.QUESTION_STATUSES.APPROVED,
+        });
+      } else {
+        rows = await JurorQuestion.getCaseQuestions(caseId, { jurorId: req.user.id });
       }
 
-      // Re-fetch room ID in case it was updated by a just-completed concurrent recovery
-      const freshPoolJ = await poolPromise;
-      const freshRoomJ = await freshPoolJ
-        .request()
-        .input("meetingId", sql.Int, meetingId)
-        .query("SELECT RoomId FROM dbo.TrialMeetings WHERE MeetingId = @meetingId");
-      if (freshRoomJ.recordset[0]?.RoomId) {
-        activeRoomId = freshRoomJ.recordset[0].RoomId;
+      res.json({
+        success: true,
+        questions: rows.map((row) =>
+          JurorQuestion.formatQuestion(row, { includeJuror: userType === "admin" })
+        ),
+      });
+    } catch (error) {
+      console.error("Error getting juror questions:", error);
+      res.status(error.message.includes("validation failed") ? 400 : 500).json({
+        success: false,
+        message: "Failed to get juror questions",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/trial/questions/:caseId
+ * Juror submits a written question for counsel; it waits for admin approval
+ * Body: { text }
+ */
+router.post(
+  "/questions/:caseId",
+  jurorQuestionLimiter,
+  validateCaseId,
+  requireTrialAccess,
+  async (req, res) => {
+    try {
+      if (req.user.type !== "juror") {
+        return res.status(403).json({
+          success: false,
+          message: "Only jurors can submit questions",
+        });
       }
 
-      try {
-        let roomResult = await addParticipantToRoom(
-          activeRoomId,
-          identity.communicationUserId,
-          "Attendee"
-        );
+      const caseId = req.validatedCaseId;
+      const row = await JurorQuestion.submitQuestion(caseId, req.user.id, req.body?.text);
 
-        // If roomGone: concurrent recovery deleted the room before DB was updated.
-        // Poll until the other request commits its new RoomId (~3s max, 500ms intervals).
-        let roomGoneAttemptsJ = 0;
-        while (roomResult?.roomGone && roomGoneAttemptsJ < 6) {
-          console.log(`⏳ Room ${activeRoomId} gone for juror (attempt ${roomGoneAttemptsJ + 1}/6) — waiting for concurrent recovery to update DB...`);
-          await new Promise((r) => setTimeout(r, 500));
-          if (roomRecoveryInProgress.has(caseId)) await waitForRoomRecovery(caseId);
-          const poolGoneJ = await poolPromise;
-          const freshIdJ = await refetchRoomId(poolGoneJ, meetingId);
-          if (freshIdJ && freshIdJ !== activeRoomId) {
-            activeRoomId = freshIdJ;
+      notifyJurorQuestionSubmitted(
+        caseId,
+        JurorQuestion.formatQuestion(row, { includeJuror: true })
+      );
+
+      res.status(201).json({
+        success: true,
+        question: JurorQuestion.formatQuestion(row),
+      });
+    } catch (error) {
+      console.error("Error submitting juror question:", error);
+      const isValidation = error.message.includes("validation failed");
+      res.status(isValidation ? 400 : 500).json({
+        success: false,
+        message: isValidation
+          ? error.message.replace(/^Juror question validation failed: /, "")
+          : "Failed to submit question",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/trial/questions/:caseId/:questionId/moderate
+ * Admin approves (optionally with edited wording) or rejects a pending question.
+ * Approved questions are forwarded to the attorney immediately.
+ * Body: { decision: "approve" | "reject", text?, reason? }
+ */
+router.post(
+  "/questions/:caseId/:questionId/moderate",
+  generalTrialLimiter,
+  validateCaseId,
+  requireAdminForTrial,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const questionId = parseInt(req.params.questionId, 10);
+      if (isNaN(questionId)) {
+        return res.status(400).json({
+          success: false,
+          message: "Valid question ID is required",
+        });
+      }
+
+      const { decision, text, reason } = req.body || {};
+      const { QUESTION_STATUSES } = JurorQuestion;
+      const status =
+        decision === "approve"
+          ? QUESTION_STATUSES.APPROVED
+          : decision === "reject"
+            ? QUESTION_STATUSES.REJECTED
+            : null;
+      if (!status) {
+        return res.status(400).json({
+          success: false,
+          message: 'Decision must be "approve" or "reject"',
+        });
+      }
+
+      const row = await JurorQuestion.moderateQuestion(caseId, questionId, {
+        status,
+        text,
+        reason,
+        adminId: req.user.id,
+      });
+      if (!row) {
+        return res.status(409).json({
+          success: false,
+          message: "Question was already moderated",
+        });
+      }
+
+      const question = JurorQuestion.formatQuestion(row);
+      if (status === QUESTION_STATUSES.APPROVED) {
+        notifyJurorQuestionApproved(caseId, question);
+      }
+      notifyUser(row.JurorId, "juror", "juror_question:moderated", { caseId, question });
+
+      await Event.createEvent({
+        caseId,
+        eventType: Event.EVENT_TYPES.CASE_UPDATED,
+        description: `Juror question #${questionId} ${status === QUESTION_STATUSES.APPROVED ? "forwarded to counsel" : "rejected"}`,
+        triggeredBy: req.user.id,
+        userType: "admin",
+      });
+
+      res.json({
+        success: true,
+        question: JurorQuestion.formatQuestion(row, { includeJuror: true }),
+      });
+    } catch (error) {
+      console.error("Error moderating juror question:", error);
+      const isValidation = error.message.includes("validation failed");
+      res.status(isValidation ? 400 : 500).json({
+        success: false,
+        message: isValidation
+          ? error.message.replace(/^Juror question validation failed: /, "")
+          : "Failed to moderate question",
+      });
+    }
+  }
+);
+
+// ============================================
+// INSTANT POLL ROUTES
+// ============================================
+
+/**
+ * GET /api/trial/polls/:caseId
+ * Admin/Attorney: every poll with live results
+ * Juror: open polls only, flagged when already answered (no results)
+ */
+router.get(
+  "/polls/:caseId",
+  generalTrialLimiter,
+  validateCaseId,
+  requireTrialAccess,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const polls =
+        req.user.type === "juror"
+          ? await TrialPoll.getOpenPollsForJuror(caseId, req.user.id)
+          : await TrialPoll.getCasePolls(caseId);
+
+      res.json({
+        success: true,
+        polls,
+      });
+    } catch (error) {
+      console.error("Error getting trial polls:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get polls",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/trial/polls/:caseId
+ * Admin launches a poll; it is pushed to jurors immediately
+ * Body: { question, options: string[] }
+ */
+router.post(
+  "/polls/:caseId",
+  generalTrialLimiter,
+  validateCaseId,
+  requireAdminForTrial,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const { question, options } = req.body || {};
+
+      const poll = await TrialPoll.createPoll(caseId, {
+        question,
+        options,
+        adminId: req.user.id,
+      });
+
+      const { results, totalResponses, ...jurorView } = poll;
+      notifyPollOpened(caseId, jurorView);
+      notifyPollResults(caseId, poll);
+
+      await Event.createEvent({
+        caseId,
+        eventType: Event.EVENT_TYPES.CASE_UPDATED,
+        description: `Instant poll #${poll.pollId} launched: "${poll.question}"`,
+        triggeredBy: req.user.id,
+        userType: "admin",
+      });
+
+      res.status(201).json({
+        success: true,
+        poll,
+      });
+    } catch (error) {
+      console.error("Error creating trial poll:", error);
+      const isValidation = error.message.includes("validation failed");
+      res.status(isValidation ? 400 : 500).json({
+        success: false,
+        message: isValidation
+          ? error.message.replace(/^Poll validation failed: /, "")
+          : "Failed to create poll",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/trial/polls/:caseId/:pollId/respond
+ * Juror answers an open poll (once). Responses are anonymous.
+ * Body: { optionIndex }
+ */
+router.post(
+  "/polls/:caseId/:pollId/respond",
+  generalTrialLimiter,
+  validateCaseId,
+  requireTrialAccess,
+  async (req, res) => {
+    try {
+      if (req.user.type !== "juror") {
+        return res.status(403).json({
+          success: false,
+          message: "Only jurors can answer polls",
+        });
+      }
+
+      const caseId = req.validatedCaseId;
+      const pollId = parseInt(req.params.pollId, 10);
+      if (isNaN(pollId)) {
+        return res.status(400).json({
+          success: false,
+          message: "Valid poll ID is required",
+        });
+      }
+
+      const poll = await TrialPoll.submitResponse(caseId, pollId, req.user.id, req.body?.optionIndex);
+      notifyPollResults(caseId, poll);
+
+      res.json({
+        success: true,
+        message: "Response recorded",
+      });
+    } catch (error) {
+      console.error("Error answering trial poll:", error);
+      if (error.message === "Poll not found") {
+        return res.status(404).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      const isValidation = error.message.includes("validation failed");
+      res.status(isValidation ? 409 : 500).json({
+        success: false,
+        message: isValidation
+          ? error.message.replace(/^Poll validation failed: /, "")
+          : "Failed to record response",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/trial/polls/:caseId/:pollId/close
+ * Admin stops accepting responses; results stay with the case
+ */
+router.post(
+  "/polls/:caseId/:pollId/close",
+  generalTrialLimiter,
+  validateCaseId,
+  requireAdminForTrial,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const pollId = parseInt(req.params.pollId, 10);
+      if (isNaN(pollId)) {
+        return res.status(400).json({
+          success: false,
+          message: "Valid poll ID is required",
+        });
+      }
+
+      const poll = await TrialPoll.closePoll(caseId, pollId);
+      if (!poll) {
+        return res.status(409).json({
+          success: false,
+          message: "Poll is not open",
+        });
+      }
+
+      notifyPollClosed(caseId, pollId);
+      notifyPollResults(caseId, poll);
+
+      res.json({
+        success: true,
+        poll,
+      });
+    } catch (error) {
+      console.error("Error closing trial poll:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to close poll",
+      });
+    }
+  }
+);
+
+// ============================================
+// JUROR NOTEPAD ROUTES
+// ============================================
+
+/**
+ * GET /api/trial/notes/:caseId
+ * Juror only: their own private notes for the case
+ */
+router.get(
+  "/notes/:caseId",
+  generalTrialLimiter,
+  validateCaseId,
+  requireTrialAccess,
+  async (req, res) => {
+    try {
+      // Notes are private to the juror; admins and attorneys never see them
+      if (req.user.type !== "juror") {
+        return res.status(403).json({
+          success: false,
+          message: "Only jurors have a notepad",
+        });
+      }
+
+      const note = await JurorNote.getNote(req.validatedCaseId, req.user.id);
+
+      res.json({
+        success: true,
+        note,
+      });
+    } catch (error) {
+      console.error("Error getting juror notes:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get notes",
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/trial/notes/:caseId
+ * Juror saves their notes (replaces the previous version)
+ * Body: { content }
+ */
+router.put(
+  "/notes/:caseId",
+  jurorNoteLimiter,
+  validateCaseId,
+  requireTrialAccess,
+  async (req, res) => {
+    try {
+      if (req.user.type !== "juror") {
+        return res.status(403).json({
+          success: false,
+          message: "Only jurors have a notepad",
+        });
+      }
+
+      const note = await JurorNote.saveNote(
+        req.validatedCaseId,
+        req.user.id,
+        req.body?.content
+      );
+
+      res.json({
+        success: true,
+        note,
+      });
+    } catch (error) {
+      console.error("Error saving juror notes:", error);
+      const isValidation = error.message.includes("validation failed");
+      res.status(isValidation ? 400 : 500).json({
+        success: false,
+        message: isValidation
+          ? error.message.replace(/^Juror note validation failed: /, "")
+          : "Failed to save notes",
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/trial/case/:caseId/jurors
+ * Get approved jurors for a trial (emails for admins and the owning attorney only)
+ * FIXED: Added SQL type safety
+ */
+router.get(
+  "/case/:caseId/jurors",
+  generalTrialLimiter,
+  validateCaseId,
+  requireTrialAccess,
+  denyTeamObservers,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const pool = await poolPromise;
+
+      const result = await pool.request().input("caseId", sql.Int, caseId)
+        .query(`
+          SELECT 
+            j.JurorId as id,
+            j.Name,
+            j.Email,
+            ja.Status
+          FROM dbo.JurorApplications ja
+          JOIN dbo.Jurors j ON ja.JurorId = j.JurorId
+          WHERE ja.CaseId = @caseId AND ja.Status = 'approved'
+        `);
+
+      // Opposing counsel and jurors see names only
+      const jurors = canViewJurorContact(req)
+        ? result.recordset
+        : result.recordset.map(({ Email, ...juror }) => juror);
+
+      res.json({
+        success: true,
+        jurors,
+        count: jurors.length,
+      });
+    } catch (error) {
+      console.error("Error fetching jurors:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch jurors",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/trial/juror-join/:caseId
+ * Juror join endpoint
+ *
+ * ✅ FIXED: Uses stored service user ID to add juror to chat
+ */
+router.post(
+  "/juror-join/:caseId",
+  joinTrialLimiter,
+  validateCaseId,
+  checkACSConfiguration,
+  requireTrialAccess,
+  async (req, res) => {
+    try {
+      if (req.user.type !== "juror") {
+        return res.status(403).json({
+          success: false,
+          message: "Only jurors can use this endpoint",
+        });
+      }
+
+      const caseId = req.validatedCaseId;
+      const jurorId = req.user.id;
+      const pool = await poolPromise;
+
+      const verification = await pool
+        .request()
+        .input("caseId", sql.Int, caseId)
+        .input("jurorId", sql.Int, jurorId).query(`
+          SELECT
+            ja.Status,
+            tm.RoomId,
+            tm.ChatThreadId,
+            tm.ChatServiceUserId,
+            tm.MeetingId,
+            j.Name,
+            c.ScheduledDate
+          FROM dbo.JurorApplications ja
+          JOIN dbo.TrialMeetings tm ON ja.CaseId = tm.CaseId
+          JOIN dbo.Jurors j ON ja.JurorId = j.JurorId
+          JOIN dbo.Cases c ON ja.CaseId = c.CaseId
+          WHERE ja.CaseId = @caseId
+            AND ja.JurorId = @jurorId
+            AND ja.Status = 'approved'
+        `);
+
+      if (verification.recordset.length === 0) {
+        return res.status(403).json({
+          success: false,
+          message: "Not authorized to join this trial",
+        });
+      }
+
+      const data = verification.recordset[0];
+
+      // Block joining after the last session's day has ended
+      const joinWindow = await getCaseJoinWindow(await Case.findById(caseId));
+      if (joinWindow.state === "ended") {
+        return res.status(403).json({
+          success: false,
+          message: "The case day has ended. Joining is no longer available.",
+        });
+      }
+
+      // Between the days of a multi-day trial the room stays closed to jurors
+      if (joinWindow.state === "upcoming" && !joinWindow.isSessionDay && joinWindow.session.sessionNumber > 1) {
+        const { session } = joinWindow;
+        return res.status(403).json({
+          success: false,
+          message: `The trial resumes with ${TrialSession.describeSession(session.sessionNumber, session.label)} on ${session.scheduledDate} at ${session.scheduledTime.slice(0, 5)}.`,
+          scheduledTime: new Date(joinWindow.startsAt).toISOString(),
+          canJoinAt: new Date(joinWindow.canJoinAt).toISOString(),
+          session,
+        });
+      }
+
+      let activeRoomId = data.RoomId;
+      const chatThreadId = data.ChatThreadId;
+      const chatServiceUserId = data.ChatServiceUserId;
+      const meetingId = data.MeetingId;
+      const jurorName = data.Name;
+
+      // Create identity and token
+      const identity = await identityClient.createUser();
+      const token = await identityClient.getToken(identity, ["voip", "chat"]);
+
+      // Add to room (for video)
+      // If another join is currently doing nuclear recovery for this case, wait for it to finish
+      if (roomRecoveryInProgress.has(caseId)) {
+        console.log(`⏳ Waiting for concurrent room recovery on case ${caseId}...`);
+        await waitForRoomRecovery(caseId);
+      }
+
+      // Re-fetch room ID in case it was updated by a just-completed concurrent recovery
+      const freshPoolJ = await poolPromise;
+      const freshRoomJ = await freshPoolJ
+        .request()
+        .input("meetingId", sql.Int, meetingId)
+        .query("SELECT RoomId FROM dbo.TrialMeetings WHERE MeetingId = @meetingId");
+      if (freshRoomJ.recordset[0]?.RoomId) {
+        activeRoomId = freshRoomJ.recordset[0].RoomId;
+      }
+
+      try {
+        let roomResult = await addParticipantToRoom(
+          activeRoomId,
+          identity.communicationUserId,
+          "Attendee"
+        );
+
+        // If roomGone: concurrent recovery deleted the room before DB was updated.
+        // Poll until the other request commits its new RoomId (~3s max, 500ms intervals).
+        let roomGoneAttemptsJ = 0;
+        while (roomResult?.roomGone && roomGoneAttemptsJ < 6) {
+          console.log(`⏳ Room ${activeRoomId} gone for juror (attempt ${roomGoneAttemptsJ + 1}/6) — waiting for concurrent recovery to update DB...`);
+          await new Promise((r) => setTimeout(r, 500));
+          if (roomRecoveryInProgress.has(caseId)) await waitForRoomRecovery(caseId);
+          const poolGoneJ = await poolPromise;
+          const freshIdJ = await refetchRoomId(poolGoneJ, meetingId);
+          if (freshIdJ && freshIdJ !== activeRoomId) {
+            activeRoomId = freshIdJ;
             roomResult = await addParticipantToRoom(activeRoomId, identity.communicationUserId, "Attendee");
             break;
           }
@@ -1017,6 +1739,7 @@ router.post(
         userId: identity.communicationUserId,
         chatThreadId: chatThreadId,
         endpointUrl: ACS_ENDPOINT,
+        session: describeJoinSession(joinWindow),
       });
     } catch (error) {
       console.error("❌ Error in juror join:", error);
@@ -1165,17 +1888,14 @@ router.post(
 
       const trial = result.recordset[0];
 
-      // Block joining after the case day has ended
-      if (trial.ScheduledDate) {
-        const scheduledDateStr = String(trial.ScheduledDate).slice(0, 10);
-        const todayStr = new Date().toISOString().slice(0, 10);
-        if (todayStr > scheduledDateStr) {
-          rejectInflight(new Error("Case day ended"));
-          return res.status(403).json({
-            success: false,
-            message: "The case day has ended. Joining is no longer available.",
-          });
-        }
+      // Block joining after the last session's day has ended
+      const joinWindow = await getCaseJoinWindow(await Case.findById(caseId));
+      if (joinWindow.state === "ended") {
+        rejectInflight(new Error("Case day ended"));
+        return res.status(403).json({
+          success: false,
+          message: "The case day has ended. Joining is no longer available.",
+        });
       }
 
       console.log("Admin join - trial record:", {
@@ -1391,6 +2111,7 @@ router.post(
         roomId: activeRoomId,
         chatThreadId: trial.ChatThreadId,
         endpointUrl: ACS_ENDPOINT,
+        session: describeJoinSession(joinWindow),
       };
 
       resolveInflight(joinResult);
@@ -1414,6 +2135,321 @@ router.post(
   }
 );
 
+// ============================================
+// DELIBERATION ROOM ROUTES
+// ============================================
+
+/**
+ * GET /api/trial/deliberation/:caseId
+ * Whether jurors are in the courtroom or deliberating, and whether silent
+ * attorney observation is available/enabled
+ */
+router.get(
+  "/deliberation/:caseId",
+  generalTrialLimiter,
+  validateCaseId,
+  requireTrialAccess,
+  async (req, res) => {
+    try {
+      const deliberation = await TrialMeeting.getDeliberation(req.validatedCaseId);
+      if (!deliberation) {
+        return res.status(404).json({
+          success: false,
+          message: "Meeting not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        deliberation: TrialMeeting.serializeDeliberation(deliberation),
+      });
+    } catch (error) {
+      console.error("Error getting deliberation state:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get deliberation state",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/trial/deliberation/:caseId/move
+ * Admin moves the jurors into the private deliberation room, or back to
+ * the courtroom for the debrief
+ * Body: { destination: "deliberation" | "courtroom" }
+ */
+router.post(
+  "/deliberation/:caseId/move",
+  generalTrialLimiter,
+  validateCaseId,
+  checkACSConfiguration,
+  requireAdminForTrial,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const { destination } = req.body || {};
+
+      if (destination !== "deliberation" && destination !== "courtroom") {
+        return res.status(400).json({
+          success: false,
+          message: 'Destination must be "deliberation" or "courtroom"',
+        });
+      }
+
+      let deliberation = await TrialMeeting.getDeliberation(caseId);
+      if (!deliberation) {
+        return res.status(404).json({
+          success: false,
+          message: "Meeting not found",
+        });
+      }
+
+      const { DELIBERATION_STATUSES } = TrialMeeting;
+      let status;
+      if (destination === "deliberation") {
+        deliberation = await ensureDeliberationRoom(caseId, deliberation);
+        status = DELIBERATION_STATUSES.DELIBERATING;
+      } else {
+        if (deliberation.status !== DELIBERATION_STATUSES.DELIBERATING) {
+          return res.status(409).json({
+            success: false,
+            message: "Jurors are not in the deliberation room",
+          });
+        }
+        status = DELIBERATION_STATUSES.DEBRIEF;
+      }
+
+      await TrialMeeting.setDeliberationStatus(deliberation.meetingId, status);
+      const state = TrialMeeting.serializeDeliberation({ ...deliberation, status });
+      notifyDeliberationUpdated(caseId, state);
+
+      await Event.createEvent({
+        caseId,
+        eventType: Event.EVENT_TYPES.CASE_UPDATED,
+        description:
+          status === DELIBERATION_STATUSES.DELIBERATING
+            ? "Jurors moved to the deliberation room"
+            : "Jurors returned to the courtroom for debrief",
+        triggeredBy: req.user.id,
+        userType: "admin",
+      });
+
+      res.json({
+        success: true,
+        deliberation: state,
+      });
+    } catch (error) {
+      console.error("Error moving jurors:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to move jurors",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/trial/deliberation/:caseId/observation
+ * Admin turns silent attorney observation on or off (tiers that include it only)
+ * Body: { enabled: boolean }
+ */
+router.post(
+  "/deliberation/:caseId/observation",
+  generalTrialLimiter,
+  validateCaseId,
+  requireAdminForTrial,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const enabled = req.body?.enabled === true;
+
+      const deliberation = await TrialMeeting.getDeliberation(caseId);
+      if (!deliberation) {
+        return res.status(404).json({
+          success: false,
+          message: "Meeting not found",
+        });
+      }
+
+      if (enabled && !deliberation.observationAvailable) {
+        return res.status(403).json({
+          success: false,
+          message: "Silent observation is not included in this case's tier",
+        });
+      }
+
+      await TrialMeeting.setObservationEnabled(deliberation.meetingId, enabled);
+      const state = TrialMeeting.serializeDeliberation({
+        ...deliberation,
+        observationEnabled: enabled,
+      });
+      notifyDeliberationUpdated(caseId, state);
+
+      await Event.createEvent({
+        caseId,
+        eventType: Event.EVENT_TYPES.CASE_UPDATED,
+        description: `Silent observation of deliberations ${enabled ? "enabled" : "disabled"}`,
+        triggeredBy: req.user.id,
+        userType: "admin",
+      });
+
+      res.json({
+        success: true,
+        deliberation: state,
+      });
+    } catch (error) {
+      console.error("Error updating observation:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update observation",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/trial/deliberation/:caseId/join
+ * Generate an ACS token for the deliberation room. Jurors and admins join
+ * normally; attorneys are refused unless silent observation is enabled, and
+ * then join as a Consumer (cannot speak or share video) without chat access.
+ */
+router.post(
+  "/deliberation/:caseId/join",
+  joinTrialLimiter,
+  validateCaseId,
+  checkACSConfiguration,
+  requireTrialAccess,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const userId = req.user.id;
+      const userType = req.user.type;
+
+      const deliberation = await TrialMeeting.getDeliberation(caseId);
+      if (!deliberation) {
+        return res.status(404).json({
+          success: false,
+          message: "Meeting not found",
+        });
+      }
+
+      if (
+        deliberation.status !== TrialMeeting.DELIBERATION_STATUSES.DELIBERATING ||
+        !deliberation.roomId
+      ) {
+        return res.status(409).json({
+          success: false,
+          message: "Jurors are not deliberating",
+        });
+      }
+
+      let displayName;
+      let participantRole;
+      let withChat = true;
+
+      if (userType === "juror") {
+        const application = await JurorApplication.findByJurorAndCase(userId, caseId);
+        if (!application || application.Status !== "approved") {
+          return res.status(403).json({
+            success: false,
+            message: "Access denied - not approved for this case",
+          });
+        }
+        displayName = `${req.user.name} (Juror)`;
+        participantRole = PARTICIPANT_ROLES.ATTENDEE;
+      } else if (userType === "admin") {
+        displayName = "Court Administrator";
+        participantRole = PARTICIPANT_ROLES.PRESENTER;
+      } else if (userType === "attorney") {
+        if (!deliberation.observationEnabled) {
+          return res.status(403).json({
+            success: false,
+            message: "Attorneys cannot join jury deliberations",
+          });
+        }
+        displayName = `${req.user.firstName} ${req.user.lastName} (Observer)`;
+        participantRole = PARTICIPANT_ROLES.CONSUMER;
+        withChat = false;
+      } else {
+        return res.status(403).json({
+          success: false,
+          message: "Invalid user type",
+        });
+      }
+
+      const identityResponse = await identityClient.createUser();
+      const acsUserId = identityResponse.communicationUserId;
+
+      let activeRoomId = deliberation.roomId;
+      const roomResult = await addParticipantToRoom(activeRoomId, acsUserId, participantRole);
+      if (roomResult?.roomGone) {
+        return res.status(503).json({
+          success: false,
+          message: "Deliberation room is being reset. Please try again.",
+        });
+      }
+      if (roomResult?.newRoomId) {
+        // Corrupted room was replaced - move everyone already deliberating to the new one
+        activeRoomId = roomResult.newRoomId;
+        await TrialMeeting.saveDeliberationRoom(deliberation.meetingId, {
+          roomId: activeRoomId,
+          chatThreadId: deliberation.chatThreadId,
+          chatServiceUserId: deliberation.chatServiceUserId,
+        });
+        notifyRoomRecreated(caseId, activeRoomId);
+      }
+
+      const tokenResponse = await identityClient.getToken(
+        identityResponse,
+        withChat ? ["voip", "chat"] : ["voip"]
+      );
+
+      if (withChat && deliberation.chatThreadId && deliberation.chatServiceUserId) {
+        try {
+          await addParticipantToChat(
+            deliberation.chatThreadId,
+            deliberation.chatServiceUserId,
+            acsUserId,
+            displayName
+          );
+        } catch (chatAddError) {
+          console.error("Failed to add participant to deliberation chat:", chatAddError);
+          // Continue anyway - they can still join video
+        }
+      }
+
+      await Event.createEvent({
+        caseId,
+        eventType: Event.EVENT_TYPES.CASE_UPDATED,
+        description: `${displayName} joined the deliberation room`,
+        triggeredBy: userId,
+        userType,
+      });
+
+      res.json({
+        success: true,
+        token: tokenResponse.token,
+        expiresOn: tokenResponse.expiresOn,
+        userId: acsUserId,
+        displayName,
+        roomId: activeRoomId,
+        chatThreadId: withChat ? deliberation.chatThreadId : null,
+        endpointUrl: ACS_ENDPOINT,
+        observer: participantRole === PARTICIPANT_ROLES.CONSUMER,
+      });
+    } catch (error) {
+      console.error("❌ Error joining deliberation room:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to join deliberation room",
+        error:
+          process.env.NODE_ENV === "development" ? error.message : undefined,
+      });
+    }
+  }
+);
+
 /**
  * POST /api/trial/end/:caseId
  * End a trial meeting
@@ -1478,22 +2514,53 @@ router.post(
         }
       }
 
+      // Multi-day trials: ending a session before the last one only closes the day.
+      // The meeting goes back to "created" so the next session reuses the same room.
+      const { session, totalSessions } = await getCaseJoinWindow(await Case.findById(caseId));
+      const sessionContinues = !!session && session.sessionNumber < totalSessions;
+
       // Update meeting status to ended
-      await TrialMeeting.updateMeetingStatus(meeting.MeetingId, "ended");
+      await TrialMeeting.updateMeetingStatus(meeting.MeetingId, sessionContinues ? "created" : "ended");
+
+      // Tear down the deliberation room and its chat
+      try {
+        const deliberation = await TrialMeeting.getDeliberation(caseId);
+        if (deliberation?.roomId) {
+          await deleteRoom(deliberation.roomId);
+        }
+        if (deliberation?.chatServiceUserId) {
+          await deleteChatThread(deliberation.chatServiceUserId);
+        }
+        if (deliberation) {
+          await TrialMeeting.clearDeliberation(deliberation.meetingId);
+        }
+      } catch (deliberationError) {
+        console.error("Failed to clean up deliberation room:", deliberationError);
+      }
+
+      // Jurors still connected are marked as having left when the trial ends
+      try {
+        await JurorAttendance.closeOpenIntervals(caseId);
+      } catch (attendanceError) {
+        console.error("Failed to close attendance intervals:", attendanceError);
+      }
 
       // Create event in audit trail
       await Event.createEvent({
         caseId,
-        eventType: Event.EVENT_TYPES.TRIAL_COMPLETED,
-        description: "Trial meeting ended by admin",
+        eventType: sessionContinues ? Event.EVENT_TYPES.CASE_UPDATED : Event.EVENT_TYPES.TRIAL_COMPLETED,
+        description: sessionContinues
+          ? `${TrialSession.describeSession(session.sessionNumber, session.label)} ended by admin`
+          : "Trial meeting ended by admin",
         triggeredBy: req.user?.id || 0,
         userType: "admin",
       });
 
       res.json({
         success: true,
-        message: "Trial ended successfully",
+        message: sessionContinues ? "Trial session ended successfully" : "Trial ended successfully",
         participantsRemoved: activeParticipants.length,
+        sessionContinues,
       });
     } catch (error) {
       console.error("Error ending trial:", error);
@@ -27,6 +27,20 @@ const generalLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+/**
+ * Draft limiter - the presiding juror's answers are autosaved while they type
+ */
+const draftLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 500,
+  message: {
+    success: false,
+    message: "Too many draft saves. Please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 /**
  * Submission limiter (prevent spam submissions)
  */
@@ -86,7 +100,7 @@ router.post(
  */
 router.post(
   "/draft",
-  generalLimiter,
+  draftLimiter,
   verdictController.saveDraft
 );
 
@@ -101,6 +115,32 @@ router.get(
   verdictController.checkSubmissionStatus
 );
 
+// ============================================
+// PANEL (FOREPERSON) ROUTES
+// ============================================
+
+/**
+ * GET /api/verdicts/settings/:caseId
+ * Get verdict mode and presiding juror
+ * Juror, Attorney, or Admin
+ */
+router.get(
+  "/settings/:caseId",
+  generalLimiter,
+  verdictController.getVerdictSettings
+);
+
+/**
+ * GET /api/verdicts/panel/:caseId
+ * Get the live panel verdict entered by the presiding juror
+ * Approved Juror or Admin
+ */
+router.get(
+  "/panel/:caseId",
+  generalLimiter,
+  verdictController.getPanelVerdict
+);
+
 // ============================================
 // RETRIEVAL ROUTES
 // ============================================
@@ -166,6 +206,100 @@ router.get(
   verdictController.getAggregatedResults
 );
 
+/**
+ * GET /api/verdicts/crosstab/:caseId?attribute=ageRange|gender|education|maritalStatus|yearsInCounty
+ * Jury charge answers broken down by a juror attribute, with small cells suppressed
+ * Admin, or Attorney (own case) once results are published
+ */
+router.get(
+  "/crosstab/:caseId",
+  generalLimiter,
+  verdictController.getCrossTabResults
+);
+
+/**
+ * GET /api/verdicts/compare/:caseId
+ * Side-by-side results for the original case and each re-run of it
+ * Admin, or Attorney (own case) once results are published
+ */
+router.get(
+  "/compare/:caseId",
+  generalLimiter,
+  verdictController.getRerunComparison
+);
+
+/**
+ * GET /api/verdicts/reactions/:caseId?attribute=&value=&bucket=
+ * Average reaction dial reading over the trial recording, optionally for one juror group
+ * Admin, or Attorney (own case) once results are published
+ */
+router.get(
+  "/reactions/:caseId",
+  generalLimiter,
+  verdictController.getReactionTimeline
+);
+
+/**
+ * GET /api/verdicts/export/:caseId?format=pdf|csv
+ * Download the verdict results report (PDF or CSV)
+ * Admin, or Attorney (own case) once results are published
+ */
+router.get(
+  "/export/:caseId",
+  generalLimiter,
+  verdictController.exportResults
+);
+
+// ============================================
+// DEBRIEF SURVEY ROUTES
+// ============================================
+
+/**
+ * GET /api/verdicts/debrief/:caseId
+ * Get the post-trial debrief survey
+ * Juror (once sent), Attorney (own case), or Admin
+ */
+router.get(
+  "/debrief/:caseId",
+  generalLimiter,
+  verdictController.getDebriefSurvey
+);
+
+/**
+ * PUT /api/verdicts/debrief/:caseId
+ * Customize the debrief survey before it is sent
+ * Attorney (own case) or Admin
+ * Body: { includeWitnessRatings, questions }
+ */
+router.put(
+  "/debrief/:caseId",
+  generalLimiter,
+  verdictController.updateDebriefSurvey
+);
+
+/**
+ * POST /api/verdicts/debrief/:caseId/submit
+ * Submit a juror's debrief (releases their payout for approval)
+ * Juror only
+ * Body: { witnessRatings, answers }
+ */
+router.post(
+  "/debrief/:caseId/submit",
+  submissionLimiter,
+  verdictController.submitDebrief
+);
+
+/**
+ * GET /api/verdicts/debrief/:caseId/feedback
+ * Aggregated, anonymous debrief feedback
+ * Admin, or Attorney (own case) once results are published
+ */
+router.get(
+  "/debrief/:caseId/feedback",
+  generalLimiter,
+  verdictController.getDebriefFeedback
+);
+
 // ============================================
 // ADMIN CONTROLS
 // ============================================
@@ -181,6 +315,30 @@ router.post(
   verdictController.publishResults
 );
 
+/**
+ * PUT /api/verdicts/mode/:caseId
+ * Switch between individual and panel verdict mode
+ * Admin only
+ * Body: { mode }
+ */
+router.put(
+  "/mode/:caseId",
+  generalLimiter,
+  verdictController.updateVerdictMode
+);
+
+/**
+ * POST /api/verdicts/foreperson/:caseId
+ * Designate the presiding juror (random or manual)
+ * Admin only
+ * Body: { method, jurorId? }
+ */
+router.post(
+  "/foreperson/:caseId",
+  generalLimiter,
+  verdictController.assignForeperson
+);
+
 /**
  * DELETE /api/verdicts/:verdictId
  * Delete a verdict (admin only, for corrections)
@@ -13,6 +13,7 @@ const jurorApplicationController = require("../controllers/jurorApplicationContr
 
 // Import models
 const Case = require("../models/Case");
+const Firm = require("../models/Firm");
 const JurorApplication = require("../models/JurorApplication");
 const Notification = require("../models/Notification");
 const Event = require("../models/Event");
@@ -144,7 +145,7 @@ const verifyAttorneyCaseOwnership = async (req, res, next) => {
       });
     }
 
-    if (caseData.AttorneyId !== user.id) {
+    if (!(await Firm.canManageCase(caseData, user.id))) {
       return res.status(403).json({
         success: false,
         message: "Access denied: You do not own this case",
@@ -10,8 +10,11 @@ const rateLimit = require("express-rate-limit");
 const path = require("path");
 const { poolPromise, sql } = require("../config/db");
 const { authMiddleware } = require("../middleware/authMiddleware");
-const { requireWarRoomAccess } = require("../middleware/warRoomMiddleware");
-const { uploadToBlob, getBlobClient, generateUploadSasUrl, blobExists } = require("../utils/azureBlob");
+const {
+  requireWarRoomAccess,
+  requireTeamPermission,
+} = require("../middleware/warRoomMiddleware");
+const { uploadToBlob, deleteBlobs, generateUploadSasUrl, blobExists } = require("../utils/azureBlob");
 const {
   BlobServiceClient,
   generateBlobSASQueryParameters,
@@ -21,6 +24,9 @@ const {
 // Import models
 const Case = require("../models/Case");
 const Event = require("../models/Event");
+const OpposingCounsel = require("../models/OpposingCounsel");
+const WarRoomDocumentVersion = require("../models/WarRoomDocumentVersion");
+const { TEAM_PERMISSIONS } = require("../models/WarRoomTeam");
 
 // ============================================
 // CONFIGURATION
@@ -278,13 +284,59 @@ const validateDocumentId = (req, res, next) => {
 };
 
 /**
- * Verify attorney owns the case or is admin
+ * Load a document on this case that belongs to the caller's own side
+ * @returns {Promise<Object|null>} The document row, or null if it does not
+ *   exist on this case or belongs to the other side
+ */
+async function loadOwnSideDocument(req, caseId, docId) {
+  const pool = await poolPromise;
+  const result = await pool
+    .request()
+    .input("docId", sql.Int, docId)
+    .input("caseId", sql.Int, caseId)
+    .query(`SELECT Id, Side FROM WarRoomDocuments WHERE Id = @docId AND CaseId = @caseId`);
+
+  const doc = result.recordset[0];
+  return doc && OpposingCounsel.isOwnSideDocument(req.counselRole, doc.Side) ? doc : null;
+}
+
+/**
+ * Read the optional "versionOf" field of an upload: the document the file
+ * replaces. Must be a document on this case from the uploader's own side.
+ * @returns {Promise<{documentId: number|null, error?: string}>}
+ */
+async function resolveVersionTarget(req, caseId) {
+  const { versionOf } = req.body;
+  if (versionOf === undefined || versionOf === null || versionOf === "") {
+    return { documentId: null };
+  }
+
+  const documentId = parseInt(versionOf, 10);
+  if (isNaN(documentId) || documentId <= 0) {
+    return { documentId: null, error: "Valid document ID is required for a new version" };
+  }
+
+  if (!(await loadOwnSideDocument(req, caseId, documentId))) {
+    return { documentId: null, error: "Document to replace was not found" };
+  }
+
+  return { documentId };
+}
+
+/**
+ * Verify attorney owns the case (or is its opposing counsel) or is admin.
+ * For attorneys, req.counselRole says which side's documents they manage.
  */
 const verifyDocumentAccess = async (req, res, next) => {
   try {
     const caseId = req.validatedCaseId;
     const user = req.user;
 
+    // Team members were already scoped to this route by requireTeamPermission
+    if (user.type === "team_member" && req.teamMember) {
+      return next();
+    }
+
     // Admin has full access
     if (user.type === "admin") {
       const caseData = await Case.findById(caseId);
@@ -315,7 +367,8 @@ const verifyDocumentAccess = async (req, res, next) => {
       });
     }
 
-    if (caseData.AttorneyId !== user.id) {
+    const counselRole = await OpposingCounsel.getCounselRole(caseData, user.id);
+    if (!counselRole) {
       return res.status(403).json({
         success: false,
         message: "Access denied: You do not own this case",
@@ -323,6 +376,7 @@ const verifyDocumentAccess = async (req, res, next) => {
     }
 
     req.caseData = caseData;
+    req.counselRole = counselRole;
     next();
   } catch (error) {
     console.error("Document access verification error:", error);
@@ -485,6 +539,7 @@ router.get(
   "/cases/:caseId/war-room/documents",
   downloadLimiter,
   validateCaseId,
+  requireTeamPermission(TEAM_PERMISSIONS.VIEW_DOCUMENTS),
   verifyDocumentAccess,
   async (req, res) => {
     try {
@@ -502,15 +557,33 @@ router.get(
             Description,
             Size,
             MimeType,
-            UploadedAt
+            Side,
+            UploadedAt,
+            CurrentVersion,
+            (
+              SELECT TOP 1 v.VersionNumber
+              FROM WarRoomDocumentVersions v
+              WHERE v.DocumentId = WarRoomDocuments.Id AND v.LastPresentedAt IS NOT NULL
+              ORDER BY v.LastPresentedAt DESC
+            ) AS PresentedVersion,
+            (
+              SELECT MAX(v.LastPresentedAt)
+              FROM WarRoomDocumentVersions v
+              WHERE v.DocumentId = WarRoomDocuments.Id
+            ) AS PresentedAt
           FROM WarRoomDocuments
           WHERE CaseId = @caseId
           ORDER BY UploadedAt DESC
         `);
 
+      // Each counsel only sees their own side's documents (admins see both)
+      const visible = result.recordset.filter((doc) =>
+        OpposingCounsel.isOwnSideDocument(req.counselRole, doc.Side)
+      );
+
       // Generate SAS URLs for each document
       const documentsWithSas = await Promise.all(
-        result.recordset.map(async (doc) => ({
+        visible.map(async (doc) => ({
           ...doc,
           FileUrl: await generateSasUrl(doc.FileUrl),
           SizeFormatted: formatFileSize(doc.Size),
@@ -554,6 +627,7 @@ router.post(
   "/cases/:caseId/war-room/documents",
   uploadLimiter,
   validateCaseId,
+  requireTeamPermission(TEAM_PERMISSIONS.UPLOAD_DOCUMENTS),
   verifyDocumentAccess,
   upload.single("file"),
   async (req, res) => {
@@ -586,6 +660,15 @@ router.post(
         });
       }
 
+      // Check the document being replaced before storing anything
+      const target = await resolveVersionTarget(req, caseId);
+      if (target.error) {
+        return res.status(400).json({
+          success: false,
+          message: target.error,
+        });
+      }
+
       // Sanitize filename
       const sanitizedFilename = sanitizeFilename(file.originalname);
 
@@ -601,6 +684,37 @@ router.post(
       // Detect file type
       const type = detectFileType(sanitizedFilename, file.mimetype);
 
+      if (target.documentId) {
+        const version = await addDocumentVersion(req, caseId, target.documentId, {
+          type,
+          fileName: sanitizedFilename,
+          fileUrl,
+          description,
+          size: file.size,
+          mimeType: file.mimetype,
+        });
+        if (!version) {
+          return res.status(404).json({
+            success: false,
+            message: "Document not found",
+          });
+        }
+
+        return res.json({
+          success: true,
+          message: `Uploaded as version ${version.versionNumber}`,
+          document: {
+            id: target.documentId,
+            fileName: sanitizedFilename,
+            fileUrl,
+            type,
+            size: file.size,
+            sizeFormatted: formatFileSize(file.size),
+            version: version.versionNumber,
+          },
+        });
+      }
+
       // Save to database
       const pool = await poolPromise;
       const result = await pool
@@ -611,12 +725,13 @@ router.post(
         .input("fileUrl", sql.NVarChar(sql.MAX), fileUrl)
         .input("description", sql.NVarChar(500), description || "")
         .input("size", sql.BigInt, file.size)
-        .input("mimeType", sql.NVarChar(100), file.mimetype).query(`
+        .input("mimeType", sql.NVarChar(100), file.mimetype)
+        .input("side", sql.NVarChar(20), req.counselRole?.side || null).query(`
           INSERT INTO WarRoomDocuments (
-            CaseId, Type, FileName, FileUrl, Description, Size, MimeType, UploadedAt
+            CaseId, Type, FileName, FileUrl, Description, Size, MimeType, Side, UploadedAt
           )
           VALUES (
-            @caseId, @type, @fileName, @fileUrl, @description, @size, @mimeType, GETUTCDATE()
+            @caseId, @type, @fileName, @fileUrl, @description, @size, @mimeType, @side, GETUTCDATE()
           );
 
           SELECT SCOPE_IDENTITY() as DocumentId;
@@ -643,6 +758,7 @@ router.post(
           type,
           size: file.size,
           sizeFormatted: formatFileSize(file.size),
+          version: 1,
         },
       });
     } catch (error) {
@@ -670,6 +786,7 @@ router.post(
   "/cases/:caseId/war-room/documents/sas",
   uploadLimiter,
   validateCaseId,
+  requireTeamPermission(TEAM_PERMISSIONS.UPLOAD_DOCUMENTS),
   verifyDocumentAccess,
   async (req, res) => {
     try {
@@ -699,6 +816,7 @@ router.post(
   "/cases/:caseId/war-room/documents/complete",
   generalLimiter,
   validateCaseId,
+  requireTeamPermission(TEAM_PERMISSIONS.UPLOAD_DOCUMENTS),
   verifyDocumentAccess,
   async (req, res) => {
     try {
@@ -716,10 +834,46 @@ router.post(
         return res.status(400).json({ success: false, message: "File not found in storage — upload may have failed" });
       }
 
+      const target = await resolveVersionTarget(req, caseId);
+      if (target.error) {
+        return res.status(400).json({ success: false, message: target.error });
+      }
+
       const sanitizedFilename = sanitizeFilename(fileName);
       const type = detectFileType(sanitizedFilename, mimeType);
       const fileSize = parseInt(size, 10);
 
+      if (target.documentId) {
+        const version = await addDocumentVersion(req, caseId, target.documentId, {
+          type,
+          fileName: sanitizedFilename,
+          fileUrl: blobBaseUrl,
+          description,
+          size: fileSize,
+          mimeType,
+        });
+        if (!version) {
+          return res.status(404).json({
+            success: false,
+            message: "Document not found",
+          });
+        }
+
+        return res.json({
+          success: true,
+          message: `Uploaded as version ${version.versionNumber}`,
+          document: {
+            id: target.documentId,
+            fileName: sanitizedFilename,
+            fileUrl: blobBaseUrl,
+            type,
+            size: fileSize,
+            sizeFormatted: formatFileSize(fileSize),
+            version: version.versionNumber,
+          },
+        });
+      }
+
       const pool = await poolPromise;
       const result = await pool
         .request()
@@ -730,9 +884,10 @@ router.post(
         .input("description", sql.NVarChar(500), description || "")
         .input("size", sql.BigInt, fileSize)
         .input("mimeType", sql.NVarChar(100), mimeType)
+        .input("side", sql.NVarChar(20), req.counselRole?.side || null)
         .query(`
-          INSERT INTO WarRoomDocuments (CaseId, Type, FileName, FileUrl, Description, Size, MimeType, UploadedAt)
-          VALUES (@caseId, @type, @fileName, @fileUrl, @description, @size, @mimeType, GETUTCDATE());
+          INSERT INTO WarRoomDocuments (CaseId, Type, FileName, FileUrl, Description, Size, MimeType, Side, UploadedAt)
+          VALUES (@caseId, @type, @fileName, @fileUrl, @description, @size, @mimeType, @side, GETUTCDATE());
           SELECT SCOPE_IDENTITY() as DocumentId;
         `);
 
@@ -756,6 +911,7 @@ router.post(
           type,
           size: fileSize,
           sizeFormatted: formatFileSize(fileSize),
+          version: 1,
         },
       });
     } catch (error) {
@@ -765,6 +921,123 @@ router.post(
   }
 );
 
+/**
+ * GET /cases/:caseId/war-room/documents/:docId/versions
+ * Version history of a document, newest first
+ */
+router.get(
+  "/cases/:caseId/war-room/documents/:docId/versions",
+  downloadLimiter,
+  validateCaseId,
+  validateDocumentId,
+  requireTeamPermission(TEAM_PERMISSIONS.VIEW_DOCUMENTS),
+  verifyDocumentAccess,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const docId = req.validatedDocId;
+
+      const versions = (await loadOwnSideDocument(req, caseId, docId))
+        ? await WarRoomDocumentVersion.getVersions(caseId, docId)
+        : null;
+
+      if (!versions) {
+        return res.status(404).json({
+          success: false,
+          message: "Document not found",
+        });
+      }
+
+      const versionsWithSas = await Promise.all(
+        versions.map(async (version) => ({
+          ...version,
+          FileUrl: await generateSasUrl(version.FileUrl),
+          SizeFormatted: formatFileSize(version.Size || 0),
+        }))
+      );
+
+      res.json({
+        success: true,
+        versions: versionsWithSas,
+      });
+    } catch (error) {
+      console.error("Fetch document versions error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch document versions",
+        error:
+          process.env.NODE_ENV === "development" ? error.message : undefined,
+      });
+    }
+  }
+);
+
+/**
+ * POST /cases/:caseId/war-room/documents/:docId/versions/:versionNumber/restore
+ * Make an earlier version current again (recorded as a new version)
+ */
+router.post(
+  "/cases/:caseId/war-room/documents/:docId/versions/:versionNumber/restore",
+  generalLimiter,
+  validateCaseId,
+  validateDocumentId,
+  requireTeamPermission(TEAM_PERMISSIONS.UPLOAD_DOCUMENTS),
+  verifyDocumentAccess,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const docId = req.validatedDocId;
+      const versionNumber = parseInt(req.params.versionNumber, 10);
+
+      if (isNaN(versionNumber) || versionNumber <= 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Valid version number is required",
+        });
+      }
+
+      const result = (await loadOwnSideDocument(req, caseId, docId))
+        ? await WarRoomDocumentVersion.restoreVersion(caseId, docId, versionNumber, req.user)
+        : null;
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          message: "Document version not found",
+        });
+      }
+
+      await Event.createEvent({
+        caseId,
+        eventType: Event.EVENT_TYPES.CASE_UPDATED,
+        description: `Document restored to version ${versionNumber} (now version ${result.versionNumber}): ${result.document.FileName}`,
+        triggeredBy: req.user.id,
+        userType: req.user.type,
+      });
+
+      res.json({
+        success: true,
+        message: `Version ${versionNumber} restored`,
+        versionNumber: result.versionNumber,
+      });
+    } catch (error) {
+      if (error.message.includes("validation failed")) {
+        return res.status(400).json({
+          success: false,
+          message: error.message.replace(/^Document version validation failed: /, ""),
+        });
+      }
+      console.error("Restore document version error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to restore document version",
+        error:
+          process.env.NODE_ENV === "development" ? error.message : undefined,
+      });
+    }
+  }
+);
+
 /**
  * DELETE /api/war-room-documents/cases/:caseId/war-room/documents/:docId
  * Delete document (PRIMARY ENDPOINT)
@@ -789,12 +1062,15 @@ router.delete(
         .request()
         .input("docId", sql.Int, docId)
         .input("caseId", sql.Int, caseId).query(`
-          SELECT Id, FileUrl, FileName
+          SELECT Id, FileUrl, FileName, Side
           FROM WarRoomDocuments
           WHERE Id = @docId AND CaseId = @caseId
         `);
 
-      if (result.recordset.length === 0) {
+      if (
+        result.recordset.length === 0 ||
+        !OpposingCounsel.isOwnSideDocument(req.counselRole, result.recordset[0].Side)
+      ) {
         return res.status(404).json({
           success: false,
           message: "Document not found",
@@ -803,16 +1079,17 @@ router.delete(
 
       const doc = result.recordset[0];
 
-      // Delete from Azure Blob Storage
+      // Delete every version's file from Azure Blob Storage (unless a re-run
+      // of this case still uses it)
       try {
-        const blobClient = getBlobClient(doc.FileUrl);
-        await blobClient.deleteIfExists();
+        await deleteDocumentFiles(pool, docId);
       } catch (blobErr) {
         console.error("Blob deletion error:", blobErr);
         // Continue with DB deletion even if blob deletion fails
       }
 
       // Delete from database
+      await WarRoomDocumentVersion.deleteVersions(docId);
       await pool
         .request()
         .input("docId", sql.Int, docId)
@@ -855,6 +1132,7 @@ router.get(
   "/cases/:caseId/documents",
   downloadLimiter,
   validateCaseId,
+  requireTeamPermission(TEAM_PERMISSIONS.VIEW_DOCUMENTS),
   requireWarRoomAccess,
   async (req, res) => {
     try {
@@ -863,14 +1141,18 @@ router.get(
 
       const result = await pool.request().input("caseId", sql.Int, caseId)
         .query(`
-          SELECT Id, CaseId, Type, FileName, FileUrl, Description, Size, MimeType, UploadedAt
+          SELECT Id, CaseId, Type, FileName, FileUrl, Description, Size, MimeType, Side, UploadedAt
           FROM WarRoomDocuments
           WHERE CaseId = @caseId
           ORDER BY UploadedAt DESC
         `);
 
+      const visible = result.recordset.filter((doc) =>
+        OpposingCounsel.isOwnSideDocument(req.counselRole, doc.Side)
+      );
+
       const documentsWithSas = await Promise.all(
-        result.recordset.map(async (doc) => ({
+        visible.map(async (doc) => ({
           ...doc,
           FileUrl: await generateSasUrl(doc.FileUrl),
         }))
@@ -892,6 +1174,7 @@ router.post(
   "/cases/:caseId/documents",
   uploadLimiter,
   validateCaseId,
+  requireTeamPermission(TEAM_PERMISSIONS.UPLOAD_DOCUMENTS),
   requireWarRoomAccess,
   upload.single("file"),
   async (req, res) => {
@@ -921,9 +1204,10 @@ router.post(
         .input("fileUrl", sql.NVarChar(sql.MAX), fileUrl)
         .input("description", sql.NVarChar(500), description || "")
         .input("size", sql.BigInt, file.size)
-        .input("mimeType", sql.NVarChar(100), file.mimetype).query(`
-          INSERT INTO WarRoomDocuments (CaseId, Type, FileName, FileUrl, Description, Size, MimeType, UploadedAt)
-          VALUES (@caseId, @type, @fileName, @fileUrl, @description, @size, @mimeType, GETUTCDATE())
+        .input("mimeType", sql.NVarChar(100), file.mimetype)
+        .input("side", sql.NVarChar(20), req.counselRole?.side || null).query(`
+          INSERT INTO WarRoomDocuments (CaseId, Type, FileName, FileUrl, Description, Size, MimeType, Side, UploadedAt)
+          VALUES (@caseId, @type, @fileName, @fileUrl, @description, @size, @mimeType, @side, GETUTCDATE())
         `);
 
       res.json({
@@ -961,24 +1245,27 @@ router.delete(
         .request()
         .input("docId", sql.Int, docId)
         .input("caseId", sql.Int, caseId).query(`
-          SELECT Id, FileUrl, FileName
+          SELECT Id, FileUrl, FileName, Side
           FROM WarRoomDocuments
           WHERE Id = @docId AND CaseId = @caseId
         `);
 
-      if (result.recordset.length === 0) {
+      if (
+        result.recordset.length === 0 ||
+        !OpposingCounsel.isOwnSideDocument(req.counselRole, result.recordset[0].Side)
+      ) {
         return res.status(404).json({ error: "Document not found" });
       }
 
       const doc = result.recordset[0];
 
       try {
-        const blobClient = getBlobClient(doc.FileUrl);
-        await blobClient.deleteIfExists();
+        await deleteDocumentFiles(pool, docId);
       } catch (blobErr) {
         console.error("Blob deletion error:", blobErr);
       }
 
+      await WarRoomDocumentVersion.deleteVersions(docId);
       await pool
         .request()
         .input("docId", sql.Int, docId)
@@ -1012,6 +1299,59 @@ function formatFileSize(bytes) {
   return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + " " + sizes[i];
 }
 
+/**
+ * Whether another document row (or one of its earlier versions) points at the
+ * same blob. Re-run cases copy their documents by reference, so the blob must
+ * outlive either copy.
+ */
+async function isFileSharedWithOtherDocuments(pool, fileUrl, docId) {
+  const result = await pool
+    .request()
+    .input("fileUrl", sql.NVarChar(sql.MAX), fileUrl)
+    .input("docId", sql.Int, docId).query(`
+      SELECT
+        (SELECT COUNT(*) FROM WarRoomDocuments WHERE FileUrl = @fileUrl AND Id <> @docId) +
+        (SELECT COUNT(*) FROM WarRoomDocumentVersions WHERE FileUrl = @fileUrl AND DocumentId <> @docId)
+        AS OtherCount
+    `);
+
+  return result.recordset[0].OtherCount > 0;
+}
+
+/**
+ * Delete the blobs of every version of a document that no other document uses
+ */
+async function deleteDocumentFiles(pool, docId) {
+  const fileUrls = await WarRoomDocumentVersion.getFileUrls(docId);
+  const unshared = [];
+  for (const fileUrl of fileUrls) {
+    if (!(await isFileSharedWithOtherDocuments(pool, fileUrl, docId))) {
+      unshared.push(fileUrl);
+    }
+  }
+  await deleteBlobs(unshared);
+}
+
+/**
+ * Store an upload as the new current version of an existing document
+ * @returns {Promise<Object|null>} The addVersion result, or null if the
+ *   document no longer exists
+ */
+async function addDocumentVersion(req, caseId, documentId, file) {
+  const result = await WarRoomDocumentVersion.addVersion(caseId, documentId, file, req.user);
+  if (!result) return null;
+
+  await Event.createEvent({
+    caseId,
+    eventType: Event.EVENT_TYPES.CASE_UPDATED,
+    description: `Document updated to version ${result.versionNumber}: ${file.fileName}`,
+    triggeredBy: req.user.id,
+    userType: req.user.type,
+  });
+
+  return result;
+}
+
 // ============================================
 // ERROR HANDLER
 // ============================================
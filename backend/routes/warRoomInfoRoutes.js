@@ -15,6 +15,8 @@ const { uploadToBlob } = require("../utils/azureBlob");
 
 // Import models
 const Case = require("../models/Case");
+const Firm = require("../models/Firm");
+const CaseLifecycle = require("../models/CaseLifecycle");
 const Event = require("../models/Event");
 const Notification = require("../models/Notification");
 const { sendNotificationEmail } = require("../utils/email");
@@ -144,7 +146,7 @@ const verifyCaseAccess = async (req, res, next) => {
       });
     }
 
-    if (caseData.AttorneyId !== user.id) {
+    if (!(await Firm.canManageCase(caseData, user.id))) {
       return res.status(403).json({
         success: false,
         message: "Access denied: You do not own this case",
@@ -767,9 +769,26 @@ router.post(
 
       // ✅ IMMEDIATE: Enable join_trial immediately when attorney submits war room
       // This makes the war room accessible immediately after submission (no scheduler delay)
+      try {
+        await CaseLifecycle.transitionCase(caseId, Case.ATTORNEY_CASE_STATES.JOIN_TRIAL, {
+          actorId: req.user.id,
+          actorType: req.user.type,
+          reason: `War room submitted with ${approvedCount} approved juror(s)`,
+        });
+      } catch (transitionError) {
+        if (transitionError.message.startsWith("Case transition failed: ")) {
+          return res.status(400).json({
+            success: false,
+            message: transitionError.message.replace(/^Case transition failed: /, "Cannot submit war room: "),
+            code: "INVALID_TRANSITION",
+          });
+        }
+        throw transitionError;
+      }
+
       await pool.request().input("caseId", sql.Int, caseId).query(`
           UPDATE Cases
-          SET AttorneyStatus = 'join_trial', NotificationsSent = 1, UpdatedAt = GETUTCDATE()
+          SET NotificationsSent = 1
           WHERE CaseId = @caseId
         `);
 
@@ -7,12 +7,18 @@ const express = require("express");
 const router = express.Router();
 const rateLimit = require("express-rate-limit");
 const { poolPromise, sql } = require("../config/db");
-const { authMiddleware } = require("../middleware/authMiddleware");
+const {
+  authMiddleware,
+  requireTeamMember,
+} = require("../middleware/authMiddleware");
 const { requireWarRoomAccess } = require("../middleware/warRoomMiddleware");
 
 // Import models
 const Case = require("../models/Case");
+const Firm = require("../models/Firm");
 const Event = require("../models/Event");
+const WarRoomTeam = require("../models/WarRoomTeam");
+const { sendTeamInviteEmail } = require("../utils/email");
 
 // ============================================
 // RATE LIMITERS
@@ -195,7 +201,7 @@ const verifyTeamAccess = async (req, res, next) => {
       });
     }
 
-    if (caseData.AttorneyId !== user.id) {
+    if (!(await Firm.canManageCase(caseData, user.id))) {
       return res.status(403).json({
         success: false,
         message: "Access denied: You do not own this case",
@@ -226,6 +232,31 @@ const verifyModifyPermission = (req, res, next) => {
   next();
 };
 
+// ============================================
+// INVITE HELPERS
+// ============================================
+
+/**
+ * Issue a fresh invite for a team member and email it
+ * @returns {Promise<boolean>} whether the email was sent
+ */
+async function sendMemberInvite(req, caseId, memberId) {
+  const invite = await WarRoomTeam.createInvite(caseId, memberId);
+  if (!invite) return false;
+
+  const invitedBy =
+    req.user.type === "attorney"
+      ? `${req.user.firstName || ""} ${req.user.lastName || ""}`.trim()
+      : null;
+
+  return sendTeamInviteEmail(invite.member.Email, invite.token, {
+    memberName: invite.member.Name,
+    caseTitle: req.caseData?.CaseTitle,
+    invitedBy,
+    role: invite.member.Role,
+  });
+}
+
 // ============================================
 // WAR ROOM TEAM ENDPOINTS
 // ============================================
@@ -243,26 +274,12 @@ router.get(
   async (req, res) => {
     try {
       const caseId = req.validatedCaseId;
-      const pool = await poolPromise;
-
-      const result = await pool.request().input("caseId", sql.Int, caseId)
-        .query(`
-          SELECT
-            Id,
-            CaseId,
-            Name,
-            Role,
-            Email,
-            AddedAt
-          FROM WarRoomTeamMembers
-          WHERE CaseId = @caseId
-          ORDER BY AddedAt DESC
-        `);
+      const members = await WarRoomTeam.getMembersForCase(caseId);
 
       res.json({
         success: true,
-        members: result.recordset,
-        count: result.recordset.length,
+        members,
+        count: members.length,
       });
     } catch (error) {
       console.error("Fetch team members error:", error);
@@ -396,7 +413,18 @@ router.post(
               WHERE Id = SCOPE_IDENTITY();
             `);
 
-          addedMembers.push(result.recordset[0]);
+          const added = result.recordset[0];
+          await WarRoomTeam.setPermissions(
+            caseId,
+            added.Id,
+            WarRoomTeam.normalizePermissions(member.permissions || member.Permissions)
+          );
+          const inviteSent = await sendMemberInvite(req, caseId, added.Id);
+
+          addedMembers.push({
+            ...(await WarRoomTeam.getMember(caseId, added.Id)),
+            inviteSent,
+          });
         } catch (error) {
           console.error("Error adding team member:", error);
           errors.push({
@@ -411,7 +439,7 @@ router.post(
         await Event.createEvent({
           caseId,
           eventType: Event.EVENT_TYPES.CASE_UPDATED,
-          description: `Added ${addedMembers.length} team member(s)`,
+          description: `Added and invited ${addedMembers.length} team member(s)`,
           triggeredBy: userId,
           userType: req.user.type,
         });
@@ -488,7 +516,13 @@ router.post(
           WHERE Id = SCOPE_IDENTITY();
         `);
 
-      const newMember = result.recordset[0];
+      await WarRoomTeam.setPermissions(
+        caseId,
+        result.recordset[0].Id,
+        WarRoomTeam.normalizePermissions(req.body.permissions)
+      );
+      const inviteSent = await sendMemberInvite(req, caseId, result.recordset[0].Id);
+      const newMember = await WarRoomTeam.getMember(caseId, result.recordset[0].Id);
 
       // Create event
       await Event.createEvent({
@@ -501,8 +535,11 @@ router.post(
 
       res.json({
         success: true,
-        message: "Team member added successfully",
+        message: inviteSent
+          ? "Team member added and invitation sent"
+          : "Team member added, but the invitation email could not be sent",
         member: newMember,
+        inviteSent,
       });
     } catch (error) {
       console.error("Add team member error:", error);
@@ -580,10 +617,15 @@ router.put(
         .input("name", sql.NVarChar(100), name)
         .input("role", sql.NVarChar(100), role)
         .input("email", sql.NVarChar(255), email).query(`
+          -- A new email address belongs to someone else: unlink the old
+          -- account and require a fresh invitation
           UPDATE WarRoomTeamMembers
           SET
             Name = @name,
             Role = @role,
+            AccountId = CASE WHEN Email = @email THEN AccountId ELSE NULL END,
+            InviteStatus = CASE WHEN Email = @email THEN InviteStatus ELSE 'pending' END,
+            InviteTokenHash = CASE WHEN Email = @email THEN InviteTokenHash ELSE NULL END,
             Email = @email
           WHERE Id = @memberId AND CaseId = @caseId;
 
@@ -701,6 +743,111 @@ router.delete(
   }
 );
 
+/**
+ * PUT /api/war-room-team/cases/:caseId/team/:memberId/permissions
+ * Change what a team member can do on this case
+ * Body: { viewDocuments?, uploadDocuments?, editJuryCharge?, attendTrial? }
+ */
+router.put(
+  "/cases/:caseId/team/:memberId/permissions",
+  teamModifyLimiter,
+  validateCaseId,
+  validateMemberId,
+  verifyTeamAccess,
+  verifyModifyPermission,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const memberId = req.validatedMemberId;
+
+      const member = await WarRoomTeam.setPermissions(caseId, memberId, req.body);
+      if (!member) {
+        return res.status(404).json({
+          success: false,
+          message: "Team member not found",
+        });
+      }
+
+      await Event.createEvent({
+        caseId,
+        eventType: Event.EVENT_TYPES.CASE_UPDATED,
+        description: `Team member permissions updated: ${member.Name}`,
+        triggeredBy: req.user.id,
+        userType: req.user.type,
+      });
+
+      res.json({
+        success: true,
+        message: "Permissions updated",
+        member,
+      });
+    } catch (error) {
+      console.error("Update team permissions error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update permissions",
+        error:
+          process.env.NODE_ENV === "development" ? error.message : undefined,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/war-room-team/cases/:caseId/team/:memberId/invite
+ * Resend a team member's invitation (issues a new link)
+ */
+router.post(
+  "/cases/:caseId/team/:memberId/invite",
+  teamModifyLimiter,
+  validateCaseId,
+  validateMemberId,
+  verifyTeamAccess,
+  verifyModifyPermission,
+  async (req, res) => {
+    try {
+      const caseId = req.validatedCaseId;
+      const memberId = req.validatedMemberId;
+
+      const member = await WarRoomTeam.getMember(caseId, memberId);
+      if (!member) {
+        return res.status(404).json({
+          success: false,
+          message: "Team member not found",
+        });
+      }
+
+      const inviteSent = await sendMemberInvite(req, caseId, memberId);
+      if (!inviteSent) {
+        return res.status(502).json({
+          success: false,
+          message: "The invitation email could not be sent. Please try again.",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `Invitation sent to ${member.Email}`,
+        member: await WarRoomTeam.getMember(caseId, memberId),
+      });
+    } catch (error) {
+      if (error.message && error.message.startsWith("Team validation failed:")) {
+        return res.status(400).json({
+          success: false,
+          message: error.message.replace("Team validation failed: ", ""),
+        });
+      }
+      console.error("Resend team invite error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to send invitation",
+        error:
+          process.env.NODE_ENV === "development" ? error.message : undefined,
+      });
+    }
+  }
+);
+
 /**
  * GET /api/war-room-team/cases/:caseId/team/stats
  * Get team statistics
@@ -756,6 +903,39 @@ router.get(
   }
 );
 
+// ============================================
+// TEAM MEMBER ENDPOINTS
+// ============================================
+
+/**
+ * GET /api/war-room-team/team-member/cases
+ * Cases the signed-in team member has joined, with their permissions
+ */
+router.get(
+  "/team-member/cases",
+  generalLimiter,
+  requireTeamMember,
+  async (req, res) => {
+    try {
+      const cases = await WarRoomTeam.getCasesForAccount(req.user.id);
+
+      res.json({
+        success: true,
+        cases,
+        count: cases.length,
+      });
+    } catch (error) {
+      console.error("Fetch team member cases error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch cases",
+        error:
+          process.env.NODE_ENV === "development" ? error.message : undefined,
+      });
+    }
+  }
+);
+
 // ============================================
 // ERROR HANDLER
 // ============================================
@@ -12,6 +12,7 @@ const { requireWarRoomAccess } = require("../middleware/warRoomMiddleware");
 
 // Import models
 const Case = require("../models/Case");
+const Firm = require("../models/Firm");
 const Event = require("../models/Event");
 
 // ============================================
@@ -168,9 +169,9 @@ const verifyVoirDireAccess = async (req, res, next) => {
       return next();
     }
 
-    // Attorney must own the case
+    // Attorney must own the case or be at the owner's firm
     if (user.type === "attorney") {
-      if (caseData.AttorneyId !== user.id) {
+      if (!(await Firm.canManageCase(caseData, user.id))) {
         return res.status(403).json({
           success: false,
           message: "Access denied: You do not own this case",
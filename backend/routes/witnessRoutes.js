@@ -14,6 +14,7 @@ const {
 
 // Import models for authorization
 const Case = require("../models/Case");
+const OpposingCounsel = require("../models/OpposingCounsel");
 
 // ============================================
 // RATE LIMITERS
@@ -121,7 +122,7 @@ const verifyWitnessReadAccess = async (req, res, next) => {
       return next();
     }
 
-    // Attorney must own the case
+    // Attorney must own the case or be its opposing counsel
     if (user.type === "attorney") {
       const caseData = await Case.findById(caseId);
 
@@ -133,10 +134,14 @@ const verifyWitnessReadAccess = async (req, res, next) => {
       }
 
       if (caseData.AttorneyId !== user.id) {
-        return res.status(403).json({
-          success: false,
-          message: "Access denied: You do not own this case",
-        });
+        const counselRole = await OpposingCounsel.getCounselRole(caseData, user.id);
+        if (!counselRole) {
+          return res.status(403).json({
+            success: false,
+            message: "Access denied: You do not own this case",
+          });
+        }
+        req.counselRole = counselRole;
       }
 
       req.caseData = caseData;
@@ -221,11 +226,16 @@ const verifyWitnessWriteAccess = async (req, res, next) => {
       });
     }
 
+    // Opposing counsel can manage their own side's witnesses
     if (caseData.AttorneyId !== user.id) {
-      return res.status(403).json({
-        success: false,
-        message: "Access denied: You do not own this case",
-      });
+      const counselRole = await OpposingCounsel.getCounselRole(caseData, user.id);
+      if (!counselRole) {
+        return res.status(403).json({
+          success: false,
+          message: "Access denied: You do not own this case",
+        });
+      }
+      req.counselRole = counselRole;
     }
 
     req.caseData = caseData;
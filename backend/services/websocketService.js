@@ -5,9 +5,21 @@
 
 const socketIO = require("socket.io");
 const jwt = require("jsonwebtoken");
+const TrialMeeting = require("../models/TrialMeeting");
+const Case = require("../models/Case");
+const OpposingCounsel = require("../models/OpposingCounsel");
+const Firm = require("../models/Firm");
+const JurorReaction = require("../models/JurorReaction");
+const WarRoomTeam = require("../models/WarRoomTeam");
+const { isJurorApprovedForCase } = require("../helpers/accessHelper");
 
 let io = null;
 
+// Reaction dial readings are written in batches of this size per juror
+const REACTION_FLUSH_SIZE = 10;
+// Readings closer together than this are dropped (the dial samples once a second)
+const REACTION_MIN_INTERVAL_MS = 900;
+
 // ============================================
 // INITIALIZATION
 // ============================================
@@ -60,8 +72,25 @@ function initializeWebSocket(server) {
       `🔌 [WebSocket] Client connected: ${socket.id} (${socket.userType} #${socket.userId})`
     );
 
-    // Join case-specific room
-    socket.on("join_case", (caseId) => {
+    // Join case-specific room (admin, counsel on the case, approved jurors, trial team observers)
+    socket.on("join_case", async (caseId) => {
+      try {
+        if (!(await canJoinCase(socket, caseId))) {
+          console.warn(
+            `⚠️  [WebSocket] ${socket.userType} #${socket.userId} denied access to case_${caseId}`
+          );
+          socket.emit("joined_case", {
+            success: false,
+            caseId,
+            message: "You do not have access to this case",
+          });
+          return;
+        }
+      } catch (error) {
+        console.error("❌ [WebSocket] Case join error:", error.message);
+        return;
+      }
+
       const roomName = `case_${caseId}`;
       socket.join(roomName);
       console.log(
@@ -73,6 +102,124 @@ function initializeWebSocket(server) {
         caseId,
         message: `Joined case ${caseId}`,
       });
+
+      // Sync the trial phase clock so reconnecting clients resume the same countdown
+      TrialMeeting.getPhaseClock(caseId)
+        .then((clock) => {
+          if (clock) {
+            socket.emit("trial_clock:state", {
+              caseId,
+              clock,
+              timestamp: new Date().toISOString(),
+            });
+          }
+        })
+        .catch((error) => {
+          console.error("❌ [WebSocket] Error syncing trial clock:", error.message);
+        });
+
+      // Late joiners open the exhibit currently on screen at the presenter's page
+      TrialMeeting.getPresentedExhibit(caseId)
+        .then((exhibit) => TrialMeeting.serializeExhibit(exhibit))
+        .then((exhibit) => {
+          if (exhibit) {
+            socket.emit("exhibit:state", {
+              caseId,
+              exhibit,
+              timestamp: new Date().toISOString(),
+            });
+          }
+        })
+        .catch((error) => {
+          console.error("❌ [WebSocket] Error syncing exhibit:", error.message);
+        });
+    });
+
+    // Trial phase clock controls (admin only)
+    socket.on("trial_clock:control", async (payload, ack) => {
+      const respond = typeof ack === "function" ? ack : () => {};
+
+      if (socket.userType !== "admin") {
+        return respond({ success: false, message: "Only admins can control the trial clock" });
+      }
+
+      const { caseId, action, ...options } = payload || {};
+      try {
+        const clock = await TrialMeeting.applyPhaseClockAction(caseId, action, options);
+        notifyTrialClockUpdated(caseId, clock);
+        console.log(
+          `⏱️ [WebSocket] Admin #${socket.userId} applied clock action "${action}" for case ${caseId}`
+        );
+        respond({ success: true, clock });
+      } catch (error) {
+        console.error("❌ [WebSocket] Trial clock control error:", error.message);
+        respond({ success: false, message: error.message });
+      }
+    });
+
+    // Exhibit presentation controls (case attorney or opposing counsel presents; admin can revoke)
+    socket.on("exhibit:control", async (payload, ack) => {
+      const respond = typeof ack === "function" ? ack : () => {};
+      const { caseId, action, ...options } = payload || {};
+
+      try {
+        let counselRole = null;
+        if (socket.userType === "attorney") {
+          const caseData = await Case.findById(parseInt(caseId, 10));
+          counselRole = await OpposingCounsel.getCounselRole(caseData, socket.userId);
+          if (!counselRole) {
+            return respond({ success: false, message: "You do not have access to this trial" });
+          }
+        } else if (socket.userType !== "admin" || action !== "stop") {
+          return respond({ success: false, message: "Only the case attorney can present exhibits" });
+        }
+
+        const exhibit = await TrialMeeting.applyExhibitAction(caseId, action, options, {
+          id: socket.userId,
+          type: socket.userType,
+          counselRole,
+        });
+        const serialized = await TrialMeeting.serializeExhibit(exhibit);
+        notifyExhibitUpdated(caseId, serialized, {
+          revoked: action === "stop" && socket.userType === "admin",
+        });
+        console.log(
+          `🖼️ [WebSocket] ${socket.userType} #${socket.userId} applied exhibit action "${action}" for case ${caseId}`
+        );
+        respond({ success: true, exhibit: serialized });
+      } catch (error) {
+        console.error("❌ [WebSocket] Exhibit control error:", error.message);
+        respond({ success: false, message: error.message });
+      }
+    });
+
+    // Reaction dial readings (juror only), buffered and written in batches
+    socket.on("reaction:sample", async (payload) => {
+      if (socket.userType !== "juror") return;
+
+      const caseId = parseInt(payload?.caseId, 10);
+      const value = JurorReaction.normalizeValue(payload?.value);
+      if (isNaN(caseId) || value === null) return;
+
+      const now = Date.now();
+      if (socket.lastReactionAt && now - socket.lastReactionAt < REACTION_MIN_INTERVAL_MS) return;
+      socket.lastReactionAt = now;
+
+      try {
+        if (socket.reactionCaseId !== caseId) {
+          await flushReactions(socket);
+          if (!(await isJurorApprovedForCase(socket.userId, caseId))) return;
+          socket.reactionCaseId = caseId;
+          socket.reactionBuffer = [];
+        }
+
+        socket.reactionBuffer.push({ value, sampledAt: new Date(now) });
+        if (socket.reactionBuffer.length >= REACTION_FLUSH_SIZE) {
+          await flushReactions(socket);
+        }
+      } catch (error) {
+        console.error("❌ [WebSocket] Reaction sample error:", error.message);
+      }
     });
 
     // Leave case-specific room
@@ -102,6 +249,35 @@ function initializeWebSocket(server) {
       );
     });
 
+    // Join juror question moderation room (admin)
+    socket.on("join_question_moderation", (caseId) => {
+      if (socket.userType !== "admin") return;
+      const roomName = `question_moderation_${caseId}`;
+      socket.join(roomName);
+      console.log(
+        `❓ [WebSocket] ${socket.userType} #${socket.userId} joined ${roomName}`
+      );
+    });
+
+    // Join live poll results room (admin, or the case attorney)
+    socket.on("join_poll_results", async (caseId) => {
+      try {
+        if (socket.userType === "attorney") {
+          const caseData = await Case.findById(parseInt(caseId, 10));
+          if (!caseData || !(await Firm.canManageCase(caseData, socket.userId))) return;
+        } else if (socket.userType !== "admin") {
+          return;
+        }
+        const roomName = `poll_results_${caseId}`;
+        socket.join(roomName);
+        console.log(
+          `📊 [WebSocket] ${socket.userType} #${socket.userId} joined ${roomName}`
+        );
+      } catch (error) {
+        console.error("❌ [WebSocket] Poll results join error:", error.message);
+      }
+    });
+
     // Heartbeat/ping
     socket.on("ping", () => {
       socket.emit("pong", { timestamp: Date.now() });
@@ -112,6 +288,9 @@ function initializeWebSocket(server) {
       console.log(
         `🔌 [WebSocket] Client disconnected: ${socket.id} (${reason})`
       );
+      flushReactions(socket).catch((error) => {
+        console.error("❌ [WebSocket] Error saving reaction samples:", error.message);
+      });
     });
 
     // Error handling
@@ -330,10 +509,78 @@ function notifyVerdictResultsPublished(caseId, resultsData) {
   }
 }
 
+/**
+ * Notify the case when the verdict mode or presiding juror changes
+ * @param {number} caseId
+ * @param {Object} settings - { verdictMode, forepersonJurorId, forepersonName }
+ */
+function notifyVerdictSettingsUpdated(caseId, settings) {
+  try {
+    const caseRoom = `case_${caseId}`;
+    getIO().to(caseRoom).emit("verdict:settings_updated", {
+      caseId,
+      verdictMode: settings.verdictMode,
+      forepersonJurorId: settings.forepersonJurorId,
+      forepersonName: settings.forepersonName,
+      timestamp: new Date().toISOString(),
+    });
+
+    console.log(`⚖️ [WebSocket] Verdict settings update sent for case ${caseId}`);
+  } catch (error) {
+    console.error("❌ [WebSocket] Error sending verdict settings update:", error);
+  }
+}
+
+/**
+ * Mirror the foreperson's panel verdict to the other jurors on the case.
+ * Sent per juror (not to the case room) so attorneys never see drafts.
+ * @param {number} caseId
+ * @param {Array<number>} jurorIds - Approved jurors to notify
+ * @param {Object} panelData - { responses, isSubmitted, submittedAt }
+ */
+function notifyPanelVerdictUpdated(caseId, jurorIds, panelData) {
+  jurorIds.forEach((jurorId) => {
+    notifyUser(jurorId, "juror", "verdict:panel_update", {
+      caseId,
+      ...panelData,
+    });
+  });
+  console.log(`⚖️ [WebSocket] Panel verdict mirrored to ${jurorIds.length} juror(s) for case ${caseId}`);
+}
+
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================
 
+/**
+ * Whether a socket may join a case room, which carries live trial content
+ * (exhibits, approved juror questions, polls)
+ * @param {Object} socket
+ * @param {number|string} caseId
+ * @returns {Promise<boolean>}
+ */
+async function canJoinCase(socket, caseId) {
+  const id = parseInt(caseId, 10);
+  if (isNaN(id) || id <= 0) return false;
+
+  switch (socket.userType) {
+    case "admin":
+      return true;
+    case "attorney": {
+      const caseData = await Case.findById(id);
+      return !!(await OpposingCounsel.getCounselRole(caseData, socket.userId));
+    }
+    case "juror":
+      return isJurorApprovedForCase(socket.userId, id);
+    case "team_member": {
+      const membership = await WarRoomTeam.getMembership(socket.userId, id);
+      return WarRoomTeam.hasPermission(membership, WarRoomTeam.TEAM_PERMISSIONS.ATTEND_TRIAL);
+    }
+    default:
+      return false;
+  }
+}
+
 /**
  * Send notification to specific user
  * @param {number} userId
@@ -436,6 +683,174 @@ function notifyRoomRecreated(caseId, newRoomId) {
   }
 }
 
+/**
+ * Broadcast the trial phase clock to everyone in the case room
+ * @param {number|string} caseId
+ * @param {Object} clock - Serialized clock from TrialMeeting.getPhaseClock
+ */
+function notifyTrialClockUpdated(caseId, clock) {
+  try {
+    const caseRoom = `case_${caseId}`;
+    getIO().to(caseRoom).emit("trial_clock:state", {
+      caseId,
+      clock,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`⏱️ [WebSocket] Trial clock update sent to ${caseRoom}: ${clock.phase || "idle"} (${clock.status})`);
+  } catch (error) {
+    console.error("❌ [WebSocket] Error sending trial clock update:", error);
+  }
+}
+
+/**
+ * Tell everyone in the case room that jurors moved between the courtroom
+ * and the deliberation room, so clients can switch calls
+ * @param {number|string} caseId
+ * @param {Object} deliberation - Serialized state from TrialMeeting.serializeDeliberation
+ */
+function notifyDeliberationUpdated(caseId, deliberation) {
+  try {
+    const caseRoom = `case_${caseId}`;
+    getIO().to(caseRoom).emit("deliberation:state", {
+      caseId,
+      deliberation,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`⚖️ [WebSocket] Deliberation update sent to ${caseRoom}: ${deliberation.status}`);
+  } catch (error) {
+    console.error("❌ [WebSocket] Error sending deliberation update:", error);
+  }
+}
+
+/**
+ * Write a socket's buffered reaction dial readings
+ * @param {Object} socket - Juror socket with reactionCaseId / reactionBuffer
+ */
+async function flushReactions(socket) {
+  const samples = socket.reactionBuffer;
+  if (!socket.reactionCaseId || !samples || samples.length === 0) return;
+
+  socket.reactionBuffer = [];
+  await JurorReaction.recordSamples(socket.reactionCaseId, socket.userId, samples);
+}
+
+/**
+ * Broadcast the presented exhibit (or null once it stops) to the case room
+ * @param {number|string} caseId
+ * @param {Object|null} exhibit - Serialized exhibit from TrialMeeting.serializeExhibit
+ * @param {Object} options - { revoked } when an admin took the exhibit down
+ */
+function notifyExhibitUpdated(caseId, exhibit, { revoked = false } = {}) {
+  try {
+    const caseRoom = `case_${caseId}`;
+    getIO().to(caseRoom).emit("exhibit:state", {
+      caseId,
+      exhibit,
+      revoked,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(
+      `🖼️ [WebSocket] Exhibit update sent to ${caseRoom}: ${exhibit ? `${exhibit.fileName} p.${exhibit.page}` : "stopped"}`
+    );
+  } catch (error) {
+    console.error("❌ [WebSocket] Error sending exhibit update:", error);
+  }
+}
+
+/**
+ * Tell moderating admins a juror submitted a question
+ * @param {number|string} caseId
+ * @param {Object} question - Question formatted with juror details
+ */
+function notifyJurorQuestionSubmitted(caseId, question) {
+  try {
+    const roomName = `question_moderation_${caseId}`;
+    getIO().to(roomName).emit("juror_question:submitted", {
+      caseId,
+      question,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`❓ [WebSocket] Juror question submitted sent to ${roomName}`);
+  } catch (error) {
+    console.error("❌ [WebSocket] Error sending juror question:", error);
+  }
+}
+
+/**
+ * Forward an approved juror question to the attorney (and everyone else in the case room)
+ * @param {number|string} caseId
+ * @param {Object} question - Question formatted without juror details
+ */
+function notifyJurorQuestionApproved(caseId, question) {
+  try {
+    const caseRoom = `case_${caseId}`;
+    getIO().to(caseRoom).emit("juror_question:approved", {
+      caseId,
+      question,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`❓ [WebSocket] Approved juror question forwarded to ${caseRoom}`);
+  } catch (error) {
+    console.error("❌ [WebSocket] Error forwarding juror question:", error);
+  }
+}
+
+/**
+ * Deliver a newly launched poll to everyone in the trial (no results)
+ * @param {number|string} caseId
+ * @param {Object} poll - Poll without results
+ */
+function notifyPollOpened(caseId, poll) {
+  try {
+    const caseRoom = `case_${caseId}`;
+    getIO().to(caseRoom).emit("poll:opened", {
+      caseId,
+      poll,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`📊 [WebSocket] Poll #${poll.pollId} opened in ${caseRoom}`);
+  } catch (error) {
+    console.error("❌ [WebSocket] Error sending poll:", error);
+  }
+}
+
+/**
+ * Tell the trial a poll stopped accepting responses
+ * @param {number|string} caseId
+ * @param {number} pollId
+ */
+function notifyPollClosed(caseId, pollId) {
+  try {
+    const caseRoom = `case_${caseId}`;
+    getIO().to(caseRoom).emit("poll:closed", {
+      caseId,
+      pollId,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`📊 [WebSocket] Poll #${pollId} closed in ${caseRoom}`);
+  } catch (error) {
+    console.error("❌ [WebSocket] Error closing poll:", error);
+  }
+}
+
+/**
+ * Push updated poll results to admins and the case attorney only
+ * @param {number|string} caseId
+ * @param {Object} poll - Poll with results
+ */
+function notifyPollResults(caseId, poll) {
+  try {
+    const roomName = `poll_results_${caseId}`;
+    getIO().to(roomName).emit("poll:results", {
+      caseId,
+      poll,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("❌ [WebSocket] Error sending poll results:", error);
+  }
+}
+
 // ============================================
 // EXPORTS
 // ============================================
@@ -457,9 +872,23 @@ module.exports = {
   notifyVerdictSubmitted,
   notifyVerdictStatusUpdate,
   notifyVerdictResultsPublished,
+  notifyVerdictSettingsUpdated,
+  notifyPanelVerdictUpdated,
 
   // Trial Room Events
   notifyRoomRecreated,
+  notifyTrialClockUpdated,
+  notifyDeliberationUpdated,
+  notifyExhibitUpdated,
+
+  // Juror Question Events
+  notifyJurorQuestionSubmitted,
+  notifyJurorQuestionApproved,
+
+  // Instant Poll Events
+  notifyPollOpened,
+  notifyPollClosed,
+  notifyPollResults,
 
   // Utility Functions
   notifyUser,
@@ -0,0 +1,71 @@
+require("./support/db");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+
+const Case = require("../models/Case");
+const CaseLifecycle = require("../models/CaseLifecycle");
+
+const STATES = Case.ATTORNEY_CASE_STATES;
+const { ACTOR_TYPES } = CaseLifecycle;
+
+function caseData(overrides = {}) {
+  return {
+    CaseId: 7,
+    AttorneyStatus: STATES.WAR_ROOM,
+    AdminApprovalStatus: Case.ADMIN_APPROVAL_STATUSES.APPROVED,
+    ...overrides,
+  };
+}
+
+test("every transition targets a known status from known statuses", () => {
+  const known = Object.values(STATES);
+  for (const transition of CaseLifecycle.CASE_TRANSITIONS) {
+    assert.ok(known.includes(transition.to), transition.label);
+    transition.from.forEach((from) => assert.ok(known.includes(from), transition.label));
+    transition.allowedBy.forEach((actor) =>
+      assert.ok(Object.values(ACTOR_TYPES).includes(actor), transition.label)
+    );
+  }
+});
+
+test("validateTransition rejects undeclared transitions and actors", async () => {
+  assert.deepEqual(await CaseLifecycle.validateTransition(caseData(), "archived", ACTOR_TYPES.ADMIN), {
+    valid: false,
+    message: "Invalid case status: archived",
+  });
+
+  const completed = caseData({ AttorneyStatus: STATES.COMPLETED });
+  assert.equal((await CaseLifecycle.validateTransition(completed, STATES.WAR_ROOM, ACTOR_TYPES.ADMIN)).valid, false);
+
+  // Only admins may send a case back to the war room
+  const awaiting = caseData({ AttorneyStatus: STATES.AWAITING_TRIAL });
+  assert.equal((await CaseLifecycle.validateTransition(awaiting, STATES.WAR_ROOM, ACTOR_TYPES.ATTORNEY)).valid, false);
+  assert.equal((await CaseLifecycle.validateTransition(awaiting, STATES.WAR_ROOM, ACTOR_TYPES.ADMIN)).valid, true);
+});
+
+test("opening the war room requires admin approval", async () => {
+  const pending = caseData({
+    AttorneyStatus: STATES.PENDING_ADMIN_APPROVAL,
+    AdminApprovalStatus: Case.ADMIN_APPROVAL_STATUSES.PENDING,
+  });
+
+  assert.deepEqual(await CaseLifecycle.validateTransition(pending, STATES.WAR_ROOM, ACTOR_TYPES.ADMIN), {
+    valid: false,
+    message: "Case must be approved by admin",
+  });
+});
+
+test("opening the trial requires approved jurors", async (t) => {
+  const counts = [0, 1];
+  t.mock.method(Case, "getApprovedJurorsCount", async () => counts.shift());
+
+  const result = await CaseLifecycle.validateTransition(caseData(), STATES.JOIN_TRIAL, ACTOR_TYPES.SYSTEM);
+  assert.equal(result.valid, false);
+  assert.match(result.message, /only 0 approved/);
+
+  assert.deepEqual(
+    await CaseLifecycle.validateTransition(caseData(), STATES.JOIN_TRIAL, ACTOR_TYPES.SYSTEM),
+    { valid: true }
+  );
+});
@@ -0,0 +1,97 @@
+const { fakePool, usePool } = require("./support/db");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+
+const Payment = require("../models/Payment");
+const JurorPayout = require("../models/JurorPayout");
+
+function casePayment(overrides = {}) {
+  return {
+    PaymentType: Payment.PAYMENT_TYPES.CASE_FILING,
+    Status: Payment.PAYMENT_STATUSES.COMPLETED,
+    Amount: 1000,
+    ...overrides,
+  };
+}
+
+test("getPerJurorAmount splits the attorney's case payment between approved jurors", async (t) => {
+  t.mock.method(Payment, "getPaymentsByCase", async () => [casePayment()]);
+  const pool = fakePool([[{ PaymentAmount: 500, ApprovedJurors: 3 }]]);
+
+  // Rounded down to the cent so the payouts never exceed the payment
+  assert.equal(await JurorPayout.getPerJurorAmount(pool, 7), 333.33);
+});
+
+test("getPerJurorAmount falls back to the case price without a completed payment", async (t) => {
+  t.mock.method(Payment, "getPaymentsByCase", async () => [
+    casePayment({ Status: Payment.PAYMENT_STATUSES.PENDING, Amount: 9000 }),
+  ]);
+  const pool = fakePool([[{ PaymentAmount: "600.00", ApprovedJurors: 4 }]]);
+
+  assert.equal(await JurorPayout.getPerJurorAmount(pool, 7), 150);
+});
+
+test("getPerJurorAmount pays nothing without jurors or a payment", async (t) => {
+  t.mock.method(Payment, "getPaymentsByCase", async () => []);
+
+  assert.equal(await JurorPayout.getPerJurorAmount(fakePool([[]]), 7), 0);
+  assert.equal(await JurorPayout.getPerJurorAmount(fakePool([[{ PaymentAmount: 600, ApprovedJurors: 0 }]]), 7), 0);
+  assert.equal(await JurorPayout.getPerJurorAmount(fakePool([[{ PaymentAmount: null, ApprovedJurors: 2 }]]), 7), 0);
+});
+
+test("reviewPayout refuses approval before results are published", async (t) => {
+  const pool = usePool(
+    t,
+    fakePool([
+      { recordset: [], rowsAffected: [0] },
+      [{ PayoutId: 12, Status: JurorPayout.PAYOUT_STATUSES.PENDING, ResultsPublished: 0, DebriefCompleted: 0 }],
+    ])
+  );
+
+  await assert.rejects(
+    JurorPayout.reviewPayout(12, JurorPayout.PAYOUT_STATUSES.APPROVED, 1),
+    /Results for this case have not been published yet/
+  );
+  // The gate is part of the UPDATE, so an approval racing the publish cannot slip through
+  assert.match(pool.queries[0], /VerdictStatus = 'published'/);
+  assert.match(pool.queries[0], /dbo\.DebriefResponses/);
+});
+
+test("reviewPayout refuses approval until the juror completes the debrief", async (t) => {
+  usePool(
+    t,
+    fakePool([
+      { recordset: [], rowsAffected: [0] },
+      [{ PayoutId: 12, Status: JurorPayout.PAYOUT_STATUSES.HELD, ResultsPublished: 1, DebriefCompleted: 0 }],
+    ])
+  );
+
+  await assert.rejects(
+    JurorPayout.reviewPayout(12, JurorPayout.PAYOUT_STATUSES.APPROVED, 1),
+    /has not completed the debrief survey/
+  );
+});
+
+test("reviewPayout returns null for a payout that is no longer reviewable", async (t) => {
+  usePool(
+    t,
+    fakePool([
+      { recordset: [], rowsAffected: [0] },
+      [{ PayoutId: 12, Status: JurorPayout.PAYOUT_STATUSES.PAID, ResultsPublished: 1, DebriefCompleted: 1 }],
+    ])
+  );
+
+  assert.equal(await JurorPayout.reviewPayout(12, JurorPayout.PAYOUT_STATUSES.APPROVED, 1), null);
+});
+
+test("reviewPayout does not gate rejections on the debrief", async (t) => {
+  const rejected = { PayoutId: 12, Status: JurorPayout.PAYOUT_STATUSES.REJECTED };
+  const pool = usePool(t, fakePool([{ recordset: [], rowsAffected: [1] }, [rejected]]));
+
+  assert.deepEqual(
+    await JurorPayout.reviewPayout(12, JurorPayout.PAYOUT_STATUSES.REJECTED, 1, "Did not attend"),
+    rejected
+  );
+  assert.doesNotMatch(pool.queries[0], /DebriefResponses/);
+});
@@ -0,0 +1,66 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+
+const {
+  CONDITION_OPERATORS,
+  parseCondition,
+  validateCondition,
+  getVisibleQuestionIds,
+  validateAnswers,
+} = require("../utils/questionConditions");
+const fixture = require("./fixtures/questionConditions.json");
+
+test("getVisibleQuestionIds matches the shared fixture", async (t) => {
+  for (const { name, answers, visible } of fixture.cases) {
+    await t.test(name, () => {
+      const ids = getVisibleQuestionIds(fixture.questions, answers);
+      assert.deepEqual([...ids].sort((a, b) => a - b), visible);
+    });
+  }
+});
+
+test("parseCondition reads stored JSON and rejects incomplete conditions", () => {
+  assert.deepEqual(parseCondition('{"questionId":"3","operator":"equals","value":1}'), {
+    questionId: 3,
+    operator: "equals",
+    value: "1",
+  });
+  assert.equal(parseCondition(null), null);
+  assert.equal(parseCondition({ questionId: 3 }), null);
+});
+
+test("validateCondition only allows conditions on earlier questions", () => {
+  const earlier = [{ QuestionId: 1 }];
+
+  assert.deepEqual(validateCondition(null, earlier), { isValid: true, condition: null });
+  assert.equal(validateCondition({ questionId: 1, operator: "equals", value: "Yes" }, earlier).isValid, true);
+  assert.equal(validateCondition({ questionId: 2, operator: "equals", value: "Yes" }, earlier).isValid, false);
+  assert.equal(validateCondition({ questionId: 1, operator: "matches", value: "Yes" }, earlier).isValid, false);
+  assert.equal(validateCondition({ questionId: 1, operator: "equals", value: " " }, earlier).isValid, false);
+  assert.equal(
+    validateCondition({ questionId: 1, operator: CONDITION_OPERATORS.ANSWERED }, earlier).isValid,
+    true
+  );
+});
+
+test("validateAnswers rejects answers to hidden questions", () => {
+  const questions = fixture.questions.map((q) => ({ ...q, QuestionText: `Question ${q.QuestionId}` }));
+  const result = validateAnswers(questions, { 1: "No", 2: "Plaintiff" });
+
+  assert.equal(result.isValid, false);
+  assert.match(result.error, /do not apply: Question 2/);
+});
+
+test("validateAnswers requires only the visible required questions", () => {
+  const questions = fixture.questions.map((q) => ({
+    ...q,
+    QuestionText: `Question ${q.QuestionId}`,
+    IsRequired: true,
+  }));
+
+  const missing = validateAnswers(questions, { 1: "Yes" });
+  assert.equal(missing.isValid, false);
+  assert.match(missing.error, /Question 2; Question 5$/);
+
+  assert.equal(validateAnswers(questions, { 1: "No", 4: "Defendant", 5: "Fraud" }).isValid, true);
+});
@@ -0,0 +1,65 @@
+// =============================================
+// db.js - Database double for unit tests
+// Require this before any model. config/db.js connects as soon as it is
+// loaded; this puts a pool in its place whose queries never return, so
+// models can be loaded (their startup migrations simply wait) and tested.
+// A test can route queries to a fakePool with usePool.
+// =============================================
+
+const path = require("path");
+const sql = require("mssql");
+
+const dbPath = require.resolve(path.join(__dirname, "../../config/db"));
+
+const pendingRequest = { input: () => pendingRequest, query: () => new Promise(() => {}) };
+const pendingPool = { request: () => pendingRequest };
+let activePool = pendingPool;
+
+const pool = { request: () => activePool.request() };
+const poolPromise = Promise.resolve(pool);
+
+require.cache[dbPath] = {
+  id: dbPath,
+  filename: dbPath,
+  loaded: true,
+  exports: {
+    poolPromise,
+    getPool: () => poolPromise,
+    executeQuery: (callback) => poolPromise.then(callback),
+    sql,
+  },
+};
+
+/**
+ * Minimal stand-in for an mssql pool. Each query gets the next result, given
+ * either as a recordset array or as { recordset, rowsAffected }.
+ * The query text is kept in pool.queries.
+ * @param {Array} results - One result per query, in order
+ */
+function fakePool(results) {
+  const queue = [...results];
+  const queries = [];
+  const request = {
+    input: () => request,
+    query: async (text) => {
+      queries.push(text);
+      const next = queue.shift() || [];
+      return Array.isArray(next) ? { recordset: next, rowsAffected: [next.length] } : next;
+    },
+  };
+  return { request: () => request, queries };
+}
+
+/**
+ * Send the models' queries to the given pool until the test ends
+ * @param {import("node:test").TestContext} t
+ */
+function usePool(t, fake) {
+  activePool = fake;
+  t.after(() => {
+    activePool = pendingPool;
+  });
+  return fake;
+}
+
+module.exports = { fakePool, usePool };
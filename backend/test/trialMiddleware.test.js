@@ -0,0 +1,54 @@
+require("./support/db");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+
+const OpposingCounsel = require("../models/OpposingCounsel");
+const { denyTeamObservers, canViewJurorContact } = require("../middleware/trialMiddleware");
+
+const { COUNSEL_ROLES } = OpposingCounsel;
+
+function fakeResponse() {
+  return {
+    statusCode: 200,
+    body: null,
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+}
+
+test("denyTeamObservers keeps team members off juror and participant lists", (t) => {
+  const next = t.mock.fn();
+  const res = fakeResponse();
+
+  denyTeamObservers({ user: { id: 4, type: "team_member" } }, res, next);
+
+  assert.equal(res.statusCode, 403);
+  assert.equal(res.body.code, "TEAM_MEMBER_DENIED");
+  assert.equal(next.mock.callCount(), 0);
+
+  for (const type of ["admin", "attorney", "juror"]) {
+    denyTeamObservers({ user: { id: 4, type } }, fakeResponse(), next);
+  }
+  assert.equal(next.mock.callCount(), 3);
+});
+
+test("canViewJurorContact is limited to admins and the owning attorney", () => {
+  const owner = { role: COUNSEL_ROLES.OWNER };
+
+  assert.equal(canViewJurorContact({ user: { type: "admin" } }), true);
+  assert.equal(canViewJurorContact({ user: { type: "attorney" }, counselRole: owner }), true);
+  assert.equal(
+    canViewJurorContact({ user: { type: "attorney" }, counselRole: { role: COUNSEL_ROLES.OPPOSING } }),
+    false
+  );
+  // requireTrialAccess gives team members the owner's side role for documents
+  assert.equal(canViewJurorContact({ user: { type: "team_member" }, counselRole: owner }), false);
+  assert.equal(canViewJurorContact({ user: { type: "juror" } }), false);
+});
@@ -0,0 +1,90 @@
+require("./support/db");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+
+const Verdict = require("../models/Verdict");
+
+test("parseDamagesAmount accepts formatted dollar amounts", () => {
+  assert.equal(Verdict.parseDamagesAmount("$125,000.50"), 125000.5);
+  assert.equal(Verdict.parseDamagesAmount(" 2 500 "), 2500);
+  assert.equal(Verdict.parseDamagesAmount(0), 0);
+  assert.equal(Verdict.parseDamagesAmount(""), null);
+  assert.equal(Verdict.parseDamagesAmount(null), null);
+  assert.equal(Verdict.parseDamagesAmount("ten thousand"), null);
+});
+
+test("validateDamagesResponses enforces each question's bounds", () => {
+  const questions = [
+    {
+      QuestionId: 1,
+      QuestionText: "Damages",
+      QuestionType: Verdict.DAMAGES_QUESTION_TYPE,
+      MinValue: 1000,
+      MaxValue: 50000,
+    },
+    { QuestionId: 2, QuestionText: "Liable?", QuestionType: "Yes/No", MinValue: null, MaxValue: null },
+  ];
+
+  assert.deepEqual(Verdict.validateDamagesResponses(questions, { 1: "$20,000", 2: "Yes" }), { isValid: true });
+  assert.deepEqual(Verdict.validateDamagesResponses(questions, { 1: "" }), { isValid: true });
+  assert.match(Verdict.validateDamagesResponses(questions, { 1: "-5" }).error, /0 or more/);
+  assert.match(Verdict.validateDamagesResponses(questions, { 1: "999" }).error, /at least \$1,000/);
+  assert.match(Verdict.validateDamagesResponses(questions, { 1: "50001" }).error, /at most \$50,000/);
+});
+
+test("summarizeDamages reports the spread of awards", () => {
+  const summary = Verdict.summarizeDamages([40000, 10000, 30000, 20000], { min: 0, max: 100000 });
+
+  assert.equal(summary.count, 4);
+  assert.equal(summary.mean, 25000);
+  assert.equal(summary.median, 25000);
+  assert.equal(summary.min, 10000);
+  assert.equal(summary.max, 40000);
+  assert.deepEqual(summary.percentiles, { p10: 13000, p25: 17500, p75: 32500, p90: 37000 });
+  assert.deepEqual(summary.bounds, { min: 0, max: 100000 });
+  assert.equal(summary.histogram.length, 4);
+  assert.equal(summary.histogram.reduce((n, bin) => n + bin.count, 0), 4);
+  assert.equal(summary.histogram[3].to, 40000);
+});
+
+test("summarizeDamages handles no awards and identical awards", () => {
+  assert.deepEqual(Verdict.summarizeDamages([]), { count: 0, bounds: {}, percentiles: {}, histogram: [] });
+
+  const same = Verdict.summarizeDamages([5000, 5000, 5000]);
+  assert.equal(same.median, 5000);
+  assert.deepEqual(same.histogram, [{ from: 5000, to: 5000, count: 3 }]);
+});
+
+test("suppressSmallCells hides counts below the minimum cell size", () => {
+  const key = (group, option) => `${group}\u0000${option}`;
+  const suppressed = Verdict.suppressSmallCells({
+    Men: { Yes: 5, No: 4 },
+    Women: { Yes: 6, No: 7 },
+  });
+  assert.equal(suppressed.size, 0);
+
+  // A lone hidden cell could be recovered from its row or column total, so
+  // the next smallest cell in each is hidden with it
+  const protectedCells = Verdict.suppressSmallCells({
+    Men: { Yes: 2, No: 8 },
+    Women: { Yes: 6, No: 7 },
+  });
+  assert.deepEqual(
+    [...protectedCells].sort(),
+    [key("Men", "No"), key("Men", "Yes"), key("Women", "No"), key("Women", "Yes")].sort()
+  );
+});
+
+test("suppressSmallCells leaves empty cells visible", () => {
+  const key = (group, option) => `${group}\u0000${option}`;
+  const suppressed = Verdict.suppressSmallCells({
+    Men: { Yes: 1, No: 0, Unsure: 4 },
+    Women: { Yes: 2, No: 5, Unsure: 0 },
+  });
+
+  assert.deepEqual(
+    [...suppressed].sort(),
+    [key("Men", "Unsure"), key("Men", "Yes"), key("Women", "No"), key("Women", "Yes")].sort()
+  );
+});
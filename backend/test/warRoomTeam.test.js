@@ -0,0 +1,31 @@
+require("./support/db");
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+
+const WarRoomTeam = require("../models/WarRoomTeam");
+
+const { TEAM_PERMISSIONS } = WarRoomTeam;
+
+test("hasPermission only grants permissions the membership holds", () => {
+  const membership = { Permissions: WarRoomTeam.normalizePermissions({ attendTrial: true }) };
+
+  assert.equal(WarRoomTeam.hasPermission(membership, TEAM_PERMISSIONS.VIEW_DOCUMENTS), true);
+  assert.equal(WarRoomTeam.hasPermission(membership, TEAM_PERMISSIONS.ATTEND_TRIAL), true);
+  assert.equal(WarRoomTeam.hasPermission(membership, TEAM_PERMISSIONS.UPLOAD_DOCUMENTS), false);
+  assert.equal(WarRoomTeam.hasPermission(membership, TEAM_PERMISSIONS.EDIT_JURY_CHARGE), false);
+  assert.equal(WarRoomTeam.hasPermission(membership, "manageBilling"), false);
+});
+
+test("hasPermission denies when there is no membership", () => {
+  assert.equal(WarRoomTeam.hasPermission(null, TEAM_PERMISSIONS.VIEW_DOCUMENTS), false);
+  assert.equal(WarRoomTeam.hasPermission({}, TEAM_PERMISSIONS.VIEW_DOCUMENTS), false);
+});
+
+test("normalizePermissions starts from the defaults and implies view from upload", () => {
+  assert.deepEqual(WarRoomTeam.normalizePermissions(undefined), WarRoomTeam.DEFAULT_PERMISSIONS);
+  assert.deepEqual(
+    WarRoomTeam.normalizePermissions({ viewDocuments: false, uploadDocuments: 1, admin: true }),
+    { viewDocuments: true, uploadDocuments: true, editJuryCharge: false, attendTrial: false }
+  );
+});
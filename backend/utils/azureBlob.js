@@ -450,6 +450,27 @@ async function deleteBlob(fileUrl) {
   }
 }
 
+/**
+ * Delete several blobs, e.g. every stored version of a war room document.
+ * Failures are logged and skipped so one missing file doesn't block the rest.
+ *
+ * @param {string[]} fileUrls - Full URLs to the blobs
+ * @returns {Promise<number>} Number of blobs deleted
+ */
+async function deleteBlobs(fileUrls) {
+  let deletedCount = 0;
+
+  for (const fileUrl of new Set(fileUrls || [])) {
+    try {
+      if (await deleteBlob(fileUrl)) deletedCount++;
+    } catch (error) {
+      console.error("❌ Failed to delete blob in batch:", sanitizeError(error));
+    }
+  }
+
+  return deletedCount;
+}
+
 /**
  * Check if blob exists
  * NEW: Added existence check
@@ -704,6 +725,7 @@ module.exports = {
   uploadToBlob,
   getBlobClient,
   deleteBlob,
+  deleteBlobs,
   downloadBlob,
 
   // Metadata & utilities
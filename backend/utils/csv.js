@@ -0,0 +1,27 @@
+// =============================================
+// csv.js - CSV rendering for admin and attorney downloads
+// =============================================
+
+/**
+ * Quote a CSV field and neutralize spreadsheet formulas in free text
+ */
+function csvField(value) {
+  if (value === undefined || value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows (arrays of values) as CSV text with CRLF line endings
+ */
+function toCsvText(rows) {
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+module.exports = {
+  csvField,
+  toCsvText,
+};
@@ -718,6 +718,68 @@ async function testEmailConfig() {
   }
 }
 
+/**
+ * Send war room team invitation email
+ * The link lets the invitee create a limited team member account (or sign
+ * in with an existing one) scoped to this case
+ */
+async function sendTeamInviteEmail(email, inviteToken, { memberName, caseTitle, invitedBy, role } = {}) {
+  try {
+    const validEmail = validateEmail(email);
+    const validToken = validateToken(inviteToken);
+
+    const inviteLink = `${EMAIL_CONFIG.FRONTEND_URL}/team/invite/${validToken}`;
+
+    const content = `
+      ${getEmailHeader()}
+      <div style="padding: 40px;">
+        <h2 style="color: #16305B; margin-top: 0;">You've been added to a trial team</h2>
+        <p style="color: #666; line-height: 1.6;">Hello${memberName ? ` ${sanitizeHTML(memberName)}` : ""},</p>
+        <p style="color: #666; line-height: 1.6;">
+          ${sanitizeHTML(invitedBy) || "An attorney"} added you${role ? ` as <strong>${sanitizeHTML(role)}</strong>` : ""}
+          to the war room for <strong>${sanitizeHTML(caseTitle)}</strong> on Quick Verdicts.
+        </p>
+        <p style="color: #666; line-height: 1.6;">
+          Accept the invitation to set up your team member login:
+        </p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${inviteLink}" style="display: inline-block; background: #16305B; color: white; padding: 14px 30px; text-decoration: none; border-radius: 5px; font-weight: bold;">
+            Accept Invitation
+          </a>
+        </div>
+        <div style="background: #fff3cd; border-left: 4px solid #ffc107; padding: 15px; margin: 20px 0; border-radius: 4px;">
+          <p style="color: #856404; margin: 0; font-size: 14px;">
+            <strong>⏱️ Important:</strong> This invitation expires in 7 days.
+          </p>
+        </div>
+        <p style="color: #666; font-size: 14px; line-height: 1.6;">
+          If the button doesn't work, copy and paste this link into your browser:
+        </p>
+        <p style="word-break: break-all; background: #f5f5f5; padding: 12px; border-radius: 5px; font-size: 12px; color: #666;">
+          ${inviteLink}
+        </p>
+        <p style="color: #999; font-size: 13px; margin-top: 30px;">
+          If you weren't expecting this invitation, you can ignore this email.
+        </p>
+      </div>
+      ${getEmailFooter()}
+    `;
+
+    const mailOptions = {
+      from: `"${EMAIL_CONFIG.FROM_NAME}" <${EMAIL_CONFIG.FROM_EMAIL}>`,
+      to: validEmail,
+      subject: "Quick Verdicts - Trial Team Invitation",
+      html: wrapEmailTemplate(content),
+    };
+
+    const result = await sendEmailWithRetry(mailOptions);
+    return result.success;
+  } catch (error) {
+    console.error("❌ Error sending team invite email:", error.message);
+    return false;
+  }
+}
+
 /**
  * Send generic notification email
  * NEW: Added generic notification function
@@ -785,6 +847,7 @@ module.exports = {
   sendOTPEmail,
   sendAccountDeclinedEmail,
   sendAccountVerifiedEmail,
+  sendTeamInviteEmail,
   sendNotificationEmail,
 
   // Helpers
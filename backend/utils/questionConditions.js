@@ -0,0 +1,184 @@
+// =============================================
+// questionConditions.js - Conditional Jury Charge Questions
+// A question may carry a Condition that references an earlier question,
+// e.g. "If you answered Yes to Question 1, answer Question 2".
+// Shared by the jury charge and verdict submission paths.
+// =============================================
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const CONDITION_OPERATORS = {
+  EQUALS: "equals",
+  NOT_EQUALS: "not_equals",
+  INCLUDES: "includes", // Multiple Select answers ("A, B")
+  ANSWERED: "answered",
+};
+
+// ============================================
+// PARSING & VALIDATION
+// ============================================
+
+/**
+ * Parse a stored condition (JSON string or object)
+ * @returns {Object|null} { questionId, operator, value } or null
+ */
+function parseCondition(condition) {
+  if (!condition) return null;
+  try {
+    const parsed = typeof condition === "string" ? JSON.parse(condition) : condition;
+    if (!parsed || !parsed.questionId || !parsed.operator) return null;
+    return {
+      questionId: parseInt(parsed.questionId),
+      operator: parsed.operator,
+      value: parsed.value !== undefined && parsed.value !== null ? String(parsed.value) : "",
+    };
+  } catch (error) {
+    console.warn("⚠️  Invalid question condition:", error.message);
+    return null;
+  }
+}
+
+/**
+ * Validate a condition against the questions that come before it
+ * @param {Object|null} condition - Raw condition from the request body
+ * @param {Array} earlierQuestions - Questions ordered before the conditional question
+ * @returns {Object} { isValid, error?, condition? }
+ */
+function validateCondition(condition, earlierQuestions) {
+  if (condition === undefined || condition === null || condition === "") {
+    return { isValid: true, condition: null };
+  }
+
+  const parsed = parseCondition(condition);
+  if (!parsed || isNaN(parsed.questionId)) {
+    return { isValid: false, error: "Condition must reference a question and an operator" };
+  }
+
+  if (!Object.values(CONDITION_OPERATORS).includes(parsed.operator)) {
+    return {
+      isValid: false,
+      error: `Condition operator must be one of: ${Object.values(CONDITION_OPERATORS).join(", ")}`,
+    };
+  }
+
+  const parent = earlierQuestions.find((q) => q.QuestionId === parsed.questionId);
+  if (!parent) {
+    return { isValid: false, error: "Condition must reference an earlier question in this jury charge" };
+  }
+
+  if (parsed.operator !== CONDITION_OPERATORS.ANSWERED && !parsed.value.trim()) {
+    return { isValid: false, error: "Condition requires an answer value to compare against" };
+  }
+
+  return { isValid: true, condition: parsed };
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+function answerMatches(condition, answer) {
+  const normalized = answer === undefined || answer === null ? "" : String(answer).trim();
+
+  switch (condition.operator) {
+    case CONDITION_OPERATORS.EQUALS:
+      return normalized.toLowerCase() === condition.value.trim().toLowerCase();
+    case CONDITION_OPERATORS.NOT_EQUALS:
+      return normalized !== "" && normalized.toLowerCase() !== condition.value.trim().toLowerCase();
+    case CONDITION_OPERATORS.INCLUDES:
+      return normalized
+        .split(",")
+        .map((v) => v.trim().toLowerCase())
+        .includes(condition.value.trim().toLowerCase());
+    case CONDITION_OPERATORS.ANSWERED:
+      return normalized !== "";
+    default:
+      return true;
+  }
+}
+
+/**
+ * Work out which questions a juror should see given their answers.
+ * A question is hidden when its condition fails or when the question it
+ * depends on is itself hidden.
+ *
+ * @param {Array} questions - Questions in OrderIndex order (QuestionId, Condition)
+ * @param {Object} answers - Map of questionId (string) -> answer
+ * @returns {Set<number>} IDs of visible questions
+ */
+function getVisibleQuestionIds(questions, answers = {}) {
+  const visible = new Set();
+
+  for (const question of questions) {
+    const condition = parseCondition(question.Condition);
+    if (!condition) {
+      visible.add(question.QuestionId);
+      continue;
+    }
+
+    if (
+      visible.has(condition.questionId) &&
+      answerMatches(condition, answers[condition.questionId.toString()])
+    ) {
+      visible.add(question.QuestionId);
+    }
+  }
+
+  return visible;
+}
+
+/**
+ * Check a set of answers against the conditional structure
+ * @returns {Object} { isValid, error?, visibleIds }
+ */
+function validateAnswers(questions, answers = {}) {
+  const visibleIds = getVisibleQuestionIds(questions, answers);
+
+  const answeredHidden = questions.filter((q) => {
+    const answer = answers[q.QuestionId.toString()];
+    return !visibleIds.has(q.QuestionId) && answer !== undefined && answer !== null && String(answer).trim() !== "";
+  });
+  if (answeredHidden.length > 0) {
+    return {
+      isValid: false,
+      error: `Answers were given to questions that do not apply: ${answeredHidden
+        .map((q) => q.QuestionText)
+        .join("; ")}`,
+      visibleIds,
+    };
+  }
+
+  const missingRequired = questions.filter((q) => {
+    const answer = answers[q.QuestionId.toString()];
+    return (
+      q.IsRequired &&
+      visibleIds.has(q.QuestionId) &&
+      (answer === undefined || answer === null || String(answer).trim() === "")
+    );
+  });
+  if (missingRequired.length > 0) {
+    return {
+      isValid: false,
+      error: `Please answer all required questions: ${missingRequired
+        .map((q) => q.QuestionText)
+        .join("; ")}`,
+      visibleIds,
+    };
+  }
+
+  return { isValid: true, visibleIds };
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  CONDITION_OPERATORS,
+  parseCondition,
+  validateCondition,
+  getVisibleQuestionIds,
+  validateAnswers,
+};
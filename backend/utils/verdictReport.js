@@ -0,0 +1,509 @@
+// =============================================
+// verdictReport.js - Downloadable verdict results report
+// Builds an anonymized report (case summary, per-question breakdowns,
+// juror demographics, free-text answers) and renders it as CSV or PDF.
+// =============================================
+
+const PDFDocument = require("pdfkit");
+const { toCsvText } = require("./csv");
+const { DAMAGES_QUESTION_TYPE } = require("../models/Verdict");
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const REPORT_FORMATS = {
+  PDF: "pdf",
+  CSV: "csv",
+};
+
+const CHOICE_QUESTION_TYPES = ["Yes/No", "Multiple Choice", "Multiple Select"];
+
+const DEMOGRAPHIC_FIELDS = [
+  { key: "ageRange", column: "AgeRange", label: "Age Range" },
+  { key: "gender", column: "Gender", label: "Gender" },
+  { key: "education", column: "Education", label: "Education" },
+];
+
+const NOT_PROVIDED = "Not provided";
+
+// PDF layout (US Letter, in points). DejaVu Sans is embedded so juror names,
+// smart quotes and accented text render as typed.
+const PDF_MARGIN = 54;
+const PDF_FONTS = {
+  regular: require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans.ttf"),
+  bold: require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf"),
+};
+
+const COLORS = {
+  navy: "#0A2342",
+  blue: "#16305B",
+  accent: "#5B9BD5",
+  muted: "#455A7C",
+  rule: "#C6CDD9",
+};
+
+// ============================================
+// FORMATTING HELPERS
+// ============================================
+
+function isAnswered(answer) {
+  return answer !== undefined && answer !== null && String(answer).trim() !== "";
+}
+
+function formatPercent(value) {
+  return `${Math.round(value * 10) / 10}%`;
+}
+
+function formatMoney(value) {
+  if (value === null || value === undefined) return "-";
+  return `$${Number(value).toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(value) {
+  if (!value) return "-";
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? String(value) : date.toISOString().split("T")[0];
+}
+
+/**
+ * Count answers per option; Multiple Select answers are comma-separated
+ */
+function countChoices(question, answers, totalVerdicts) {
+  const counts = {};
+  answers.forEach(({ answer }) => {
+    const values =
+      question.questionType === "Multiple Select"
+        ? String(answer).split(",").map((v) => v.trim()).filter(Boolean)
+        : [String(answer).trim()];
+    values.forEach((value) => {
+      counts[value] = (counts[value] || 0) + 1;
+    });
+  });
+
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([option, count]) => ({
+      option,
+      count,
+      percentage: totalVerdicts > 0 ? (count / totalVerdicts) * 100 : 0,
+    }));
+}
+
+// ============================================
+// REPORT DATA
+// ============================================
+
+/**
+ * Build the anonymized report
+ * @param {Object} params
+ * @param {Object} params.caseData - Case row (Case.findById)
+ * @param {Object} params.results - Verdict.getAggregatedResults output
+ * @param {Array} params.demographics - Verdict.getJurorDemographics output
+ * @param {Array} [params.jurorQuestions] - Approved JurorQuestion rows
+ * @param {Array} [params.polls] - TrialPoll.getCasePolls output
+ * @returns {Object} Report data
+ */
+function buildVerdictReport({ caseData, results, demographics, jurorQuestions = [], polls = [] }) {
+  const totalVerdicts = results.totalVerdicts;
+
+  // Jurors are numbered by submission order; names never leave the server
+  const jurorLabels = new Map();
+  demographics.forEach((row, index) => jurorLabels.set(row.JurorId, `Juror ${index + 1}`));
+  const labelFor = (jurorId) => {
+    if (!jurorLabels.has(jurorId)) jurorLabels.set(jurorId, `Juror ${jurorLabels.size + 1}`);
+    return jurorLabels.get(jurorId);
+  };
+
+  const questions = results.questions.map((q, index) => {
+    const answers = q.individual.filter((r) => isAnswered(r.answer));
+    const question = {
+      number: index + 1,
+      text: q.questionText,
+      type: q.questionType,
+      answeredCount: answers.length,
+      panelAnswer: q.panelAnswer,
+    };
+
+    if (CHOICE_QUESTION_TYPES.includes(q.questionType)) {
+      question.breakdown = countChoices(q, answers, totalVerdicts);
+    } else if (q.questionType === DAMAGES_QUESTION_TYPE || q.questionType === "Numeric Response") {
+      question.statistics = q.results;
+    } else if (q.questionType === "Text Response") {
+      question.textResponses = answers.map((r) => ({
+        juror: labelFor(r.jurorId),
+        answer: String(r.answer).trim(),
+      }));
+    }
+
+    return question;
+  });
+
+  const demographicBreakdown = DEMOGRAPHIC_FIELDS.map(({ key, column, label }) => {
+    const counts = {};
+    demographics.forEach((row) => {
+      const value = row[column] && String(row[column]).trim() ? String(row[column]).trim() : NOT_PROVIDED;
+      counts[value] = (counts[value] || 0) + 1;
+    });
+    return {
+      key,
+      label,
+      values: Object.entries(counts)
+        .sort((a, b) => b[1] - a[1])
+        .map(([value, count]) => ({
+          value,
+          count,
+          percentage: demographics.length > 0 ? (count / demographics.length) * 100 : 0,
+        })),
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    case: {
+      id: caseData.CaseId,
+      title: caseData.CaseTitle,
+      type: caseData.CaseType,
+      jurisdiction: [caseData.County, caseData.State].filter(Boolean).join(", "),
+      scheduledDate: caseData.ScheduledDate,
+      publishedAt: caseData.VerdictPublishedAt,
+      verdictMode: results.verdictMode,
+    },
+    totalVerdicts,
+    questions,
+    demographics: demographicBreakdown,
+    // Questions are reported as forwarded to counsel, without who asked them
+    jurorQuestions: jurorQuestions.map((row, index) => ({
+      number: index + 1,
+      text: row.ForwardedText || row.QuestionText,
+      askedAt: row.CreatedAt,
+    })),
+    // Instant polls are already anonymous counts
+    polls: polls.map((poll, index) => ({
+      number: index + 1,
+      question: poll.question,
+      askedAt: poll.createdAt,
+      totalResponses: poll.totalResponses,
+      results: poll.results,
+    })),
+  };
+}
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Render the report as CSV (one row per fact)
+ * Columns: Section, Question #, Question, Item, Value, Count, Percent
+ */
+function toCsv(report) {
+  const rows = [["Section", "Question #", "Question", "Item", "Value", "Count", "Percent"]];
+  const add = (section, question, item, value, count = "", percent = "") =>
+    rows.push([section, question ? question.number : "", question ? question.text : "", item, value, count, percent]);
+
+  add("Case", null, "Case ID", report.case.id);
+  add("Case", null, "Title", report.case.title);
+  add("Case", null, "Case Type", report.case.type);
+  add("Case", null, "Jurisdiction", report.case.jurisdiction);
+  add("Case", null, "Trial Date", formatDate(report.case.scheduledDate));
+  add("Case", null, "Results Published", formatDate(report.case.publishedAt));
+  add("Case", null, "Verdict Mode", report.case.verdictMode);
+  add("Case", null, "Verdicts Submitted", report.totalVerdicts);
+
+  report.questions.forEach((q) => {
+    add("Question", q, "Type", q.type, q.answeredCount);
+    if (q.panelAnswer) add("Question", q, "Panel Answer", q.panelAnswer);
+
+    (q.breakdown || []).forEach((b) => add("Answer", q, "Option", b.option, b.count, formatPercent(b.percentage)));
+
+    if (q.statistics && q.statistics.count > 0) {
+      const stats = q.statistics;
+      add("Statistics", q, "Mean", stats.mean ?? stats.average, stats.count);
+      add("Statistics", q, "Median", stats.median);
+      add("Statistics", q, "Min", stats.min);
+      add("Statistics", q, "Max", stats.max);
+      Object.entries(stats.percentiles || {}).forEach(([key, n]) =>
+        add("Statistics", q, `Percentile ${key.replace("p", "")}`, n)
+      );
+      (stats.histogram || []).forEach((bucket) =>
+        add("Histogram", q, `${bucket.from} - ${bucket.to}`, "", bucket.count)
+      );
+    }
+
+    (q.textResponses || []).forEach((r) => add("Text Response", q, r.juror, r.answer));
+  });
+
+  report.demographics.forEach((d) =>
+    d.values.forEach((v) => add("Demographics", null, d.label, v.value, v.count, formatPercent(v.percentage)))
+  );
+
+  report.jurorQuestions.forEach((jq) => add("Juror Question", null, `Question ${jq.number}`, jq.text));
+
+  report.polls.forEach((poll) =>
+    poll.results.forEach((r) =>
+      add("Instant Poll", null, `Poll ${poll.number}: ${poll.question}`, r.option, r.count, formatPercent(r.percentage))
+    )
+  );
+
+  return toCsvText(rows);
+}
+
+// ============================================
+// PDF
+// ============================================
+
+/**
+ * Layout helpers over a pdfkit document: wrapped text, headings, rules and
+ * labelled proportional bars, each starting a new page when out of room
+ */
+function createReportLayout(doc) {
+  const contentWidth = doc.page.width - PDF_MARGIN * 2;
+  const bottom = () => doc.page.height - PDF_MARGIN;
+
+  function ensureSpace(height) {
+    if (doc.y + height > bottom()) {
+      doc.addPage();
+    }
+  }
+
+  function text(value, { size = 10, bold = false, color = COLORS.navy, indent = 0, gap = 4 } = {}) {
+    doc
+      .font(bold ? "bold" : "regular")
+      .fontSize(size)
+      .fillColor(color)
+      .text(String(value), PDF_MARGIN + indent, doc.y, { width: contentWidth - indent, lineGap: size * 0.2 });
+    doc.y += gap;
+  }
+
+  function heading(value, level = 1) {
+    const size = level === 1 ? 18 : level === 2 ? 13 : 11;
+    // Keep headings with at least a couple of lines of content
+    ensureSpace(size * 1.3 + 40);
+    doc.y += level === 1 ? 0 : 8;
+    text(value, { size, bold: true, color: level === 1 ? COLORS.blue : COLORS.navy, gap: 6 });
+  }
+
+  function spacer(height = 8) {
+    doc.y += height;
+  }
+
+  function rule() {
+    ensureSpace(14);
+    doc.y += 6;
+    doc
+      .moveTo(PDF_MARGIN, doc.y)
+      .lineTo(PDF_MARGIN + contentWidth, doc.y)
+      .lineWidth(0.75)
+      .strokeColor(COLORS.rule)
+      .stroke();
+    doc.y += 8;
+  }
+
+  /**
+   * Label with a proportional horizontal bar and a value on the right
+   * @param {string} label
+   * @param {number} fraction - 0..1
+   * @param {string} valueText
+   */
+  function bar(label, fraction, valueText) {
+    const size = 9;
+    const labelWidth = contentWidth * 0.4 - 8;
+    const barWidth = contentWidth * 0.4;
+    const barX = PDF_MARGIN + contentWidth * 0.4;
+
+    doc.font("regular").fontSize(size);
+    const height = Math.max(14, doc.heightOfString(String(label), { width: labelWidth }) + 4);
+    ensureSpace(height);
+
+    const top = doc.y;
+    doc.fillColor(COLORS.navy).text(String(label), PDF_MARGIN + 8, top, { width: labelWidth });
+
+    const filled = Math.max(0, Math.min(1, fraction)) * barWidth;
+    doc.rect(barX, top + 1, barWidth, 9).fill(COLORS.rule);
+    if (filled > 0) {
+      doc.rect(barX, top + 1, filled, 9).fill(COLORS.accent);
+    }
+    doc
+      .font("bold")
+      .fillColor(COLORS.navy)
+      .text(String(valueText), barX + barWidth + 8, top, { lineBreak: false });
+
+    doc.x = PDF_MARGIN;
+    doc.y = top + height + 2;
+  }
+
+  /**
+   * Stamp the footer and page numbers on every page (needs bufferPages)
+   */
+  function footer(value) {
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      // Writing inside the bottom margin would otherwise start a new page
+      const { bottom: marginBottom } = doc.page.margins;
+      doc.page.margins.bottom = 0;
+      doc
+        .font("regular")
+        .fontSize(8)
+        .fillColor(COLORS.muted)
+        .text(
+          `${value ? `${value}  |  ` : ""}Page ${i - range.start + 1} of ${range.count}`,
+          PDF_MARGIN,
+          doc.page.height - PDF_MARGIN + 24,
+          { width: contentWidth, lineBreak: false }
+        );
+      doc.page.margins.bottom = marginBottom;
+    }
+  }
+
+  return { heading, text, spacer, rule, bar, footer };
+}
+
+/**
+ * Render the report as a PDF
+ * @returns {Promise<Buffer>}
+ */
+function toPdf(report) {
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margin: PDF_MARGIN,
+    bufferPages: true,
+    info: {
+      Title: `Verdict Report - ${report.case.title || `Case ${report.case.id}`}`,
+      Producer: "QuickVerdicts",
+    },
+  });
+  doc.registerFont("regular", PDF_FONTS.regular);
+  doc.registerFont("bold", PDF_FONTS.bold);
+
+  const chunks = [];
+  const done = new Promise((resolve, reject) => {
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const layout = createReportLayout(doc);
+
+  // Case summary
+  layout.heading("Verdict Results Report");
+  layout.text(report.case.title || `Case ${report.case.id}`, { size: 13, bold: true });
+  [
+    ["Case ID", report.case.id],
+    ["Case Type", report.case.type || "-"],
+    ["Jurisdiction", report.case.jurisdiction || "-"],
+    ["Trial Date", formatDate(report.case.scheduledDate)],
+    ["Results Published", formatDate(report.case.publishedAt)],
+    ["Verdict Mode", report.case.verdictMode === "panel" ? "Presiding juror (panel)" : "Individual jurors"],
+    ["Verdicts Submitted", report.totalVerdicts],
+  ].forEach(([label, value]) => layout.text(`${label}: ${value}`, { size: 10, color: COLORS.muted, gap: 1 }));
+  layout.rule();
+
+  // Questions
+  layout.heading("Jury Charge Results", 2);
+  report.questions.forEach((q) => {
+    layout.text(`Question ${q.number}. ${q.text}`, { size: 11, bold: true, gap: 2 });
+    layout.text(`${q.type} - ${q.answeredCount} of ${report.totalVerdicts} answered`, {
+      size: 9,
+      color: COLORS.muted,
+    });
+    if (q.panelAnswer) {
+      layout.text(`Panel answer: ${q.panelAnswer}`, { size: 10, indent: 8 });
+    }
+
+    (q.breakdown || []).forEach((b) =>
+      layout.bar(b.option, b.percentage / 100, `${b.count} (${formatPercent(b.percentage)})`)
+    );
+
+    if (q.statistics && q.statistics.count > 0) {
+      const stats = q.statistics;
+      const fmt = q.type === DAMAGES_QUESTION_TYPE ? formatMoney : (n) => String(n);
+      layout.text(
+        `Mean ${fmt(stats.mean ?? stats.average)}   Median ${fmt(stats.median)}   Min ${fmt(stats.min)}   Max ${fmt(
+          stats.max
+        )}`,
+        { size: 10, indent: 8, gap: 2 }
+      );
+      const percentiles = Object.entries(stats.percentiles || {});
+      if (percentiles.length > 0) {
+        layout.text(
+          percentiles.map(([key, n]) => `${key.replace("p", "")}th: ${fmt(n)}`).join("   "),
+          { size: 9, indent: 8, color: COLORS.muted }
+        );
+      }
+      const largestBucket = Math.max(0, ...(stats.histogram || []).map((b) => b.count));
+      (stats.histogram || []).forEach((bucket) =>
+        layout.bar(
+          `${fmt(bucket.from)} - ${fmt(bucket.to)}`,
+          largestBucket > 0 ? bucket.count / largestBucket : 0,
+          String(bucket.count)
+        )
+      );
+    }
+
+    if (q.textResponses) {
+      if (q.textResponses.length === 0) {
+        layout.text("No written responses", { size: 9, indent: 8, color: COLORS.muted });
+      }
+      q.textResponses.forEach((r) => layout.text(`${r.juror}: ${r.answer}`, { size: 9, indent: 8, gap: 3 }));
+    }
+
+    layout.spacer(6);
+  });
+  layout.rule();
+
+  // Demographics
+  layout.heading("Juror Demographics", 2);
+  layout.text("Self-reported profile information for jurors who submitted a verdict.", {
+    size: 9,
+    color: COLORS.muted,
+  });
+  report.demographics.forEach((d) => {
+    layout.text(d.label, { size: 11, bold: true, gap: 2 });
+    d.values.forEach((v) => layout.bar(v.value, v.percentage / 100, `${v.count} (${formatPercent(v.percentage)})`));
+    layout.spacer(4);
+  });
+
+  // Juror questions
+  if (report.jurorQuestions.length > 0) {
+    layout.rule();
+    layout.heading("Juror Questions", 2);
+    layout.text("Questions jurors submitted during the presentation, as forwarded to counsel.", {
+      size: 9,
+      color: COLORS.muted,
+    });
+    report.jurorQuestions.forEach((jq) => layout.text(`${jq.number}. ${jq.text}`, { size: 10, indent: 8, gap: 3 }));
+  }
+
+  // Instant polls
+  if (report.polls.length > 0) {
+    layout.rule();
+    layout.heading("Instant Polls", 2);
+    layout.text("Quick polls launched during the trial. Responses were anonymous.", {
+      size: 9,
+      color: COLORS.muted,
+    });
+    report.polls.forEach((poll) => {
+      layout.text(`${poll.number}. ${poll.question} (${poll.totalResponses} responses)`, { size: 11, bold: true, gap: 2 });
+      poll.results.forEach((r) => layout.bar(r.option, r.percentage / 100, `${r.count} (${formatPercent(r.percentage)})`));
+      layout.spacer(4);
+    });
+  }
+
+  layout.footer(`QuickVerdicts verdict report - generated ${formatDate(report.generatedAt)}`);
+  doc.end();
+
+  return done;
+}
+
+// ============================================
+// EXPORTS
+// ============================================
+
+module.exports = {
+  REPORT_FORMATS,
+  buildVerdictReport,
+  toCsv,
+  toPdf,
+};
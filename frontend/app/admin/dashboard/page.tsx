@@ -6,11 +6,12 @@ import {
   Users, UserCheck, Calendar, FileText, CheckCircle2, Clock, Building2,
   XCircle, Video, UserIcon, Download, ExternalLink, Bell, Activity,
   Phone, Mail, AlertCircle, TrendingUp, Eye, PlayCircle, PauseCircle,
-  MapPin, Briefcase, Trash2, LogOut
+  MapPin, Briefcase, Trash2, LogOut, Wallet
 } from "lucide-react";
 import { useProtectedRoute } from "@/hooks/useProtectedRoute";
 import { useInactivityLogout } from "@/hooks/useInactivityLogout";
 import ConflictModal from "@/components/modals/ConflictModal";
+import CaseStatusTimeline from "@/components/CaseStatusTimeline";
 import { formatDateString, formatTime, formatDateTime, getDayOfWeek } from "@/lib/dateUtils";
 import { getToken, getUser, isAdmin, clearAuth } from "@/lib/apiClient";
 import { ChevronLeft, ChevronRight } from "lucide-react";
@@ -2508,6 +2509,28 @@ export default function AdminDashboard() {
           )}
         </div>
 
+        {/* Juror Payouts */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <div className="p-3 bg-gradient-to-r from-green-600 to-emerald-600 rounded-lg mr-3">
+                <Wallet className="h-7 w-7 text-white" />
+              </div>
+              <div>
+                <h3 className="text-2xl font-bold text-gray-900">Juror Payouts</h3>
+                <p className="text-gray-700 text-sm font-medium">Payouts created at verdict submission, awaiting approval and batch export</p>
+              </div>
+            </div>
+            <button
+              onClick={() => router.push('/admin/payouts')}
+              className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 text-white font-bold py-3 px-6 rounded-lg shadow-lg hover:shadow-xl transition-all flex items-center gap-2 cursor-pointer"
+            >
+              <Wallet className="h-5 w-5" />
+              Review Payouts
+            </button>
+          </div>
+        </div>
+
         {/* Attorneys Table */}
         <div ref={attorneySectionRef} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
           <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-blue-50 to-blue-100">
@@ -3668,6 +3691,14 @@ export default function AdminDashboard() {
                 </div>
               </div>
 
+              <div className="rounded-lg p-4 border border-gray-200">
+                <div className="flex items-center mb-3">
+                  <Clock className="h-5 w-5 mr-2 text-blue-600" />
+                  <h3 className="font-semibold text-gray-900">Status History</h3>
+                </div>
+                <CaseStatusTimeline caseId={selectedCase.CaseId} />
+              </div>
+
               {/* Join Trial Button - Admin Exclusive */}
               {(selectedCase.AttorneyStatus === 'join_trial' || selectedCase.AttorneyStatus === 'view_details') && (isTrialDay(selectedCase.ScheduledDate) || isCaseDayOver(selectedCase.ScheduledDate)) && (
                 <div className="bg-gradient-to-r from-indigo-600 to-purple-600 rounded-xl p-6 shadow-lg">
@@ -0,0 +1,559 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import toast from "react-hot-toast";
+import {
+  ArrowLeftIcon,
+  ArrowDownTrayIcon,
+  BanknotesIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import { useProtectedRoute } from "@/hooks/useProtectedRoute";
+import { formatDateShort } from "@/lib/dateUtils";
+
+const BLUE = "#0A2342";
+const BG = "#FAF9F6";
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, "")
+  : "http://localhost:4000";
+
+type PayoutStatus = "pending" | "held" | "approved" | "paid" | "rejected";
+
+type Payout = {
+  PayoutId: number;
+  CaseId: number;
+  JurorId: number;
+  Amount: number;
+  PayoutMethod: string | null;
+  Status: PayoutStatus;
+  HoldReason: string | null;
+  ReviewNotes: string | null;
+  ExportedAt: string | null;
+  PaidAt: string | null;
+  CreatedAt: string;
+  CaseTitle: string;
+  JurorName: string;
+  JurorEmail: string;
+  ResultsPublished: number;
+  DebriefRequired: number;
+  DebriefCompleted: number;
+};
+
+type QueueSummary = Record<PayoutStatus, { count: number; totalAmount: number }>;
+
+const STATUS_TABS: { value: PayoutStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "held", label: "On Hold" },
+  { value: "approved", label: "Approved" },
+  { value: "paid", label: "Paid" },
+  { value: "rejected", label: "Rejected" },
+];
+
+const STATUS_STYLES: Record<PayoutStatus, string> = {
+  pending: "bg-blue-100 text-blue-800",
+  held: "bg-amber-100 text-amber-800",
+  approved: "bg-green-100 text-green-800",
+  paid: "bg-gray-100 text-gray-700",
+  rejected: "bg-red-100 text-red-800",
+};
+
+const METHOD_LABELS: Record<string, string> = {
+  venmo: "Venmo",
+  paypal: "PayPal",
+  cashapp: "Cash App",
+  zelle: "Zelle",
+  personalcheck: "Personal Check",
+};
+
+function getToken(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return localStorage.getItem("token");
+  } catch (error) {
+    console.error("Error reading token from localStorage:", error);
+    return null;
+  }
+}
+
+const formatAmount = (amount: number) => `$${Number(amount).toFixed(2)}`;
+
+export default function AdminPayoutsPage() {
+  useProtectedRoute({ requiredUserType: 'admin' });
+
+  const router = useRouter();
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [summary, setSummary] = useState<QueueSummary | null>(null);
+  const [methods, setMethods] = useState<string[]>([]);
+  const [status, setStatus] = useState<PayoutStatus>("pending");
+  const [method, setMethod] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [rejectTarget, setRejectTarget] = useState<Payout | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const fetchPayouts = useCallback(async () => {
+    try {
+      const token = getToken();
+      if (!token) {
+        router.push("/admin/login");
+        return;
+      }
+
+      const params = new URLSearchParams({ status });
+      if (method) params.set("method", method);
+
+      const response = await fetch(`${API_BASE}/api/admin/payouts?${params}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setPayouts(data.payouts || []);
+        setSummary(data.summary || null);
+        setMethods(data.methods || []);
+      } else if (response.status === 401 || response.status === 403) {
+        router.push("/admin/login");
+      }
+    } catch (error) {
+      console.error("Error fetching payouts:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [router, status, method]);
+
+  useEffect(() => {
+    setSelectedIds([]);
+    fetchPayouts();
+  }, [fetchPayouts]);
+
+  const handleApprove = async (payout: Payout) => {
+    setActionLoading(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/admin/payouts/${payout.PayoutId}/approve`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (response.ok) {
+        toast.success(`Payout for ${payout.JurorName} approved`);
+        fetchPayouts();
+      } else {
+        const error = await response.json();
+        toast.error(`Failed to approve payout: ${error.message}`);
+      }
+    } catch (error) {
+      console.error("Error approving payout:", error);
+      toast.error("Failed to approve payout");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectTarget) return;
+
+    if (!rejectReason.trim()) {
+      toast.error("Please provide a reason for rejection");
+      return;
+    }
+
+    setActionLoading(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/admin/payouts/${rejectTarget.PayoutId}/reject`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ notes: rejectReason }),
+      });
+
+      if (response.ok) {
+        toast.success("Payout rejected");
+        setRejectTarget(null);
+        setRejectReason("");
+        fetchPayouts();
+      } else {
+        const error = await response.json();
+        toast.error(`Failed to reject payout: ${error.message}`);
+      }
+    } catch (error) {
+      console.error("Error rejecting payout:", error);
+      toast.error("Failed to reject payout");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleExport = async (exportMethod: string) => {
+    try {
+      const response = await fetch(`${API_BASE}/api/admin/payouts/export?method=${exportMethod}`, {
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        toast.error(error?.message || "Failed to export payouts");
+        return;
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `juror-payouts-${exportMethod}-${new Date().toISOString().slice(0, 10)}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+      fetchPayouts();
+    } catch (error) {
+      console.error("Error exporting payouts:", error);
+      toast.error("Failed to export payouts");
+    }
+  };
+
+  const handleMarkPaid = async () => {
+    if (selectedIds.length === 0) return;
+
+    setActionLoading(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/admin/payouts/mark-paid`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ payoutIds: selectedIds }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        toast.success(data.message);
+        if (data.skipped?.length) {
+          toast.error(`${data.skipped.length} payout(s) were no longer approved and were skipped`);
+        }
+        setSelectedIds([]);
+        fetchPayouts();
+      } else {
+        toast.error(`Failed to mark payouts as paid: ${data.message}`);
+      }
+    } catch (error) {
+      console.error("Error marking payouts paid:", error);
+      toast.error("Failed to mark payouts as paid");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const toggleSelected = (payoutId: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(payoutId) ? prev.filter((id) => id !== payoutId) : [...prev, payoutId]
+    );
+  };
+
+  const canReview = status === "pending" || status === "held";
+  const canMarkPaid = status === "approved";
+  const allSelected = payouts.length > 0 && selectedIds.length === payouts.length;
+
+  if (loading) {
+    return (
+      <main className="min-h-screen w-full flex items-center justify-center" style={{ backgroundColor: BG }}>
+        <div className="flex flex-col items-center space-y-4">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2" style={{ borderColor: BLUE }}></div>
+          <p className="text-lg font-medium" style={{ color: BLUE }}>
+            Loading payouts...
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen w-full" style={{ backgroundColor: BG }}>
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <button
+                onClick={() => router.push("/admin/dashboard")}
+                className="flex items-center gap-2 text-[#0A2342] hover:text-[#16305B] transition-colors font-medium text-sm group mb-2"
+              >
+                <ArrowLeftIcon className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
+                <span>Back to Dashboard</span>
+              </button>
+              <h1 className="text-3xl font-bold" style={{ color: BLUE }}>
+                Juror Payouts
+              </h1>
+              <p className="text-gray-600 mt-1">
+                Approve payouts created at verdict submission and export them in batches per payout method
+              </p>
+            </div>
+            {summary && (
+              <div className="bg-blue-100 px-4 py-2 rounded-lg text-right">
+                <p className="text-sm font-semibold text-blue-800">
+                  {summary.pending.count + summary.held.count} Awaiting Review
+                </p>
+                <p className="text-xs text-blue-700">
+                  {formatAmount(summary.approved.totalAmount)} approved, not yet paid
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-8 py-8 space-y-6">
+        {/* Filters */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex flex-wrap gap-2">
+            {STATUS_TABS.map((tab) => (
+              <button
+                key={tab.value}
+                onClick={() => setStatus(tab.value)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  status === tab.value
+                    ? "bg-[#0A2342] text-white"
+                    : "bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
+                }`}
+              >
+                {tab.label}
+                {summary && <span className="ml-2 opacity-75">({summary[tab.value].count})</span>}
+              </button>
+            ))}
+          </div>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-[#0A2342]"
+          >
+            <option value="">All payout methods</option>
+            {methods.map((m) => (
+              <option key={m} value={m}>
+                {METHOD_LABELS[m] || m}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Batch export */}
+        {canMarkPaid && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-5">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <h2 className="font-semibold text-gray-900">Batch Export</h2>
+                <p className="text-sm text-gray-600">
+                  Download approved payouts for one method, send them, then mark them as paid below.
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {methods.map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => handleExport(m)}
+                    className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4" />
+                    {METHOD_LABELS[m] || m}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {payouts.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm p-12 text-center border border-gray-200">
+            <CheckCircleIcon className="h-16 w-16 text-green-500 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">No Payouts</h2>
+            <p className="text-gray-600">There are no {STATUS_TABS.find((t) => t.value === status)?.label.toLowerCase()} payouts.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            {canMarkPaid && (
+              <div className="flex items-center justify-between px-6 py-3 border-b border-gray-200 bg-gray-50">
+                <p className="text-sm text-gray-600">{selectedIds.length} selected</p>
+                <button
+                  onClick={handleMarkPaid}
+                  disabled={actionLoading || selectedIds.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <BanknotesIcon className="h-4 w-4" />
+                  Mark as Paid
+                </button>
+              </div>
+            )}
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  {canMarkPaid && (
+                    <th className="px-6 py-3 w-10">
+                      <input
+                        type="checkbox"
+                        checked={allSelected}
+                        onChange={() => setSelectedIds(allSelected ? [] : payouts.map((p) => p.PayoutId))}
+                      />
+                    </th>
+                  )}
+                  <th className="px-6 py-3 font-semibold">Juror</th>
+                  <th className="px-6 py-3 font-semibold">Case</th>
+                  <th className="px-6 py-3 font-semibold">Method</th>
+                  <th className="px-6 py-3 font-semibold">Amount</th>
+                  <th className="px-6 py-3 font-semibold">Status</th>
+                  <th className="px-6 py-3 font-semibold">Created</th>
+                  {canReview && <th className="px-6 py-3 font-semibold text-right">Actions</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {payouts.map((payout) => (
+                  <tr key={payout.PayoutId} className="align-top">
+                    {canMarkPaid && (
+                      <td className="px-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(payout.PayoutId)}
+                          onChange={() => toggleSelected(payout.PayoutId)}
+                        />
+                      </td>
+                    )}
+                    <td className="px-6 py-4">
+                      <p className="font-medium text-gray-900">{payout.JurorName}</p>
+                      <p className="text-gray-500">{payout.JurorEmail}</p>
+                    </td>
+                    <td className="px-6 py-4 text-gray-700">{payout.CaseTitle}</td>
+                    <td className="px-6 py-4 text-gray-700">
+                      {payout.PayoutMethod ? METHOD_LABELS[payout.PayoutMethod] || payout.PayoutMethod : "Not set"}
+                    </td>
+                    <td className="px-6 py-4 font-semibold text-gray-900">{formatAmount(payout.Amount)}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[payout.Status]}`}>
+                        {STATUS_TABS.find((t) => t.value === payout.Status)?.label}
+                      </span>
+                      {payout.HoldReason && payout.Status === "held" && (
+                        <p className="mt-2 flex items-start gap-1 text-xs text-amber-700">
+                          <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0" />
+                          {payout.HoldReason}
+                        </p>
+                      )}
+                      {canReview && !payout.ResultsPublished && (
+                        <p className="mt-2 text-xs text-blue-700">Waiting for results to be published</p>
+                      )}
+                      {canReview && !!payout.ResultsPublished && !payout.DebriefCompleted && (
+                        <p className="mt-2 text-xs text-blue-700">Waiting for the juror&apos;s debrief survey</p>
+                      )}
+                      {payout.ReviewNotes && payout.Status === "rejected" && (
+                        <p className="mt-2 text-xs text-red-700">{payout.ReviewNotes}</p>
+                      )}
+                      {payout.ExportedAt && payout.Status === "approved" && (
+                        <p className="mt-2 text-xs text-gray-500">Exported {formatDateShort(payout.ExportedAt)}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-gray-600">{formatDateShort(payout.CreatedAt)}</td>
+                    {canReview && (
+                      <td className="px-6 py-4">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => handleApprove(payout)}
+                            disabled={actionLoading || !payout.ResultsPublished || !payout.DebriefCompleted}
+                            className="flex items-center gap-1 px-3 py-2 bg-green-600 text-white rounded-lg text-xs font-medium hover:bg-green-700 transition-colors disabled:opacity-50"
+                          >
+                            <CheckCircleIcon className="h-4 w-4" />
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => setRejectTarget(payout)}
+                            disabled={actionLoading}
+                            className="flex items-center gap-1 px-3 py-2 bg-red-600 text-white rounded-lg text-xs font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+                          >
+                            <XMarkIcon className="h-4 w-4" />
+                            Reject
+                          </button>
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Reject Modal */}
+      {rejectTarget && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full">
+            <div className="bg-red-600 text-white p-5 rounded-t-xl">
+              <h3 className="text-xl font-bold">Reject Payout</h3>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-800">
+                  {rejectTarget.JurorName} will not be paid {formatAmount(rejectTarget.Amount)} for
+                  &quot;{rejectTarget.CaseTitle}&quot; and will receive a notification with your reason.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Rejection Reason <span className="text-red-500">*</span>
+                </label>
+                <textarea
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder="Explain why this payout cannot be approved..."
+                  rows={4}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 text-sm"
+                  disabled={actionLoading}
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  onClick={handleReject}
+                  disabled={actionLoading || !rejectReason.trim()}
+                  className="flex-1 px-6 py-3 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {actionLoading ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-2 border-white/30 border-t-white"></div>
+                      <span>Rejecting...</span>
+                    </>
+                  ) : (
+                    <>
+                      <XMarkIcon className="h-5 w-5" />
+                      <span>Confirm Rejection</span>
+                    </>
+                  )}
+                </button>
+                <button
+                  onClick={() => {
+                    setRejectTarget(null);
+                    setRejectReason("");
+                  }}
+                  disabled={actionLoading}
+                  className="px-6 py-3 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
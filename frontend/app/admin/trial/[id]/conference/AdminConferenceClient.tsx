@@ -13,6 +13,18 @@ import { ChatClient } from "@azure/communication-chat";
 import RecordRTC, { RecordRTCPromisesHandler } from "recordrtc";
 import { getToken } from "@/lib/apiClient";
 import { useWebSocket } from "@/hooks/useWebSocket";
+import TrialPhaseClock from "@/components/trial/TrialPhaseClock";
+import VerdictModeSettings from "@/components/trial/VerdictModeSettings";
+import JurorAttendancePanel from "@/components/trial/JurorAttendancePanel";
+import JurorQuestionsPanel from "@/components/trial/JurorQuestionsPanel";
+import TrialPollsPanel from "@/components/trial/TrialPollsPanel";
+import DeliberationControls from "@/components/trial/DeliberationControls";
+import TrialSessionBadge, { JoinedTrialSession } from "@/components/trial/TrialSessionBadge";
+import ExhibitStage from "@/components/trial/ExhibitStage";
+import { getDeliberationJoinUrl, isDeliberationRoomView } from "@/hooks/useDeliberationRoom";
+import { useExhibitPresentation } from "@/hooks/useExhibitPresentation";
+import { useJurorQuestions } from "@/hooks/useJurorQuestions";
+import { useTrialPolls } from "@/hooks/useTrialPolls";
 import {
   Video,
   VideoOff,
@@ -30,7 +42,10 @@ import {
   Pin,
   Volume2,
   UserX,
+  UserCheck,
   FileText,
+  HelpCircle,
+  BarChart3,
 } from "lucide-react";
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL
@@ -41,6 +56,8 @@ export default function AdminConferenceClient() {
   const { id } = useParams();
   const router = useRouter();
   const caseId = typeof id === "string" ? id : Array.isArray(id) ? id[0] : "";
+  // Opened with ?room=deliberation to join the private juror room instead of the courtroom
+  const [inDeliberationRoom] = useState(isDeliberationRoomView);
 
   // Call states
   const [call, setCall] = useState<any>(null);
@@ -56,6 +73,7 @@ export default function AdminConferenceClient() {
   const [isVideoOff, setIsVideoOff] = useState(false);
   const [isScreenSharing, setIsScreenSharing] = useState(false);
   const [displayName, setDisplayName] = useState("Admin");
+  const [trialSession, setTrialSession] = useState<JoinedTrialSession | null>(null);
   const [renderTrigger, setRenderTrigger] = useState(0);
 
   // Track video, speaking, and mute states
@@ -102,6 +120,9 @@ export default function AdminConferenceClient() {
 
   // Documents states
   const [showDocumentsPanel, setShowDocumentsPanel] = useState(false);
+  const [showAttendancePanel, setShowAttendancePanel] = useState(false);
+  const [showQuestionsPanel, setShowQuestionsPanel] = useState(false);
+  const [showPollsPanel, setShowPollsPanel] = useState(false);
   const [documents, setDocuments] = useState<any[]>([]);
   const [loadingDocuments, setLoadingDocuments] = useState(false);
 
@@ -128,6 +149,21 @@ export default function AdminConferenceClient() {
   // WebSocket for real-time jury charge updates
   const { on, off, joinRoom, leaveRoom, isConnected } = useWebSocket();
 
+  // Exhibit the attorney is presenting (admins can revoke it)
+  const exhibitPresentation = useExhibitPresentation(caseId);
+
+  // Juror question moderation queue
+  const jurorQuestions = useJurorQuestions(caseId, "admin", (question) => {
+    if (!showQuestionsPanel) {
+      toast(`New juror question from ${question.jurorName || "a juror"}`, { icon: "❓" });
+    }
+  });
+  const pendingQuestionCount = jurorQuestions.questions.filter((q) => q.status === "pending").length;
+
+  // Instant polls launched to jurors mid-trial
+  const trialPolls = useTrialPolls(caseId, "admin");
+  const openPollCount = trialPolls.polls.filter((p) => p.status === "open").length;
+
 
   useEffect(() => {
     if (!isConnected || !caseId) return;
@@ -697,7 +733,10 @@ async function renderFeaturedVideo() {
         return;
       }
 
-      const response = await fetch(`${API_BASE}/api/trial/admin-join/${caseId}`, {
+      const joinUrl = inDeliberationRoom
+        ? getDeliberationJoinUrl(caseId)
+        : `${API_BASE}/api/trial/admin-join/${caseId}`;
+      const response = await fetch(joinUrl, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${token}`,
@@ -718,6 +757,7 @@ async function renderFeaturedVideo() {
       const data = await response.json();
       console.log("[ADMIN INIT] admin-join succeeded, roomId =", data.roomId, "userId =", data.userId);
       setDisplayName(data.displayName || "Admin");
+      if (data.session) setTrialSession(data.session);
       console.log("[ADMIN INIT] chatThreadId =", data.chatThreadId, "endpointUrl =", !!data.endpointUrl);
 
       // Initialize chat
@@ -1191,6 +1231,9 @@ async function renderFeaturedVideo() {
     if (!showJuryChargePanel) {
       loadJuryCharge();
       setShowDocumentsPanel(false); // Close documents panel when opening jury charge
+      setShowAttendancePanel(false);
+      setShowQuestionsPanel(false);
+      setShowPollsPanel(false);
     }
     setShowJuryChargePanel(!showJuryChargePanel);
   };
@@ -1407,10 +1450,43 @@ async function renderFeaturedVideo() {
     if (!showDocumentsPanel) {
       loadDocuments();
       setShowJuryChargePanel(false); // Close jury charge panel when opening documents
+      setShowAttendancePanel(false);
+      setShowQuestionsPanel(false);
+      setShowPollsPanel(false);
     }
     setShowDocumentsPanel(!showDocumentsPanel);
   };
 
+  const toggleAttendancePanel = () => {
+    if (!showAttendancePanel) {
+      setShowJuryChargePanel(false);
+      setShowDocumentsPanel(false);
+      setShowQuestionsPanel(false);
+      setShowPollsPanel(false);
+    }
+    setShowAttendancePanel(!showAttendancePanel);
+  };
+
+  const toggleQuestionsPanel = () => {
+    if (!showQuestionsPanel) {
+      setShowJuryChargePanel(false);
+      setShowDocumentsPanel(false);
+      setShowAttendancePanel(false);
+      setShowPollsPanel(false);
+    }
+    setShowQuestionsPanel(!showQuestionsPanel);
+  };
+
+  const togglePollsPanel = () => {
+    if (!showPollsPanel) {
+      setShowJuryChargePanel(false);
+      setShowDocumentsPanel(false);
+      setShowAttendancePanel(false);
+      setShowQuestionsPanel(false);
+    }
+    setShowPollsPanel(!showPollsPanel);
+  };
+
   const toggleMute = async () => {
     const currentCall = callRef.current;
     if (!currentCall) {
@@ -1906,7 +1982,7 @@ async function renderFeaturedVideo() {
       <div className="flex-1 flex overflow-hidden relative">
         {/* Main Content Area - More space for video when panels open */}
         <div className={`flex flex-col transition-all duration-300 ${
-          showChatPanel || showJuryChargePanel || showDocumentsPanel ? 'w-4/5' : 'w-4/5 mx-auto'
+          showChatPanel || showJuryChargePanel || showDocumentsPanel || showAttendancePanel || showQuestionsPanel || showPollsPanel ? 'w-4/5' : 'w-4/5 mx-auto'
         }`}>
           {/* Header */}
           <div className="px-6 py-3 flex items-center justify-between shadow-lg" style={{ backgroundColor: "#16305B" }}>
@@ -1914,7 +1990,10 @@ async function renderFeaturedVideo() {
               <div className="w-3 h-3 bg-green-400 rounded-full animate-pulse"></div>
               <span className="text-white font-semibold">Admin Monitoring Mode</span>
               <span className="text-white/80 text-sm">• Case #{caseId}</span>
+              <TrialSessionBadge session={trialSession} />
             </div>
+            <TrialPhaseClock caseId={caseId} isAdmin />
+            <DeliberationControls caseId={caseId} role="admin" inDeliberationRoom={inDeliberationRoom} />
             {isRecording && (
               <div className="flex items-center gap-2 bg-red-500/20 px-4 py-2 rounded-lg">
                 <Circle className="w-3 h-3 fill-red-500 text-red-500 animate-pulse" />
@@ -1960,6 +2039,7 @@ async function renderFeaturedVideo() {
               </div>
             </div>
           )}
+          <ExhibitStage role="admin" presentation={exhibitPresentation} />
         </div>
 
         {/* Vertical Participants Sidebar (Right) */}
@@ -2224,6 +2304,43 @@ async function renderFeaturedVideo() {
               </span>
             </button>
 
+            <button onClick={toggleAttendancePanel} className="flex flex-col items-center gap-1 hover:scale-110 transition-transform group relative" title="Juror Attendance">
+              <div className="w-12 h-12 rounded-xl flex items-center justify-center" style={{ backgroundColor: showAttendancePanel ? "#5B9BD5" : "#FDB71A" }}>
+                <UserCheck className="w-6 h-6 text-white" />
+              </div>
+              <span className="absolute -bottom-8 left-1/2 transform -translate-x-1/2 bg-gray-900 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-50">
+                Attendance
+              </span>
+            </button>
+
+            <button onClick={toggleQuestionsPanel} className="relative flex flex-col items-center gap-1 hover:scale-110 transition-transform group" title="Juror Questions">
+              <div className="w-12 h-12 rounded-xl flex items-center justify-center" style={{ backgroundColor: showQuestionsPanel ? "#5B9BD5" : "#FDB71A" }}>
+                <HelpCircle className="w-6 h-6 text-white" />
+              </div>
+              {pendingQuestionCount > 0 && (
+                <div className="absolute -top-1 -right-1 bg-red-500 text-white text-xs w-5 h-5 rounded-full flex items-center justify-center font-bold">
+                  {pendingQuestionCount}
+                </div>
+              )}
+              <span className="absolute -bottom-8 left-1/2 transform -translate-x-1/2 bg-gray-900 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-50">
+                Questions
+              </span>
+            </button>
+
+            <button onClick={togglePollsPanel} className="relative flex flex-col items-center gap-1 hover:scale-110 transition-transform group" title="Instant Polls">
+              <div className="w-12 h-12 rounded-xl flex items-center justify-center" style={{ backgroundColor: showPollsPanel ? "#5B9BD5" : "#FDB71A" }}>
+                <BarChart3 className="w-6 h-6 text-white" />
+              </div>
+              {openPollCount > 0 && (
+                <div className="absolute -top-1 -right-1 bg-red-500 text-white text-xs w-5 h-5 rounded-full flex items-center justify-center font-bold">
+                  {openPollCount}
+                </div>
+              )}
+              <span className="absolute -bottom-8 left-1/2 transform -translate-x-1/2 bg-gray-900 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-50">
+                Polls
+              </span>
+            </button>
+
             <button onClick={downloadVerdicts} className="flex flex-col items-center gap-1 hover:scale-110 transition-transform group relative" title="Download Verdicts">
               <div className="w-12 h-12 rounded-xl flex items-center justify-center" style={{ backgroundColor: "#5B9BD5" }}>
                 <Download className="w-6 h-6 text-white" />
@@ -2395,6 +2512,10 @@ async function renderFeaturedVideo() {
             )}
           </div>
 
+          <div className="px-4 pb-4">
+            <VerdictModeSettings caseId={caseId} />
+          </div>
+
           {!juryChargeLocked && juryChargeQuestions.length > 0 && (
             <div className="p-4 border-t border-purple-700">
               <button
@@ -2465,7 +2586,15 @@ async function renderFeaturedVideo() {
                       )}
                       <p className="text-xs mt-1" style={{ color: "#455A7C" }}>
                         Uploaded: {new Date(doc.UploadedAt).toLocaleDateString()}
+                        {doc.CurrentVersion > 1 && ` · Version ${doc.CurrentVersion}`}
                       </p>
+                      {doc.PresentedVersion && (
+                        <p className="text-xs mt-1 font-semibold" style={{ color: "#16305B" }}>
+                          Shown during trial: v{doc.PresentedVersion}
+                          {doc.PresentedAt && ` (${new Date(doc.PresentedAt).toLocaleString()})`}
+                          {doc.PresentedVersion !== doc.CurrentVersion && " · since revised"}
+                        </p>
+                      )}
                       <a
                         href={doc.FileUrl}
                         target="_blank"
@@ -2488,6 +2617,19 @@ async function renderFeaturedVideo() {
         </div>
       )}
 
+      {/* Attendance Panel */}
+      {showAttendancePanel && (
+        <JurorAttendancePanel caseId={caseId} onClose={toggleAttendancePanel} />
+      )}
+
+      {/* Juror Questions Panel */}
+      {showQuestionsPanel && (
+        <JurorQuestionsPanel role="admin" questions={jurorQuestions} onClose={toggleQuestionsPanel} />
+      )}
+
+      {/* Instant Polls Panel */}
+      {showPollsPanel && <TrialPollsPanel role="admin" polls={trialPolls} onClose={togglePollsPanel} />}
+
       {/* Chat Notification */}
       {showChatNotification && latestMessage && !showChatPanel && (
         <div
@@ -12,6 +12,16 @@ import { ChatClient } from "@azure/communication-chat";
 import { getToken } from "@/lib/apiClient";
 import toast from "react-hot-toast";
 import { useWebSocket } from "@/hooks/useWebSocket";
+import TrialPhaseClock from "@/components/trial/TrialPhaseClock";
+import DeliberationControls from "@/components/trial/DeliberationControls";
+import TrialSessionBadge, { JoinedTrialSession } from "@/components/trial/TrialSessionBadge";
+import ExhibitStage from "@/components/trial/ExhibitStage";
+import JurorQuestionsPanel from "@/components/trial/JurorQuestionsPanel";
+import TrialPollsPanel from "@/components/trial/TrialPollsPanel";
+import { getDeliberationJoinUrl, isDeliberationRoomView } from "@/hooks/useDeliberationRoom";
+import { useExhibitPresentation } from "@/hooks/useExhibitPresentation";
+import { useJurorQuestions } from "@/hooks/useJurorQuestions";
+import { useTrialPolls } from "@/hooks/useTrialPolls";
 import {
   Video,
   VideoOff,
@@ -26,16 +36,26 @@ import {
   Pin,
   Volume2,
   FileText,
+  HelpCircle,
+  Presentation,
+  BarChart3,
 } from "lucide-react";
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL
   ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, "")
   : "http://localhost:4000";
 
-export default function TrialConferenceClient() {
+interface TrialConferenceClientProps {
+  /** Where to send the user after leaving the trial */
+  exitPath?: string;
+}
+
+export default function TrialConferenceClient({ exitPath = "/attorney" }: TrialConferenceClientProps) {
   const { id } = useParams();
   const router = useRouter();
   const caseId = typeof id === "string" ? id : Array.isArray(id) ? id[0] : "";
+  // Opened with ?room=deliberation to silently observe the jurors' private room
+  const [inDeliberationRoom] = useState(isDeliberationRoomView);
 
   const { on, off } = useWebSocket();
 
@@ -50,6 +70,7 @@ export default function TrialConferenceClient() {
   const [isVideoOff, setIsVideoOff] = useState(false);
   const [isScreenSharing, setIsScreenSharing] = useState(false);
   const [displayName, setDisplayName] = useState("You");
+  const [trialSession, setTrialSession] = useState<JoinedTrialSession | null>(null);
   const [renderTrigger, setRenderTrigger] = useState(0);
 
   // Track video, speaking, and mute states
@@ -89,6 +110,30 @@ export default function TrialConferenceClient() {
     IsRequired: true,
   });
 
+  // Exhibit presented to the jury from the case files
+  const exhibitPresentation = useExhibitPresentation(caseId, () => {
+    toast("The moderator has taken down your exhibit", { icon: "⚠️" });
+  });
+
+  // Juror questions forwarded by the moderator
+  const [showQuestionsPanel, setShowQuestionsPanel] = useState(false);
+  const [unseenQuestionCount, setUnseenQuestionCount] = useState(0);
+  const jurorQuestions = useJurorQuestions(caseId, "attorney", (question) => {
+    if (!showQuestionsPanel) {
+      setUnseenQuestionCount((count) => count + 1);
+      toast(`Juror question: ${question.text}`, { icon: "❓", duration: 6000 });
+    }
+  });
+
+  // Instant polls launched by the moderator, with live results
+  const [showPollsPanel, setShowPollsPanel] = useState(false);
+  const trialPolls = useTrialPolls(caseId, "attorney", (poll) => {
+    if (!showPollsPanel) {
+      toast(`Poll sent to jurors: ${poll.question}`, { icon: "📊" });
+    }
+  });
+  const openPollCount = trialPolls.polls.filter((p) => p.status === "open").length;
+
   // Case Files states
   const [showCaseFilesPanel, setShowCaseFilesPanel] = useState(false);
   const [caseFiles, setCaseFiles] = useState<any[]>([]);
@@ -538,7 +583,10 @@ export default function TrialConferenceClient() {
         return;
       }
 
-      const response = await fetch(`${API_BASE}/api/trial/join/${caseId}`, {
+      const joinUrl = inDeliberationRoom
+        ? getDeliberationJoinUrl(caseId)
+        : `${API_BASE}/api/trial/join/${caseId}`;
+      const response = await fetch(joinUrl, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${token}`,
@@ -559,6 +607,7 @@ export default function TrialConferenceClient() {
       const data = await response.json();
       console.log("[ATTORNEY INIT] trial-join succeeded, roomId =", data.roomId);
       setDisplayName(data.displayName);
+      if (data.session) setTrialSession(data.session);
       console.log("[ATTORNEY INIT] chatThreadId =", data.chatThreadId, "endpointUrl =", !!data.endpointUrl);
 
       if (data.chatThreadId && data.endpointUrl) {
@@ -595,13 +644,16 @@ export default function TrialConferenceClient() {
 
       callAgentRef.current = agent;
 
+      // Observers join the deliberation room as a Consumer and cannot send audio or video
       const roomCall = agent.join(
         { roomId: data.roomId },
-        {
-          videoOptions: localVideoStream.current
-            ? { localVideoStreams: [localVideoStream.current] }
-            : undefined,
-        }
+        data.observer
+          ? { audioOptions: { muted: true } }
+          : {
+              videoOptions: localVideoStream.current
+                ? { localVideoStreams: [localVideoStream.current] }
+                : undefined,
+            }
       );
 
       setCall(roomCall);
@@ -972,6 +1024,8 @@ roomCall.remoteParticipants.forEach((p: any) => {
     setShowChatPanel(!showChatPanel);
     if (!showChatPanel) {
       setShowCaseFilesPanel(false);
+      setShowQuestionsPanel(false);
+      setShowPollsPanel(false);
       setUnreadCount(0);
       setShowChatNotification(false);
     }
@@ -1000,6 +1054,8 @@ roomCall.remoteParticipants.forEach((p: any) => {
     if (!showJuryChargePanel) {
       loadJuryCharge();
       setShowCaseFilesPanel(false);
+      setShowQuestionsPanel(false);
+      setShowPollsPanel(false);
     }
     setShowJuryChargePanel(!showJuryChargePanel);
   };
@@ -1027,10 +1083,43 @@ roomCall.remoteParticipants.forEach((p: any) => {
       loadCaseFiles();
       setShowChatPanel(false);
       setShowJuryChargePanel(false);
+      setShowQuestionsPanel(false);
+      setShowPollsPanel(false);
     }
     setShowCaseFilesPanel(!showCaseFilesPanel);
   };
 
+  const presentExhibit = async (documentId: number) => {
+    try {
+      await exhibitPresentation.control("present", { documentId });
+      setShowCaseFilesPanel(false);
+      toast.success("Exhibit is now on every juror's screen");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to present exhibit");
+    }
+  };
+
+  const toggleQuestionsPanel = () => {
+    if (!showQuestionsPanel) {
+      setShowChatPanel(false);
+      setShowJuryChargePanel(false);
+      setShowCaseFilesPanel(false);
+      setShowPollsPanel(false);
+      setUnseenQuestionCount(0);
+    }
+    setShowQuestionsPanel(!showQuestionsPanel);
+  };
+
+  const togglePollsPanel = () => {
+    if (!showPollsPanel) {
+      setShowChatPanel(false);
+      setShowJuryChargePanel(false);
+      setShowCaseFilesPanel(false);
+      setShowQuestionsPanel(false);
+    }
+    setShowPollsPanel(!showPollsPanel);
+  };
+
   const startEditingQuestion = (question: any) => {
     setEditingQuestionId(question.QuestionId);
     setEditFormData({
@@ -1243,7 +1332,7 @@ roomCall.remoteParticipants.forEach((p: any) => {
       localVideoStream.current = null;
       if (chatClient) await chatClient.stopRealtimeNotifications();
       toast.success("You have left the trial successfully", { duration: 3000 });
-      router.push("/attorney");
+      router.push(exitPath);
     } catch (error) {
       console.log("Leave call completed with cleanup:", error);
       if (callAgentRef.current) {
@@ -1251,7 +1340,7 @@ roomCall.remoteParticipants.forEach((p: any) => {
         callAgentRef.current = null;
       }
       localVideoStream.current = null;
-      router.push("/attorney");
+      router.push(exitPath);
     }
   };
 
@@ -1319,7 +1408,7 @@ roomCall.remoteParticipants.forEach((p: any) => {
             <h2 className="text-2xl font-bold text-gray-900 mb-3">Failed to Join Trial</h2>
             <p className="text-gray-600 mb-6">{error}</p>
             <button
-              onClick={() => router.push("/attorney")}
+              onClick={() => router.push(exitPath)}
               className="w-full py-3 text-white rounded-xl font-semibold transition hover:opacity-90"
               style={{ backgroundColor: "#0A2342" }}
             >
@@ -1393,7 +1482,7 @@ roomCall.remoteParticipants.forEach((p: any) => {
       <div className="flex-1 flex overflow-hidden relative">
         {/* Main Content Area - More space for video when panels open */}
         <div className={`flex flex-col transition-all duration-300 ${
-          showChatPanel || showJuryChargePanel || showCaseFilesPanel ? 'w-4/5' : 'w-4/5 mx-auto'
+          showChatPanel || showJuryChargePanel || showCaseFilesPanel || showQuestionsPanel || showPollsPanel ? 'w-4/5' : 'w-4/5 mx-auto'
         }`}>
           {/* Header */}
           <div className="px-6 py-3 flex items-center justify-between shadow-lg" style={{ backgroundColor: "#16305B" }}>
@@ -1401,7 +1490,10 @@ roomCall.remoteParticipants.forEach((p: any) => {
               <div className="w-3 h-3 bg-green-400 rounded-full animate-pulse"></div>
               <span className="text-white font-semibold">Trial Conference</span>
               <span className="text-white/80 text-sm">• Case #{caseId}</span>
+              <TrialSessionBadge session={trialSession} />
             </div>
+            <TrialPhaseClock caseId={caseId} />
+            <DeliberationControls caseId={caseId} role="attorney" inDeliberationRoom={inDeliberationRoom} />
           </div>
 
           {/* Middle Section - Featured Video + Vertical Participants Sidebar */}
@@ -1440,6 +1532,7 @@ roomCall.remoteParticipants.forEach((p: any) => {
               </div>
             </div>
           )}
+          <ExhibitStage role="attorney" presentation={exhibitPresentation} />
         </div>
 
         {/* Vertical Participants Sidebar (Right) */}
@@ -1656,6 +1749,34 @@ roomCall.remoteParticipants.forEach((p: any) => {
               </span>
             </button>
 
+            <button onClick={toggleQuestionsPanel} className="relative flex flex-col items-center gap-1 hover:scale-110 transition-transform group" title="Juror Questions">
+              <div className="w-12 h-12 rounded-xl flex items-center justify-center" style={{ backgroundColor: showQuestionsPanel ? "#5B9BD5" : "#FDB71A" }}>
+                <HelpCircle className="w-6 h-6 text-white" />
+              </div>
+              {unseenQuestionCount > 0 && (
+                <div className="absolute -top-1 -right-1 bg-red-500 text-white text-xs w-5 h-5 rounded-full flex items-center justify-center font-bold">
+                  {unseenQuestionCount}
+                </div>
+              )}
+              <span className="absolute -bottom-8 left-1/2 transform -translate-x-1/2 bg-gray-900 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-50">
+                Juror Questions
+              </span>
+            </button>
+
+            <button onClick={togglePollsPanel} className="relative flex flex-col items-center gap-1 hover:scale-110 transition-transform group" title="Instant Polls">
+              <div className="w-12 h-12 rounded-xl flex items-center justify-center" style={{ backgroundColor: showPollsPanel ? "#5B9BD5" : "#FDB71A" }}>
+                <BarChart3 className="w-6 h-6 text-white" />
+              </div>
+              {openPollCount > 0 && (
+                <div className="absolute -top-1 -right-1 bg-red-500 text-white text-xs w-5 h-5 rounded-full flex items-center justify-center font-bold">
+                  {openPollCount}
+                </div>
+              )}
+              <span className="absolute -bottom-8 left-1/2 transform -translate-x-1/2 bg-gray-900 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-50">
+                Poll Results
+              </span>
+            </button>
+
             <button onClick={leaveCall} className="flex flex-col items-center gap-1 hover:scale-110 transition-transform group relative" title="Leave Call">
               <div className="w-12 h-12 rounded-xl bg-red-600 flex items-center justify-center">
                 <Phone className="w-6 h-6 text-white transform rotate-135" />
@@ -2000,6 +2121,14 @@ roomCall.remoteParticipants.forEach((p: any) => {
         </div>
       )}
 
+      {/* Juror Questions Panel */}
+      {showQuestionsPanel && (
+        <JurorQuestionsPanel role="attorney" questions={jurorQuestions} onClose={toggleQuestionsPanel} />
+      )}
+
+      {/* Instant Polls Panel */}
+      {showPollsPanel && <TrialPollsPanel role="attorney" polls={trialPolls} onClose={togglePollsPanel} />}
+
       {/* Case Files Panel */}
       {showCaseFilesPanel && (
         <div className="w-1/5 flex flex-col shadow-2xl" style={{ backgroundColor: "#ffffff", borderLeft: "1px solid #C6CDD9" }}>
@@ -2066,6 +2195,17 @@ roomCall.remoteParticipants.forEach((p: any) => {
                         </svg>
                         View
                       </a>
+                      {(doc.Type === "pdf" || doc.Type === "image") && (
+                        <button
+                          onClick={() => presentExhibit(doc.Id)}
+                          disabled={exhibitPresentation.exhibit?.documentId === doc.Id}
+                          className="inline-flex items-center gap-1 mt-2 ml-2 px-3 py-1 text-white rounded text-xs font-semibold transition disabled:opacity-50"
+                          style={{ backgroundColor: "#5B9BD5" }}
+                        >
+                          <Presentation className="w-4 h-4" />
+                          {exhibitPresentation.exhibit?.documentId === doc.Id ? "Presenting" : "Present"}
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChatBubbleLeftRightIcon } from "@heroicons/react/24/outline";
+import { getToken } from "@/lib/apiClient";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+type RatingSummary = {
+  count: number;
+  average: number | null;
+  distribution: Record<string, number>;
+};
+
+type DebriefFeedbackData = {
+  ratingScale: { MIN: number; MAX: number };
+  responseCount: number;
+  jurorCount: number;
+  witnesses: ({ witnessId: number; name: string; side: string } & RatingSummary)[];
+  questions: ({ id: string; type: "text" | "rating"; prompt: string } & Partial<RatingSummary> & {
+      count: number;
+      answers?: string[];
+    })[];
+};
+
+function RatingBar({ summary, scale }: { summary: RatingSummary; scale: { MIN: number; MAX: number } }) {
+  const width = summary.average === null ? 0 : ((summary.average - scale.MIN) / (scale.MAX - scale.MIN)) * 100;
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex-1 h-3 bg-[#f9f7f2] rounded overflow-hidden border border-[#C6CDD9]/60">
+        <div className="h-full bg-[#16305B]" style={{ width: `${width}%` }} />
+      </div>
+      <span className="w-24 text-right text-sm font-semibold text-[#0A2342]">
+        {summary.average === null ? "—" : `${summary.average} / ${scale.MAX}`}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Anonymous results of the post-trial juror debrief survey
+ */
+export default function DebriefFeedback({ caseId }: { caseId: string }) {
+  const [data, setData] = useState<DebriefFeedbackData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const loadFeedback = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/api/verdicts/debrief/${caseId}/feedback`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to load debrief feedback");
+        }
+        setData(result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load debrief feedback");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadFeedback();
+  }, [caseId]);
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
+      <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
+        <div className="relative flex items-center gap-3">
+          <div className="p-2 bg-white/10 rounded-lg">
+            <ChatBubbleLeftRightIcon className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-white">Juror Debrief Feedback</h2>
+            <p className="text-sm text-white/80 mt-0.5">
+              {data ? `${data.responseCount} of ${data.jurorCount} jurors responded` : "Anonymous post-trial survey responses"}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-5 space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-[#16305B]/30 border-t-[#16305B]"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !data || data.responseCount === 0 ? (
+          <p className="text-sm text-[#455A7C]">No jurors have completed the debrief yet. Check back soon.</p>
+        ) : (
+          <>
+            {data.witnesses.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold text-[#0A2342]">Witness Credibility</h3>
+                {data.witnesses.map((witness) => (
+                  <div key={witness.witnessId} className="grid grid-cols-3 gap-3 items-center">
+                    <div className="text-sm text-[#0A2342]">
+                      {witness.name}
+                      <span className="block text-xs text-[#455A7C]">{witness.side}</span>
+                    </div>
+                    <div className="col-span-2">
+                      <RatingBar summary={witness} scale={data.ratingScale} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {data.questions.map((question) => (
+              <div key={question.id} className="space-y-2">
+                <h3 className="text-sm font-semibold text-[#0A2342]">{question.prompt}</h3>
+                {question.type === "rating" ? (
+                  <RatingBar
+                    summary={{
+                      count: question.count,
+                      average: question.average ?? null,
+                      distribution: question.distribution || {},
+                    }}
+                    scale={data.ratingScale}
+                  />
+                ) : question.answers && question.answers.length > 0 ? (
+                  <ul className="space-y-2">
+                    {question.answers.map((answer, i) => (
+                      <li key={i} className="p-3 rounded-lg bg-[#FAF9F6] border border-[#C6CDD9] text-sm text-[#0A2342] whitespace-pre-wrap">
+                        {answer}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-[#455A7C]">No answers.</p>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
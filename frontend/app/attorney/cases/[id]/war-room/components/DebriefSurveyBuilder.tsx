@@ -0,0 +1,221 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { ChatBubbleLeftRightIcon, LockClosedIcon, PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { getToken } from "@/lib/apiClient";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+const MAX_QUESTIONS = 10;
+const MAX_PROMPT_LENGTH = 300;
+
+export type DebriefQuestion = {
+  id?: string;
+  type: "text" | "rating";
+  prompt: string;
+  required: boolean;
+};
+
+type DebriefSurvey = {
+  includeWitnessRatings: boolean;
+  questions: DebriefQuestion[];
+  witnesses: { witnessId: number; name: string; side: string }[];
+  ratingScale: { MIN: number; MAX: number };
+  sentAt: string | null;
+};
+
+/**
+ * Post-trial debrief survey editor. Jurors receive the survey when results
+ * are published; until then the attorney can change the questions.
+ */
+export default function DebriefSurveyBuilder({ caseId }: { caseId: string }) {
+  const [survey, setSurvey] = useState<DebriefSurvey | null>(null);
+  const [includeWitnessRatings, setIncludeWitnessRatings] = useState(true);
+  const [questions, setQuestions] = useState<DebriefQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const applySurvey = (data: DebriefSurvey) => {
+    setSurvey(data);
+    setIncludeWitnessRatings(data.includeWitnessRatings);
+    setQuestions(data.questions);
+  };
+
+  useEffect(() => {
+    const loadSurvey = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/api/verdicts/debrief/${caseId}`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        });
+        const result = await response.json();
+        if (response.ok && result.success) applySurvey(result.data);
+      } catch (err) {
+        console.error("Error loading debrief survey:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSurvey();
+  }, [caseId]);
+
+  const isSent = !!survey?.sentAt;
+
+  const updateQuestion = (index: number, changes: Partial<DebriefQuestion>) =>
+    setQuestions((prev) => prev.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+
+  const saveSurvey = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/verdicts/debrief/${caseId}`, {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ includeWitnessRatings, questions }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to save debrief survey");
+      }
+      applySurvey(result.data);
+      toast.success("Debrief survey saved");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save debrief survey");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-[#C6CDD9] rounded-lg text-sm text-[#0A2342] focus:outline-none focus:ring-2 focus:ring-[#16305B] disabled:bg-[#f9f7f2]";
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
+      <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
+        <div className="relative flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white/10 rounded-lg">
+              <ChatBubbleLeftRightIcon className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">Juror Debrief Survey</h2>
+              <p className="text-sm text-white/80 mt-0.5">
+                Sent to every juror when results are published. Jurors are paid once they complete it.
+              </p>
+            </div>
+          </div>
+          {isSent && (
+            <span className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold bg-white/10 text-white">
+              <LockClosedIcon className="w-4 h-4" />
+              Sent to jurors
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="p-5 space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-[#16305B]/30 border-t-[#16305B]"></div>
+          </div>
+        ) : !survey ? (
+          <p className="text-sm text-red-600">Failed to load the debrief survey.</p>
+        ) : (
+          <>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeWitnessRatings}
+                onChange={(e) => setIncludeWitnessRatings(e.target.checked)}
+                disabled={isSent}
+                className="mt-1 accent-[#16305B]"
+              />
+              <span>
+                <span className="block text-sm font-semibold text-[#0A2342]">Rate witness credibility</span>
+                <span className="block text-xs text-[#455A7C]">
+                  Jurors rate each witness from {survey.ratingScale.MIN} (not credible) to {survey.ratingScale.MAX} (very credible).{" "}
+                  {survey.witnesses.length > 0
+                    ? `${survey.witnesses.length} witness${survey.witnesses.length === 1 ? "" : "es"}: ${survey.witnesses.map((w) => w.name).join(", ")}`
+                    : "Add witnesses above to include them."}
+                </span>
+              </span>
+            </label>
+
+            <div className="space-y-3">
+              {questions.map((question, index) => (
+                <div key={question.id || `new-${index}`} className="p-3 rounded-lg border border-[#C6CDD9] bg-[#FAF9F6] space-y-2">
+                  <div className="flex items-start gap-2">
+                    <span className="text-sm font-semibold text-[#455A7C] pt-2">{index + 1}.</span>
+                    <input
+                      value={question.prompt}
+                      onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+                      maxLength={MAX_PROMPT_LENGTH}
+                      disabled={isSent}
+                      placeholder="Question for jurors"
+                      className={inputClass}
+                    />
+                    {!isSent && (
+                      <button
+                        onClick={() => setQuestions((prev) => prev.filter((_, i) => i !== index))}
+                        className="p-2 text-[#455A7C] hover:text-red-600"
+                        title="Remove question"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-4 pl-5 text-xs text-[#455A7C]">
+                    <select
+                      value={question.type}
+                      onChange={(e) => updateQuestion(index, { type: e.target.value as DebriefQuestion["type"] })}
+                      disabled={isSent}
+                      className="px-2 py-1 border border-[#C6CDD9] rounded text-xs text-[#0A2342]"
+                    >
+                      <option value="text">Written answer</option>
+                      <option value="rating">Rating ({survey.ratingScale.MIN}-{survey.ratingScale.MAX})</option>
+                    </select>
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={question.required}
+                        onChange={(e) => updateQuestion(index, { required: e.target.checked })}
+                        disabled={isSent}
+                        className="accent-[#16305B]"
+                      />
+                      Required
+                    </label>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {!isSent && (
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setQuestions((prev) => [...prev, { type: "text", prompt: "", required: false }])}
+                  disabled={questions.length >= MAX_QUESTIONS}
+                  className="flex items-center gap-1 text-sm font-semibold text-[#16305B] disabled:opacity-40"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  Add question
+                </button>
+                <button
+                  onClick={saveSurvey}
+                  disabled={saving}
+                  className="px-4 py-2 rounded-lg text-sm font-semibold text-white bg-[#16305B] hover:bg-[#0A2342] disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : "Save Survey"}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChartPieIcon, EyeSlashIcon } from "@heroicons/react/24/outline";
+import { getToken } from "@/lib/apiClient";
+import { DAMAGES_QUESTION_TYPE, formatDamagesAmount } from "@/lib/damagesAmount";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+const OPTION_COLORS = ["#16305B", "#5B9BD5", "#FDB71A", "#455A7C", "#0A2342", "#C6CDD9"];
+
+type CrossTabCell = {
+  option: string;
+  count: number | null;
+  percentage: number | null;
+  suppressed: boolean;
+};
+
+type CrossTabRow = {
+  group: string;
+  suppressed: boolean;
+  count?: number;
+  cells?: CrossTabCell[];
+  mean?: number;
+  median?: number;
+};
+
+type CrossTabQuestion = {
+  questionId: number;
+  questionText: string;
+  questionType: string;
+  options?: string[];
+  rows: CrossTabRow[];
+};
+
+type CrossTabData = {
+  attribute: string;
+  attributeLabel: string;
+  attributes: { key: string; label: string }[];
+  minCellSize: number;
+  totalVerdicts: number;
+  groups: { label: string; jurorCount: number | null; suppressed: boolean }[];
+  questions: CrossTabQuestion[];
+};
+
+const SuppressedLabel = () => (
+  <span className="flex items-center gap-1 text-xs text-[#455A7C] italic">
+    <EyeSlashIcon className="w-3.5 h-3.5" />
+    Suppressed
+  </span>
+);
+
+function ChoiceChart({ question }: { question: CrossTabQuestion }) {
+  const options = question.options || [];
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-3">
+        {options.map((option, i) => (
+          <span key={option} className="flex items-center gap-1.5 text-xs text-[#0A2342]">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: OPTION_COLORS[i % OPTION_COLORS.length] }} />
+            {option}
+          </span>
+        ))}
+      </div>
+      {question.rows.map((row) => (
+        <div key={row.group} className="grid grid-cols-4 gap-3 items-start">
+          <div className="text-sm font-semibold text-[#0A2342]">
+            {row.group}
+            {!row.suppressed && <span className="block text-xs font-normal text-[#455A7C]">{row.count} answered</span>}
+          </div>
+          <div className="col-span-3 space-y-1">
+            {row.suppressed ? (
+              <SuppressedLabel />
+            ) : (
+              row.cells?.map((cell, i) => (
+                <div key={cell.option} className="flex items-center gap-2">
+                  <div className="flex-1 h-3 bg-[#f9f7f2] rounded overflow-hidden border border-[#C6CDD9]/60">
+                    {!cell.suppressed && (
+                      <div
+                        className="h-full rounded"
+                        style={{
+                          width: `${cell.percentage ?? 0}%`,
+                          backgroundColor: OPTION_COLORS[i % OPTION_COLORS.length],
+                        }}
+                      />
+                    )}
+                  </div>
+                  <div className="w-28 text-right">
+                    {cell.suppressed ? (
+                      <SuppressedLabel />
+                    ) : (
+                      <span className="text-xs font-semibold text-[#0A2342]">
+                        {cell.percentage}% ({cell.count})
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AmountChart({ question }: { question: CrossTabQuestion }) {
+  const isDamages = question.questionType === DAMAGES_QUESTION_TYPE;
+  const format = (value?: number) => (isDamages ? formatDamagesAmount(value) : String(value ?? ""));
+  const largest = Math.max(0, ...question.rows.map((r) => (r.suppressed ? 0 : r.median ?? 0)));
+
+  return (
+    <div className="space-y-2">
+      {question.rows.map((row) => (
+        <div key={row.group} className="grid grid-cols-4 gap-3 items-center">
+          <div className="text-sm font-semibold text-[#0A2342]">{row.group}</div>
+          <div className="col-span-3 flex items-center gap-2">
+            {row.suppressed ? (
+              <SuppressedLabel />
+            ) : (
+              <>
+                <div className="flex-1 h-3 bg-[#f9f7f2] rounded overflow-hidden border border-[#C6CDD9]/60">
+                  <div
+                    className="h-full rounded bg-[#5B9BD5]"
+                    style={{ width: `${largest > 0 ? ((row.median ?? 0) / largest) * 100 : 0}%` }}
+                  />
+                </div>
+                <span className="w-56 text-right text-xs text-[#0A2342]">
+                  <span className="font-semibold">Median {format(row.median)}</span> • Mean {format(row.mean)} ({row.count})
+                </span>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function DemographicCrossTab({ caseId }: { caseId: string }) {
+  const [attribute, setAttribute] = useState("ageRange");
+  const [data, setData] = useState<CrossTabData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const loadCrossTab = async () => {
+      setLoading(true);
+      setError("");
+      try {
+        const response = await fetch(`${API_BASE}/api/verdicts/crosstab/${caseId}?attribute=${attribute}`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to load demographic breakdown");
+        }
+        setData(result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load demographic breakdown");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCrossTab();
+  }, [caseId, attribute]);
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
+      <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
+        <div className="relative flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white/10 rounded-lg">
+              <ChartPieIcon className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">Results by Juror Demographics</h2>
+              <p className="text-sm text-white/80 mt-0.5">See how each answer breaks down across juror groups</p>
+            </div>
+          </div>
+          <select
+            value={attribute}
+            onChange={(e) => setAttribute(e.target.value)}
+            className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-white text-[#16305B] focus:outline-none"
+          >
+            {(data?.attributes || [{ key: attribute, label: "Age Range" }]).map((a) => (
+              <option key={a.key} value={a.key}>
+                {a.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="p-5 space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-[#16305B]/30 border-t-[#16305B]"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : data && data.questions.length > 0 ? (
+          <>
+            <p className="text-xs text-[#455A7C]">
+              To protect juror anonymity, groups with fewer than {data.minCellSize} jurors are combined into
+              &quot;Other&quot;, and answer counts below {data.minCellSize} are suppressed.
+            </p>
+            {data.questions.map((question, index) => (
+              <div key={question.questionId} className="border border-[#C6CDD9] rounded-lg p-4">
+                <p className="text-sm font-semibold text-[#16305B] mb-1">Question {index + 1}</p>
+                <p className="text-[#0A2342] font-medium mb-4">{question.questionText}</p>
+                {question.questionType === DAMAGES_QUESTION_TYPE || question.questionType === "Numeric Response" ? (
+                  <AmountChart question={question} />
+                ) : (
+                  <ChoiceChart question={question} />
+                )}
+              </div>
+            ))}
+          </>
+        ) : (
+          <p className="text-sm text-[#455A7C]">No verdict data available for this case.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { ArrowUturnLeftIcon, LinkIcon, PresentationChartBarIcon } from "@heroicons/react/24/outline";
+import { listDocumentVersions, restoreDocumentVersion, type DocumentVersion } from "@/lib/warRoomDocuments";
+
+interface DocumentVersionHistoryProps {
+  caseId: string;
+  documentId: number;
+  /** Called after a restore so the document list can pick up the new current file */
+  onRestored: () => void;
+}
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Every version of a war room document, with the ones shown to the jury marked
+ */
+export default function DocumentVersionHistory({ caseId, documentId, onRestored }: DocumentVersionHistoryProps) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      setVersions(await listDocumentVersions(caseId, documentId));
+    } catch (error) {
+      console.error("Error loading document versions:", error);
+      toast.error((error instanceof Error && error.message) || "Failed to load version history");
+    } finally {
+      setLoading(false);
+    }
+  }, [caseId, documentId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const handleRestore = async (versionNumber: number) => {
+    setRestoring(versionNumber);
+    try {
+      const newVersion = await restoreDocumentVersion(caseId, documentId, versionNumber);
+      toast.success(`Version ${versionNumber} restored as version ${newVersion}`);
+      await fetchVersions();
+      onRestored();
+    } catch (error) {
+      console.error("Error restoring document version:", error);
+      toast.error((error instanceof Error && error.message) || "Failed to restore version");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="mt-3 pt-3 border-t border-[#C6CDD9] text-xs text-[#455A7C]">Loading history...</p>;
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-[#C6CDD9] space-y-2">
+      {versions.map((version) => (
+        <div key={version.VersionId} className="flex items-start justify-between gap-3">
+          <div className="min-w-0 space-y-0.5">
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-xs font-semibold text-[#0A2342]">v{version.VersionNumber}</span>
+              <span className="text-xs text-[#0A2342] truncate">{version.FileName}</span>
+              {version.IsCurrent && (
+                <span className="px-2 py-0.5 rounded text-xs font-semibold bg-green-50 text-green-700">Current</span>
+              )}
+              {version.LastPresentedAt && (
+                <span
+                  className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold bg-amber-50 text-amber-700"
+                  title={`Last shown ${formatTimestamp(version.LastPresentedAt)}`}
+                >
+                  <PresentationChartBarIcon className="w-3 h-3" />
+                  Shown at trial
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-[#455A7C]">
+              {formatTimestamp(version.CreatedAt)}
+              {version.UploadedByName && ` · ${version.UploadedByName}`}
+              {` · ${version.SizeFormatted}`}
+              {version.RestoredFromVersion && ` · restored from v${version.RestoredFromVersion}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <a
+              href={version.FileUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="p-1.5 hover:bg-[#FAF9F6] rounded transition-colors"
+              title="Open this version"
+            >
+              <LinkIcon className="w-4 h-4 text-[#16305B]" />
+            </a>
+            {!version.IsCurrent && (
+              <button
+                onClick={() => handleRestore(version.VersionNumber)}
+                disabled={restoring !== null}
+                className="inline-flex items-center gap-1 text-xs font-semibold text-[#16305B] hover:underline disabled:opacity-50 cursor-pointer"
+              >
+                <ArrowUturnLeftIcon className="w-3 h-3" />
+                {restoring === version.VersionNumber ? "Restoring..." : "Restore"}
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,8 +1,19 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { Plus, Trash2, Edit2, GripVertical, Save, X, AlertCircle, Lock } from "lucide-react";
+import { Plus, Trash2, Edit2, GripVertical, Save, X, AlertCircle, Lock, GitBranch, Eye, Library, BookmarkPlus } from "lucide-react";
 import toast from "react-hot-toast";
+import {
+  QuestionCondition,
+  ConditionOperator,
+  CONDITION_OPERATOR_LABELS,
+  describeCondition,
+  getVisibleQuestionIds,
+} from "@/lib/juryChargeConditions";
+import { DAMAGES_QUESTION_TYPE, describeDamagesBounds } from "@/lib/damagesAmount";
+import { CaseTemplate, importJuryChargeTemplate } from "@/lib/caseTemplates";
+import TemplateLibraryModal from "@/components/modals/TemplateLibraryModal";
+import SaveTemplateModal from "@/components/modals/SaveTemplateModal";
 
 // API Base URL
 const API_BASE = process.env.NEXT_PUBLIC_API_URL
@@ -17,18 +28,21 @@ interface JuryChargeQuestion {
   QuestionId: number;
   CaseId: number;
   QuestionText: string;
-  QuestionType: "Multiple Choice" | "Multiple Select" | "Yes/No" | "Text Response";
+  QuestionType: "Multiple Choice" | "Multiple Select" | "Yes/No" | "Text Response" | "Damages Amount";
   Options: string[] | string; // Can be array from backend or string from form
   OrderIndex: number;
   IsRequired: boolean;
   MinValue?: number;
   MaxValue?: number;
+  Condition?: QuestionCondition | null;
 }
 
 interface JuryChargeBuilderProps {
   caseId: number;
   isLocked: boolean;
   onLockStatusChange?: (isLocked: boolean) => void;
+  /** Show the template library actions (attorneys only) */
+  allowTemplates?: boolean;
 }
 
 // ============================================
@@ -39,6 +53,7 @@ export default function JuryChargeBuilder({
   caseId,
   isLocked: initialLockStatus,
   onLockStatusChange,
+  allowTemplates = true,
 }: JuryChargeBuilderProps) {
   const [questions, setQuestions] = useState<JuryChargeQuestion[]>([]);
   const [isLocked, setIsLocked] = useState(initialLockStatus);
@@ -49,6 +64,9 @@ export default function JuryChargeBuilder({
   const [saving, setSaving] = useState(false);
   const [dragIndex, setDragIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [showTemplateLibrary, setShowTemplateLibrary] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
 
   // State for adding multiple questions at once
   const [newQuestions, setNewQuestions] = useState<Array<{
@@ -58,6 +76,7 @@ export default function JuryChargeBuilder({
     IsRequired: boolean;
     MinValue?: number;
     MaxValue?: number;
+    Condition: QuestionCondition | null;
   }>>([]);
 
   // Form state for editing existing question
@@ -68,6 +87,7 @@ export default function JuryChargeBuilder({
     IsRequired: true,
     MinValue: undefined as number | undefined,
     MaxValue: undefined as number | undefined,
+    Condition: null as QuestionCondition | null,
   });
 
   // ============================================
@@ -127,6 +147,16 @@ export default function JuryChargeBuilder({
     }
   }
 
+  // ============================================
+  // TEMPLATES
+  // ============================================
+
+  async function handleImportTemplate(template: CaseTemplate) {
+    const result = await importJuryChargeTemplate<JuryChargeQuestion>(caseId, template.templateId);
+    setQuestions(result.questions || []);
+    toast.success(result.message);
+  }
+
   // ============================================
   // ADD QUESTIONS (Multiple at Once)
   // ============================================
@@ -139,6 +169,7 @@ export default function JuryChargeBuilder({
       IsRequired: true,
       MinValue: undefined,
       MaxValue: undefined,
+      Condition: null,
     }]);
   }
 
@@ -161,6 +192,18 @@ export default function JuryChargeBuilder({
       return;
     }
 
+    const invalidBounds = validQuestions.find(
+      (q) =>
+        q.QuestionType === DAMAGES_QUESTION_TYPE &&
+        q.MinValue !== undefined &&
+        q.MaxValue !== undefined &&
+        q.MinValue > q.MaxValue
+    );
+    if (invalidBounds) {
+      toast.error("Minimum damages cannot be greater than the maximum");
+      return;
+    }
+
     try {
       setSaving(true);
       const token = localStorage.getItem("token");
@@ -184,6 +227,7 @@ export default function JuryChargeBuilder({
             isRequired: question.IsRequired,
             minValue: question.MinValue,
             maxValue: question.MaxValue,
+            condition: question.Condition,
           };
 
           const response = await fetch(`${API_BASE}/api/jury-charge/questions`, {
@@ -256,6 +300,7 @@ export default function JuryChargeBuilder({
         isRequired: formData.IsRequired,
         minValue: formData.MinValue,
         maxValue: formData.MaxValue,
+        condition: formData.Condition,
       };
 
       const response = await fetch(`${API_BASE}/api/jury-charge/questions/${questionId}`, {
@@ -269,7 +314,7 @@ export default function JuryChargeBuilder({
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to update question");
+        throw new Error(errorData.message || errorData.error || "Failed to update question");
       }
 
       // Reload questions
@@ -330,6 +375,7 @@ export default function JuryChargeBuilder({
       IsRequired: true,
       MinValue: undefined,
       MaxValue: undefined,
+      Condition: null,
     });
   }
 
@@ -353,6 +399,7 @@ export default function JuryChargeBuilder({
       IsRequired: question.IsRequired,
       MinValue: question.MinValue,
       MaxValue: question.MaxValue,
+      Condition: question.Condition ?? null,
     });
   }
 
@@ -404,7 +451,8 @@ export default function JuryChargeBuilder({
         body: JSON.stringify({ questions: payload }),
       });
       if (!response.ok) {
-        toast.error("Failed to save new order. Refreshing...");
+        const errorData = await response.json().catch(() => ({}));
+        toast.error(errorData.message || "Failed to save new order. Refreshing...");
         await loadQuestions();
       }
     } catch {
@@ -452,8 +500,35 @@ export default function JuryChargeBuilder({
             </div>
           </div>
 
+          <div className="flex gap-2">
+            {allowTemplates && questions.length > 0 && (
+              <button
+                onClick={() => setShowSaveTemplate(true)}
+                className="flex items-center gap-1.5 px-4 py-1.5 bg-white/10 hover:bg-white/20 text-white rounded-lg font-semibold text-sm transition-all cursor-pointer"
+              >
+                <BookmarkPlus className="w-4 h-4" />
+                Save as Template
+              </button>
+            )}
+            {allowTemplates && !isLocked && (
+              <button
+                onClick={() => setShowTemplateLibrary(true)}
+                className="flex items-center gap-1.5 px-4 py-1.5 bg-white/10 hover:bg-white/20 text-white rounded-lg font-semibold text-sm transition-all cursor-pointer"
+              >
+                <Library className="w-4 h-4" />
+                Import Template
+              </button>
+            )}
+            {questions.some((q) => q.Condition) && (
+              <button
+                onClick={() => setShowPreview(!showPreview)}
+                className="flex items-center gap-1.5 px-4 py-1.5 bg-white/10 hover:bg-white/20 text-white rounded-lg font-semibold text-sm transition-all cursor-pointer"
+              >
+                <Eye className="w-4 h-4" />
+                {showPreview ? "Close Preview" : "Preview as Juror"}
+              </button>
+            )}
           {!isLocked && (
-            <div className="flex gap-2">
               <button
                 onClick={() => {
                   if (showAddForm) {
@@ -468,6 +543,7 @@ export default function JuryChargeBuilder({
                       IsRequired: true,
                       MinValue: undefined,
                       MaxValue: undefined,
+                      Condition: null,
                     }]);
                   }
                 }}
@@ -477,8 +553,8 @@ export default function JuryChargeBuilder({
                 <Plus className="w-4 h-4" />
                 Add Questions
               </button>
-            </div>
           )}
+          </div>
         </div>
       </div>
 
@@ -563,6 +639,7 @@ export default function JuryChargeBuilder({
                       <option value="Multiple Select">Multiple Select (multiple answers)</option>
                       <option value="Yes/No">Yes/No</option>
                       <option value="Text Response">Text Response</option>
+                      <option value="Damages Amount">Damages Amount ($)</option>
                     </select>
                   </div>
 
@@ -598,6 +675,25 @@ export default function JuryChargeBuilder({
                   </div>
                 )}
 
+                {/* Limits for Damages Amount */}
+                {question.QuestionType === DAMAGES_QUESTION_TYPE && (
+                  <DamagesBoundsInputs
+                    minValue={question.MinValue}
+                    maxValue={question.MaxValue}
+                    onChange={(field, value) => updateNewQuestion(index, field, value)}
+                  />
+                )}
+
+                {/* Conditional display based on an earlier saved question */}
+                {questions.length > 0 && (
+                  <ConditionEditor
+                    candidates={questions}
+                    allQuestions={questions}
+                    value={question.Condition}
+                    onChange={(condition) => updateNewQuestion(index, "Condition", condition)}
+                  />
+                )}
+
               </div>
             ))}
           </div>
@@ -645,6 +741,22 @@ export default function JuryChargeBuilder({
         </div>
       )}
 
+      <TemplateLibraryModal
+        isOpen={showTemplateLibrary}
+        onClose={() => setShowTemplateLibrary(false)}
+        kind="juryCharge"
+        onImport={handleImportTemplate}
+      />
+      <SaveTemplateModal
+        isOpen={showSaveTemplate}
+        onClose={() => setShowSaveTemplate(false)}
+        questions={{ sourceCaseId: caseId }}
+        questionCount={questions.length}
+      />
+
+      {/* Juror Preview of conditional questions */}
+      {showPreview && <ConditionalPreview questions={questions} />}
+
       {/* Questions List */}
       <div className="space-y-4">
         {questions.length === 0 ? (
@@ -661,6 +773,7 @@ export default function JuryChargeBuilder({
               key={question.QuestionId}
               question={question}
               index={index}
+              allQuestions={questions}
               isEditing={editingId === question.QuestionId}
               isLocked={isLocked}
               formData={formData}
@@ -709,6 +822,8 @@ interface QuestionFormProps {
   onCancel: () => void;
   saving: boolean;
   title: string;
+  conditionCandidates: JuryChargeQuestion[];
+  allQuestions: JuryChargeQuestion[];
 }
 
 function QuestionForm({
@@ -718,12 +833,15 @@ function QuestionForm({
   onCancel,
   saving,
   title,
+  conditionCandidates,
+  allQuestions,
 }: QuestionFormProps) {
   const questionTypes: { value: JuryChargeQuestion["QuestionType"]; label: string }[] = [
     { value: "Multiple Choice", label: "Multiple Choice (single answer)" },
     { value: "Multiple Select", label: "Multiple Select (multiple answers)" },
     { value: "Yes/No", label: "Yes/No" },
     { value: "Text Response", label: "Text Response" },
+    { value: "Damages Amount", label: "Damages Amount ($)" },
   ];
 
   return (
@@ -789,6 +907,24 @@ function QuestionForm({
         </div>
       )}
 
+      {/* Limits (for Damages Amount) */}
+      {formData.QuestionType === DAMAGES_QUESTION_TYPE && (
+        <DamagesBoundsInputs
+          minValue={formData.MinValue}
+          maxValue={formData.MaxValue}
+          onChange={(field, value) => setFormData({ ...formData, [field]: value })}
+        />
+      )}
+
+      {/* Conditional display (only earlier questions can be referenced) */}
+      {conditionCandidates.length > 0 && (
+        <ConditionEditor
+          candidates={conditionCandidates}
+          allQuestions={allQuestions}
+          value={formData.Condition}
+          onChange={(condition) => setFormData({ ...formData, Condition: condition })}
+        />
+      )}
 
       {/* Is Required */}
       <div className="flex items-center">
@@ -835,6 +971,7 @@ function QuestionForm({
 interface QuestionCardProps {
   question: JuryChargeQuestion;
   index: number;
+  allQuestions: JuryChargeQuestion[];
   isEditing: boolean;
   isLocked: boolean;
   formData: any;
@@ -855,6 +992,7 @@ interface QuestionCardProps {
 function QuestionCard({
   question,
   index,
+  allQuestions,
   isEditing,
   isLocked,
   formData,
@@ -880,6 +1018,8 @@ function QuestionCard({
         onCancel={onCancel}
         saving={saving}
         title={`Edit Question #${index + 1}`}
+        conditionCandidates={allQuestions.slice(0, index)}
+        allQuestions={allQuestions}
       />
     );
   }
@@ -937,6 +1077,19 @@ function QuestionCard({
 
           <p className="text-gray-900 font-medium">{question.QuestionText}</p>
 
+          {question.Condition && (
+            <p className="mt-2 inline-flex items-center gap-1.5 text-xs px-2 py-1 bg-amber-50 text-amber-800 border border-amber-200 rounded">
+              <GitBranch className="w-3 h-3" />
+              {describeCondition(question.Condition, allQuestions)}
+            </p>
+          )}
+
+          {question.QuestionType === DAMAGES_QUESTION_TYPE && (
+            <p className="mt-3 text-sm text-gray-800 font-medium">
+              Juror enters a dollar amount • {describeDamagesBounds(question.MinValue, question.MaxValue)}
+            </p>
+          )}
+
           {/* Show options for Multiple Choice (radio) */}
           {question.QuestionType === "Multiple Choice" && options.length > 0 && (
             <ul className="mt-3 space-y-1">
@@ -993,3 +1146,217 @@ function QuestionCard({
     </div>
   );
 }
+
+// ============================================
+// DAMAGES BOUNDS COMPONENT
+// ============================================
+
+interface DamagesBoundsInputsProps {
+  minValue?: number;
+  maxValue?: number;
+  onChange: (field: "MinValue" | "MaxValue", value: number | undefined) => void;
+}
+
+function DamagesBoundsInputs({ minValue, maxValue, onChange }: DamagesBoundsInputsProps) {
+  const fields: { field: "MinValue" | "MaxValue"; label: string; value?: number }[] = [
+    { field: "MinValue", label: "Minimum Award", value: minValue },
+    { field: "MaxValue", label: "Maximum Award", value: maxValue },
+  ];
+
+  return (
+    <div className="mt-4">
+      <div className="grid grid-cols-2 gap-4">
+        {fields.map(({ field, label, value }) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={value ?? ""}
+                onChange={(e) => onChange(field, e.target.value === "" ? undefined : parseInt(e.target.value))}
+                className="w-full pl-7 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                placeholder="No limit"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">Whole dollars. Leave blank for no limit.</p>
+    </div>
+  );
+}
+
+// ============================================
+// CONDITION EDITOR COMPONENT
+// ============================================
+
+interface ConditionEditorProps {
+  candidates: JuryChargeQuestion[];
+  allQuestions: JuryChargeQuestion[];
+  value: QuestionCondition | null;
+  onChange: (condition: QuestionCondition | null) => void;
+}
+
+function getAnswerChoices(question: JuryChargeQuestion | undefined): string[] {
+  if (!question) return [];
+  if (question.QuestionType === "Yes/No") return ["Yes", "No"];
+  if (question.QuestionType === "Multiple Choice" || question.QuestionType === "Multiple Select") {
+    return Array.isArray(question.Options)
+      ? question.Options
+      : question.Options.split("\n").filter(Boolean);
+  }
+  return [];
+}
+
+function ConditionEditor({ candidates, allQuestions, value, onChange }: ConditionEditorProps) {
+  const parent = candidates.find((q) => q.QuestionId === value?.questionId);
+  const choices = getAnswerChoices(parent);
+  const operators: ConditionOperator[] =
+    parent?.QuestionType === "Multiple Select" ? ["includes", "answered"] : ["equals", "not_equals", "answered"];
+
+  const selectParent = (questionId: number) => {
+    const nextParent = candidates.find((q) => q.QuestionId === questionId);
+    const nextChoices = getAnswerChoices(nextParent);
+    onChange({
+      questionId,
+      operator: nextParent?.QuestionType === "Multiple Select" ? "includes" : "equals",
+      value: nextChoices[0] || "",
+    });
+  };
+
+  return (
+    <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-3 space-y-2">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!value}
+          onChange={(e) => (e.target.checked ? selectParent(candidates[0].QuestionId) : onChange(null))}
+          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <span className="text-sm font-semibold text-gray-900 flex items-center gap-1.5">
+          <GitBranch className="w-4 h-4 text-amber-700" />
+          Only ask this question based on an earlier answer
+        </span>
+      </label>
+
+      {value && (
+        <div className="grid grid-cols-3 gap-2">
+          <select
+            value={value.questionId}
+            onChange={(e) => selectParent(parseInt(e.target.value))}
+            className="px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+          >
+            {candidates.map((q) => (
+              <option key={q.QuestionId} value={q.QuestionId}>
+                Question {allQuestions.findIndex((a) => a.QuestionId === q.QuestionId) + 1}:{" "}
+                {q.QuestionText.length > 40 ? `${q.QuestionText.slice(0, 40)}...` : q.QuestionText}
+              </option>
+            ))}
+          </select>
+          <select
+            value={value.operator}
+            onChange={(e) => onChange({ ...value, operator: e.target.value as ConditionOperator })}
+            className="px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+          >
+            {operators.map((op) => (
+              <option key={op} value={op}>
+                {CONDITION_OPERATOR_LABELS[op]}
+              </option>
+            ))}
+          </select>
+          {value.operator !== "answered" &&
+            (choices.length > 0 ? (
+              <select
+                value={value.value}
+                onChange={(e) => onChange({ ...value, value: e.target.value })}
+                className="px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+              >
+                {choices.map((choice) => (
+                  <option key={choice} value={choice}>
+                    {choice}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={value.value}
+                onChange={(e) => onChange({ ...value, value: e.target.value })}
+                placeholder="Answer"
+                className="px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// CONDITIONAL PREVIEW COMPONENT
+// ============================================
+
+function ConditionalPreview({ questions }: { questions: JuryChargeQuestion[] }) {
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const visibleIds = getVisibleQuestionIds(questions, answers);
+  const visibleQuestions = questions.filter((q) => visibleIds.has(q.QuestionId));
+
+  return (
+    <div className="border-2 border-dashed border-[#5B9BD5] rounded-lg p-5 space-y-4 bg-[#f9f7f2]">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-[#0A2342]">Juror Preview</h3>
+          <p className="text-xs text-[#455A7C]">
+            Answer as a juror would to see which questions appear. Nothing here is saved.
+          </p>
+        </div>
+        <button
+          onClick={() => setAnswers({})}
+          className="px-3 py-1.5 text-xs font-semibold text-[#16305B] bg-white border border-[#C6CDD9] rounded-lg hover:bg-gray-50"
+        >
+          Reset
+        </button>
+      </div>
+
+      {visibleQuestions.map((question, index) => {
+        const choices = getAnswerChoices(question);
+        return (
+          <div key={question.QuestionId} className="bg-white rounded-lg p-4 border border-gray-200">
+            <p className="text-sm font-medium text-gray-900 mb-2">
+              {index + 1}. {question.QuestionText}
+            </p>
+            {choices.length > 0 ? (
+              <select
+                value={answers[question.QuestionId] || ""}
+                onChange={(e) => setAnswers({ ...answers, [question.QuestionId]: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+              >
+                <option value="">Select an answer...</option>
+                {choices.map((choice) => (
+                  <option key={choice} value={choice}>
+                    {choice}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={answers[question.QuestionId] || ""}
+                onChange={(e) => setAnswers({ ...answers, [question.QuestionId]: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                placeholder="Type an answer..."
+              />
+            )}
+          </div>
+        );
+      })}
+
+      <p className="text-xs text-[#455A7C]">
+        Showing {visibleQuestions.length} of {questions.length} questions
+      </p>
+    </div>
+  );
+}
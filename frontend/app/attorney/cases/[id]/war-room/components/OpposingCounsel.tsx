@@ -0,0 +1,251 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { ScaleIcon, EnvelopeIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { getToken } from "@/lib/apiClient";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+const MAX_MESSAGE_LENGTH = 500;
+
+export type CounselSide = "plaintiff" | "defense";
+
+type CounselAttorney = {
+  attorneyId: number;
+  name: string;
+  email?: string;
+  lawFirmName: string | null;
+};
+
+export type OpposingCounselInfo = {
+  counsel: {
+    inviteId: number;
+    status: "pending" | "accepted";
+    ownerSide: CounselSide;
+    opposingSide: CounselSide;
+    message: string | null;
+    owner: CounselAttorney;
+    opposing: CounselAttorney;
+    ownerSharesResults: boolean;
+    opposingSharesResults: boolean;
+    resultsShared: boolean;
+  } | null;
+  viewerRole: "owner" | "opposing" | null;
+  viewerSide: CounselSide | null;
+  canInvite: boolean;
+};
+
+export const counselSideLabel = (side: CounselSide) =>
+  side === "plaintiff" ? "Plaintiff Counsel" : "Defense Counsel";
+
+/**
+ * A second attorney arguing the other side of the mock trial. The owner
+ * invites a verified attorney by email; once accepted each side keeps its
+ * own documents and witnesses, and results are shared only when both agree.
+ */
+export default function OpposingCounsel({
+  caseId,
+  info,
+  onChange,
+}: {
+  caseId: string;
+  info: OpposingCounselInfo;
+  onChange: (info: OpposingCounselInfo) => void;
+}) {
+  const [email, setEmail] = useState("");
+  const [side, setSide] = useState<CounselSide>("plaintiff");
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const { counsel, viewerRole } = info;
+  const isOwner = viewerRole === "owner";
+
+  const request = async (path: string, method: string, body?: object) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/case/cases/${caseId}/opposing-counsel${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || "Request failed");
+      }
+      toast.success(result.message);
+      return result;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Request failed");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendInvite = async () => {
+    const result = await request("", "POST", { email: email.trim(), side, message });
+    if (result) {
+      onChange({ ...info, counsel: result.counsel });
+      setEmail("");
+      setMessage("");
+    }
+  };
+
+  const removeCounsel = async () => {
+    const prompt = counsel?.status === "pending"
+      ? "Withdraw this invitation?"
+      : "Remove opposing counsel from this case? Their documents stay hidden from you.";
+    if (!window.confirm(prompt)) return;
+    if (await request("", "DELETE")) {
+      onChange({ ...info, counsel: null });
+    }
+  };
+
+  const toggleResultsSharing = async (shareResults: boolean) => {
+    const result = await request("/results-sharing", "PUT", { shareResults });
+    if (result) onChange({ ...info, counsel: result.counsel });
+  };
+
+  const mySharing = isOwner ? counsel?.ownerSharesResults : counsel?.opposingSharesResults;
+  const theirSharing = isOwner ? counsel?.opposingSharesResults : counsel?.ownerSharesResults;
+
+  const inputClass =
+    "w-full px-3 py-2 border border-[#C6CDD9] rounded-lg text-sm text-[#0A2342] focus:outline-none focus:ring-2 focus:ring-[#16305B]";
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
+      <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
+        <div className="relative flex items-center gap-3">
+          <div className="p-2 bg-white/10 rounded-lg">
+            <ScaleIcon className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-white">Opposing Counsel</h2>
+            <p className="text-sm text-white/80 mt-0.5">
+              {viewerRole === "opposing" && info.viewerSide
+                ? `You are ${counselSideLabel(info.viewerSide)} on this case`
+                : "Invite another attorney to argue the other side of this mock trial"}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-5 space-y-4">
+        {!counsel && isOwner && info.canInvite && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-semibold text-[#455A7C] mb-1.5 uppercase tracking-wide">
+                  Attorney Email
+                </label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Verified attorney's account email"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-[#455A7C] mb-1.5 uppercase tracking-wide">
+                  Your Side
+                </label>
+                <select value={side} onChange={(e) => setSide(e.target.value as CounselSide)} className={inputClass}>
+                  <option value="plaintiff">Plaintiff (they argue the defense)</option>
+                  <option value="defense">Defense (they argue the plaintiff)</option>
+                </select>
+              </div>
+            </div>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={MAX_MESSAGE_LENGTH}
+              rows={2}
+              placeholder="Message (optional)"
+              className={inputClass}
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={sendInvite}
+                disabled={busy || !email.trim()}
+                className="px-4 py-2 rounded-lg text-sm font-semibold text-white bg-[#16305B] hover:bg-[#0A2342] disabled:opacity-50 flex items-center gap-1.5"
+              >
+                <EnvelopeIcon className="w-4 h-4" />
+                {busy ? "Sending..." : "Send Invitation"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!counsel && (!isOwner || !info.canInvite) && (
+          <p className="text-sm text-[#455A7C]">
+            {isOwner ? "Opposing counsel can only be invited before the trial." : "This case has no opposing counsel."}
+          </p>
+        )}
+
+        {counsel && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {[
+                { label: counselSideLabel(counsel.ownerSide), attorney: counsel.owner, pending: false },
+                { label: counselSideLabel(counsel.opposingSide), attorney: counsel.opposing, pending: counsel.status === "pending" },
+              ].map(({ label, attorney, pending }) => (
+                <div key={label} className="p-3 rounded-lg border border-[#C6CDD9] bg-[#FAF9F6]">
+                  <p className="text-xs font-semibold text-[#455A7C] uppercase tracking-wide">{label}</p>
+                  <p className="text-sm font-semibold text-[#0A2342] mt-1">{attorney.name}</p>
+                  {attorney.lawFirmName && <p className="text-xs text-[#455A7C]">{attorney.lawFirmName}</p>}
+                  {pending && (
+                    <span className="inline-block mt-2 px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-700">
+                      Invitation pending
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {counsel.status === "accepted" && viewerRole && (
+              <div className="p-3 rounded-lg border border-[#C6CDD9] space-y-2">
+                <label className="flex items-center gap-2 text-sm font-semibold text-[#0A2342] cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!mySharing}
+                    disabled={busy}
+                    onChange={(e) => toggleResultsSharing(e.target.checked)}
+                    className="w-4 h-4 accent-[#16305B]"
+                  />
+                  Share verdict results with the other side
+                </label>
+                <p className="text-xs text-[#455A7C]">
+                  {counsel.resultsShared
+                    ? "Both sides agreed — results are visible to both attorneys once published."
+                    : theirSharing
+                    ? "The other side has agreed. Results are shared once you agree too."
+                    : "Results are only shared with opposing counsel when both sides agree."}
+                </p>
+              </div>
+            )}
+
+            {isOwner && (counsel.status === "pending" || info.canInvite) && (
+              <div className="flex justify-end">
+                <button
+                  onClick={removeCounsel}
+                  disabled={busy}
+                  className="px-3 py-1.5 rounded-lg text-sm font-semibold text-red-600 hover:bg-red-50 disabled:opacity-50 flex items-center gap-1"
+                >
+                  <XMarkIcon className="w-4 h-4" />
+                  {counsel.status === "pending" ? "Withdraw Invitation" : "Remove Opposing Counsel"}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
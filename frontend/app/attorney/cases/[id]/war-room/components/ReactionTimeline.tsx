@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PresentationChartLineIcon } from "@heroicons/react/24/outline";
+import { getToken } from "@/lib/apiClient";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 240;
+const CHART_PADDING = { top: 12, right: 12, bottom: 28, left: 40 };
+const BUCKET_OPTIONS = [5, 15, 30, 60];
+
+type ReactionPoint = {
+  offsetSeconds: number;
+  average: number;
+  jurorCount: number;
+};
+
+type ReactionTimelineData = {
+  recording: { recordingId: number; status: string; startedAt: string; durationSeconds: number | null } | null;
+  range: { MIN: number; MAX: number };
+  bucketSeconds: number;
+  attributes: { key: string; label: string }[];
+  groups: { value: string; jurorCount: number | null; suppressed: boolean }[];
+  minGroupSize: number;
+  jurorCount: number;
+  points: ReactionPoint[];
+};
+
+const formatOffset = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const mmss = `${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+function ReactionChart({ data }: { data: ReactionTimelineData }) {
+  const [hovered, setHovered] = useState<ReactionPoint | null>(null);
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+
+  // Span the whole recording so the chart lines up with the video player
+  const lastPoint = data.points[data.points.length - 1]?.offsetSeconds ?? 0;
+  const duration = Math.max(data.recording?.durationSeconds ?? 0, lastPoint + data.bucketSeconds, 1);
+  const x = (seconds: number) => CHART_PADDING.left + (seconds / duration) * plotWidth;
+  const y = (value: number) =>
+    CHART_PADDING.top + ((data.range.MAX - value) / (data.range.MAX - data.range.MIN)) * plotHeight;
+
+  const path = data.points
+    .map((p, i) => `${i === 0 ? "M" : "L"}${x(p.offsetSeconds).toFixed(1)},${y(p.average).toFixed(1)}`)
+    .join(" ");
+  const ticks = Array.from({ length: 6 }, (_, i) => Math.round((duration / 5) * i));
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+        {[data.range.MAX, data.range.MAX / 2, 0, data.range.MIN / 2, data.range.MIN].map((value) => (
+          <g key={value}>
+            <line
+              x1={CHART_PADDING.left}
+              x2={CHART_WIDTH - CHART_PADDING.right}
+              y1={y(value)}
+              y2={y(value)}
+              stroke={value === 0 ? "#455A7C" : "#C6CDD9"}
+              strokeDasharray={value === 0 ? undefined : "4 4"}
+            />
+            <text x={CHART_PADDING.left - 6} y={y(value) + 4} textAnchor="end" fontSize="10" fill="#455A7C">
+              {value > 0 ? `+${value}` : value}
+            </text>
+          </g>
+        ))}
+        {ticks.map((seconds) => (
+          <text key={seconds} x={x(seconds)} y={CHART_HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#455A7C">
+            {formatOffset(seconds)}
+          </text>
+        ))}
+        <path d={path} fill="none" stroke="#16305B" strokeWidth={2} strokeLinejoin="round" />
+        {data.points.map((p) => (
+          <rect
+            key={p.offsetSeconds}
+            x={x(p.offsetSeconds)}
+            y={CHART_PADDING.top}
+            width={Math.max(1, x(p.offsetSeconds + data.bucketSeconds) - x(p.offsetSeconds))}
+            height={plotHeight}
+            fill="transparent"
+            onMouseEnter={() => setHovered(p)}
+            onMouseLeave={() => setHovered(null)}
+          />
+        ))}
+        {hovered && <circle cx={x(hovered.offsetSeconds)} cy={y(hovered.average)} r={4} fill="#FDB71A" />}
+      </svg>
+      {hovered && (
+        <div className="absolute top-0 right-0 px-3 py-1.5 rounded-lg text-xs bg-[#0A2342] text-white">
+          {formatOffset(hovered.offsetSeconds)} • Average {hovered.average > 0 ? `+${hovered.average}` : hovered.average} •{" "}
+          {hovered.jurorCount} juror{hovered.jurorCount === 1 ? "" : "s"}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ReactionTimeline({ caseId }: { caseId: string }) {
+  const [attribute, setAttribute] = useState("");
+  const [groupValue, setGroupValue] = useState("");
+  const [bucket, setBucket] = useState(BUCKET_OPTIONS[0]);
+  const [data, setData] = useState<ReactionTimelineData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const loadTimeline = async () => {
+      setLoading(true);
+      setError("");
+      try {
+        const params = new URLSearchParams({ bucket: String(bucket) });
+        if (attribute) params.set("attribute", attribute);
+        if (attribute && groupValue) params.set("value", groupValue);
+
+        const response = await fetch(`${API_BASE}/api/verdicts/reactions/${caseId}?${params}`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to load juror reactions");
+        }
+        setData(result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load juror reactions");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTimeline();
+  }, [caseId, attribute, groupValue, bucket]);
+
+  const selectClass = "px-3 py-1.5 rounded-lg text-sm font-semibold bg-white text-[#16305B] focus:outline-none";
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
+      <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
+        <div className="relative flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white/10 rounded-lg">
+              <PresentationChartLineIcon className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">Juror Reactions Over Time</h2>
+              <p className="text-sm text-white/80 mt-0.5">Average reaction dial reading across the trial recording</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={attribute}
+              onChange={(e) => {
+                setAttribute(e.target.value);
+                setGroupValue("");
+              }}
+              className={selectClass}
+            >
+              <option value="">All jurors</option>
+              {(data?.attributes || []).map((a) => (
+                <option key={a.key} value={a.key}>
+                  By {a.label}
+                </option>
+              ))}
+            </select>
+            {attribute && (
+              <select value={groupValue} onChange={(e) => setGroupValue(e.target.value)} className={selectClass}>
+                <option value="">Choose group</option>
+                {(data?.groups || []).map((g) => (
+                  <option key={g.value} value={g.value} disabled={g.suppressed}>
+                    {g.value} {g.suppressed ? "(too few jurors)" : `(${g.jurorCount})`}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select value={bucket} onChange={(e) => setBucket(parseInt(e.target.value, 10))} className={selectClass}>
+              {BUCKET_OPTIONS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds < 60 ? `${seconds}s` : `${seconds / 60} min`} intervals
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-5 space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-[#16305B]/30 border-t-[#16305B]"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : data && data.points.length > 0 ? (
+          <>
+            <p className="text-xs text-[#455A7C]">
+              {data.jurorCount} juror{data.jurorCount === 1 ? "" : "s"} used the dial.{" "}
+              {data.recording
+                ? "Times are measured from the start of the trial recording."
+                : "The trial was not recorded; times are measured from the first reading."}{" "}
+              Groups with fewer than {data.minGroupSize} jurors are hidden to protect juror anonymity.
+            </p>
+            <ReactionChart data={data} />
+          </>
+        ) : (
+          <p className="text-sm text-[#455A7C]">
+            {attribute && !groupValue ? "Choose a group to see its reactions." : "No jurors used the reaction dial during this trial."}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ArrowsRightLeftIcon, EyeSlashIcon } from "@heroicons/react/24/outline";
+import { getToken } from "@/lib/apiClient";
+import { DAMAGES_QUESTION_TYPE, formatDamagesAmount } from "@/lib/damagesAmount";
+import { formatDateString } from "@/lib/dateUtils";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+type Run = {
+  caseId: number;
+  runNumber: number;
+  scheduledDate: string;
+  totalVerdicts: number;
+};
+
+type ChoiceRun = {
+  caseId: number;
+  runNumber: number;
+  answered: number;
+  options: { option: string; count: number; percentage: number; delta: number | null }[];
+};
+
+type AmountFields = {
+  mean: number | null;
+  median: number | null;
+  p25: number | null;
+  p75: number | null;
+};
+
+type AmountRun = AmountFields & {
+  caseId: number;
+  runNumber: number;
+  count: number;
+  min: number | null;
+  max: number | null;
+  shift: AmountFields;
+};
+
+type ComparedQuestion = {
+  questionText: string;
+  questionType: string;
+  options?: string[];
+  runs: (ChoiceRun | AmountRun)[];
+};
+
+type DemographicComparison = {
+  attribute: string;
+  label: string;
+  groups: string[];
+  runs: {
+    caseId: number;
+    runNumber: number;
+    jurorCount: number;
+    groups: {
+      group: string;
+      count: number | null;
+      percentage: number | null;
+      delta: number | null;
+      suppressed: boolean;
+    }[];
+  }[];
+};
+
+type ComparisonData = {
+  runs: Run[];
+  questions: ComparedQuestion[];
+  unmatchedQuestions: { caseId: number; runNumber: number; questionText: string }[];
+  demographics: DemographicComparison[];
+  minCellSize: number;
+};
+
+const AMOUNT_ROWS: { field: keyof AmountFields; label: string }[] = [
+  { field: "median", label: "Median" },
+  { field: "mean", label: "Mean" },
+  { field: "p25", label: "25th percentile" },
+  { field: "p75", label: "75th percentile" },
+];
+
+function Delta({ value, format }: { value: number | null; format: (n: number) => string }) {
+  if (value === null) return null;
+  if (value === 0) return <span className="block text-xs text-[#455A7C]">no change</span>;
+  return (
+    <span className={`block text-xs font-semibold ${value > 0 ? "text-green-700" : "text-red-600"}`}>
+      {value > 0 ? "▲" : "▼"} {format(Math.abs(value))}
+    </span>
+  );
+}
+
+const formatPoints = (n: number) => `${n} pts`;
+
+function RunHeaders({ runs, caseId }: { runs: { caseId: number; runNumber: number }[]; caseId: string }) {
+  return (
+    <>
+      {runs.map((run) => (
+        <th key={run.caseId} className="px-3 py-2 text-right font-semibold text-[#16305B]">
+          Run {run.runNumber}
+          {String(run.caseId) === caseId && <span className="block text-xs font-normal text-[#455A7C]">this case</span>}
+        </th>
+      ))}
+    </>
+  );
+}
+
+function ChoiceTable({ question, caseId }: { question: ComparedQuestion; caseId: string }) {
+  const runs = question.runs as ChoiceRun[];
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-[#C6CDD9]">
+          <th className="px-3 py-2 text-left font-semibold text-[#16305B]">Answer</th>
+          <RunHeaders runs={runs} caseId={caseId} />
+        </tr>
+      </thead>
+      <tbody>
+        {(question.options || []).map((option, i) => (
+          <tr key={option} className="border-b border-[#C6CDD9]/50 last:border-0">
+            <td className="px-3 py-2 text-[#0A2342]">{option}</td>
+            {runs.map((run) => (
+              <td key={run.caseId} className="px-3 py-2 text-right text-[#0A2342]">
+                <span className="font-semibold">{run.options[i].percentage}%</span>{" "}
+                <span className="text-xs text-[#455A7C]">({run.options[i].count})</span>
+                <Delta value={run.options[i].delta} format={formatPoints} />
+              </td>
+            ))}
+          </tr>
+        ))}
+        <tr>
+          <td className="px-3 py-2 text-xs text-[#455A7C]">Jurors answering</td>
+          {runs.map((run) => (
+            <td key={run.caseId} className="px-3 py-2 text-right text-xs text-[#455A7C]">
+              {run.answered}
+            </td>
+          ))}
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+function AmountTable({ question, caseId }: { question: ComparedQuestion; caseId: string }) {
+  const runs = question.runs as AmountRun[];
+  const isDamages = question.questionType === DAMAGES_QUESTION_TYPE;
+  const format = (n: number) => (isDamages ? formatDamagesAmount(n) : String(n));
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-[#C6CDD9]">
+          <th className="px-3 py-2 text-left font-semibold text-[#16305B]">{isDamages ? "Award" : "Answer"}</th>
+          <RunHeaders runs={runs} caseId={caseId} />
+        </tr>
+      </thead>
+      <tbody>
+        {AMOUNT_ROWS.map(({ field, label }) => (
+          <tr key={field} className="border-b border-[#C6CDD9]/50 last:border-0">
+            <td className="px-3 py-2 text-[#0A2342]">{label}</td>
+            {runs.map((run) => (
+              <td key={run.caseId} className="px-3 py-2 text-right text-[#0A2342]">
+                <span className="font-semibold">{run[field] === null ? "—" : format(run[field] as number)}</span>
+                <Delta value={run.shift[field]} format={format} />
+              </td>
+            ))}
+          </tr>
+        ))}
+        <tr>
+          <td className="px-3 py-2 text-xs text-[#455A7C]">Jurors answering</td>
+          {runs.map((run) => (
+            <td key={run.caseId} className="px-3 py-2 text-right text-xs text-[#455A7C]">
+              {run.count}
+            </td>
+          ))}
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Results for this case next to the original and every re-run of it, so the
+ * attorney can see whether strategy changes moved the jury. Hidden until the
+ * case has been tried at least twice with published results.
+ */
+export default function RerunComparison({ caseId }: { caseId: string }) {
+  const [data, setData] = useState<ComparisonData | null>(null);
+  const [attribute, setAttribute] = useState("ageRange");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const loadComparison = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/api/verdicts/compare/${caseId}`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to load run comparison");
+        }
+        setData(result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load run comparison");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadComparison();
+  }, [caseId]);
+
+  if (loading || (!error && (!data || data.runs.length < 2))) return null;
+
+  const demographic = data?.demographics.find((d) => d.attribute === attribute);
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
+      <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
+        <div className="relative flex items-center gap-3">
+          <div className="p-2 bg-white/10 rounded-lg">
+            <ArrowsRightLeftIcon className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-white">Results Across Runs</h2>
+            <p className="text-sm text-white/80 mt-0.5">Compare how each jury answered this case, with changes from the first run</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-5 space-y-6">
+        {error || !data ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {data.runs.map((run) => (
+                <span
+                  key={run.caseId}
+                  className={`px-3 py-1.5 rounded-lg text-xs border ${
+                    String(run.caseId) === caseId
+                      ? "bg-[#16305B] text-white border-[#16305B]"
+                      : "bg-[#f9f7f2] text-[#0A2342] border-[#C6CDD9]"
+                  }`}
+                >
+                  <span className="font-semibold">Run {run.runNumber}</span> • Case #{run.caseId} •{" "}
+                  {formatDateString(run.scheduledDate, { month: "short", day: "numeric", year: "numeric" })} •{" "}
+                  {run.totalVerdicts} verdicts
+                </span>
+              ))}
+            </div>
+
+            {data.questions.length === 0 ? (
+              <p className="text-sm text-[#455A7C]">None of the jury charge questions appear in more than one run.</p>
+            ) : (
+              data.questions.map((question, index) => (
+                <div key={`${question.questionType}-${question.questionText}`} className="border border-[#C6CDD9] rounded-lg p-4 overflow-x-auto">
+                  <p className="text-sm font-semibold text-[#16305B] mb-1">Question {index + 1}</p>
+                  <p className="text-[#0A2342] font-medium mb-3">{question.questionText}</p>
+                  {question.options ? (
+                    <ChoiceTable question={question} caseId={caseId} />
+                  ) : (
+                    <AmountTable question={question} caseId={caseId} />
+                  )}
+                </div>
+              ))
+            )}
+
+            {data.unmatchedQuestions.length > 0 && (
+              <div className="text-xs text-[#455A7C]">
+                <p className="font-semibold mb-1">Asked in only one run (not compared):</p>
+                <ul className="list-disc ml-5 space-y-0.5">
+                  {data.unmatchedQuestions.map((q) => (
+                    <li key={`${q.caseId}-${q.questionText}`}>
+                      Run {q.runNumber}: {q.questionText}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {demographic && (
+              <div className="border border-[#C6CDD9] rounded-lg p-4 overflow-x-auto">
+                <div className="flex items-center justify-between mb-3">
+                  <p className="text-sm font-semibold text-[#16305B]">Jury Composition</p>
+                  <select
+                    value={attribute}
+                    onChange={(e) => setAttribute(e.target.value)}
+                    className="px-3 py-1.5 rounded-lg text-sm font-semibold border border-[#C6CDD9] text-[#16305B] focus:outline-none"
+                  >
+                    {data.demographics.map((d) => (
+                      <option key={d.attribute} value={d.attribute}>
+                        {d.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-xs text-[#455A7C] mb-2">
+                  To protect juror anonymity, group counts below {data.minCellSize} are suppressed.
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-[#C6CDD9]">
+                      <th className="px-3 py-2 text-left font-semibold text-[#16305B]">{demographic.label}</th>
+                      <RunHeaders runs={demographic.runs} caseId={caseId} />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {demographic.groups.map((group, i) => (
+                      <tr key={group} className="border-b border-[#C6CDD9]/50 last:border-0">
+                        <td className="px-3 py-2 text-[#0A2342]">{group}</td>
+                        {demographic.runs.map((run) => (
+                          <td key={run.caseId} className="px-3 py-2 text-right text-[#0A2342]">
+                            {run.groups[i].suppressed ? (
+                              <span className="inline-flex items-center gap-1 text-xs text-[#455A7C] italic">
+                                <EyeSlashIcon className="w-3.5 h-3.5" />
+                                Suppressed
+                              </span>
+                            ) : (
+                              <>
+                                <span className="font-semibold">{run.groups[i].percentage}%</span>{" "}
+                                <span className="text-xs text-[#455A7C]">({run.groups[i].count})</span>
+                                <Delta value={run.groups[i].delta} format={formatPoints} />
+                              </>
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
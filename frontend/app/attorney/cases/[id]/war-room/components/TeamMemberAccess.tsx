@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { CheckCircleIcon, ClockIcon, PaperAirplaneIcon } from "@heroicons/react/24/outline";
+import {
+  TEAM_PERMISSION_LABELS,
+  resendTeamInvite,
+  togglePermission,
+  updateTeamPermissions,
+  type TeamInviteStatus,
+  type TeamMemberRecord,
+  type TeamPermission,
+  type TeamPermissions,
+} from "@/lib/warRoomTeam";
+
+// ============================================
+// PERMISSION CHECKBOXES
+// ============================================
+
+interface TeamPermissionCheckboxesProps {
+  permissions: TeamPermissions;
+  onChange: (permissions: TeamPermissions) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Checkbox per team permission; used both when adding and editing a member
+ */
+export function TeamPermissionCheckboxes({ permissions, onChange, disabled }: TeamPermissionCheckboxesProps) {
+  return (
+    <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+      {(Object.keys(TEAM_PERMISSION_LABELS) as TeamPermission[]).map((permission) => (
+        <label
+          key={permission}
+          className="flex items-center gap-1.5 text-xs text-[#455A7C] cursor-pointer"
+        >
+          <input
+            type="checkbox"
+            checked={permissions[permission]}
+            onChange={() => onChange(togglePermission(permissions, permission))}
+            disabled={disabled}
+            className="rounded border-[#C6CDD9] text-[#16305B] focus:ring-[#16305B]/20"
+          />
+          {TEAM_PERMISSION_LABELS[permission]}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// ============================================
+// MEMBER ACCESS PANEL
+// ============================================
+
+interface TeamMemberAccessProps {
+  caseId: string;
+  member: TeamMemberRecord;
+  onUpdated: (member: TeamMemberRecord) => void;
+}
+
+function InviteStatusBadge({ status }: { status: TeamInviteStatus }) {
+  if (status === "accepted") {
+    return (
+      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold bg-green-50 text-green-700">
+        <CheckCircleIcon className="w-3 h-3" />
+        Joined
+      </span>
+    );
+  }
+  return (
+    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold bg-amber-50 text-amber-700">
+      <ClockIcon className="w-3 h-3" />
+      Invite pending
+    </span>
+  );
+}
+
+/**
+ * Invite status, resend action and permission toggles for one team member
+ */
+export default function TeamMemberAccess({ caseId, member, onUpdated }: TeamMemberAccessProps) {
+  const [saving, setSaving] = useState(false);
+  const [resending, setResending] = useState(false);
+
+  const handlePermissionsChange = async (permissions: TeamPermissions) => {
+    setSaving(true);
+    try {
+      onUpdated(await updateTeamPermissions(caseId, member.Id, permissions));
+    } catch (error) {
+      console.error("Error updating team permissions:", error);
+      toast.error((error instanceof Error && error.message) || "Failed to update permissions");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setResending(true);
+    try {
+      onUpdated(await resendTeamInvite(caseId, member.Id));
+      toast.success(`Invitation sent to ${member.Email}`);
+    } catch (error) {
+      console.error("Error resending team invite:", error);
+      toast.error((error instanceof Error && error.message) || "Failed to send invitation");
+    } finally {
+      setResending(false);
+    }
+  };
+
+  const inviteExpired =
+    member.InviteStatus === "pending" &&
+    !!member.InviteExpiresAt &&
+    new Date(member.InviteExpiresAt) < new Date();
+
+  return (
+    <div className="mt-3 pt-3 border-t border-[#C6CDD9] space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1.5">
+          <InviteStatusBadge status={member.InviteStatus} />
+          {inviteExpired && <span className="text-xs text-red-600">Expired</span>}
+        </div>
+        {member.InviteStatus === "pending" && (
+          <button
+            onClick={handleResend}
+            disabled={resending}
+            className="inline-flex items-center gap-1 text-xs font-semibold text-[#16305B] hover:underline disabled:opacity-50 cursor-pointer"
+          >
+            <PaperAirplaneIcon className="w-3 h-3" />
+            {resending ? "Sending..." : member.InvitedAt ? "Resend Invite" : "Send Invite"}
+          </button>
+        )}
+      </div>
+      <TeamPermissionCheckboxes
+        permissions={member.Permissions}
+        onChange={handlePermissionsChange}
+        disabled={saving}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { CalendarDaysIcon, PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { getToken } from "@/lib/apiClient";
+import { dateToString, formatDateString, formatTime } from "@/lib/dateUtils";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+const MAX_LABEL_LENGTH = 100;
+
+type TrialSession = {
+  sessionNumber: number;
+  label: string | null;
+  scheduledDate: string;
+  scheduledTime: string;
+  isPrimary: boolean;
+};
+
+type SessionDraft = {
+  label: string;
+  scheduledDate: string;
+  scheduledTime: string;
+};
+
+type SessionsResponse = {
+  sessions: TrialSession[];
+  currentSessionNumber: number | null;
+  currentSessionState: "open" | "upcoming" | "ended" | null;
+  maxSessions: number;
+  editable: boolean;
+};
+
+// Each session must be on a later day than the one before it
+const dayAfter = (date: string) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+};
+
+const toDrafts = (sessions: TrialSession[]): SessionDraft[] =>
+  sessions
+    .filter((s) => !s.isPrimary)
+    .map((s) => ({ label: s.label || "", scheduledDate: s.scheduledDate, scheduledTime: s.scheduledTime.slice(0, 5) }));
+
+/**
+ * Sessions of a multi-day trial. Session 1 is the case's scheduled slot;
+ * the attorney can add later days (e.g. deliberation the day after the
+ * presentation), each with its own reminders and trial-room opening.
+ */
+export default function TrialSessions({ caseId }: { caseId: string }) {
+  const [data, setData] = useState<SessionsResponse | null>(null);
+  const [drafts, setDrafts] = useState<SessionDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/api/case/cases/${caseId}/sessions`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        });
+        const result = await response.json();
+        if (response.ok && result.success) {
+          setData(result);
+          setDrafts(toDrafts(result.sessions));
+        }
+      } catch (err) {
+        console.error("Error loading trial sessions:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSessions();
+  }, [caseId]);
+
+  const updateDraft = (index: number, changes: Partial<SessionDraft>) =>
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+
+  const saveSessions = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/case/cases/${caseId}/sessions`, {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ sessions: drafts }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || "Failed to save trial sessions");
+      }
+      setData((prev) => (prev ? { ...prev, sessions: result.sessions } : prev));
+      setDrafts(toDrafts(result.sessions));
+      toast.success("Trial sessions saved");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save trial sessions");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!loading && !data) return null;
+
+  const primary = data?.sessions.find((s) => s.isPrimary);
+  const editable = !!data?.editable;
+
+  const inputClass =
+    "px-3 py-2 border border-[#C6CDD9] rounded-lg text-sm text-[#0A2342] focus:outline-none focus:ring-2 focus:ring-[#16305B] disabled:bg-[#f9f7f2]";
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
+      <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
+        <div className="relative flex items-center gap-3">
+          <div className="p-2 bg-white/10 rounded-lg">
+            <CalendarDaysIcon className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-white">Trial Sessions</h2>
+            <p className="text-sm text-white/80 mt-0.5">
+              Split a larger trial across days. Jurors are reminded and can join before each session.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-5 space-y-3">
+        {loading || !data ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-[#16305B]/30 border-t-[#16305B]"></div>
+          </div>
+        ) : (
+          <>
+            {primary ? (
+              <div className="p-3 rounded-lg border border-[#C6CDD9] bg-[#FAF9F6] flex flex-wrap items-center gap-x-3 gap-y-1">
+                <span className="text-sm font-semibold text-[#16305B]">Session 1</span>
+                <span className="text-sm text-[#0A2342]">
+                  {formatDateString(primary.scheduledDate, { weekday: "short", month: "short", day: "numeric", year: "numeric" })} at{" "}
+                  {formatTime(primary.scheduledTime)}
+                </span>
+                <span className="text-xs text-[#455A7C]">Case schedule</span>
+                {data.currentSessionNumber === 1 && data.currentSessionState === "open" && (
+                  <span className="px-2 py-0.5 rounded text-xs font-semibold bg-green-100 text-green-700">In session</span>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-[#455A7C]">Schedule the case before adding more sessions.</p>
+            )}
+
+            {drafts.map((draft, index) => {
+              const sessionNumber = index + 2;
+              const previousDate = index === 0 ? primary?.scheduledDate : drafts[index - 1].scheduledDate;
+              return (
+                <div key={sessionNumber} className="p-3 rounded-lg border border-[#C6CDD9] bg-[#FAF9F6] flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-semibold text-[#16305B] w-20">Session {sessionNumber}</span>
+                  <input
+                    type="date"
+                    value={draft.scheduledDate}
+                    min={previousDate ? dayAfter(previousDate) : dateToString(new Date())}
+                    onChange={(e) => updateDraft(index, { scheduledDate: e.target.value })}
+                    disabled={!editable}
+                    className={inputClass}
+                  />
+                  <input
+                    type="time"
+                    value={draft.scheduledTime}
+                    step={1800}
+                    onChange={(e) => updateDraft(index, { scheduledTime: e.target.value })}
+                    disabled={!editable}
+                    className={inputClass}
+                  />
+                  <input
+                    value={draft.label}
+                    onChange={(e) => updateDraft(index, { label: e.target.value })}
+                    maxLength={MAX_LABEL_LENGTH}
+                    disabled={!editable}
+                    placeholder="Label (e.g. Deliberation)"
+                    className={`${inputClass} flex-1 min-w-[160px]`}
+                  />
+                  {data.currentSessionNumber === sessionNumber && data.currentSessionState === "open" && (
+                    <span className="px-2 py-0.5 rounded text-xs font-semibold bg-green-100 text-green-700">In session</span>
+                  )}
+                  {editable && (
+                    <button
+                      onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+                      className="p-2 text-[#455A7C] hover:text-red-600"
+                      title="Remove session"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+
+            {editable && primary && (
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() =>
+                    setDrafts((prev) => [
+                      ...prev,
+                      { label: "", scheduledDate: "", scheduledTime: primary.scheduledTime.slice(0, 5) },
+                    ])
+                  }
+                  disabled={drafts.length + 1 >= data.maxSessions}
+                  className="flex items-center gap-1 text-sm font-semibold text-[#16305B] disabled:opacity-40"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  Add session
+                </button>
+                <button
+                  onClick={saveSessions}
+                  disabled={saving}
+                  className="px-4 py-2 rounded-lg text-sm font-semibold text-white bg-[#16305B] hover:bg-[#0A2342] disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : "Save Sessions"}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
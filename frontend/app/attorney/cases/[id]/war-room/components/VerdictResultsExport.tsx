@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import {
+  ArrowDownTrayIcon,
+  ChartBarIcon,
+  DocumentTextIcon,
+  TableCellsIcon,
+} from "@heroicons/react/24/outline";
+import { getToken } from "@/lib/apiClient";
+import { formatDateString } from "@/lib/dateUtils";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+type ReportFormat = "pdf" | "csv";
+
+interface VerdictResultsExportProps {
+  caseId: string;
+  publishedAt?: string | null;
+}
+
+export default function VerdictResultsExport({ caseId, publishedAt }: VerdictResultsExportProps) {
+  const [downloading, setDownloading] = useState<ReportFormat | null>(null);
+
+  const downloadReport = async (format: ReportFormat) => {
+    setDownloading(format);
+    try {
+      const response = await fetch(`${API_BASE}/api/verdicts/export/${caseId}?format=${format}`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to download report");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `verdict-report-case-${caseId}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to download report");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
+      <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
+        <div className="relative flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white/10 rounded-lg">
+              <ChartBarIcon className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">Verdict Results</h2>
+              <p className="text-sm text-white/80 mt-0.5">
+                {publishedAt ? `Published ${formatDateString(publishedAt)}` : "Results have been published"}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadReport("pdf")}
+              disabled={downloading !== null}
+              className="px-4 py-1.5 bg-white text-[#16305B] rounded-lg font-semibold text-sm hover:bg-white/90 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+            >
+              {downloading === "pdf" ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-2 border-[#16305B]/30 border-t-[#16305B]"></div>
+              ) : (
+                <DocumentTextIcon className="w-4 h-4" />
+              )}
+              Export PDF
+            </button>
+            <button
+              onClick={() => downloadReport("csv")}
+              disabled={downloading !== null}
+              className="px-4 py-1.5 bg-white/10 text-white rounded-lg font-semibold text-sm hover:bg-white/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+            >
+              {downloading === "csv" ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-2 border-white/30 border-t-white"></div>
+              ) : (
+                <TableCellsIcon className="w-4 h-4" />
+              )}
+              Export CSV
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="p-5 flex items-start gap-3 text-sm text-[#455A7C]">
+        <ArrowDownTrayIcon className="w-5 h-5 text-[#16305B] flex-shrink-0" />
+        <p>
+          The report includes the case summary, each jury charge question with its answer breakdown, anonymized
+          juror demographics, and written responses. Jurors are identified by number only.
+        </p>
+      </div>
+    </div>
+  );
+}
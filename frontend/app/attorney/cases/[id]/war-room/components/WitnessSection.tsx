@@ -32,7 +32,19 @@ type Witness = {
   description: string;
 };
 
-export default function WitnessSection({ caseId }: { caseId: string }) {
+/**
+ * lockedSide is set when the case has opposing counsel: those witnesses are
+ * managed by the other attorney and shown read-only here.
+ */
+export default function WitnessSection({
+  caseId,
+  lockedSide,
+}: {
+  caseId: string;
+  lockedSide?: Witness["side"];
+}) {
+  const ownSide: Witness["side"] = lockedSide === "Plaintiff" ? "Defendant" : "Plaintiff";
+
   const [witnesses, setWitnesses] = useState<Witness[]>([]);
   const [loading, setLoading] = useState(false);
   const [saved, setSaved] = useState(false);
@@ -74,7 +86,7 @@ export default function WitnessSection({ caseId }: { caseId: string }) {
   const addWitness = () => {
     setWitnesses([
       ...witnesses,
-      { name: "", side: "Plaintiff", description: "" },
+      { name: "", side: ownSide, description: "" },
     ]);
     setShowAddForm(true);
   };
@@ -109,7 +121,9 @@ export default function WitnessSection({ caseId }: { caseId: string }) {
           Authorization: `Bearer ${token}`,
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ witnesses }),
+        body: JSON.stringify({
+          witnesses: lockedSide ? witnesses.filter((w) => w.side !== lockedSide) : witnesses,
+        }),
       });
 
       if (response.ok) {
@@ -153,7 +167,9 @@ export default function WitnessSection({ caseId }: { caseId: string }) {
             <div>
               <h2 className="text-xl font-semibold text-white">Witnesses</h2>
               <p className="text-sm text-white/80 mt-0.5">
-                Credibility evaluation for trial witnesses
+                {lockedSide
+                  ? `Credibility evaluation for trial witnesses • ${lockedSide} witnesses are managed by opposing counsel`
+                  : "Credibility evaluation for trial witnesses"}
               </p>
             </div>
           </div>
@@ -237,12 +253,14 @@ export default function WitnessSection({ caseId }: { caseId: string }) {
                                 </span>
                               </div>
                             </div>
+                            {witness.side !== lockedSide && (
                             <button
                               onClick={() => removeWitness(actualIndex)}
                               className="p-1.5 hover:bg-red-50 rounded transition-colors"
                             >
                               <TrashIcon className="w-4 h-4 text-red-600" />
                             </button>
+                            )}
                           </div>
 
                           {!witness.WitnessId ? (
@@ -263,8 +281,8 @@ export default function WitnessSection({ caseId }: { caseId: string }) {
                                   onChange={(e) => updateWitness(actualIndex, "side", e.target.value)}
                                   className="w-full px-3 py-2 border border-[#C6CDD9] rounded-lg focus:ring-1 focus:ring-[#16305B] focus:border-[#16305B] bg-white text-[#0A2342] font-medium text-sm"
                                 >
-                                  <option value="Plaintiff">Plaintiff Witness</option>
-                                  <option value="Defendant">Defendant Witness</option>
+                                  {lockedSide !== "Plaintiff" && <option value="Plaintiff">Plaintiff Witness</option>}
+                                  {lockedSide !== "Defendant" && <option value="Defendant">Defendant Witness</option>}
                                 </select>
                               </div>
                               <div>
@@ -328,12 +346,14 @@ export default function WitnessSection({ caseId }: { caseId: string }) {
                                 </span>
                               </div>
                             </div>
+                            {witness.side !== lockedSide && (
                             <button
                               onClick={() => removeWitness(actualIndex)}
                               className="p-1.5 hover:bg-red-50 rounded transition-colors"
                             >
                               <TrashIcon className="w-4 h-4 text-red-600" />
                             </button>
+                            )}
                           </div>
 
                           {!witness.WitnessId ? (
@@ -354,8 +374,8 @@ export default function WitnessSection({ caseId }: { caseId: string }) {
                                   onChange={(e) => updateWitness(actualIndex, "side", e.target.value)}
                                   className="w-full px-3 py-2 border border-[#C6CDD9] rounded-lg focus:ring-1 focus:ring-[#16305B] focus:border-[#16305B] bg-white text-[#0A2342] font-medium text-sm"
                                 >
-                                  <option value="Plaintiff">Plaintiff Witness</option>
-                                  <option value="Defendant">Defendant Witness</option>
+                                  {lockedSide !== "Plaintiff" && <option value="Plaintiff">Plaintiff Witness</option>}
+                                  {lockedSide !== "Defendant" && <option value="Defendant">Defendant Witness</option>}
                                 </select>
                               </div>
                               <div>
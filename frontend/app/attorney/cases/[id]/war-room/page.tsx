@@ -5,7 +5,19 @@ import toast from "react-hot-toast";
 import { useProtectedRoute } from "@/hooks/useProtectedRoute";
 import WitnessSection from "./components/WitnessSection";
 import JuryChargeBuilder from "./components/JuryChargeBuilder";
+import VerdictResultsExport from "./components/VerdictResultsExport";
+import DemographicCrossTab from "./components/DemographicCrossTab";
+import RerunComparison from "./components/RerunComparison";
+import ReactionTimeline from "./components/ReactionTimeline";
+import DebriefSurveyBuilder from "./components/DebriefSurveyBuilder";
+import DebriefFeedback from "./components/DebriefFeedback";
+import TrialSessions from "./components/TrialSessions";
+import OpposingCounsel, { OpposingCounselInfo, counselSideLabel } from "./components/OpposingCounsel";
+import TeamMemberAccess, { TeamPermissionCheckboxes } from "./components/TeamMemberAccess";
+import DocumentVersionHistory from "./components/DocumentVersionHistory";
+import CaseStatusTimeline from "@/components/CaseStatusTimeline";
 import { formatDateString } from "@/lib/dateUtils";
+import { DEFAULT_TEAM_PERMISSIONS, type TeamMemberRecord, type TeamPermissions } from "@/lib/warRoomTeam";
 import {
   CheckCircleIcon,
   ExclamationCircleIcon,
@@ -33,7 +45,7 @@ type TeamMember = {
   Name: string;
   Role: string;
   Email: string;
-  Id?: number;
+  permissions: TeamPermissions;
 };
 
 type Document = {
@@ -41,6 +53,7 @@ type Document = {
   FileName: string;
   Description: string;
   FileUrl: string;
+  CurrentVersion?: number;
 };
 
 type FileToUpload = {
@@ -52,6 +65,8 @@ type FileToUpload = {
   controller?: AbortController;
   uploadedDocId?: number;
   uploadedFileUrl?: string;
+  /** Existing document this file replaces as a new version */
+  versionOf?: number;
 };
 
 type Application = {
@@ -77,6 +92,8 @@ type CaseData = {
   JuryChargeStatus?: 'pending' | 'completed';
   JuryChargeReleasedAt?: string | null;
   JuryChargeReleasedBy?: number | null;
+  VerdictStatus?: string | null;
+  VerdictPublishedAt?: string | null;
   CaseType?: string;
   County?: string;
   State?: string;
@@ -209,7 +226,7 @@ export default function WarRoomPage() {
 
   const [loading, setLoading] = useState(true);
   const [caseData, setCaseData] = useState<CaseData | null>(null);
-  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+  const [teamMembers, setTeamMembers] = useState<TeamMemberRecord[]>([]);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [applications, setApplications] = useState<Application[]>([]);
   const [selectedApplication, setSelectedApplication] = useState<Application | null>(null);
@@ -218,13 +235,14 @@ export default function WarRoomPage() {
 
   // Team modal state
   const [showAddTeam, setShowAddTeam] = useState(false);
-  const [newMembers, setNewMembers] = useState<TeamMember[]>([{ Name: "", Role: "", Email: "" }]);
+  const [newMembers, setNewMembers] = useState<TeamMember[]>([{ Name: "", Role: "", Email: "", permissions: DEFAULT_TEAM_PERMISSIONS }]);
   const [isAddingTeam, setIsAddingTeam] = useState(false);
   const [teamEmailErrors, setTeamEmailErrors] = useState<string[]>([]);
 
   // Document upload state
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [filesToUpload, setFilesToUpload] = useState<FileToUpload[]>([]);
+  const [historyDocId, setHistoryDocId] = useState<number | null>(null);
   const [uploadingDocuments, setUploadingDocuments] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const hasAutoOpenedRescheduleModal = useRef(false);
@@ -262,6 +280,10 @@ export default function WarRoomPage() {
   const [submittingReschedule, setSubmittingReschedule] = useState(false);
   const [pendingRescheduleRequest, setPendingRescheduleRequest] = useState<any>(null);
 
+  // Opposing counsel (and whether the viewer is the owner or the opposing attorney)
+  const [counselInfo, setCounselInfo] = useState<OpposingCounselInfo | null>(null);
+  const isOpposingCounsel = counselInfo?.viewerRole === "opposing";
+
   useEffect(() => {
     fetchWarRoomData();
   }, [caseId]);
@@ -272,6 +294,7 @@ export default function WarRoomPage() {
       !loading &&
       !hasAutoOpenedRescheduleModal.current &&
       caseData &&
+      !isOpposingCounsel &&
       caseData.AdminApprovalStatus === 'reschedule' &&
       !pendingRescheduleRequest
     ) {
@@ -282,7 +305,7 @@ export default function WarRoomPage() {
         duration: 5000,
       });
     }
-  }, [loading, caseData, pendingRescheduleRequest]);
+  }, [loading, caseData, pendingRescheduleRequest, isOpposingCounsel]);
 useEffect(() => {
   if (showSuccessMessage) {
     const timer = setTimeout(() => {
@@ -312,7 +335,7 @@ useEffect(() => {
     }
 
     try {
-      const [caseRes, teamRes, docsRes, appsRes, rescheduleRes] = await Promise.all([
+      const [caseRes, teamRes, docsRes, appsRes, rescheduleRes, counselRes] = await Promise.all([
         fetch(`${API_BASE}/api/case/cases/${caseId}`, {
           headers: createAuthHeaders(token)
         }),
@@ -328,6 +351,9 @@ useEffect(() => {
         fetch(`${API_BASE}/api/attorney/cases/${caseId}/reschedule-status`, {
           headers: createAuthHeaders(token)
         }),
+        fetch(`${API_BASE}/api/case/cases/${caseId}/opposing-counsel`, {
+          headers: createAuthHeaders(token)
+        }),
       ]);
 
       if (caseRes.ok) {
@@ -356,6 +382,10 @@ useEffect(() => {
         const request = rescheduleJson.rescheduleRequest;
         setPendingRescheduleRequest(request && request.Status === 'pending' ? request : null);
       }
+
+      if (counselRes.ok) {
+        setCounselInfo(await counselRes.json());
+      }
     } catch (error) {
       console.error("Error fetching war room data:", error);
     } finally {
@@ -380,12 +410,17 @@ useEffect(() => {
       if (response.ok) {
         await fetchWarRoomData();
         setShowAddTeam(false);
-        setNewMembers([{ Name: "", Role: "", Email: "" }]);
+        setNewMembers([{ Name: "", Role: "", Email: "", permissions: DEFAULT_TEAM_PERMISSIONS }]);
 
         // Show success/error messages
         if (data.addedCount > 0) {
           toast.success(`Successfully added ${data.addedCount} team member(s)`);
         }
+        const added: Array<TeamMemberRecord & { inviteSent: boolean }> = data.members || [];
+        const notInvited = added.filter(m => !m.inviteSent);
+        if (notInvited.length > 0) {
+          toast.error(`Could not email an invitation to ${notInvited.map(m => m.Name).join(", ")}. Use Resend Invite.`);
+        }
         if (data.errors && data.errors.length > 0) {
           data.errors.forEach((e: any) => {
             const name = e.member.Name || e.member.name || 'Unknown';
@@ -477,6 +512,9 @@ useEffect(() => {
             if (fileData.description) {
               formData.append('description', fileData.description);
             }
+            if (fileData.versionOf) {
+              formData.append('versionOf', String(fileData.versionOf));
+            }
 
             xhr.open('POST', `${API_BASE}/api/war-room/cases/${caseId}/war-room/documents`);
             xhr.setRequestHeader('Authorization', `Bearer ${token}`);
@@ -881,7 +919,7 @@ useEffect(() => {
                   <span className="px-3 py-1.5 bg-white/10 rounded-lg text-white font-semibold text-xs">
                     {getTierDisplay(caseData.CaseTier)}
                   </span>
-                  {canUpgradeTier(caseData.CaseTier) && isAdminApproved && (
+                  {canUpgradeTier(caseData.CaseTier) && isAdminApproved && !isOpposingCounsel && (
                     <button
                       onClick={() => setShowUpgradeModal(true)}
                       className="px-3 py-1.5 bg-white/90 hover:bg-white text-[#16305B] rounded-lg font-semibold text-xs transition-all flex items-center gap-1.5"
@@ -891,7 +929,7 @@ useEffect(() => {
                     </button>
                   )}
                   {/* Reschedule Case button - only show if admin approved and case has schedule */}
-                  {isAdminApproved && caseData?.ScheduledDate && caseData?.ScheduledTime && (
+                  {isAdminApproved && !isOpposingCounsel && caseData?.ScheduledDate && caseData?.ScheduledTime && (
                     <button
                       onClick={() => {
                         if (!pendingRescheduleRequest) {
@@ -917,6 +955,7 @@ useEffect(() => {
                     </button>
                   )}
                   {/* Join Trial button removed per UX request; submit will enable join elsewhere */}
+                  {!isOpposingCounsel && (
                   <button
                     onClick={() => setShowSubmitConfirm(true)}
                     disabled={submittingWarRoom || !isWarRoomStatus || !!pendingRescheduleRequest || approvedCount < 1}
@@ -935,7 +974,13 @@ useEffect(() => {
                       </>
                     )}
                   </button>
+                  )}
                 </div>
+                {isOpposingCounsel && counselInfo?.viewerSide ? (
+                  <span className="px-3 py-1 rounded text-xs font-medium bg-white/10 text-white">
+                    {counselSideLabel(counselInfo.viewerSide)} • Invited by {counselInfo.counsel?.owner.name}
+                  </span>
+                ) : (
                 <span className={`px-3 py-1 rounded text-xs font-medium ${
                   !isAdminApproved
                     ? 'bg-amber-500/20 text-amber-100'
@@ -947,6 +992,7 @@ useEffect(() => {
                 }`}>
                   {jurorCountMessage}
                 </span>
+                )}
               </div>
             </div>
           </div>
@@ -1036,6 +1082,18 @@ useEffect(() => {
         {/* Only show war room content if admin has approved */}
         {isAdminApproved && (
           <>
+        {/* Verdict Results Export - available once the admin publishes results
+            (to opposing counsel only when both sides agreed to share them) */}
+        {caseData.VerdictStatus === "published" && (!isOpposingCounsel || counselInfo?.counsel?.resultsShared) && (
+          <>
+            <VerdictResultsExport caseId={caseId} publishedAt={caseData.VerdictPublishedAt} />
+            <DemographicCrossTab caseId={caseId} />
+            <RerunComparison caseId={caseId} />
+            <ReactionTimeline caseId={caseId} />
+            <DebriefFeedback caseId={caseId} />
+          </>
+        )}
+
         {/* Case Overview Card */}
         <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
           <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
@@ -1253,7 +1311,32 @@ useEffect(() => {
           </div>
         </div>
 
-        {/* Team Members Card */}
+        {/* Multi-day Trial Sessions */}
+        <TrialSessions caseId={caseId} />
+
+        {/* Opposing Counsel */}
+        {counselInfo && <OpposingCounsel caseId={caseId} info={counselInfo} onChange={setCounselInfo} />}
+
+        {/* Case Status History */}
+        <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
+          <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
+            <div className="relative flex items-center gap-3">
+              <div className="p-2 bg-white/10 rounded-lg">
+                <ClockIcon className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-white">Status History</h2>
+                <p className="text-sm text-white/80 mt-0.5">Every change to this case&apos;s status</p>
+              </div>
+            </div>
+          </div>
+          <div className="p-5">
+            <CaseStatusTimeline caseId={caseId} />
+          </div>
+        </div>
+
+        {/* Team Members Card (the owner's team) */}
+        {!isOpposingCounsel && (
         <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
           <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
             <div className="relative flex items-center justify-between">
@@ -1293,9 +1376,9 @@ useEffect(() => {
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {teamMembers.map((member, idx) => (
+                {teamMembers.map((member) => (
                   <div
-                    key={idx}
+                    key={member.Id}
                     className="bg-white rounded-lg p-4 border border-[#C6CDD9] hover:border-[#16305B] transition-all group"
                   >
                     <div className="space-y-2">
@@ -1309,7 +1392,7 @@ useEffect(() => {
                           </span>
                           {member.Id && (
                             <button
-                              onClick={() => deleteTeamMember(member.Id!, member.Name)}
+                              onClick={() => deleteTeamMember(member.Id, member.Name)}
                               className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors opacity-0 group-hover:opacity-100"
                               title="Remove team member"
                             >
@@ -1326,6 +1409,13 @@ useEffect(() => {
                         </div>
                       </div>
                     </div>
+                    <TeamMemberAccess
+                      caseId={caseId}
+                      member={member}
+                      onUpdated={(updated) =>
+                        setTeamMembers(prev => prev.map(m => (m.Id === updated.Id ? updated : m)))
+                      }
+                    />
                   </div>
                 ))}
               </div>
@@ -1406,6 +1496,18 @@ useEffect(() => {
                         {teamEmailErrors[idx] && (
                           <p className="text-red-500 text-xs mt-0.5">{teamEmailErrors[idx]}</p>
                         )}
+                        <div className="pt-1">
+                          <p className="text-xs font-semibold text-[#0A2342] mb-1">Access once they accept the emailed invite</p>
+                          <TeamPermissionCheckboxes
+                            permissions={member.permissions}
+                            onChange={(permissions) => {
+                              const updated = [...newMembers];
+                              updated[idx] = { ...updated[idx], permissions };
+                              setNewMembers(updated);
+                            }}
+                            disabled={isAddingTeam}
+                          />
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -1413,7 +1515,7 @@ useEffect(() => {
 
                 <div className="flex gap-2 mt-3">
                   <button
-                    onClick={() => setNewMembers([...newMembers, { Name: "", Role: "", Email: "" }])}
+                    onClick={() => setNewMembers([...newMembers, { Name: "", Role: "", Email: "", permissions: DEFAULT_TEAM_PERMISSIONS }])}
                     disabled={isAddingTeam}
                     className="px-3 py-1.5 bg-white text-[#16305B] rounded-lg font-semibold text-sm hover:bg-[#f9f7f2] transition-all disabled:opacity-50 border border-[#16305B] cursor-pointer"
                   >
@@ -1450,7 +1552,7 @@ useEffect(() => {
                   <button
                     onClick={() => {
                       setShowAddTeam(false);
-                      setNewMembers([{ Name: "", Role: "", Email: "" }]);
+                      setNewMembers([{ Name: "", Role: "", Email: "", permissions: DEFAULT_TEAM_PERMISSIONS }]);
                       setTeamEmailErrors([]);
                     }}
                     disabled={isAddingTeam}
@@ -1463,17 +1565,32 @@ useEffect(() => {
             )}
           </div>
         </div>
+        )}
 
-        {/* Witness Section */}
-        <WitnessSection caseId={caseId} />
-
-        {/* Jury Charge Builder Section */}
-        <JuryChargeBuilder
-          caseId={parseInt(caseId)}
-          isLocked={juryChargeLocked}
-          onLockStatusChange={setJuryChargeLocked}
+        {/* Witness Section - with opposing counsel each side manages its own witnesses */}
+        <WitnessSection
+          caseId={caseId}
+          lockedSide={
+            counselInfo?.counsel?.status === "accepted" && counselInfo.viewerSide
+              ? counselInfo.viewerSide === "plaintiff" ? "Defendant" : "Plaintiff"
+              : undefined
+          }
         />
 
+        {!isOpposingCounsel && (
+          <>
+            {/* Jury Charge Builder Section */}
+            <JuryChargeBuilder
+              caseId={parseInt(caseId)}
+              isLocked={juryChargeLocked}
+              onLockStatusChange={setJuryChargeLocked}
+            />
+
+            {/* Post-Trial Debrief Survey */}
+            <DebriefSurveyBuilder caseId={caseId} />
+          </>
+        )}
+
         {/* Documents Card */}
         <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
           <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
@@ -1520,11 +1637,25 @@ useEffect(() => {
                           <DocumentTextIcon className="w-4 h-4 text-[#16305B]" />
                         </div>
                         <div className="flex-1 space-y-0.5">
-                          <h4 className="font-semibold text-[#0A2342] text-sm">{doc.FileName}</h4>
+                          <div className="flex items-center gap-1.5">
+                            <h4 className="font-semibold text-[#0A2342] text-sm">{doc.FileName}</h4>
+                            {doc.CurrentVersion && doc.CurrentVersion > 1 && (
+                              <span className="px-1.5 py-0.5 rounded text-xs font-semibold bg-[#16305B]/10 text-[#16305B]">
+                                v{doc.CurrentVersion}
+                              </span>
+                            )}
+                          </div>
                           <p className="text-xs text-[#455A7C]">{doc.Description}</p>
                         </div>
                       </div>
                       <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => setHistoryDocId(historyDocId === doc.Id ? null : doc.Id)}
+                          className="p-1.5 hover:bg-[#FAF9F6] rounded transition-colors"
+                          title="Version history"
+                        >
+                          <ClockIcon className="w-4 h-4 text-[#16305B]" />
+                        </button>
                         <a
                           href={doc.FileUrl}
                           target="_blank"
@@ -1542,6 +1673,9 @@ useEffect(() => {
                         </button>
                       </div>
                     </div>
+                    {historyDocId === doc.Id && (
+                      <DocumentVersionHistory caseId={caseId} documentId={doc.Id} onRestored={fetchWarRoomData} />
+                    )}
                   </div>
                 ))}
               </div>
@@ -1627,6 +1761,26 @@ useEffect(() => {
                         disabled={fileData.status === 'uploading' || fileData.status === 'completed'}
                         className="w-full px-2 py-1.5 border border-[#C6CDD9] rounded focus:ring-1 focus:ring-[#16305B] focus:border-[#16305B] text-[#0A2342] placeholder:text-gray-500 text-xs disabled:bg-gray-100 disabled:cursor-not-allowed"
                       />
+                      {documents.length > 0 && (
+                        <select
+                          value={fileData.versionOf ?? ""}
+                          onChange={(e) => {
+                            const versionOf = e.target.value ? Number(e.target.value) : undefined;
+                            setFilesToUpload(filesToUpload.map(f =>
+                              f.id === fileData.id ? { ...f, versionOf } : f
+                            ));
+                          }}
+                          disabled={fileData.status === 'uploading' || fileData.status === 'completed'}
+                          className="mt-2 w-full px-2 py-1.5 border border-[#C6CDD9] rounded focus:ring-1 focus:ring-[#16305B] focus:border-[#16305B] text-[#0A2342] text-xs bg-white disabled:bg-gray-100 disabled:cursor-not-allowed"
+                        >
+                          <option value="">New document</option>
+                          {documents.map((doc) => (
+                            <option key={doc.Id} value={doc.Id}>
+                              New version of {doc.FileName}
+                            </option>
+                          ))}
+                        </select>
+                      )}
 
                       {/* Progress Bar */}
                       {fileData.status === 'uploading' && (
@@ -1692,6 +1846,7 @@ useEffect(() => {
         </div>
 
         {/* Applications Card */}
+        {!isOpposingCounsel && (
         <div className="bg-white rounded-lg shadow border border-[#C6CDD9] overflow-hidden">
           <div className="relative p-5" style={{ backgroundColor: "#16305B" }}>
             <div className="relative flex items-center justify-between">
@@ -1837,6 +1992,7 @@ useEffect(() => {
             )}
           </div>
         </div>
+        )}
 
         {/* Application Details Modal */}
         {showApplicationModal && selectedApplication && (
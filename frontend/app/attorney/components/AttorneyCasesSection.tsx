@@ -1,10 +1,12 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { ArrowLeft, Lock, Clock, AlertCircle, Calendar, ChevronLeft, ChevronRight, Plus, RefreshCw } from "lucide-react";
+import { ArrowLeft, Lock, Clock, AlertCircle, Calendar, ChevronLeft, ChevronRight, Plus, RefreshCw, RotateCcw, User } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { getToken } from "@/lib/apiClient";
-import { formatDateString } from "@/lib/dateUtils";
+import { dateToString, formatDateString } from "@/lib/dateUtils";
+import CaseDraftsList from "./CaseDraftsList";
+import OpposingCounselInvitations from "./OpposingCounselInvitations";
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL
   ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
@@ -31,8 +33,13 @@ type Case = {
   AdminApprovalStatus: string;
   RescheduleRequired?: number | boolean;
   AlternateSlots?: string;
+  SourceCaseId?: number | null;
+  AttorneyId?: number;
+  AttorneyName?: string;
 };
 
+type CaseScope = "mine" | "firm";
+
 // Use getToken from apiClient (imported above)
 
 function getCaseName(plaintiffGroups: string, defendantGroups: string) {
@@ -123,6 +130,11 @@ function isCaseDayOver(scheduledDate: string, scheduledTime?: string): boolean {
   return trialLocal < todayLocal;
 }
 
+// Trials that have finished can be run again with a fresh jury
+function canRunAgain(c: Case): boolean {
+  return c.AttorneyStatus === "view_details" || c.AttorneyStatus === "completed";
+}
+
 function isTrialDay(scheduledDate: string): boolean {
   if (!scheduledDate) return false;
   const now = new Date();
@@ -161,6 +173,14 @@ export default function AttorneyCasesSection({ onBack }: AttorneyCasesSectionPro
   const [refreshing, setRefreshing] = useState(false);
   const [showJoinPrompt, setShowJoinPrompt] = useState(false);
   const [joinTrialCaseId, setJoinTrialCaseId] = useState<number | null>(null);
+  const [rerunCase, setRerunCase] = useState<Case | null>(null);
+  const [rerunDate, setRerunDate] = useState("");
+  const [rerunTime, setRerunTime] = useState("");
+  const [rerunIncludeDocuments, setRerunIncludeDocuments] = useState(true);
+  const [rerunSubmitting, setRerunSubmitting] = useState(false);
+  const [rerunError, setRerunError] = useState<string | null>(null);
+  const [firmName, setFirmName] = useState<string | null>(null);
+  const [scope, setScope] = useState<CaseScope>("mine");
   const CASES_PER_PAGE = 6;
   const router = useRouter();
 
@@ -184,6 +204,19 @@ export default function AttorneyCasesSection({ onBack }: AttorneyCasesSectionPro
     } else {
       setLoading(false);
     }
+  }, [user, scope]);
+
+  // Firm members can switch between their own cases and the whole firm's
+  useEffect(() => {
+    if (!user?.isVerified) return;
+    fetch(`${API_BASE}/api/firms/me`, {
+      headers: { Authorization: `Bearer ${getToken()}` },
+    })
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setFirmName(data.firm?.name || null);
+      })
+      .catch((err) => console.error("Failed to load firm:", err));
   }, [user]);
 
   // Listen for optimistic case status updates from other pages (e.g., war-room submit)
@@ -227,7 +260,8 @@ export default function AttorneyCasesSection({ onBack }: AttorneyCasesSectionPro
     }
 
     // FIXED: Correct endpoint - /api/cases not /api/case/cases
-    const res = await fetch(`${API_BASE}/api/case/cases`, {
+    const query = scope === "firm" ? "?scope=firm" : "";
+    const res = await fetch(`${API_BASE}/api/case/cases${query}`, {
       method: 'GET',
       headers: {
         "Authorization": `Bearer ${token}`,
@@ -291,6 +325,59 @@ export default function AttorneyCasesSection({ onBack }: AttorneyCasesSectionPro
     fetchCases(true);
   };
 
+  const handleScopeChange = (nextScope: CaseScope) => {
+    if (nextScope === scope) return;
+    setPage(1);
+    setScope(nextScope);
+  };
+
+  const openRerun = (e: React.MouseEvent, c: Case) => {
+    e.stopPropagation();
+    setRerunCase(c);
+    setRerunDate("");
+    setRerunTime("");
+    setRerunIncludeDocuments(true);
+    setRerunError(null);
+  };
+
+  const submitRerun = async () => {
+    if (!rerunCase) return;
+    if (!rerunDate || !rerunTime) {
+      setRerunError("Please choose a date and time for the new trial.");
+      return;
+    }
+
+    setRerunSubmitting(true);
+    setRerunError(null);
+    try {
+      const res = await fetch(`${API_BASE}/api/case/cases/${rerunCase.Id}/rerun`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${getToken()}`,
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          scheduledDate: rerunDate,
+          scheduledTime: rerunTime,
+          timezoneOffset: -new Date().getTimezoneOffset(), // Minutes ahead of UTC, as in the case wizard
+          includeDocuments: rerunIncludeDocuments,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.message || "Failed to create case re-run");
+      }
+
+      setRerunCase(null);
+      setPage(1);
+      fetchCases(true);
+    } catch (err) {
+      setRerunError(err instanceof Error ? err.message : "Failed to create case re-run");
+    } finally {
+      setRerunSubmitting(false);
+    }
+  };
+
   const getStatusInfo = (c: Case) => {
     if (c.AdminApprovalStatus === "pending") {
       return {
@@ -514,11 +601,28 @@ export default function AttorneyCasesSection({ onBack }: AttorneyCasesSectionPro
           </button>
           <div className="h-8 w-px bg-gray-300" />
           <div>
-            <h1 className="text-3xl font-bold text-[#16305B]">Your Cases</h1>
-            <p className="text-sm text-gray-600 mt-1">Manage and track all your cases</p>
+            <h1 className="text-3xl font-bold text-[#16305B]">{scope === "firm" ? "Firm Cases" : "Your Cases"}</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              {scope === "firm" ? `All cases across ${firmName}` : "Manage and track all your cases"}
+            </p>
           </div>
         </div>
         <div className="flex items-center gap-3">
+          {firmName && (
+            <div className="flex rounded-lg border-2 border-[#16305B] overflow-hidden">
+              {(["mine", "firm"] as CaseScope[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => handleScopeChange(option)}
+                  className={`px-4 py-2 text-sm font-semibold transition-colors cursor-pointer ${
+                    scope === option ? "bg-[#16305B] text-white" : "text-[#16305B] hover:bg-gray-100"
+                  }`}
+                >
+                  {option === "mine" ? "My Cases" : "Firm Cases"}
+                </button>
+              ))}
+            </div>
+          )}
           <button
             onClick={handleRefresh}
             disabled={refreshing}
@@ -554,6 +658,12 @@ export default function AttorneyCasesSection({ onBack }: AttorneyCasesSectionPro
         </div>
       )}
 
+      {/* Unfinished cases saved by the case wizard */}
+      <CaseDraftsList />
+
+      {/* Cases where this attorney is invited as opposing counsel */}
+      <OpposingCounselInvitations />
+
       {/* Cases Content */}
       {loading ? (
         <div className="flex flex-col justify-center items-center min-h-[400px]">
@@ -582,7 +692,10 @@ export default function AttorneyCasesSection({ onBack }: AttorneyCasesSectionPro
                         <h3 className="font-bold text-base text-white mb-1 line-clamp-2">
                           {getCaseName(c.PlaintiffGroups, c.DefendantGroups)}
                         </h3>
-                        <p className="text-xs text-blue-200">Case #{c.Id}</p>
+                        <p className="text-xs text-blue-200">
+                          Case #{c.Id}
+                          {c.SourceCaseId ? ` · Re-run of #${c.SourceCaseId}` : ""}
+                        </p>
                       </div>
                       {(c.RescheduleRequired || c.AdminApprovalStatus === 'reschedule') ? (
                         <div className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-semibold border bg-orange-100 text-orange-700 border-orange-300 flex-shrink-0">
@@ -602,6 +715,12 @@ export default function AttorneyCasesSection({ onBack }: AttorneyCasesSectionPro
                   <div className="p-5 flex-1 flex flex-col">
                     {/* Date and Time */}
                     <div className="space-y-2 mb-4">
+                      {scope === "firm" && c.AttorneyName && (
+                        <div className="flex items-center gap-2 text-sm text-gray-600">
+                          <User className="w-4 h-4 text-[#16305B]" />
+                          <span className="font-medium">{c.AttorneyId === user.attorneyId ? "You" : c.AttorneyName}</span>
+                        </div>
+                      )}
                       <div className="flex items-center gap-2 text-sm text-gray-600">
                         <Calendar className="w-4 h-4 text-[#16305B]" />
                         <span className="font-medium">{formatDate(c.ScheduledDate)}</span>
@@ -623,8 +742,17 @@ export default function AttorneyCasesSection({ onBack }: AttorneyCasesSectionPro
                     )}
 
                     {/* Action Button anchored to bottom */}
-                    <div className="mt-auto">
+                    <div className="mt-auto space-y-2">
                       {renderCaseButton(c)}
+                      {canRunAgain(c) && (
+                        <button
+                          onClick={(e) => openRerun(e, c)}
+                          className="w-full px-4 py-2.5 border-2 border-[#16305B] text-[#16305B] rounded-lg flex items-center justify-center gap-2 text-sm font-semibold hover:bg-[#16305B] hover:text-white transition-colors"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                          Run Again
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -728,6 +856,79 @@ export default function AttorneyCasesSection({ onBack }: AttorneyCasesSectionPro
         </div>
       )}
 
+      {/* Run Again Modal */}
+      {rerunCase && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full mx-4">
+            <div className="flex items-center justify-center w-14 h-14 rounded-full bg-blue-100 mx-auto mb-4">
+              <RotateCcw className="w-7 h-7 text-[#16305B]" />
+            </div>
+            <h2 className="text-xl font-bold text-[#16305B] mb-2 text-center">Run Again With a Fresh Jury</h2>
+            <p className="text-gray-600 mb-6 text-center text-sm">
+              {getCaseName(rerunCase.PlaintiffGroups, rerunCase.DefendantGroups)} will be copied into a new case
+              with its parties, voir dire, witnesses and jury charge. The new case goes to admin review like any other.
+            </p>
+
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              <label className="text-sm font-semibold text-gray-700">
+                Trial date
+                <input
+                  type="date"
+                  value={rerunDate}
+                  min={dateToString(new Date())}
+                  onChange={(e) => setRerunDate(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 font-normal focus:outline-none focus:ring-2 focus:ring-[#16305B]"
+                />
+              </label>
+              <label className="text-sm font-semibold text-gray-700">
+                Start time
+                <input
+                  type="time"
+                  value={rerunTime}
+                  step={1800}
+                  onChange={(e) => setRerunTime(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 font-normal focus:outline-none focus:ring-2 focus:ring-[#16305B]"
+                />
+              </label>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 mb-4 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={rerunIncludeDocuments}
+                onChange={(e) => setRerunIncludeDocuments(e.target.checked)}
+                className="w-4 h-4 accent-[#16305B]"
+              />
+              Copy war room documents
+            </label>
+
+            {rerunError && (
+              <p className="mb-4 text-sm text-red-600 flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                {rerunError}
+              </p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => setRerunCase(null)}
+                disabled={rerunSubmitting}
+                className="flex-1 px-4 py-2.5 border border-gray-300 text-gray-600 rounded-lg font-semibold hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={submitRerun}
+                disabled={rerunSubmitting}
+                className="flex-1 px-4 py-2.5 bg-[#16305B] text-white rounded-lg font-semibold hover:bg-[#1e417a] transition-colors disabled:opacity-50"
+              >
+                {rerunSubmitting ? "Creating..." : "Create Case"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Join Trial Prompt Modal */}
       {showJoinPrompt && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm">
@@ -0,0 +1,635 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ArrowLeft, Building2, Check, X, UserPlus, Download, Crown, Trash2, LogOut, RefreshCw } from "lucide-react";
+import toast from "react-hot-toast";
+import { getToken } from "@/lib/apiClient";
+import { formatDateString } from "@/lib/dateUtils";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+type FirmRole = "admin" | "member";
+
+type Member = {
+  attorneyId: number;
+  name: string;
+  email: string;
+  role: FirmRole;
+  joinedAt: string;
+  caseCount: number;
+};
+
+type PendingInvite = {
+  inviteId: number;
+  email: string;
+  role: FirmRole;
+  invitedBy: string;
+  invitedAt: string;
+};
+
+type Invitation = {
+  inviteId: number;
+  firmId: number;
+  firmName: string;
+  role: FirmRole;
+  invitedBy: string;
+  invitedAt: string;
+};
+
+type Firm = {
+  firmId: number;
+  name: string;
+  billingEmail: string | null;
+  role: FirmRole;
+  isAdmin: boolean;
+  joinedAt: string;
+  members: Member[];
+  pendingInvites: PendingInvite[];
+};
+
+type BillingSummary = {
+  totalPaid: number;
+  completedPayments: number;
+  pendingPayments: number;
+  totalRefunded: number;
+  byAttorney: { attorneyId: number; name: string; total: number; count: number }[];
+};
+
+type BillingPayment = {
+  paymentId: number;
+  createdAt: string;
+  attorneyId: number;
+  attorneyName: string;
+  caseId: number | null;
+  caseTitle: string | null;
+  paymentType: string;
+  paymentMethod: string;
+  status: string;
+  amount: number;
+};
+
+function formatMoney(amount: number) {
+  return `$${Number(amount || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function getCurrentAttorneyId(): number | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const stored = localStorage.getItem("attorneyUser");
+    return stored ? JSON.parse(stored).attorneyId : null;
+  } catch {
+    return null;
+  }
+}
+
+function billingQuery(from: string, to: string, format?: string) {
+  const params = new URLSearchParams();
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  if (format) params.set("format", format);
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+interface AttorneyFirmSectionProps {
+  onBack: () => void;
+}
+
+/**
+ * Law firm workspace: members share cases and templates, and firm admins
+ * manage invites and see billing across every member's account.
+ */
+export default function AttorneyFirmSection({ onBack }: AttorneyFirmSectionProps) {
+  const [firm, setFirm] = useState<Firm | null>(null);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [attorneyId, setAttorneyId] = useState<number | null>(null);
+
+  const [firmNameInput, setFirmNameInput] = useState("");
+  const [billingEmailInput, setBillingEmailInput] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<FirmRole>("member");
+
+  const [billingFrom, setBillingFrom] = useState("");
+  const [billingTo, setBillingTo] = useState("");
+  const [billingSummary, setBillingSummary] = useState<BillingSummary | null>(null);
+  const [billingPayments, setBillingPayments] = useState<BillingPayment[]>([]);
+  const [billingLoading, setBillingLoading] = useState(false);
+
+  const loadFirm = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE}/api/firms/me`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || "Failed to load firm");
+      }
+      setFirm(data.firm);
+      setInvitations(data.invitations || []);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load firm");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setAttorneyId(getCurrentAttorneyId());
+    loadFirm();
+  }, [loadFirm]);
+
+  const loadBilling = useCallback(async () => {
+    setBillingLoading(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/firms/me/billing${billingQuery(billingFrom, billingTo)}`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || "Failed to load billing");
+      }
+      setBillingSummary(data.summary);
+      setBillingPayments(data.payments);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load billing");
+    } finally {
+      setBillingLoading(false);
+    }
+  }, [billingFrom, billingTo]);
+
+  // Billing covers every member, so reload it when membership changes too
+  useEffect(() => {
+    if (firm?.isAdmin) loadBilling();
+  }, [firm?.isAdmin, firm?.members.length, loadBilling]);
+
+  const exportBilling = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/api/firms/me/billing${billingQuery(billingFrom, billingTo, "csv")}`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        toast.error(error?.message || "Failed to export billing");
+        return;
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `firm-billing-${new Date().toISOString().slice(0, 10)}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting firm billing:", error);
+      toast.error("Failed to export billing");
+    }
+  };
+
+  const request = async (path: string, method: string, body?: object) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/firms${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || "Request failed");
+      }
+      toast.success(result.message);
+      await loadFirm();
+      return result;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Request failed");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createFirm = async () => {
+    const result = await request("", "POST", {
+      name: firmNameInput.trim(),
+      billingEmail: billingEmailInput.trim() || undefined,
+    });
+    if (result) {
+      setFirmNameInput("");
+      setBillingEmailInput("");
+    }
+  };
+
+  const respondToInvitation = async (invitation: Invitation, accept: boolean) => {
+    if (!accept && !confirm(`Decline the invitation to join ${invitation.firmName}?`)) return;
+    await request(`/invites/${invitation.inviteId}/respond`, "POST", { accept });
+  };
+
+  const sendInvite = async () => {
+    const result = await request("/me/invites", "POST", { email: inviteEmail.trim(), role: inviteRole });
+    if (result) {
+      setInviteEmail("");
+      setInviteRole("member");
+    }
+  };
+
+  const revokeInvite = async (invite: PendingInvite) => {
+    if (!confirm(`Withdraw the invitation sent to ${invite.email}?`)) return;
+    await request(`/me/invites/${invite.inviteId}`, "DELETE");
+  };
+
+  const changeRole = async (member: Member, role: FirmRole) => {
+    await request(`/me/members/${member.attorneyId}`, "PUT", { role });
+  };
+
+  const removeMember = async (member: Member) => {
+    const isSelf = member.attorneyId === attorneyId;
+    const prompt = isSelf
+      ? `Leave ${firm?.name}? You will lose access to your colleagues' cases and firm templates.`
+      : `Remove ${member.name} from the firm? Their cases stay with them.`;
+    if (!confirm(prompt)) return;
+    await request(`/me/members/${member.attorneyId}`, "DELETE");
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#16305B]";
+  const cardClass = "mb-6 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden";
+  const cardHeaderClass = "px-5 py-3 border-b border-gray-100 flex items-center justify-between gap-2";
+
+  return (
+    <main className="flex-1 px-10 py-8 bg-[#F7F6F3] transition-all duration-300 ease-in-out">
+      {/* Header with Back Button */}
+      <div className="flex items-center gap-4 mb-6">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-[#16305B] hover:text-[#1e417a] transition-colors group"
+          aria-label="Go back to home"
+        >
+          <ArrowLeft size={24} className="group-hover:-translate-x-1 transition-transform cursor-pointer" />
+          <span className="font-semibold">Back</span>
+        </button>
+        <div className="h-8 w-px bg-gray-300" />
+        <div>
+          <h1 className="text-3xl font-bold text-[#16305B]">{firm ? firm.name : "Firm"}</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            {firm
+              ? "Members see each other's cases and firm-shared templates"
+              : "Work on cases together with the attorneys at your firm"}
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex flex-col justify-center items-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-4 border-b-4 border-[#16305B] mb-4" />
+          <p className="text-gray-600 font-medium">Loading your firm...</p>
+        </div>
+      ) : (
+        <>
+          {/* Invitations addressed to this attorney */}
+          {invitations.length > 0 && (
+            <div className={cardClass}>
+              <div className={cardHeaderClass}>
+                <div className="flex items-center gap-2">
+                  <Building2 className="w-5 h-5 text-[#16305B]" />
+                  <h2 className="font-bold text-[#16305B]">Firm Invitations</h2>
+                  <span className="text-xs text-gray-500">({invitations.length})</span>
+                </div>
+              </div>
+              {firm && (
+                <p className="px-5 pt-3 text-xs text-gray-500">
+                  You must leave {firm.name} before joining another firm.
+                </p>
+              )}
+              <ul className="divide-y divide-gray-100">
+                {invitations.map((invitation) => (
+                  <li key={invitation.inviteId} className="px-5 py-3 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-900 truncate">{invitation.firmName}</p>
+                      <p className="text-xs text-gray-600 mt-0.5">
+                        Invited by {invitation.invitedBy} as {invitation.role === "admin" ? "an admin" : "a member"} ·{" "}
+                        {formatDateString(invitation.invitedAt)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => respondToInvitation(invitation, false)}
+                        disabled={busy}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50 cursor-pointer"
+                        title="Decline invitation"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => respondToInvitation(invitation, true)}
+                        disabled={busy || !!firm}
+                        className="px-4 py-2 bg-[#16305B] text-white rounded-lg text-sm font-semibold flex items-center gap-1.5 hover:bg-[#1e417a] transition-colors disabled:opacity-50 cursor-pointer"
+                      >
+                        <Check className="w-4 h-4" />
+                        Join
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* No firm yet */}
+          {!firm && (
+            <div className={cardClass}>
+              <div className={cardHeaderClass}>
+                <h2 className="font-bold text-[#16305B]">Create a Firm</h2>
+              </div>
+              <div className="p-5 space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1.5 uppercase tracking-wide">
+                      Firm Name
+                    </label>
+                    <input
+                      type="text"
+                      value={firmNameInput}
+                      onChange={(e) => setFirmNameInput(e.target.value)}
+                      placeholder="e.g. Smith & Partners LLP"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1.5 uppercase tracking-wide">
+                      Billing Email (optional)
+                    </label>
+                    <input
+                      type="email"
+                      value={billingEmailInput}
+                      onChange={(e) => setBillingEmailInput(e.target.value)}
+                      placeholder="billing@yourfirm.com"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <button
+                    onClick={createFirm}
+                    disabled={busy || !firmNameInput.trim()}
+                    className="px-4 py-2 bg-[#16305B] text-white rounded-lg text-sm font-semibold flex items-center gap-1.5 hover:bg-[#1e417a] transition-colors disabled:opacity-50 cursor-pointer"
+                  >
+                    <Building2 className="w-4 h-4" />
+                    {busy ? "Creating..." : "Create Firm"}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {firm && (
+            <>
+              {/* Members */}
+              <div className={cardClass}>
+                <div className={cardHeaderClass}>
+                  <div className="flex items-center gap-2">
+                    <Building2 className="w-5 h-5 text-[#16305B]" />
+                    <h2 className="font-bold text-[#16305B]">Members</h2>
+                    <span className="text-xs text-gray-500">({firm.members.length})</span>
+                  </div>
+                  {firm.billingEmail && (
+                    <span className="text-xs text-gray-500">Billing contact: {firm.billingEmail}</span>
+                  )}
+                </div>
+                <ul className="divide-y divide-gray-100">
+                  {firm.members.map((member) => {
+                    const isSelf = member.attorneyId === attorneyId;
+                    return (
+                      <li key={member.attorneyId} className="px-5 py-3 flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                          <p className="font-semibold text-gray-900 truncate flex items-center gap-1.5">
+                            {member.name}
+                            {isSelf && <span className="text-xs font-normal text-gray-500">(you)</span>}
+                            {member.role === "admin" && <Crown className="w-4 h-4 text-amber-500" />}
+                          </p>
+                          <p className="text-xs text-gray-600 mt-0.5">
+                            {member.email} · {member.caseCount} {member.caseCount === 1 ? "case" : "cases"} · Joined{" "}
+                            {formatDateString(member.joinedAt)}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          {firm.isAdmin && !isSelf ? (
+                            <select
+                              value={member.role}
+                              disabled={busy}
+                              onChange={(e) => changeRole(member, e.target.value as FirmRole)}
+                              className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900"
+                            >
+                              <option value="member">Member</option>
+                              <option value="admin">Admin</option>
+                            </select>
+                          ) : (
+                            <span className="px-2 py-1 rounded text-xs font-semibold bg-gray-100 text-gray-700">
+                              {member.role === "admin" ? "Admin" : "Member"}
+                            </span>
+                          )}
+                          {(firm.isAdmin || isSelf) && (
+                            <button
+                              onClick={() => removeMember(member)}
+                              disabled={busy}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50 cursor-pointer"
+                              title={isSelf ? "Leave firm" : "Remove member"}
+                            >
+                              {isSelf ? <LogOut className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+
+              {/* Invites (admins only) */}
+              {firm.isAdmin && (
+                <div className={cardClass}>
+                  <div className={cardHeaderClass}>
+                    <div className="flex items-center gap-2">
+                      <UserPlus className="w-5 h-5 text-[#16305B]" />
+                      <h2 className="font-bold text-[#16305B]">Invite Attorneys</h2>
+                    </div>
+                  </div>
+                  <div className="p-5 space-y-4">
+                    <div className="flex flex-col md:flex-row gap-3">
+                      <input
+                        type="email"
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                        placeholder="Attorney's email"
+                        className={inputClass}
+                      />
+                      <select
+                        value={inviteRole}
+                        onChange={(e) => setInviteRole(e.target.value as FirmRole)}
+                        className={`${inputClass} md:w-40`}
+                      >
+                        <option value="member">Member</option>
+                        <option value="admin">Admin</option>
+                      </select>
+                      <button
+                        onClick={sendInvite}
+                        disabled={busy || !inviteEmail.trim()}
+                        className="px-4 py-2 bg-[#16305B] text-white rounded-lg text-sm font-semibold flex items-center justify-center gap-1.5 hover:bg-[#1e417a] transition-colors disabled:opacity-50 cursor-pointer whitespace-nowrap"
+                      >
+                        <UserPlus className="w-4 h-4" />
+                        Send Invite
+                      </button>
+                    </div>
+
+                    {firm.pendingInvites.length > 0 && (
+                      <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                        {firm.pendingInvites.map((invite) => (
+                          <li key={invite.inviteId} className="px-4 py-2.5 flex items-center justify-between gap-4">
+                            <div className="min-w-0">
+                              <p className="text-sm font-semibold text-gray-900 truncate">{invite.email}</p>
+                              <p className="text-xs text-gray-600">
+                                {invite.role === "admin" ? "Admin" : "Member"} · Invited by {invite.invitedBy} on{" "}
+                                {formatDateString(invite.invitedAt)}
+                              </p>
+                            </div>
+                            <button
+                              onClick={() => revokeInvite(invite)}
+                              disabled={busy}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50 cursor-pointer"
+                              title="Withdraw invitation"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Consolidated billing (admins only) */}
+              {firm.isAdmin && (
+                <div className={cardClass}>
+                  <div className={cardHeaderClass}>
+                    <h2 className="font-bold text-[#16305B]">Firm Billing</h2>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="date"
+                        value={billingFrom}
+                        onChange={(e) => setBillingFrom(e.target.value)}
+                        className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900"
+                        aria-label="From date"
+                      />
+                      <span className="text-gray-400">–</span>
+                      <input
+                        type="date"
+                        value={billingTo}
+                        onChange={(e) => setBillingTo(e.target.value)}
+                        className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900"
+                        aria-label="To date"
+                      />
+                      <button
+                        onClick={loadBilling}
+                        disabled={billingLoading}
+                        className="p-2 text-[#16305B] hover:bg-gray-100 rounded-lg transition disabled:opacity-50 cursor-pointer"
+                        title="Refresh billing"
+                      >
+                        <RefreshCw className={`w-4 h-4 ${billingLoading ? "animate-spin" : ""}`} />
+                      </button>
+                      <button
+                        onClick={exportBilling}
+                        className="px-3 py-1.5 border-2 border-[#16305B] text-[#16305B] rounded-lg text-sm font-semibold flex items-center gap-1.5 hover:bg-[#16305B] hover:text-white transition-colors cursor-pointer"
+                      >
+                        <Download className="w-4 h-4" />
+                        CSV
+                      </button>
+                    </div>
+                  </div>
+
+                  {billingSummary && (
+                    <div className="p-5 space-y-5">
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        {[
+                          { label: "Total Paid", value: formatMoney(billingSummary.totalPaid) },
+                          { label: "Completed", value: billingSummary.completedPayments },
+                          { label: "Pending", value: billingSummary.pendingPayments },
+                          { label: "Refunded", value: formatMoney(billingSummary.totalRefunded) },
+                        ].map((stat) => (
+                          <div key={stat.label} className="p-3 rounded-lg bg-gray-50 border border-gray-100">
+                            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">{stat.label}</p>
+                            <p className="text-xl font-bold text-[#16305B] mt-1">{stat.value}</p>
+                          </div>
+                        ))}
+                      </div>
+
+                      {billingSummary.byAttorney.length > 0 && (
+                        <div>
+                          <h3 className="text-sm font-semibold text-gray-700 mb-2">By Attorney</h3>
+                          <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                            {billingSummary.byAttorney.map((entry) => (
+                              <li key={entry.attorneyId} className="px-4 py-2 flex justify-between text-sm">
+                                <span className="text-gray-900">{entry.name}</span>
+                                <span className="text-gray-600">
+                                  {entry.count} {entry.count === 1 ? "payment" : "payments"} ·{" "}
+                                  <span className="font-semibold text-gray-900">{formatMoney(entry.total)}</span>
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {billingPayments.length > 0 ? (
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-xs text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                                <th className="py-2 pr-4">Date</th>
+                                <th className="py-2 pr-4">Attorney</th>
+                                <th className="py-2 pr-4">Case</th>
+                                <th className="py-2 pr-4">Type</th>
+                                <th className="py-2 pr-4">Status</th>
+                                <th className="py-2 text-right">Amount</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                              {billingPayments.map((payment) => (
+                                <tr key={payment.paymentId} className="text-gray-900">
+                                  <td className="py-2 pr-4 whitespace-nowrap">{formatDateString(payment.createdAt)}</td>
+                                  <td className="py-2 pr-4">{payment.attorneyName}</td>
+                                  <td className="py-2 pr-4">
+                                    {payment.caseTitle || (payment.caseId ? `Case #${payment.caseId}` : "—")}
+                                  </td>
+                                  <td className="py-2 pr-4 capitalize">{payment.paymentType?.replace(/_/g, " ")}</td>
+                                  <td className="py-2 pr-4 capitalize">{payment.status}</td>
+                                  <td className="py-2 text-right font-semibold">{formatMoney(payment.amount)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      ) : (
+                        <p className="text-sm text-gray-500 text-center py-4">No payments in this period.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
@@ -172,7 +172,7 @@ function IntroductorySlider() {
   );
 }
 
-type Section = "home" | "profile" | "notifications" | "cases" | "calendar";
+type Section = "home" | "profile" | "notifications" | "cases" | "calendar" | "firm";
 
 export default function AttorneyHomeSection({ onSectionChange }: { onSectionChange?: (section: Section) => void } = {}) {
   const [user, setUser] = useState<AttorneyUser | null>(null);
@@ -5,8 +5,9 @@ import AttorneyProfileSection from "./AttorneyProfileSection";
 import AttorneyNotificationsSection from "./AttorneyNotificationsSection";
 import AttorneyCasesSection from "./AttorneyCasesSection";
 import AttorneyCalendarSection from "./AttorneyCalendarSection";
+import AttorneyFirmSection from "./AttorneyFirmSection";
 
-type Section = "home" | "profile" | "notifications" | "cases" | "calendar";
+type Section = "home" | "profile" | "notifications" | "cases" | "calendar" | "firm";
 
 interface AttorneyMainSectionProps {
   selectedSection: Section;
@@ -32,6 +33,9 @@ export default function AttorneyMainSection({ selectedSection, onSectionChange }
     case "calendar":
       content = <AttorneyCalendarSection onBack={handleBack} />;
       break;
+    case "firm":
+      content = <AttorneyFirmSection onBack={handleBack} />;
+      break;
     case "home":
     default:
       content = <AttorneyHomeSection onSectionChange={onSectionChange} />;
@@ -13,6 +13,7 @@ import {
   Home,
   Briefcase,
   Calendar,
+  Building2,
   LogOut,
   ArrowLeft,
   ArrowRight,
@@ -29,7 +30,7 @@ const API_BASE = process.env.NEXT_PUBLIC_API_URL
   ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
   : "http://localhost:4000";
 
-type Section = "home" | "profile" | "notifications" | "cases" | "calendar";
+type Section = "home" | "profile" | "notifications" | "cases" | "calendar" | "firm";
 
 interface AttorneySidebarProps {
   selectedSection: Section;
@@ -170,6 +171,7 @@ export default function AttorneySidebar({ selectedSection, onSectionChange }: At
     { id: "home", label: "Home", icon: <Home className="w-6 h-6" />, requiresVerification: false },
     { id: "cases", label: "Cases", icon: <Briefcase className="w-6 h-6" />, requiresVerification: true },
     { id: "calendar", label: "Calendar", icon: <Calendar className="w-6 h-6" />, requiresVerification: true },
+    { id: "firm", label: "Firm", icon: <Building2 className="w-6 h-6" />, requiresVerification: true },
   ];
 
   const handleSectionChange = (sectionId: string, requiresVerification: boolean) => {
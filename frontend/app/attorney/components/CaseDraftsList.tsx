@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { FileEdit, Trash2, Clock, ArrowRight } from "lucide-react";
+import toast from "react-hot-toast";
+import {
+  CASE_DRAFT_STEP_LABELS,
+  CaseDraft,
+  clearWizardStorage,
+  discardDraft,
+  getActiveDraftId,
+  listDrafts,
+  restoreWizardSnapshot,
+} from "@/lib/caseDrafts";
+
+function describeSavedAt(value: string): string {
+  const minutes = Math.round((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} hr ago`;
+  const days = Math.round(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"} ago`;
+}
+
+function daysUntil(value: string): number {
+  return Math.max(0, Math.ceil((new Date(value).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+/**
+ * "Resume draft" list of unfinished cases saved by the case wizard
+ */
+export default function CaseDraftsList() {
+  const [drafts, setDrafts] = useState<CaseDraft[]>([]);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    listDrafts()
+      .then((result) => setDrafts(result.drafts))
+      .catch((err) => console.error("Failed to load case drafts:", err));
+  }, []);
+
+  if (drafts.length === 0) return null;
+
+  const handleResume = (draft: CaseDraft) => {
+    restoreWizardSnapshot(draft);
+    router.push(`/attorney/state/${draft.currentStep}`);
+  };
+
+  const handleDiscard = async (draft: CaseDraft) => {
+    if (!confirm(`Discard the draft "${draft.title || "Untitled case"}"? This cannot be undone.`)) return;
+    setBusyId(draft.draftId);
+    try {
+      await discardDraft(draft.draftId);
+      if (getActiveDraftId() === draft.draftId) {
+        clearWizardStorage();
+      }
+      setDrafts((prev) => prev.filter((d) => d.draftId !== draft.draftId));
+      toast.success("Draft discarded");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to discard draft");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-5 py-3 border-b border-gray-100 flex items-center gap-2">
+        <FileEdit className="w-5 h-5 text-[#16305B]" />
+        <h2 className="font-bold text-[#16305B]">Resume a Draft</h2>
+        <span className="text-xs text-gray-500">({drafts.length})</span>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {drafts.map((draft) => {
+          const expiresIn = daysUntil(draft.expiresAt);
+          return (
+            <li key={draft.draftId} className="px-5 py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900 truncate">{draft.title || "Untitled case"}</p>
+                <p className="text-xs text-gray-600 mt-0.5 flex flex-wrap items-center gap-x-3 gap-y-1">
+                  <span>Left off at: {CASE_DRAFT_STEP_LABELS[draft.currentStep] || draft.currentStep}</span>
+                  <span>Saved {describeSavedAt(draft.updatedAt)}</span>
+                  <span className={`flex items-center gap-1 ${expiresIn <= 3 ? "text-orange-600 font-semibold" : ""}`}>
+                    <Clock className="w-3 h-3" />
+                    Expires in {expiresIn} day{expiresIn === 1 ? "" : "s"}
+                  </span>
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => handleDiscard(draft)}
+                  disabled={busyId === draft.draftId}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50 cursor-pointer"
+                  title="Discard draft"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleResume(draft)}
+                  className="px-4 py-2 bg-[#16305B] text-white rounded-lg text-sm font-semibold flex items-center gap-1.5 hover:bg-[#1e417a] transition-colors cursor-pointer"
+                >
+                  Resume
+                  <ArrowRight className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
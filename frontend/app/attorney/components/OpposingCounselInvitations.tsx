@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Scale, Check, X, ArrowRight, Calendar } from "lucide-react";
+import toast from "react-hot-toast";
+import { getToken } from "@/lib/apiClient";
+import { formatDateString } from "@/lib/dateUtils";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+type Invitation = {
+  inviteId: number;
+  caseId: number;
+  status: "pending" | "accepted";
+  opposingSide: "plaintiff" | "defense";
+  message: string | null;
+  owner: { name: string; lawFirmName: string | null };
+  caseTitle: string;
+  caseType: string;
+  scheduledDate: string | null;
+};
+
+/**
+ * Cases where the attorney was invited as opposing counsel by another attorney
+ */
+export default function OpposingCounselInvitations() {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const router = useRouter();
+
+  const loadInvitations = async () => {
+    try {
+      const response = await fetch(`${API_BASE}/api/case/opposing-counsel/invitations`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      });
+      const data = await response.json();
+      if (response.ok && data.success) setInvitations(data.invitations);
+    } catch (err) {
+      console.error("Failed to load opposing counsel invitations:", err);
+    }
+  };
+
+  useEffect(() => {
+    loadInvitations();
+  }, []);
+
+  if (invitations.length === 0) return null;
+
+  const respond = async (invitation: Invitation, accept: boolean) => {
+    if (!accept && !confirm(`Decline the invitation for "${invitation.caseTitle}"?`)) return;
+    setBusyId(invitation.inviteId);
+    try {
+      const response = await fetch(
+        `${API_BASE}/api/case/opposing-counsel/invitations/${invitation.inviteId}/respond`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${getToken()}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ accept }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || "Failed to respond to invitation");
+      }
+      toast.success(data.message);
+      await loadInvitations();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to respond to invitation");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-5 py-3 border-b border-gray-100 flex items-center gap-2">
+        <Scale className="w-5 h-5 text-[#16305B]" />
+        <h2 className="font-bold text-[#16305B]">Opposing Counsel</h2>
+        <span className="text-xs text-gray-500">({invitations.length})</span>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {invitations.map((invitation) => (
+          <li key={invitation.inviteId} className="px-5 py-3 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="font-semibold text-gray-900 truncate">{invitation.caseTitle}</p>
+              <p className="text-xs text-gray-600 mt-0.5 flex flex-wrap items-center gap-x-3 gap-y-1">
+                <span>
+                  {invitation.opposingSide === "plaintiff" ? "Plaintiff" : "Defense"} counsel against{" "}
+                  {invitation.owner.name}
+                  {invitation.owner.lawFirmName ? ` (${invitation.owner.lawFirmName})` : ""}
+                </span>
+                {invitation.scheduledDate && (
+                  <span className="flex items-center gap-1">
+                    <Calendar className="w-3 h-3" />
+                    {formatDateString(invitation.scheduledDate)}
+                  </span>
+                )}
+              </p>
+              {invitation.status === "pending" && invitation.message && (
+                <p className="text-xs text-gray-500 italic mt-1 truncate">&ldquo;{invitation.message}&rdquo;</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {invitation.status === "pending" ? (
+                <>
+                  <button
+                    onClick={() => respond(invitation, false)}
+                    disabled={busyId === invitation.inviteId}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50 cursor-pointer"
+                    title="Decline invitation"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => respond(invitation, true)}
+                    disabled={busyId === invitation.inviteId}
+                    className="px-4 py-2 bg-[#16305B] text-white rounded-lg text-sm font-semibold flex items-center gap-1.5 hover:bg-[#1e417a] transition-colors disabled:opacity-50 cursor-pointer"
+                  >
+                    <Check className="w-4 h-4" />
+                    Accept
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => router.push(`/attorney/cases/${invitation.caseId}/war-room`)}
+                  className="px-4 py-2 bg-[#16305B] text-white rounded-lg text-sm font-semibold flex items-center gap-1.5 hover:bg-[#1e417a] transition-colors cursor-pointer"
+                >
+                  War Room
+                  <ArrowRight className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ const API_BASE = process.env.NEXT_PUBLIC_API_URL
   ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
   : "http://localhost:4000";
 
-type Section = "home" | "profile" | "notifications" | "cases" | "calendar";
+type Section = "home" | "profile" | "notifications" | "cases" | "calendar" | "firm";
 
 // Helper to get auth headers
 const getAuthHeaders = () => {
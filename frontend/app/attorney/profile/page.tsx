@@ -8,7 +8,7 @@ import AttorneyProfileSection from "../components/AttorneyProfileSection";
 export default function AttorneyProfilePage() {
   useProtectedRoute({ requiredUserType: 'attorney' });
   const [selectedSection, setSelectedSection] = useState<
-    "home" | "cases" | "calendar" | "profile" | "notifications"
+    "home" | "cases" | "calendar" | "profile" | "notifications" | "firm"
   >("home");
 
   return (
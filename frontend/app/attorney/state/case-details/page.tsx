@@ -4,11 +4,13 @@ import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { X } from "lucide-react";
 import { useProtectedRoute } from "@/hooks/useProtectedRoute";
+import { useCaseDraftAutosave } from "@/hooks/useCaseDraftAutosave";
 import Stepper from "../../components/Stepper";
 import FormContainer from "../../components/FormContainer";
 
 export default function CaseDetailsPage() {
   useProtectedRoute({ requiredUserType: 'attorney' });
+  useCaseDraftAutosave("case-details");
   const [state, setState] = useState("");
   const [stateCode, setStateCode] = useState(""); // For fetching counties from Census API
   const [county, setCounty] = useState("");
@@ -5,11 +5,14 @@ import { useRouter } from "next/navigation";
 import { useState, useEffect } from "react";
 import Image from "next/image";
 import { useProtectedRoute } from "@/hooks/useProtectedRoute";
+import { useCaseDraftAutosave } from "@/hooks/useCaseDraftAutosave";
+import { clearWizardStorage } from "@/lib/caseDrafts";
 import Stepper from "../../components/Stepper";
 import FormContainer from "../../components/FormContainer";
 
 export default function CaseTypePage() {
   useProtectedRoute({ requiredUserType: 'attorney' });
+  useCaseDraftAutosave("case-type");
   const router = useRouter();
   const [selected, setSelected] = useState("");
 
@@ -17,19 +20,7 @@ export default function CaseTypePage() {
   useEffect(() => {
     const existingJurisdiction = localStorage.getItem("caseJurisdiction");
     if (!existingJurisdiction) {
-      const keysToRemove = [
-        "state",
-        "county",
-        "caseType",
-        "caseTier",
-        "caseDescription",
-        "plaintiffGroups",
-        "defendantGroups",
-        "voirDire2Questions",
-        "paymentMethod",
-        "paymentAmount",
-      ];
-      keysToRemove.forEach(key => localStorage.removeItem(key));
+      clearWizardStorage();
     } else {
       // Pre-select the saved jurisdiction
       setSelected(existingJurisdiction.toLowerCase());
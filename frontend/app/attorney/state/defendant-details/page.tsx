@@ -4,6 +4,7 @@ import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { useProtectedRoute } from "@/hooks/useProtectedRoute";
+import { useCaseDraftAutosave } from "@/hooks/useCaseDraftAutosave";
 import Stepper from "../../components/Stepper";
 import FormContainer from "../../components/FormContainer";
 
@@ -13,6 +14,7 @@ type DefendantGroup = { reps: Rep[]; defendants: Defendant[]; };
 
 export default function DefendantDetailsPage() {
   useProtectedRoute({ requiredUserType: 'attorney' });
+  useCaseDraftAutosave("defendant-details");
   const [groups, setGroups] = useState<DefendantGroup[]>([
     { reps: [{ name: "", email: "" }], defendants: [{ name: "" }] },
   ]);
@@ -5,11 +5,13 @@ import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { useProtectedRoute } from "@/hooks/useProtectedRoute";
+import { useCaseDraftAutosave } from "@/hooks/useCaseDraftAutosave";
 import Stepper from "../../components/Stepper";
 import FormContainer from "../../components/FormContainer";
 
 export default function PaymentDetailsPage() {
   useProtectedRoute({ requiredUserType: 'attorney' });
+  useCaseDraftAutosave("payment-details");
   const [paymentMethod, setPaymentMethod] = useState("");
   const [paymentAmount, setPaymentAmount] = useState("");
   const [caseTier, setCaseTier] = useState("");
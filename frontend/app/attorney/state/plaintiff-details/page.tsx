@@ -4,6 +4,7 @@ import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { useProtectedRoute } from "@/hooks/useProtectedRoute";
+import { useCaseDraftAutosave } from "@/hooks/useCaseDraftAutosave";
 import Stepper from "../../components/Stepper";
 import FormContainer from "../../components/FormContainer";
 
@@ -12,6 +13,7 @@ type PlaintiffGroup = { reps: Plaintiff[]; plaintiffs: Plaintiff[]; };
 
 export default function PlaintiffDetailsPage() {
   useProtectedRoute({ requiredUserType: 'attorney' });
+  useCaseDraftAutosave("plaintiff-details");
   const [groups, setGroups] = useState<PlaintiffGroup[]>([
     { reps: [{ name: "", email: "" }], plaintiffs: [{ name: "", email: "" }] },
   ]);
@@ -6,11 +6,13 @@ import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { useProtectedRoute } from "@/hooks/useProtectedRoute";
+import { useCaseDraftAutosave } from "@/hooks/useCaseDraftAutosave";
 import Stepper from "../../components/Stepper";
 import FormContainer from "../../components/FormContainer";
 
 export default function ReviewPage() {
   useProtectedRoute({ requiredUserType: 'attorney' });
+  useCaseDraftAutosave("review-details");
   const [form, setForm] = useState({
     state: "",
     county: "",
@@ -6,6 +6,8 @@ import Image from "next/image";
 import { useRouter } from "next/navigation";
 import toast from "react-hot-toast";
 import { useProtectedRoute } from "@/hooks/useProtectedRoute";
+import { useCaseDraftAutosave } from "@/hooks/useCaseDraftAutosave";
+import { clearWizardStorage, getActiveDraftId } from "@/lib/caseDrafts";
 import Stepper from "../../components/Stepper";
 import { Calendar, Clock, MapPin, Monitor, ChevronLeft, ChevronRight, CheckCircle2 } from "lucide-react";
 import { getToken } from "@/lib/apiClient";
@@ -82,6 +84,7 @@ type BlockedSlot = {
 
 export default function ScheduleTrialPage() {
   useProtectedRoute({ requiredUserType: 'attorney' });
+  useCaseDraftAutosave("schedule-trail");
 
   const [currentDate, setCurrentDate] = useState(() => {
     const now = new Date();
@@ -420,6 +423,7 @@ export default function ScheduleTrialPage() {
         plaintiffGroups: caseDetails.plaintiffGroups,
         defendantGroups: caseDetails.defendantGroups,
         voirDire2Questions: voirDire2Questions,
+        draftId: getActiveDraftId(),
       };
 
       // Debug logging
@@ -505,13 +509,8 @@ export default function ScheduleTrialPage() {
         console.log('📅 Dispatched case-updated event for calendar refresh');
       }
 
-      // Clear localStorage items related to case creation
-      const itemsToClear = [
-        "state", "county", "caseJurisdiction", "caseTier", "caseType",
-        "caseDescription", "paymentMethod", "paymentAmount",
-        "plaintiffGroups", "defendantGroups", "voirDire2Questions"
-      ];
-      itemsToClear.forEach(item => localStorage.removeItem(item));
+      // Clear localStorage items related to case creation (the server closed the draft)
+      clearWizardStorage();
 
       // Redirect to attorney dashboard after a brief delay
       setTimeout(() => {
@@ -5,11 +5,13 @@ import React from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { useProtectedRoute } from "@/hooks/useProtectedRoute";
+import { useCaseDraftAutosave } from "@/hooks/useCaseDraftAutosave";
 import Stepper from "../../components/Stepper";
 import FormContainer from "../../components/FormContainer";
 
 export default function VoirDirePart1() {
   useProtectedRoute({ requiredUserType: 'attorney' });
+  useCaseDraftAutosave("voir-dire-1");
   const [isSubmitting, setIsSubmitting] = React.useState(false);
   const router = useRouter();
 
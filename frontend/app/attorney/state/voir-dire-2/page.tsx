@@ -5,9 +5,14 @@ import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { useProtectedRoute } from "@/hooks/useProtectedRoute";
+import { useCaseDraftAutosave } from "@/hooks/useCaseDraftAutosave";
 import Stepper from "../../components/Stepper";
 import FormContainer from "../../components/FormContainer";
-import { Trash2 } from "lucide-react";
+import { Trash2, Library, BookmarkPlus } from "lucide-react";
+import toast from "react-hot-toast";
+import { CaseTemplate } from "@/lib/caseTemplates";
+import TemplateLibraryModal from "@/components/modals/TemplateLibraryModal";
+import SaveTemplateModal from "@/components/modals/SaveTemplateModal";
 
 type QuestionType = "yesno" | "text";
 
@@ -18,10 +23,14 @@ type VoirDireQuestion = {
 
 export default function VoirDirePart2() {
   useProtectedRoute({ requiredUserType: 'attorney' });
+  useCaseDraftAutosave("voir-dire-2");
   const [questions, setQuestions] = useState<VoirDireQuestion[]>([{ question: "", type: "yesno" }]);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loaded, setLoaded] = useState(false);
+  const [showTemplateLibrary, setShowTemplateLibrary] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [caseType, setCaseType] = useState("");
   const router = useRouter();
 
   useEffect(() => {
@@ -41,6 +50,7 @@ export default function VoirDirePart2() {
         // Keep default
       }
     }
+    setCaseType(localStorage.getItem("caseType") || "");
     setLoaded(true);
   }, []);
 
@@ -80,6 +90,18 @@ export default function VoirDirePart2() {
     }
   };
 
+  // Template questions are appended; blank rows are replaced
+  const importTemplate = (template: CaseTemplate) => {
+    const existing = questions.filter(q => q.question.trim());
+    const existingText = new Set(existing.map(q => q.question.trim().toLowerCase()));
+    const added = template.voirDireQuestions.filter(q => !existingText.has(q.question.trim().toLowerCase()));
+    setQuestions([...existing, ...added.map(q => ({ question: q.question, type: q.type }))]);
+    setValidationErrors([]);
+    toast.success(`Added ${added.length} question${added.length === 1 ? "" : "s"} from "${template.name}"`);
+  };
+
+  const filledQuestions = questions.filter(q => q.question.trim());
+
   const validate = () => {
     const errors = questions.map(q => q.question.trim() ? "" : "Required");
     setValidationErrors(errors);
@@ -124,6 +146,25 @@ export default function VoirDirePart2() {
 
         <FormContainer title="Custom Voir Dire Questions">
           <form className="space-y-6" onSubmit={handleNext}>
+              <div className="flex flex-wrap gap-3">
+                <button
+                  type="button"
+                  onClick={() => setShowTemplateLibrary(true)}
+                  className="px-4 py-2 bg-white text-[#16305B] rounded-md border border-[#bfc6d1] hover:bg-[#f0f2f6] transition-colors flex items-center gap-2 text-sm font-medium"
+                >
+                  <Library className="w-4 h-4" />
+                  Import from Template
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowSaveTemplate(true)}
+                  disabled={filledQuestions.length === 0}
+                  className="px-4 py-2 bg-white text-[#16305B] rounded-md border border-[#bfc6d1] hover:bg-[#f0f2f6] transition-colors flex items-center gap-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <BookmarkPlus className="w-4 h-4" />
+                  Save as Template
+                </button>
+              </div>
               {questions.map((q, idx) => (
                 <div key={idx} className="mb-6 p-4 border border-[#bfc6d1] rounded-lg bg-white">
                   <div className="flex items-start justify-between mb-3">
@@ -211,6 +252,20 @@ export default function VoirDirePart2() {
               </button>
             </form>
         </FormContainer>
+
+        <TemplateLibraryModal
+          isOpen={showTemplateLibrary}
+          onClose={() => setShowTemplateLibrary(false)}
+          kind="voirDire"
+          onImport={importTemplate}
+        />
+        <SaveTemplateModal
+          isOpen={showSaveTemplate}
+          onClose={() => setShowSaveTemplate(false)}
+          questions={{ voirDireQuestions: filledQuestions }}
+          questionCount={filledQuestions.length}
+          defaultCaseType={caseType}
+        />
       </section>
     </div>
   );
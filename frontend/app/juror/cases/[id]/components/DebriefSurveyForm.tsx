@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircle, MessageSquare, Send } from "lucide-react";
+import toast from "react-hot-toast";
+import { getToken } from "@/lib/apiClient";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+const MAX_ANSWER_LENGTH = 2000;
+
+interface DebriefQuestion {
+  id: string;
+  type: "text" | "rating";
+  prompt: string;
+  required: boolean;
+}
+
+interface DebriefSurvey {
+  questions: DebriefQuestion[];
+  witnesses: { witnessId: number; name: string; side: string }[];
+  ratingScale: { MIN: number; MAX: number };
+  completed: boolean;
+}
+
+function RatingPicker({
+  value,
+  scale,
+  onChange,
+}: {
+  value: number | undefined;
+  scale: { MIN: number; MAX: number };
+  onChange: (value: number) => void;
+}) {
+  const values = Array.from({ length: scale.MAX - scale.MIN + 1 }, (_, i) => scale.MIN + i);
+  return (
+    <div className="flex gap-2">
+      {values.map((n) => (
+        <button
+          key={n}
+          type="button"
+          onClick={() => onChange(n)}
+          className={`w-10 h-10 rounded-lg text-sm font-semibold border transition-colors ${
+            value === n ? "bg-[#16305B] text-white border-[#16305B]" : "bg-white text-[#0A2342] border-[#C6CDD9] hover:bg-[#f9f7f2]"
+          }`}
+        >
+          {n}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Post-trial debrief for jurors. Shown once the results are published;
+ * the juror's payment is released for approval when it is submitted.
+ */
+export default function DebriefSurveyForm({ caseId }: { caseId: number }) {
+  const [survey, setSurvey] = useState<DebriefSurvey | null>(null);
+  const [witnessRatings, setWitnessRatings] = useState<Record<number, number>>({});
+  const [answers, setAnswers] = useState<Record<string, string | number>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadSurvey = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/api/verdicts/debrief/${caseId}`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        });
+        const result = await response.json();
+        if (response.ok && result.success) setSurvey(result.data);
+      } catch (err) {
+        console.error("Error loading debrief survey:", err);
+      }
+    };
+
+    loadSurvey();
+  }, [caseId]);
+
+  // Not sent yet (results not published)
+  if (!survey) return null;
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/verdicts/debrief/${caseId}/submit`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ witnessRatings, answers }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to submit debrief");
+      }
+      setSurvey({ ...survey, completed: true });
+      toast.success("Thank you! Your payment will be processed shortly.");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to submit debrief");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const missingRequired =
+    survey.witnesses.some((w) => !witnessRatings[w.witnessId]) ||
+    survey.questions.some((q) => q.required && !String(answers[q.id] ?? "").trim());
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-[#C6CDD9] p-6 mb-6">
+      <div className="flex items-center gap-2 mb-1">
+        <MessageSquare className="w-5 h-5 text-[#16305B]" />
+        <h2 className="text-xl font-bold text-[#0A2342]">Trial Debrief</h2>
+      </div>
+
+      {survey.completed ? (
+        <div className="mt-4 flex items-center gap-3 p-4 rounded-lg bg-green-50 border border-green-200">
+          <CheckCircle className="w-5 h-5 text-green-700" />
+          <p className="text-sm text-green-800">
+            Thank you for completing the debrief. Your answers were shared with counsel anonymously.
+          </p>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-[#455A7C] mb-6">
+            Share your thoughts on the trial with counsel. Your answers are anonymous, and your payment is released once you submit.
+          </p>
+
+          <div className="space-y-6">
+            {survey.witnesses.length > 0 && (
+              <div>
+                <h3 className="font-semibold text-[#0A2342] mb-1">How credible was each witness?</h3>
+                <p className="text-xs text-[#455A7C] mb-3">
+                  {survey.ratingScale.MIN} = not credible at all, {survey.ratingScale.MAX} = completely credible
+                </p>
+                <div className="space-y-3">
+                  {survey.witnesses.map((witness) => (
+                    <div key={witness.witnessId} className="flex items-center justify-between gap-4 flex-wrap">
+                      <span className="text-sm text-[#0A2342]">
+                        {witness.name} <span className="text-[#455A7C]">({witness.side})</span>
+                      </span>
+                      <RatingPicker
+                        value={witnessRatings[witness.witnessId]}
+                        scale={survey.ratingScale}
+                        onChange={(value) => setWitnessRatings((prev) => ({ ...prev, [witness.witnessId]: value }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {survey.questions.map((question) => (
+              <div key={question.id}>
+                <h3 className="font-semibold text-[#0A2342] mb-2">
+                  {question.prompt}
+                  {question.required && <span className="text-red-600"> *</span>}
+                </h3>
+                {question.type === "rating" ? (
+                  <RatingPicker
+                    value={typeof answers[question.id] === "number" ? (answers[question.id] as number) : undefined}
+                    scale={survey.ratingScale}
+                    onChange={(value) => setAnswers((prev) => ({ ...prev, [question.id]: value }))}
+                  />
+                ) : (
+                  <textarea
+                    value={String(answers[question.id] ?? "")}
+                    onChange={(e) => setAnswers((prev) => ({ ...prev, [question.id]: e.target.value }))}
+                    maxLength={MAX_ANSWER_LENGTH}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-[#C6CDD9] rounded-lg text-sm text-[#0A2342] focus:outline-none focus:ring-2 focus:ring-[#16305B]"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-6 flex justify-end">
+            <button
+              onClick={handleSubmit}
+              disabled={submitting || missingRequired}
+              className="flex items-center gap-2 px-6 py-2 rounded-lg text-sm font-semibold text-white bg-[#16305B] hover:bg-[#0A2342] disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+              {submitting ? "Submitting..." : "Submit Debrief"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
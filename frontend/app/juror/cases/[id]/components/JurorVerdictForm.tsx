@@ -1,14 +1,32 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
-import { CheckCircle, AlertCircle, Send, Save, FileText } from "lucide-react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { CheckCircle, AlertCircle, Send, Save, FileText, Gavel, Eye } from "lucide-react";
 import toast from "react-hot-toast";
 import { getToken } from "@/lib/apiClient";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import {
+  QuestionCondition,
+  getVisibleQuestionIds,
+  pruneHiddenAnswers,
+} from "@/lib/juryChargeConditions";
+import {
+  DAMAGES_QUESTION_TYPE,
+  formatDamagesAmount,
+  sanitizeDamagesInput,
+  displayDamagesInput,
+  describeDamagesBounds,
+  getDamagesError,
+} from "@/lib/damagesAmount";
+import JurorNotepad from "@/components/trial/JurorNotepad";
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL
   ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
   : "http://localhost:4000";
 
+// Idle pause before the presiding juror's answers are autosaved
+const PANEL_AUTOSAVE_DELAY_MS = 3000;
+
 // ============================================
 // TYPES
 // ============================================
@@ -16,11 +34,12 @@ const API_BASE = process.env.NEXT_PUBLIC_API_URL
 interface JuryChargeQuestion {
   QuestionId: number;
   QuestionText: string;
-  QuestionType: "Multiple Choice" | "Multiple Select" | "Yes/No" | "Text Response";
+  QuestionType: "Multiple Choice" | "Multiple Select" | "Yes/No" | "Text Response" | "Damages Amount";
   Options: string[] | string; // Can be array from backend or string
   IsRequired: boolean;
   MinValue?: number;
   MaxValue?: number;
+  Condition?: QuestionCondition | null;
 }
 
 interface JurorVerdictFormProps {
@@ -28,6 +47,23 @@ interface JurorVerdictFormProps {
   jurorId: number;
 }
 
+interface PanelVerdictState {
+  verdictMode: "individual" | "panel";
+  forepersonJurorId: number | null;
+  forepersonName: string | null;
+  isForeperson: boolean;
+  responses: Record<string, string>;
+  isSubmitted: boolean;
+  submittedAt: string | null;
+}
+
+interface PanelUpdateEvent {
+  caseId: number | string;
+  responses: Record<string, string>;
+  isSubmitted: boolean;
+  submittedAt: string | null;
+}
+
 // ============================================
 // JUROR VERDICT FORM COMPONENT
 // ============================================
@@ -41,17 +77,23 @@ export default function JurorVerdictForm({ caseId, jurorId }: JurorVerdictFormPr
   const [error, setError] = useState<string | null>(null);
   const [hasSubmitted, setHasSubmitted] = useState(false);
   const [submittedAt, setSubmittedAt] = useState<string | null>(null);
+  const [panel, setPanel] = useState<PanelVerdictState | null>(null);
+  const panelDirtyRef = useRef(false);
+
+  const { isConnected, joinRoom, on, off } = useWebSocket();
+
+  const isPanelMode = panel?.verdictMode === "panel";
+  const isMirror = isPanelMode && !panel?.isForeperson;
+
+  // Conditional questions only apply when the earlier answer they depend on matches
+  const visibleIds = getVisibleQuestionIds(questions, isMirror && panel ? panel.responses : responses);
+  const visibleQuestions = questions.filter((q) => visibleIds.has(q.QuestionId));
 
   // ============================================
   // LOAD QUESTIONS
   // ============================================
 
-  useEffect(() => {
-    loadQuestions();
-    checkSubmissionStatus();
-  }, [caseId, jurorId]);
-
-  async function loadQuestions() {
+  const loadQuestions = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
@@ -82,9 +124,9 @@ export default function JurorVerdictForm({ caseId, jurorId }: JurorVerdictFormPr
     } finally {
       setLoading(false);
     }
-  }
+  }, [caseId]);
 
-  async function checkSubmissionStatus() {
+  const checkSubmissionStatus = useCallback(async () => {
     try {
       const token = getToken();
       const response = await fetch(`${API_BASE}/api/verdicts/check/${caseId}/${jurorId}`, {
@@ -113,13 +155,107 @@ export default function JurorVerdictForm({ caseId, jurorId }: JurorVerdictFormPr
     } catch (err) {
       console.error("Error checking submission status:", err);
     }
-  }
+  }, [caseId, jurorId]);
+
+  const loadPanel = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE}/api/verdicts/panel/${caseId}`, {
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+        },
+      });
+
+      if (!response.ok) {
+        console.warn(`Failed to load panel verdict: ${response.status}`);
+        return;
+      }
+
+      const data = await response.json();
+      const nextPanel: PanelVerdictState = data.data;
+      setPanel(nextPanel);
+
+      // Restore the foreperson's in-progress answers
+      if (nextPanel.isForeperson && !nextPanel.isSubmitted) {
+        setResponses((prev) => (Object.keys(prev).length > 0 ? prev : nextPanel.responses || {}));
+      }
+    } catch (err) {
+      console.error("Error loading panel verdict:", err);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    loadQuestions();
+    checkSubmissionStatus();
+    loadPanel();
+  }, [loadQuestions, checkSubmissionStatus, loadPanel]);
+
+  // Live mirror of the presiding juror's answers
+  useEffect(() => {
+    if (!isConnected) return;
+    joinRoom(`case_${caseId}`);
+
+    const handlePanelUpdate = (data: PanelUpdateEvent) => {
+      if (String(data.caseId) !== String(caseId)) return;
+      setPanel((prev) =>
+        prev
+          ? { ...prev, responses: data.responses || {}, isSubmitted: data.isSubmitted, submittedAt: data.submittedAt }
+          : prev
+      );
+    };
+
+    const handleSettingsUpdated = (data: { caseId: number | string }) => {
+      if (String(data.caseId) === String(caseId)) {
+        loadPanel();
+      }
+    };
+
+    on("verdict:panel_update", handlePanelUpdate);
+    on("verdict:settings_updated", handleSettingsUpdated);
+
+    return () => {
+      off("verdict:panel_update", handlePanelUpdate);
+      off("verdict:settings_updated", handleSettingsUpdated);
+    };
+  }, [isConnected, caseId, joinRoom, on, off, loadPanel]);
+
+  // The presiding juror's answers are autosaved so the rest of the panel can follow along
+  useEffect(() => {
+    if (!panel?.isForeperson || hasSubmitted || !panelDirtyRef.current) return;
+
+    const timeout = setTimeout(async () => {
+      panelDirtyRef.current = false;
+      try {
+        const response = await fetch(`${API_BASE}/api/verdicts/draft`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${getToken()}`,
+          },
+          body: JSON.stringify({ caseId, jurorId, responses }),
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to sync panel verdict: ${response.status}`);
+        }
+      } catch (err) {
+        console.error("Error syncing panel verdict:", err);
+        // Try again with the next change so the panel does not keep an old mirror
+        panelDirtyRef.current = true;
+        toast.error("Failed to save draft. Please try again.", {
+          id: "panel-autosave",
+          duration: 4000,
+        });
+      }
+    }, PANEL_AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [responses, panel?.isForeperson, hasSubmitted, caseId, jurorId]);
 
   // ============================================
   // HANDLERS
   // ============================================
 
   function handleResponseChange(questionId: number, value: string) {
+    panelDirtyRef.current = true;
     setResponses((prev) => ({
       ...prev,
       [questionId.toString()]: value,
@@ -168,8 +304,8 @@ export default function JurorVerdictForm({ caseId, jurorId }: JurorVerdictFormPr
   }
 
   async function handleSubmit() {
-    // Validate only required questions are answered
-    const unanswered = questions.filter(
+    // Validate only required questions that apply are answered
+    const unanswered = visibleQuestions.filter(
       (q) => q.IsRequired && !responses[q.QuestionId.toString()]?.trim()
     );
 
@@ -183,6 +319,24 @@ export default function JurorVerdictForm({ caseId, jurorId }: JurorVerdictFormPr
       return;
     }
 
+    // Damages amounts must fall within the limits set on each question
+    const invalidDamages = visibleQuestions.find(
+      (q) =>
+        q.QuestionType === DAMAGES_QUESTION_TYPE &&
+        getDamagesError(responses[q.QuestionId.toString()], q.MinValue, q.MaxValue)
+    );
+    if (invalidDamages) {
+      toast.error(
+        `${invalidDamages.QuestionText}\n\n${getDamagesError(
+          responses[invalidDamages.QuestionId.toString()],
+          invalidDamages.MinValue,
+          invalidDamages.MaxValue
+        )}`,
+        { duration: 6000 }
+      );
+      return;
+    }
+
     // Use custom confirmation - since confirm() is blocking, we'll just warn user
     const userConfirmed = window.confirm(
       "Are you sure you want to submit your verdict?\n\nYou will NOT be able to change your answers after submission."
@@ -205,7 +359,7 @@ export default function JurorVerdictForm({ caseId, jurorId }: JurorVerdictFormPr
         body: JSON.stringify({
           caseId,
           jurorId,
-          responses,
+          responses: pruneHiddenAnswers(questions, responses),
         }),
       });
 
@@ -286,6 +440,54 @@ export default function JurorVerdictForm({ caseId, jurorId }: JurorVerdictFormPr
     );
   }
 
+  if (isMirror && panel) {
+    return (
+      <div className="space-y-6">
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
+          <div className="flex items-center gap-2 mb-2">
+            <Gavel className="w-6 h-6 text-blue-900" />
+            <h2 className="text-2xl font-bold text-blue-900">Panel Verdict</h2>
+          </div>
+          <p className="text-blue-700">
+            {panel.forepersonName
+              ? `${panel.forepersonName} is the presiding juror and enters the answers on behalf of the panel. Discuss your views with the panel; the form below updates live.`
+              : "A presiding juror has not been selected yet. The admin will designate one shortly."}
+          </p>
+          {panel.isSubmitted ? (
+            <p className="text-sm text-green-700 mt-2 flex items-center gap-2">
+              <CheckCircle className="w-4 h-4" />
+              Panel verdict submitted
+              {panel.submittedAt && ` on ${new Date(panel.submittedAt).toLocaleString()}`}
+            </p>
+          ) : (
+            <p className="text-sm text-blue-600 mt-2 flex items-center gap-2">
+              <Eye className="w-4 h-4" />
+              Read-only view
+            </p>
+          )}
+        </div>
+
+        <JurorNotepad caseId={caseId} variant="inline" />
+
+        <fieldset disabled className="space-y-6">
+          {visibleQuestions.map((question, index) => (
+            <div key={question.QuestionId} className="bg-white border border-gray-200 rounded-lg p-6 opacity-90">
+              <div className="mb-4">
+                <span className="text-sm font-semibold text-blue-600">Question {index + 1}</span>
+                <p className="text-lg font-medium text-gray-900">{question.QuestionText}</p>
+              </div>
+              <QuestionInput
+                question={question}
+                value={panel.responses[question.QuestionId.toString()] || ""}
+                onChange={() => {}}
+              />
+            </div>
+          ))}
+        </fieldset>
+      </div>
+    );
+  }
+
   if (hasSubmitted) {
     return (
       <div className="bg-green-50 border border-green-200 rounded-lg p-8">
@@ -327,7 +529,7 @@ export default function JurorVerdictForm({ caseId, jurorId }: JurorVerdictFormPr
           <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-4 max-w-2xl">
             <h4 className="text-sm font-semibold text-blue-900 mb-2">Your Responses:</h4>
             <div className="text-left space-y-3">
-              {questions.map((question) => {
+              {visibleQuestions.map((question) => {
                 const answer = responses[question.QuestionId.toString()];
                 const isAnswered = answer && answer.trim() !== "";
                 return (
@@ -336,7 +538,9 @@ export default function JurorVerdictForm({ caseId, jurorId }: JurorVerdictFormPr
                       {question.QuestionText}
                     </p>
                     {isAnswered ? (
-                      <p className="text-sm text-gray-700">{answer}</p>
+                      <p className="text-sm text-gray-700">
+                        {question.QuestionType === DAMAGES_QUESTION_TYPE ? formatDamagesAmount(answer) : answer}
+                      </p>
                     ) : (
                       <p className="text-sm italic text-gray-400">Unanswered</p>
                     )}
@@ -371,15 +575,28 @@ export default function JurorVerdictForm({ caseId, jurorId }: JurorVerdictFormPr
           Please answer all questions carefully. Your responses will be recorded and cannot be
           changed after submission.
         </p>
+        {panel?.isForeperson && (
+          <p className="text-sm text-blue-900 mt-2 flex items-center gap-2 font-semibold">
+            <Gavel className="w-4 h-4" />
+            You are the presiding juror. Enter the answers agreed by the panel; the other jurors see
+            your answers as you type.
+          </p>
+        )}
         <p className="text-sm text-blue-600 mt-2">
-          <strong>{questions.filter((q) => q.IsRequired).length}</strong> required questions •{" "}
-          <strong>{questions.filter((q) => !q.IsRequired).length}</strong> optional questions
+          <strong>{visibleQuestions.filter((q) => q.IsRequired).length}</strong> required questions •{" "}
+          <strong>{visibleQuestions.filter((q) => !q.IsRequired).length}</strong> optional questions
+          {visibleQuestions.length < questions.length && (
+            <> • some questions only appear based on your earlier answers</>
+          )}
         </p>
       </div>
 
+      {/* Private notes from the trial */}
+      <JurorNotepad caseId={caseId} variant="inline" />
+
       {/* Questions */}
       <div className="space-y-6">
-        {questions.map((question, index) => (
+        {visibleQuestions.map((question, index) => (
           <div key={question.QuestionId} className="bg-white border border-gray-200 rounded-lg p-6">
             <div className="mb-4">
               <div className="flex items-start gap-2 mb-2">
@@ -519,6 +736,30 @@ function QuestionInput({ question, value, onChange }: QuestionInputProps) {
     );
   }
 
+  if (question.QuestionType === DAMAGES_QUESTION_TYPE) {
+    const error = getDamagesError(value, question.MinValue, question.MaxValue);
+    return (
+      <div>
+        <div className="relative max-w-sm">
+          <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500 font-medium">$</span>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={displayDamagesInput(value)}
+            onChange={(e) => onChange(sanitizeDamagesInput(e.target.value))}
+            className={`w-full pl-8 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+              error ? "border-red-400" : "border-gray-300"
+            }`}
+            placeholder="0.00"
+          />
+        </div>
+        <p className={`text-xs mt-2 ${error ? "text-red-600" : "text-gray-500"}`}>
+          {error || describeDamagesBounds(question.MinValue, question.MaxValue)}
+        </p>
+      </div>
+    );
+  }
+
 if (question.QuestionType === "Text Response") {
     return (
       <textarea
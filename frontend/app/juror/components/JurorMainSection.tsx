@@ -4,8 +4,9 @@ import HomeSection from "./HomeSection";
 import ProfileSection from "./ProfileSection";
 import NotificationsSection from "./NotificationsSection";
 import JobBoardSection from "./JobBoardSection";
+import PayoutsSection from "./PayoutsSection";
 
-type Section = "home" | "profile" | "notifications" | "jobs";
+type Section = "home" | "profile" | "notifications" | "jobs" | "payouts";
 
 export default function JurorMainSection({ selectedSection, sidebarCollapsed }: { selectedSection: Section; sidebarCollapsed: boolean }) {
   let content;
@@ -19,6 +20,9 @@ export default function JurorMainSection({ selectedSection, sidebarCollapsed }:
     case "jobs":
       content = <JobBoardSection />;
       break;
+    case "payouts":
+      content = <PayoutsSection />;
+      break;
     case "home":
     default:
       content = <HomeSection sidebarCollapsed={sidebarCollapsed} />;
@@ -18,6 +18,7 @@ import {
   ArrowLeft,
   ArrowRight,
   Lock,
+  Wallet,
 } from "lucide-react";
 
 const NAV_BG = "#16305B";
@@ -29,7 +30,7 @@ const API_BASE = process.env.NEXT_PUBLIC_API_URL
   ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
   : "http://localhost:4000";
 
-type Section = "home" | "profile" | "notifications" | "jobs";
+type Section = "home" | "profile" | "notifications" | "jobs" | "payouts";
 
 interface JurorSidebarProps {
   selectedSection: Section;
@@ -239,6 +240,7 @@ export default function JurorSidebar({ selectedSection, onSectionChange, onColla
   const mainNav = [
     { id: "home", label: "Home", icon: <Home className="w-6 h-6" />, requiresVerification: false },
     { id: "jobs", label: "Job Board", icon: <ClipboardType className="w-6 h-6" />, requiresVerification: true },
+    { id: "payouts", label: "Payouts", icon: <Wallet className="w-6 h-6" />, requiresVerification: true },
   ];
 
   const handleSectionChange = (sectionId: string, requiresVerification: boolean) => {
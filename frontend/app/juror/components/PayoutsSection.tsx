@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { BanknotesIcon } from "@heroicons/react/24/outline";
+import { getToken } from "@/lib/apiClient";
+import { formatDateShort } from "@/lib/dateUtils";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+type PayoutStatus = "pending" | "held" | "approved" | "paid" | "rejected";
+
+type Payout = {
+  payoutId: number;
+  caseId: number;
+  caseTitle: string;
+  amount: string;
+  payoutMethod: string | null;
+  status: PayoutStatus;
+  holdReason: string | null;
+  reviewNotes: string | null;
+  createdAt: string;
+  paidAt: string | null;
+  debriefPending: boolean;
+};
+
+type PayoutStats = {
+  totalEarned: string;
+  pendingAmount: string;
+  pendingPayments: number;
+  heldPayments: number;
+  completedPayments: number;
+  failedPayments: number;
+  totalTransactions: number;
+};
+
+const STATUS_LABELS: Record<PayoutStatus, { label: string; className: string }> = {
+  pending: { label: "Awaiting Approval", className: "bg-blue-100 text-blue-800" },
+  held: { label: "On Hold", className: "bg-amber-100 text-amber-800" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-800" },
+  paid: { label: "Paid", className: "bg-gray-100 text-gray-700" },
+  rejected: { label: "Not Approved", className: "bg-red-100 text-red-800" },
+};
+
+export default function PayoutsSection() {
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [stats, setStats] = useState<PayoutStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPayouts();
+  }, []);
+
+  const fetchPayouts = async () => {
+    try {
+      const headers = { "Authorization": `Bearer ${getToken()}` };
+      const [payoutsRes, statsRes] = await Promise.all([
+        fetch(`${API_BASE}/api/payments/juror/payments`, { headers }),
+        fetch(`${API_BASE}/api/payments/juror/stats`, { headers }),
+      ]);
+
+      const payoutsData = await payoutsRes.json();
+      const statsData = await statsRes.json();
+      if (payoutsData.success) setPayouts(payoutsData.payouts || []);
+      if (statsData.success) setStats(statsData.stats);
+    } catch (error) {
+      console.error("Failed to fetch payouts:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 w-full p-8 bg-[#FAF9F6] min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-[#0C2D57]">Payouts</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Your payment for each trial is created when you submit your verdict and sent once an admin approves it.
+          </p>
+        </div>
+
+        {stats && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5">
+              <p className="text-sm text-gray-600">Total Earned</p>
+              <p className="text-3xl font-bold text-green-700">${parseFloat(stats.totalEarned).toLocaleString()}</p>
+              <p className="text-xs text-gray-500 mt-1">{stats.completedPayments} paid</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5">
+              <p className="text-sm text-gray-600">On the Way</p>
+              <p className="text-3xl font-bold text-[#0C2D57]">${parseFloat(stats.pendingAmount).toLocaleString()}</p>
+              <p className="text-xs text-gray-500 mt-1">{stats.pendingPayments} awaiting approval or sending</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5">
+              <p className="text-sm text-gray-600">Needs Review</p>
+              <p className="text-3xl font-bold text-amber-600">{stats.heldPayments}</p>
+              <p className="text-xs text-gray-500 mt-1">on hold for attendance review</p>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin h-8 w-8 border-4 border-[#0C2D57] border-t-transparent rounded-full"></div>
+          </div>
+        ) : payouts.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-12 text-center">
+            <BanknotesIcon className="w-16 h-16 mx-auto text-gray-300 mb-4" />
+            <p className="text-gray-600">No payouts yet. Complete a trial to get paid.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm divide-y divide-gray-200">
+            {payouts.map((payout) => {
+              const status = STATUS_LABELS[payout.status];
+              return (
+                <div key={payout.payoutId} className="p-5 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-[#0C2D57]">{payout.caseTitle}</p>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {payout.paidAt ? `Paid ${formatDateShort(payout.paidAt)}` : `Submitted ${formatDateShort(payout.createdAt)}`}
+                    </p>
+                    {payout.debriefPending && (
+                      <p className="text-sm text-blue-700 mt-2">
+                        Complete the{" "}
+                        <Link href={`/juror/war-room/${payout.caseId}`} className="underline font-semibold">
+                          trial debrief
+                        </Link>{" "}
+                        to release this payment.
+                      </p>
+                    )}
+                    {payout.status === "held" && payout.holdReason && (
+                      <p className="text-sm text-amber-700 mt-2">{payout.holdReason}</p>
+                    )}
+                    {payout.status === "rejected" && payout.reviewNotes && (
+                      <p className="text-sm text-red-700 mt-2">{payout.reviewNotes}</p>
+                    )}
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className="text-lg font-bold text-gray-900">${payout.amount}</p>
+                    <span className={`inline-block mt-1 px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
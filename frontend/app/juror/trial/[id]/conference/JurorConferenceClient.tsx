@@ -22,8 +22,31 @@ import {
   ClipboardList,
   CheckCircle2,
   Send,
+  HelpCircle,
+  NotebookPen,
 } from "lucide-react";
 import { useWebSocket } from "@/hooks/useWebSocket";
+import { useJurorAttendance } from "@/hooks/useJurorAttendance";
+import TrialPhaseClock from "@/components/trial/TrialPhaseClock";
+import DeliberationControls from "@/components/trial/DeliberationControls";
+import TrialSessionBadge, { JoinedTrialSession } from "@/components/trial/TrialSessionBadge";
+import ExhibitStage from "@/components/trial/ExhibitStage";
+import ReactionDial from "@/components/trial/ReactionDial";
+import JurorQuestionsPanel from "@/components/trial/JurorQuestionsPanel";
+import JurorPollPrompt from "@/components/trial/JurorPollPrompt";
+import JurorNotepad from "@/components/trial/JurorNotepad";
+import { fetchDeliberationState, getDeliberationJoinUrl } from "@/hooks/useDeliberationRoom";
+import { useExhibitPresentation } from "@/hooks/useExhibitPresentation";
+import { useJurorQuestions } from "@/hooks/useJurorQuestions";
+import { useTrialPolls } from "@/hooks/useTrialPolls";
+import { getVisibleQuestionIds, pruneHiddenAnswers, type JuryChargeQuestion } from "@/lib/juryChargeConditions";
+import {
+  DAMAGES_QUESTION_TYPE,
+  sanitizeDamagesInput,
+  displayDamagesInput,
+  describeDamagesBounds,
+  getDamagesError,
+} from "@/lib/damagesAmount";
 
 const POLL_INTERVAL_MS = 1500; // Adjust to 2000/3000 if desired to reduce load
 
@@ -46,6 +69,7 @@ export default function JurorConferenceClient() {
   const [isMuted, setIsMuted] = useState(false);
   const [isVideoOff, setIsVideoOff] = useState(false);
   const [displayName, setDisplayName] = useState("You");
+  const [trialSession, setTrialSession] = useState<JoinedTrialSession | null>(null);
   const [renderTrigger, setRenderTrigger] = useState(0);
 
   const [participantVideoStates, setParticipantVideoStates] = useState<Map<string, boolean>>(new Map());
@@ -66,20 +90,44 @@ export default function JurorConferenceClient() {
   const [latestMessage, setLatestMessage] = useState<any>(null);
 
   const [showChatPanel, setShowChatPanel] = useState(false);
+  const [showQuestionsPanel, setShowQuestionsPanel] = useState(false);
+  const [showNotesPanel, setShowNotesPanel] = useState(false);
   const [participantJoinTimes, setParticipantJoinTimes] = useState<Map<string, Date>>(new Map());
 
   // Jury Charge State
   const [showJuryChargePanel, setShowJuryChargePanel] = useState(false);
-  const [juryChargeQuestions, setJuryChargeQuestions] = useState<any[]>([]);
+  const [juryChargeQuestions, setJuryChargeQuestions] = useState<JuryChargeQuestion[]>([]);
   const [juryChargeResponses, setJuryChargeResponses] = useState<Record<number, string>>({});
   const [juryChargeAvailable, setJuryChargeAvailable] = useState(false);
   const [juryChargeSubmitted, setJuryChargeSubmitted] = useState(false);
   const [juryChargeSubmitting, setJuryChargeSubmitting] = useState(false);
   const [juryChargeLoading, setJuryChargeLoading] = useState(false);
 
+  // Jurors join the private deliberation room instead of the courtroom while deliberating
+  const [inDeliberationRoom, setInDeliberationRoom] = useState<boolean | null>(null);
+
+  // Conditional questions are hidden until the earlier answer they depend on matches
+  const visibleJuryChargeIds = getVisibleQuestionIds(juryChargeQuestions, juryChargeResponses);
+  const visibleJuryChargeQuestions = juryChargeQuestions.filter((q) => visibleJuryChargeIds.has(q.QuestionId));
+
   // WebSocket for jury charge events
   const { socket, isConnected: wsConnected, on: wsOn, off: wsOff, emit: wsEmit } = useWebSocket();
 
+  // Exhibit counsel is presenting, shown at the presenter's page and zoom
+  const exhibitPresentation = useExhibitPresentation(caseId);
+
+  // Written questions for counsel, reviewed by the moderator before forwarding
+  const jurorQuestions = useJurorQuestions(caseId, "juror", (question) => {
+    if (question.status === "approved") {
+      toast.success("Your question was sent to counsel");
+    } else if (question.status === "rejected") {
+      toast("Your question was not forwarded to counsel", { icon: "ℹ️" });
+    }
+  });
+
+  // Instant polls from the moderator, answered anonymously
+  const trialPolls = useTrialPolls(caseId, "juror");
+
   const featuredVideoRef = useRef<HTMLDivElement>(null);
   const localVideoStream = useRef<any>(null);
   const remoteVideoRefs = useRef<Map<string, any>>(new Map());
@@ -93,6 +141,12 @@ export default function JurorConferenceClient() {
   const callRef = useRef<any>(null);
   const callAgentRef = useRef<any>(null);
 
+  // Attendance and camera time count towards payout eligibility
+  useJurorAttendance(caseId, {
+    connected: callState === "Connected",
+    cameraOn: !isVideoOff && !!localVideoStream.current,
+  });
+
   // ============================================
   // JURY CHARGE: Fetch questions from API
   // ============================================
@@ -119,6 +173,8 @@ export default function JurorConferenceClient() {
           setShowJuryChargePanel(true);
           // Close chat panel if open to avoid UI clutter
           setShowChatPanel(false);
+          setShowQuestionsPanel(false);
+          setShowNotesPanel(false);
         }
       }
       // 403 means not released yet - that's fine, we'll wait for WebSocket event
@@ -132,18 +188,27 @@ export default function JurorConferenceClient() {
   // Submit jury charge responses
   const submitJuryChargeResponses = async () => {
     // Validate all required questions are answered
-    const unanswered = juryChargeQuestions.filter(
+    const unanswered = visibleJuryChargeQuestions.filter(
       (q: any) => q.IsRequired && (!juryChargeResponses[q.QuestionId] || juryChargeResponses[q.QuestionId].trim() === "")
     );
     if (unanswered.length > 0) {
       toast.error(`Please answer all required questions. ${unanswered.length} required question(s) remaining.`);
       return;
     }
+    const invalidDamages = visibleJuryChargeQuestions.find(
+      (q) =>
+        q.QuestionType === DAMAGES_QUESTION_TYPE &&
+        getDamagesError(juryChargeResponses[q.QuestionId], q.MinValue, q.MaxValue)
+    );
+    if (invalidDamages) {
+      toast.error(`${invalidDamages.QuestionText}: ${getDamagesError(juryChargeResponses[invalidDamages.QuestionId], invalidDamages.MinValue, invalidDamages.MaxValue)}`);
+      return;
+    }
 
     setJuryChargeSubmitting(true);
     try {
       const token = getToken();
-      const responsesArray = Object.entries(juryChargeResponses).map(([questionId, response]) => ({
+      const responsesArray = Object.entries(pruneHiddenAnswers(juryChargeQuestions, juryChargeResponses)).map(([questionId, response]) => ({
         QuestionId: parseInt(questionId),
         Response: response,
       }));
@@ -563,7 +628,13 @@ export default function JurorConferenceClient() {
       setCallState("Getting permissions...");
       const token = getToken();
 
-      const response = await fetch(`${API_BASE}/api/trial/juror-join/${caseId}`, {
+      const deliberation = await fetchDeliberationState(caseId).catch(() => null);
+      const deliberating = deliberation?.status === "deliberating";
+
+      const joinUrl = deliberating
+        ? getDeliberationJoinUrl(caseId)
+        : `${API_BASE}/api/trial/juror-join/${caseId}`;
+      const response = await fetch(joinUrl, {
         method: "POST",
         headers: {
           "Authorization": `Bearer ${token}`,
@@ -571,9 +642,14 @@ export default function JurorConferenceClient() {
         }
       });
 
-      if (!response.ok) throw new Error("Not authorized to join this trial");
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Not authorized to join this trial");
+      }
       const data = await response.json();
       setDisplayName(data.displayName);
+      if (data.session) setTrialSession(data.session);
+      setInDeliberationRoom(deliberating);
 
       if (data.chatThreadId && data.endpointUrl) {
         await initializeChat(data.token, data.userId, data.chatThreadId, data.endpointUrl);
@@ -905,7 +981,27 @@ export default function JurorConferenceClient() {
       setUnreadCount(0);
       setShowChatNotification(false);
       setShowJuryChargePanel(false); // Close jury charge when opening chat
+      setShowQuestionsPanel(false);
+      setShowNotesPanel(false);
+    }
+  };
+
+  const toggleQuestionsPanel = () => {
+    if (!showQuestionsPanel) {
+      setShowChatPanel(false);
+      setShowJuryChargePanel(false);
+      setShowNotesPanel(false);
     }
+    setShowQuestionsPanel(!showQuestionsPanel);
+  };
+
+  const toggleNotesPanel = () => {
+    if (!showNotesPanel) {
+      setShowChatPanel(false);
+      setShowJuryChargePanel(false);
+      setShowQuestionsPanel(false);
+    }
+    setShowNotesPanel(!showNotesPanel);
   };
 
   const toggleMute = async () => {
@@ -1195,7 +1291,7 @@ export default function JurorConferenceClient() {
       <div className="flex-1 flex overflow-hidden relative">
         {/* Main Content Area - More space for video when chat open */}
         <div className={`flex flex-col transition-all duration-300 ${
-          showChatPanel || showJuryChargePanel ? (showJuryChargePanel ? 'w-2/3' : 'w-4/5') : 'w-4/5 mx-auto'
+          showChatPanel || showJuryChargePanel || showQuestionsPanel || showNotesPanel ? (showJuryChargePanel ? 'w-2/3' : 'w-4/5') : 'w-4/5 mx-auto'
         }`}>
           {/* Header */}
           <div className="px-6 py-3 flex items-center justify-between shadow-lg" style={{ backgroundColor: "#16305B" }}>
@@ -1203,7 +1299,10 @@ export default function JurorConferenceClient() {
               <div className="w-3 h-3 bg-green-400 rounded-full animate-pulse"></div>
               <span className="text-white font-semibold">Trial Conference</span>
               <span className="text-white/80 text-sm">• Case #{caseId}</span>
+              <TrialSessionBadge session={trialSession} />
             </div>
+            <TrialPhaseClock caseId={caseId} />
+            <DeliberationControls caseId={caseId} role="juror" inDeliberationRoom={inDeliberationRoom} />
           </div>
 
           {/* Middle Section - Featured Video + Vertical Participants Sidebar */}
@@ -1242,6 +1341,8 @@ export default function JurorConferenceClient() {
               </div>
             </div>
           )}
+          <ExhibitStage role="juror" presentation={exhibitPresentation} />
+          <JurorPollPrompt polls={trialPolls} />
         </div>
 
         {/* Vertical Participants Sidebar (Right) */}
@@ -1414,12 +1515,18 @@ export default function JurorConferenceClient() {
             </button>
           </div>
 
+          <ReactionDial caseId={caseId} />
+
           <div className="flex items-center gap-3">
             {juryChargeAvailable && (
               <button
                 onClick={() => {
                   setShowJuryChargePanel(!showJuryChargePanel);
-                  if (!showJuryChargePanel) setShowChatPanel(false);
+                  if (!showJuryChargePanel) {
+                    setShowChatPanel(false);
+                    setShowQuestionsPanel(false);
+                    setShowNotesPanel(false);
+                  }
                 }}
                 className="relative flex flex-col items-center gap-1 hover:scale-110 transition-transform group"
                 title="Jury Charge"
@@ -1452,6 +1559,24 @@ export default function JurorConferenceClient() {
               </span>
             </button>
 
+            <button onClick={toggleQuestionsPanel} className="relative flex flex-col items-center gap-1 hover:scale-110 transition-transform group" title="Ask Counsel a Question">
+              <div className="w-12 h-12 rounded-xl flex items-center justify-center" style={{ backgroundColor: showQuestionsPanel ? "#5B9BD5" : "#FDB71A" }}>
+                <HelpCircle className="w-6 h-6 text-white" />
+              </div>
+              <span className="absolute -bottom-8 left-1/2 transform -translate-x-1/2 bg-gray-900 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-50">
+                Questions
+              </span>
+            </button>
+
+            <button onClick={toggleNotesPanel} className="relative flex flex-col items-center gap-1 hover:scale-110 transition-transform group" title="My Notes">
+              <div className="w-12 h-12 rounded-xl flex items-center justify-center" style={{ backgroundColor: showNotesPanel ? "#5B9BD5" : "#FDB71A" }}>
+                <NotebookPen className="w-6 h-6 text-white" />
+              </div>
+              <span className="absolute -bottom-8 left-1/2 transform -translate-x-1/2 bg-gray-900 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-50">
+                Notes
+              </span>
+            </button>
+
             <button onClick={leaveCall} className="flex flex-col items-center gap-1 hover:scale-110 transition-transform group relative" title="Leave Call">
               <div className="w-12 h-12 rounded-xl bg-red-600 flex items-center justify-center">
                 <Phone className="w-6 h-6 text-white transform rotate-135" />
@@ -1529,6 +1654,16 @@ export default function JurorConferenceClient() {
         </div>
       )}
 
+    {/* Juror Questions Panel */}
+    {showQuestionsPanel && (
+      <JurorQuestionsPanel role="juror" questions={jurorQuestions} onClose={toggleQuestionsPanel} />
+    )}
+
+    {/* Private Notepad Panel */}
+    {showNotesPanel && (
+      <JurorNotepad caseId={caseId} variant="panel" onClose={toggleNotesPanel} />
+    )}
+
     {/* Jury Charge Panel - slides in from right */}
     {showJuryChargePanel && (
       <div className="w-1/3 flex flex-col shadow-2xl" style={{ backgroundColor: "#ffffff", borderLeft: "1px solid #C6CDD9" }}>
@@ -1605,7 +1740,9 @@ export default function JurorConferenceClient() {
                 </p>
               </div>
 
-              {juryChargeQuestions.map((question: any, index: number) => (
+              <JurorNotepad caseId={caseId} variant="inline" />
+
+              {visibleJuryChargeQuestions.map((question, index) => (
                 <div key={question.QuestionId} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
                   <div className="flex items-start gap-2 mb-3">
                     <span className="flex-shrink-0 w-7 h-7 rounded-full flex items-center justify-center text-sm font-bold text-white" style={{ backgroundColor: "#16305B" }}>
@@ -1688,6 +1825,28 @@ export default function JurorConferenceClient() {
                     </div>
                   )}
 
+                  {/* Damages Amount */}
+                  {question.QuestionType === DAMAGES_QUESTION_TYPE && (
+                    <div className="ml-9">
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm font-medium" style={{ color: "#455A7C" }}>$</span>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={displayDamagesInput(juryChargeResponses[question.QuestionId])}
+                          onChange={(e) => setJuryChargeResponses(prev => ({ ...prev, [question.QuestionId]: sanitizeDamagesInput(e.target.value) }))}
+                          placeholder="0.00"
+                          className="w-full pl-7 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                          style={{ color: "#0A2342" }}
+                        />
+                      </div>
+                      <p className="text-xs mt-1" style={{ color: getDamagesError(juryChargeResponses[question.QuestionId], question.MinValue, question.MaxValue) ? "#dc2626" : "#455A7C" }}>
+                        {getDamagesError(juryChargeResponses[question.QuestionId], question.MinValue, question.MaxValue) ||
+                          describeDamagesBounds(question.MinValue, question.MaxValue)}
+                      </p>
+                    </div>
+                  )}
+
                   {/* Text Response */}
                   {question.QuestionType === "Text Response" && (
                     <div className="ml-9">
@@ -7,6 +7,7 @@ import { useProtectedRoute } from "@/hooks/useProtectedRoute";
 import { getToken, getUser } from "@/lib/apiClient";
 import { formatDateString } from "@/lib/dateUtils";
 import JurorVerdictForm from "../../cases/[id]/components/JurorVerdictForm";
+import DebriefSurveyForm from "../../cases/[id]/components/DebriefSurveyForm";
 import { useWebSocket } from "@/hooks/useWebSocket";
 import toast from "react-hot-toast";
 
@@ -649,6 +650,8 @@ export default function JurorWarRoomPage() {
           )}
         </div>
 
+        <DebriefSurveyForm caseId={parseInt(caseId)} />
+
         <div className="bg-white rounded-lg shadow border border-[#C6CDD9] p-6 mb-6">
           <h2 className="text-xl font-bold text-[#0A2342] mb-4">Witnesses</h2>
           {witnesses.length === 0 ? (
@@ -186,6 +186,16 @@ export default function LoginPage() {
               signupLabel="Create a New Juror Account"
             />
           </div>
+
+          <p className="text-[#0A2342] text-sm text-center mt-8">
+            Invited to an attorney&apos;s trial team?{" "}
+            <Link
+              href="/login/team"
+              className="underline hover:text-[#132c54] transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-[#0A2342] focus:ring-offset-1 rounded"
+            >
+              Team member login
+            </Link>
+          </p>
         </div>
 
         {/* Footer */}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useState, useEffect, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import Link from "next/link";
+import { Eye, EyeOff, AlertCircle } from "lucide-react";
+import { post, login, isAuthenticated, getUserType } from "@/lib/apiClient";
+
+/* ===========================================================
+   CONSTANTS
+   =========================================================== */
+
+const BLUE = "#0A2342";
+const BG = "#FAF9F6";
+
+/* ===========================================================
+   TYPES
+   =========================================================== */
+
+interface TeamLoginResponse {
+  success: boolean;
+  message: string;
+  token: string;
+  user: {
+    id: number;
+    email: string;
+    name: string;
+    type: "team_member";
+  };
+}
+
+/* ===========================================================
+   COMPONENT
+   =========================================================== */
+
+/**
+ * Login for war room team members (paralegals, consultants, co-counsel)
+ * Accounts are created by accepting an attorney's emailed invitation
+ */
+export default function TeamMemberLogin() {
+  const router = useRouter();
+
+  // Form state
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+
+  // UI state
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  /* ===========================================================
+     AUTO-LOGIN CHECK
+     =========================================================== */
+
+  useEffect(() => {
+    if (sessionStorage.getItem("justLoggedOut")) {
+      sessionStorage.removeItem("justLoggedOut");
+      return;
+    }
+
+    if (isAuthenticated() && getUserType() === "team_member") {
+      router.replace("/team");
+    }
+  }, [router]);
+
+  /* ===========================================================
+     LOGIN HANDLER
+     =========================================================== */
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!email.trim() || !password) {
+      setError("Please enter both email and password");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await post<TeamLoginResponse>("api/auth/team/login", {
+        email: email.trim().toLowerCase(),
+        password,
+      });
+
+      if (!response.success || !response.token || !response.user) {
+        throw new Error(response.message || "Login failed");
+      }
+
+      login(response.token, {
+        id: response.user.id,
+        email: response.user.email,
+        type: "team_member",
+        name: response.user.name,
+      });
+
+      router.push("/team");
+    } catch (error) {
+      console.error("❌ Login error:", error);
+      setError(
+        (error instanceof Error && error.message) ||
+        "Login failed. Please check your credentials and try again."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /* ===========================================================
+     LOGIN PAGE
+     =========================================================== */
+
+  return (
+    <main
+      className="min-h-screen flex font-sans"
+      style={{ backgroundColor: BG }}
+    >
+      {/* Sidebar */}
+      <aside className="hidden lg:flex flex-col w-[280px] bg-[#0A2342] text-white relative">
+        <div className="absolute top-10 w-full text-center">
+          <Image
+            src="/logo_sidebar_signup.png"
+            alt="Quick Verdicts Logo"
+            width={280}
+            height={120}
+            className="mx-auto"
+            priority
+          />
+        </div>
+
+        <div className="px-6 py-8 mt-48">
+          <h2 className="text-lg font-semibold mb-3">Team Member Login</h2>
+          <p className="text-sm text-blue-100">
+            Help your attorney prepare for trial with the access they have given you.
+          </p>
+        </div>
+
+        <div className="px-6 py-4 mt-auto space-y-3 text-sm text-blue-100">
+          <div className="flex items-start gap-2">
+            <span className="text-green-400">✓</span>
+            <span>Review and upload case documents</span>
+          </div>
+          <div className="flex items-start gap-2">
+            <span className="text-green-400">✓</span>
+            <span>Work on the jury charge</span>
+          </div>
+          <div className="flex items-start gap-2">
+            <span className="text-green-400">✓</span>
+            <span>Watch the trial as an observer</span>
+          </div>
+        </div>
+      </aside>
+
+      {/* Main Content */}
+      <section className="flex-1 flex flex-col relative px-6 sm:px-12 py-10">
+        <div className="absolute top-6 left-6">
+          <Link
+            href="/login"
+            className="text-sm text-gray-600 hover:text-[#0A2342] hover:underline transition-colors"
+          >
+            ← Back to Login Options
+          </Link>
+        </div>
+
+        <div className="flex flex-1 items-center ml-0 lg:ml-4">
+          <div className="max-w-md w-full">
+            <h1
+              className="text-2xl sm:text-3xl font-bold mb-2"
+              style={{ color: BLUE }}
+            >
+              Team Member Login
+            </h1>
+            <p className="text-gray-600 mb-8">
+              Don&apos;t have a login yet? Use the invitation link the attorney emailed you.
+            </p>
+
+            <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+              {error && (
+                <div
+                  className="bg-red-50 border border-red-200 rounded-md p-3 flex items-start gap-2"
+                  role="alert"
+                >
+                  <AlertCircle
+                    className="text-red-500 flex-shrink-0 mt-0.5"
+                    size={18}
+                  />
+                  <p className="text-sm text-red-700">{error}</p>
+                </div>
+              )}
+
+              <div>
+                <label
+                  htmlFor="email"
+                  className="block mb-2 text-sm font-medium text-gray-700"
+                >
+                  Email Address
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  placeholder="your.email@example.com"
+                  value={email}
+                  onChange={(e) => {
+                    setEmail(e.target.value);
+                    setError(null);
+                  }}
+                  required
+                  disabled={loading}
+                  autoComplete="email"
+                  className="w-full border border-gray-300 rounded px-3 py-2.5 focus:ring-2 focus:ring-[#0A2342] focus:border-[#0A2342] outline-none text-gray-800 disabled:bg-gray-100 disabled:cursor-not-allowed transition-all"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block mb-2 text-sm font-medium text-gray-700"
+                >
+                  Password
+                </label>
+                <div className="relative">
+                  <input
+                    id="password"
+                    type={showPassword ? "text" : "password"}
+                    placeholder="Enter your password"
+                    value={password}
+                    onChange={(e) => {
+                      setPassword(e.target.value);
+                      setError(null);
+                    }}
+                    required
+                    disabled={loading}
+                    autoComplete="current-password"
+                    className="w-full border border-gray-300 rounded px-3 py-2.5 pr-10 focus:ring-2 focus:ring-[#0A2342] focus:border-[#0A2342] outline-none text-gray-800 disabled:bg-gray-100 disabled:cursor-not-allowed transition-all"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    disabled={loading}
+                    className="absolute inset-y-0 right-3 text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                    aria-label={showPassword ? "Hide password" : "Show password"}
+                    tabIndex={-1}
+                  >
+                    {showPassword ? <EyeOff size={18} /> : <Eye size={18} />}
+                  </button>
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className={`w-full rounded px-4 py-3 font-semibold transition-all focus:outline-none focus:ring-2 focus:ring-[#0A2342] focus:ring-offset-2 text-white ${
+                  loading
+                    ? "bg-gray-400 cursor-not-allowed"
+                    : "bg-[#0A2342] hover:bg-[#132c54] cursor-pointer"
+                }`}
+              >
+                {loading ? "Logging in..." : "Log In"}
+              </button>
+            </form>
+
+            <div className="mt-6 pt-6 border-t border-gray-200 text-center">
+              <p className="text-sm text-gray-600">
+                Need help?{" "}
+                <Link
+                  href="/contact"
+                  className="text-[#0A2342] hover:underline font-medium"
+                >
+                  Contact Support
+                </Link>
+              </p>
+            </div>
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef, type ChangeEvent } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { ArrowLeft, ExternalLink, FileText, Gavel, Loader2, Upload, Video } from "lucide-react";
+import { useProtectedRoute } from "@/hooks/useProtectedRoute";
+import { getToken } from "@/lib/apiClient";
+import { listTeamCases, type TeamCase } from "@/lib/warRoomTeam";
+import JuryChargeBuilder from "@/app/attorney/cases/[id]/war-room/components/JuryChargeBuilder";
+
+/* ===========================================================
+   CONSTANTS
+   =========================================================== */
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, "")
+  : "http://localhost:4000";
+
+/* ===========================================================
+   TYPES
+   =========================================================== */
+
+interface WarRoomDocument {
+  Id: number;
+  FileName: string;
+  FileUrl: string;
+  Description: string;
+  Type: string;
+  SizeFormatted: string;
+  UploadedAt: string;
+  CurrentVersion?: number;
+}
+
+/* ===========================================================
+   COMPONENT
+   =========================================================== */
+
+/**
+ * A team member's view of one case: only the parts of the war room their
+ * permissions allow
+ */
+export default function TeamCasePage() {
+  const { isLoading: authLoading } = useProtectedRoute({ requiredUserType: "team_member" });
+
+  const { id } = useParams();
+  const caseId = typeof id === "string" ? id : Array.isArray(id) ? id[0] : "";
+
+  const [membership, setMembership] = useState<TeamCase | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [documents, setDocuments] = useState<WarRoomDocument[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [juryChargeLocked, setJuryChargeLocked] = useState<boolean | null>(null);
+
+  /* ===========================================================
+     DATA LOADING
+     =========================================================== */
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      const res = await fetch(`${API_BASE}/api/war-room/cases/${caseId}/war-room/documents`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      setDocuments(data.documents || []);
+    } catch (err) {
+      console.error("Error loading documents:", err);
+    }
+  }, [caseId]);
+
+  const fetchJuryChargeStatus = useCallback(async () => {
+    try {
+      const res = await fetch(`${API_BASE}/api/jury-charge/status/${caseId}`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      });
+      const data = await res.json();
+      setJuryChargeLocked(!!data.isLocked);
+    } catch (err) {
+      console.error("Error checking jury charge status:", err);
+      setJuryChargeLocked(false);
+    }
+  }, [caseId]);
+
+  const fetchMembership = useCallback(async () => {
+    try {
+      const cases = await listTeamCases();
+      const match = cases.find((c) => String(c.CaseId) === caseId) || null;
+      if (!match) {
+        setError("You don't have access to this case");
+        return;
+      }
+
+      setMembership(match);
+      if (match.Permissions.viewDocuments) fetchDocuments();
+      if (match.Permissions.editJuryCharge) fetchJuryChargeStatus();
+    } catch (err) {
+      console.error("Error loading case access:", err);
+      setError((err instanceof Error && err.message) || "Failed to load case");
+    } finally {
+      setLoading(false);
+    }
+  }, [caseId, fetchDocuments, fetchJuryChargeStatus]);
+
+  useEffect(() => {
+    if (!authLoading && caseId) fetchMembership();
+  }, [authLoading, caseId, fetchMembership]);
+
+  /* ===========================================================
+     UPLOAD
+     =========================================================== */
+
+  const handleUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const res = await fetch(`${API_BASE}/api/war-room/cases/${caseId}/war-room/documents`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${getToken()}` },
+        body: formData,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.success) {
+        throw new Error(data.message || "Failed to upload document");
+      }
+
+      toast.success(`${file.name} uploaded`);
+      fetchDocuments();
+    } catch (err) {
+      console.error("Upload error:", err);
+      toast.error((err instanceof Error && err.message) || "Failed to upload document");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  /* ===========================================================
+     RENDER
+     =========================================================== */
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-[#FAF9F6] flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-[#0A2342]" />
+      </main>
+    );
+  }
+
+  if (error || !membership) {
+    return (
+      <main className="min-h-screen bg-[#FAF9F6] flex flex-col items-center justify-center gap-4 px-6">
+        <p className="text-gray-700">{error}</p>
+        <Link href="/team" className="text-[#0A2342] hover:underline font-medium">
+          Back to your cases
+        </Link>
+      </main>
+    );
+  }
+
+  const { Permissions: permissions } = membership;
+  const hasAnyAccess = Object.values(permissions).some(Boolean);
+
+  return (
+    <main className="min-h-screen bg-[#FAF9F6]">
+      <header className="bg-[#0A2342] text-white">
+        <div className="max-w-5xl mx-auto px-6 py-4">
+          <Link href="/team" className="flex items-center gap-1 text-sm text-blue-100 hover:text-white mb-2">
+            <ArrowLeft className="w-4 h-4" />
+            Your Cases
+          </Link>
+          <h1 className="text-xl font-bold">{membership.caseTitle}</h1>
+          <p className="text-sm text-blue-100">
+            {membership.Role} for {membership.attorneyName}
+            {membership.lawFirmName && ` · ${membership.lawFirmName}`}
+          </p>
+        </div>
+      </header>
+
+      <div className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+        {!hasAnyAccess && (
+          <div className="bg-white rounded-lg border border-gray-200 p-6 text-center text-gray-600">
+            The attorney hasn&apos;t given you access to anything on this case yet.
+          </div>
+        )}
+
+        {permissions.attendTrial && (
+          <section className="bg-white rounded-lg border border-gray-200 p-5 flex items-center justify-between gap-4">
+            <div className="flex items-start gap-3">
+              <Video className="w-5 h-5 text-[#0A2342] mt-0.5" />
+              <div>
+                <h2 className="font-semibold text-gray-900">Trial</h2>
+                <p className="text-sm text-gray-600">
+                  Join the live trial as a muted observer once the attorney has started it.
+                </p>
+              </div>
+            </div>
+            <Link
+              href={`/team/cases/${caseId}/trial`}
+              className="px-4 py-2 rounded-lg bg-[#0A2342] hover:bg-[#132c54] text-white text-sm font-semibold whitespace-nowrap"
+            >
+              Join as Observer
+            </Link>
+          </section>
+        )}
+
+        {permissions.viewDocuments && (
+          <section className="bg-white rounded-lg border border-gray-200 p-5">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="flex items-center gap-2 font-semibold text-gray-900">
+                <FileText className="w-5 h-5 text-[#0A2342]" />
+                Documents
+              </h2>
+              {permissions.uploadDocuments && (
+                <>
+                  <input ref={fileInputRef} type="file" className="hidden" onChange={handleUpload} />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={uploading}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-[#0A2342] hover:bg-[#132c54] text-white text-sm font-semibold disabled:bg-gray-400"
+                  >
+                    {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                    {uploading ? "Uploading..." : "Upload"}
+                  </button>
+                </>
+              )}
+            </div>
+
+            {documents.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No documents uploaded yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {documents.map((doc) => (
+                  <li key={doc.Id} className="py-3 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{doc.FileName}</p>
+                      <p className="text-xs text-gray-500">
+                        {doc.CurrentVersion && doc.CurrentVersion > 1 && `v${doc.CurrentVersion} · `}
+                        {doc.SizeFormatted} · {new Date(doc.UploadedAt).toLocaleDateString()}
+                        {doc.Description && ` · ${doc.Description}`}
+                      </p>
+                    </div>
+                    <a
+                      href={doc.FileUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-sm text-[#0A2342] hover:underline whitespace-nowrap"
+                    >
+                      Open
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+
+        {permissions.editJuryCharge && (
+          <section className="bg-white rounded-lg border border-gray-200 p-5">
+            {juryChargeLocked === null ? (
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <Gavel className="w-4 h-4" />
+                Loading jury charge...
+              </div>
+            ) : (
+              <JuryChargeBuilder
+                caseId={Number(caseId)}
+                isLocked={juryChargeLocked}
+                onLockStatusChange={setJuryChargeLocked}
+                allowTemplates={false}
+              />
+            )}
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
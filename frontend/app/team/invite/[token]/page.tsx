@@ -0,0 +1,341 @@
+"use client";
+
+import { useState, useEffect, useCallback, type FormEvent } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Image from "next/image";
+import Link from "next/link";
+import { Eye, EyeOff, AlertCircle, Briefcase, Loader2 } from "lucide-react";
+import { login } from "@/lib/apiClient";
+
+/* ===========================================================
+   CONSTANTS
+   =========================================================== */
+
+const BLUE = "#0A2342";
+const BG = "#FAF9F6";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, "")
+  : "http://localhost:4000";
+
+/* ===========================================================
+   TYPES
+   =========================================================== */
+
+interface TeamInvite {
+  caseTitle: string;
+  name: string;
+  email: string;
+  role: string;
+  invitedBy: string | null;
+  lawFirmName: string | null;
+  expiresAt: string;
+  hasAccount: boolean;
+}
+
+/* ===========================================================
+   HELPERS
+   =========================================================== */
+
+function validatePassword(password: string): string | null {
+  if (password.length < 8) return "Password must be at least 8 characters";
+  if (!/[A-Z]/.test(password)) return "Password must contain an uppercase letter";
+  if (!/[a-z]/.test(password)) return "Password must contain a lowercase letter";
+  if (!/\d/.test(password)) return "Password must contain a number";
+  return null;
+}
+
+/* ===========================================================
+   COMPONENT
+   =========================================================== */
+
+/**
+ * Accept a war room team invitation
+ * First-time invitees choose a password; members who already have an
+ * account from another case confirm with their existing password.
+ */
+export default function TeamInvitePage() {
+  const params = useParams();
+  const router = useRouter();
+  const token = params.token as string;
+
+  const [invite, setInvite] = useState<TeamInvite | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  /* ===========================================================
+     LOAD INVITE
+     =========================================================== */
+
+  const fetchInvite = useCallback(async () => {
+    try {
+      const res = await fetch(`${API_BASE}/api/auth/team/invites/${token}`);
+      const data = await res.json();
+
+      if (!res.ok || !data.success) {
+        setLoadError(data.error || "This invitation could not be loaded");
+        return;
+      }
+
+      setInvite(data.invite);
+      setName(data.invite.name || "");
+    } catch (err) {
+      console.error("Error loading invitation:", err);
+      setLoadError("Unable to load invitation. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (token) fetchInvite();
+  }, [token, fetchInvite]);
+
+  /* ===========================================================
+     ACCEPT HANDLER
+     =========================================================== */
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!invite) return;
+    setError(null);
+
+    if (invite.hasAccount) {
+      if (!password) {
+        setError("Please enter your password");
+        return;
+      }
+    } else {
+      const passwordError = validatePassword(password);
+      if (passwordError) {
+        setError(passwordError);
+        return;
+      }
+      if (password !== confirmPassword) {
+        setError("Passwords do not match");
+        return;
+      }
+    }
+
+    setSubmitting(true);
+
+    try {
+      // Plain fetch: a wrong password returns 401, which the shared client
+      // would treat as an expired session and redirect away
+      const res = await fetch(`${API_BASE}/api/auth/team/invites/${token}/accept`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ name: name.trim(), password }),
+      });
+      const data = await res.json();
+
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || data.message || "Failed to accept invitation");
+      }
+
+      login(data.token, {
+        id: data.user.id,
+        email: data.user.email,
+        type: "team_member",
+        name: data.user.name,
+      });
+
+      router.push(`/team/cases/${data.caseId}`);
+    } catch (err) {
+      console.error("❌ Accept invite error:", err);
+      setError((err instanceof Error && err.message) || "Failed to accept invitation");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  /* ===========================================================
+     RENDER
+     =========================================================== */
+
+  if (loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center" style={{ backgroundColor: BG }}>
+        <Loader2 className="w-8 h-8 animate-spin text-[#0A2342]" />
+      </main>
+    );
+  }
+
+  if (loadError || !invite) {
+    return (
+      <main className="min-h-screen flex items-center justify-center px-6" style={{ backgroundColor: BG }}>
+        <div className="max-w-md w-full bg-white rounded-lg shadow p-8 text-center">
+          <AlertCircle className="w-10 h-10 text-red-500 mx-auto mb-4" />
+          <h1 className="text-xl font-bold mb-2" style={{ color: BLUE }}>
+            Invitation Unavailable
+          </h1>
+          <p className="text-gray-600 mb-6">{loadError}</p>
+          <Link href="/login/team" className="text-[#0A2342] hover:underline font-medium">
+            Go to Team Member Login
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen flex font-sans" style={{ backgroundColor: BG }}>
+      {/* Sidebar */}
+      <aside className="hidden lg:flex flex-col w-[280px] bg-[#0A2342] text-white relative">
+        <div className="absolute top-10 w-full text-center">
+          <Image
+            src="/logo_sidebar_signup.png"
+            alt="Quick Verdicts Logo"
+            width={280}
+            height={120}
+            className="mx-auto"
+            priority
+          />
+        </div>
+
+        <div className="px-6 py-8 mt-48">
+          <h2 className="text-lg font-semibold mb-3">Trial Team Invitation</h2>
+          <p className="text-sm text-blue-100">
+            {invite.invitedBy || "An attorney"} added you to their trial team.
+          </p>
+        </div>
+      </aside>
+
+      {/* Main Content */}
+      <section className="flex-1 flex items-center px-6 sm:px-12 py-10">
+        <div className="max-w-md w-full ml-0 lg:ml-4">
+          <h1 className="text-2xl sm:text-3xl font-bold mb-2" style={{ color: BLUE }}>
+            Join the Trial Team
+          </h1>
+          <p className="text-gray-600 mb-6">
+            {invite.hasAccount
+              ? "Sign in with your existing team member password to accept."
+              : "Set a password to create your team member login."}
+          </p>
+
+          <div className="bg-white border border-gray-200 rounded-lg p-4 mb-6 flex items-start gap-3">
+            <Briefcase className="w-5 h-5 text-[#0A2342] flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-semibold text-gray-900">{invite.caseTitle}</p>
+              <p className="text-gray-600">
+                {invite.role}
+                {invite.invitedBy && ` · invited by ${invite.invitedBy}`}
+                {invite.lawFirmName && ` (${invite.lawFirmName})`}
+              </p>
+              <p className="text-gray-500 mt-1">{invite.email}</p>
+            </div>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-5" noValidate>
+            {error && (
+              <div
+                className="bg-red-50 border border-red-200 rounded-md p-3 flex items-start gap-2"
+                role="alert"
+              >
+                <AlertCircle className="text-red-500 flex-shrink-0 mt-0.5" size={18} />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {!invite.hasAccount && (
+              <div>
+                <label htmlFor="name" className="block mb-2 text-sm font-medium text-gray-700">
+                  Your Name
+                </label>
+                <input
+                  id="name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={100}
+                  disabled={submitting}
+                  autoComplete="name"
+                  className="w-full border border-gray-300 rounded px-3 py-2.5 focus:ring-2 focus:ring-[#0A2342] focus:border-[#0A2342] outline-none text-gray-800 disabled:bg-gray-100"
+                />
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="password" className="block mb-2 text-sm font-medium text-gray-700">
+                Password
+              </label>
+              <div className="relative">
+                <input
+                  id="password"
+                  type={showPassword ? "text" : "password"}
+                  value={password}
+                  onChange={(e) => {
+                    setPassword(e.target.value);
+                    setError(null);
+                  }}
+                  disabled={submitting}
+                  autoComplete={invite.hasAccount ? "current-password" : "new-password"}
+                  className="w-full border border-gray-300 rounded px-3 py-2.5 pr-10 focus:ring-2 focus:ring-[#0A2342] focus:border-[#0A2342] outline-none text-gray-800 disabled:bg-gray-100"
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute inset-y-0 right-3 text-gray-500 hover:text-gray-700"
+                  aria-label={showPassword ? "Hide password" : "Show password"}
+                  tabIndex={-1}
+                >
+                  {showPassword ? <EyeOff size={18} /> : <Eye size={18} />}
+                </button>
+              </div>
+              {!invite.hasAccount && (
+                <p className="mt-1 text-xs text-gray-500">
+                  At least 8 characters with an uppercase letter, a lowercase letter and a number.
+                </p>
+              )}
+            </div>
+
+            {!invite.hasAccount && (
+              <div>
+                <label htmlFor="confirmPassword" className="block mb-2 text-sm font-medium text-gray-700">
+                  Confirm Password
+                </label>
+                <input
+                  id="confirmPassword"
+                  type={showPassword ? "text" : "password"}
+                  value={confirmPassword}
+                  onChange={(e) => {
+                    setConfirmPassword(e.target.value);
+                    setError(null);
+                  }}
+                  disabled={submitting}
+                  autoComplete="new-password"
+                  className="w-full border border-gray-300 rounded px-3 py-2.5 focus:ring-2 focus:ring-[#0A2342] focus:border-[#0A2342] outline-none text-gray-800 disabled:bg-gray-100"
+                />
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className={`w-full rounded px-4 py-3 font-semibold text-white transition-all ${
+                submitting
+                  ? "bg-gray-400 cursor-not-allowed"
+                  : "bg-[#0A2342] hover:bg-[#132c54] cursor-pointer"
+              }`}
+            >
+              {submitting ? "Accepting..." : "Accept Invitation"}
+            </button>
+          </form>
+
+          <p className="mt-6 text-xs text-gray-500">
+            This invitation expires on {new Date(invite.expiresAt).toLocaleDateString()}.
+          </p>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Briefcase, Calendar, FileText, Gavel, LogOut, Loader2, MapPin, Video } from "lucide-react";
+import { useProtectedRoute } from "@/hooks/useProtectedRoute";
+import { logout } from "@/lib/apiClient";
+import { listTeamCases, type TeamCase } from "@/lib/warRoomTeam";
+
+/* ===========================================================
+   COMPONENT
+   =========================================================== */
+
+/**
+ * Team member home: the cases they have been added to and what they can do on each
+ */
+export default function TeamDashboard() {
+  const { isLoading: authLoading, user } = useProtectedRoute({ requiredUserType: "team_member" });
+
+  const [cases, setCases] = useState<TeamCase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCases = useCallback(async () => {
+    try {
+      setCases(await listTeamCases());
+    } catch (err) {
+      console.error("Error loading team cases:", err);
+      setError((err instanceof Error && err.message) || "Failed to load your cases");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!authLoading) fetchCases();
+  }, [authLoading, fetchCases]);
+
+  return (
+    <main className="min-h-screen bg-[#FAF9F6]">
+      <header className="bg-[#0A2342] text-white">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold">Trial Team</h1>
+            {user?.name && <p className="text-sm text-blue-100">{user.name}</p>}
+          </div>
+          <button
+            onClick={() => logout("/login/team")}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-sm font-medium transition-colors"
+          >
+            <LogOut className="w-4 h-4" />
+            Log Out
+          </button>
+        </div>
+      </header>
+
+      <section className="max-w-5xl mx-auto px-6 py-8">
+        <h2 className="text-lg font-semibold text-[#0A2342] mb-4">Your Cases</h2>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-[#0A2342]" />
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>
+        ) : cases.length === 0 ? (
+          <div className="text-center py-16 bg-white rounded-lg border-2 border-dashed border-gray-300">
+            <Briefcase className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-600">You haven&apos;t been added to any cases yet.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {cases.map((c) => (
+              <Link
+                key={c.Id}
+                href={`/team/cases/${c.CaseId}`}
+                className="block bg-white rounded-lg border border-gray-200 p-5 hover:shadow-md hover:border-[#0A2342]/30 transition-all"
+              >
+                <div className="flex items-start justify-between gap-3 mb-2">
+                  <h3 className="font-semibold text-gray-900">{c.caseTitle}</h3>
+                  <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-50 text-[#0A2342] whitespace-nowrap">
+                    {c.Role}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 mb-3">
+                  {c.attorneyName}
+                  {c.lawFirmName && ` · ${c.lawFirmName}`}
+                </p>
+                <div className="space-y-1 text-sm text-gray-500 mb-4">
+                  <p className="flex items-center gap-2">
+                    <MapPin className="w-4 h-4" />
+                    {c.county}, {c.state}
+                  </p>
+                  {c.scheduledDate && (
+                    <p className="flex items-center gap-2">
+                      <Calendar className="w-4 h-4" />
+                      {new Date(`${c.scheduledDate}T00:00:00`).toLocaleDateString()}
+                      {c.scheduledTime && ` at ${c.scheduledTime.slice(0, 5)}`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {c.Permissions.viewDocuments && (
+                    <span className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 text-gray-700">
+                      <FileText className="w-3 h-3" />
+                      {c.Permissions.uploadDocuments ? "Documents" : "View documents"}
+                    </span>
+                  )}
+                  {c.Permissions.editJuryCharge && (
+                    <span className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 text-gray-700">
+                      <Gavel className="w-3 h-3" />
+                      Jury charge
+                    </span>
+                  )}
+                  {c.Permissions.attendTrial && (
+                    <span className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 text-gray-700">
+                      <Video className="w-3 h-3" />
+                      Trial observer
+                    </span>
+                  )}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getToken } from "@/lib/apiClient";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : "http://localhost:4000";
+
+type StatusChange = {
+  historyId: number;
+  fromStatus: string | null;
+  toStatus: string;
+  label: string | null;
+  changedByType: "admin" | "attorney" | "system";
+  changedByName: string | null;
+  reason: string | null;
+  createdAt: string;
+};
+
+const CASE_STATUS_LABELS: Record<string, string> = {
+  pending: "Pending Approval",
+  war_room: "War Room",
+  awaiting_trial: "Awaiting Trial",
+  join_trial: "Trial Open",
+  view_details: "Collecting Verdicts",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+const STATUS_DOT_COLORS: Record<string, string> = {
+  pending: "bg-amber-500",
+  war_room: "bg-[#16305B]",
+  awaiting_trial: "bg-indigo-500",
+  join_trial: "bg-green-600",
+  view_details: "bg-purple-600",
+  completed: "bg-emerald-700",
+  cancelled: "bg-red-600",
+};
+
+const describeActor = (change: StatusChange) => {
+  if (change.changedByType === "system") return "Automatic";
+  const role = change.changedByType === "admin" ? "Admin" : "Attorney";
+  return change.changedByName ? `${change.changedByName} (${role})` : role;
+};
+
+/**
+ * Status history for a case, oldest first. Shown to admins and the case
+ * attorney; each entry is one transition from the case lifecycle.
+ */
+export default function CaseStatusTimeline({ caseId }: { caseId: string | number }) {
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/api/case/cases/${caseId}/status-history`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.message || "Failed to load status history");
+        }
+        setHistory(result.history || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load status history");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [caseId]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-6 w-6 border-2 border-[#16305B]/30 border-t-[#16305B]"></div>
+      </div>
+    );
+  }
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+
+  if (history.length === 0) {
+    return <p className="text-sm text-[#455A7C]">No status changes have been recorded for this case yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l-2 border-[#C6CDD9] ml-2 space-y-5">
+      {history.map((change) => (
+        <li key={change.historyId} className="ml-5">
+          <span
+            className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ring-2 ring-white ${
+              STATUS_DOT_COLORS[change.toStatus] || "bg-gray-400"
+            }`}
+          />
+          <div className="flex flex-wrap items-baseline gap-x-2">
+            <span className="text-sm font-semibold text-[#0A2342]">
+              {CASE_STATUS_LABELS[change.toStatus] || change.toStatus}
+            </span>
+            {change.fromStatus && (
+              <span className="text-xs text-[#455A7C]">
+                from {CASE_STATUS_LABELS[change.fromStatus] || change.fromStatus}
+              </span>
+            )}
+          </div>
+          {change.label && <p className="text-sm text-[#455A7C]">{change.label}</p>}
+          {change.reason && <p className="text-sm text-[#0A2342] italic mt-0.5">&ldquo;{change.reason}&rdquo;</p>}
+          <p className="text-xs text-[#455A7C] mt-1">
+            {describeActor(change)} • {new Date(change.createdAt).toLocaleString()}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, BookmarkPlus } from "lucide-react";
+import toast from "react-hot-toast";
+import { SaveTemplateInput, TemplateVisibility, saveTemplate } from "@/lib/caseTemplates";
+
+interface SaveTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Questions to save, e.g. { sourceCaseId } or { voirDireQuestions } */
+  questions: Pick<SaveTemplateInput, "juryChargeQuestions" | "voirDireQuestions" | "sourceCaseId">;
+  questionCount: number;
+  defaultCaseType?: string;
+}
+
+export default function SaveTemplateModal({
+  isOpen,
+  onClose,
+  questions,
+  questionCount,
+  defaultCaseType,
+}: SaveTemplateModalProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [caseType, setCaseType] = useState(defaultCaseType || "");
+  const [visibility, setVisibility] = useState<TemplateVisibility>("personal");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setCaseType(defaultCaseType || "");
+  }, [isOpen, defaultCaseType]);
+
+  if (!isOpen) return null;
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("Template name is required");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveTemplate({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        caseType: caseType.trim() || undefined,
+        visibility,
+        ...questions,
+      });
+      toast.success(`Saved "${name.trim()}" to your template library`);
+      setName("");
+      setDescription("");
+      onClose();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-white/10 backdrop-blur-md p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <div className="flex items-center gap-3 mb-1">
+              <BookmarkPlus className="h-6 w-6 text-[#16305B]" />
+              <h2 className="text-2xl font-bold text-[#0A2342]">Save as Template</h2>
+            </div>
+            <p className="text-sm text-[#455A7C]">
+              {questionCount} question{questionCount === 1 ? "" : "s"} will be saved for reuse on future cases.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-semibold text-[#0A2342] mb-1">
+              Template Name <span className="text-red-600">*</span>
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={200}
+              placeholder="e.g. Auto Negligence - Standard"
+              className="w-full px-4 py-2 border border-[#C6CDD9] rounded-lg text-[#0A2342] focus:outline-[#16305B]"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-[#0A2342] mb-1">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={1000}
+              rows={2}
+              className="w-full px-4 py-2 border border-[#C6CDD9] rounded-lg text-[#0A2342] focus:outline-[#16305B]"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-[#0A2342] mb-1">Case Type</label>
+            <input
+              type="text"
+              value={caseType}
+              onChange={(e) => setCaseType(e.target.value)}
+              maxLength={100}
+              placeholder="e.g. Civil"
+              className="w-full px-4 py-2 border border-[#C6CDD9] rounded-lg text-[#0A2342] focus:outline-[#16305B]"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-[#0A2342] mb-2">Who can use it</label>
+            <div className="flex gap-4">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={visibility === "personal"}
+                  onChange={() => setVisibility("personal")}
+                  className="w-4 h-4 text-[#16305B] border-gray-300 focus:ring-[#16305B]"
+                />
+                <span className="text-sm text-[#0A2342]">Only me</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={visibility === "firm"}
+                  onChange={() => setVisibility("firm")}
+                  className="w-4 h-4 text-[#16305B] border-gray-300 focus:ring-[#16305B]"
+                />
+                <span className="text-sm text-[#0A2342]">Attorneys at my firm</span>
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="px-5 py-2.5 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 disabled:opacity-50 transition-all cursor-pointer"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || questionCount === 0}
+            className="flex items-center gap-2 px-5 py-2.5 bg-[#16305B] text-white rounded-lg font-semibold hover:bg-[#0A2342] disabled:opacity-50 disabled:cursor-not-allowed transition-all cursor-pointer"
+          >
+            {saving && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>}
+            Save Template
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, Library, Trash2, Users, User, Download } from "lucide-react";
+import toast from "react-hot-toast";
+import {
+  CaseTemplate,
+  TemplateKind,
+  deleteTemplate,
+  listTemplates,
+  templateQuestionCount,
+} from "@/lib/caseTemplates";
+
+interface TemplateLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Which question set is being imported */
+  kind: TemplateKind;
+  onImport: (template: CaseTemplate) => void | Promise<void>;
+}
+
+const KIND_LABELS: Record<TemplateKind, string> = {
+  juryCharge: "jury charge",
+  voirDire: "voir dire",
+};
+
+export default function TemplateLibraryModal({ isOpen, onClose, kind, onImport }: TemplateLibraryModalProps) {
+  const [templates, setTemplates] = useState<CaseTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      setSelectedId(null);
+      try {
+        const all = await listTemplates();
+        setTemplates(all.filter((t) => templateQuestionCount(t, kind) > 0));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load templates");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [isOpen, kind]);
+
+  if (!isOpen) return null;
+
+  const selected = templates.find((t) => t.templateId === selectedId) || null;
+
+  const handleImport = async () => {
+    if (!selected) return;
+    setImporting(true);
+    try {
+      await onImport(selected);
+      onClose();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to import template");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (template: CaseTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteTemplate(template.templateId);
+      setTemplates((prev) => prev.filter((t) => t.templateId !== template.templateId));
+      if (selectedId === template.templateId) setSelectedId(null);
+      toast.success("Template deleted");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete template");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-white/10 backdrop-blur-md p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <div className="flex items-center gap-3 mb-1">
+              <Library className="h-6 w-6 text-[#16305B]" />
+              <h2 className="text-2xl font-bold text-[#0A2342]">Import from Template</h2>
+            </div>
+            <p className="text-sm text-[#455A7C]">
+              Choose a saved template to add its {KIND_LABELS[kind]} questions to this case.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto flex-1 space-y-3">
+          {loading ? (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#16305B]"></div>
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-10 bg-[#f9f7f2] rounded-lg border-2 border-dashed border-[#C6CDD9]">
+              <p className="text-[#0A2342] font-semibold">No templates yet</p>
+              <p className="text-sm text-[#455A7C] mt-1">
+                Use &quot;Save as Template&quot; to reuse these {KIND_LABELS[kind]} questions on future cases.
+              </p>
+            </div>
+          ) : (
+            templates.map((template) => {
+              const isSelected = template.templateId === selectedId;
+              return (
+                <div
+                  key={template.templateId}
+                  onClick={() => setSelectedId(template.templateId)}
+                  className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
+                    isSelected ? "border-[#16305B] bg-[#16305B]/5" : "border-[#C6CDD9] hover:border-[#5B9BD5]"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-[#0A2342] truncate">{template.name}</p>
+                      {template.description && (
+                        <p className="text-sm text-[#455A7C] mt-0.5">{template.description}</p>
+                      )}
+                      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-[#455A7C]">
+                        {template.caseType && (
+                          <span className="px-2 py-0.5 bg-[#f9f7f2] border border-[#C6CDD9] rounded">
+                            {template.caseType}
+                          </span>
+                        )}
+                        <span className="flex items-center gap-1">
+                          {template.visibility === "firm" ? <Users className="w-3.5 h-3.5" /> : <User className="w-3.5 h-3.5" />}
+                          {template.visibility === "firm"
+                            ? template.isOwner
+                              ? "Shared with your firm"
+                              : `Shared by ${template.ownerName || "your firm"}`
+                            : "Only you"}
+                        </span>
+                        <span>
+                          {template.juryChargeCount} jury charge • {template.voirDireCount} voir dire
+                        </span>
+                      </div>
+                    </div>
+                    {template.isOwner && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(template);
+                        }}
+                        className="p-1.5 hover:bg-red-50 rounded-lg transition text-red-600 flex-shrink-0"
+                        title="Delete template"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+
+                  {isSelected && (
+                    <ol className="mt-3 pt-3 border-t border-[#C6CDD9] space-y-1 list-decimal list-inside text-sm text-[#0A2342]">
+                      {kind === "juryCharge"
+                        ? template.juryChargeQuestions.map((q, i) => (
+                            <li key={i}>
+                              {q.questionText}
+                              <span className="text-xs text-[#455A7C]"> ({q.questionType})</span>
+                            </li>
+                          ))
+                        : template.voirDireQuestions.map((q, i) => (
+                            <li key={i}>
+                              {q.question}
+                              <span className="text-xs text-[#455A7C]"> ({q.type === "yesno" ? "Yes/No" : "Text"})</span>
+                            </li>
+                          ))}
+                    </ol>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            disabled={importing}
+            className="px-5 py-2.5 bg-gray-200 text-gray-700 rounded-lg font-semibold hover:bg-gray-300 disabled:opacity-50 transition-all cursor-pointer"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!selected || importing}
+            className="flex items-center gap-2 px-5 py-2.5 bg-[#16305B] text-white rounded-lg font-semibold hover:bg-[#0A2342] disabled:opacity-50 disabled:cursor-not-allowed transition-all cursor-pointer"
+          >
+            {importing ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+            ) : (
+              <Download className="w-4 h-4" />
+            )}
+            Import {selected ? `${templateQuestionCount(selected, kind)} Questions` : ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
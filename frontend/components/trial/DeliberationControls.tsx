@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DoorOpen, Eye, EyeOff, Lock, Users } from "lucide-react";
+import toast from "react-hot-toast";
+import { useDeliberationRoom, switchConferenceRoom } from "@/hooks/useDeliberationRoom";
+
+interface DeliberationControlsProps {
+  caseId: string;
+  role: "admin" | "attorney" | "juror";
+  /** Which call this client is in; null while a juror is still joining */
+  inDeliberationRoom: boolean | null;
+}
+
+/**
+ * Conference header controls for the private deliberation room. Admins move
+ * jurors in and out and toggle silent observation; attorneys can observe when
+ * allowed; every client is sent back to the right room when the state changes.
+ */
+export default function DeliberationControls({ caseId, role, inDeliberationRoom }: DeliberationControlsProps) {
+  const { deliberation, moveJurors, setObservation } = useDeliberationRoom(caseId);
+  const [busy, setBusy] = useState(false);
+
+  const deliberating = deliberation?.status === "deliberating";
+  const canObserve = deliberating && !!deliberation?.observationEnabled;
+
+  // Keep each client in the room the current state allows
+  useEffect(() => {
+    if (!deliberation || inDeliberationRoom === null) return;
+
+    if (role === "juror" && deliberating !== inDeliberationRoom) {
+      toast(deliberating ? "Moving to the deliberation room..." : "Returning to the courtroom for the debrief...", {
+        duration: 3000,
+      });
+      const timeout = setTimeout(() => window.location.reload(), 2000);
+      return () => clearTimeout(timeout);
+    }
+
+    const allowed = role === "admin" ? deliberating : canObserve;
+    if (role !== "juror" && inDeliberationRoom && !allowed) {
+      toast("The deliberation room has closed. Returning to the courtroom...", { duration: 3000 });
+      const timeout = setTimeout(() => switchConferenceRoom(false), 2000);
+      return () => clearTimeout(timeout);
+    }
+  }, [deliberation, deliberating, canObserve, inDeliberationRoom, role]);
+
+  if (!deliberation) return null;
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update deliberation room");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const buttonClass =
+    "flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-semibold text-white bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="flex items-center gap-2">
+      {deliberating && (
+        <span className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-semibold text-white bg-purple-500/30">
+          <Lock className="w-4 h-4" />
+          {inDeliberationRoom
+            ? role === "attorney"
+              ? "Observing deliberations (muted)"
+              : "Deliberation room • Attorneys cannot hear you"
+            : "Jurors are deliberating"}
+        </span>
+      )}
+
+      {role === "admin" && (
+        <>
+          <button
+            onClick={() => runAction(() => moveJurors(deliberating ? "courtroom" : "deliberation"))}
+            disabled={busy}
+            className={buttonClass}
+            title={deliberating ? "Bring jurors back to the courtroom for the debrief" : "Move jurors to the private deliberation room"}
+          >
+            <Users className="w-4 h-4" />
+            {deliberating ? "Return Jurors for Debrief" : "Send Jurors to Deliberate"}
+          </button>
+          {deliberation.observationAvailable && (
+            <button
+              onClick={() => runAction(() => setObservation(!deliberation.observationEnabled))}
+              disabled={busy}
+              className={buttonClass}
+              title="Let the attorneys watch deliberations without being seen or heard"
+            >
+              {deliberation.observationEnabled ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+              Observation {deliberation.observationEnabled ? "On" : "Off"}
+            </button>
+          )}
+        </>
+      )}
+
+      {((role === "admin" && deliberating) || (role === "attorney" && canObserve)) && (
+        <button onClick={() => switchConferenceRoom(!inDeliberationRoom)} className={buttonClass}>
+          <DoorOpen className="w-4 h-4" />
+          {inDeliberationRoom ? "Back to Courtroom" : role === "admin" ? "Join Deliberation Room" : "Observe Deliberation"}
+        </button>
+      )}
+    </div>
+  );
+}
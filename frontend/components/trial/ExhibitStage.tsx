@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, Presentation, XCircle, ZoomIn, ZoomOut } from "lucide-react";
+import toast from "react-hot-toast";
+import { EXHIBIT_ZOOM, ExhibitAction, useExhibitPresentation } from "@/hooks/useExhibitPresentation";
+
+type ExhibitPresentation = ReturnType<typeof useExhibitPresentation>;
+
+interface ExhibitStageProps {
+  role: "admin" | "attorney" | "juror";
+  presentation: ExhibitPresentation;
+}
+
+/**
+ * Shared exhibit viewer laid over the featured video. Everyone sees the page
+ * and zoom the presenting attorney picked; the presenter gets page and zoom
+ * controls and an admin can take the exhibit down.
+ */
+export default function ExhibitStage({ role, presentation }: ExhibitStageProps) {
+  const { exhibit, control } = presentation;
+  const [busy, setBusy] = useState(false);
+
+  if (!exhibit) return null;
+
+  const isPresenter = role === "attorney";
+
+  const runAction = async (action: ExhibitAction, options = {}) => {
+    setBusy(true);
+    try {
+      await control(action, options);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update exhibit");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setZoom = (zoom: number) =>
+    runAction("navigate", { zoom: Math.min(EXHIBIT_ZOOM.MAX, Math.max(EXHIBIT_ZOOM.MIN, zoom)) });
+
+  const buttonClass =
+    "w-8 h-8 rounded-lg flex items-center justify-center bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="absolute inset-0 z-10 flex flex-col" style={{ backgroundColor: "#f9f7f2" }}>
+      <div className="px-4 py-2 flex items-center justify-between gap-3" style={{ backgroundColor: "#0A2342" }}>
+        <div className="flex items-center gap-2 min-w-0">
+          <Presentation className="w-4 h-4 text-white/80 flex-shrink-0" />
+          <span className="text-white text-sm font-semibold truncate">{exhibit.fileName}</span>
+          <span className="text-white/70 text-xs flex-shrink-0">
+            {exhibit.version && `v${exhibit.version} • `}
+            {exhibit.fileType === "pdf" && `Page ${exhibit.page} • `}
+            {Math.round(exhibit.zoom * 100)}%
+          </span>
+        </div>
+
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {isPresenter && (
+            <>
+              {exhibit.fileType === "pdf" && (
+                <>
+                  <button
+                    onClick={() => runAction("navigate", { page: exhibit.page - 1 })}
+                    disabled={busy || exhibit.page <= 1}
+                    className={buttonClass}
+                    title="Previous page"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => runAction("navigate", { page: exhibit.page + 1 })}
+                    disabled={busy}
+                    className={buttonClass}
+                    title="Next page"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => setZoom(exhibit.zoom - EXHIBIT_ZOOM.STEP)}
+                disabled={busy || exhibit.zoom <= EXHIBIT_ZOOM.MIN}
+                className={buttonClass}
+                title="Zoom out"
+              >
+                <ZoomOut className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setZoom(exhibit.zoom + EXHIBIT_ZOOM.STEP)}
+                disabled={busy || exhibit.zoom >= EXHIBIT_ZOOM.MAX}
+                className={buttonClass}
+                title="Zoom in"
+              >
+                <ZoomIn className="w-4 h-4" />
+              </button>
+            </>
+          )}
+
+          {(isPresenter || role === "admin") && (
+            <button
+              onClick={() => runAction("stop")}
+              disabled={busy}
+              className="ml-2 flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold text-white bg-red-600 hover:bg-red-700 transition-colors disabled:opacity-40"
+            >
+              <XCircle className="w-4 h-4" />
+              {isPresenter ? "Stop Presenting" : "Revoke Exhibit"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {exhibit.fileType === "pdf" ? (
+          // Remount on every move so the browser PDF viewer opens at the presenter's page and zoom
+          <iframe
+            key={`${exhibit.documentId}-${exhibit.page}-${exhibit.zoom}`}
+            src={`${exhibit.fileUrl}#page=${exhibit.page}&zoom=${Math.round(exhibit.zoom * 100)}&toolbar=0&navpanes=0`}
+            title={exhibit.fileName}
+            className="w-full h-full border-0"
+          />
+        ) : (
+          <div className="min-h-full flex items-start justify-center p-4">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={exhibit.fileUrl}
+              alt={exhibit.fileName}
+              className="max-w-none shadow-lg"
+              style={{ width: `${exhibit.zoom * 100}%` }}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
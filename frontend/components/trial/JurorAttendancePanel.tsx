@@ -0,0 +1,154 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertTriangle, CheckCircle2, VideoOff, X } from "lucide-react";
+import { getToken } from "@/lib/apiClient";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, "")
+  : "http://localhost:4000";
+
+const REFRESH_INTERVAL_MS = 30000;
+
+interface JurorAttendance {
+  jurorId: number;
+  name: string | null;
+  presentSeconds: number;
+  cameraOffSeconds: number;
+  presentPercent: number;
+  cameraOffPercent: number;
+  sessions: number;
+  isPresent: boolean;
+  isCameraOff: boolean;
+  flagged: boolean;
+  reasons: string[];
+}
+
+interface AttendanceResponse {
+  trial: { startedAt: string | null; durationSeconds: number; tracked: boolean };
+  thresholds: { minPresentPercent: number; maxCameraOffPercent: number };
+  jurors: JurorAttendance[];
+}
+
+interface JurorAttendancePanelProps {
+  caseId: string;
+  onClose: () => void;
+}
+
+const formatMinutes = (seconds: number) => `${Math.round(seconds / 60)} min`;
+
+/**
+ * Admin side panel: per-juror time in the room and camera-off time, flagged
+ * against the payout eligibility thresholds
+ */
+export default function JurorAttendancePanel({ caseId, onClose }: JurorAttendancePanelProps) {
+  const [data, setData] = useState<AttendanceResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadAttendance = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE}/api/trial/attendance/${caseId}`, {
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+        },
+      });
+
+      if (response.ok) {
+        setData(await response.json());
+      }
+    } catch (err) {
+      console.error("Error loading attendance:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    loadAttendance();
+    const interval = setInterval(loadAttendance, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadAttendance]);
+
+  const flaggedCount = data?.jurors.filter((j) => j.flagged).length ?? 0;
+
+  return (
+    <div className="w-1/5 flex flex-col shadow-2xl" style={{ backgroundColor: "#ffffff", borderLeft: "1px solid #C6CDD9" }}>
+      <div className="p-5 flex items-center justify-between" style={{ backgroundColor: "#16305B", borderBottom: "1px solid #C6CDD9" }}>
+        <div>
+          <h3 className="text-lg font-bold text-white">Juror Attendance</h3>
+          <p className="text-sm text-white opacity-80">
+            {data ? `${flaggedCount} of ${data.jurors.length} flagged` : "Loading..."}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-white hover:text-gray-300">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      {data && (
+        <div className="px-4 py-3 text-xs" style={{ backgroundColor: "#f9f7f2", color: "#455A7C", borderBottom: "1px solid #C6CDD9" }}>
+          {data.trial.tracked
+            ? `Trial running ${formatMinutes(data.trial.durationSeconds)}. `
+            : "Trial has not started yet. "}
+          Jurors need {data.thresholds.minPresentPercent}% attendance with the camera off no more than{" "}
+          {data.thresholds.maxCameraOffPercent}% of the time to be paid automatically.
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {loading ? (
+          <div className="text-center mt-10" style={{ color: "#455A7C" }}>
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#16305B] mx-auto mb-2"></div>
+            Loading attendance...
+          </div>
+        ) : !data || data.jurors.length === 0 ? (
+          <div className="text-center mt-10" style={{ color: "#455A7C" }}>
+            <p className="font-semibold">No approved jurors</p>
+          </div>
+        ) : (
+          data.jurors.map((juror) => (
+            <div
+              key={juror.jurorId}
+              className="rounded-lg p-3"
+              style={{
+                backgroundColor: juror.flagged ? "#FEF2F2" : "#f9f7f2",
+                border: `1px solid ${juror.flagged ? "#FCA5A5" : "#C6CDD9"}`,
+              }}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className={`w-2 h-2 rounded-full flex-shrink-0 ${juror.isPresent ? "bg-green-500" : "bg-gray-400"}`} />
+                  <p className="font-semibold truncate" style={{ color: "#0A2342" }}>{juror.name || `Juror #${juror.jurorId}`}</p>
+                </div>
+                {juror.flagged ? (
+                  <AlertTriangle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                ) : (
+                  <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />
+                )}
+              </div>
+
+              <div className="mt-2 text-xs space-y-1" style={{ color: "#455A7C" }}>
+                <p>
+                  Present {juror.presentPercent}% ({formatMinutes(juror.presentSeconds)})
+                  {juror.sessions > 1 && ` • rejoined ${juror.sessions - 1}x`}
+                </p>
+                <p className="flex items-center gap-1">
+                  {juror.isCameraOff && <VideoOff className="w-3 h-3 text-red-600" />}
+                  Camera off {juror.cameraOffPercent}% ({formatMinutes(juror.cameraOffSeconds)})
+                </p>
+              </div>
+
+              {juror.reasons.length > 0 && (
+                <ul className="mt-2 text-xs text-red-700 list-disc list-inside">
+                  {juror.reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronUp, Lock, NotebookPen, X } from "lucide-react";
+import { MAX_NOTE_LENGTH, useJurorNotepad } from "@/hooks/useJurorNotepad";
+
+interface JurorNotepadProps {
+  caseId: string | number;
+  // "panel" is the conference side panel; "inline" is a collapsible card for the verdict form
+  variant: "panel" | "inline";
+  onClose?: () => void;
+}
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+function SaveStatus({ notepad }: { notepad: ReturnType<typeof useJurorNotepad> }) {
+  if (notepad.error) return <span className="text-red-600">{notepad.error}</span>;
+  if (notepad.saving) return <span>Saving...</span>;
+  if (notepad.lastSavedAt) return <span>Saved {formatTime(notepad.lastSavedAt)}</span>;
+  return <span>Autosaves as you type</span>;
+}
+
+/**
+ * A juror's private notes for the trial. Only the juror can see them; they
+ * are kept through reconnects and deleted when the results are published.
+ */
+export default function JurorNotepad({ caseId, variant, onClose }: JurorNotepadProps) {
+  const notepad = useJurorNotepad(caseId);
+  const [expanded, setExpanded] = useState(false);
+
+  const editor = (
+    <>
+      <textarea
+        value={notepad.content}
+        onChange={(e) => notepad.setContent(e.target.value)}
+        maxLength={MAX_NOTE_LENGTH}
+        disabled={notepad.loading}
+        placeholder={notepad.loading ? "Loading notes..." : "Jot down testimony, exhibits, or questions to remember..."}
+        className={`w-full p-3 text-sm rounded-lg border border-[#C6CDD9] text-[#0A2342] resize-none focus:outline-none focus:ring-2 focus:ring-[#16305B] ${
+          variant === "panel" ? "flex-1" : "h-48"
+        }`}
+      />
+      <div className="flex items-center justify-between text-xs mt-2" style={{ color: "#455A7C" }}>
+        <SaveStatus notepad={notepad} />
+        <span>
+          {notepad.content.length.toLocaleString()} / {MAX_NOTE_LENGTH.toLocaleString()}
+        </span>
+      </div>
+    </>
+  );
+
+  if (variant === "inline") {
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="w-full flex items-center justify-between p-4 text-left"
+        >
+          <span className="flex items-center gap-2 font-semibold text-gray-900">
+            <NotebookPen className="w-5 h-5 text-blue-600" />
+            My Trial Notes
+            <span className="flex items-center gap-1 text-xs font-normal text-gray-500">
+              <Lock className="w-3 h-3" />
+              Only you can see these
+            </span>
+          </span>
+          {expanded ? <ChevronUp className="w-5 h-5 text-gray-500" /> : <ChevronDown className="w-5 h-5 text-gray-500" />}
+        </button>
+        {expanded && <div className="px-4 pb-4">{editor}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-1/5 flex flex-col shadow-2xl" style={{ backgroundColor: "#ffffff", borderLeft: "1px solid #C6CDD9" }}>
+      <div className="p-5 flex items-center justify-between" style={{ backgroundColor: "#16305B", borderBottom: "1px solid #C6CDD9" }}>
+        <div>
+          <h3 className="text-lg font-bold text-white">My Notes</h3>
+          <p className="text-sm text-white opacity-80 flex items-center gap-1">
+            <Lock className="w-3 h-3" />
+            Private, deleted after the verdict
+          </p>
+        </div>
+        <button onClick={onClose} className="text-white hover:text-gray-300">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex-1 flex flex-col p-4">{editor}</div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { BarChart3 } from "lucide-react";
+import toast from "react-hot-toast";
+import { useTrialPolls } from "@/hooks/useTrialPolls";
+
+type TrialPolls = ReturnType<typeof useTrialPolls>;
+
+interface JurorPollPromptProps {
+  polls: TrialPolls;
+}
+
+/**
+ * Card laid over the featured video while a poll is waiting for this juror's
+ * answer. Answers are anonymous and jurors never see the results.
+ */
+export default function JurorPollPrompt({ polls }: JurorPollPromptProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const poll = polls.polls.find((p) => p.status === "open" && !p.hasResponded);
+  if (!poll) return null;
+
+  const handleSubmit = async () => {
+    if (selected === null) return;
+    setSubmitting(true);
+    try {
+      await polls.respond(poll.pollId, selected);
+      setSelected(null);
+      toast.success("Thanks! Your answer is anonymous.");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to submit answer");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="absolute bottom-4 right-4 z-20 w-80 rounded-xl shadow-2xl overflow-hidden" style={{ backgroundColor: "#ffffff" }}>
+      <div className="px-4 py-3 flex items-center gap-2" style={{ backgroundColor: "#16305B" }}>
+        <BarChart3 className="w-4 h-4 text-white" />
+        <span className="text-sm font-semibold text-white">Quick Poll</span>
+        <span className="ml-auto text-xs text-white/70">Anonymous</span>
+      </div>
+      <div className="p-4">
+        <p className="text-sm font-semibold" style={{ color: "#0A2342" }}>{poll.question}</p>
+        <div className="mt-3 space-y-2">
+          {poll.options.map((option, index) => (
+            <button
+              key={option}
+              onClick={() => setSelected(index)}
+              disabled={submitting}
+              className="w-full text-left px-3 py-2 rounded-lg text-sm transition-colors"
+              style={
+                selected === index
+                  ? { backgroundColor: "#16305B", color: "#ffffff", border: "1px solid #16305B" }
+                  : { backgroundColor: "#f9f7f2", color: "#0A2342", border: "1px solid #C6CDD9" }
+              }
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleSubmit}
+          disabled={submitting || selected === null}
+          className="mt-3 w-full py-2 rounded-lg text-sm font-semibold text-white disabled:opacity-50"
+          style={{ backgroundColor: "#FDB71A" }}
+        >
+          {submitting ? "Submitting..." : "Submit Answer"}
+        </button>
+      </div>
+    </div>
+  );
+}
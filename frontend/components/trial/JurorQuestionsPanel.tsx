@@ -0,0 +1,272 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Pencil, Send, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { JurorQuestion, MAX_QUESTION_LENGTH, useJurorQuestions } from "@/hooks/useJurorQuestions";
+
+type JurorQuestions = ReturnType<typeof useJurorQuestions>;
+
+interface JurorQuestionsPanelProps {
+  role: "admin" | "attorney" | "juror";
+  questions: JurorQuestions;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<JurorQuestion["status"], { label: string; className: string }> = {
+  pending: { label: "Awaiting review", className: "bg-blue-100 text-blue-800" },
+  approved: { label: "Sent to counsel", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Not forwarded", className: "bg-gray-100 text-gray-700" },
+};
+
+const HEADER_TEXT = {
+  juror: { title: "Questions for Counsel", subtitle: "Reviewed by the moderator before sending" },
+  admin: { title: "Juror Questions", subtitle: "Approve, edit, or reject before forwarding" },
+  attorney: { title: "Juror Questions", subtitle: "Forwarded by the moderator" },
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+/**
+ * Conference side panel for juror written questions. Jurors submit and track
+ * their own questions, admins moderate the queue, and attorneys read the
+ * questions that were approved (without who asked them).
+ */
+export default function JurorQuestionsPanel({ role, questions, onClose }: JurorQuestionsPanelProps) {
+  const { title, subtitle } = HEADER_TEXT[role];
+  const pending = questions.questions.filter((q) => q.status === "pending");
+  const reviewed = questions.questions.filter((q) => q.status !== "pending");
+
+  return (
+    <div className="w-1/5 flex flex-col shadow-2xl" style={{ backgroundColor: "#ffffff", borderLeft: "1px solid #C6CDD9" }}>
+      <div className="p-5 flex items-center justify-between" style={{ backgroundColor: "#16305B", borderBottom: "1px solid #C6CDD9" }}>
+        <div>
+          <h3 className="text-lg font-bold text-white">{title}</h3>
+          <p className="text-sm text-white opacity-80">
+            {role === "admin" ? `${pending.length} awaiting review` : subtitle}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-white hover:text-gray-300">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      {role === "juror" && <QuestionForm onSubmit={questions.submitQuestion} />}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {questions.loading ? (
+          <div className="text-center mt-10" style={{ color: "#455A7C" }}>
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#16305B] mx-auto mb-2"></div>
+            Loading questions...
+          </div>
+        ) : questions.questions.length === 0 ? (
+          <div className="text-center mt-10" style={{ color: "#455A7C" }}>
+            <p className="font-semibold">No questions yet</p>
+            <p className="text-sm mt-1">
+              {role === "juror" ? "Ask counsel anything you'd like clarified." : role === "admin" ? "Juror questions will appear here." : subtitle}
+            </p>
+          </div>
+        ) : role === "admin" ? (
+          <>
+            {pending.map((question) => (
+              <PendingQuestion key={question.questionId} question={question} onModerate={questions.moderateQuestion} />
+            ))}
+            {reviewed.length > 0 && (
+              <p className="text-xs font-semibold uppercase tracking-wide pt-2" style={{ color: "#455A7C" }}>
+                Reviewed
+              </p>
+            )}
+            {[...reviewed].reverse().map((question) => (
+              <QuestionCard key={question.questionId} question={question} showStatus />
+            ))}
+          </>
+        ) : (
+          [...questions.questions]
+            .reverse()
+            .map((question) => <QuestionCard key={question.questionId} question={question} showStatus={role === "juror"} />)
+        )}
+      </div>
+    </div>
+  );
+}
+
+function QuestionForm({ onSubmit }: { onSubmit: (text: string) => Promise<void> }) {
+  const [text, setText] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!text.trim()) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(text.trim());
+      setText("");
+      toast.success("Question sent for review");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to submit question");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-4" style={{ borderBottom: "1px solid #C6CDD9" }}>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        maxLength={MAX_QUESTION_LENGTH}
+        rows={3}
+        placeholder="Write a question for counsel..."
+        className="w-full px-3 py-2 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-[#5B9BD5]"
+        style={{ border: "1px solid #C6CDD9", color: "#0A2342" }}
+      />
+      <div className="mt-2 flex items-center justify-between">
+        <span className="text-xs" style={{ color: "#455A7C" }}>
+          {text.length}/{MAX_QUESTION_LENGTH}
+        </span>
+        <button
+          onClick={handleSubmit}
+          disabled={submitting || !text.trim()}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold text-white disabled:opacity-50"
+          style={{ backgroundColor: "#16305B" }}
+        >
+          <Send className="w-4 h-4" />
+          {submitting ? "Sending..." : "Submit"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function QuestionCard({ question, showStatus }: { question: JurorQuestion; showStatus: boolean }) {
+  const status = STATUS_LABELS[question.status];
+
+  return (
+    <div className="rounded-lg p-3" style={{ backgroundColor: "#f9f7f2", border: "1px solid #C6CDD9" }}>
+      <div className="flex items-center justify-between gap-2 text-xs" style={{ color: "#455A7C" }}>
+        <span className="truncate">
+          {question.jurorName ? `${question.jurorName} • ` : ""}
+          {formatTime(question.createdAt)}
+        </span>
+        {showStatus && (
+          <span className={`px-2 py-0.5 rounded-full font-medium flex-shrink-0 ${status.className}`}>{status.label}</span>
+        )}
+      </div>
+      <p className="mt-2 text-sm whitespace-pre-wrap" style={{ color: "#0A2342" }}>{question.text}</p>
+      {question.edited && (
+        <p className="mt-2 text-xs italic" style={{ color: "#455A7C" }}>Edited from: {question.originalText}</p>
+      )}
+      {question.status === "rejected" && question.rejectReason && (
+        <p className="mt-2 text-xs text-red-700">{question.rejectReason}</p>
+      )}
+    </div>
+  );
+}
+
+function PendingQuestion({
+  question,
+  onModerate,
+}: {
+  question: JurorQuestion;
+  onModerate: JurorQuestions["moderateQuestion"];
+}) {
+  const [mode, setMode] = useState<"view" | "edit" | "reject">("view");
+  const [text, setText] = useState(question.text);
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const moderate = async (decision: "approve" | "reject") => {
+    setBusy(true);
+    try {
+      await onModerate(
+        question.questionId,
+        decision,
+        decision === "approve" ? { text: text.trim() } : { reason: reason.trim() }
+      );
+      toast.success(decision === "approve" ? "Question forwarded to counsel" : "Question rejected");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to moderate question");
+      setBusy(false);
+    }
+  };
+
+  const smallButton = "flex items-center gap-1 px-2 py-1 rounded text-xs font-semibold disabled:opacity-50";
+
+  return (
+    <div className="rounded-lg p-3" style={{ backgroundColor: "#EFF6FF", border: "1px solid #5B9BD5" }}>
+      <div className="text-xs" style={{ color: "#455A7C" }}>
+        {question.jurorName || `Juror #${question.jurorId}`} • {formatTime(question.createdAt)}
+      </div>
+
+      {mode === "edit" ? (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          maxLength={MAX_QUESTION_LENGTH}
+          rows={4}
+          className="mt-2 w-full px-2 py-1 rounded text-sm resize-none focus:outline-none focus:ring-2 focus:ring-[#5B9BD5]"
+          style={{ border: "1px solid #C6CDD9", color: "#0A2342" }}
+        />
+      ) : (
+        <p className="mt-2 text-sm whitespace-pre-wrap" style={{ color: "#0A2342" }}>{question.text}</p>
+      )}
+
+      {mode === "reject" && (
+        <input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          maxLength={500}
+          placeholder="Reason shown to the juror (optional)"
+          className="mt-2 w-full px-2 py-1 rounded text-sm focus:outline-none focus:ring-2 focus:ring-[#5B9BD5]"
+          style={{ border: "1px solid #C6CDD9", color: "#0A2342" }}
+        />
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        {mode === "reject" ? (
+          <>
+            <button onClick={() => moderate("reject")} disabled={busy} className={`${smallButton} bg-red-600 text-white`}>
+              <X className="w-3 h-3" />
+              Confirm Reject
+            </button>
+            <button onClick={() => setMode("view")} disabled={busy} className={`${smallButton} bg-gray-200 text-gray-700`}>
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => moderate("approve")}
+              disabled={busy || !text.trim()}
+              className={`${smallButton} bg-green-600 text-white`}
+            >
+              <Check className="w-3 h-3" />
+              {mode === "edit" ? "Approve Edit" : "Approve"}
+            </button>
+            {mode === "edit" ? (
+              <button
+                onClick={() => {
+                  setText(question.text);
+                  setMode("view");
+                }}
+                disabled={busy}
+                className={`${smallButton} bg-gray-200 text-gray-700`}
+              >
+                Cancel
+              </button>
+            ) : (
+              <button onClick={() => setMode("edit")} disabled={busy} className={`${smallButton} bg-white text-[#16305B] border border-[#C6CDD9]`}>
+                <Pencil className="w-3 h-3" />
+                Edit
+              </button>
+            )}
+            <button onClick={() => setMode("reject")} disabled={busy} className={`${smallButton} bg-white text-red-700 border border-red-200`}>
+              <X className="w-3 h-3" />
+              Reject
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
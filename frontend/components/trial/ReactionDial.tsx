@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Activity, Frown, Smile } from "lucide-react";
+import { useWebSocket } from "@/hooks/useWebSocket";
+
+const SAMPLE_INTERVAL_MS = 1000;
+
+interface ReactionDialProps {
+  caseId: string;
+}
+
+/**
+ * Optional juror reaction slider. While switched on, the current position
+ * (-100 negative to +100 positive) is sent once a second so counsel can see
+ * afterwards which moments of the presentation landed.
+ */
+export default function ReactionDial({ caseId }: ReactionDialProps) {
+  const { isConnected, emit } = useWebSocket();
+  const [enabled, setEnabled] = useState(false);
+  const [value, setValue] = useState(0);
+  const valueRef = useRef(0);
+  valueRef.current = value;
+
+  useEffect(() => {
+    if (!enabled || !isConnected || !caseId) return;
+
+    const interval = setInterval(() => {
+      emit("reaction:sample", { caseId, value: valueRef.current });
+    }, SAMPLE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, isConnected, caseId, emit]);
+
+  if (!enabled) {
+    return (
+      <button
+        onClick={() => setEnabled(true)}
+        className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-semibold transition-colors hover:bg-[#C6CDD9]/40"
+        style={{ color: "#16305B", border: "1px solid #C6CDD9" }}
+        title="Share how the presentation is landing with you, moment to moment"
+      >
+        <Activity className="w-4 h-4" />
+        Turn on reaction dial
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-2 rounded-lg" style={{ backgroundColor: "#ffffff", border: "1px solid #C6CDD9" }}>
+      <Frown className="w-5 h-5 text-red-600 flex-shrink-0" />
+      <input
+        type="range"
+        min={-100}
+        max={100}
+        step={1}
+        value={value}
+        onChange={(e) => setValue(parseInt(e.target.value, 10))}
+        className="w-48 accent-[#16305B]"
+        aria-label="Reaction: negative to positive"
+      />
+      <Smile className="w-5 h-5 text-green-600 flex-shrink-0" />
+      <span className="w-10 text-right text-xs font-mono font-semibold" style={{ color: "#0A2342" }}>
+        {value > 0 ? `+${value}` : value}
+      </span>
+      <button
+        onClick={() => {
+          setEnabled(false);
+          setValue(0);
+        }}
+        className="text-xs underline"
+        style={{ color: "#455A7C" }}
+      >
+        Off
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { Play, Pause, SkipForward, Plus, RotateCcw, Clock } from "lucide-react";
+import toast from "react-hot-toast";
+import { useTrialPhaseClock, TrialClockAction } from "@/hooks/useTrialPhaseClock";
+
+interface TrialPhaseClockProps {
+  caseId: string;
+  isAdmin?: boolean;
+}
+
+const formatCountdown = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+export default function TrialPhaseClock({ caseId, isAdmin = false }: TrialPhaseClockProps) {
+  const { clock, remainingSeconds, control } = useTrialPhaseClock(caseId);
+  const [selectedPhase, setSelectedPhase] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  if (!clock) return null;
+
+  const runAction = async (action: TrialClockAction, options = {}) => {
+    setBusy(true);
+    try {
+      await control(action, options);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update trial clock");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const isActive = clock.status === "running" || clock.status === "paused";
+  const isExpired = clock.status === "running" && remainingSeconds === 0;
+
+  let statusText = clock.phaseLabel || "Not started";
+  if (clock.status === "idle") statusText = "Trial not started";
+  if (clock.status === "completed") statusText = "Trial complete";
+
+  const buttonClass =
+    "w-8 h-8 rounded-lg flex items-center justify-center bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="flex items-center gap-3">
+      <div
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg ${
+          isExpired ? "bg-red-500/30" : clock.status === "paused" ? "bg-yellow-500/20" : "bg-white/10"
+        }`}
+      >
+        <Clock className="w-4 h-4 text-white/80" />
+        <div className="flex flex-col leading-tight">
+          <span className="text-white/80 text-xs">
+            {statusText}
+            {clock.status === "paused" && " • Paused"}
+            {isActive && clock.phaseIndex >= 0 && ` (${clock.phaseIndex + 1}/${clock.phases.length})`}
+          </span>
+          {isActive && (
+            <span className={`font-mono font-semibold ${isExpired ? "text-red-200" : "text-white"}`}>
+              {isExpired ? "Time's up" : formatCountdown(remainingSeconds)}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {isAdmin && (
+        <div className="flex items-center gap-1">
+          {!isActive && (
+            <>
+              <select
+                value={selectedPhase}
+                onChange={(e) => setSelectedPhase(e.target.value)}
+                className="text-xs rounded-lg px-2 py-1.5 bg-white/10 text-white border border-white/20 focus:outline-none"
+              >
+                <option value="" className="text-gray-900">First phase</option>
+                {clock.phases.map((phase) => (
+                  <option key={phase.key} value={phase.key} className="text-gray-900">
+                    {phase.label} ({Math.round(phase.defaultDuration / 60)} min)
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => runAction("start", selectedPhase ? { phase: selectedPhase } : {})}
+                disabled={busy}
+                className={buttonClass}
+                title="Start phase"
+              >
+                <Play className="w-4 h-4 text-white" />
+              </button>
+            </>
+          )}
+          {clock.status === "running" && (
+            <button onClick={() => runAction("pause")} disabled={busy} className={buttonClass} title="Pause">
+              <Pause className="w-4 h-4 text-white" />
+            </button>
+          )}
+          {clock.status === "paused" && (
+            <button onClick={() => runAction("resume")} disabled={busy} className={buttonClass} title="Resume">
+              <Play className="w-4 h-4 text-white" />
+            </button>
+          )}
+          {isActive && (
+            <>
+              <button
+                onClick={() => runAction("extend", { seconds: 5 * 60 })}
+                disabled={busy}
+                className={buttonClass}
+                title="Extend by 5 minutes"
+              >
+                <Plus className="w-4 h-4 text-white" />
+              </button>
+              <button onClick={() => runAction("next")} disabled={busy} className={buttonClass} title="Next phase">
+                <SkipForward className="w-4 h-4 text-white" />
+              </button>
+            </>
+          )}
+          {clock.status !== "idle" && (
+            <button
+              onClick={() => {
+                if (confirm("Reset the trial clock?")) runAction("reset");
+              }}
+              disabled={busy}
+              className={buttonClass}
+              title="Reset clock"
+            >
+              <RotateCcw className="w-4 h-4 text-white" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import { useState } from "react";
+import { Lock, Plus, Send, Trash2, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { POLL_LIMITS, TrialPoll, useTrialPolls } from "@/hooks/useTrialPolls";
+
+type TrialPolls = ReturnType<typeof useTrialPolls>;
+
+interface TrialPollsPanelProps {
+  role: "admin" | "attorney";
+  polls: TrialPolls;
+  onClose: () => void;
+}
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+/**
+ * Conference side panel for instant polls. Admins launch and close polls;
+ * admins and attorneys watch the anonymous results come in live.
+ */
+export default function TrialPollsPanel({ role, polls, onClose }: TrialPollsPanelProps) {
+  const openCount = polls.polls.filter((p) => p.status === "open").length;
+
+  return (
+    <div className="w-1/5 flex flex-col shadow-2xl" style={{ backgroundColor: "#ffffff", borderLeft: "1px solid #C6CDD9" }}>
+      <div className="p-5 flex items-center justify-between" style={{ backgroundColor: "#16305B", borderBottom: "1px solid #C6CDD9" }}>
+        <div>
+          <h3 className="text-lg font-bold text-white">Instant Polls</h3>
+          <p className="text-sm text-white opacity-80">
+            {openCount > 0 ? `${openCount} open` : "Anonymous juror responses"}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-white hover:text-gray-300">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      {role === "admin" && <PollForm onCreate={polls.createPoll} />}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {polls.loading ? (
+          <div className="text-center mt-10" style={{ color: "#455A7C" }}>
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#16305B] mx-auto mb-2"></div>
+            Loading polls...
+          </div>
+        ) : polls.polls.length === 0 ? (
+          <div className="text-center mt-10" style={{ color: "#455A7C" }}>
+            <p className="font-semibold">No polls yet</p>
+            <p className="text-sm mt-1">
+              {role === "admin" ? "Ask jurors a quick question to check the temperature." : "Polls launched by the moderator will appear here."}
+            </p>
+          </div>
+        ) : (
+          [...polls.polls]
+            .reverse()
+            .map((poll) => (
+              <PollCard key={poll.pollId} poll={poll} onClose={role === "admin" ? polls.closePoll : undefined} />
+            ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PollForm({ onCreate }: { onCreate: TrialPolls["createPoll"] }) {
+  const [question, setQuestion] = useState("");
+  const [options, setOptions] = useState(["", ""]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const filledOptions = options.map((o) => o.trim()).filter(Boolean);
+  const canSubmit = question.trim() && filledOptions.length >= POLL_LIMITS.MIN_OPTIONS;
+
+  const updateOption = (index: number, value: string) =>
+    setOptions((prev) => prev.map((o, i) => (i === index ? value : o)));
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setSubmitting(true);
+    try {
+      await onCreate(question.trim(), filledOptions);
+      setQuestion("");
+      setOptions(["", ""]);
+      toast.success("Poll sent to jurors");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create poll");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#5B9BD5]";
+
+  return (
+    <div className="p-4 space-y-2" style={{ borderBottom: "1px solid #C6CDD9" }}>
+      <input
+        value={question}
+        onChange={(e) => setQuestion(e.target.value)}
+        maxLength={POLL_LIMITS.MAX_QUESTION_LENGTH}
+        placeholder="Who do you find more credible so far?"
+        className={inputClass}
+        style={{ border: "1px solid #C6CDD9", color: "#0A2342" }}
+      />
+      {options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            value={option}
+            onChange={(e) => updateOption(index, e.target.value)}
+            maxLength={POLL_LIMITS.MAX_OPTION_LENGTH}
+            placeholder={`Option ${index + 1}`}
+            className={inputClass}
+            style={{ border: "1px solid #C6CDD9", color: "#0A2342" }}
+          />
+          {options.length > POLL_LIMITS.MIN_OPTIONS && (
+            <button
+              onClick={() => setOptions((prev) => prev.filter((_, i) => i !== index))}
+              className="text-gray-400 hover:text-red-600"
+              title="Remove option"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      <div className="flex items-center justify-between pt-1">
+        <button
+          onClick={() => setOptions((prev) => [...prev, ""])}
+          disabled={options.length >= POLL_LIMITS.MAX_OPTIONS}
+          className="flex items-center gap-1 text-xs font-semibold disabled:opacity-40"
+          style={{ color: "#16305B" }}
+        >
+          <Plus className="w-3 h-3" />
+          Add option
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={submitting || !canSubmit}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold text-white disabled:opacity-50"
+          style={{ backgroundColor: "#16305B" }}
+        >
+          <Send className="w-4 h-4" />
+          {submitting ? "Sending..." : "Launch Poll"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function PollCard({ poll, onClose }: { poll: TrialPoll; onClose?: (pollId: number) => Promise<void> }) {
+  const [closing, setClosing] = useState(false);
+  const isOpen = poll.status === "open";
+
+  const handleClose = async () => {
+    if (!onClose) return;
+    setClosing(true);
+    try {
+      await onClose(poll.pollId);
+      toast.success("Poll closed");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to close poll");
+      setClosing(false);
+    }
+  };
+
+  return (
+    <div
+      className="rounded-lg p-3"
+      style={isOpen ? { backgroundColor: "#EFF6FF", border: "1px solid #5B9BD5" } : { backgroundColor: "#f9f7f2", border: "1px solid #C6CDD9" }}
+    >
+      <div className="flex items-center justify-between gap-2 text-xs" style={{ color: "#455A7C" }}>
+        <span>
+          {formatTime(poll.createdAt)} • {poll.totalResponses ?? 0} response{poll.totalResponses === 1 ? "" : "s"}
+        </span>
+        <span
+          className={`px-2 py-0.5 rounded-full font-medium flex-shrink-0 ${isOpen ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-700"}`}
+        >
+          {isOpen ? "Live" : "Closed"}
+        </span>
+      </div>
+      <p className="mt-2 text-sm font-semibold" style={{ color: "#0A2342" }}>{poll.question}</p>
+
+      <div className="mt-2 space-y-2">
+        {(poll.results || []).map((result) => (
+          <div key={result.option}>
+            <div className="flex items-center justify-between text-xs" style={{ color: "#0A2342" }}>
+              <span className="truncate">{result.option}</span>
+              <span className="flex-shrink-0 ml-2">
+                {result.count} ({result.percentage}%)
+              </span>
+            </div>
+            <div className="mt-1 h-2 rounded-full overflow-hidden" style={{ backgroundColor: "#C6CDD9" }}>
+              <div
+                className="h-full rounded-full transition-all duration-500"
+                style={{ width: `${result.percentage}%`, backgroundColor: "#16305B" }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isOpen && onClose && (
+        <button
+          onClick={handleClose}
+          disabled={closing}
+          className="mt-3 flex items-center gap-1 px-2 py-1 rounded text-xs font-semibold bg-white text-red-700 border border-red-200 disabled:opacity-50"
+        >
+          <Lock className="w-3 h-3" />
+          {closing ? "Closing..." : "Close Poll"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { CalendarDays } from "lucide-react";
+
+export interface JoinedTrialSession {
+  sessionNumber: number;
+  label: string | null;
+  totalSessions: number;
+  state: "open" | "upcoming" | "ended" | null;
+}
+
+/**
+ * Which day of a multi-day trial the conference is for. Renders nothing for
+ * single-session trials.
+ */
+export default function TrialSessionBadge({ session }: { session: JoinedTrialSession | null }) {
+  if (!session || session.totalSessions < 2) return null;
+
+  return (
+    <span className="flex items-center gap-1.5 px-2 py-0.5 rounded bg-white/10 text-white text-xs font-semibold">
+      <CalendarDays className="w-3.5 h-3.5" />
+      Session {session.sessionNumber} of {session.totalSessions}
+      {session.label && <span className="font-normal text-white/80">• {session.label}</span>}
+    </span>
+  );
+}
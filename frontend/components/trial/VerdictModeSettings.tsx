@@ -0,0 +1,176 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Gavel, Shuffle } from "lucide-react";
+import toast from "react-hot-toast";
+import { getToken } from "@/lib/apiClient";
+import { useWebSocket } from "@/hooks/useWebSocket";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, "")
+  : "http://localhost:4000";
+
+type VerdictMode = "individual" | "panel";
+
+interface VerdictSettings {
+  verdictMode: VerdictMode;
+  forepersonJurorId: number | null;
+  forepersonName: string | null;
+  selectionMethod: "random" | "manual" | null;
+}
+
+interface ApprovedJuror {
+  id: number;
+  Name: string;
+}
+
+interface VerdictModeSettingsProps {
+  caseId: string;
+}
+
+export default function VerdictModeSettings({ caseId }: VerdictModeSettingsProps) {
+  const { isConnected, joinRoom, on, off } = useWebSocket();
+  const [settings, setSettings] = useState<VerdictSettings | null>(null);
+  const [jurors, setJurors] = useState<ApprovedJuror[]>([]);
+  const [manualJurorId, setManualJurorId] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const [settingsRes, jurorsRes] = await Promise.all([
+        fetch(`${API_BASE}/api/verdicts/settings/${caseId}`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        }),
+        fetch(`${API_BASE}/api/trial/case/${caseId}/jurors`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        }),
+      ]);
+
+      if (settingsRes.ok) {
+        const data = await settingsRes.json();
+        setSettings(data.data);
+      }
+      if (jurorsRes.ok) {
+        const data = await jurorsRes.json();
+        setJurors(data.jurors || []);
+      }
+    } catch (err) {
+      console.error("Error loading verdict settings:", err);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  useEffect(() => {
+    if (!isConnected) return;
+    joinRoom(`case_${caseId}`);
+
+    const handleSettingsUpdated = (data: VerdictSettings & { caseId: string | number }) => {
+      if (String(data.caseId) === String(caseId)) {
+        setSettings((prev) => (prev ? { ...prev, ...data } : prev));
+      }
+    };
+
+    on("verdict:settings_updated", handleSettingsUpdated);
+    return () => off("verdict:settings_updated", handleSettingsUpdated);
+  }, [isConnected, caseId, joinRoom, on, off]);
+
+  const request = async (path: string, method: string, body: object) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`${API_BASE}/api/verdicts/${path}/${caseId}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${getToken()}`,
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to update verdict settings");
+      }
+      setSettings(data.data);
+      toast.success(data.message || "Verdict settings updated");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update verdict settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) return null;
+
+  const isPanel = settings.verdictMode === "panel";
+
+  return (
+    <div className="rounded-lg p-4 space-y-3" style={{ backgroundColor: "#f9f7f2", border: "1px solid #C6CDD9" }}>
+      <div className="flex items-center gap-2">
+        <Gavel className="w-4 h-4" style={{ color: "#16305B" }} />
+        <p className="font-semibold text-sm" style={{ color: "#0A2342" }}>Verdict Mode</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(["individual", "panel"] as VerdictMode[]).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => mode !== settings.verdictMode && request("mode", "PUT", { mode })}
+            disabled={saving}
+            className="px-3 py-2 rounded-lg text-xs font-semibold transition disabled:opacity-50"
+            style={
+              settings.verdictMode === mode
+                ? { backgroundColor: "#16305B", color: "#ffffff" }
+                : { backgroundColor: "#ffffff", color: "#16305B", border: "1px solid #C6CDD9" }
+            }
+          >
+            {mode === "individual" ? "Each Juror" : "Presiding Juror"}
+          </button>
+        ))}
+      </div>
+
+      {isPanel && (
+        <div className="space-y-2">
+          <p className="text-xs" style={{ color: "#455A7C" }}>
+            {settings.forepersonName
+              ? `Presiding juror: ${settings.forepersonName}${settings.selectionMethod === "random" ? " (random)" : ""}`
+              : "No presiding juror selected yet"}
+          </p>
+          <button
+            onClick={() => request("foreperson", "POST", { method: "random" })}
+            disabled={saving || jurors.length === 0}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-semibold text-white transition disabled:opacity-50"
+            style={{ backgroundColor: "#5B9BD5" }}
+          >
+            <Shuffle className="w-3 h-3" />
+            Select at Random
+          </button>
+          <div className="flex gap-2">
+            <select
+              value={manualJurorId}
+              onChange={(e) => setManualJurorId(e.target.value)}
+              className="flex-1 text-xs rounded-lg px-2 py-2 border bg-white"
+              style={{ borderColor: "#C6CDD9", color: "#0A2342" }}
+            >
+              <option value="">Choose juror...</option>
+              {jurors.map((juror) => (
+                <option key={juror.id} value={juror.id}>
+                  {juror.Name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => request("foreperson", "POST", { method: "manual", jurorId: parseInt(manualJurorId) })}
+              disabled={saving || !manualJurorId}
+              className="px-3 py-2 rounded-lg text-xs font-semibold text-white transition disabled:opacity-50"
+              style={{ backgroundColor: "#16305B" }}
+            >
+              Assign
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
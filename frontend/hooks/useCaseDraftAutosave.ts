@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  CASE_DRAFT_ID_KEY,
+  CaseDraftStep,
+  createDraft,
+  getActiveDraftId,
+  readWizardSnapshot,
+  saveDraft,
+} from "@/lib/caseDrafts";
+
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+/**
+ * Autosaves the case wizard to the attorney's server-side draft.
+ * Every few seconds (and when the step unmounts) the wizard's localStorage
+ * values are compared with the last save and pushed if they changed. A draft
+ * is created once a jurisdiction has been chosen.
+ *
+ * @param step - The wizard step being shown, restored by "Resume draft"
+ */
+export function useCaseDraftAutosave(step: CaseDraftStep): void {
+  const lastSavedRef = useRef<string | null>(null);
+  const savingRef = useRef(false);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const save = async () => {
+      if (savingRef.current) return;
+
+      const data = readWizardSnapshot();
+      if (!data.caseJurisdiction) return;
+
+      const serialized = JSON.stringify({ data, step });
+      if (serialized === lastSavedRef.current) return;
+
+      savingRef.current = true;
+      try {
+        const draftId = getActiveDraftId();
+        if (draftId !== null) {
+          try {
+            await saveDraft(draftId, data, step);
+          } catch (err) {
+            // Expired or discarded elsewhere - start a fresh draft, unless the
+            // case was just submitted and the wizard cleared meanwhile
+            if ((err as { status?: number }).status !== 404) throw err;
+            if (!readWizardSnapshot().caseJurisdiction) return;
+            const draft = await createDraft(data, step);
+            localStorage.setItem(CASE_DRAFT_ID_KEY, String(draft.draftId));
+          }
+        } else {
+          const draft = await createDraft(data, step);
+          localStorage.setItem(CASE_DRAFT_ID_KEY, String(draft.draftId));
+        }
+        lastSavedRef.current = serialized;
+      } catch (err) {
+        console.warn("⚠️ Case draft autosave failed:", err);
+      } finally {
+        savingRef.current = false;
+      }
+    };
+
+    save();
+    const interval = setInterval(save, AUTOSAVE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      save();
+    };
+  }, [step]);
+}
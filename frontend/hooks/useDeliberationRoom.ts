@@ -0,0 +1,137 @@
+import { useEffect, useState, useCallback } from 'react';
+import { useWebSocket } from './useWebSocket';
+import { getToken } from '@/lib/apiClient';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : 'http://localhost:4000';
+
+/** Query param that puts the admin/attorney conference page in the deliberation room */
+const ROOM_PARAM = 'room';
+const DELIBERATION_ROOM = 'deliberation';
+
+export type DeliberationStatus = 'idle' | 'deliberating' | 'debrief';
+
+export interface DeliberationState {
+  status: DeliberationStatus;
+  observationAvailable: boolean;
+  observationEnabled: boolean;
+}
+
+interface DeliberationEvent {
+  caseId: string | number;
+  deliberation: DeliberationState;
+}
+
+interface UseDeliberationRoomReturn {
+  deliberation: DeliberationState | null;
+  moveJurors: (destination: 'deliberation' | 'courtroom') => Promise<void>;
+  setObservation: (enabled: boolean) => Promise<void>;
+}
+
+/** Endpoint that issues an ACS token for the private deliberation room */
+export function getDeliberationJoinUrl(caseId: string): string {
+  return `${API_BASE}/api/trial/deliberation/${caseId}/join`;
+}
+
+/** True when the current page was opened for the deliberation room */
+export function isDeliberationRoomView(): boolean {
+  if (typeof window === 'undefined') return false;
+  return new URLSearchParams(window.location.search).get(ROOM_PARAM) === DELIBERATION_ROOM;
+}
+
+/** Reload the conference page in the deliberation room or the courtroom */
+export function switchConferenceRoom(toDeliberation: boolean): void {
+  const url = new URL(window.location.href);
+  if (toDeliberation) {
+    url.searchParams.set(ROOM_PARAM, DELIBERATION_ROOM);
+  } else {
+    url.searchParams.delete(ROOM_PARAM);
+  }
+  window.location.href = url.toString();
+}
+
+export async function fetchDeliberationState(caseId: string): Promise<DeliberationState | null> {
+  const response = await fetch(`${API_BASE}/api/trial/deliberation/${caseId}`, {
+    headers: {
+      Authorization: `Bearer ${getToken()}`,
+    },
+  });
+  if (!response.ok) return null;
+  const data = await response.json();
+  return data.deliberation || null;
+}
+
+/**
+ * Live deliberation room state for a trial: whether jurors are in the
+ * courtroom or deliberating privately, and whether attorneys may silently
+ * observe. Admin actions are sent over REST; every client is updated via
+ * the `deliberation:state` websocket event.
+ */
+export function useDeliberationRoom(caseId: string): UseDeliberationRoomReturn {
+  const { socket, isConnected, joinRoom, on, off } = useWebSocket();
+  const [deliberation, setDeliberation] = useState<DeliberationState | null>(null);
+
+  useEffect(() => {
+    if (!caseId) return;
+    fetchDeliberationState(caseId)
+      .then((state) => {
+        if (state) setDeliberation(state);
+      })
+      .catch((err) => console.error('Error loading deliberation state:', err));
+  }, [caseId]);
+
+  useEffect(() => {
+    if (!isConnected || !socket || !caseId) return;
+
+    joinRoom(`case_${caseId}`);
+
+    const handleDeliberationState = (data: DeliberationEvent) => {
+      if (String(data.caseId) === String(caseId)) {
+        setDeliberation(data.deliberation);
+      }
+    };
+
+    on('deliberation:state', handleDeliberationState);
+
+    return () => {
+      off('deliberation:state', handleDeliberationState);
+    };
+  }, [isConnected, socket, caseId, joinRoom, on, off]);
+
+  const postAction = useCallback(
+    async (action: string, body: object) => {
+      const response = await fetch(`${API_BASE}/api/trial/deliberation/${caseId}/${action}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update deliberation room');
+      }
+      setDeliberation(data.deliberation);
+    },
+    [caseId]
+  );
+
+  const moveJurors = useCallback(
+    (destination: 'deliberation' | 'courtroom') => postAction('move', { destination }),
+    [postAction]
+  );
+
+  const setObservation = useCallback(
+    (enabled: boolean) => postAction('observation', { enabled }),
+    [postAction]
+  );
+
+  return {
+    deliberation,
+    moveJurors,
+    setObservation,
+  };
+}
@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { useWebSocket } from './useWebSocket';
+import { getToken } from '@/lib/apiClient';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : 'http://localhost:4000';
+
+export const EXHIBIT_ZOOM = { MIN: 0.5, MAX: 3, STEP: 0.25 };
+
+export type ExhibitAction = 'present' | 'navigate' | 'stop';
+
+export interface PresentedExhibit {
+  documentId: number;
+  version?: number | null;
+  fileName: string;
+  fileType: 'pdf' | 'image';
+  mimeType: string | null;
+  fileUrl: string;
+  page: number;
+  zoom: number;
+  presenterId: number;
+  presenterType: 'attorney' | 'admin';
+  startedAt: string;
+  updatedAt: string;
+}
+
+interface ExhibitEvent {
+  caseId: string | number;
+  exhibit: PresentedExhibit | null;
+  revoked?: boolean;
+}
+
+interface ExhibitControlOptions {
+  documentId?: number;
+  page?: number;
+  zoom?: number;
+}
+
+interface UseExhibitPresentationReturn {
+  exhibit: PresentedExhibit | null;
+  control: (action: ExhibitAction, options?: ExhibitControlOptions) => Promise<void>;
+}
+
+/**
+ * The war room document the attorney is presenting to the jury. Every client
+ * shows the same page and zoom; the presenter drives it over the websocket
+ * and the server pushes `exhibit:state` to the case room.
+ */
+export function useExhibitPresentation(
+  caseId: string,
+  onRevoked?: () => void
+): UseExhibitPresentationReturn {
+  const { socket, isConnected, joinRoom, on, off } = useWebSocket();
+  const [exhibit, setExhibit] = useState<PresentedExhibit | null>(null);
+  const onRevokedRef = useRef(onRevoked);
+  onRevokedRef.current = onRevoked;
+
+  useEffect(() => {
+    if (!caseId) return;
+    fetch(`${API_BASE}/api/trial/exhibit/${caseId}`, {
+      headers: {
+        Authorization: `Bearer ${getToken()}`,
+      },
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data?.exhibit) setExhibit(data.exhibit);
+      })
+      .catch((err) => console.error('Error loading presented exhibit:', err));
+  }, [caseId]);
+
+  useEffect(() => {
+    if (!isConnected || !socket || !caseId) return;
+
+    // Joining the case room makes the server push the exhibit on screen
+    joinRoom(`case_${caseId}`);
+
+    const handleExhibitState = (data: ExhibitEvent) => {
+      if (String(data.caseId) !== String(caseId)) return;
+      setExhibit(data.exhibit);
+      if (data.revoked) onRevokedRef.current?.();
+    };
+
+    on('exhibit:state', handleExhibitState);
+
+    return () => {
+      off('exhibit:state', handleExhibitState);
+    };
+  }, [isConnected, socket, caseId, joinRoom, on, off]);
+
+  const control = useCallback(
+    (action: ExhibitAction, options: ExhibitControlOptions = {}) =>
+      new Promise<void>((resolve, reject) => {
+        if (!socket?.connected) {
+          reject(new Error('Not connected to the trial server'));
+          return;
+        }
+        socket.emit(
+          'exhibit:control',
+          { caseId, action, ...options },
+          (response: { success: boolean; message?: string; exhibit?: PresentedExhibit | null }) => {
+            if (response?.success) {
+              setExhibit(response.exhibit ?? null);
+              resolve();
+            } else {
+              reject(new Error(response?.message || 'Failed to update exhibit'));
+            }
+          }
+        );
+      }),
+    [socket, caseId]
+  );
+
+  return {
+    exhibit,
+    control,
+  };
+}
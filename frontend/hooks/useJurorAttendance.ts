@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+import { getToken } from '@/lib/apiClient';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : 'http://localhost:4000';
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+type AttendanceEvent = 'join' | 'heartbeat' | 'leave';
+
+interface UseJurorAttendanceOptions {
+  /** True while the juror is connected to the trial call */
+  connected: boolean;
+  /** The juror's own camera state */
+  cameraOn: boolean;
+}
+
+function reportAttendance(caseId: string, event: AttendanceEvent, cameraOn: boolean) {
+  return fetch(`${API_BASE}/api/trial/attendance/${caseId}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${getToken()}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ event, cameraOn }),
+    // Lets the leave report finish while the page unloads
+    keepalive: event === 'leave',
+  }).catch((err) => console.warn(`⚠️ Attendance ${event} report failed:`, err));
+}
+
+/**
+ * Reports the juror's presence and camera state to the backend while they are
+ * in the trial call: a join when connected, a heartbeat every 30 seconds and
+ * whenever the camera is toggled, and a leave on disconnect or page close.
+ * The backend turns these into attendance intervals used for payout eligibility.
+ */
+export function useJurorAttendance(caseId: string, { connected, cameraOn }: UseJurorAttendanceOptions): void {
+  const cameraOnRef = useRef(cameraOn);
+  const connectedRef = useRef(false);
+
+  useEffect(() => {
+    if (!caseId || !connected) return;
+
+    connectedRef.current = true;
+    reportAttendance(caseId, 'join', cameraOnRef.current);
+
+    const interval = setInterval(() => {
+      reportAttendance(caseId, 'heartbeat', cameraOnRef.current);
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const handlePageHide = () => {
+      if (!connectedRef.current) return;
+      connectedRef.current = false;
+      reportAttendance(caseId, 'leave', cameraOnRef.current);
+    };
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', handlePageHide);
+      handlePageHide();
+    };
+  }, [caseId, connected]);
+
+  useEffect(() => {
+    if (cameraOnRef.current === cameraOn) return;
+    cameraOnRef.current = cameraOn;
+    if (caseId && connectedRef.current) {
+      reportAttendance(caseId, 'heartbeat', cameraOn);
+    }
+  }, [caseId, cameraOn]);
+}
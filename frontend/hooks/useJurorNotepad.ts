@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { getToken } from '@/lib/apiClient';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : 'http://localhost:4000';
+
+export const MAX_NOTE_LENGTH = 20000;
+
+// Wait for a pause in typing before saving
+const AUTOSAVE_DELAY_MS = 1500;
+
+interface UseJurorNotepadReturn {
+  content: string;
+  setContent: (content: string) => void;
+  loading: boolean;
+  saving: boolean;
+  lastSavedAt: string | null;
+  error: string | null;
+}
+
+/**
+ * A juror's private notepad for a case. Notes are autosaved to the server so
+ * they survive reconnects, and are deleted once the results are published.
+ */
+export function useJurorNotepad(caseId: string | number): UseJurorNotepadReturn {
+  const [content, setContentState] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const pendingRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!caseId) return;
+
+    fetch(`${API_BASE}/api/trial/notes/${caseId}`, {
+      headers: {
+        Authorization: `Bearer ${getToken()}`,
+      },
+    })
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) {
+          setContentState(data.note.content || '');
+          setLastSavedAt(data.note.updatedAt);
+        }
+      })
+      .catch((err) => console.error('Error loading notes:', err))
+      .finally(() => setLoading(false));
+  }, [caseId]);
+
+  const saveNote = useCallback(
+    async (text: string, keepalive = false) => {
+      const response = await fetch(`${API_BASE}/api/trial/notes/${caseId}`, {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content: text }),
+        keepalive,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save notes');
+      }
+      return data.note;
+    },
+    [caseId]
+  );
+
+  useEffect(() => {
+    if (pendingRef.current === null) return;
+
+    const timeout = setTimeout(async () => {
+      const text = pendingRef.current;
+      if (text === null) return;
+      pendingRef.current = null;
+
+      setSaving(true);
+      try {
+        const note = await saveNote(text);
+        setLastSavedAt(note.updatedAt);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save notes');
+      } finally {
+        setSaving(false);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [content, saveNote]);
+
+  // Don't lose the last few keystrokes when the panel or page closes
+  useEffect(() => {
+    return () => {
+      if (pendingRef.current !== null) {
+        saveNote(pendingRef.current, true).catch((err) => console.error('Error saving notes:', err));
+        pendingRef.current = null;
+      }
+    };
+  }, [saveNote]);
+
+  const setContent = useCallback((text: string) => {
+    const trimmed = text.slice(0, MAX_NOTE_LENGTH);
+    pendingRef.current = trimmed;
+    setContentState(trimmed);
+  }, []);
+
+  return {
+    content,
+    setContent,
+    loading,
+    saving,
+    lastSavedAt,
+    error,
+  };
+}
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { useWebSocket } from './useWebSocket';
+import { getToken } from '@/lib/apiClient';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : 'http://localhost:4000';
+
+export const MAX_QUESTION_LENGTH = 1000;
+
+export type JurorQuestionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface JurorQuestion {
+  questionId: number;
+  caseId: number;
+  text: string;
+  status: JurorQuestionStatus;
+  createdAt: string;
+  moderatedAt: string | null;
+  // Admin only
+  jurorId?: number;
+  jurorName?: string | null;
+  originalText?: string;
+  edited?: boolean;
+  rejectReason?: string | null;
+}
+
+interface JurorQuestionEvent {
+  caseId: string | number;
+  question: JurorQuestion;
+}
+
+interface UseJurorQuestionsReturn {
+  questions: JurorQuestion[];
+  loading: boolean;
+  submitQuestion: (text: string) => Promise<void>;
+  moderateQuestion: (
+    questionId: number,
+    decision: 'approve' | 'reject',
+    details?: { text?: string; reason?: string }
+  ) => Promise<void>;
+}
+
+/**
+ * Juror written questions for a trial. Jurors see their own questions,
+ * admins see the full moderation queue, and attorneys see only the questions
+ * that were approved and forwarded to them. Updates arrive over websocket.
+ */
+export function useJurorQuestions(
+  caseId: string,
+  role: 'admin' | 'attorney' | 'juror',
+  onQuestion?: (question: JurorQuestion) => void
+): UseJurorQuestionsReturn {
+  const { socket, isConnected, joinRoom, emit, on, off } = useWebSocket();
+  const [questions, setQuestions] = useState<JurorQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const onQuestionRef = useRef(onQuestion);
+  onQuestionRef.current = onQuestion;
+
+  const upsertQuestion = useCallback((question: JurorQuestion) => {
+    setQuestions((prev) => {
+      const index = prev.findIndex((q) => q.questionId === question.questionId);
+      if (index === -1) return [...prev, question];
+      const next = [...prev];
+      next[index] = { ...next[index], ...question };
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!caseId) return;
+
+    fetch(`${API_BASE}/api/trial/questions/${caseId}`, {
+      headers: {
+        Authorization: `Bearer ${getToken()}`,
+      },
+    })
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) setQuestions(data.questions || []);
+      })
+      .catch((err) => console.error('Error loading juror questions:', err))
+      .finally(() => setLoading(false));
+  }, [caseId]);
+
+  useEffect(() => {
+    if (!isConnected || !socket || !caseId) return;
+
+    // Each role listens on the channel its questions arrive on
+    const eventName =
+      role === 'admin'
+        ? 'juror_question:submitted'
+        : role === 'attorney'
+          ? 'juror_question:approved'
+          : 'juror_question:moderated';
+
+    if (role === 'admin') {
+      emit('join_question_moderation', caseId);
+    } else {
+      joinRoom(`case_${caseId}`);
+    }
+
+    const handleQuestion = (data: JurorQuestionEvent) => {
+      if (String(data.caseId) !== String(caseId)) return;
+      upsertQuestion(data.question);
+      onQuestionRef.current?.(data.question);
+    };
+
+    on(eventName, handleQuestion);
+
+    return () => {
+      off(eventName, handleQuestion);
+    };
+  }, [isConnected, socket, caseId, role, joinRoom, emit, on, off, upsertQuestion]);
+
+  const postQuestion = useCallback(
+    async (path: string, body: object) => {
+      const response = await fetch(`${API_BASE}/api/trial/questions/${caseId}${path}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update question');
+      }
+      upsertQuestion(data.question);
+    },
+    [caseId, upsertQuestion]
+  );
+
+  const submitQuestion = useCallback((text: string) => postQuestion('', { text }), [postQuestion]);
+
+  const moderateQuestion = useCallback(
+    (questionId: number, decision: 'approve' | 'reject', details: { text?: string; reason?: string } = {}) =>
+      postQuestion(`/${questionId}/moderate`, { decision, ...details }),
+    [postQuestion]
+  );
+
+  return {
+    questions,
+    loading,
+    submitQuestion,
+    moderateQuestion,
+  };
+}
@@ -15,7 +15,16 @@ import {
    TYPES
    =========================================================== */
 
-type UserType = "attorney" | "juror" | "admin";
+type UserType = "attorney" | "juror" | "admin" | "team_member";
+
+/**
+ * Login page for a user type
+ */
+function getLoginPath(userType: UserType): string {
+  if (userType === "admin") return "/admin/login";
+  if (userType === "team_member") return "/login/team";
+  return `/login/${userType}`;
+}
 
 interface UseProtectedRouteOptions {
   /**
@@ -25,7 +34,7 @@ interface UseProtectedRouteOptions {
   
   /**
    * Redirect path if not authenticated
-   * Default: `/login/${userType}`
+   * Default: the user type's login page
    */
   redirectTo?: string;
   
@@ -118,10 +127,7 @@ export function useProtectedRoute(
       const user = getUser();
       if (!authed || !user || user.type !== requiredUserType) {
         clearAuth();
-        const loginPath =
-          requiredUserType === "admin"
-            ? "/admin/login"
-            : `/login/${requiredUserType}`;
+        const loginPath = getLoginPath(requiredUserType);
         window.location.href = loginPath;
       }
     };
@@ -136,10 +142,7 @@ export function useProtectedRoute(
     const TIMEOUT_MS = 20 * 60 * 1000; // 20 minutes
     const POLL_MS = 30_000;            // check every 30 seconds
 
-    const loginPath =
-      requiredUserType === "admin"
-        ? "/admin/login"
-        : `/login/${requiredUserType}`;
+    const loginPath = getLoginPath(requiredUserType);
 
     const updateActivity = () => {
       localStorage.setItem("lastActivity", Date.now().toString());
@@ -206,7 +209,7 @@ export function useProtectedRoute(
           console.warn("❌ Not authenticated - redirecting to login");
           clearAuth();
 
-          const loginPath = redirectTo || (requiredUserType === 'admin' ? '/admin/login' : `/login/${requiredUserType}`);
+          const loginPath = redirectTo || getLoginPath(requiredUserType);
           router.replace(loginPath);
           
           setState({
@@ -226,7 +229,7 @@ export function useProtectedRoute(
             `❌ Wrong user type: ${currentUserType} (required: ${requiredUserType})`
           );
 
-          const loginPath = redirectTo || (requiredUserType === 'admin' ? '/admin/login' : `/login/${requiredUserType}`);
+          const loginPath = redirectTo || getLoginPath(requiredUserType);
           router.replace(loginPath);
           
           setState({
@@ -293,7 +296,7 @@ export function useProtectedRoute(
         console.error("❌ Auth check error:", error);
         clearAuth();
 
-        const loginPath = redirectTo || (requiredUserType === 'admin' ? '/admin/login' : `/login/${requiredUserType}`);
+        const loginPath = redirectTo || getLoginPath(requiredUserType);
         router.replace(loginPath);
         
         setState({
@@ -0,0 +1,150 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { useWebSocket } from './useWebSocket';
+import { getToken } from '@/lib/apiClient';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : 'http://localhost:4000';
+
+export type TrialClockStatus = 'idle' | 'running' | 'paused' | 'completed';
+export type TrialClockAction = 'start' | 'pause' | 'resume' | 'extend' | 'next' | 'reset';
+
+export interface TrialPhase {
+  key: string;
+  label: string;
+  defaultDuration: number;
+}
+
+export interface TrialPhaseClock {
+  phase: string | null;
+  phaseIndex: number;
+  phaseLabel: string | null;
+  phases: TrialPhase[];
+  status: TrialClockStatus;
+  durationSeconds: number;
+  remainingSeconds: number;
+  endsAt: string | null;
+  updatedAt: string;
+  serverTime: string;
+}
+
+interface TrialClockEvent {
+  caseId: string | number;
+  clock: TrialPhaseClock;
+}
+
+interface ClockControlOptions {
+  phase?: string;
+  durationSeconds?: number;
+  seconds?: number;
+}
+
+interface UseTrialPhaseClockReturn {
+  clock: TrialPhaseClock | null;
+  remainingSeconds: number;
+  control: (action: TrialClockAction, options?: ClockControlOptions) => Promise<void>;
+}
+
+export function useTrialPhaseClock(caseId: string): UseTrialPhaseClockReturn {
+  const { socket, isConnected, joinRoom, on, off } = useWebSocket();
+  const [clock, setClock] = useState<TrialPhaseClock | null>(null);
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+  // Difference between server and local time, so every client counts down to the same instant
+  const serverOffsetRef = useRef(0);
+
+  const applyClock = useCallback((next: TrialPhaseClock) => {
+    serverOffsetRef.current = new Date(next.serverTime).getTime() - Date.now();
+    setClock(next);
+  }, []);
+
+  const loadClock = useCallback(async () => {
+    if (!caseId) return;
+    try {
+      const response = await fetch(`${API_BASE}/api/trial/clock/${caseId}`, {
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (data.clock) applyClock(data.clock);
+      }
+    } catch (err) {
+      console.error('Error loading trial clock:', err);
+    }
+  }, [caseId, applyClock]);
+
+  useEffect(() => {
+    loadClock();
+  }, [loadClock]);
+
+  useEffect(() => {
+    if (!isConnected || !socket || !caseId) return;
+
+    // Joining the case room makes the server push the current clock state
+    joinRoom(`case_${caseId}`);
+
+    const handleClockState = (data: TrialClockEvent) => {
+      if (String(data.caseId) === String(caseId)) {
+        applyClock(data.clock);
+      }
+    };
+
+    on('trial_clock:state', handleClockState);
+
+    return () => {
+      off('trial_clock:state', handleClockState);
+    };
+  }, [isConnected, socket, caseId, joinRoom, on, off, applyClock]);
+
+  useEffect(() => {
+    const tick = () => {
+      if (!clock) {
+        setRemainingSeconds(0);
+        return;
+      }
+      if (clock.status === 'running' && clock.endsAt) {
+        const now = Date.now() + serverOffsetRef.current;
+        setRemainingSeconds(Math.max(0, Math.round((new Date(clock.endsAt).getTime() - now) / 1000)));
+      } else {
+        setRemainingSeconds(clock.remainingSeconds);
+      }
+    };
+
+    tick();
+    if (clock?.status !== 'running') return;
+
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [clock]);
+
+  const control = useCallback(
+    (action: TrialClockAction, options: ClockControlOptions = {}) =>
+      new Promise<void>((resolve, reject) => {
+        if (!socket?.connected) {
+          reject(new Error('Not connected to the trial server'));
+          return;
+        }
+        socket.emit(
+          'trial_clock:control',
+          { caseId, action, ...options },
+          (response: { success: boolean; message?: string; clock?: TrialPhaseClock }) => {
+            if (response?.success) {
+              if (response.clock) applyClock(response.clock);
+              resolve();
+            } else {
+              reject(new Error(response?.message || 'Failed to update trial clock'));
+            }
+          }
+        );
+      }),
+    [socket, caseId, applyClock]
+  );
+
+  return {
+    clock,
+    remainingSeconds,
+    control,
+  };
+}
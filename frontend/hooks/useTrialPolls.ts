@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { useWebSocket } from './useWebSocket';
+import { getToken } from '@/lib/apiClient';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : 'http://localhost:4000';
+
+export const POLL_LIMITS = {
+  MAX_QUESTION_LENGTH: 300,
+  MAX_OPTION_LENGTH: 100,
+  MIN_OPTIONS: 2,
+  MAX_OPTIONS: 6,
+};
+
+export interface TrialPollResult {
+  option: string;
+  count: number;
+  percentage: number;
+}
+
+export interface TrialPoll {
+  pollId: number;
+  caseId: number;
+  question: string;
+  options: string[];
+  status: 'open' | 'closed';
+  createdAt: string;
+  closedAt: string | null;
+  // Admin and attorney only
+  totalResponses?: number;
+  results?: TrialPollResult[];
+  // Juror only
+  hasResponded?: boolean;
+}
+
+interface PollEvent {
+  caseId: string | number;
+  poll: TrialPoll;
+}
+
+interface PollClosedEvent {
+  caseId: string | number;
+  pollId: number;
+}
+
+interface UseTrialPollsReturn {
+  polls: TrialPoll[];
+  loading: boolean;
+  createPoll: (question: string, options: string[]) => Promise<void>;
+  closePoll: (pollId: number) => Promise<void>;
+  respond: (pollId: number, optionIndex: number) => Promise<void>;
+}
+
+/**
+ * Instant polls for a trial. Admins launch and close polls, jurors get open
+ * polls pushed to them and answer anonymously, and admins and the case
+ * attorney see results update live. Jurors never receive results.
+ */
+export function useTrialPolls(
+  caseId: string,
+  role: 'admin' | 'attorney' | 'juror',
+  onPollOpened?: (poll: TrialPoll) => void
+): UseTrialPollsReturn {
+  const { socket, isConnected, joinRoom, emit, on, off } = useWebSocket();
+  const [polls, setPolls] = useState<TrialPoll[]>([]);
+  const [loading, setLoading] = useState(true);
+  const onPollOpenedRef = useRef(onPollOpened);
+  onPollOpenedRef.current = onPollOpened;
+
+  const upsertPoll = useCallback((poll: TrialPoll) => {
+    setPolls((prev) => {
+      const index = prev.findIndex((p) => p.pollId === poll.pollId);
+      if (index === -1) return [...prev, poll];
+      const next = [...prev];
+      next[index] = { ...next[index], ...poll };
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!caseId) return;
+
+    fetch(`${API_BASE}/api/trial/polls/${caseId}`, {
+      headers: {
+        Authorization: `Bearer ${getToken()}`,
+      },
+    })
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) setPolls(data.polls || []);
+      })
+      .catch((err) => console.error('Error loading polls:', err))
+      .finally(() => setLoading(false));
+  }, [caseId]);
+
+  useEffect(() => {
+    if (!isConnected || !socket || !caseId) return;
+
+    joinRoom(`case_${caseId}`);
+
+    const handleOpened = (data: PollEvent) => {
+      if (String(data.caseId) !== String(caseId)) return;
+      if (role === 'juror') upsertPoll({ ...data.poll, hasResponded: false });
+      onPollOpenedRef.current?.(data.poll);
+    };
+    on('poll:opened', handleOpened);
+
+    if (role === 'juror') {
+      // Jurors only see open polls, so a closed poll simply goes away
+      const handleClosed = (data: PollClosedEvent) => {
+        if (String(data.caseId) !== String(caseId)) return;
+        setPolls((prev) => prev.filter((p) => p.pollId !== data.pollId));
+      };
+
+      on('poll:closed', handleClosed);
+      return () => {
+        off('poll:opened', handleOpened);
+        off('poll:closed', handleClosed);
+      };
+    }
+
+    // Results go to a separate room so they never reach jurors
+    emit('join_poll_results', caseId);
+
+    const handleResults = (data: PollEvent) => {
+      if (String(data.caseId) !== String(caseId)) return;
+      upsertPoll(data.poll);
+    };
+
+    on('poll:results', handleResults);
+    return () => {
+      off('poll:opened', handleOpened);
+      off('poll:results', handleResults);
+    };
+  }, [isConnected, socket, caseId, role, joinRoom, emit, on, off, upsertPoll]);
+
+  const postPoll = useCallback(
+    async (path: string, body: object) => {
+      const response = await fetch(`${API_BASE}/api/trial/polls/${caseId}${path}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${getToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update poll');
+      }
+      return data;
+    },
+    [caseId]
+  );
+
+  const createPoll = useCallback(
+    async (question: string, options: string[]) => {
+      const data = await postPoll('', { question, options });
+      upsertPoll(data.poll);
+    },
+    [postPoll, upsertPoll]
+  );
+
+  const closePoll = useCallback(
+    async (pollId: number) => {
+      const data = await postPoll(`/${pollId}/close`, {});
+      upsertPoll(data.poll);
+    },
+    [postPoll, upsertPoll]
+  );
+
+  const respond = useCallback(
+    async (pollId: number, optionIndex: number) => {
+      await postPoll(`/${pollId}/respond`, { optionIndex });
+      setPolls((prev) => prev.map((p) => (p.pollId === pollId ? { ...p, hasResponded: true } : p)));
+    },
+    [postPoll]
+  );
+
+  return {
+    polls,
+    loading,
+    createPoll,
+    closePoll,
+    respond,
+  };
+}
@@ -46,7 +46,7 @@ export interface AuthUser {
   // ===== COMMON FIELDS (all user types) =====
   id: number;
   email: string;
-  type: "attorney" | "juror" | "admin";
+  type: "attorney" | "juror" | "admin" | "team_member";
   verified?: boolean;
   verificationStatus?: string;
   isActive?: boolean;
@@ -470,7 +470,7 @@ export function isAuthenticated(): boolean {
 /**
  * Get current user type
  */
-export function getUserType(): "attorney" | "juror" | "admin" | null {
+export function getUserType(): AuthUser["type"] | null {
   const user = getUser();
   return user?.type || null;
 }
@@ -0,0 +1,180 @@
+/**
+ * Case Creation Drafts
+ *
+ * The case wizard (attorney/state/*) keeps its working values in localStorage.
+ * Those values are autosaved to a server-side CaseDraft so an unfinished case
+ * can be resumed from another browser. Card details are never included.
+ */
+
+import { getToken } from '@/lib/apiClient';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : 'http://localhost:4000';
+
+/** localStorage key holding the id of the draft being edited */
+export const CASE_DRAFT_ID_KEY = 'caseDraftId';
+
+/** Wizard localStorage keys mirrored into the draft */
+export const CASE_DRAFT_KEYS = [
+  'caseJurisdiction',
+  'state',
+  'county',
+  'caseType',
+  'caseTier',
+  'caseDescription',
+  'plaintiffGroups',
+  'defendantGroups',
+  'voirDire2Questions',
+  'paymentMethod',
+  'paymentAmount',
+] as const;
+
+// Keys stored as JSON strings in localStorage
+const JSON_KEYS = new Set<string>(['plaintiffGroups', 'defendantGroups', 'voirDire2Questions']);
+
+export type CaseDraftStep =
+  | 'case-type'
+  | 'case-details'
+  | 'plaintiff-details'
+  | 'defendant-details'
+  | 'voir-dire-1'
+  | 'voir-dire-2'
+  | 'payment-details'
+  | 'review-details'
+  | 'schedule-trail';
+
+export const CASE_DRAFT_STEP_LABELS: Record<CaseDraftStep, string> = {
+  'case-type': 'Case Type',
+  'case-details': 'Case Details',
+  'plaintiff-details': 'Plaintiff Details',
+  'defendant-details': 'Defendant Details',
+  'voir-dire-1': 'Voir Dire Part 1',
+  'voir-dire-2': 'Voir Dire Part 2',
+  'payment-details': 'Payment Details',
+  'review-details': 'Review',
+  'schedule-trail': 'Schedule Trial',
+};
+
+export type CaseDraftData = Partial<Record<(typeof CASE_DRAFT_KEYS)[number], unknown>>;
+
+export interface CaseDraft {
+  draftId: number;
+  title: string | null;
+  currentStep: CaseDraftStep;
+  status: string;
+  data: CaseDraftData;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+// ============================================
+// LOCAL WIZARD STATE
+// ============================================
+
+/**
+ * Read the wizard's current values from localStorage
+ */
+export function readWizardSnapshot(): CaseDraftData {
+  const data: CaseDraftData = {};
+  CASE_DRAFT_KEYS.forEach((key) => {
+    const raw = localStorage.getItem(key);
+    if (raw === null || raw === '') return;
+    if (JSON_KEYS.has(key)) {
+      try {
+        data[key] = JSON.parse(raw);
+      } catch {
+        // Skip values the wizard could not read either
+      }
+    } else {
+      data[key] = raw;
+    }
+  });
+  return data;
+}
+
+/**
+ * Remove all wizard values (and the draft id) from localStorage
+ */
+export function clearWizardStorage(): void {
+  CASE_DRAFT_KEYS.forEach((key) => localStorage.removeItem(key));
+  localStorage.removeItem(CASE_DRAFT_ID_KEY);
+}
+
+/**
+ * Load a draft into localStorage so the wizard pages pick it up
+ */
+export function restoreWizardSnapshot(draft: CaseDraft): void {
+  clearWizardStorage();
+  CASE_DRAFT_KEYS.forEach((key) => {
+    const value = draft.data[key];
+    if (value === undefined || value === null) return;
+    localStorage.setItem(key, JSON_KEYS.has(key) ? JSON.stringify(value) : String(value));
+  });
+  localStorage.setItem(CASE_DRAFT_ID_KEY, String(draft.draftId));
+}
+
+/**
+ * Id of the draft being edited, if any
+ */
+export function getActiveDraftId(): number | null {
+  const raw = localStorage.getItem(CASE_DRAFT_ID_KEY);
+  const id = raw ? parseInt(raw, 10) : NaN;
+  return Number.isNaN(id) ? null : id;
+}
+
+// ============================================
+// API
+// ============================================
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${API_BASE}/api/case-drafts${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${getToken()}`,
+      ...init.headers,
+    },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const error = new Error(data.message || data.error || 'Draft request failed') as Error & { status?: number };
+    error.status = response.status;
+    throw error;
+  }
+  return data as T;
+}
+
+export async function listDrafts(): Promise<{ drafts: CaseDraft[]; expiryDays: number }> {
+  return request<{ drafts: CaseDraft[]; expiryDays: number }>('');
+}
+
+export async function getDraft(draftId: number): Promise<CaseDraft> {
+  const data = await request<{ draft: CaseDraft }>(`/${draftId}`);
+  return data.draft;
+}
+
+export async function createDraft(data: CaseDraftData, currentStep: CaseDraftStep): Promise<CaseDraft> {
+  const result = await request<{ draft: CaseDraft }>('', {
+    method: 'POST',
+    body: JSON.stringify({ data, currentStep }),
+  });
+  return result.draft;
+}
+
+export async function saveDraft(
+  draftId: number,
+  data: CaseDraftData,
+  currentStep: CaseDraftStep
+): Promise<CaseDraft> {
+  const result = await request<{ draft: CaseDraft }>(`/${draftId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ data, currentStep }),
+  });
+  return result.draft;
+}
+
+export async function discardDraft(draftId: number): Promise<void> {
+  await request(`/${draftId}`, { method: 'DELETE' });
+}
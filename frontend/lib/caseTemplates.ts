@@ -0,0 +1,118 @@
+/**
+ * Case Template Library
+ *
+ * Attorneys save jury charge questions and voir dire Part 2 questions as a
+ * named template (personal, or shared with their law firm) and import it into
+ * a new case. Jury charge imports run on the server so conditions can be
+ * remapped to the new QuestionIds; voir dire imports merge into the wizard's
+ * local state.
+ */
+
+import { getToken } from '@/lib/apiClient';
+import { ConditionOperator } from '@/lib/juryChargeConditions';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : 'http://localhost:4000';
+
+export type TemplateVisibility = 'personal' | 'firm';
+
+export type TemplateKind = 'juryCharge' | 'voirDire';
+
+export interface TemplateJuryChargeQuestion {
+  questionText: string;
+  questionType: string;
+  options: string[];
+  isRequired: boolean;
+  minValue: number | null;
+  maxValue: number | null;
+  /** References an earlier question by its position in the template */
+  condition: { questionIndex: number; operator: ConditionOperator; value: string } | null;
+}
+
+export interface TemplateVoirDireQuestion {
+  question: string;
+  type: 'yesno' | 'text';
+}
+
+export interface CaseTemplate {
+  templateId: number;
+  attorneyId: number;
+  ownerName: string | null;
+  name: string;
+  description: string | null;
+  caseType: string | null;
+  visibility: TemplateVisibility;
+  juryChargeQuestions: TemplateJuryChargeQuestion[];
+  voirDireQuestions: TemplateVoirDireQuestion[];
+  juryChargeCount: number;
+  voirDireCount: number;
+  isOwner: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveTemplateInput {
+  name: string;
+  description?: string;
+  caseType?: string;
+  visibility: TemplateVisibility;
+  juryChargeQuestions?: TemplateJuryChargeQuestion[];
+  voirDireQuestions?: TemplateVoirDireQuestion[];
+  /** Snapshot this case's current jury charge instead of posting questions */
+  sourceCaseId?: number;
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${API_BASE}/api${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${getToken()}`,
+      ...init.headers,
+    },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || data.error || 'Template request failed');
+  }
+  return data as T;
+}
+
+export async function listTemplates(): Promise<CaseTemplate[]> {
+  const data = await request<{ templates: CaseTemplate[] }>('/case-templates');
+  return data.templates || [];
+}
+
+export async function saveTemplate(input: SaveTemplateInput): Promise<CaseTemplate> {
+  const data = await request<{ template: CaseTemplate }>('/case-templates', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return data.template;
+}
+
+export async function deleteTemplate(templateId: number): Promise<void> {
+  await request(`/case-templates/${templateId}`, { method: 'DELETE' });
+}
+
+/**
+ * Append a template's jury charge questions to a case
+ * @returns The server message and the case's full question list
+ */
+export async function importJuryChargeTemplate<Q>(
+  caseId: number,
+  templateId: number
+): Promise<{ message: string; questions: Q[] }> {
+  return request<{ message: string; questions: Q[] }>(`/jury-charge/import-template/${caseId}`, {
+    method: 'POST',
+    body: JSON.stringify({ templateId }),
+  });
+}
+
+/**
+ * Number of questions a template contributes for the given kind
+ */
+export function templateQuestionCount(template: CaseTemplate, kind: TemplateKind): number {
+  return kind === 'juryCharge' ? template.juryChargeCount : template.voirDireCount;
+}
@@ -0,0 +1,98 @@
+/**
+ * Damages Amount Utilities
+ *
+ * "Damages Amount" jury charge questions store the juror's award as a plain
+ * numeric string (e.g. "125000.50"). These helpers format it as currency for
+ * display and keep typed input clean. The backend re-checks the amount against
+ * the question's MinValue/MaxValue on submit.
+ */
+
+export const DAMAGES_QUESTION_TYPE = 'Damages Amount';
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  maximumFractionDigits: 2,
+});
+
+/**
+ * Parse an amount ("$125,000.50" or "125000.5")
+ * @returns The dollar amount, or null when blank or not a number
+ */
+export function parseDamagesAmount(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const cleaned = String(value).replace(/[$,\s]/g, '');
+  if (cleaned === '') return null;
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+/**
+ * Format an amount as US currency
+ *
+ * @example
+ * formatDamagesAmount("125000.5") // "$125,000.50"
+ */
+export function formatDamagesAmount(value: string | number | null | undefined): string {
+  const amount = parseDamagesAmount(value);
+  return amount === null ? '' : currencyFormatter.format(amount);
+}
+
+/**
+ * Keep only digits and a single decimal point with at most two places
+ *
+ * @example
+ * sanitizeDamagesInput("$1,250.999") // "1250.99"
+ */
+export function sanitizeDamagesInput(input: string): string {
+  const digits = input.replace(/[^\d.]/g, '');
+  const [whole, ...rest] = digits.split('.');
+  if (rest.length === 0) return whole;
+  return `${whole}.${rest.join('').slice(0, 2)}`;
+}
+
+/**
+ * Display an input value with thousands separators while typing
+ *
+ * @example
+ * displayDamagesInput("1250000.5") // "1,250,000.5"
+ */
+export function displayDamagesInput(value: string | undefined): string {
+  if (!value) return '';
+  const [whole, decimals] = value.split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return decimals !== undefined ? `${grouped}.${decimals}` : grouped;
+}
+
+/**
+ * Describe the allowed range, e.g. "Between $0 and $500,000"
+ */
+export function describeDamagesBounds(minValue?: number | null, maxValue?: number | null): string {
+  const hasMin = minValue !== null && minValue !== undefined;
+  const hasMax = maxValue !== null && maxValue !== undefined;
+  if (hasMin && hasMax) return `Between ${formatDamagesAmount(minValue)} and ${formatDamagesAmount(maxValue)}`;
+  if (hasMin) return `At least ${formatDamagesAmount(minValue)}`;
+  if (hasMax) return `Up to ${formatDamagesAmount(maxValue)}`;
+  return 'Any amount';
+}
+
+/**
+ * Client-side bounds check mirroring the server
+ * @returns An error message, or null when the amount is acceptable
+ */
+export function getDamagesError(
+  value: string | undefined,
+  minValue?: number | null,
+  maxValue?: number | null
+): string | null {
+  if (!value || value.trim() === '') return null;
+  const amount = parseDamagesAmount(value);
+  if (amount === null || amount < 0) return 'Enter a dollar amount of 0 or more';
+  if (minValue !== null && minValue !== undefined && amount < minValue) {
+    return `Amount must be at least ${formatDamagesAmount(minValue)}`;
+  }
+  if (maxValue !== null && maxValue !== undefined && amount > maxValue) {
+    return `Amount must be at most ${formatDamagesAmount(maxValue)}`;
+  }
+  return null;
+}
@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import fixture from '../../backend/test/fixtures/questionConditions.json';
+import {
+  describeCondition,
+  getVisibleQuestionIds,
+  pruneHiddenAnswers,
+  type ConditionalQuestion,
+} from './juryChargeConditions';
+
+// Same fixture as the backend's submit-time check, so both sides agree on what applies
+const questions = fixture.questions as ConditionalQuestion[];
+
+test('getVisibleQuestionIds matches the shared fixture', async (t) => {
+  for (const { name, answers, visible } of fixture.cases) {
+    await t.test(name, () => {
+      const ids = getVisibleQuestionIds(questions, answers);
+      assert.deepEqual([...ids].sort((a, b) => a - b), visible);
+    });
+  }
+});
+
+test('pruneHiddenAnswers drops answers to questions that no longer apply', () => {
+  assert.deepEqual(pruneHiddenAnswers(questions, { '1': 'No', '2': 'Plaintiff', '4': 'Defendant' }), {
+    '1': 'No',
+    '4': 'Defendant',
+  });
+});
+
+test('describeCondition names the parent question by position', () => {
+  assert.equal(
+    describeCondition({ questionId: 1, operator: 'equals', value: 'Yes' }, questions),
+    'Shown if Question 1 is "Yes"'
+  );
+  assert.equal(
+    describeCondition({ questionId: 2, operator: 'answered', value: '' }, questions),
+    'Shown if Question 2 is answered'
+  );
+  assert.equal(
+    describeCondition({ questionId: 99, operator: 'not_equals', value: 'No' }, questions),
+    'Shown if a deleted question is not "No"'
+  );
+});
@@ -0,0 +1,110 @@
+/**
+ * Conditional Jury Charge Questions
+ *
+ * A question may carry a Condition on an earlier question's answer
+ * ("If you answered Yes to Question 1, answer Question 2"). The backend
+ * enforces the same rules in utils/questionConditions.js on submit.
+ */
+
+export type ConditionOperator = 'equals' | 'not_equals' | 'includes' | 'answered';
+
+export interface QuestionCondition {
+  questionId: number;
+  operator: ConditionOperator;
+  value: string;
+}
+
+export interface ConditionalQuestion {
+  QuestionId: number;
+  Condition?: QuestionCondition | null;
+}
+
+/** A jury charge question as served to jurors */
+export interface JuryChargeQuestion extends ConditionalQuestion {
+  QuestionText: string;
+  QuestionType: string;
+  Options: string[] | string;
+  IsRequired: boolean;
+  MinValue?: number | null;
+  MaxValue?: number | null;
+}
+
+export const CONDITION_OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  includes: 'includes',
+  answered: 'is answered',
+};
+
+function answerMatches(condition: QuestionCondition, answer: string | undefined): boolean {
+  const normalized = (answer ?? '').trim();
+  const expected = condition.value.trim().toLowerCase();
+
+  switch (condition.operator) {
+    case 'equals':
+      return normalized.toLowerCase() === expected;
+    case 'not_equals':
+      return normalized !== '' && normalized.toLowerCase() !== expected;
+    case 'includes':
+      return normalized
+        .split(',')
+        .map((v) => v.trim().toLowerCase())
+        .includes(expected);
+    case 'answered':
+      return normalized !== '';
+    default:
+      return true;
+  }
+}
+
+/**
+ * Return the IDs of questions that apply given the answers so far.
+ * A question is hidden if its condition fails or the question it depends on is hidden.
+ *
+ * @param questions - Questions in display order
+ * @param answers - Map of questionId -> answer
+ */
+export function getVisibleQuestionIds(
+  questions: ConditionalQuestion[],
+  answers: Record<string | number, string | undefined>
+): Set<number> {
+  const visible = new Set<number>();
+
+  for (const question of questions) {
+    const condition = question.Condition;
+    if (!condition) {
+      visible.add(question.QuestionId);
+      continue;
+    }
+    if (visible.has(condition.questionId) && answerMatches(condition, answers[condition.questionId])) {
+      visible.add(question.QuestionId);
+    }
+  }
+
+  return visible;
+}
+
+/**
+ * Drop answers to questions that no longer apply, so they are not submitted
+ */
+export function pruneHiddenAnswers<T extends string | undefined>(
+  questions: ConditionalQuestion[],
+  answers: Record<string, T>
+): Record<string, T> {
+  const visible = getVisibleQuestionIds(questions, answers);
+  return Object.fromEntries(
+    Object.entries(answers).filter(([questionId]) => visible.has(parseInt(questionId)))
+  );
+}
+
+/**
+ * Human-readable description, e.g. `Shown if Question 1 is "Yes"`
+ */
+export function describeCondition(condition: QuestionCondition, questions: ConditionalQuestion[]): string {
+  const parentIndex = questions.findIndex((q) => q.QuestionId === condition.questionId);
+  const parentLabel = parentIndex >= 0 ? `Question ${parentIndex + 1}` : 'a deleted question';
+  const operator = CONDITION_OPERATOR_LABELS[condition.operator] ?? condition.operator;
+  return condition.operator === 'answered'
+    ? `Shown if ${parentLabel} ${operator}`
+    : `Shown if ${parentLabel} ${operator} "${condition.value}"`;
+}
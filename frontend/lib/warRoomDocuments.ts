@@ -0,0 +1,75 @@
+/**
+ * War Room Document Versions
+ *
+ * Uploading a file as a new version of an existing war room document keeps
+ * the earlier files. The document always serves its current version to jurors
+ * and trial exhibits; an earlier version can be restored, which re-issues it
+ * as the newest version.
+ */
+
+import { getToken } from '@/lib/apiClient';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : 'http://localhost:4000';
+
+export interface DocumentVersion {
+  VersionId: number;
+  DocumentId: number;
+  VersionNumber: number;
+  FileName: string;
+  /** Short-lived read URL */
+  FileUrl: string;
+  Description: string | null;
+  SizeFormatted: string;
+  UploadedByName: string | null;
+  /** Version this one was restored from, if it is a restore */
+  RestoredFromVersion: number | null;
+  CreatedAt: string;
+  /** When the version was first/last shown to the jury as a trial exhibit */
+  FirstPresentedAt: string | null;
+  LastPresentedAt: string | null;
+  IsCurrent: boolean;
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${API_BASE}/api/war-room${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${getToken()}`,
+      ...init.headers,
+    },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || data.error || 'Document request failed');
+  }
+  return data as T;
+}
+
+export async function listDocumentVersions(
+  caseId: string | number,
+  documentId: number
+): Promise<DocumentVersion[]> {
+  const data = await request<{ versions: DocumentVersion[] }>(
+    `/cases/${caseId}/war-room/documents/${documentId}/versions`
+  );
+  return data.versions || [];
+}
+
+/**
+ * Make an earlier version current again
+ * @returns The version number the restored file was given
+ */
+export async function restoreDocumentVersion(
+  caseId: string | number,
+  documentId: number,
+  versionNumber: number
+): Promise<number> {
+  const data = await request<{ versionNumber: number }>(
+    `/cases/${caseId}/war-room/documents/${documentId}/versions/${versionNumber}/restore`,
+    { method: 'POST' }
+  );
+  return data.versionNumber;
+}
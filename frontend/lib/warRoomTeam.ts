@@ -0,0 +1,127 @@
+/**
+ * War Room Team Access
+ *
+ * Attorneys invite war room team members (paralegals, consultants,
+ * co-counsel) by email and choose what each may do on the case. Invitees
+ * accept to create a team member login; their access is scoped to the
+ * permissions granted per case.
+ */
+
+import { getToken } from '@/lib/apiClient';
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL
+  ? process.env.NEXT_PUBLIC_API_URL.replace(/\/api$/, '')
+  : 'http://localhost:4000';
+
+export type TeamPermission = 'viewDocuments' | 'uploadDocuments' | 'editJuryCharge' | 'attendTrial';
+
+export type TeamPermissions = Record<TeamPermission, boolean>;
+
+export type TeamInviteStatus = 'pending' | 'accepted';
+
+export const TEAM_PERMISSION_LABELS: Record<TeamPermission, string> = {
+  viewDocuments: 'View documents',
+  uploadDocuments: 'Upload documents',
+  editJuryCharge: 'Edit jury charge',
+  attendTrial: 'Observe trial',
+};
+
+export const DEFAULT_TEAM_PERMISSIONS: TeamPermissions = {
+  viewDocuments: true,
+  uploadDocuments: false,
+  editJuryCharge: false,
+  attendTrial: false,
+};
+
+export interface TeamMemberRecord {
+  Id: number;
+  CaseId: number;
+  Name: string;
+  Role: string;
+  Email: string;
+  AddedAt: string;
+  AccountId: number | null;
+  InviteStatus: TeamInviteStatus;
+  InvitedAt: string | null;
+  InviteExpiresAt: string | null;
+  AcceptedAt: string | null;
+  Permissions: TeamPermissions;
+}
+
+/** A case as seen by a signed-in team member */
+export interface TeamCase extends TeamMemberRecord {
+  caseTitle: string;
+  caseType: string;
+  county: string;
+  state: string;
+  scheduledDate: string | null;
+  scheduledTime: string | null;
+  attorneyStatus: string;
+  attorneyName: string;
+  lawFirmName: string | null;
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${API_BASE}/api${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${getToken()}`,
+      ...init.headers,
+    },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || data.error || 'Team request failed');
+  }
+  return data as T;
+}
+
+/**
+ * Uploading implies viewing, so keep the pair consistent when one is toggled
+ */
+export function togglePermission(
+  permissions: TeamPermissions,
+  permission: TeamPermission
+): TeamPermissions {
+  const next = { ...permissions, [permission]: !permissions[permission] };
+  if (permission === 'uploadDocuments' && next.uploadDocuments) next.viewDocuments = true;
+  if (permission === 'viewDocuments' && !next.viewDocuments) next.uploadDocuments = false;
+  return next;
+}
+
+// ============================================
+// ATTORNEY
+// ============================================
+
+export async function updateTeamPermissions(
+  caseId: number | string,
+  memberId: number,
+  permissions: TeamPermissions
+): Promise<TeamMemberRecord> {
+  const data = await request<{ member: TeamMemberRecord }>(
+    `/war-room/cases/${caseId}/team/${memberId}/permissions`,
+    { method: 'PUT', body: JSON.stringify(permissions) }
+  );
+  return data.member;
+}
+
+export async function resendTeamInvite(
+  caseId: number | string,
+  memberId: number
+): Promise<TeamMemberRecord> {
+  const data = await request<{ member: TeamMemberRecord }>(
+    `/war-room/cases/${caseId}/team/${memberId}/invite`,
+    { method: 'POST' }
+  );
+  return data.member;
+}
+
+// ============================================
+// TEAM MEMBER
+// ============================================
+
+export async function listTeamCases(): Promise<TeamCase[]> {
+  const data = await request<{ cases: TeamCase[] }>('/war-room/team-member/cases');
+  return data.cases || [];
+}
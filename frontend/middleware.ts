@@ -21,6 +21,7 @@ export function middleware(request: NextRequest) {
     { pattern: /^\/attorney(\/|$)/i, loginPath: '/login/attorney', name: 'attorney' },
     { pattern: /^\/admin(\/|$)/i, loginPath: '/admin/login', name: 'admin' },
     { pattern: /^\/juror(\/|$)/i, loginPath: '/login/juror', name: 'juror' },
+    { pattern: /^\/team(\/|$)/i, loginPath: '/login/team', name: 'team_member' },
   ];
 
   // Public routes that should not be protected
@@ -28,6 +29,7 @@ export function middleware(request: NextRequest) {
     '/login',
     '/signup',
     '/admin/login',
+    '/team/invite',
   ];
 
   // Check if current path is a public route
@@ -56,7 +58,7 @@ export function middleware(request: NextRequest) {
 /**
  * Configure which routes the middleware should run on
  *
- * This middleware will run on all /attorney, /admin, and /juror routes
+ * This middleware will run on all /attorney, /admin, /juror and /team routes
  * except for static files, API routes, and Next.js internal routes
  */
 export const config = {